@@ -2,10 +2,13 @@ import React, { useState, useCallback, useEffect } from 'react';
 import { Routes, Route, useNavigate, useParams, Navigate, useLocation } from 'react-router-dom';
 import { User, Application, Event as EventType, Club, ClubTeamMember, AnnualEvent, Notification, LeadershipMember, NewsArticle, ExternalEvent } from './types';
 import * as service from './services/mockService';
-import { firebaseAuthService, getUserWithProfile, userProfileService, createGuestUserProfile } from './services/firebaseAuthService';
+import { firebaseAuthService, getUserWithProfile, userProfileService } from './services/firebaseAuthService';
+import { guestIdentityService, GuestDetails } from './services/guestIdentityService';
 import { auth } from './firebaseConfig';
 import { firestoreDataService, clubApplicationsService } from './services/firestoreDataService';
 import { useDataFetching } from './hooks/useDataFetching';
+import { useNotifications } from './hooks/useNotifications';
+import { can } from './utils/permissions';
 import { assignContributorRole, revokeContributorFromClub, revokeAllContributorAccess, addClubMember, removeClubMember, updateClubMember, createClub } from './utils/adminUtils';
 import Header from './components/Header';
 import Footer from './components/Footer';
@@ -21,6 +24,8 @@ import ProfilePage from './components/ProfilePage';
 import DevAdminProfile from './components/DevAdminProfile';
 import AllAnnualEvents from './components/AllAnnualEvents';
 import AnnualEventDetail from './components/AnnualEventDetail';
+import JudgeScoringScreen from './components/JudgeScoringScreen';
+import CertificateVerification from './components/CertificateVerification';
 import AllNotifications from './components/AllNotifications';
 
 const ScrollToTop = () => {
@@ -53,7 +58,6 @@ const App: React.FC = () => {
     applications,
     users,
     annualEvents,
-    notifications,
     leadership,
     news,
     externalEvents,
@@ -63,6 +67,13 @@ const App: React.FC = () => {
     updateApplications,
   } = useDataFetching({ user, enableRealtime: false });
 
+  // Notifications stream in real time for the signed-in user, independent of the other data
+  const {
+    notifications: userNotifications,
+    markAsRead: handleMarkAsRead,
+    markAllAsRead: handleMarkAllAsRead,
+  } = useNotifications(user);
+
 
   // Auth state listener - only runs once
   useEffect(() => {
@@ -158,29 +169,11 @@ const App: React.FC = () => {
     }
   };
 
-  const handleGuestLogin = async (guestData: { name: string; email: string; phone: string; college: string; year: string; department: string }) => {
-    try {
-      // Create guest user profile in Firestore
-      const guestUser = await createGuestUserProfile(guestData);
-      setUser(guestUser);
-      navigate('/');
-    } catch (error) {
-      console.error('Error creating guest user profile:', error);
-      // Fallback: create guest user without storing in database
-      const guestUser: User = { 
-        id: `guest_${Date.now()}`, 
-        name: guestData.name,
-        email: guestData.email,
-        mobile: guestData.phone,
-        year: guestData.year,
-        branch: guestData.department,
-        collegeName: guestData.college,
-        role: 'guest', 
-        isGuest: true 
-      };
-      setUser(guestUser);
-      navigate('/');
-    }
+  // Guests sign in with an emailed code; errors surface in the guest form
+  const handleGuestLogin = async (guestData: GuestDetails, code: string) => {
+    const guestUser = await guestIdentityService.signIn(guestData, code);
+    setUser(guestUser);
+    navigate('/');
   };
 
   const handleLogout = async () => {
@@ -222,11 +215,28 @@ const App: React.FC = () => {
       alert(error.message || 'Failed to update club');
     }
   };
-  const handleApplicationStatusChange = async (clubId: string, app: Application, status: 'accepted' | 'rejected') => {
+  // Reload one club's applications into the shared list
+  const refreshClubApplications = async (clubId: string) => {
+    try {
+      const refreshed = await firestoreDataService.getClubApplications(clubId);
+      updateApplications(prev => {
+        const others = prev.filter(a => a.clubId !== clubId);
+        return [...others, ...refreshed];
+      });
+    } catch (e) {
+      console.warn('Failed to refresh applications', e);
+    }
+  };
+  const handleApplicationStatusChange = async (
+    clubId: string,
+    app: Application,
+    status: 'accepted' | 'rejected',
+    acceptOptions: { position: string; grantManagement: boolean } = { position: 'Member', grantManagement: false }
+  ) => {
     try {
       // Primary action
       if (status === 'accepted') {
-        await clubApplicationsService.acceptAndPromote(clubId, app.id);
+        await clubApplicationsService.acceptAndPromote(clubId, app.id, acceptOptions);
       } else {
         await clubApplicationsService.updateStatus(clubId, app.id, status);
       }
@@ -237,15 +247,7 @@ const App: React.FC = () => {
     }
 
     // Best-effort refresh (do not alert on failure if update already succeeded)
-    try {
-      const refreshed = await firestoreDataService.getClubApplications(clubId);
-      updateApplications(prev => {
-        const others = prev.filter(a => a.clubId !== clubId);
-        return [...others, ...refreshed];
-      });
-    } catch (e) {
-      console.warn('Status updated, but failed to refresh list', e);
-    }
+    await refreshClubApplications(clubId);
   };
   const handleNewApplication = async (application: Omit<Application, 'id'>) => {
     try {
@@ -259,7 +261,8 @@ const App: React.FC = () => {
         userBranch: application.userBranch,
         userMobile: application.userMobile,
         status: application.status,
-        answers: application.answers
+        answers: application.answers,
+        driveId: application.driveId
       });
       // Also update in-memory club-specific applications list immediately
       updateApplications(prev => [created, ...prev]);
@@ -338,8 +341,6 @@ const App: React.FC = () => {
     }
   };
   const handleUpdateEventHighlights = (eventId: string, highlights: EventType['highlights']) => { alert('Update highlights not implemented'); };
-  const handleMarkAsRead = (notificationId: string) => { alert('Mark as read not implemented'); };
-  const handleMarkAllAsRead = (userId: string) => { alert('Mark all as read not implemented'); };
 
   // Member management functions
   const handleAddClubMember = async (clubId: string, memberData: { name: string; position: string; imageUrl?: string }) => {
@@ -404,6 +405,15 @@ const App: React.FC = () => {
     );
   };
 
+  // Certificate checks are public, so they skip the loading screen and the sign-in gate
+  if (location.pathname.startsWith('/verify/')) {
+    return (
+      <Routes>
+        <Route path="/verify/:certId" element={<CertificateVerification />} />
+      </Routes>
+    );
+  }
+
   if (isLoading) {
     return <LoadingSpinner />;
   }
@@ -412,7 +422,6 @@ const App: React.FC = () => {
     return <LoginPage onLogin={handleLogin} onRegisterAndLogin={handleRegisterAndLogin} onCreateProfileForExistingUser={handleCreateProfileForExistingUser} onUserRegistered={setUser} onGuestLogin={handleGuestLogin} />;
   }
   
-  const userNotifications = notifications.filter(n => n.userId === user?.id);
 
   const ClubDetailWrapper = () => {
     const { clubId } = useParams<{ clubId: string }>();
@@ -448,6 +457,7 @@ const App: React.FC = () => {
       allUsers={users} 
       onUpdateClub={handleUpdateClub} 
       onApplicationStatusChange={handleApplicationStatusChange} 
+      onApplicationsChanged={refreshClubApplications}
       onNewApplication={handleNewApplication} 
       onCreateEvent={handleCreateEvent} 
       onUpdateEvent={handleUpdateEvent} 
@@ -466,16 +476,23 @@ const App: React.FC = () => {
     return <EventDetail event={event} clubs={clubs} user={user} onRegister={handleRegisterEvent} onUpdateEventHighlights={handleUpdateEventHighlights} onUpdateEvent={handleUpdateEvent} onRegistrationUpdate={handleRegistrationUpdate} />;
   };
 
+  const JudgeScoringWrapper = () => {
+    const { eventId } = useParams<{ eventId: string }>();
+    const event = events.find(e => e.id === eventId);
+    if (!event) return <Navigate to="/events" replace />;
+    return <JudgeScoringScreen event={event} user={user} />;
+  };
+
   const AnnualEventDetailWrapper = () => {
     const { eventId } = useParams<{ eventId: string }>();
     if (!eventId) return <Navigate to="/annual-events" replace />;
     const event = annualEvents.find(e => e.id === eventId);
     if (!event) return <Navigate to="/annual-events" replace />;
-    return <AnnualEventDetail event={event} allEvents={events} allClubs={clubs} />;
+    return <AnnualEventDetail event={event} allEvents={events} allClubs={clubs} user={user} />;
   };
 
   const ProfileWrapper = () => {
-      if(user.role === 'admin') {
+      if(can(user, 'view-admin-console')) {
           return <DevAdminProfile user={user} clubs={clubs} events={events} allUsers={users} onAssignRole={handleAssignContributor} onRevokeRole={handleRevokeContributor} />
       }
       return <ProfilePage user={user} onLogout={handleLogout} events={events} clubs={clubs} applications={applications} />
@@ -484,7 +501,7 @@ const App: React.FC = () => {
 
   return (
     <div className="font-sans min-h-screen flex flex-col">
-      <Header user={user} onLogout={handleLogout} applications={applications} notifications={userNotifications} onMarkAsRead={handleMarkAsRead} onMarkAllAsRead={() => handleMarkAllAsRead(user.id!)} />
+      <Header user={user} onLogout={handleLogout} applications={applications} notifications={userNotifications} onMarkAsRead={handleMarkAsRead} onMarkAllAsRead={handleMarkAllAsRead} />
       <main className="flex-1">
         <ScrollToTop />
         <div className="animate-fadeIn">
@@ -502,12 +519,13 @@ const App: React.FC = () => {
             <Route path="/clubs/:clubId" element={<ClubDetailWrapper />} />
             <Route path="/events" element={<AllEvents events={events} clubs={clubs} />} />
             <Route path="/events/:eventId" element={<EventDetailWrapper />} />
+            <Route path="/events/:eventId/judge" element={<JudgeScoringWrapper />} />
             <Route path="/annual-events" element={<AllAnnualEvents annualEvents={annualEvents} />} />
             <Route path="/annual-events/:eventId" element={<AnnualEventDetailWrapper />} />
             <Route path="/opportunities" element={<ExternalEvents externalEvents={externalEvents} />} />
             <Route path="/news" element={<News news={news} />} />
             <Route path="/profile" element={<ProfileWrapper />} />
-            <Route path="/notifications" element={<AllNotifications notifications={userNotifications} onMarkAsRead={handleMarkAsRead} />} />
+            <Route path="/notifications" element={<AllNotifications notifications={userNotifications} onMarkAsRead={handleMarkAsRead} onMarkAllAsRead={handleMarkAllAsRead} />} />
             <Route path="*" element={<Navigate to="/" replace />} />    
         </Routes>
         </div>
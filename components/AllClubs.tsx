@@ -4,6 +4,7 @@ import SectionHeader from './SectionHeader';
 import { Club, User, ClubTeamMember, Application } from '../types';
 import { CLUBS } from '../constants';
 import { firestoreDataService } from '../services/firestoreDataService';
+import { can } from '../utils/permissions';
 
 interface AllClubsProps {
   clubs: Club[];
@@ -315,7 +316,7 @@ const AllClubs: React.FC<AllClubsProps> = ({ clubs, user, allUsers, applications
                     <h2 className="text-4xl md:text-5xl font-extrabold text-white tracking-tighter">Student Clubs</h2>
                     <p className="mt-4 max-w-2xl text-lg text-gray-400">Explore our vibrant student community and find your passion. All clubs, one hub.</p>
                 </div>
-                {user?.role === 'admin' && (
+                {can(user, 'create-club') && (
                     <button
                         onClick={() => setCreateModalOpen(true)}
                         className="flex-shrink-0 bg-indigo-600 text-white font-bold py-3 px-5 rounded-lg hover:bg-indigo-700 transition-colors flex items-center gap-2"
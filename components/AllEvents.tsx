@@ -3,6 +3,7 @@ import { EventCategory, Event, Club } from '../types';
 import EventCard from './EventCard';
 import SectionHeader from './SectionHeader';
 import { getEventName } from '../utils/eventUtils';
+import { sortEventsBySchedule } from '../utils/eventSchedule';
 
 interface AllEventsProps {
     events: Event[];
@@ -18,14 +19,14 @@ const AllEvents: React.FC<AllEventsProps> = ({ events, clubs, registrations = {}
   const categories: EventCategory[] = ['Technical', 'Cultural', 'Workshop', 'Sports'];
 
   const filteredEvents = useMemo(() => {
-    return events.filter(event => {
+    return sortEventsBySchedule(events.filter(event => {
       // Safely handle event name/title field
       const eventName = getEventName(event);
       const matchesSearch = eventName.toLowerCase().includes(searchTerm.toLowerCase());
       const matchesClub = selectedClub === 'all' || event.organizerClubId === selectedClub;
       const matchesCategory = selectedCategory === 'all' || event.category === selectedCategory;
       return matchesSearch && matchesClub && matchesCategory;
-    });
+    }));
   }, [searchTerm, selectedClub, selectedCategory, events]);
 
   return (
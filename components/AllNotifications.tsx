@@ -27,6 +27,7 @@ const NotificationIcon: React.FC<{ type: NotificationType }> = ({ type }) => {
         case 'application-accepted':
         case 'event-winner':
         case 'access-granted':
+        case 'waitlist-promoted':
             return <svg xmlns="http://www.w3.org/2000/svg" className={`${iconStyles} text-green-400`} fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>;
         case 'application-rejected':
         case 'access-revoked':
@@ -40,9 +41,10 @@ const NotificationIcon: React.FC<{ type: NotificationType }> = ({ type }) => {
 interface AllNotificationsProps {
     notifications: Notification[];
     onMarkAsRead: (id: string) => void;
+    onMarkAllAsRead?: () => void;
 }
 
-const AllNotifications: React.FC<AllNotificationsProps> = ({ notifications, onMarkAsRead }) => {
+const AllNotifications: React.FC<AllNotificationsProps> = ({ notifications, onMarkAsRead, onMarkAllAsRead }) => {
     const [filter, setFilter] = useState<'all' | 'unread'>('all');
     const navigate = useNavigate();
 
@@ -82,6 +84,14 @@ const AllNotifications: React.FC<AllNotificationsProps> = ({ notifications, onMa
                 </button>
             </div>
 
+            {onMarkAllAsRead && notifications.some(n => !n.isRead) && (
+                <div className="flex justify-end mb-3">
+                    <button onClick={onMarkAllAsRead} className="text-sm text-indigo-400 hover:text-indigo-300 font-semibold">
+                        Mark all as read
+                    </button>
+                </div>
+            )}
+
             <div className="space-y-3">
                 {filteredNotifications.length > 0 ? (
                     filteredNotifications.map(notification => (
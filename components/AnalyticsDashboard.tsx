@@ -0,0 +1,289 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import * as XLSX from 'xlsx';
+import { Club, EventAttendanceSummary, EventCategory } from '../types';
+import { analyticsService } from '../services/analyticsService';
+import {
+  AnalyticsFilters,
+  compareSemesters,
+  filterSummaries,
+  getAttendanceTotals,
+  getRepeatAttendance,
+  getSemesterTrends,
+  mergeBreakdowns,
+  noShowRate,
+} from '../utils/analytics';
+
+interface AnalyticsDashboardProps {
+  clubs: Club[];
+}
+
+interface AttendanceRow {
+  label: string;
+  registered: number;
+  attended: number;
+}
+
+type ExportRow = Record<string, string | number>;
+
+const CATEGORIES: EventCategory[] = ['Technical', 'Cultural', 'Workshop', 'Sports'];
+
+const inputClass = 'px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-sm text-white';
+
+const exportRows = (rows: ExportRow[], name: string, bookType: 'csv' | 'xlsx') => {
+  const worksheet = XLSX.utils.json_to_sheet(rows);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, name.slice(0, 31));
+  XLSX.writeFile(workbook, `${name.replace(/\s+/g, '_').toLowerCase()}_${new Date().toISOString().slice(0, 10)}.${bookType}`, { bookType });
+};
+
+const attendanceExportRows = (rows: AttendanceRow[], labelHeader: string): ExportRow[] =>
+  rows.map(row => ({
+    [labelHeader]: row.label,
+    'Registered': row.registered,
+    'Checked In': row.attended,
+    'No-show Rate (%)': noShowRate(row),
+  }));
+
+const ChartCard: React.FC<{ title: string; rows: ExportRow[]; className?: string; children: React.ReactNode }> = ({ title, rows, className = '', children }) => (
+  <div className={`bg-slate-900 border border-slate-800 rounded-lg p-5 ${className}`}>
+    <div className="flex justify-between items-center mb-4 gap-2">
+      <h3 className="font-bold text-white">{title}</h3>
+      <div className="flex gap-1 text-xs">
+        <button onClick={() => exportRows(rows, title, 'csv')} disabled={rows.length === 0} className="px-2 py-1 rounded bg-slate-800 text-gray-300 hover:bg-slate-700 disabled:opacity-50">CSV</button>
+        <button onClick={() => exportRows(rows, title, 'xlsx')} disabled={rows.length === 0} className="px-2 py-1 rounded bg-slate-800 text-gray-300 hover:bg-slate-700 disabled:opacity-50">XLSX</button>
+      </div>
+    </div>
+    {rows.length === 0 ? <p className="text-sm text-gray-500">No data for these filters.</p> : children}
+  </div>
+);
+
+// Registered as the track and checked-in as the fill, scaled to the largest row
+const AttendanceBars: React.FC<{ rows: AttendanceRow[] }> = ({ rows }) => {
+  const max = Math.max(1, ...rows.map(row => row.registered));
+  return (
+    <div className="space-y-2 text-sm max-h-80 overflow-y-auto pr-1">
+      {rows.map(row => (
+        <div key={row.label} className="flex items-center gap-3">
+          <span className="w-32 truncate text-gray-300" title={row.label}>{row.label}</span>
+          <div className="flex-1 h-3 bg-slate-800 rounded">
+            <div className="h-3 bg-slate-600 rounded relative" style={{ width: `${(row.registered / max) * 100}%` }}>
+              <div className="absolute inset-y-0 left-0 bg-indigo-500 rounded" style={{ width: `${row.registered ? (row.attended / row.registered) * 100 : 0}%` }} />
+            </div>
+          </div>
+          <span className="w-20 text-right text-gray-400 whitespace-nowrap">{row.attended}/{row.registered}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const Legend: React.FC = () => (
+  <div className="flex gap-4 text-xs text-gray-400">
+    <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-slate-600" />Registered</span>
+    <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-indigo-500" />Checked in</span>
+  </div>
+);
+
+const byRegisteredDesc = (a: AttendanceRow, b: AttendanceRow) => b.registered - a.registered;
+
+// Cross-club attendance analytics built from the pre-aggregated per-event summaries
+const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ clubs }) => {
+  const [summaries, setSummaries] = useState<EventAttendanceSummary[]>([]);
+  const [filters, setFilters] = useState<AnalyticsFilters>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRebuilding, setIsRebuilding] = useState(false);
+  const [skipped, setSkipped] = useState<string[]>([]);
+
+  const loadSummaries = useCallback(async () => {
+    setIsLoading(true);
+    setSummaries(await analyticsService.getSummaries());
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadSummaries();
+  }, [loadSummaries]);
+
+  const handleRebuild = async () => {
+    setIsRebuilding(true);
+    try {
+      const result = await analyticsService.rebuildAll();
+      setSkipped(result.skipped);
+      await loadSummaries();
+    } catch (error) {
+      console.error('Error rebuilding attendance analytics:', error);
+      alert('Failed to rebuild analytics.');
+    } finally {
+      setIsRebuilding(false);
+    }
+  };
+
+  const updateFilter = (key: keyof AnalyticsFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value || undefined }));
+  };
+
+  const clubName = useCallback((clubId: string) => clubs.find(club => club.id === clubId)?.name || clubId, [clubs]);
+  const semesters = useMemo(
+    () => Array.from(new Set(summaries.map(summary => summary.semester))).sort(compareSemesters),
+    [summaries]
+  );
+  const filtered = useMemo(() => filterSummaries(summaries, filters), [summaries, filters]);
+  const totals = useMemo(() => getAttendanceTotals(filtered), [filtered]);
+  const repeat = useMemo(() => getRepeatAttendance(filtered), [filtered]);
+  const trends = useMemo(() => getSemesterTrends(filtered), [filtered]);
+  const lastUpdated = useMemo(
+    () => summaries.reduce((latest, summary) => summary.updatedAt > latest ? summary.updatedAt : latest, ''),
+    [summaries]
+  );
+
+  const eventRows = useMemo<AttendanceRow[]>(
+    () => [...filtered]
+      .sort((a, b) => b.startsAt.localeCompare(a.startsAt))
+      .map(summary => ({ label: summary.eventName, registered: summary.registered, attended: summary.attended })),
+    [filtered]
+  );
+  const clubRows = useMemo<AttendanceRow[]>(() => {
+    const byClub: Record<string, AttendanceRow> = {};
+    filtered.forEach(summary => {
+      const row = byClub[summary.clubId] || (byClub[summary.clubId] = { label: clubName(summary.clubId), registered: 0, attended: 0 });
+      row.registered += summary.registered;
+      row.attended += summary.attended;
+    });
+    return Object.keys(byClub).map(clubId => byClub[clubId]).sort(byRegisteredDesc);
+  }, [filtered, clubName]);
+  const breakdownRows = (key: 'byBranch' | 'byYear'): AttendanceRow[] => {
+    const merged = mergeBreakdowns(filtered, key);
+    return Object.keys(merged).map(label => ({ label, ...merged[label] })).sort(byRegisteredDesc);
+  };
+  const branchRows = useMemo(() => breakdownRows('byBranch'), [filtered]);
+  const yearRows = useMemo(() => breakdownRows('byYear').sort((a, b) => a.label.localeCompare(b.label)), [filtered]);
+  const audienceRows: AttendanceRow[] = totals.registered
+    ? [{ label: 'Internal', ...totals.internal }, { label: 'Guests', ...totals.guest }]
+    : [];
+  const trendRows: AttendanceRow[] = trends.map(trend => ({ label: trend.semester, registered: trend.registered, attended: trend.attended }));
+  const repeatMax = Math.max(1, ...repeat.distribution.map(bucket => bucket.attendees));
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-slate-900 border border-slate-800 rounded-lg p-6 space-y-4">
+        <div className="flex flex-wrap justify-between items-center gap-3">
+          <div>
+            <h2 className="text-xl font-bold text-white">Attendance Analytics</h2>
+            <p className="text-sm text-gray-400">
+              {lastUpdated ? `Last aggregated ${new Date(lastUpdated).toLocaleString()}` : 'Nothing aggregated yet. Rebuild to summarize every event.'}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button onClick={loadSummaries} disabled={isLoading} className="px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition-colors text-sm">
+              {isLoading ? 'Loading...' : 'Refresh'}
+            </button>
+            <button onClick={handleRebuild} disabled={isRebuilding} className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors text-sm disabled:opacity-50">
+              {isRebuilding ? 'Rebuilding...' : 'Rebuild All'}
+            </button>
+          </div>
+        </div>
+        {skipped.length > 0 && (
+          <p className="text-sm text-yellow-400">Left out {skipped.length} event(s) without a readable date: {skipped.join(', ')}</p>
+        )}
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+          <select value={filters.clubId || ''} onChange={e => updateFilter('clubId', e.target.value)} className={inputClass}>
+            <option value="">All clubs</option>
+            {clubs.map(club => <option key={club.id} value={club.id}>{club.name}</option>)}
+          </select>
+          <select value={filters.category || ''} onChange={e => updateFilter('category', e.target.value)} className={inputClass}>
+            <option value="">All categories</option>
+            {CATEGORIES.map(category => <option key={category} value={category}>{category}</option>)}
+          </select>
+          <select value={filters.fromSemester || ''} onChange={e => updateFilter('fromSemester', e.target.value)} className={inputClass}>
+            <option value="">From the first semester</option>
+            {semesters.map(semester => <option key={semester} value={semester}>From {semester}</option>)}
+          </select>
+          <select value={filters.toSemester || ''} onChange={e => updateFilter('toSemester', e.target.value)} className={inputClass}>
+            <option value="">To the latest semester</option>
+            {semesters.map(semester => <option key={semester} value={semester}>To {semester}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+        {[
+          { label: 'Events', value: totals.events },
+          { label: 'Registrations', value: totals.registered },
+          { label: 'Check-ins', value: totals.attended },
+          { label: 'No-show rate', value: `${totals.noShowRate}%` },
+          { label: 'Repeat attendees', value: repeat.repeatAttendees },
+        ].map(stat => (
+          <div key={stat.label} className="bg-slate-900/50 p-5 rounded-xl border border-slate-800">
+            <div className="text-3xl font-extrabold text-white">{stat.value}</div>
+            <div className="text-sm font-semibold text-gray-400">{stat.label}</div>
+          </div>
+        ))}
+      </div>
+
+      <Legend />
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <ChartCard title="Registrations vs Check-ins" rows={filtered.map(summary => ({
+          'Event': summary.eventName,
+          'Club': clubName(summary.clubId),
+          'Date': summary.startsAt.slice(0, 10),
+          'Semester': summary.semester,
+          'Category': summary.category,
+          'Registered': summary.registered,
+          'Checked In': summary.attended,
+          'No-show Rate (%)': noShowRate(summary),
+        }))}>
+          <AttendanceBars rows={eventRows} />
+        </ChartCard>
+
+        <ChartCard title="Semester Trends" rows={trends.map(trend => ({
+          'Semester': trend.semester,
+          'Events': trend.events,
+          'Registered': trend.registered,
+          'Checked In': trend.attended,
+          'No-show Rate (%)': trend.noShowRate,
+        }))}>
+          <AttendanceBars rows={trendRows} />
+        </ChartCard>
+
+        {!filters.clubId && (
+          <ChartCard title="By Club" rows={attendanceExportRows(clubRows, 'Club')}>
+            <AttendanceBars rows={clubRows} />
+          </ChartCard>
+        )}
+
+        <ChartCard title="Guests vs Internal" rows={attendanceExportRows(audienceRows, 'Audience')}>
+          <AttendanceBars rows={audienceRows} />
+        </ChartCard>
+
+        <ChartCard title="By Branch" rows={attendanceExportRows(branchRows, 'Branch')}>
+          <AttendanceBars rows={branchRows} />
+        </ChartCard>
+
+        <ChartCard title="By Year" rows={attendanceExportRows(yearRows, 'Year')}>
+          <AttendanceBars rows={yearRows} />
+        </ChartCard>
+
+        <ChartCard title="Repeat Attendance" rows={repeat.uniqueAttendees ? repeat.distribution.map(bucket => ({
+          'Events Attended': bucket.events,
+          'Attendees': bucket.attendees,
+        })) : []}>
+          <div className="space-y-2 text-sm">
+            {repeat.distribution.map(bucket => (
+              <div key={bucket.events} className="flex items-center gap-3">
+                <span className="w-32 text-gray-300">{bucket.events} event{bucket.events === '1' ? '' : 's'}</span>
+                <div className="flex-1 h-3 bg-slate-800 rounded">
+                  <div className="h-3 bg-indigo-500 rounded" style={{ width: `${(bucket.attendees / repeatMax) * 100}%` }} />
+                </div>
+                <span className="w-20 text-right text-gray-400">{bucket.attendees}</span>
+              </div>
+            ))}
+            <p className="text-xs text-gray-500 pt-2">{repeat.uniqueAttendees} unique internal attendees. Guests are not tracked across events.</p>
+          </div>
+        </ChartCard>
+      </div>
+    </div>
+  );
+};
+
+export default AnalyticsDashboard;
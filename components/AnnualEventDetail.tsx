@@ -1,7 +1,12 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { AnnualEvent, AnnualEventYearlyData, Event as EventType, Club, OrganizingTeamMember, AcademicAward, SportCompetition, AcademicWinner } from '../types';
+import { AnnualEvent, AnnualEventYearlyData, Event as EventType, Club, OrganizingTeamMember, AcademicAward, SportCompetition, AcademicWinner, SportEntry, User, Tournament, TournamentHost } from '../types';
 import SectionHeader from './SectionHeader';
+import SportRegistrationModal from './SportRegistrationModal';
+import SportsRosterManager from './SportsRosterManager';
+import TournamentPanel from './TournamentPanel';
+import { sportsRegistrationService } from '../services/sportsRegistrationService';
+import { canManageFest } from '../utils/permissions';
 
 
 const TeamMembersModal: React.FC<{ members: OrganizingTeamMember[]; onClose: () => void; isClosing: boolean }> = ({ members, onClose, isClosing }) => {
@@ -51,6 +56,88 @@ const SubEventCard: React.FC<{ event: EventType; }> = ({ event }) => {
 };
 
 
+const PLACING_ICONS: Record<string, string> = { 'Winner': '🥇', 'Runner-up': '🥈', 'Third Place': '🥉' };
+
+// Component for a single sports competition with its registration state and results
+const SportCompetitionCard: React.FC<{
+    sport: SportCompetition;
+    host: TournamentHost;
+    entry?: SportEntry;
+    isCaptain: boolean;
+    canManage: boolean;
+    onRegister: () => void;
+    onWithdraw: (entry: SportEntry) => void;
+    onManage: () => void;
+    onTournamentCompleted: (tournament: Tournament) => void;
+}> = ({ sport, host, entry, isCaptain, canManage, onRegister, onWithdraw, onManage, onTournamentCompleted }) => {
+    const [showFixtures, setShowFixtures] = useState(false);
+    const deadlinePassed = !!sport.registrationDeadline && new Date().toISOString() > sport.registrationDeadline;
+    const isOpen = sport.registrationOpen && !deadlinePassed;
+    return (
+        <div className="bg-slate-800/40 p-4 rounded-lg">
+            <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+                <div className="flex items-start gap-4">
+                    <span className="text-4xl mt-1">{sport.icon}</span>
+                    <div>
+                        <h4 className="font-bold text-white text-lg">{sport.name}</h4>
+                        <p className="text-sm text-gray-400">{sport.description}</p>
+                        {isOpen && sport.registrationDeadline && (
+                            <p className="text-xs text-green-400 mt-1">Registration closes {new Date(sport.registrationDeadline).toLocaleString()}</p>
+                        )}
+                    </div>
+                </div>
+                <div className="w-full sm:w-auto flex flex-col sm:items-end gap-2 flex-shrink-0">
+                    {entry ? (
+                        <div className="text-sm sm:text-right">
+                            <p className="text-white">Entered as <span className="font-semibold">{entry.entryName}</span></p>
+                            <p className="text-xs text-gray-400 capitalize">{entry.status}</p>
+                            {entry.status !== 'rejected' && isCaptain && (
+                                <button onClick={() => onWithdraw(entry)} className="mt-1 text-xs text-red-400 hover:text-red-300">Withdraw</button>
+                            )}
+                        </div>
+                    ) : (
+                        <button
+                            onClick={onRegister}
+                            disabled={!isOpen}
+                            className="w-full sm:w-auto px-5 py-2 text-sm font-bold rounded-lg transition-colors disabled:bg-slate-600 disabled:text-gray-400 disabled:cursor-not-allowed bg-green-600 hover:bg-green-700 text-white"
+                        >
+                            {isOpen ? 'Register Now' : 'Registration Closed'}
+                        </button>
+                    )}
+                    {canManage && (
+                        <button onClick={onManage} className="w-full sm:w-auto px-4 py-1.5 text-xs font-semibold rounded-lg bg-slate-700 text-white hover:bg-slate-600">
+                            Manage Roster
+                        </button>
+                    )}
+                    <button onClick={() => setShowFixtures(prev => !prev)} className="text-xs text-indigo-400 hover:text-indigo-300">
+                        {showFixtures ? 'Hide Fixtures' : 'Fixtures & Standings'}
+                    </button>
+                </div>
+            </div>
+            {sport.results && sport.results.length > 0 && (
+                <ul className="mt-4 flex flex-wrap gap-3">
+                    {sport.results.map(result => (
+                        <li key={result.position} className="px-3 py-1.5 bg-slate-900/60 rounded-md text-sm">
+                            <span className="mr-1">{PLACING_ICONS[result.position] || '🏅'}</span>
+                            <span className="text-gray-400">{result.position}:</span> <span className="font-semibold text-white">{result.entryName}</span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {showFixtures && (
+                <div className="mt-4 pt-4 border-t border-slate-700">
+                    <TournamentPanel
+                        host={host}
+                        canManage={canManage}
+                        emptyMessage="Fixtures will appear here once they are drawn."
+                        onCompleted={onTournamentCompleted}
+                    />
+                </div>
+            )}
+        </div>
+    );
+};
+
 const RankIcon: React.FC<{ rank: AcademicWinner['rank'] }> = ({ rank }) => {
     const styles = {
         1: { icon: '🏆', color: 'text-yellow-400' },
@@ -66,7 +153,15 @@ const YearlyDetails: React.FC<{
     yearData: AnnualEventYearlyData; 
     eventCategory: AnnualEvent['category'];
     onOpenTeamModal: () => void;
-}> = ({ yearData, eventCategory, onOpenTeamModal }) => {
+    userId?: string;
+    userEntries: SportEntry[];
+    canManageCompetitions: boolean;
+    onRegisterSport: (sport: SportCompetition) => void;
+    onWithdrawSport: (entry: SportEntry) => void;
+    onManageSport: (sport: SportCompetition) => void;
+    annualEventId: string;
+    onTournamentCompleted: (sport: SportCompetition, tournament: Tournament) => void;
+}> = ({ yearData, eventCategory, onOpenTeamModal, userId, userEntries, canManageCompetitions, onRegisterSport, onWithdrawSport, onManageSport, annualEventId, onTournamentCompleted }) => {
     
     const mainLeads = useMemo(() => yearData.organizingTeam.filter(m => m.imageUrl), [yearData.organizingTeam]);
     
@@ -131,24 +226,23 @@ const YearlyDetails: React.FC<{
                  <div>
                     <h3 className="text-3xl font-bold text-white mb-6 border-l-4 border-green-500 pl-4">Get in the Game</h3>
                     <div className="space-y-4">
-                        {yearData.sportsCompetitions.map(sport => (
-                            <div key={sport.id} className="bg-slate-800/40 p-4 rounded-lg flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
-                                <div className="flex items-start gap-4">
-                                    <span className="text-4xl mt-1">{sport.icon}</span>
-                                    <div>
-                                        <h4 className="font-bold text-white text-lg">{sport.name}</h4>
-                                        <p className="text-sm text-gray-400">{sport.description}</p>
-                                    </div>
-                                </div>
-                                <button
-                                    onClick={() => alert(`Registering for ${sport.name}...`)}
-                                    disabled={!sport.registrationOpen}
-                                    className="w-full sm:w-auto flex-shrink-0 px-5 py-2 text-sm font-bold rounded-lg transition-colors disabled:bg-slate-600 disabled:text-gray-400 disabled:cursor-not-allowed bg-green-600 hover:bg-green-700 text-white"
-                                >
-                                    {sport.registrationOpen ? 'Register Now' : 'Registration Closed'}
-                                </button>
-                            </div>
-                        ))}
+                        {yearData.sportsCompetitions.map(sport => {
+                            const entry = userEntries.find(e => e.festYear === yearData.year && e.competitionId === sport.id && e.status !== 'withdrawn');
+                            return (
+                                <SportCompetitionCard
+                                    key={sport.id}
+                                    sport={sport}
+                                    host={{ type: 'fest', annualEventId, festYear: yearData.year, competitionId: sport.id }}
+                                    entry={entry}
+                                    isCaptain={!!entry && entry.captainId === userId}
+                                    canManage={canManageCompetitions}
+                                    onRegister={() => onRegisterSport(sport)}
+                                    onWithdraw={onWithdrawSport}
+                                    onManage={() => onManageSport(sport)}
+                                    onTournamentCompleted={tournament => onTournamentCompleted(sport, tournament)}
+                                />
+                            );
+                        })}
                     </div>
                  </div>
             )}
@@ -225,13 +319,51 @@ interface AnnualEventDetailProps {
     event: AnnualEvent;
     allEvents: EventType[];
     allClubs: Club[];
+    user: User;
 }
 
-const AnnualEventDetail: React.FC<AnnualEventDetailProps> = ({ event, allEvents, allClubs }) => {
-  const sortedYearlyData = useMemo(() => event.yearlyData.sort((a, b) => b.year - a.year), [event.yearlyData]);
+const AnnualEventDetail: React.FC<AnnualEventDetailProps> = ({ event, allEvents, allClubs, user }) => {
+  // Coordinator edits land here so settings and results show without reloading every fest
+  const [yearlyData, setYearlyData] = useState<AnnualEventYearlyData[]>(event.yearlyData);
+  const sortedYearlyData = useMemo(() => [...yearlyData].sort((a, b) => b.year - a.year), [yearlyData]);
   const [selectedYear, setSelectedYear] = useState<number | null>(sortedYearlyData[0]?.year || null);
   const [isTeamModalOpen, setTeamModalOpen] = useState(false);
   const [isAnimatingOut, setIsAnimatingOut] = useState(false);
+  const [userEntries, setUserEntries] = useState<SportEntry[]>([]);
+  const [registeringSport, setRegisteringSport] = useState<SportCompetition | null>(null);
+  const [managingSportId, setManagingSportId] = useState<string | null>(null);
+  const canManageCompetitions = canManageFest(user, event);
+
+  const loadUserEntries = async () => {
+    if (!user.id || user.isGuest) return;
+    setUserEntries(await sportsRegistrationService.getUserEntries(event.id, user.id));
+  };
+
+  useEffect(() => {
+    loadUserEntries();
+  }, [event.id, user.id]);
+
+  // The tournament service has already copied the placements into the fest's results
+  const handleTournamentCompleted = (sport: SportCompetition, tournament: Tournament) => {
+    const results = tournament.placements.map(placement => ({ position: placement.position, entryId: placement.participantId, entryName: placement.name }));
+    setYearlyData(prev => prev.map(yearData => yearData.year !== selectedYear ? yearData : {
+      ...yearData,
+      sportsCompetitions: (yearData.sportsCompetitions || []).map(competition =>
+        competition.id === sport.id ? { ...competition, results, registrationOpen: false } : competition
+      ),
+    }));
+  };
+
+  const handleWithdrawSport = async (entry: SportEntry) => {
+    if (!window.confirm(`Withdraw ${entry.entryName}? Your teammates will lose their spot too.`)) return;
+    try {
+      await sportsRegistrationService.withdrawEntry(event, entry);
+      await loadUserEntries();
+    } catch (error: any) {
+      console.error('Error withdrawing sport entry:', error);
+      alert(error.message || 'Failed to withdraw the entry.');
+    }
+  };
 
   const handleCloseTeamModal = () => {
     setIsAnimatingOut(true);
@@ -251,6 +383,8 @@ const AnnualEventDetail: React.FC<AnnualEventDetailProps> = ({ event, allEvents,
     return sortedYearlyData.find(data => data.year === selectedYear);
   }, [selectedYear, sortedYearlyData]);
 
+  const managingSport = selectedYearData?.sportsCompetitions?.find(sport => sport.id === managingSportId);
+
   const subEvents = useMemo(() => {
       return allEvents.filter(e => e.parentAnnualEventId === event.id);
   }, [allEvents, event.id]);
@@ -271,6 +405,28 @@ const AnnualEventDetail: React.FC<AnnualEventDetailProps> = ({ event, allEvents,
 
   return (
     <div>
+        {registeringSport && selectedYear && (
+            <SportRegistrationModal
+                annualEvent={event}
+                festYear={selectedYear}
+                competition={registeringSport}
+                user={user}
+                onClose={() => setRegisteringSport(null)}
+                onRegistered={() => {
+                    setRegisteringSport(null);
+                    loadUserEntries();
+                }}
+            />
+        )}
+        {managingSport && selectedYear && (
+            <SportsRosterManager
+                annualEvent={event}
+                festYear={selectedYear}
+                competition={managingSport}
+                onClose={() => setManagingSportId(null)}
+                onCompetitionUpdated={setYearlyData}
+            />
+        )}
         {isTeamModalOpen && selectedYearData && (
             <TeamMembersModal 
                 members={selectedYearData.organizingTeam} 
@@ -358,7 +514,21 @@ const AnnualEventDetail: React.FC<AnnualEventDetailProps> = ({ event, allEvents,
                 </div>
 
                 {/* Content Display */}
-                {selectedYearData && <YearlyDetails yearData={selectedYearData} eventCategory={event.category} onOpenTeamModal={() => setTeamModalOpen(true)} />}
+                {selectedYearData && (
+                    <YearlyDetails
+                        yearData={selectedYearData}
+                        eventCategory={event.category}
+                        onOpenTeamModal={() => setTeamModalOpen(true)}
+                        userId={user.id}
+                        userEntries={userEntries}
+                        canManageCompetitions={canManageCompetitions}
+                        onRegisterSport={setRegisteringSport}
+                        onWithdrawSport={handleWithdrawSport}
+                        onManageSport={sport => setManagingSportId(sport.id)}
+                        annualEventId={event.id}
+                        onTournamentCompleted={handleTournamentCompleted}
+                    />
+                )}
             </section>
         </div>
     </div>
@@ -0,0 +1,199 @@
+import React, { useState, useEffect } from 'react';
+import { Application, ApplicationReview, User } from '../types';
+import { clubApplicationsService } from '../services/firestoreDataService';
+import { APPLICATION_SCORE_MAX, APPLICATION_STAGE_LABELS, averageReviewScore, getApplicationStage } from '../utils/recruitment';
+
+interface ApplicationReviewModalProps {
+  clubId: string;
+  application: Application;
+  user: User | null;
+  onClose: () => void;
+  onScheduled: () => void;
+}
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-md px-2 py-1.5 text-white text-sm';
+const DURATIONS = [15, 20, 30, 45, 60];
+
+// yyyy-MM-ddTHH:mm in local time, for datetime-local inputs
+const toLocalInput = (iso?: string) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+// Answers alongside reviewer scoring, earlier reviews and interview scheduling for one applicant
+const ApplicationReviewModal: React.FC<ApplicationReviewModalProps> = ({ clubId, application, user, onClose, onScheduled }) => {
+  const stage = getApplicationStage(application);
+  const [reviews, setReviews] = useState<ApplicationReview[]>([]);
+  const [scores, setScores] = useState<Record<string, number>>({});
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [slotStart, setSlotStart] = useState(toLocalInput(application.interviewSlot?.start));
+  const [duration, setDuration] = useState(
+    application.interviewSlot
+      ? Math.round((new Date(application.interviewSlot.end).getTime() - new Date(application.interviewSlot.start).getTime()) / 60000)
+      : 20
+  );
+  const [location, setLocation] = useState(application.interviewSlot?.location || '');
+  const [isScheduling, setIsScheduling] = useState(false);
+
+  useEffect(() => {
+    clubApplicationsService.getReviews(clubId, application.id)
+      .then(loaded => {
+        setReviews(loaded);
+        // Pre-fill the form with this reviewer's review for the current stage
+        const mine = loaded.find(review => review.reviewerId === user?.id && review.stage === stage);
+        if (mine) {
+          setScores(Object.fromEntries(mine.scores.map(s => [s.question, s.score])));
+          setNote(mine.note);
+        }
+      })
+      .catch(error => console.error('Error loading reviews:', error));
+  }, [clubId, application.id, user?.id, stage]);
+
+  const handleSaveReview = async () => {
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      const saved = await clubApplicationsService.saveReview(clubId, application.id, {
+        stage,
+        scores: application.answers
+          .filter(answer => scores[answer.question] !== undefined)
+          .map(answer => ({ question: answer.question, score: scores[answer.question] })),
+        note,
+      });
+      setReviews(prev => [...prev.filter(review => review.id !== saved.id), saved]);
+      setMessage({ type: 'success', text: 'Review saved.' });
+    } catch (error: any) {
+      console.error('Error saving review:', error);
+      setMessage({ type: 'error', text: error.message || 'Failed to save the review.' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSchedule = async () => {
+    if (!slotStart || !location.trim()) return;
+    setIsScheduling(true);
+    setMessage(null);
+    try {
+      const start = new Date(slotStart);
+      await clubApplicationsService.scheduleInterview(clubId, application.id, {
+        start: start.toISOString(),
+        end: new Date(start.getTime() + duration * 60000).toISOString(),
+        location: location.trim(),
+      });
+      setMessage({ type: 'success', text: 'Interview scheduled and the applicant notified.' });
+      onScheduled();
+    } catch (error: any) {
+      console.error('Error scheduling interview:', error);
+      setMessage({ type: 'error', text: error.message || 'Failed to schedule the interview.' });
+    } finally {
+      setIsScheduling(false);
+    }
+  };
+
+  const average = averageReviewScore(reviews);
+  const questionAverage = (question: string) => {
+    const marks = reviews.flatMap(review => review.scores.filter(s => s.question === question).map(s => s.score));
+    return marks.length ? (marks.reduce((sum, mark) => sum + mark, 0) / marks.length).toFixed(1) : null;
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-slate-900 border border-slate-700 rounded-lg shadow-xl max-w-3xl w-full relative max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="p-6 border-b border-slate-700 flex-shrink-0">
+          <div className="flex items-center">
+            <img src={application.userImageUrl} className="w-14 h-14 rounded-full mr-4" alt={application.userName} />
+            <div>
+              <h3 className="text-2xl font-bold text-white">{application.userName}</h3>
+              <p className="text-sm text-gray-400">{application.userEmail}</p>
+              <p className="text-sm text-gray-400">{application.userBranch} - {application.userYear} · {APPLICATION_STAGE_LABELS[stage]}{average !== null ? ` · Avg ${average}/${APPLICATION_SCORE_MAX}` : ''}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white text-2xl">&times;</button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6 text-sm">
+          <div className="space-y-4">
+            <h4 className="text-lg font-semibold text-white">Responses</h4>
+            {application.answers.map((answer, i) => (
+              <div key={i}>
+                <div className="flex justify-between items-center gap-3">
+                  <p className="font-semibold text-gray-300">{answer.question}</p>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {questionAverage(answer.question) && <span className="text-xs text-gray-500">avg {questionAverage(answer.question)}</span>}
+                    <select
+                      value={scores[answer.question] ?? ''}
+                      onChange={e => {
+                        const value = e.target.value;
+                        setScores(prev => {
+                          const next = { ...prev };
+                          if (value === '') delete next[answer.question];
+                          else next[answer.question] = Number(value);
+                          return next;
+                        });
+                      }}
+                      className="bg-slate-800 border border-slate-700 rounded-md px-2 py-1 text-white"
+                    >
+                      <option value="">Score</option>
+                      {Array.from({ length: APPLICATION_SCORE_MAX + 1 }, (_, score) => <option key={score} value={score}>{score}</option>)}
+                    </select>
+                  </div>
+                </div>
+                <p className="text-gray-400 bg-slate-800 p-3 rounded-md mt-1 whitespace-pre-wrap">{answer.answer}</p>
+              </div>
+            ))}
+            <label className="block">
+              <span className="block text-gray-400 mb-1">Your notes for the {APPLICATION_STAGE_LABELS[stage].toLowerCase()} round</span>
+              <textarea value={note} onChange={e => setNote(e.target.value)} rows={3} className={inputClass} placeholder="Only reviewers can see these" />
+            </label>
+            <button onClick={handleSaveReview} disabled={isSaving} className="px-4 py-2 font-semibold rounded-md bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50">
+              {isSaving ? 'Saving...' : 'Save Review'}
+            </button>
+          </div>
+
+          {(stage === 'task' || stage === 'interview') && (
+            <div className="bg-slate-800/50 p-4 rounded-lg space-y-3">
+              <h4 className="font-semibold text-white">Interview</h4>
+              {application.interviewSlot && (
+                <p className="text-gray-300">
+                  Booked for {new Date(application.interviewSlot.start).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' })} at {application.interviewSlot.location}
+                </p>
+              )}
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                <input type="datetime-local" value={slotStart} onChange={e => setSlotStart(e.target.value)} className={inputClass} />
+                <select value={duration} onChange={e => setDuration(Number(e.target.value))} className={inputClass}>
+                  {DURATIONS.map(minutes => <option key={minutes} value={minutes}>{minutes} minutes</option>)}
+                </select>
+                <input value={location} onChange={e => setLocation(e.target.value)} className={inputClass} placeholder="Room or meeting link" />
+              </div>
+              <button onClick={handleSchedule} disabled={isScheduling || !slotStart || !location.trim()} className="px-4 py-2 rounded-md bg-slate-700 hover:bg-slate-600 disabled:opacity-50">
+                {isScheduling ? 'Scheduling...' : application.interviewSlot ? 'Reschedule' : 'Schedule Interview'}
+              </button>
+            </div>
+          )}
+
+          {message && <p className={message.type === 'success' ? 'text-green-400' : 'text-red-400'}>{message.text}</p>}
+
+          <div className="space-y-3">
+            <h4 className="text-lg font-semibold text-white">Reviews</h4>
+            {reviews.length === 0 ? (
+              <p className="text-gray-400">No reviews yet.</p>
+            ) : reviews.map(review => (
+              <div key={review.id} className="bg-slate-800/50 p-3 rounded-lg">
+                <p className="text-white font-semibold">
+                  {review.reviewerName} <span className="text-xs text-gray-400 font-normal">· {APPLICATION_STAGE_LABELS[review.stage]}{averageReviewScore([review]) !== null ? ` · ${averageReviewScore([review])}/${APPLICATION_SCORE_MAX}` : ''}</span>
+                </p>
+                {review.note && <p className="text-gray-300 mt-1 whitespace-pre-wrap">{review.note}</p>}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ApplicationReviewModal;
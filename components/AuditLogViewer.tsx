@@ -0,0 +1,168 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import * as XLSX from 'xlsx';
+import { DocumentSnapshot } from 'firebase/firestore';
+import { User } from '../types';
+import { auditLogService, AuditLogEntry, AuditLogFilters, AuditTargetType } from '../services/auditLogService';
+import { AUDIT_ACTIONS } from '../utils/auditLog';
+
+interface AuditLogViewerProps {
+  allUsers: User[];
+}
+
+const TARGET_TYPES: AuditTargetType[] = ['user', 'club', 'application', 'registration', 'payment-config', 'payment-account', 'payment', 'coupon', 'event', 'recruitment-drive', 'guest-data'];
+
+const inputClass = 'px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-sm text-white';
+
+const AuditLogRow: React.FC<{ entry: AuditLogEntry }> = ({ entry }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <>
+      <tr className="border-b border-slate-800 hover:bg-slate-800/40 cursor-pointer" onClick={() => setIsExpanded(!isExpanded)}>
+        <td className="py-2 pr-4 text-gray-400 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</td>
+        <td className="py-2 pr-4 text-white">{entry.actorName}</td>
+        <td className="py-2 pr-4">
+          <span className="px-2 py-1 rounded text-xs font-medium bg-indigo-500/20 text-indigo-300 whitespace-nowrap">{entry.action}</span>
+        </td>
+        <td className="py-2 text-gray-300">{entry.summary}</td>
+      </tr>
+      {isExpanded && (
+        <tr className="border-b border-slate-800 bg-slate-950/40">
+          <td colSpan={4} className="p-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <p className="text-xs font-semibold text-gray-400 mb-1">Before</p>
+                <pre className="text-xs text-red-300 bg-slate-900 p-3 rounded-md overflow-x-auto">{JSON.stringify(entry.before, null, 2)}</pre>
+              </div>
+              <div>
+                <p className="text-xs font-semibold text-gray-400 mb-1">After</p>
+                <pre className="text-xs text-green-300 bg-slate-900 p-3 rounded-md overflow-x-auto">{JSON.stringify(entry.after, null, 2)}</pre>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">{entry.targetType}: {entry.targetId}{entry.clubId ? ` · club ${entry.clubId}` : ''}</p>
+          </td>
+        </tr>
+      )}
+    </>
+  );
+};
+
+const AuditLogViewer: React.FC<AuditLogViewerProps> = ({ allUsers }) => {
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [cursor, setCursor] = useState<DocumentSnapshot | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+  const loadEntries = useCallback(async () => {
+    setIsLoading(true);
+    const page = await auditLogService.getAuditLogs(filters);
+    setEntries(page.entries);
+    setCursor(page.cursor);
+    setIsLoading(false);
+  }, [filters]);
+
+  const loadMore = async () => {
+    if (!cursor) return;
+    setIsLoadingMore(true);
+    const page = await auditLogService.getAuditLogs(filters, cursor);
+    setEntries(prev => [...prev, ...page.entries]);
+    setCursor(page.cursor);
+    setIsLoadingMore(false);
+  };
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const updateFilter = (key: keyof AuditLogFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleExport = () => {
+    const data = entries.map(entry => ({
+      'Timestamp': entry.timestamp,
+      'Actor': entry.actorName,
+      'Actor ID': entry.actorId,
+      'Action': entry.action,
+      'Target Type': entry.targetType,
+      'Target ID': entry.targetId,
+      'Club ID': entry.clubId || '',
+      'Summary': entry.summary,
+      'Before': JSON.stringify(entry.before),
+      'After': JSON.stringify(entry.after),
+    }));
+    const worksheet = XLSX.utils.json_to_sheet(data);
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Audit Log');
+    XLSX.writeFile(workbook, `audit_log_${new Date().toISOString().slice(0, 10)}.csv`, { bookType: 'csv' });
+  };
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-lg p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold text-white">Audit Log ({entries.length}{cursor ? '+' : ''})</h2>
+        <div className="flex gap-2">
+          <button onClick={loadEntries} disabled={isLoading} className="px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition-colors text-sm">
+            {isLoading ? 'Loading...' : 'Refresh'}
+          </button>
+          <button onClick={handleExport} disabled={entries.length === 0} className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed">
+            Export CSV
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-3 mb-6">
+        <input type="text" placeholder="Search summary, actor or ID..." value={filters.search || ''} onChange={e => updateFilter('search', e.target.value)} className={`${inputClass} lg:col-span-2`} />
+        <select value={filters.action || ''} onChange={e => updateFilter('action', e.target.value)} className={inputClass}>
+          <option value="">All actions</option>
+          {AUDIT_ACTIONS.map(action => <option key={action} value={action}>{action}</option>)}
+        </select>
+        <select value={filters.targetType || ''} onChange={e => updateFilter('targetType', e.target.value)} className={inputClass}>
+          <option value="">All targets</option>
+          {TARGET_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+        </select>
+        <select value={filters.actorId || ''} onChange={e => updateFilter('actorId', e.target.value)} className={inputClass}>
+          <option value="">All actors</option>
+          {allUsers.filter(u => u.role !== 'student').map(u => <option key={u.id} value={u.id}>{u.name}</option>)}
+        </select>
+        <div className="flex gap-2">
+          <input type="date" value={filters.from || ''} onChange={e => updateFilter('from', e.target.value)} className={`${inputClass} w-1/2`} title="From" />
+          <input type="date" value={filters.to || ''} onChange={e => updateFilter('to', e.target.value)} className={`${inputClass} w-1/2`} title="To" />
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="text-gray-400">Loading audit log...</div>
+      ) : entries.length === 0 ? (
+        <div className="text-gray-400">No audit entries match these filters.</div>
+      ) : (
+        <div className="overflow-x-auto max-h-[60vh] overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-slate-700">
+                <th className="py-2 text-left text-gray-400">Time</th>
+                <th className="py-2 text-left text-gray-400">Actor</th>
+                <th className="py-2 text-left text-gray-400">Action</th>
+                <th className="py-2 text-left text-gray-400">Summary</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map(entry => <AuditLogRow key={entry.id} entry={entry} />)}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {/* Search only narrows the loaded pages, so older matches may still be further back */}
+      {cursor && !isLoading && (
+        <div className="flex justify-center mt-4">
+          <button onClick={loadMore} disabled={isLoadingMore} className="px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition-colors text-sm disabled:opacity-50">
+            {isLoadingMore ? 'Loading...' : 'Load more'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuditLogViewer;
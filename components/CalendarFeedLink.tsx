@@ -0,0 +1,71 @@
+import React, { useState, useEffect } from 'react';
+import { toWebcalUrl } from '../services/calendarService';
+
+interface CalendarFeedLinkProps {
+  label: string;
+  loadUrl: () => Promise<string | null>;
+  publish?: () => Promise<string>; // Omitted for viewers who may only subscribe to an existing feed
+}
+
+const CalendarFeedLink: React.FC<CalendarFeedLinkProps> = ({ label, loadUrl, publish }) => {
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadUrl()
+      .then(url => { if (!cancelled) setFeedUrl(url); })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [loadUrl]);
+
+  const handlePublish = async () => {
+    if (!publish) return;
+    setIsPublishing(true);
+    setError(null);
+    try {
+      setFeedUrl(await publish());
+    } catch (err: any) {
+      console.error('Error publishing calendar feed:', err);
+      setError(err?.message || 'Could not create the calendar feed.');
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    await navigator.clipboard.writeText(feedUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  if (isLoading || (!feedUrl && !publish)) return null;
+
+  return (
+    <div className="p-4 rounded-lg bg-slate-900 border border-slate-800">
+      <p className="font-semibold text-white text-sm">{label}</p>
+      {feedUrl ? (
+        <>
+          <p className="text-xs text-gray-400 mt-1">Subscribe once and your calendar app keeps it up to date.</p>
+          <div className="mt-3 flex flex-wrap gap-2">
+            <a href={toWebcalUrl(feedUrl)} className="px-3 py-1.5 text-xs font-semibold rounded-md bg-indigo-600 text-white hover:bg-indigo-700">Subscribe</a>
+            <button onClick={handleCopy} className="px-3 py-1.5 text-xs font-semibold rounded-md bg-slate-700 text-gray-200 hover:bg-slate-600">
+              {copied ? 'Copied!' : 'Copy feed URL'}
+            </button>
+          </div>
+        </>
+      ) : (
+        <button onClick={handlePublish} disabled={isPublishing} className="mt-3 px-3 py-1.5 text-xs font-semibold rounded-md bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50">
+          {isPublishing ? 'Creating feed...' : 'Create calendar feed'}
+        </button>
+      )}
+      {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+    </div>
+  );
+};
+
+export default CalendarFeedLink;
@@ -0,0 +1,216 @@
+import React, { useState, useEffect } from 'react';
+import { Certificate, CertificateKind, CertificateSignature, CertificateTemplate, CertificateTextBlock } from '../types';
+import { certificateService } from '../services/certificateService';
+import { uploadCertificateAsset } from '../services/firebaseStorageService';
+import { CERTIFICATE_KIND_LABELS, CERTIFICATE_PLACEHOLDERS, getDefaultCertificateTemplate, renderCertificatesPdf } from '../utils/certificate';
+
+interface CertificateTemplateEditorProps {
+  clubId: string;
+  clubName: string;
+}
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-md px-2 py-1.5 text-white text-sm';
+const newId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+const NumberField: React.FC<{ label: string; value: number; onChange: (value: number) => void; min?: number; max?: number }> = ({ label, value, onChange, min = 0, max = 100 }) => (
+  <label className="block">
+    <span className="block text-gray-400 text-xs mb-1">{label}</span>
+    <input type="number" min={min} max={max} value={value} onChange={e => onChange(Number(e.target.value))} className={inputClass} />
+  </label>
+);
+
+const CertificateTemplateEditor: React.FC<CertificateTemplateEditorProps> = ({ clubId, clubName }) => {
+  const [template, setTemplate] = useState<CertificateTemplate | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [uploading, setUploading] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    certificateService.getTemplate(clubId).then(setTemplate);
+  }, [clubId]);
+
+  if (!template) return <p className="text-gray-400">Loading template...</p>;
+
+  const updateText = (id: string, changes: Partial<CertificateTextBlock>) =>
+    setTemplate({ ...template, texts: template.texts.map(block => block.id === id ? { ...block, ...changes } : block) });
+  const updateSignature = (id: string, changes: Partial<CertificateSignature>) =>
+    setTemplate({ ...template, signatures: template.signatures.map(signature => signature.id === id ? { ...signature, ...changes } : signature) });
+
+  const handleUpload = async (file: File | undefined, type: 'background' | 'signature', signatureId?: string) => {
+    if (!file) return;
+    setUploading(signatureId || type);
+    try {
+      const url = await uploadCertificateAsset(file, clubId, type);
+      if (signatureId) updateSignature(signatureId, { imageUrl: url });
+      else setTemplate({ ...template, backgroundUrl: url });
+    } catch (error: any) {
+      console.error('Error uploading certificate image:', error);
+      setMessage({ type: 'error', text: error.message || 'Upload failed.' });
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      await certificateService.saveTemplate(clubId, template);
+      setMessage({ type: 'success', text: 'Template saved. New certificates will use this design.' });
+    } catch (error: any) {
+      console.error('Error saving certificate template:', error);
+      setMessage({ type: 'error', text: error.message || 'Failed to save the template.' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Render a sample certificate in a new tab
+  const handlePreview = async (kind: CertificateKind) => {
+    const { updatedAt, ...snapshot } = template;
+    const sample: Certificate = {
+      id: 'SAMP-LE00-0000',
+      kind,
+      recipientId: null,
+      recipientName: 'Aarav Sharma',
+      position: kind === 'winner' ? 'Winner' : undefined,
+      eventId: 'preview',
+      eventName: 'Sample Event',
+      eventDate: new Date().toLocaleDateString('en-IN', { day: 'numeric', month: 'long', year: 'numeric' }),
+      clubId,
+      clubName,
+      template: snapshot,
+      issuedAt: new Date().toISOString(),
+      issuedBy: '',
+    };
+    const pdf = await renderCertificatesPdf([sample]);
+    window.open(pdf.output('bloburl'), '_blank');
+  };
+
+  return (
+    <div className="space-y-6 text-sm">
+      <div>
+        <h3 className="text-xl font-bold">Certificate Template</h3>
+        <p className="text-gray-400 mt-1">Positions are percentages of an A4 landscape page. Text can use {CERTIFICATE_PLACEHOLDERS.join(', ')}.</p>
+      </div>
+
+      <div className="bg-slate-800/50 p-4 rounded-lg space-y-2">
+        <p className="font-semibold text-white">Background</p>
+        {template.backgroundUrl && <img src={template.backgroundUrl} alt="Certificate background" className="w-full max-w-sm rounded border border-slate-700" />}
+        <div className="flex items-center gap-3">
+          <label className="px-3 py-1.5 rounded-md bg-slate-700 hover:bg-slate-600 cursor-pointer">
+            {uploading === 'background' ? 'Uploading...' : template.backgroundUrl ? 'Replace Image' : 'Upload Image'}
+            <input type="file" accept="image/jpeg,image/png" className="hidden" onChange={e => handleUpload(e.target.files?.[0], 'background')} />
+          </label>
+          {template.backgroundUrl && (
+            <button onClick={() => setTemplate({ ...template, backgroundUrl: undefined })} className="text-red-400 hover:text-red-300">Remove</button>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex justify-between items-center">
+          <p className="font-semibold text-white">Text</p>
+          <button
+            onClick={() => setTemplate({ ...template, texts: [...template.texts, { id: newId(), text: '', x: 50, y: 80, fontSize: 12, color: '#334155', align: 'center' }] })}
+            className="px-3 py-1 rounded-md bg-slate-700 hover:bg-slate-600"
+          >
+            Add Text
+          </button>
+        </div>
+        {template.texts.map(block => (
+          <div key={block.id} className="bg-slate-800/50 p-3 rounded-lg space-y-2">
+            <div className="flex gap-2">
+              <input value={block.text} onChange={e => updateText(block.id, { text: e.target.value })} className={inputClass} placeholder="Text or placeholder" />
+              <button onClick={() => setTemplate({ ...template, texts: template.texts.filter(b => b.id !== block.id) })} className="px-2 text-red-400 hover:text-red-300">&times;</button>
+            </div>
+            <div className="grid grid-cols-3 sm:grid-cols-6 gap-2 items-end">
+              <NumberField label="X %" value={block.x} onChange={x => updateText(block.id, { x })} />
+              <NumberField label="Y %" value={block.y} onChange={y => updateText(block.id, { y })} />
+              <NumberField label="Size" value={block.fontSize} min={6} max={72} onChange={fontSize => updateText(block.id, { fontSize })} />
+              <label className="block">
+                <span className="block text-gray-400 text-xs mb-1">Colour</span>
+                <input type="color" value={block.color} onChange={e => updateText(block.id, { color: e.target.value })} className="w-full h-8 bg-slate-800 border border-slate-700 rounded-md" />
+              </label>
+              <label className="block">
+                <span className="block text-gray-400 text-xs mb-1">Align</span>
+                <select value={block.align} onChange={e => updateText(block.id, { align: e.target.value as CertificateTextBlock['align'] })} className={inputClass}>
+                  <option value="left">Left</option>
+                  <option value="center">Centre</option>
+                  <option value="right">Right</option>
+                </select>
+              </label>
+              <label className="block">
+                <span className="block text-gray-400 text-xs mb-1">Show on</span>
+                <select
+                  value={block.kinds?.length === 1 ? block.kinds[0] : 'all'}
+                  onChange={e => updateText(block.id, { kinds: e.target.value === 'all' ? [] : [e.target.value as CertificateKind] })}
+                  className={inputClass}
+                >
+                  <option value="all">All</option>
+                  {(Object.keys(CERTIFICATE_KIND_LABELS) as CertificateKind[]).map(kind => (
+                    <option key={kind} value={kind}>{CERTIFICATE_KIND_LABELS[kind]}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <label className="flex items-center gap-2 text-gray-300">
+              <input type="checkbox" checked={!!block.bold} onChange={e => updateText(block.id, { bold: e.target.checked })} /> Bold
+            </label>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex justify-between items-center">
+          <p className="font-semibold text-white">Signatures</p>
+          <button
+            onClick={() => setTemplate({ ...template, signatures: [...template.signatures, { id: newId(), name: '', title: '', x: 25 + 25 * (template.signatures.length % 3), y: 85 }] })}
+            className="px-3 py-1 rounded-md bg-slate-700 hover:bg-slate-600"
+          >
+            Add Signature
+          </button>
+        </div>
+        {template.signatures.map(signature => (
+          <div key={signature.id} className="bg-slate-800/50 p-3 rounded-lg grid grid-cols-2 sm:grid-cols-5 gap-2 items-end">
+            <label className="block col-span-2 sm:col-span-1">
+              <span className="block text-gray-400 text-xs mb-1">Name</span>
+              <input value={signature.name} onChange={e => updateSignature(signature.id, { name: e.target.value })} className={inputClass} />
+            </label>
+            <label className="block col-span-2 sm:col-span-1">
+              <span className="block text-gray-400 text-xs mb-1">Title</span>
+              <input value={signature.title} onChange={e => updateSignature(signature.id, { title: e.target.value })} className={inputClass} placeholder="e.g. Faculty Advisor" />
+            </label>
+            <NumberField label="X %" value={signature.x} onChange={x => updateSignature(signature.id, { x })} />
+            <NumberField label="Y %" value={signature.y} onChange={y => updateSignature(signature.id, { y })} />
+            <div className="flex items-center gap-2 col-span-2 sm:col-span-1">
+              <label className="px-2 py-1.5 rounded-md bg-slate-700 hover:bg-slate-600 cursor-pointer text-xs">
+                {uploading === signature.id ? 'Uploading...' : signature.imageUrl ? 'Replace' : 'Upload'}
+                <input type="file" accept="image/png" className="hidden" onChange={e => handleUpload(e.target.files?.[0], 'signature', signature.id)} />
+              </label>
+              {signature.imageUrl && <img src={signature.imageUrl} alt={`${signature.name} signature`} className="h-8 bg-white rounded" />}
+              <button onClick={() => setTemplate({ ...template, signatures: template.signatures.filter(s => s.id !== signature.id) })} className="ml-auto px-2 text-red-400 hover:text-red-300">&times;</button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {message && <p className={message.type === 'success' ? 'text-green-400' : 'text-red-400'}>{message.text}</p>}
+      <div className="flex flex-wrap gap-3">
+        <button onClick={handleSave} disabled={isSaving || !!uploading} className="px-4 py-2 font-semibold rounded-md bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50">
+          {isSaving ? 'Saving...' : 'Save Template'}
+        </button>
+        <button onClick={() => handlePreview('participation')} className="px-4 py-2 rounded-md bg-slate-700 hover:bg-slate-600">Preview Participation</button>
+        <button onClick={() => handlePreview('winner')} className="px-4 py-2 rounded-md bg-slate-700 hover:bg-slate-600">Preview Winner</button>
+        <button
+          onClick={() => window.confirm('Reset to the default design? Unsaved changes are lost.') && setTemplate(getDefaultCertificateTemplate(clubId))}
+          className="px-4 py-2 rounded-md text-gray-400 hover:text-white"
+        >
+          Reset to Default
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CertificateTemplateEditor;
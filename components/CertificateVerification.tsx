@@ -0,0 +1,65 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { Certificate } from '../types';
+import { certificateService } from '../services/certificateService';
+import { CERTIFICATE_KIND_LABELS } from '../utils/certificate';
+
+// Public page behind the QR code on every certificate; works without signing in
+const CertificateVerification: React.FC = () => {
+  const { certId } = useParams<{ certId: string }>();
+  const [certificate, setCertificate] = useState<Certificate | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!certId) return;
+    setIsLoading(true);
+    certificateService.verifyCertificate(certId).then(result => {
+      setCertificate(result);
+      setIsLoading(false);
+    });
+  }, [certId]);
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-white flex items-center justify-center px-4 py-16">
+      <div className="w-full max-w-md bg-slate-900 border border-slate-800 rounded-2xl p-8 text-center">
+        <p className="text-xs uppercase tracking-widest text-gray-400">Certificate Verification</p>
+        <p className="font-mono text-lg mt-2 text-indigo-300">{certId?.toUpperCase()}</p>
+
+        {isLoading ? (
+          <p className="mt-8 text-gray-400">Checking...</p>
+        ) : certificate ? (
+          <div className="mt-6 space-y-4">
+            <div className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-green-500/10 text-green-400 font-semibold">
+              <span className="h-2 w-2 rounded-full bg-green-500"></span>
+              Authentic
+            </div>
+            <div>
+              <p className="text-2xl font-bold">{certificate.recipientName}</p>
+              <p className="text-gray-300 mt-1">
+                {certificate.kind === 'winner' ? `${certificate.position} in` : 'Participated in'} <span className="font-semibold text-white">{certificate.eventName}</span>
+              </p>
+            </div>
+            <dl className="text-sm text-left bg-slate-800/50 rounded-lg p-4 space-y-2">
+              <div className="flex justify-between gap-4"><dt className="text-gray-400">Type</dt><dd>{CERTIFICATE_KIND_LABELS[certificate.kind]}</dd></div>
+              <div className="flex justify-between gap-4"><dt className="text-gray-400">Organized by</dt><dd className="text-right">{certificate.clubName}</dd></div>
+              <div className="flex justify-between gap-4"><dt className="text-gray-400">Event date</dt><dd>{certificate.eventDate}</dd></div>
+              <div className="flex justify-between gap-4"><dt className="text-gray-400">Issued</dt><dd>{new Date(certificate.issuedAt).toLocaleDateString()}</dd></div>
+            </dl>
+          </div>
+        ) : (
+          <div className="mt-6 space-y-2">
+            <div className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-red-500/10 text-red-400 font-semibold">
+              <span className="h-2 w-2 rounded-full bg-red-500"></span>
+              Not found
+            </div>
+            <p className="text-sm text-gray-400">No certificate was issued with this ID. Check it was typed exactly as printed.</p>
+          </div>
+        )}
+
+        <Link to="/" className="inline-block mt-8 text-sm text-indigo-400 hover:text-indigo-300">Go to Campus Hub</Link>
+      </div>
+    </div>
+  );
+};
+
+export default CertificateVerification;
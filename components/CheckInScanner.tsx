@@ -0,0 +1,327 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import jsQR from 'jsqr';
+import { Event, User } from '../types';
+import { ticketService, CheckInResult } from '../services/ticketService';
+import { offlineCheckInService, OfflineCheckInSnapshot } from '../services/offlineCheckInService';
+import { PermissionError } from '../utils/permissions';
+
+interface CheckInScannerProps {
+  event: Event;
+  user: User | null;
+  onClose: () => void;
+  onCheckIn?: () => void;
+}
+
+// Ignore the same QR code for a short while so one ticket held in front of the camera isn't re-processed every frame
+const RESCAN_COOLDOWN_MS = 3000;
+
+const resultStyles: { [key in CheckInResult['status']]: string } = {
+  checked_in: 'bg-green-500/10 border-green-500/30 text-green-400',
+  already_checked_in: 'bg-yellow-500/10 border-yellow-500/30 text-yellow-400',
+  wrong_event: 'bg-red-500/10 border-red-500/30 text-red-400',
+  not_confirmed: 'bg-red-500/10 border-red-500/30 text-red-400',
+  invalid: 'bg-red-500/10 border-red-500/30 text-red-400',
+};
+
+const resultTitles: { [key in CheckInResult['status']]: string } = {
+  checked_in: 'Checked In',
+  already_checked_in: 'Duplicate Scan',
+  wrong_event: 'Wrong Event',
+  not_confirmed: 'Not Confirmed',
+  invalid: 'Invalid Ticket',
+};
+
+const CheckInScanner: React.FC<CheckInScannerProps> = ({ event, user, onClose, onCheckIn }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const lastScanRef = useRef<{ value: string; at: number } | null>(null);
+  const processingRef = useRef(false);
+
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [lastResult, setLastResult] = useState<CheckInResult | null>(null);
+  const [history, setHistory] = useState<CheckInResult[]>([]);
+  const [manualCode, setManualCode] = useState('');
+  const [snapshot, setSnapshot] = useState<OfflineCheckInSnapshot | null>(() => offlineCheckInService.getSnapshot(event.id));
+  const [offlineMode, setOfflineMode] = useState(() => offlineCheckInService.getSnapshot(event.id) !== null);
+  const [queuedCount, setQueuedCount] = useState(() => offlineCheckInService.getQueue(event.id).length);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [syncMessage, setSyncMessage] = useState<string | null>(null);
+  const syncingRef = useRef(false);
+
+  const syncQueue = useCallback(async () => {
+    if (syncingRef.current || offlineCheckInService.getQueue(event.id).length === 0) return;
+    syncingRef.current = true;
+    try {
+      const result = await offlineCheckInService.sync(event.id);
+      const parts = [`Synced ${result.synced} check-in(s)`];
+      if (result.duplicates) parts.push(`${result.duplicates} already checked in on another device`);
+      if (result.rejected.length) parts.push(`not confirmed any more: ${result.rejected.join(', ')}`);
+      if (result.remaining) parts.push(`${result.remaining} still waiting for a connection`);
+      setSyncMessage(`${parts.join('; ')}.`);
+      setQueuedCount(result.remaining);
+      if (result.synced) onCheckIn?.();
+    } finally {
+      syncingRef.current = false;
+    }
+  }, [event.id, onCheckIn]);
+
+  useEffect(() => {
+    const goOnline = () => {
+      setIsOnline(true);
+      syncQueue();
+    };
+    const goOffline = () => setIsOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, [syncQueue]);
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      // Push pending check-ins first so the fresh copy includes them and other devices' scans
+      if (navigator.onLine) await syncQueue();
+      const downloaded = await offlineCheckInService.download(event, user?.id);
+      setSnapshot(downloaded);
+      setOfflineMode(true);
+    } catch (error) {
+      console.error('Error downloading registrations for offline check-in:', error);
+      setSyncMessage(error instanceof PermissionError ? error.message : 'Could not download registrations. Check your connection and try again.');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleRemoveCopy = () => {
+    try {
+      offlineCheckInService.clear(event.id);
+      setSnapshot(null);
+      setOfflineMode(false);
+    } catch (error: any) {
+      setSyncMessage(error.message);
+    }
+  };
+
+  const processCode = useCallback(async (value: string) => {
+    if (processingRef.current) return;
+    const now = Date.now();
+    if (lastScanRef.current && lastScanRef.current.value === value && now - lastScanRef.current.at < RESCAN_COOLDOWN_MS) {
+      return;
+    }
+    lastScanRef.current = { value, at: now };
+    processingRef.current = true;
+
+    try {
+      if (offlineMode) {
+        const result = offlineCheckInService.checkIn(event.id, value, user?.id);
+        setLastResult(result);
+        setHistory(prev => [result, ...prev].slice(0, 20));
+        setQueuedCount(offlineCheckInService.getQueue(event.id).length);
+        if (result.status === 'checked_in' && navigator.onLine) syncQueue();
+        return;
+      }
+      const result = await ticketService.verifyAndCheckIn(
+        value,
+        { clubId: event.organizerClubId, eventId: event.id },
+        user?.id
+      );
+      setLastResult(result);
+      setHistory(prev => [result, ...prev].slice(0, 20));
+      if (result.status === 'checked_in') {
+        onCheckIn?.();
+      }
+    } catch (error) {
+      console.error('Error processing ticket scan:', error);
+      setLastResult({
+        status: 'invalid',
+        message: error instanceof PermissionError ? error.message : 'Could not verify ticket. Check your connection and try again.',
+      });
+    } finally {
+      processingRef.current = false;
+    }
+  }, [event.id, event.organizerClubId, user?.id, onCheckIn, offlineMode, syncQueue]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const scanFrame = () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (video && canvas && video.readyState === video.HAVE_ENOUGH_DATA) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const context = canvas.getContext('2d', { willReadFrequently: true });
+        if (context) {
+          context.drawImage(video, 0, 0, canvas.width, canvas.height);
+          const image = context.getImageData(0, 0, canvas.width, canvas.height);
+          const code = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+          if (code?.data) {
+            processCode(code.data);
+          }
+        }
+      }
+      frameRef.current = requestAnimationFrame(scanFrame);
+    };
+
+    const startCamera = async () => {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setCameraError('Camera access is not supported on this device. Enter ticket codes manually below.');
+        return;
+      }
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          await videoRef.current.play();
+        }
+        frameRef.current = requestAnimationFrame(scanFrame);
+      } catch (error) {
+        console.error('Error starting camera:', error);
+        setCameraError('Could not access the camera. Allow camera permission or enter ticket codes manually below.');
+      }
+    };
+
+    startCamera();
+
+    return () => {
+      cancelled = true;
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+      streamRef.current?.getTracks().forEach(track => track.stop());
+    };
+  }, [processCode]);
+
+  const handleManualSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!manualCode.trim()) return;
+    await processCode(manualCode.trim());
+    setManualCode('');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="p-6 border-b border-slate-700">
+          <div className="flex justify-between items-start">
+            <div>
+              <h2 className="text-2xl font-bold text-white">Check-in Console</h2>
+              <p className="text-gray-400 mt-1">{event.name}</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-white transition-colors"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          <div className="p-3 rounded-lg bg-slate-800/60 text-sm space-y-2">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <span className={`w-2 h-2 rounded-full ${isOnline ? 'bg-green-400' : 'bg-red-400'}`} />
+                <span className="text-gray-300">{isOnline ? 'Online' : 'No connection'}</span>
+                {snapshot && (
+                  <span className="text-gray-500">
+                    · {snapshot.registrations.length} registrations saved {new Date(snapshot.downloadedAt).toLocaleTimeString()}
+                    {queuedCount > 0 && ` · ${queuedCount} waiting to sync`}
+                  </span>
+                )}
+              </div>
+              <div className="flex gap-2">
+                {snapshot && (
+                  <label className="flex items-center gap-1 text-gray-300">
+                    <input type="checkbox" checked={offlineMode} onChange={e => setOfflineMode(e.target.checked)} />
+                    Offline mode
+                  </label>
+                )}
+                <button onClick={handleDownload} disabled={isDownloading || !isOnline} className="px-3 py-1 rounded-md bg-slate-700 hover:bg-slate-600 disabled:opacity-50">
+                  {isDownloading ? 'Downloading...' : snapshot ? 'Refresh Copy' : 'Download for Offline'}
+                </button>
+                {queuedCount > 0 && (
+                  <button onClick={syncQueue} disabled={!isOnline} className="px-3 py-1 rounded-md bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50">Sync Now</button>
+                )}
+                {snapshot && queuedCount === 0 && (
+                  <button onClick={handleRemoveCopy} className="px-3 py-1 rounded-md text-gray-400 hover:text-white">Remove Copy</button>
+                )}
+              </div>
+            </div>
+            {syncMessage && <p className="text-gray-400">{syncMessage}</p>}
+          </div>
+
+          {cameraError ? (
+            <div className="p-4 rounded-lg border border-yellow-500/30 bg-yellow-500/10 text-yellow-400 text-sm">
+              {cameraError}
+            </div>
+          ) : (
+            <div className="relative rounded-lg overflow-hidden bg-black">
+              <video ref={videoRef} className="w-full max-h-80 object-cover" muted playsInline />
+              <div className="absolute inset-8 border-2 border-indigo-400/70 rounded-lg pointer-events-none" />
+            </div>
+          )}
+          <canvas ref={canvasRef} className="hidden" />
+
+          {lastResult && (
+            <div className={`p-4 rounded-lg border ${resultStyles[lastResult.status]}`}>
+              <p className="font-semibold">{resultTitles[lastResult.status]}</p>
+              <p className="text-sm text-gray-300 mt-1">{lastResult.message}</p>
+              {lastResult.registration && (
+                <p className="text-xs text-gray-400 mt-1">
+                  {lastResult.registration.userEmail}
+                  {lastResult.registration.isGuest && lastResult.registration.guestCollege ? ` · ${lastResult.registration.guestCollege}` : ''}
+                </p>
+              )}
+            </div>
+          )}
+
+          <form onSubmit={handleManualSubmit} className="flex gap-2">
+            <input
+              type="text"
+              value={manualCode}
+              onChange={(e) => setManualCode(e.target.value)}
+              placeholder={offlineMode ? 'Paste ticket code or enter roll number' : 'Paste ticket code'}
+              className="flex-1 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-indigo-500"
+            />
+            <button
+              type="submit"
+              className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-indigo-700 transition-colors text-sm"
+            >
+              Verify
+            </button>
+          </form>
+
+          {history.length > 0 && (
+            <div>
+              <h4 className="text-sm font-semibold text-gray-300 mb-2">Recent Scans</h4>
+              <ul className="space-y-1 text-sm">
+                {history.map((result, i) => (
+                  <li key={i} className="flex justify-between border-b border-slate-800 py-1">
+                    <span className="text-white">{result.registration?.userName || 'Unknown'}</span>
+                    <span className={resultStyles[result.status].split(' ').pop()}>{resultTitles[result.status]}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CheckInScanner;
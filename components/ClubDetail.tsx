@@ -1,27 +1,38 @@
 import React, { useMemo, useState, useEffect, useCallback, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Club, EventStatus, User, Application, Event as EventType, ClubTeamMember } from '../types';
+import { Club, EventStatus, User, Application, Event as EventType, ClubTeamMember, RecruitmentDrive } from '../types';
 import EventsSection from './EventsSection';
 import SectionHeader from './SectionHeader';
 import CreateEventForm from './CreateEvent';
 import ContributorManager from './ContributorManager';
 import PaymentDetailsManager from './PaymentDetailsManager';
+import CouponManager from './CouponManager';
 import { firestoreDataService } from '../services/firestoreDataService';
+import { can } from '../utils/permissions';
+import { getScheduleStatus, sortEventsBySchedule } from '../utils/eventSchedule';
+import { calendarService } from '../services/calendarService';
+import CalendarFeedLink from './CalendarFeedLink';
 // import { useRef, useState } from 'react';
 import { uploadClubImage } from '../services/firebaseStorageService';
+import CertificateTemplateEditor from './CertificateTemplateEditor';
+import RecruitmentPipeline from './RecruitmentPipeline';
+import RecruitmentDrivesPanel from './RecruitmentDrivesPanel';
+import { recruitmentDriveService } from '../services/recruitmentDriveService';
+import { getOpenDrive } from '../utils/recruitment';
 import * as XLSX from 'xlsx';
 
 interface ApplicationModalProps {
     club: Club;
+    questions: string[]; // The open drive's questions, or the club's defaults for a joining request
     user: User;
     isSuccess: boolean;
     onSubmit: (formattedAnswers: { question: string; answer: string }[]) => void;
     onClose: () => void;
 }
 
-const ApplicationModal: React.FC<ApplicationModalProps> = ({ club, user, isSuccess, onSubmit, onClose }) => {
+const ApplicationModal: React.FC<ApplicationModalProps> = ({ club, questions, user, isSuccess, onSubmit, onClose }) => {
     const [answers, setAnswers] = useState<{ [key: number]: string }>({});
-    const hasQuestions = club.recruitmentQuestions && club.recruitmentQuestions.length > 0;
+    const hasQuestions = questions.length > 0;
 
 
     const handleAnswerChange = (index: number, value: string) => {
@@ -30,10 +41,10 @@ const ApplicationModal: React.FC<ApplicationModalProps> = ({ club, user, isSucce
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        const formattedAnswers = club.recruitmentQuestions?.map((q, i) => ({
+        const formattedAnswers = questions.map((q, i) => ({
             question: q,
             answer: answers[i] || ''
-        })) || [];
+        }));
         onSubmit(formattedAnswers);
     }
 
@@ -58,7 +69,7 @@ const ApplicationModal: React.FC<ApplicationModalProps> = ({ club, user, isSucce
                             <p className="text-gray-400 text-center mb-6">Your complete profile information will be shared with the admin.</p>
                             <form onSubmit={handleSubmit} className="space-y-4 max-h-[60vh] overflow-y-auto pr-2">
                                 {hasQuestions ? (
-                                    club.recruitmentQuestions?.map((question, index) => (
+                                    questions.map((question, index) => (
                                         <div key={index}>
                                             <label className="block text-sm font-medium text-gray-300 mb-1">{question}</label>
                                             <textarea
@@ -93,7 +104,8 @@ interface ClubDetailProps {
   applications: Application[];
   allUsers?: User[];
   onUpdateClub: (updatedClub: Club) => void;
-  onApplicationStatusChange: (clubId: string, application: Application, status: 'accepted' | 'rejected') => void;
+  onApplicationStatusChange: (clubId: string, application: Application, status: 'accepted' | 'rejected', acceptOptions?: { position: string; grantManagement: boolean }) => Promise<void> | void;
+  onApplicationsChanged: (clubId: string) => void;
   onNewApplication: (application: Omit<Application, 'id'>) => void;
   onCreateEvent: (event: EventType) => void;
   onUpdateEvent: (event: EventType) => void;
@@ -117,39 +129,6 @@ const TextAreaField: React.FC<React.TextareaHTMLAttributes<HTMLTextAreaElement>
     </div>
 );
 
-const ApplicationResponsesModal: React.FC<{ application: Application; onClose: () => void }> = ({ application, onClose }) => {
-    return (
-        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
-            <div className="bg-slate-900 border border-slate-700 rounded-lg shadow-xl max-w-2xl w-full relative max-h-[80vh] flex flex-col" onClick={e => e.stopPropagation()}>
-                <div className="p-6 border-b border-slate-700 flex-shrink-0">
-                    <div className="flex items-center justify-between">
-                        <div className="flex items-center">
-                            <img src={application.userImageUrl} className="w-14 h-14 rounded-full mr-4" alt={application.userName} />
-                            <div>
-                                <h3 className="text-2xl font-bold text-white">{application.userName}</h3>
-                                <p className="text-sm text-gray-400">{application.userEmail}</p>
-                                <p className="text-sm text-gray-400">{application.userBranch} - {application.userYear}</p>
-                            </div>
-                        </div>
-                        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-white text-2xl">&times;</button>
-                    </div>
-                </div>
-                <div className="p-6 overflow-y-auto">
-                    <h4 className="text-lg font-semibold text-white mb-4">Application Responses</h4>
-                    <div className="space-y-4">
-                        {application.answers.map((ans, i) => (
-                            <div key={i}>
-                                <p className="text-sm font-semibold text-gray-300">{ans.question}</p>
-                                <p className="text-gray-400 bg-slate-800 p-3 rounded-md mt-1 whitespace-pre-wrap">{ans.answer}</p>
-                            </div>
-                        ))}
-                    </div>
-                </div>
-            </div>
-        </div>
-    );
-};
-
 const AllMembersModal: React.FC<{ members: ClubTeamMember[]; clubName: string; onClose: () => void; isClosing: boolean }> = ({ members, clubName, onClose, isClosing }) => {
     return (
         <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4 animate-backdrop-fade-in" onClick={onClose}>
@@ -184,21 +163,22 @@ const AllMembersModal: React.FC<{ members: ClubTeamMember[]; clubName: string; o
 
 const ClubDetail: React.FC<ClubDetailProps> = ({
   club, clubEvents, setEvents, user, applications, allUsers = [],
-  onUpdateClub, onApplicationStatusChange, onNewApplication, onCreateEvent, onUpdateEvent, registrations,
+  onUpdateClub, onApplicationStatusChange, onApplicationsChanged, onNewApplication, onCreateEvent, onUpdateEvent, registrations,
   onAddClubMember, onRemoveClubMember, onUpdateClubMember
 }) => {
   const [activeTab, setActiveTab] = useState<'ongoing' | 'past'>('ongoing');
-  const [adminTab, setAdminTab] = useState<'recruitment' | 'members' | 'events' | 'settings' | 'payments'>('recruitment');
+  const [adminTab, setAdminTab] = useState<'recruitment' | 'members' | 'events' | 'settings' | 'payments' | 'certificates'>('recruitment');
   const [applicationState, setApplicationState] = useState<'idle' | 'applying' | 'success'>('idle');
   const [isCreatingEvent, setIsCreatingEvent] = useState(false);
   const [editingEvent, setEditingEvent] = useState<EventType | null>(null);
-  const [viewingApplication, setViewingApplication] = useState<Application | null>(null);
   const [isMembersModalOpen, setIsMembersModalOpen] = useState(false);
   const [isAnimatingOut, setIsAnimatingOut] = useState(false);
   const navigate = useNavigate();
   
   const [localClub, setLocalClub] = useState<Club>(club);
   const [justApplied, setJustApplied] = useState(false);
+  const [drives, setDrives] = useState<RecruitmentDrive[]>([]);
+  const [selectedDriveId, setSelectedDriveId] = useState('');
   useEffect(() => {
     setLocalClub(club);
   }, [club]);
@@ -341,14 +321,16 @@ const ClubDetail: React.FC<ClubDetailProps> = ({
           userMobile: user.mobile || 'N/A',
           clubId: club.id,
           status: 'pending',
-          answers: formattedAnswers
+          answers: formattedAnswers,
+          driveId: openDrive?.id
       });
       setApplicationState('success');
       setJustApplied(true);
   };
 
-  const upcomingEvents = useMemo(() => clubEvents.filter(e => e.status === EventStatus.Upcoming || e.status === EventStatus.Ongoing), [clubEvents]);
-  const pastEvents = useMemo(() => clubEvents.filter(e => e.status === EventStatus.Past), [clubEvents]);
+  const sortedClubEvents = useMemo(() => sortEventsBySchedule(clubEvents), [clubEvents]);
+  const upcomingEvents = useMemo(() => sortedClubEvents.filter(e => getScheduleStatus(e) !== EventStatus.Past), [sortedClubEvents]);
+  const pastEvents = useMemo(() => sortedClubEvents.filter(e => getScheduleStatus(e) === EventStatus.Past), [sortedClubEvents]);
 
   const handleUpdateMemberPosition = (memberId: string, newPosition: string) => {
     // Only update local state, do NOT change adminTab here
@@ -419,64 +401,9 @@ const ClubDetail: React.FC<ClubDetailProps> = ({
       return member;
     });
 
-    // Find removed members (those present in club.team but not in localClub.team)
-    const previousTeam = club.team || [];
-    const currentTeam = localClub.team || [];
-    const removedMembers = previousTeam.filter(
-      prevMember => !currentTeam.some(m => m.id === prevMember.id)
-    );
-
-    // Update removed members' user profiles: remove clubId from managedClubIds and depromote if needed
-    console.log("hola", removedMembers);
-    for (const member of removedMembers) {
-      if (member.id) {
-        try {
-          const userProfile = allUsers.find(u => u.id === member.id);
-          if (userProfile && Array.isArray(userProfile.managedClubIds)) {
-            const updatedManagedClubIds = userProfile.managedClubIds.filter(id => id !== localClub.id);
-            const newRole = updatedManagedClubIds.length === 0 ? 'student' : userProfile.role;
-            await firestoreDataService.updateClubMemberProfile(member.id, {
-              managedClubIds: updatedManagedClubIds,
-              role: newRole
-            });
-          }
-        } catch (err) {
-          // Ignore errors for now
-        }
-      }
-    }
-
-    // Send the updated club details with the rebuilt team array
+    // Send the updated club details with the rebuilt team array; saving the team also updates
+    // the members' club access, including taking it away from anyone who was removed
     await onUpdateClub({ ...localClub, team: updatedTeam });
-
-    // For each member in localClub.team, update their user profile to include this club in managedClubIds if not already present
-    if (user && localClub.team && localClub.id) {
-      for (const member of localClub.team) {
-        // Only update for real users (not dummy ids)
-        if (member.id) {
-          try {
-            // Fetch user profile (assume you have allUsers loaded)
-            const userProfile = allUsers.find(u => u.id === member.id);
-            if (userProfile) {
-              // Add club to managedClubIds if not present
-              const managedClubIds = Array.isArray(userProfile.managedClubIds)
-                ? Array.from(new Set([...userProfile.managedClubIds, localClub.id]))
-                : [localClub.id];
-              // Set role to contributor if not admin
-              const newRole = userProfile.role === 'admin' ? 'admin' : 'contributor';
-              // Update user profile in backend
-              await firestoreDataService.updateClubMemberProfile(member.id, {
-                managedClubIds,
-                role: newRole,
-                name: member.name // ensure name is up to date
-              });
-            }
-          } catch (err) {
-            // Ignore errors for now
-          }
-        }
-      }
-    }
   };
 
   const handleCloseMembersModal = () => {
@@ -487,33 +414,40 @@ const ClubDetail: React.FC<ClubDetailProps> = ({
     }, 300);
   };
   const pendingApplications = useMemo(() => applications.filter(a => a.status === 'pending'), [applications]);
+
+  useEffect(() => {
+    let active = true;
+    recruitmentDriveService.getDrives(club.id).then(loaded => {
+      if (!active) return;
+      setDrives(loaded);
+      // Start on the drive taking applications, else the most recent one
+      setSelectedDriveId((getOpenDrive(loaded) || loaded[0])?.id || '');
+    });
+    return () => { active = false; };
+  }, [club.id]);
+  const openDrive = useMemo(() => getOpenDrive(drives), [drives]);
+  const driveApplications = useMemo(
+    () => applications.filter(a => (a.driveId || '') === selectedDriveId),
+    [applications, selectedDriveId]
+  );
   
   // FIX: Use localClub state for all checks to ensure UI is consistent with edits.
   const isMember = useMemo(() => localClub.team.some(m => m.name === user?.name), [localClub.team, user]);
-  const hasAppliedServer = useMemo(() => applications.some(a => a.userId === user?.id), [applications, user]);
+  // One application per drive; outside a drive, a pending request blocks another
+  const hasAppliedServer = useMemo(
+    () => applications.some(a => a.userId === user?.id && (openDrive ? a.driveId === openDrive.id : a.status === 'pending')),
+    [applications, user, openDrive]
+  );
   const hasApplied = hasAppliedServer || justApplied;
-  const isManager = user?.role === 'contributor' && user?.managedClubIds?.includes(localClub.id);
-
-
-//   console.log('ClubDetail received clubEvents:', clubEvents);
-
-  // Helper: check if user is an admin for this club
-  const isClubAdmin = useMemo(() => {
-    if (!user) return false;
-    // Give admin access if:
-    // - user.role === 'admin'
-    // - OR user.role === 'contributor' AND user's position in club.team is 'admin'
-    // - OR user.id is in club.adminIds (if you use that array)
-    if (user.role === 'admin') return true;
-    if (club.adminIds && club.adminIds.includes(user.id)) return true;
-    if (user.role === 'contributor') {
-      const member = club.team?.find(m => m.id === user.id);
-      if (member && member.position && member.position.toLowerCase().includes('admin')) {
-        return true;
-      }
-    }
-    return false;
-  }, [user, club]);
+  // Club capabilities come from the central permission policy
+  const isManager = can(user, 'manage-club-profile', localClub.id);
+  const isClubAdmin = can(user, 'manage-club-team', localClub.id);
+  const canReviewApplications = can(user, 'review-applications', localClub.id);
+  const canManageEvents = can(user, 'create-event', localClub.id);
+  const canManagePayments = can(user, 'manage-payments', localClub.id);
+  const canIssueCertificates = can(user, 'issue-certificates', localClub.id);
+  const loadClubFeedUrl = useCallback(() => calendarService.getClubFeedUrl(localClub.id), [localClub.id]);
+  const hasClubConsole = isManager || isClubAdmin || canReviewApplications || canManageEvents || canManagePayments || canIssueCertificates;
 
   // Refs for file inputs
   const logoInputRef = useRef<HTMLInputElement>(null);
@@ -585,6 +519,7 @@ const ClubDetail: React.FC<ClubDetailProps> = ({
       {applicationState !== 'idle' && user && (
         <ApplicationModal
           club={localClub} // Use localClub for consistent data
+          questions={openDrive ? openDrive.questions : localClub.recruitmentQuestions || []}
           user={user}
           isSuccess={applicationState === 'success'}
           onSubmit={handleSubmitApplication}
@@ -605,9 +540,6 @@ const ClubDetail: React.FC<ClubDetailProps> = ({
             </div>
         </div>
       )}
-      {viewingApplication && (
-        <ApplicationResponsesModal application={viewingApplication} onClose={() => setViewingApplication(null)} />
-      )}
       {isMembersModalOpen && (
         <AllMembersModal members={localClub.team} clubName={localClub.name} onClose={handleCloseMembersModal} isClosing={isAnimatingOut} />
       )}
@@ -640,14 +572,16 @@ const ClubDetail: React.FC<ClubDetailProps> = ({
                     {isMember ? (
                         <p className="text-green-400 font-semibold">You are a member of this club!</p>
                     ) : hasApplied ? (
-                        <p className="text-yellow-400 font-semibold">Your application is pending.</p>
+                        <p className="text-yellow-400 font-semibold">{openDrive ? `You have applied in ${openDrive.title}.` : 'Your application is pending.'}</p>
                     ) : (
                         <>
                             <p className="text-gray-400 text-sm mb-4">
-                                {localClub.recruitmentOpen ? 'Recruitment is currently open!' : 'Recruitment is closed, but you can still send a joining request.'}
+                                {openDrive
+                                    ? `${openDrive.title} is open until ${new Date(openDrive.closesAt).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' })}.`
+                                    : 'Recruitment is closed, but you can still send a joining request.'}
                             </p>
                             <button onClick={() => setApplicationState('applying')} className="w-full bg-indigo-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-indigo-700 transition-colors">
-                                {localClub.recruitmentOpen ? 'Apply Now' : 'Send Request'}
+                                {openDrive ? 'Apply Now' : 'Send Request'}
                             </button>
                         </>
                     )}
@@ -675,33 +609,37 @@ const ClubDetail: React.FC<ClubDetailProps> = ({
 
             </div>
             <div className="lg:col-span-2">
-                {isClubAdmin ? (
+                {hasClubConsole ? (
                   <div className="bg-slate-900 rounded-2xl border border-slate-800">
                     <div className="p-4 border-b border-slate-800 flex items-center gap-2">
-                      <button onClick={() => setAdminTab('recruitment')} className={`px-4 py-2 rounded-lg text-sm font-semibold ${adminTab === 'recruitment' ? 'bg-indigo-600' : 'hover:bg-slate-800'}`}>Recruitment ({pendingApplications.length})</button>
+                      {canReviewApplications && <button onClick={() => setAdminTab('recruitment')} className={`px-4 py-2 rounded-lg text-sm font-semibold ${adminTab === 'recruitment' ? 'bg-indigo-600' : 'hover:bg-slate-800'}`}>Recruitment ({pendingApplications.length})</button>}
                       <button onClick={() => setAdminTab('members')} className={`px-4 py-2 rounded-lg text-sm font-semibold ${adminTab === 'members' ? 'bg-indigo-600' : 'hover:bg-slate-800'}`}>Members</button>
-                      <button onClick={() => setAdminTab('events')} className={`px-4 py-2 rounded-lg text-sm font-semibold ${adminTab === 'events' ? 'bg-indigo-600' : 'hover:bg-slate-800'}`}>Events</button>
-                      <button onClick={() => setAdminTab('payments')} className={`px-4 py-2 rounded-lg text-sm font-semibold ${adminTab === 'payments' ? 'bg-indigo-600' : 'hover:bg-slate-800'}`}>Payments</button>
-                      <button onClick={() => setAdminTab('settings')} className={`px-4 py-2 rounded-lg text-sm font-semibold ${adminTab === 'settings' ? 'bg-indigo-600' : 'hover:bg-slate-800'}`}>Settings</button>
+                      {canManageEvents && <button onClick={() => setAdminTab('events')} className={`px-4 py-2 rounded-lg text-sm font-semibold ${adminTab === 'events' ? 'bg-indigo-600' : 'hover:bg-slate-800'}`}>Events</button>}
+                      {canManagePayments && <button onClick={() => setAdminTab('payments')} className={`px-4 py-2 rounded-lg text-sm font-semibold ${adminTab === 'payments' ? 'bg-indigo-600' : 'hover:bg-slate-800'}`}>Payments</button>}
+                      {canIssueCertificates && <button onClick={() => setAdminTab('certificates')} className={`px-4 py-2 rounded-lg text-sm font-semibold ${adminTab === 'certificates' ? 'bg-indigo-600' : 'hover:bg-slate-800'}`}>Certificates</button>}
+                      {isManager && <button onClick={() => setAdminTab('settings')} className={`px-4 py-2 rounded-lg text-sm font-semibold ${adminTab === 'settings' ? 'bg-indigo-600' : 'hover:bg-slate-800'}`}>Settings</button>}
                     </div>
                     <div className="p-6">
                       {/* Recruitment tab */}
-                      {adminTab === 'recruitment' && (
+                      {adminTab === 'recruitment' && canReviewApplications && (
                         <div className="space-y-4">
-                          <h3 className="text-xl font-bold">Pending Applications</h3>
-                          {pendingApplications.length > 0 ? pendingApplications.map(app => (
-                            <div key={app.id} className="bg-slate-800/50 p-3 rounded-lg flex justify-between items-center">
-                                <div className="flex items-center gap-3">
-                                    <img src={app.userImageUrl} alt={app.userName} className="w-10 h-10 rounded-full"/>
-                                    <p className="font-semibold">{app.userName}</p>
-                                </div>
-                                <div className="flex items-center gap-2">
-                                    <button onClick={() => setViewingApplication(app)} className="text-xs px-3 py-1.5 rounded-md bg-slate-700 hover:bg-slate-600">View</button>
-                                    <button onClick={() => onApplicationStatusChange(localClub.id, app, 'accepted')} className="text-xs px-3 py-1.5 rounded-md bg-green-600 hover:bg-green-700">Accept</button>
-                                    <button onClick={() => onApplicationStatusChange(localClub.id, app, 'rejected')} className="text-xs px-3 py-1.5 rounded-md bg-red-600 hover:bg-red-700">Reject</button>
-                                </div>
-                            </div>
-                          )) : <p className="text-gray-400">No pending applications.</p>}
+                          <h3 className="text-xl font-bold">Recruitment</h3>
+                          <RecruitmentDrivesPanel
+                            club={localClub}
+                            drives={drives}
+                            applications={applications}
+                            selectedDriveId={selectedDriveId}
+                            onSelectDrive={setSelectedDriveId}
+                            onDrivesChange={setDrives}
+                          />
+                          <RecruitmentPipeline
+                            key={selectedDriveId}
+                            club={localClub}
+                            user={user}
+                            applications={driveApplications}
+                            onAccept={(app, options) => onApplicationStatusChange(localClub.id, app, 'accepted', options)}
+                            onApplicationsChanged={() => onApplicationsChanged(localClub.id)}
+                          />
                         </div>
                       )}
                       {/* Members tab: allow editing members */}
@@ -805,16 +743,19 @@ const ClubDetail: React.FC<ClubDetailProps> = ({
                         </div>
                       )}
                       {/* Events tab */}
-                      {adminTab === 'events' && (
+                      {adminTab === 'events' && canManageEvents && (
                         <div>
                           <div className="flex justify-between items-center mb-4">
                             <h3 className="text-xl font-bold">Manage Events</h3>
                             <button onClick={() => setIsCreatingEvent(true)} className="px-4 py-2 text-sm font-bold bg-indigo-600 rounded-lg hover:bg-indigo-700">+ New Event</button>
                           </div>
+                          <div className="mb-4">
+                            <CalendarFeedLink label={`${localClub.name} Public Calendar`} loadUrl={loadClubFeedUrl} />
+                          </div>
                           <div className="space-y-4">
-                            {clubEvents.map(event => {
-                                const isPast = event.status === EventStatus.Past;
-                                const isFuture = event.status === EventStatus.Upcoming || event.status === EventStatus.Ongoing;
+                            {sortedClubEvents.map(event => {
+                                const isPast = getScheduleStatus(event) === EventStatus.Past;
+                                const isFuture = !isPast;
                                 return (
                                 <div key={event.id} className="bg-slate-800/50 p-3 rounded-lg flex justify-between items-center">
                                     <div>
@@ -841,17 +782,24 @@ const ClubDetail: React.FC<ClubDetailProps> = ({
                         </div>
                       )}
                       {/* Payments tab: manage payment details for admins */}
-                      {adminTab === 'payments' && (
+                      {adminTab === 'payments' && canManagePayments && (
                         <div>
                           <PaymentDetailsManager
                             clubId={localClub.id}
                             clubName={localClub.name}
-                            isAdmin={isClubAdmin}
+                            isAdmin={canManagePayments}
                           />
+                          <div className="mt-8">
+                            <CouponManager clubId={localClub.id} clubEvents={clubEvents} />
+                          </div>
                         </div>
                       )}
+                      {/* Certificates tab: the club's certificate design */}
+                      {adminTab === 'certificates' && canIssueCertificates && (
+                        <CertificateTemplateEditor clubId={localClub.id} clubName={localClub.name} />
+                      )}
                       {/* Settings tab: allow editing settings for admins */}
-                      {adminTab === 'settings' && (
+                      {adminTab === 'settings' && isManager && (
                         <div>
                           <h3 className="text-xl font-bold mb-4">Club Settings</h3>
                           <div className="space-y-4">
@@ -893,25 +841,8 @@ const ClubDetail: React.FC<ClubDetailProps> = ({
                             <InputField label="Banner Image URL" id="bannerUrl" value={localClub.bannerUrl} onChange={(e) => handleClubInfoChange('bannerUrl', e.target.value)} />
                             <TextAreaField label="Description" id="description" value={localClub.description} onChange={(e) => handleClubInfoChange('description', e.target.value)} rows={5}/>
                             
-                            <div className="pt-4 border-t border-slate-700">
-                                <label className="block text-sm font-medium text-gray-300 mb-2">Recruitment Status</label>
-                                <button
-                                    type="button"
-                                    onClick={() => handleClubInfoChange('recruitmentOpen', !localClub.recruitmentOpen)}
-                                    className={`relative inline-flex items-center h-6 rounded-full w-11 transition-colors ${
-                                        localClub.recruitmentOpen ? 'bg-indigo-600' : 'bg-slate-700'
-                                    }`}
-                                >
-                                    <span
-                                        className={`inline-block w-4 h-4 transform bg-white rounded-full transition-transform ${
-                                            localClub.recruitmentOpen ? 'translate-x-6' : 'translate-x-1'
-                                        }`}
-                                    />
-                                </button>
-                                <span className="ml-3 text-sm text-gray-400">{localClub.recruitmentOpen ? 'Open' : 'Closed'}</span>
-                            </div>
-
                             <h4 className="font-semibold pt-4 border-t border-slate-700">Recruitment Questions</h4>
+                            <p className="text-sm text-gray-400">Recruitment opens and closes with drives in the Recruitment tab. These questions are copied into each new drive.</p>
                             {(localClub.recruitmentQuestions || []).map((q, i) => (
                                 <div key={i} className="flex gap-2 items-center">
                                     <input type="text" value={q} onChange={e => handleQuestionChange(i, e.target.value)} className="flex-1 block w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md"/>
@@ -946,6 +877,9 @@ const ClubDetail: React.FC<ClubDetailProps> = ({
                 ) : (
                   // Non-admins (coordinators/contributors) see only basic info and events
                   <div>
+                    <div className="mb-6">
+                        <CalendarFeedLink label={`Subscribe to ${localClub.name} events`} loadUrl={loadClubFeedUrl} />
+                    </div>
                     <div className="flex border-b border-slate-800 mb-6">
                         <button onClick={() => setActiveTab('ongoing')} className={`px-6 py-3 font-semibold ${activeTab === 'ongoing' ? 'text-white border-b-2 border-indigo-500' : 'text-gray-400'}`}>Upcoming</button>
                         <button onClick={() => setActiveTab('past')} className={`px-6 py-3 font-semibold ${activeTab === 'past' ? 'text-white border-b-2 border-indigo-500' : 'text-gray-400'}`}>Past Events</button>
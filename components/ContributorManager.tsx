@@ -1,6 +1,7 @@
-import React, { useState, useEffect } from 'react';
-import { User, Club } from '../types';
-import { revokeContributorFromClub, revokeAllContributorAccess, canUserManageClub } from '../utils/adminUtils';
+import React, { useState } from 'react';
+import { User, Club, ClubRole } from '../types';
+import { revokeContributorFromClub, revokeAllContributorAccess, setClubRole } from '../utils/adminUtils';
+import { CLUB_ROLE_LABELS, can } from '../utils/permissions';
 
 interface ContributorManagerProps {
   currentUser: User;
@@ -15,20 +16,11 @@ const ContributorManager: React.FC<ContributorManagerProps> = ({
   contributors,
   onContributorUpdate
 }) => {
-  const [canManage, setCanManage] = useState(false);
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
 
-  // Check if current user can manage this club
-  useEffect(() => {
-    const checkPermissions = async () => {
-      if (currentUser?.id) {
-        const hasPermission = await canUserManageClub(currentUser.id, club.id);
-        setCanManage(hasPermission);
-      }
-    };
-    checkPermissions();
-  }, [currentUser, club.id]);
+  const canManage = can(currentUser, 'manage-club-team', club.id);
+  const canRevokeEverywhere = can(currentUser, 'manage-contributors');
 
   // Filter contributors who manage this specific club
   const clubContributors = contributors.filter(contributor => 
@@ -57,6 +49,31 @@ const ContributorManager: React.FC<ContributorManagerProps> = ({
     }
   };
 
+  const handleClubRoleChange = async (contributor: User, clubRole: ClubRole | null) => {
+    if (!currentUser?.id) return;
+
+    setLoading(true);
+    setMessage(null);
+
+    try {
+      const success = await setClubRole(contributor.id!, club.id, clubRole, currentUser.id);
+
+      if (success) {
+        setMessage({
+          text: clubRole ? `${contributor.name} is now ${CLUB_ROLE_LABELS[clubRole]} of ${club.name}` : `${contributor.name} no longer has a club role`,
+          type: 'success',
+        });
+        onContributorUpdate();
+      } else {
+        setMessage({ text: 'Failed to change the club role. Only members of the club team can hold one.', type: 'error' });
+      }
+    } catch (error) {
+      setMessage({ text: 'Error changing the club role', type: 'error' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleRevokeAllAccess = async (contributorId: string, contributorName: string) => {
     if (!currentUser?.id) return;
 
@@ -131,6 +148,18 @@ const ContributorManager: React.FC<ContributorManagerProps> = ({
                 </span>
                 
                 <div className="flex gap-2">
+                  <select
+                    value={contributor.clubRoles?.[club.id] || ''}
+                    onChange={e => handleClubRoleChange(contributor, (e.target.value || null) as ClubRole | null)}
+                    disabled={loading}
+                    className="px-2 py-1 text-xs bg-slate-700 border border-slate-600 rounded-md text-white disabled:opacity-50"
+                  >
+                    <option value="">No club role</option>
+                    {(Object.keys(CLUB_ROLE_LABELS) as ClubRole[]).map(role => (
+                      <option key={role} value={role}>{CLUB_ROLE_LABELS[role]}</option>
+                    ))}
+                  </select>
+
                   <button
                     onClick={() => handleRevokeFromClub(contributor.id!, contributor.name)}
                     disabled={loading}
@@ -139,7 +168,7 @@ const ContributorManager: React.FC<ContributorManagerProps> = ({
                     Revoke from {club.name}
                   </button>
                   
-                  {contributor.managedClubIds && contributor.managedClubIds.length > 1 && (
+                  {canRevokeEverywhere && contributor.managedClubIds && contributor.managedClubIds.length > 1 && (
                     <button
                       onClick={() => handleRevokeAllAccess(contributor.id!, contributor.name)}
                       disabled={loading}
@@ -157,8 +186,8 @@ const ContributorManager: React.FC<ContributorManagerProps> = ({
 
       <div className="mt-4 p-3 bg-slate-800/30 rounded-md">
         <p className="text-xs text-gray-400">
-          <strong>Note:</strong> As a contributor to this club, you can revoke other contributors' access to this club. 
-          Admins can revoke access to any club.
+          <strong>Note:</strong> As a lead of this club, you can make team members club leads or coordinators and revoke
+          other contributors' access to this club. Team positions are only titles. Admins can revoke access to any club.
         </p>
       </div>
     </div>
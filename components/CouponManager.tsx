@@ -0,0 +1,251 @@
+import React, { useEffect, useState } from 'react';
+import { Event } from '../types';
+import { pricingService } from '../services/pricingService';
+import { PaymentConfig, paymentConfigService } from '../services/paymentConfigService';
+import { Coupon, CouponDiscountType, isPaidEvent } from '../utils/pricing';
+
+interface CouponManagerProps {
+  clubId: string;
+  clubEvents: Event[];
+}
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-md px-2 py-1.5 text-white text-sm';
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' });
+
+// yyyy-MM-ddTHH:mm in local time, for datetime-local inputs
+const toLocalInput = (iso?: string) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const getCouponStatus = (coupon: Coupon, now: Date = new Date()): string => {
+  if (!coupon.isActive) return 'Inactive';
+  if (coupon.validFrom && now < new Date(coupon.validFrom)) return 'Scheduled';
+  if (coupon.validUntil && now > new Date(coupon.validUntil)) return 'Expired';
+  if (coupon.maxUses !== undefined && coupon.usedCount >= coupon.maxUses) return 'Used up';
+  return 'Active';
+};
+
+const emptyDraft = {
+  code: '',
+  discountType: 'percentage' as CouponDiscountType,
+  value: '',
+  maxUses: '',
+  eventIds: [] as string[],
+  validFrom: '',
+  validUntil: '',
+  isActive: true,
+};
+
+// Creating, editing and switching off a club's coupon codes, with how often each has been used
+const CouponManager: React.FC<CouponManagerProps> = ({ clubId, clubEvents }) => {
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [draft, setDraft] = useState(emptyDraft);
+  const [editingCode, setEditingCode] = useState<string | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [configs, setConfigs] = useState<PaymentConfig[]>([]);
+
+  useEffect(() => {
+    pricingService.getClubCoupons(clubId).then(setCoupons);
+    paymentConfigService.getClubPaymentConfigs(clubId).then(setConfigs);
+  }, [clubId]);
+
+  const paidEvents = clubEvents.filter(event => isPaidEvent(event, configs.find(config => config.eventId === event.id)));
+
+  const startCreating = () => {
+    setDraft(emptyDraft);
+    setEditingCode(null);
+    setError(null);
+    setIsFormOpen(true);
+  };
+
+  const startEditing = (coupon: Coupon) => {
+    setDraft({
+      code: coupon.code,
+      discountType: coupon.discountType,
+      value: String(coupon.value),
+      maxUses: coupon.maxUses !== undefined ? String(coupon.maxUses) : '',
+      eventIds: coupon.eventIds || [],
+      validFrom: toLocalInput(coupon.validFrom),
+      validUntil: toLocalInput(coupon.validUntil),
+      isActive: coupon.isActive,
+    });
+    setEditingCode(coupon.code);
+    setError(null);
+    setIsFormOpen(true);
+  };
+
+  const toggleEvent = (eventId: string) =>
+    setDraft(prev => ({
+      ...prev,
+      eventIds: prev.eventIds.includes(eventId) ? prev.eventIds.filter(id => id !== eventId) : [...prev.eventIds, eventId],
+    }));
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (draft.validFrom && draft.validUntil && draft.validUntil <= draft.validFrom) {
+        throw new Error('The coupon must end after it starts');
+      }
+      const saved = await pricingService.saveCoupon({
+        code: draft.code,
+        clubId,
+        discountType: draft.discountType,
+        value: parseFloat(draft.value) || 0,
+        maxUses: draft.maxUses ? parseInt(draft.maxUses) || 0 : undefined,
+        eventIds: draft.eventIds.length ? draft.eventIds : undefined,
+        validFrom: draft.validFrom ? new Date(draft.validFrom).toISOString() : undefined,
+        validUntil: draft.validUntil ? new Date(draft.validUntil).toISOString() : undefined,
+        isActive: draft.isActive,
+      });
+      setCoupons(prev => [...prev.filter(c => c.code !== saved.code), saved].sort((a, b) => a.code.localeCompare(b.code)));
+      setIsFormOpen(false);
+    } catch (err: any) {
+      console.error('Error saving coupon:', err);
+      setError(err.message || 'Failed to save the coupon.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeactivate = async (coupon: Coupon) => {
+    if (!window.confirm(`Stop accepting coupon ${coupon.code}?`)) return;
+    try {
+      await pricingService.deactivateCoupon(clubId, coupon.code);
+      setCoupons(prev => prev.map(c => c.code === coupon.code ? { ...c, isActive: false } : c));
+    } catch (err: any) {
+      console.error('Error deactivating coupon:', err);
+      setError(err.message || 'Failed to deactivate the coupon.');
+    }
+  };
+
+  const describeScope = (coupon: Coupon) =>
+    coupon.eventIds?.length
+      ? coupon.eventIds.map(id => clubEvents.find(event => event.id === id)?.name || 'Deleted event').join(', ')
+      : 'All club events';
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xl font-bold">Coupon Codes</h3>
+        {!isFormOpen && (
+          <button onClick={startCreating} className="px-3 py-1.5 rounded-md bg-slate-700 hover:bg-slate-600">New Coupon</button>
+        )}
+      </div>
+
+      {isFormOpen && (
+        <div className="bg-slate-800/50 p-4 rounded-lg space-y-3">
+          <p className="font-semibold text-white">{editingCode ? `Edit ${editingCode}` : 'New Coupon'}</p>
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-2">
+            <input
+              value={draft.code}
+              onChange={e => setDraft({ ...draft, code: e.target.value.toUpperCase() })}
+              className={inputClass}
+              placeholder="CODE"
+              disabled={!!editingCode}
+            />
+            <select value={draft.discountType} onChange={e => setDraft({ ...draft, discountType: e.target.value as CouponDiscountType })} className={inputClass}>
+              <option value="percentage">Percent off</option>
+              <option value="flat">Flat ₹ off</option>
+            </select>
+            <input
+              type="number"
+              value={draft.value}
+              onChange={e => setDraft({ ...draft, value: e.target.value })}
+              className={inputClass}
+              placeholder={draft.discountType === 'percentage' ? 'Percent' : 'Rupees'}
+              min="1"
+              max={draft.discountType === 'percentage' ? 100 : undefined}
+            />
+            <input
+              type="number"
+              value={draft.maxUses}
+              onChange={e => setDraft({ ...draft, maxUses: e.target.value })}
+              className={inputClass}
+              placeholder="Usage limit (blank = none)"
+              min="1"
+            />
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            <label className="block">
+              <span className="block text-gray-400 text-xs mb-1">Valid from (optional)</span>
+              <input type="datetime-local" value={draft.validFrom} onChange={e => setDraft({ ...draft, validFrom: e.target.value })} className={inputClass} />
+            </label>
+            <label className="block">
+              <span className="block text-gray-400 text-xs mb-1">Valid until (optional)</span>
+              <input type="datetime-local" value={draft.validUntil} onChange={e => setDraft({ ...draft, validUntil: e.target.value })} className={inputClass} />
+            </label>
+          </div>
+          {paidEvents.length > 0 && (
+            <div>
+              <p className="text-gray-400 text-xs mb-1">Events (none ticked = every club event)</p>
+              <div className="flex flex-wrap gap-3">
+                {paidEvents.map(event => (
+                  <label key={event.id} className="flex items-center gap-1.5 text-gray-300">
+                    <input type="checkbox" checked={draft.eventIds.includes(event.id)} onChange={() => toggleEvent(event.id)} />
+                    {event.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+          <label className="flex items-center gap-2 text-gray-300">
+            <input type="checkbox" checked={draft.isActive} onChange={e => setDraft({ ...draft, isActive: e.target.checked })} />
+            Active
+          </label>
+          {error && <p className="text-red-400">{error}</p>}
+          <div className="flex gap-2">
+            <button onClick={handleSave} disabled={isSaving || !draft.code.trim() || !draft.value} className="px-4 py-2 font-semibold rounded-md bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50">
+              {isSaving ? 'Saving...' : 'Save Coupon'}
+            </button>
+            <button onClick={() => setIsFormOpen(false)} className="px-4 py-2 rounded-md bg-slate-700 hover:bg-slate-600">Cancel</button>
+          </div>
+        </div>
+      )}
+
+      {!isFormOpen && error && <p className="text-red-400">{error}</p>}
+
+      {coupons.length === 0 ? (
+        <p className="text-gray-400">No coupon codes yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {coupons.map(coupon => {
+            const status = getCouponStatus(coupon);
+            return (
+              <div key={coupon.code} className="flex flex-wrap items-center justify-between gap-2 bg-slate-800/50 p-3 rounded-lg">
+                <div>
+                  <p className="font-mono font-semibold text-white">
+                    {coupon.code}
+                    <span className="ml-2 font-sans font-normal text-gray-300">
+                      {coupon.discountType === 'percentage' ? `${coupon.value}% off` : `₹${coupon.value} off`}
+                    </span>
+                  </p>
+                  <p className="text-xs text-gray-400">
+                    {describeScope(coupon)} · Used {coupon.usedCount}{coupon.maxUses !== undefined ? ` of ${coupon.maxUses}` : ''}{coupon.reservedCount ? ` · ${coupon.reservedCount} at checkout` : ''}
+                    {coupon.validUntil && ` · Until ${formatDate(coupon.validUntil)}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className={`px-2 py-0.5 rounded-full text-xs ${status === 'Active' ? 'bg-green-500/20 text-green-400' : 'bg-slate-700 text-gray-300'}`}>
+                    {status}
+                  </span>
+                  <button onClick={() => startEditing(coupon)} className="text-xs px-3 py-1.5 rounded-md bg-slate-700 hover:bg-slate-600">Edit</button>
+                  {coupon.isActive && (
+                    <button onClick={() => handleDeactivate(coupon)} className="text-xs px-3 py-1.5 rounded-md bg-red-600/20 text-red-400 hover:bg-red-600/30">Deactivate</button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CouponManager;
@@ -1,9 +1,22 @@
 import React, { useState } from 'react';
-import { Event, EventCategory, EventStatus } from '../types';
+import { Event, EventCategory, EventStatus, RegistrationField } from '../types';
 import { collection, addDoc, doc, setDoc } from "firebase/firestore";
 import { db } from "../../frontend/firebaseConfig";
 import { getStorage, ref, uploadBytes, getDownloadURL } from "firebase/storage";
 import { firestoreDataService } from '../services/firestoreDataService';
+import RegistrationFormBuilder from './RegistrationFormBuilder';
+import { getRegistrationFormProblems } from '../utils/registrationForm';
+import { removeUndefinedValues } from '../utils/firestoreUtils';
+import {
+  DEFAULT_EVENT_TIME_ZONE,
+  EVENT_TIME_ZONES,
+  getEventSchedule,
+  getScheduleStatus,
+  isoToZonedParts,
+  normalizeSchedule,
+  toLegacyDateTime,
+  zonedTimeToIso,
+} from '../utils/eventSchedule';
 interface CreateEventProps {
   clubId: string;
   onClose: () => void;
@@ -12,6 +25,33 @@ interface CreateEventProps {
   eventToEdit?: Event;
 }
 
+// datetime-local inputs work in local time without a zone, while events store ISO timestamps
+const toDateTimeLocal = (iso?: string): string => {
+    if (!iso) return '';
+    const date = new Date(iso);
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+// Schedule inputs are wall-clock times in the event's own time zone rather than the browser's
+const toZonedInput = (iso: string | undefined, timeZone: string): string => {
+    if (!iso) return '';
+    const { date, time } = isoToZonedParts(iso, timeZone);
+    return `${date}T${time}`;
+};
+
+const fromZonedInput = (value: string, timeZone: string): string => {
+    const [date, time] = value.split('T');
+    return zonedTimeToIso(date, time, timeZone);
+};
+
+interface SessionDraft {
+  id: string;
+  title: string;
+  startsAt: string;
+  endsAt: string;
+  venue: string;
+}
+
 const InputField: React.FC<React.InputHTMLAttributes<HTMLInputElement> & { label: string }> = ({ label, id, ...props }) => (
     <div>
         <label htmlFor={id} className="block text-sm font-medium text-gray-300 mb-1">{label}</label>
@@ -44,8 +84,19 @@ const CreateEventForm: React.FC<CreateEventProps> = ({ clubId, onClose, onCreate
   const [eventImages, setEventImages] = useState<File[]>([]);
   
   const [name, setName] = useState(eventToEdit?.name || '');
-  const [date, setDate] = useState(eventToEdit?.date || '');
-  const [time, setTime] = useState(eventToEdit?.time || '');
+  const initialSchedule = eventToEdit ? getEventSchedule(eventToEdit) : null;
+  const [timeZone, setTimeZone] = useState(initialSchedule?.timeZone || DEFAULT_EVENT_TIME_ZONE);
+  const [startsAt, setStartsAt] = useState(toZonedInput(initialSchedule?.start, timeZone));
+  const [endsAt, setEndsAt] = useState(toZonedInput(initialSchedule?.end, timeZone));
+  const [sessions, setSessions] = useState<SessionDraft[]>(
+    (initialSchedule?.sessions || []).map(session => ({
+      id: session.id,
+      title: session.title,
+      startsAt: toZonedInput(session.start, timeZone),
+      endsAt: toZonedInput(session.end, timeZone),
+      venue: session.venue || '',
+    }))
+  );
   const [location, setLocation] = useState(eventToEdit?.location || '');
   const [description, setDescription] = useState(eventToEdit?.description || '');
   const [rules, setRules] = useState(eventToEdit?.rules?.join('\n') || '');
@@ -67,6 +118,21 @@ const CreateEventForm: React.FC<CreateEventProps> = ({ clubId, onClose, onCreate
   // New: Team registration fields
   const [registrationType, setRegistrationType] = useState<'individual' | 'team'>(eventToEdit?.registrationType || 'individual');
   const [maxTeamSize, setMaxTeamSize] = useState(eventToEdit?.maxTeamSize?.toString() || '');
+  const [minTeamSize, setMinTeamSize] = useState(eventToEdit?.minTeamSize?.toString() || '');
+  const [teamLockDeadline, setTeamLockDeadline] = useState(toDateTimeLocal(eventToEdit?.teamLockDeadline));
+  const [registrationForm, setRegistrationForm] = useState<RegistrationField[]>(eventToEdit?.registrationForm || []);
+
+  const handleSessionChange = (index: number, field: keyof Omit<SessionDraft, 'id'>, value: string) => {
+    setSessions(prev => prev.map((session, i) => i === index ? { ...session, [field]: value } : session));
+  };
+
+  const addSession = () => {
+    setSessions(prev => [...prev, { id: `session${Date.now()}`, title: '', startsAt: prev[prev.length - 1]?.endsAt || startsAt, endsAt: '', venue: '' }]);
+  };
+
+  const removeSession = (index: number) => {
+    setSessions(prev => prev.filter((_, i) => i !== index));
+  };
 
   const handleCustomSectionChange = (index: number, field: 'title' | 'content' | 'type', value: string) => {
     const newSections = [...customSections];
@@ -107,6 +173,29 @@ const CreateEventForm: React.FC<CreateEventProps> = ({ clubId, onClose, onCreate
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
+
+    if (registrationType === 'team' && minTeamSize && maxTeamSize && parseInt(minTeamSize) > parseInt(maxTeamSize)) {
+      alert('Minimum team size cannot be larger than the maximum team size.');
+      return;
+    }
+
+    if (endsAt <= startsAt) {
+      alert('The event must end after it starts.');
+      return;
+    }
+
+    const invalidSession = sessions.find(session => !session.title.trim() || !session.startsAt || !session.endsAt || session.endsAt <= session.startsAt);
+    if (invalidSession) {
+      alert('Every session needs a title and must end after it starts.');
+      return;
+    }
+
+    const formProblems = getRegistrationFormProblems(registrationForm);
+    if (formProblems.length > 0) {
+      alert(formProblems.join('\n'));
+      return;
+    }
+
     setFormSubmitting(true);
 
     let imageUrl = eventToEdit?.imageUrl || '';
@@ -129,16 +218,34 @@ const CreateEventForm: React.FC<CreateEventProps> = ({ clubId, onClose, onCreate
 
     // Use existing ID for edit, new ID for create
     const eventId = isEditMode ? eventToEdit!.id : `ev${Date.now()}`;
-    // --- Set status based on date ---
-    let status: EventStatus = EventStatus.Upcoming;
-    const today = new Date().toISOString().slice(0, 10);
-    if (date === today) status = EventStatus.Ongoing;
+    // Sessions widen the overall window, and the display strings are derived for older screens
+    const schedule = normalizeSchedule({
+      start: fromZonedInput(startsAt, timeZone),
+      end: fromZonedInput(endsAt, timeZone),
+      timeZone,
+      sessions: sessions.map(session => ({
+        id: session.id,
+        title: session.title.trim(),
+        start: fromZonedInput(session.startsAt, timeZone),
+        end: fromZonedInput(session.endsAt, timeZone),
+        ...(session.venue.trim() ? { venue: session.venue.trim() } : {}),
+      })),
+    });
+    const { date, time } = toLegacyDateTime(schedule);
+    const status = getScheduleStatus({
+      schedule,
+      date,
+      time,
+      status: eventToEdit?.status === EventStatus.Past ? EventStatus.Past : EventStatus.Upcoming,
+    });
 
     const eventData = {
       id: eventId,
       name,
       date,
       time,
+      schedule,
+      calendarSequence: isEditMode ? (eventToEdit!.calendarSequence || 0) + 1 : 0,
       location,
       description,
       rules: rules.split('\n').filter(r => r.trim() !== ''),
@@ -154,6 +261,14 @@ const CreateEventForm: React.FC<CreateEventProps> = ({ clubId, onClose, onCreate
       // New fields for team registration
       registrationType,
       ...(registrationType === 'team' && maxTeamSize ? { maxTeamSize: parseInt(maxTeamSize) } : {}),
+      ...(registrationType === 'team' && minTeamSize ? { minTeamSize: parseInt(minTeamSize) } : {}),
+      ...(registrationType === 'team' && teamLockDeadline ? { teamLockDeadline: new Date(teamLockDeadline).toISOString() } : {}),
+      // Firestore rejects undefined, which the builder uses for cleared settings
+      registrationForm: registrationForm.map(field => removeUndefinedValues({
+        ...field,
+        label: field.label.trim(),
+        options: field.options?.map(o => o.trim()).filter(Boolean),
+      }) as RegistrationField),
     };
 
     if (isEditMode && onUpdateEvent) {
@@ -249,12 +364,34 @@ const CreateEventForm: React.FC<CreateEventProps> = ({ clubId, onClose, onCreate
               <div className="p-6 space-y-6">
                   <InputField label="Event Title" id="name" value={name} onChange={e => setName(e.target.value)} type="text" required />
                   
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                      <InputField label="Date" id="date" value={date} onChange={e => setDate(e.target.value)} type="date" required />
-                      <InputField label="Time" id="time" value={time} onChange={e => setTime(e.target.value)} type="time" required />
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                      <InputField label="Starts" id="startsAt" value={startsAt} onChange={e => setStartsAt(e.target.value)} type="datetime-local" required />
+                      <InputField label="Ends" id="endsAt" value={endsAt} onChange={e => setEndsAt(e.target.value)} type="datetime-local" min={startsAt} required />
+                      <SelectField label="Time Zone" id="timeZone" value={timeZone} onChange={e => setTimeZone(e.target.value)} required>
+                          {Array.from(new Set([timeZone, ...EVENT_TIME_ZONES])).map(zone => <option key={zone} value={zone}>{zone}</option>)}
+                      </SelectField>
                   </div>
 
                   <InputField label="Venue / Location" id="location" value={location} onChange={e => setLocation(e.target.value)} type="text" required placeholder="e.g., Main Auditorium or Virtual" />
+
+                  <div>
+                      <h3 className="text-lg font-semibold text-gray-300 mb-1">Sessions (Optional)</h3>
+                      <p className="text-xs text-gray-400 mb-2">Split multi-day events into rounds or workshop days. Each session can have its own venue.</p>
+                      <div className="space-y-4">
+                        {sessions.map((session, index) => (
+                          <div key={session.id} className="p-3 bg-slate-800/50 rounded-lg space-y-2 relative">
+                            <button type="button" onClick={() => removeSession(index)} className="absolute top-2 right-2 p-1 bg-red-600/20 text-red-400 hover:bg-red-600/50 rounded-full text-sm font-bold">&times;</button>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                              <InputField label="Session Title" id={`session-title-${index}`} value={session.title} onChange={e => handleSessionChange(index, 'title', e.target.value)} placeholder="e.g., Preliminary Round" required />
+                              <InputField label="Venue" id={`session-venue-${index}`} value={session.venue} onChange={e => handleSessionChange(index, 'venue', e.target.value)} placeholder={location || 'Same as the event'} />
+                              <InputField label="Starts" id={`session-start-${index}`} value={session.startsAt} onChange={e => handleSessionChange(index, 'startsAt', e.target.value)} type="datetime-local" required />
+                              <InputField label="Ends" id={`session-end-${index}`} value={session.endsAt} onChange={e => handleSessionChange(index, 'endsAt', e.target.value)} type="datetime-local" min={session.startsAt} required />
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                      <button type="button" onClick={addSession} className="mt-3 px-4 py-2 text-sm bg-slate-700 hover:bg-slate-600 rounded-md font-semibold">+ Add Session</button>
+                  </div>
                   
                   <div>
                       <label className="block text-sm font-medium text-gray-300 mb-1">Event Banner (Image Upload)</label>
@@ -432,7 +569,17 @@ const CreateEventForm: React.FC<CreateEventProps> = ({ clubId, onClose, onCreate
                   </div>
                   {/* Max Team Size (only if team registration) */}
                   {registrationType === 'team' && (
-                    <div>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <InputField
+                        label="Minimum Team Size"
+                        id="minTeamSize"
+                        type="number"
+                        min="1"
+                        max="20"
+                        value={minTeamSize}
+                        onChange={e => setMinTeamSize(e.target.value)}
+                        placeholder="e.g., 2"
+                      />
                       <InputField
                         label="Maximum Team Size"
                         id="maxTeamSize"
@@ -444,8 +591,17 @@ const CreateEventForm: React.FC<CreateEventProps> = ({ clubId, onClose, onCreate
                         onChange={e => setMaxTeamSize(e.target.value)}
                         placeholder="e.g., 4"
                       />
+                      <InputField
+                        label="Teams Lock At"
+                        id="teamLockDeadline"
+                        type="datetime-local"
+                        value={teamLockDeadline}
+                        onChange={e => setTeamLockDeadline(e.target.value)}
+                      />
                     </div>
                   )}
+
+                  <RegistrationFormBuilder fields={registrationForm} onChange={setRegistrationForm} />
               </div>
             
               {/* Footer (part of scrollable content) */}
@@ -1,9 +1,19 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { User, Event, Club } from '../types';
 import { revokeContributorFromClub, revokeAllContributorAccess } from '../utils/adminUtils';
 import PhonePeAccountManager from './PhonePeAccountManager';
 import PaymentDashboard from './PaymentDashboard';
+import AuditLogViewer from './AuditLogViewer';
+import AnalyticsDashboard from './AnalyticsDashboard';
+import { can } from '../utils/permissions';
 import { eventRegistrationService } from '../services/eventRegistrationService';
+import { firestoreDataService } from '../services/firestoreDataService';
+import { guestIdentityService, GuestPurgeResult } from '../services/guestIdentityService';
+import { notificationService } from '../services/notificationService';
+import { phonepeAccountService } from '../services/phonepeAccountService';
+import { reconciliationService } from '../services/reconciliationService';
+import { ReconciliationReport, RECONCILIATION_ISSUE_LABELS } from '../utils/reconciliation';
+import { GUEST_RETENTION_DAYS } from '../utils/guestIdentity';
 
 interface DevAdminProfileProps {
   user: User;
@@ -14,7 +24,7 @@ interface DevAdminProfileProps {
   onRevokeRole: (userId: string, clubId?: string) => void;
 }
 
-type AdminTab = 'management' | 'analytics' | 'settings' | 'payments' | 'phonepe' | 'eventpayments';
+type AdminTab = 'management' | 'analytics' | 'settings' | 'payments' | 'phonepe' | 'eventpayments' | 'audit';
 
 const StatCard: React.FC<{ title: string; value: number; icon: React.ReactNode; delay: number }> = ({ title, value, icon, delay }) => (
     <div className="bg-slate-900/50 p-6 rounded-xl border border-slate-800 flex items-center gap-5 animate-staggered-fade-in" style={{animationDelay: `${delay}ms`}}>
@@ -199,6 +209,97 @@ const DevAdminProfile: React.FC<DevAdminProfileProps> = ({ user, events, clubs,
       );
   }, [contributors, contributorSearch])
 
+  // Schedule migration state
+  const [isMigratingSchedules, setIsMigratingSchedules] = useState(false);
+  const [scheduleMigrationResult, setScheduleMigrationResult] = useState<{ migrated: number; skipped: string[] } | null>(null);
+
+  const handleMigrateSchedules = async () => {
+    setIsMigratingSchedules(true);
+    try {
+      setScheduleMigrationResult(await firestoreDataService.migrateEventSchedules());
+    } catch (error) {
+      console.error('Error migrating event schedules:', error);
+      alert('Failed to migrate event schedules.');
+    } finally {
+      setIsMigratingSchedules(false);
+    }
+  };
+
+  // One-off move of PhonePe secrets saved in plain text into the credential vault
+  const [isMigratingCredentials, setIsMigratingCredentials] = useState(false);
+  const [credentialMigrationResult, setCredentialMigrationResult] = useState<{ migrated: number; failed: string[] } | null>(null);
+
+  const handleMigrateCredentials = async () => {
+    setIsMigratingCredentials(true);
+    try {
+      setCredentialMigrationResult(await phonepeAccountService.migrateLegacyCredentials());
+    } catch (error) {
+      console.error('Error migrating payment credentials:', error);
+      alert('Failed to migrate payment credentials.');
+    } finally {
+      setIsMigratingCredentials(false);
+    }
+  };
+
+  // One-off conversion of notification timestamps saved as ISO strings
+  const [isConvertingTimestamps, setIsConvertingTimestamps] = useState(false);
+  const [convertedTimestamps, setConvertedTimestamps] = useState<number | null>(null);
+
+  const handleConvertTimestamps = async () => {
+    setIsConvertingTimestamps(true);
+    try {
+      setConvertedTimestamps(await notificationService.convertLegacyTimestamps());
+    } catch (error) {
+      console.error('Error converting notification timestamps:', error);
+      alert('Failed to convert notification timestamps.');
+    } finally {
+      setIsConvertingTimestamps(false);
+    }
+  };
+
+  // Guest data retention: a scheduled function purges daily; the console shows its last run
+  const [lastPurge, setLastPurge] = useState<GuestPurgeResult | null>(null);
+  const [isPurging, setIsPurging] = useState(false);
+
+  useEffect(() => {
+    if (!can(user, 'purge-guest-data')) return;
+    guestIdentityService.getLastPurge().then(setLastPurge);
+  }, [user]);
+
+  const handlePurgeGuests = async () => {
+    if (!window.confirm(`Delete guest profiles, registrations and payments older than ${GUEST_RETENTION_DAYS} days?`)) return;
+    setIsPurging(true);
+    try {
+      setLastPurge(await guestIdentityService.purgeExpired());
+    } catch (error) {
+      console.error('Error purging guest data:', error);
+      alert('Failed to purge guest data.');
+    } finally {
+      setIsPurging(false);
+    }
+  };
+
+  // Payment reconciliation: the nightly function's latest report, or a manual re-run
+  const [reconciliationReport, setReconciliationReport] = useState<ReconciliationReport | null>(null);
+  const [isReconciling, setIsReconciling] = useState(false);
+
+  useEffect(() => {
+    if (!can(user, 'reconcile-payments')) return;
+    reconciliationService.getLastReport().then(setReconciliationReport);
+  }, [user]);
+
+  const handleReconcile = async () => {
+    setIsReconciling(true);
+    try {
+      setReconciliationReport(await reconciliationService.run(events));
+    } catch (error) {
+      console.error('Error reconciling payments:', error);
+      alert('Failed to reconcile payments.');
+    } finally {
+      setIsReconciling(false);
+    }
+  };
+
   // Event Payments State
   const [eventPayments, setEventPayments] = useState<any[]>([]);
   const [isLoadingPayments, setIsLoadingPayments] = useState(false);
@@ -263,7 +364,8 @@ const DevAdminProfile: React.FC<DevAdminProfileProps> = ({ user, events, clubs,
 
         <div className="bg-slate-900/50 border border-slate-800 rounded-lg flex">
             <TabButton tab="management">User Management</TabButton>
-            <TabButton tab="analytics">Analytics</TabButton>
+            {can(user, 'view-analytics') && <TabButton tab="analytics">Analytics</TabButton>}
+            {can(user, 'view-audit-log') && <TabButton tab="audit">Audit Log</TabButton>}
             {/* <TabButton tab="payments">Payments</TabButton>
             <TabButton tab="eventpayments">Event Payments</TabButton>
             <TabButton tab="phonepe">PhonePe Accounts</TabButton> */}
@@ -279,6 +381,97 @@ const DevAdminProfile: React.FC<DevAdminProfileProps> = ({ user, events, clubs,
                         <button onClick={() => setIsModalOpen(true)} className="w-full bg-indigo-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-indigo-700 transition-colors">
                             Assign Role to Student
                         </button>
+                        <div className="border-t border-slate-800 pt-4 space-y-3">
+                            <h2 className="text-xl font-bold text-white">Event Schedules</h2>
+                            <p className="text-sm text-gray-400">Convert events saved with free-form date and time text into structured schedules.</p>
+                            <button onClick={handleMigrateSchedules} disabled={isMigratingSchedules} className="w-full bg-slate-700 text-white font-bold py-3 px-4 rounded-lg hover:bg-slate-600 transition-colors disabled:opacity-50">
+                                {isMigratingSchedules ? 'Migrating...' : 'Migrate Legacy Event Dates'}
+                            </button>
+                            {scheduleMigrationResult && (
+                                <div className="text-sm text-gray-300">
+                                    <p>Migrated {scheduleMigrationResult.migrated} event(s).</p>
+                                    {scheduleMigrationResult.skipped.length > 0 && (
+                                        <div className="mt-2 text-yellow-400">
+                                            <p>Could not read the date of {scheduleMigrationResult.skipped.length} event(s); edit them by hand:</p>
+                                            <ul className="list-disc list-inside">
+                                                {scheduleMigrationResult.skipped.map(name => <li key={name}>{name}</li>)}
+                                            </ul>
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                        <div className="border-t border-slate-800 pt-4 space-y-3">
+                            <h2 className="text-xl font-bold text-white">Payment Credentials</h2>
+                            <p className="text-sm text-gray-400">Move PhonePe salt keys, bank account and PAN numbers, and club bank account numbers saved in plain text into the encrypted credential vault.</p>
+                            <button onClick={handleMigrateCredentials} disabled={isMigratingCredentials} className="w-full bg-slate-700 text-white font-bold py-3 px-4 rounded-lg hover:bg-slate-600 transition-colors disabled:opacity-50">
+                                {isMigratingCredentials ? 'Migrating...' : 'Migrate Credentials to Vault'}
+                            </button>
+                            {credentialMigrationResult && (
+                                <div className="text-sm text-gray-300">
+                                    <p>Migrated {credentialMigrationResult.migrated} account(s).</p>
+                                    {credentialMigrationResult.failed.length > 0 && (
+                                        <div className="mt-2 text-yellow-400">
+                                            <p>Could not migrate {credentialMigrationResult.failed.length} account(s); run the migration again:</p>
+                                            <ul className="list-disc list-inside">
+                                                {credentialMigrationResult.failed.map(name => <li key={name}>{name}</li>)}
+                                            </ul>
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                        <div className="border-t border-slate-800 pt-4 space-y-3">
+                            <h2 className="text-xl font-bold text-white">Notification Timestamps</h2>
+                            <p className="text-sm text-gray-400">Convert notifications saved with a text timestamp to server timestamps. Audit log entries are left as they were written.</p>
+                            <button onClick={handleConvertTimestamps} disabled={isConvertingTimestamps} className="w-full bg-slate-700 text-white font-bold py-3 px-4 rounded-lg hover:bg-slate-600 transition-colors disabled:opacity-50">
+                                {isConvertingTimestamps ? 'Converting...' : 'Convert Notification Timestamps'}
+                            </button>
+                            {convertedTimestamps !== null && <p className="text-sm text-gray-300">Converted {convertedTimestamps} notification(s).</p>}
+                        </div>
+                        {can(user, 'purge-guest-data') && (
+                            <div className="border-t border-slate-800 pt-4 space-y-3">
+                                <h2 className="text-xl font-bold text-white">Guest Data</h2>
+                                <p className="text-sm text-gray-400">Guest profiles, registrations and payments are deleted {GUEST_RETENTION_DAYS} days after the guest's last registration, and their invoices keep only the amounts. This runs every night.</p>
+                                <button onClick={handlePurgeGuests} disabled={isPurging} className="w-full bg-slate-700 text-white font-bold py-3 px-4 rounded-lg hover:bg-slate-600 transition-colors disabled:opacity-50">
+                                    {isPurging ? 'Purging...' : 'Purge Expired Guest Data Now'}
+                                </button>
+                                {lastPurge && (
+                                    <p className="text-sm text-gray-300">
+                                        Last run {new Date(lastPurge.ranAt).toLocaleString()}: removed {lastPurge.profiles} profile(s), {lastPurge.registrations} registration(s), {lastPurge.payments} payment(s) and {lastPurge.paymentIntents ?? 0} payment intent(s), and redacted {lastPurge.invoicesRedacted ?? 0} invoice(s).
+                                    </p>
+                                )}
+                            </div>
+                        )}
+                        {can(user, 'reconcile-payments') && (
+                            <div className="border-t border-slate-800 pt-4 space-y-3">
+                                <h2 className="text-xl font-bold text-white">Payment Reconciliation</h2>
+                                <p className="text-sm text-gray-400">Flags payments without a registration, paid registrations without a payment, amount mismatches and payments missing from the club ledger. Runs nightly.</p>
+                                <button onClick={handleReconcile} disabled={isReconciling} className="w-full bg-slate-700 text-white font-bold py-3 px-4 rounded-lg hover:bg-slate-600 transition-colors disabled:opacity-50">
+                                    {isReconciling ? 'Reconciling...' : 'Reconcile Payments Now'}
+                                </button>
+                                {reconciliationReport && (
+                                    <div className="text-sm text-gray-300 space-y-2">
+                                        <p>
+                                            Last run {new Date(reconciliationReport.ranAt).toLocaleString()}: checked {reconciliationReport.checkedPayments} payment(s) across {reconciliationReport.checkedEvents} event(s), {reconciliationReport.issues.length} issue(s) found.
+                                        </p>
+                                        {reconciliationReport.issues.length > 0 && (
+                                            <ul className="space-y-2 max-h-64 overflow-y-auto pr-2">
+                                                {reconciliationReport.issues.map((issue, i) => (
+                                                    <li key={`${issue.kind}-${issue.paymentId || issue.registrationId}-${i}`} className="bg-slate-800 rounded-md p-3">
+                                                        <div className="flex justify-between gap-2">
+                                                            <span className="px-2 py-0.5 rounded text-xs font-medium bg-yellow-500/20 text-yellow-300">{RECONCILIATION_ISSUE_LABELS[issue.kind]}</span>
+                                                            <span className="text-xs text-gray-400">{issue.eventName}</span>
+                                                        </div>
+                                                        <p className="mt-1 text-gray-300">{issue.detail}</p>
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        )}
                     </div>
                      <div className="bg-slate-900 border border-slate-800 rounded-lg p-6">
                         <div className="flex justify-between items-center mb-4">
@@ -291,21 +484,14 @@ const DevAdminProfile: React.FC<DevAdminProfileProps> = ({ user, events, clubs,
                     </div>
                 </div>
             )}
-            {activeTab === 'analytics' && (
-                <div className="text-center bg-slate-900 p-12 rounded-lg border border-slate-800">
-                    <div className="inline-block p-4 bg-yellow-500/10 rounded-full mb-4">
-                        <svg className="w-12 h-12 text-yellow-400" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
-                        </svg>
-                    </div>
-                    <h2 className="text-3xl font-bold text-white">Analytics Section Coming Soon!</h2>
-                    <p className="mt-2 text-gray-400 max-w-lg mx-auto">
-                        We are currently building a powerful analytics dashboard to provide insights into event popularity, user engagement, and club growth. Please check back later.
-                    </p>
-                </div>
+            {activeTab === 'analytics' && can(user, 'view-analytics') && (
+                <AnalyticsDashboard clubs={clubs} />
+            )}
+            {activeTab === 'audit' && can(user, 'view-audit-log') && (
+                <AuditLogViewer allUsers={allUsers} />
             )}
             {activeTab === 'payments' && (
-                <PaymentDashboard user={user} clubs={clubs} />
+                <PaymentDashboard user={user} clubs={clubs} events={events} />
             )}
             {activeTab === 'phonepe' && (
                 <div className="space-y-6">
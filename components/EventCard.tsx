@@ -4,6 +4,7 @@ import { useNavigate } from 'react-router-dom';
 import { Event, EventStatus } from '../types';
 import { getEventName, getEventDescription, getEventDate, getEventTime, getEventLocation } from '../utils/eventUtils';
 import { optimizedRegistrationService } from '../services/optimizedRegistrationService';
+import { calendarService } from '../services/calendarService';
 import LazyWrapper from './LazyWrapper';
 
 const statusStyles: { [key in EventStatus]: string } = {
@@ -99,15 +100,26 @@ const EventCard: React.FC<EventCardProps> = ({ event, registrations = 0 }) => {
                     <span>{eventLocation}</span>
                 </div>
             </div>
+            <div className="mt-4 sm:mt-0 flex items-center gap-2">
+            {event.status !== EventStatus.Past && (
+              <button
+                onClick={() => calendarService.downloadEventIcs(event)}
+                title="Add to calendar"
+                className="bg-slate-800 text-gray-300 font-semibold py-2 px-4 rounded-full hover:bg-slate-700 hover:text-white transition-colors duration-300 text-sm"
+              >
+                + Calendar
+              </button>
+            )}
             <button
               onClick={() => navigate(`/events/${event.id}`)}
-              className="mt-4 sm:mt-0 bg-indigo-600 text-white font-bold py-2 px-4 rounded-full hover:bg-indigo-700 transition-colors duration-300 flex items-center group"
+              className="bg-indigo-600 text-white font-bold py-2 px-4 rounded-full hover:bg-indigo-700 transition-colors duration-300 flex items-center group"
             >
               Learn More
               <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 ml-2 transform group-hover:translate-x-1 transition-transform" viewBox="0 0 20 20" fill="currentColor">
                 <path fillRule="evenodd" d="M10.293 3.293a1 1 0 011.414 0l6 6a1 1 0 010 1.414l-6 6a1 1 0 01-1.414-1.414L14.586 11H3a1 1 0 110-2h11.586l-4.293-4.293a1 1 0 010-1.414z" clipRule="evenodd" />
               </svg>
             </button>
+            </div>
         </div>
         {/* Registration statistics section - lazy loaded */}
         <div className="mt-6">
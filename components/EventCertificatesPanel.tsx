@@ -0,0 +1,122 @@
+import React, { useState, useEffect } from 'react';
+import { Certificate, Event } from '../types';
+import { certificateService, CertificateIssueSummary } from '../services/certificateService';
+import { CERTIFICATE_KIND_LABELS, downloadCertificatesPdf } from '../utils/certificate';
+
+interface EventCertificatesPanelProps {
+  event: Event;
+  className?: string;
+}
+
+// Organizer view for issuing and downloading an event's certificates
+const EventCertificatesPanel: React.FC<EventCertificatesPanelProps> = ({ event, className = '' }) => {
+  const [certificates, setCertificates] = useState<Certificate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isIssuing, setIsIssuing] = useState(false);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [summary, setSummary] = useState<CertificateIssueSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    certificateService.getEventCertificates(event.organizerClubId, event.id)
+      .then(setCertificates)
+      .catch(err => {
+        console.error('Error loading certificates:', err);
+        setError(err.message || 'Failed to load certificates.');
+      })
+      .finally(() => setIsLoading(false));
+  }, [event.organizerClubId, event.id]);
+
+  const handleIssue = async () => {
+    setIsIssuing(true);
+    setError(null);
+    try {
+      const result = await certificateService.issueEventCertificates(event);
+      setSummary(result);
+      setCertificates(prev => [...prev, ...result.issued]);
+    } catch (err: any) {
+      console.error('Error issuing certificates:', err);
+      setError(err.message || 'Failed to issue certificates.');
+    } finally {
+      setIsIssuing(false);
+    }
+  };
+
+  const handleDownload = async (list: Certificate[], fileName: string, key: string) => {
+    setDownloadingId(key);
+    try {
+      await downloadCertificatesPdf(list, fileName);
+    } catch (err: any) {
+      console.error('Error rendering certificates:', err);
+      setError(err.message || 'Failed to generate the PDF.');
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  const sorted = [...certificates].sort((a, b) => a.kind.localeCompare(b.kind) || a.recipientName.localeCompare(b.recipientName));
+  const fileBase = event.name.replace(/[^a-z0-9]+/gi, '_');
+
+  return (
+    <div className={`bg-slate-900/50 border border-slate-800 rounded-xl p-5 space-y-4 ${className}`}>
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <div>
+          <h3 className="text-xl font-bold text-white">Certificates</h3>
+          <p className="text-sm text-gray-400">Participation for everyone checked in; winner certificates from the posted results.</p>
+        </div>
+        <div className="flex gap-2">
+          {certificates.length > 0 && (
+            <button
+              onClick={() => handleDownload(sorted, `${fileBase}_certificates`, 'all')}
+              disabled={!!downloadingId}
+              className="px-4 py-2 text-sm rounded-md bg-slate-700 text-gray-200 hover:bg-slate-600 disabled:opacity-50"
+            >
+              {downloadingId === 'all' ? 'Generating...' : 'Download All (PDF)'}
+            </button>
+          )}
+          <button onClick={handleIssue} disabled={isIssuing} className="px-4 py-2 text-sm font-semibold rounded-md bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50">
+            {isIssuing ? 'Issuing...' : certificates.length ? 'Issue Missing' : 'Issue Certificates'}
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      {summary && (
+        <div className="text-sm text-gray-300 bg-slate-800/50 rounded-lg p-3 space-y-1">
+          <p>Issued {summary.issued.length} new certificate{summary.issued.length === 1 ? '' : 's'}{summary.skipped ? `; ${summary.skipped} already had one` : ''}.</p>
+          {summary.unmatchedWinners.length > 0 && (
+            <p className="text-amber-300">No account matched {summary.unmatchedWinners.join(', ')}. Their certificates can be downloaded here and handed over directly.</p>
+          )}
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-400">Loading certificates...</p>
+      ) : sorted.length === 0 ? (
+        <p className="text-sm text-gray-400">No certificates issued yet.</p>
+      ) : (
+        <ul className="divide-y divide-slate-800 max-h-80 overflow-y-auto text-sm">
+          {sorted.map(certificate => (
+            <li key={certificate.id} className="flex items-center justify-between py-2 gap-3">
+              <div className="min-w-0">
+                <p className="text-white truncate">{certificate.recipientName}</p>
+                <p className="text-xs text-gray-400">
+                  {certificate.position || CERTIFICATE_KIND_LABELS[certificate.kind]} · <span className="font-mono">{certificate.id}</span>
+                </p>
+              </div>
+              <button
+                onClick={() => handleDownload([certificate], `${fileBase}_${certificate.recipientName.replace(/[^a-z0-9]+/gi, '_')}`, certificate.id)}
+                disabled={!!downloadingId}
+                className="text-indigo-400 hover:text-indigo-300 disabled:opacity-50 shrink-0"
+              >
+                {downloadingId === certificate.id ? 'Generating...' : 'PDF'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default EventCertificatesPanel;
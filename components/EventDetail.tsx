@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import { Link } from 'react-router-dom';
-import { Event, EventStatus, User, Club } from '../types';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Event, EventStatus, User, Club, Tournament } from '../types';
 import { eventRegistrationService } from '../services/eventRegistrationService';
 import EditHighlightsModal from './EditHighlightsModal';
 import CreateEventForm from './CreateEvent';
@@ -9,6 +9,12 @@ import EventRegistrationStats from './EventRegistrationStats';
 import RegistrationNotification from './RegistrationNotification';
 import RegistrationStatusBanner from './RegistrationStatusBanner';
 import EventPaymentConfig from './EventPaymentConfig';
+import TournamentPanel from './TournamentPanel';
+import JudgingConsole from './JudgingConsole';
+import EventCertificatesPanel from './EventCertificatesPanel';
+import { can, canJudgeEvent } from '../utils/permissions';
+import { calendarService } from '../services/calendarService';
+import { getEventSessions, formatScheduleDay, formatScheduleTime } from '../utils/eventSchedule';
 
 interface EventDetailProps {
   event: Event;
@@ -30,17 +36,23 @@ const EventDetail: React.FC<EventDetailProps> = ({ event, clubs, user, onRegiste
     const organizerClub = clubs.find(c => c.id === event.organizerClubId);
     const [isRegistered, setIsRegistered] = useState<boolean>(false);
     const [isCheckingRegistration, setIsCheckingRegistration] = useState<boolean>(false);
-    // Find admin in club team
-    const clubAdmin = organizerClub?.team?.find(m => m.position?.toLowerCase() === 'admin');
-    const isClubAdmin = user && clubAdmin && clubAdmin.id === user.id;
-    const isManager = user?.role === 'contributor' && user.managedClubIds?.includes(event.organizerClubId);
-    const isAdmin = user?.position === 'admin';
+    // Event capabilities for the organizing club, from the central permission policy
+    const isManager = can(user, 'edit-event', event.organizerClubId);
+    const canManageHighlights = can(user, 'manage-event-highlights', event.organizerClubId);
+    const canViewRegistrations = can(user, 'export-registrations', event.organizerClubId);
+    const canManagePayments = can(user, 'manage-payments', event.organizerClubId);
+    const canManageFixtures = can(user, 'manage-fixtures', event.organizerClubId);
+    const canManageJudging = can(user, 'manage-judging', event.organizerClubId);
+    const canIssueCertificates = can(user, 'issue-certificates', event.organizerClubId);
+    const isJudge = canJudgeEvent(user, event);
     console.log(user.role)
     const [isEditingHighlights, setIsEditingHighlights] = useState(false);
     const [isEditingEvent, setIsEditingEvent] = useState(false);
     const [isRegistrationModalOpen, setIsRegistrationModalOpen] = useState(false);
+    const [searchParams] = useSearchParams();
+    const teamInviteCode = searchParams.get('team') || undefined;
     const [toastMessage, setToastMessage] = useState<{message: string, type: 'success' | 'error' | 'info' | 'warning'} | null>(null);
-    const canEdit = isAdmin && event.status !== EventStatus.Past;
+    const canEdit = isManager && event.status !== EventStatus.Past;
 
     // Check registration status when component mounts or when user/event changes
     useEffect(() => {
@@ -58,6 +70,10 @@ const EventDetail: React.FC<EventDetailProps> = ({ event, clubs, user, onRegiste
             setIsCheckingRegistration(true);
             const registered = await eventRegistrationService.isUserRegisteredWithUser(event.id, user, event.organizerClubId);
             setIsRegistered(registered);
+            // Team invite links drop the user straight into joining that team
+            if (!registered && teamInviteCode && event.registrationType === 'team') {
+                setIsRegistrationModalOpen(true);
+            }
         } catch (error) {
             console.error('Error checking registration status:', error);
             setIsRegistered(false);
@@ -145,6 +161,19 @@ const EventDetail: React.FC<EventDetailProps> = ({ event, clubs, user, onRegiste
         }
     };
 
+    // Final placements are written to highlights.winners by the tournament service
+    const handleTournamentCompleted = (tournament: Tournament) => {
+        onUpdateEvent({
+            ...event,
+            highlights: {
+                images: event.highlights?.images || [],
+                guests: event.highlights?.guests || [],
+                ...(event.highlights?.galleryDriveLink ? { galleryDriveLink: event.highlights.galleryDriveLink } : {}),
+                winners: tournament.placements.map(placement => ({ position: placement.position, name: placement.name })),
+            },
+        });
+    };
+
     const handleUpdateEventAndClose = (updatedEvent: Event) => {
         onUpdateEvent(updatedEvent);
         setIsEditingEvent(false);
@@ -227,7 +256,12 @@ const EventDetail: React.FC<EventDetailProps> = ({ event, clubs, user, onRegiste
               <div className="mt-8 grid grid-cols-1 md:grid-cols-3 gap-6 text-gray-300 border-y border-gray-800 py-6">
                   <div className="flex items-start">
                       <svg className="h-6 w-6 mr-3 text-indigo-400 flex-shrink-0" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
-                      <div><strong>Date & Time:</strong> {event.date} at {event.time}</div>
+                      <div>
+                          <strong>Date & Time:</strong> {event.date} at {event.time}
+                          {event.status !== EventStatus.Past && (
+                              <button onClick={() => calendarService.downloadEventIcs(event)} className="block mt-1 text-sm text-indigo-400 hover:underline">Add to calendar</button>
+                          )}
+                      </div>
                   </div>
                   <div className="flex items-start">
                       <svg className="h-6 w-6 mr-3 text-indigo-400 flex-shrink-0" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
@@ -251,6 +285,22 @@ const EventDetail: React.FC<EventDetailProps> = ({ event, clubs, user, onRegiste
                               {event.rules.map((rule, i) => <li key={i}>{rule}</li>)}
                               </ul>
                           </>}
+
+                          {getEventSessions(event).length > 0 && <>
+                              <h3 className="text-xl font-bold text-white mt-6">Schedule</h3>
+                              <div className="mt-4 space-y-3">
+                              {getEventSessions(event).map(session => (
+                                  <div key={session.id} className="p-3 bg-slate-800/50 rounded-lg">
+                                      <p className="font-semibold text-white">{session.title}</p>
+                                      <p className="text-sm text-gray-400">
+                                          {formatScheduleDay(session.start, event.schedule!.timeZone)}
+                                          {' · '}{formatScheduleTime({ ...session, timeZone: event.schedule!.timeZone })}
+                                          {' · '}{session.venue || event.location}
+                                      </p>
+                                  </div>
+                              ))}
+                              </div>
+                          </>}
                           
                            {event.customSections?.map((section, index) => (
                                 <div key={index} className="mt-6">
@@ -328,7 +378,7 @@ const EventDetail: React.FC<EventDetailProps> = ({ event, clubs, user, onRegiste
                               )}
                           </div>
                       )}
-                      {user?.role === 'contributor' && isManager && (
+                      {isManager && (
                             <div className="bg-gray-900/50 p-6 rounded-lg border border-gray-800">
                                 <h3 className="text-lg font-semibold text-white">Event Details</h3>
                                 <p className="text-gray-400 mt-2">You are already a member of the event.</p>
@@ -336,7 +386,7 @@ const EventDetail: React.FC<EventDetailProps> = ({ event, clubs, user, onRegiste
                       )}
 
                       {/* Payment Configuration for Managers */}
-                      {canEdit && event.registrationFee && event.registrationFee > 0 && (
+                      {canManagePayments && event.status !== EventStatus.Past && event.registrationFee && event.registrationFee > 0 && (
                         <div className="mt-8">
                           <EventPaymentConfig 
                             event={event} 
@@ -347,19 +397,36 @@ const EventDetail: React.FC<EventDetailProps> = ({ event, clubs, user, onRegiste
                         </div>
                       )}
 
-                      {/* Registration Statistics for Club Admin only */}
-                      {isClubAdmin && (
+                      {/* Registration Statistics for organizers */}
+                      {canViewRegistrations && (
                         <div className="mt-8">
-                          <EventRegistrationStats event={event} isManager={true} />
+                          <EventRegistrationStats event={event} isManager={true} user={user} />
                         </div>
                       )}
                   </div>
               </div>
+              <TournamentPanel
+                  host={{ type: 'event', clubId: event.organizerClubId, eventId: event.id }}
+                  canManage={canManageFixtures}
+                  title="Fixtures & Leaderboard"
+                  className="mt-12"
+                  onCompleted={handleTournamentCompleted}
+              />
+              {isJudge && !canManageJudging && (
+                  <Link to={`/events/${event.id}/judge`} className="mt-12 flex items-center justify-between p-5 rounded-xl bg-indigo-500/10 border border-indigo-500/30 hover:bg-indigo-500/20 transition-colors">
+                      <span>
+                          <span className="block text-lg font-bold text-white">You're judging this event</span>
+                          <span className="text-sm text-gray-300">Open your scorecards</span>
+                      </span>
+                      <span className="text-indigo-300 text-2xl">&rarr;</span>
+                  </Link>
+              )}
+              {canManageJudging && <JudgingConsole event={event} className="mt-12" />}
                {event.status === EventStatus.Past && (
                   <div className="mt-12">
                       <div className="flex justify-between items-center mb-8">
                           <h2 className="text-3xl font-bold text-white border-l-4 border-indigo-500 pl-4">Event Highlights</h2>
-                          {isManager && (
+                          {canManageHighlights && (
                               <button 
                                   onClick={() => setIsEditingHighlights(true)}
                                   className="bg-indigo-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-indigo-700 transition-colors"
@@ -424,6 +491,7 @@ const EventDetail: React.FC<EventDetailProps> = ({ event, clubs, user, onRegiste
                               <p className="text-gray-400">No highlights have been added for this event yet.</p>
                           </div>
                       )}
+                      {canIssueCertificates && <EventCertificatesPanel event={event} className="mt-8" />}
                   </div>
               )}
           </div>
@@ -438,6 +506,7 @@ const EventDetail: React.FC<EventDetailProps> = ({ event, clubs, user, onRegiste
           isOpen={isRegistrationModalOpen}
           onClose={() => setIsRegistrationModalOpen(false)}
           onRegistrationSuccess={handleRegistrationSuccess}
+          initialInviteCode={teamInviteCode}
         />
       )}
     </>
@@ -1,7 +1,50 @@
 import React, { useState, useEffect } from 'react';
 import { Event, User, Club } from '../types';
 import { phonepeAccountService, PhonePeAccount } from '../services/phonepeAccountService';
-import { paymentConfigService, PaymentConfig } from '../services/paymentConfigService';
+import { paymentConfigService, PaymentConfig, RefundRules, DEFAULT_REFUND_RULES } from '../services/paymentConfigService';
+import { PaymentProvider, PAYMENT_PROVIDERS, DEFAULT_PAYMENT_PROVIDER } from '../services/paymentGateway';
+import { TicketTier, TicketAudience, TICKET_AUDIENCES, validateTicketTiers } from '../utils/pricing';
+
+// Tier as edited in the form, with number and date inputs kept as typed
+interface TierDraft {
+  id: string;
+  name: string;
+  audience: TicketAudience;
+  price: string;
+  earlyBirdPrice: string;
+  earlyBirdEndsAt: string; // datetime-local value
+  teamSize: string;
+}
+
+const newId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+// yyyy-MM-ddTHH:mm in local time, for datetime-local inputs
+const toLocalInput = (iso?: string) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const toTierDraft = (tier: TicketTier): TierDraft => ({
+  id: tier.id,
+  name: tier.name,
+  audience: tier.audience,
+  price: String(tier.price),
+  earlyBirdPrice: tier.earlyBirdPrice !== undefined ? String(tier.earlyBirdPrice) : '',
+  earlyBirdEndsAt: toLocalInput(tier.earlyBirdEndsAt),
+  teamSize: tier.teamSize ? String(tier.teamSize) : '',
+});
+
+// Only set keys are written; Firestore rejects undefined inside arrays
+const fromTierDraft = (draft: TierDraft): TicketTier => ({
+  id: draft.id,
+  name: draft.name.trim(),
+  audience: draft.audience,
+  price: parseFloat(draft.price) || 0,
+  ...(draft.earlyBirdPrice.trim() ? { earlyBirdPrice: parseFloat(draft.earlyBirdPrice) || 0 } : {}),
+  ...(draft.earlyBirdEndsAt ? { earlyBirdEndsAt: new Date(draft.earlyBirdEndsAt).toISOString() } : {}),
+  ...(draft.audience === 'team' && draft.teamSize ? { teamSize: parseInt(draft.teamSize) || 0 } : {}),
+});
 
 interface EventPaymentConfigProps {
   event: Event;
@@ -25,11 +68,14 @@ const EventPaymentConfig: React.FC<EventPaymentConfigProps> = ({
 
   // Form state
   const [formData, setFormData] = useState({
+    gateway: DEFAULT_PAYMENT_PROVIDER as PaymentProvider,
     phonePeAccountId: '',
     isEnabled: true,
     customFee: event.registrationFee || 0,
+    ticketTiers: [] as TierDraft[],
     paymentDescription: `Registration for ${event.name}`,
     refundPolicy: '',
+    refundRules: DEFAULT_REFUND_RULES as RefundRules,
     paymentDeadline: '',
     specialInstructions: ''
   });
@@ -51,11 +97,14 @@ const EventPaymentConfig: React.FC<EventPaymentConfigProps> = ({
 
       if (config) {
         setFormData({
+          gateway: config.gateway || DEFAULT_PAYMENT_PROVIDER,
           phonePeAccountId: config.phonePeAccountId,
           isEnabled: config.isEnabled,
           customFee: config.customFee || event.registrationFee || 0,
+          ticketTiers: (config.ticketTiers || []).map(toTierDraft),
           paymentDescription: config.paymentDescription || `Registration for ${event.name}`,
           refundPolicy: config.refundPolicy || '',
+          refundRules: config.refundRules || DEFAULT_REFUND_RULES,
           paymentDeadline: config.paymentDeadline || '',
           specialInstructions: config.specialInstructions || ''
         });
@@ -75,17 +124,30 @@ const EventPaymentConfig: React.FC<EventPaymentConfigProps> = ({
     setSuccess(null);
 
     try {
-      if (!formData.phonePeAccountId) {
+      if (formData.gateway === 'phonepe' && !formData.phonePeAccountId) {
         throw new Error('Please select a PhonePe account');
       }
 
+      if (formData.refundRules.partialRefundHoursBefore > formData.refundRules.fullRefundHoursBefore) {
+        throw new Error('The partial refund window must close after the full refund window');
+      }
+
+      const ticketTiers = formData.ticketTiers.map(fromTierDraft);
+      const tierProblem = validateTicketTiers(ticketTiers);
+      if (tierProblem) {
+        throw new Error(tierProblem);
+      }
+
       const configData = {
         eventId: event.id,
-        phonePeAccountId: formData.phonePeAccountId,
+        gateway: formData.gateway,
+        phonePeAccountId: formData.gateway === 'phonepe' ? formData.phonePeAccountId : '',
         isEnabled: formData.isEnabled,
         customFee: formData.customFee,
+        ticketTiers,
         paymentDescription: formData.paymentDescription,
         refundPolicy: formData.refundPolicy || undefined,
+        refundRules: formData.refundRules,
         paymentDeadline: formData.paymentDeadline || undefined,
         specialInstructions: formData.specialInstructions || undefined,
         organizerId: user.id!,
@@ -119,11 +181,14 @@ const EventPaymentConfig: React.FC<EventPaymentConfigProps> = ({
       setSuccess('Payment configuration deleted successfully!');
       setCurrentConfig(null);
       setFormData({
+        gateway: DEFAULT_PAYMENT_PROVIDER,
         phonePeAccountId: '',
         isEnabled: true,
         customFee: event.registrationFee || 0,
+        ticketTiers: [],
         paymentDescription: `Registration for ${event.name}`,
         refundPolicy: '',
+        refundRules: DEFAULT_REFUND_RULES,
         paymentDeadline: '',
         specialInstructions: ''
       });
@@ -134,6 +199,26 @@ const EventPaymentConfig: React.FC<EventPaymentConfigProps> = ({
     }
   };
 
+  const updateTier = (id: string, changes: Partial<TierDraft>) =>
+    setFormData(prev => ({ ...prev, ticketTiers: prev.ticketTiers.map(tier => tier.id === id ? { ...tier, ...changes } : tier) }));
+
+  const addTier = () =>
+    setFormData(prev => ({
+      ...prev,
+      ticketTiers: [...prev.ticketTiers, {
+        id: newId(),
+        name: '',
+        audience: 'everyone',
+        price: String(prev.customFee || ''),
+        earlyBirdPrice: '',
+        earlyBirdEndsAt: '',
+        teamSize: '',
+      }],
+    }));
+
+  const removeTier = (id: string) =>
+    setFormData(prev => ({ ...prev, ticketTiers: prev.ticketTiers.filter(tier => tier.id !== id) }));
+
   if (isLoading) {
     return (
       <div className="text-center py-8">
@@ -207,22 +292,66 @@ const EventPaymentConfig: React.FC<EventPaymentConfigProps> = ({
                 {currentConfig.isEnabled ? 'Enabled' : 'Disabled'}
               </span>
             </div>
+            {!currentConfig.ticketTiers?.length && (
+              <div>
+                <span className="text-gray-400">Registration Fee:</span>
+                <span className="text-white ml-2">₹{currentConfig.customFee}</span>
+              </div>
+            )}
             <div>
-              <span className="text-gray-400">Registration Fee:</span>
-              <span className="text-white ml-2">₹{currentConfig.customFee}</span>
-            </div>
-            <div>
-              <span className="text-gray-400">PhonePe Account:</span>
+              <span className="text-gray-400">Payment Gateway:</span>
               <span className="text-white ml-2">
-                {availableAccounts.find(acc => acc.id === currentConfig.phonePeAccountId)?.accountName || 'Unknown'}
+                {PAYMENT_PROVIDERS.find(p => p.id === (currentConfig.gateway || DEFAULT_PAYMENT_PROVIDER))?.name}
               </span>
             </div>
+            {currentConfig.gateway === 'phonepe' && (
+              <div>
+                <span className="text-gray-400">PhonePe Account:</span>
+                <span className="text-white ml-2">
+                  {availableAccounts.find(acc => acc.id === currentConfig.phonePeAccountId)?.accountName || 'Unknown'}
+                </span>
+              </div>
+            )}
             <div>
               <span className="text-gray-400">Payment Description:</span>
               <span className="text-white ml-2">{currentConfig.paymentDescription}</span>
             </div>
           </div>
 
+          {!!currentConfig.ticketTiers?.length && (
+            <div className="mt-4">
+              <span className="text-gray-400">Ticket Tiers:</span>
+              <ul className="mt-1 space-y-1">
+                {currentConfig.ticketTiers.map(tier => (
+                  <li key={tier.id} className="text-white">
+                    {tier.name} ({TICKET_AUDIENCES.find(a => a.id === tier.audience)?.name}
+                    {tier.audience === 'team' && tier.teamSize ? `, up to ${tier.teamSize} members` : ''}): ₹{tier.price}
+                    {tier.earlyBirdPrice !== undefined && tier.earlyBirdEndsAt && (
+                      <span className="text-gray-400"> · ₹{tier.earlyBirdPrice} early bird until {new Date(tier.earlyBirdEndsAt).toLocaleString()}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="mt-4">
+            <span className="text-gray-400">Refund Rules:</span>
+            {(() => {
+              const rules = currentConfig.refundRules || DEFAULT_REFUND_RULES;
+              return rules.refundsEnabled ? (
+                <p className="text-white mt-1">
+                  Full refund until {rules.fullRefundHoursBefore}h before the event, {rules.partialRefundPercent}% until {rules.partialRefundHoursBefore}h before
+                  {rules.fullRefundOnEventCancellation && '; full refund if the event is cancelled'}
+                </p>
+              ) : (
+                <p className="text-white mt-1">
+                  No refunds{rules.fullRefundOnEventCancellation && ' unless the event is cancelled'}
+                </p>
+              );
+            })()}
+          </div>
+
           {currentConfig.refundPolicy && (
             <div className="mt-4">
               <span className="text-gray-400">Refund Policy:</span>
@@ -277,22 +406,42 @@ const EventPaymentConfig: React.FC<EventPaymentConfigProps> = ({
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
                 <label className="block text-sm font-medium text-gray-400 mb-2">
-                  PhonePe Account <span className="text-red-400">*</span>
+                  Payment Gateway <span className="text-red-400">*</span>
                 </label>
                 <select
-                  value={formData.phonePeAccountId}
-                  onChange={(e) => setFormData({...formData, phonePeAccountId: e.target.value})}
+                  value={formData.gateway}
+                  onChange={(e) => setFormData({...formData, gateway: e.target.value as PaymentProvider})}
                   className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md text-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
                   required
                 >
-                  <option value="">Select a PhonePe account</option>
-                  {availableAccounts.map(account => (
-                    <option key={account.id} value={account.id}>
-                      {account.accountName} ({account.environment})
+                  {PAYMENT_PROVIDERS.map(provider => (
+                    <option key={provider.id} value={provider.id}>
+                      {provider.name}
                     </option>
                   ))}
                 </select>
               </div>
+
+              {formData.gateway === 'phonepe' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-2">
+                    PhonePe Account <span className="text-red-400">*</span>
+                  </label>
+                  <select
+                    value={formData.phonePeAccountId}
+                    onChange={(e) => setFormData({...formData, phonePeAccountId: e.target.value})}
+                    className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md text-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    required
+                  >
+                    <option value="">Select a PhonePe account</option>
+                    {availableAccounts.map(account => (
+                      <option key={account.id} value={account.id}>
+                        {account.accountName} ({account.environment})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
               
               <div className="flex items-center">
                 <label className="flex items-center gap-2">
@@ -322,7 +471,7 @@ const EventPaymentConfig: React.FC<EventPaymentConfigProps> = ({
                   step="0.01"
                 />
                 <p className="text-xs text-gray-400 mt-1">
-                  Event default: ₹{event.registrationFee || 0}
+                  Event default: ₹{event.registrationFee || 0}{formData.ticketTiers.length > 0 && ' · replaced by the ticket tiers below'}
                 </p>
               </div>
               
@@ -340,18 +489,167 @@ const EventPaymentConfig: React.FC<EventPaymentConfigProps> = ({
               </div>
             </div>
 
+            {/* Ticket Tiers */}
+            <div className="space-y-3">
+              <div className="flex justify-between items-center">
+                <div>
+                  <h4 className="text-white font-medium">Ticket Tiers</h4>
+                  <p className="text-xs text-gray-400">Optional. Attendees pick from the tiers open to them; leave empty to charge the fee above.</p>
+                </div>
+                <button
+                  type="button"
+                  onClick={addTier}
+                  className="px-3 py-1 bg-slate-700 text-white rounded hover:bg-slate-600 transition-colors text-sm"
+                >
+                  Add Tier
+                </button>
+              </div>
+
+              {formData.ticketTiers.map(tier => (
+                <div key={tier.id} className="grid grid-cols-1 md:grid-cols-6 gap-3 p-3 bg-slate-700/50 rounded-lg">
+                  <input
+                    type="text"
+                    value={tier.name}
+                    onChange={(e) => updateTier(tier.id, { name: e.target.value })}
+                    placeholder="Tier name"
+                    className="md:col-span-2 px-3 py-2 bg-slate-700 border border-slate-600 rounded-md text-white text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    required
+                  />
+                  <select
+                    value={tier.audience}
+                    onChange={(e) => updateTier(tier.id, { audience: e.target.value as TicketAudience })}
+                    className="px-3 py-2 bg-slate-700 border border-slate-600 rounded-md text-white text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                  >
+                    {TICKET_AUDIENCES.map(audience => (
+                      <option key={audience.id} value={audience.id}>{audience.name}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    value={tier.price}
+                    onChange={(e) => updateTier(tier.id, { price: e.target.value })}
+                    placeholder="Price (₹)"
+                    min="1"
+                    step="0.01"
+                    className="px-3 py-2 bg-slate-700 border border-slate-600 rounded-md text-white text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    required
+                  />
+                  {tier.audience === 'team' ? (
+                    <input
+                      type="number"
+                      value={tier.teamSize}
+                      onChange={(e) => updateTier(tier.id, { teamSize: e.target.value })}
+                      placeholder="Members per pass"
+                      min="2"
+                      className="px-3 py-2 bg-slate-700 border border-slate-600 rounded-md text-white text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    />
+                  ) : <div className="hidden md:block" />}
+                  <button
+                    type="button"
+                    onClick={() => removeTier(tier.id)}
+                    className="px-3 py-2 bg-red-600/20 text-red-400 rounded-md hover:bg-red-600/30 text-sm"
+                  >
+                    Remove
+                  </button>
+                  <input
+                    type="number"
+                    value={tier.earlyBirdPrice}
+                    onChange={(e) => updateTier(tier.id, { earlyBirdPrice: e.target.value })}
+                    placeholder="Early-bird price (₹)"
+                    min="1"
+                    step="0.01"
+                    className="md:col-span-2 px-3 py-2 bg-slate-700 border border-slate-600 rounded-md text-white text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                  />
+                  <label className="md:col-span-4 flex items-center gap-2 text-sm text-gray-400">
+                    Early bird ends
+                    <input
+                      type="datetime-local"
+                      value={tier.earlyBirdEndsAt}
+                      onChange={(e) => updateTier(tier.id, { earlyBirdEndsAt: e.target.value })}
+                      className="flex-1 px-3 py-2 bg-slate-700 border border-slate-600 rounded-md text-white text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    />
+                  </label>
+                </div>
+              ))}
+            </div>
+
+            {/* Refund Rules */}
+            <div className="space-y-4">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={formData.refundRules.refundsEnabled}
+                  onChange={(e) => setFormData({...formData, refundRules: {...formData.refundRules, refundsEnabled: e.target.checked}})}
+                  className="h-4 w-4 rounded bg-slate-700 border-slate-500 text-indigo-600 focus:ring-indigo-500"
+                />
+                <span className="text-white">Allow refunds when a registration is cancelled</span>
+              </label>
+
+              {formData.refundRules.refundsEnabled && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-400 mb-2">
+                      Full refund until (hours before)
+                    </label>
+                    <input
+                      type="number"
+                      value={formData.refundRules.fullRefundHoursBefore}
+                      onChange={(e) => setFormData({...formData, refundRules: {...formData.refundRules, fullRefundHoursBefore: parseInt(e.target.value) || 0}})}
+                      className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md text-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                      min="0"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-400 mb-2">
+                      Partial refund until (hours before)
+                    </label>
+                    <input
+                      type="number"
+                      value={formData.refundRules.partialRefundHoursBefore}
+                      onChange={(e) => setFormData({...formData, refundRules: {...formData.refundRules, partialRefundHoursBefore: parseInt(e.target.value) || 0}})}
+                      className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md text-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                      min="0"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-400 mb-2">
+                      Partial refund (%)
+                    </label>
+                    <input
+                      type="number"
+                      value={formData.refundRules.partialRefundPercent}
+                      onChange={(e) => setFormData({...formData, refundRules: {...formData.refundRules, partialRefundPercent: Math.min(100, parseInt(e.target.value) || 0)}})}
+                      className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md text-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                      min="0"
+                      max="100"
+                    />
+                  </div>
+                </div>
+              )}
+
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={formData.refundRules.fullRefundOnEventCancellation}
+                  onChange={(e) => setFormData({...formData, refundRules: {...formData.refundRules, fullRefundOnEventCancellation: e.target.checked}})}
+                  className="h-4 w-4 rounded bg-slate-700 border-slate-500 text-indigo-600 focus:ring-indigo-500"
+                />
+                <span className="text-white">Refund in full if the event is cancelled</span>
+              </label>
+            </div>
+
             {/* Additional Settings */}
             <div className="space-y-4">
               <div>
                 <label className="block text-sm font-medium text-gray-400 mb-2">
-                  Refund Policy (Optional)
+                  Refund Policy Note (Optional)
                 </label>
                 <textarea
                   value={formData.refundPolicy}
                   onChange={(e) => setFormData({...formData, refundPolicy: e.target.value})}
                   rows={3}
                   className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md text-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
-                  placeholder="e.g., Full refund if cancelled 24 hours before event"
+                  placeholder="e.g., Refunds are credited to the original payment method within 7 days"
                 />
               </div>
               
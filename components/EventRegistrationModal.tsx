@@ -1,8 +1,14 @@
 import React, { useState, useEffect } from 'react';
-import { Event, User } from '../types';
-import { eventRegistrationService, EventRegistration } from '../services/eventRegistrationService';
+import { Event, User, RegistrationFormResponses } from '../types';
+import { eventRegistrationService, EventRegistration, TeamInvitePreview } from '../services/eventRegistrationService';
 import { optimizedRegistrationService } from '../services/optimizedRegistrationService';
 import PaymentModal from './PaymentModal';
+import { PaymentProvider } from '../services/paymentGateway';
+import { paymentIntentService } from '../services/paymentIntentService';
+import { PaymentConfig, paymentConfigService } from '../services/paymentConfigService';
+import RegistrationFormFields from './RegistrationFormFields';
+import { cleanRegistrationResponses, validateRegistrationForm } from '../utils/registrationForm';
+import { formatTicketPrice, getTicketTiers, isPaidEvent } from '../utils/pricing';
 
 interface EventRegistrationModalProps {
   event: Event;
@@ -10,6 +16,7 @@ interface EventRegistrationModalProps {
   isOpen: boolean;
   onClose: () => void;
   onRegistrationSuccess: (registrationId: string) => void;
+  initialInviteCode?: string; // From a team invite link; opens straight into joining that team
 }
 
 const EventRegistrationModal: React.FC<EventRegistrationModalProps> = ({
@@ -17,20 +24,37 @@ const EventRegistrationModal: React.FC<EventRegistrationModalProps> = ({
   user,
   isOpen,
   onClose,
-  onRegistrationSuccess
+  onRegistrationSuccess,
+  initialInviteCode
 }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [isRegistered, setIsRegistered] = useState(false);
   const [registration, setRegistration] = useState<EventRegistration | null>(null);
   const [additionalInfo, setAdditionalInfo] = useState('');
+  const [formAnswers, setFormAnswers] = useState<RegistrationFormResponses>({});
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [isUploading, setIsUploading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showPaymentModal, setShowPaymentModal] = useState(false);
-  const [pendingRegistrationId, setPendingRegistrationId] = useState<string | null>(null);
-  const [teamMode, setTeamMode] = useState<'individual' | 'create' | 'join' | null>(null);
+  const [teamMode, setTeamMode] = useState<'individual' | 'create' | 'join' | null>(initialInviteCode ? 'join' : null);
   const [teamName, setTeamName] = useState('');
-  const [teamSearch, setTeamSearch] = useState('');
-  const [foundTeams, setFoundTeams] = useState<{ id: string; name: string }[]>([]);
-  const [selectedTeamId, setSelectedTeamId] = useState<string | null>(null);
+  const [inviteCode, setInviteCode] = useState(initialInviteCode || '');
+  const [invitedTeam, setInvitedTeam] = useState<TeamInvitePreview | null>(null);
+  const [paymentConfig, setPaymentConfig] = useState<PaymentConfig | null>(null);
+  // The team a paid registration is for, once it has been created or joined
+  const [paymentTeamId, setPaymentTeamId] = useState<string | null>(null);
+
+  // Ticket tiers decide whether the event is paid; registrationFee alone misses tiered events
+  useEffect(() => {
+    if (!isOpen) return;
+    let mounted = true;
+    paymentConfigService.getEventPaymentConfig(event.id).then(config => {
+      if (mounted) setPaymentConfig(config);
+    });
+    return () => { mounted = false; };
+  }, [isOpen, event.id]);
+
+  const isPaid = isPaidEvent(event, paymentConfig);
 
   // Check if user is already registered only when modal opens for a specific event
   useEffect(() => {
@@ -65,13 +89,40 @@ const EventRegistrationModal: React.FC<EventRegistrationModalProps> = ({
     }
   };
 
+  // Team and paid registrations also record the event on the user's profile; failures don't undo the registration
+  const trackRegisteredEvent = async () => {
+    try {
+      const userId = user.isGuest ? user.id : (user.id || '');
+      await optimizedRegistrationService.registerUserForEvent(userId, event.id, event.organizerClubId);
+    } catch (trackingError) {
+      console.warn('Could not record the event on the user profile:', trackingError);
+    }
+  };
+
+  const registrationForm = event.registrationForm || [];
+
+  // Checks the event's registration questions; returns false and shows the problems when something is missing
+  const validateForm = (): boolean => {
+    const errors = validateRegistrationForm(registrationForm, formAnswers);
+    setFormErrors(errors);
+    if (Object.keys(errors).length > 0) {
+      setError('Please complete the highlighted questions.');
+      return false;
+    }
+    return true;
+  };
+
+  const getFormResponses = () =>
+    registrationForm.length ? cleanRegistrationResponses(registrationForm, formAnswers) : undefined;
+
   const handleRegistration = async (e: React.FormEvent) => {
     e.preventDefault();
-    setIsLoading(true);
     setError(null);
+    if (!validateForm()) return;
+    setIsLoading(true);
 
     try {
-      if (event.registrationFee && event.registrationFee > 0) {
+      if (isPaid) {
         // For paid events, always open payment modal
         setShowPaymentModal(true);
         setIsLoading(false); // Stop loading spinner since modal is open
@@ -86,21 +137,8 @@ const EventRegistrationModal: React.FC<EventRegistrationModalProps> = ({
         registrationId = await eventRegistrationService.registerGuestForEvent(
           event.id,
           event.organizerClubId,
-          {
-            name: user.name,
-            email: user.email || '',
-            phone: user.mobile || '',
-            college: user.collegeName || 'GCET',
-            year: user.year || '1',
-            department: user.branch || 'CSE'
-          },
-          {
-            name: event.name || event.title || 'Untitled Event',
-            date: event.date || 'TBD',
-            location: event.location || 'TBD',
-            registrationFee: event.registrationFee
-          },
-          additionalInfo.trim() || undefined
+          additionalInfo.trim() || undefined,
+          getFormResponses()
         );
       } else {
         // Regular user registration
@@ -114,14 +152,18 @@ const EventRegistrationModal: React.FC<EventRegistrationModalProps> = ({
             registrationFee: event.registrationFee,
             organizerClubId: event.organizerClubId
           },
-          additionalInfo.trim() || undefined
+          additionalInfo.trim() || undefined,
+          getFormResponses()
         );
       }
       
       // Update both user and event documents with atomic updates
       const userId = user.isGuest ? user.id : (user.id || '');
       await optimizedRegistrationService.registerUserForEvent(userId, event.id, event.organizerClubId);
-      
+
+      // Load the new registration so a full event shows the waitlist status instead of a confirmation
+      const [created] = await eventRegistrationService.getUserRegistrations(userId, event.organizerClubId, event.id);
+      setRegistration(created || null);
       setIsRegistered(true);
       
       // Add a small delay to show success message before closing modal
@@ -132,14 +174,9 @@ const EventRegistrationModal: React.FC<EventRegistrationModalProps> = ({
       // Don't re-check registration status since we just created it successfully
       // This avoids unnecessary database queries and permission issues
     } catch (error: any) {
-      // Show a more helpful error if user tries to register for paid event (and backend throws)
-      if (
-        event.registrationFee &&
-        event.registrationFee > 0 &&
-        error?.message?.includes('should be created after payment')
-      ) {
+      // The function knows the event is paid even if the payment configuration hadn't loaded yet
+      if (error?.message?.includes('should be created after payment')) {
         setShowPaymentModal(true);
-        setPendingRegistrationId('');
         setError(null);
         setIsLoading(false);
         return;
@@ -152,10 +189,7 @@ const EventRegistrationModal: React.FC<EventRegistrationModalProps> = ({
       }
       console.error('Registration failed:', error);
     } finally {
-      // Only set loading false if not already set above
-      if (!(event.registrationFee && event.registrationFee > 0)) {
-        setIsLoading(false);
-      }
+      setIsLoading(false);
     }
   };
 
@@ -175,71 +209,58 @@ const EventRegistrationModal: React.FC<EventRegistrationModalProps> = ({
   //   }
   // };
 
-  // Team search handler (calls backend)
-  const handleTeamSearch = async () => {
+  // Look up the team behind an invite code so the user can confirm before joining
+  const handleInviteLookup = async (code: string = inviteCode) => {
     setIsLoading(true);
     setError(null);
     try {
-      const teams = await eventRegistrationService.searchTeams(
-        event.id,
-        event.organizerClubId,
-        teamSearch.trim()
-      );
-      setFoundTeams(teams.map(t => ({ id: t.id!, name: t.name })));
+      const team = await eventRegistrationService.getTeamByInviteCode(event.id, event.organizerClubId, code);
+      setInvitedTeam(team);
+      if (!team) setError('No team found for that invite code.');
     } catch (err) {
-      setError('Failed to search teams. Please try again.');
-      setFoundTeams([]);
+      setError('Failed to look up the invite code. Please try again.');
+      setInvitedTeam(null);
     } finally {
       setIsLoading(false);
     }
   };
 
+  useEffect(() => {
+    if (isOpen && initialInviteCode) {
+      setTeamMode('join');
+      setInviteCode(initialInviteCode);
+      handleInviteLookup(initialInviteCode);
+    }
+  }, [isOpen, initialInviteCode]);
+
   // Team registration handler (create or join)
   const handleTeamRegistration = async (e: React.FormEvent) => {
     e.preventDefault();
-    setIsLoading(true);
     setError(null);
+    if (!validateForm()) return;
+    setIsLoading(true);
 
+    // A team made or joined before an abandoned checkout is reused rather than created again
+    let teamId: string | null = paymentTeamId;
     try {
-      let teamId: string | null = null;
       // Create a new team
-      if (teamMode === 'create') {
-        setIsLoading(true);
-        setError(null);
-        if (event.registrationFee && event.registrationFee > 0) {
-          // For paid events, always open payment modal
-          setShowPaymentModal(true);
-          setIsLoading(false); // Stop loading spinner since modal is open
-          return; // Do not proceed further
-        }
-        teamId = await eventRegistrationService.createTeam(
-          event.id,
-          event.organizerClubId,
-          teamName.trim(),
-          {
-            userId: user.id,
-            userName: user.name,
-            userEmail: user.email || ''
-          }
-        );
+      if (!teamId && teamMode === 'create') {
+        teamId = await eventRegistrationService.createTeam(event.id, event.organizerClubId, teamName.trim());
       }
-      // Join an existing team
-      else if (teamMode === 'join' && selectedTeamId) {
-        await eventRegistrationService.joinTeam(
-          event.id,
-          event.organizerClubId,
-          selectedTeamId,
-          {
-            userId: user.id,
-            userName: user.name,
-            userEmail: user.email || ''
-          }
-        );
-        teamId = selectedTeamId;
+      // Join an existing team with its invite code
+      else if (!teamId && teamMode === 'join' && invitedTeam) {
+        teamId = await eventRegistrationService.joinTeam(event.id, event.organizerClubId, inviteCode);
       }
 
       if (!teamId) throw new Error('No team selected or created.');
 
+      if (isPaid && teamMode === 'create') {
+        // A new team has no team pass yet, so its captain pays
+        setPaymentTeamId(teamId);
+        setShowPaymentModal(true);
+        return;
+      }
+
       // Register user for the event with teamId
       const registrationId = await eventRegistrationService.registerForTeamEvent(
         event.id,
@@ -252,8 +273,10 @@ const EventRegistrationModal: React.FC<EventRegistrationModalProps> = ({
           organizerClubId: event.organizerClubId
         },
         teamId,
-        additionalInfo.trim() || undefined
+        additionalInfo.trim() || undefined,
+        getFormResponses()
       );
+      await trackRegisteredEvent();
 
       setIsRegistered(true);
       
@@ -265,71 +288,51 @@ const EventRegistrationModal: React.FC<EventRegistrationModalProps> = ({
       // Don't re-check registration status since we just created it successfully
       // This avoids unnecessary database queries and permission issues
     } catch (error: any) {
-      if (error?.message?.includes('already registered')) {
+      if (teamId && error?.message?.includes('should be created after payment')) {
+        // No team pass with places left covers this member, so they pay for their own ticket
+        setPaymentTeamId(teamId);
+        setShowPaymentModal(true);
+      } else if (error?.message?.includes('already registered')) {
         // Handle duplicate registration error
         setError('You are already registered for this event!');
         setIsRegistered(true); // Show as registered
       } else {
-        setError('Team registration failed. Please try again.');
+        setError(error?.message || 'Team registration failed. Please try again.');
       }
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handlePaymentSuccess = async (paymentId: string) => {
+  // The gateway's webhook creates the registration; wait for it rather than trusting the checkout result
+  const handlePaymentSuccess = async (paymentId: string, details?: { provider: PaymentProvider; orderId: string }) => {
     try {
-      console.log('Payment successful, creating registration...', { paymentId, userId: user.id, isGuest: user.isGuest });
-      
-      // For paid events, create registration only after payment is successful
-      const registrationId = await eventRegistrationService.registerForPaidEvent(
-        event.id,
-        user,
-        {
-          name: event.name || event.title || 'Untitled Event',
-          date: event.date || 'TBD',
-          location: event.location || 'TBD',
-          registrationFee: event.registrationFee,
-          organizerClubId: event.organizerClubId
-        },
-        paymentId,
-        additionalInfo.trim() || undefined
-      );
-      
-      console.log('Registration created successfully:', registrationId);
-      
-      // Store payment record in event's payments subcollection
-      try {
-        await eventRegistrationService.storeEventPayment({
-          registrationId,
-          eventId: event.id,
-          clubId: event.organizerClubId,
-          userId: user.id,
-          userName: user.name,
-          userEmail: user.email || '',
-          amount: event.registrationFee || 0,
-          paymentId,
-        });
-        console.log('Payment record stored successfully');
-      } catch (paymentError) {
-        console.warn('Payment record storage failed, but continuing:', paymentError);
+      if (!details?.orderId) throw new Error('Missing order ID for payment ' + paymentId);
+      const intent = await paymentIntentService.waitForConfirmation(details.orderId);
+
+      if (intent?.status === 'failed' || intent?.status === 'amount-mismatch') {
+        setError(`Your payment could not be confirmed (${intent.failureReason || 'payment failed'}). Please contact support with payment ID ${paymentId}.`);
+        setShowPaymentModal(false);
+        return;
+      }
+      if (intent?.status !== 'confirmed' || !intent.registrationId) {
+        // Webhooks can lag behind checkout; the registration appears once the gateway confirms
+        setError(`Payment received and being confirmed. Your registration will appear shortly, so there's no need to pay again. Payment ID: ${paymentId}`);
+        setShowPaymentModal(false);
+        return;
       }
 
-      console.log('Setting registration status to true...');
+      const registrationId = intent.registrationId;
+      await trackRegisteredEvent();
       setIsRegistered(true);
       
       // Add a small delay to show success message before closing modal
       setTimeout(() => {
         onRegistrationSuccess(registrationId);
         setShowPaymentModal(false);
-        setPendingRegistrationId(null);
       }, 2000); // 2 second delay to show success message
-
-      // Don't re-check registration status since we just created it successfully
-      // This avoids permission issues with guest users
-      console.log('Registration completed successfully, skipping status check');
     } catch (error) {
-      console.error('Error updating registration after payment:', error);
+      console.error('Error confirming registration after payment:', error);
       setError('Payment successful but registration update failed. Please contact support.');
     }
   };
@@ -337,12 +340,10 @@ const EventRegistrationModal: React.FC<EventRegistrationModalProps> = ({
   const handlePaymentFailure = (error: string) => {
     setError(error);
     setShowPaymentModal(false);
-    setPendingRegistrationId(null);
   };
 
   const handleClosePaymentModal = () => {
     setShowPaymentModal(false);
-    setPendingRegistrationId(null);
   };
 
   if (!isOpen) return null;
@@ -350,6 +351,18 @@ const EventRegistrationModal: React.FC<EventRegistrationModalProps> = ({
   // Check if event is team registration
   const isTeamEvent = event.registrationType === 'team';
 
+  const formFields = registrationForm.length > 0 && (
+    <RegistrationFormFields
+      fields={registrationForm}
+      answers={formAnswers}
+      errors={formErrors}
+      onChange={setFormAnswers}
+      upload={{ clubId: event.organizerClubId, eventId: event.id, userId: user.id || '' }}
+      onUploadingChange={setIsUploading}
+    />
+  );
+  const teamError = error && <p className="text-sm text-red-400">{error}</p>;
+
   return (
     <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
       <div className="bg-slate-900 border border-slate-700 rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
@@ -381,10 +394,21 @@ const EventRegistrationModal: React.FC<EventRegistrationModalProps> = ({
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                 </svg>
               </div>
-              <h3 className="text-xl font-bold text-white mb-2">You're Registered!</h3>
-              <p className="text-gray-400 mb-6">
-                You have successfully registered for this event. Check your email for confirmation details.
-              </p>
+              {registration?.status === 'waitlisted' ? (
+                <>
+                  <h3 className="text-xl font-bold text-white mb-2">You're on the Waitlist</h3>
+                  <p className="text-gray-400 mb-6">
+                    This event is full. We'll confirm your seat and notify you as soon as one opens up.
+                  </p>
+                </>
+              ) : (
+                <>
+                  <h3 className="text-xl font-bold text-white mb-2">You're Registered!</h3>
+                  <p className="text-gray-400 mb-6">
+                    You have successfully registered for this event. Check your email for confirmation details.
+                  </p>
+                </>
+              )}
               
               {registration && (
                 <div className="bg-slate-800/50 p-4 rounded-lg mb-6 text-left">
@@ -394,7 +418,7 @@ const EventRegistrationModal: React.FC<EventRegistrationModalProps> = ({
                       <span className="text-gray-400">Status:</span>
                       <span className={`px-2 py-1 rounded text-xs font-medium ${
                         registration.status === 'confirmed' ? 'bg-green-500/20 text-green-400' :
-                        registration.status === 'pending' ? 'bg-yellow-500/20 text-yellow-400' :
+                        registration.status === 'pending' || registration.status === 'waitlisted' ? 'bg-yellow-500/20 text-yellow-400' :
                         'bg-red-500/20 text-red-400'
                       }`}>
                         {registration.status.charAt(0).toUpperCase() + registration.status.slice(1)}
@@ -442,9 +466,21 @@ const EventRegistrationModal: React.FC<EventRegistrationModalProps> = ({
               {isTeamEvent ? (
                 // Team Registration UI
                 <>
-                  {!teamMode && (
+                  {eventRegistrationService.isTeamLocked(event) ? (
+                    <div className="bg-red-500/20 border border-red-500/50 text-red-400 px-4 py-3 rounded-lg mb-6">
+                      Team registration for this event closed on {new Date(event.teamLockDeadline!).toLocaleString()}.
+                    </div>
+                  ) : !teamMode && (
                     <div className="mb-6">
                       <h3 className="text-lg font-semibold text-white mb-4">How do you want to register?</h3>
+                      {(event.minTeamSize || event.maxTeamSize) && (
+                        <p className="text-sm text-gray-400 mb-4">
+                          Teams need {event.minTeamSize && event.maxTeamSize
+                            ? `${event.minTeamSize} to ${event.maxTeamSize}`
+                            : event.maxTeamSize ? `at most ${event.maxTeamSize}` : `at least ${event.minTeamSize}`} members
+                          {event.teamLockDeadline && ` by ${new Date(event.teamLockDeadline).toLocaleString()}`}.
+                        </p>
+                      )}
                       <div className="flex flex-col gap-4">
                         <button
                           className="bg-indigo-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-indigo-700 transition-colors"
@@ -480,7 +516,8 @@ const EventRegistrationModal: React.FC<EventRegistrationModalProps> = ({
                           placeholder="Enter your team name"
                         />
                       </div>
-                      {/* ...additional team creation fields if needed... */}
+                      {formFields}
+                      {teamError}
                       <div className="flex gap-3 justify-end">
                         <button
                           type="button"
@@ -491,7 +528,7 @@ const EventRegistrationModal: React.FC<EventRegistrationModalProps> = ({
                         </button>
                         <button
                           type="submit"
-                          disabled={isLoading || !teamName}
+                          disabled={isLoading || isUploading || !teamName}
                           className="px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
                         >
                           {isLoading ? 'Creating...' : 'Create Team & Register'}
@@ -502,43 +539,35 @@ const EventRegistrationModal: React.FC<EventRegistrationModalProps> = ({
                   {teamMode === 'join' && (
                     <form onSubmit={handleTeamRegistration} className="space-y-6">
                       <div>
-                        <label className="block text-sm font-medium text-gray-400 mb-2">Search Team</label>
+                        <label className="block text-sm font-medium text-gray-400 mb-2">Invite Code</label>
                         <div className="flex gap-2">
                           <input
                             type="text"
-                            value={teamSearch}
-                            onChange={e => setTeamSearch(e.target.value)}
-                            className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white"
-                            placeholder="Enter team name"
+                            value={inviteCode}
+                            onChange={e => { setInviteCode(e.target.value.toUpperCase()); setInvitedTeam(null); }}
+                            className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white font-mono tracking-widest"
+                            placeholder="Ask your team captain for the code"
                           />
                           <button
                             type="button"
-                            onClick={handleTeamSearch}
-                            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+                            onClick={() => handleInviteLookup()}
+                            disabled={isLoading || !inviteCode.trim()}
+                            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
                           >
-                            Search
+                            Find
                           </button>
                         </div>
-                        {foundTeams.length > 0 && (
-                          <div className="mt-4">
-                            <h4 className="text-sm font-semibold text-gray-300 mb-2">Teams Found:</h4>
-                            <ul className="space-y-2">
-                              {foundTeams.map(team => (
-                                <li key={team.id} className="flex items-center gap-2">
-                                  <span className="text-white">{team.name}</span>
-                                  <button
-                                    type="button"
-                                    onClick={() => setSelectedTeamId(team.id)}
-                                    className={`px-3 py-1 rounded ${selectedTeamId === team.id ? 'bg-green-600 text-white' : 'bg-slate-700 text-gray-200 hover:bg-slate-600'}`}
-                                  >
-                                    {selectedTeamId === team.id ? 'Selected' : 'Join'}
-                                  </button>
-                                </li>
-                              ))}
-                            </ul>
+                        {invitedTeam && (
+                          <div className="mt-4 bg-slate-800/50 p-4 rounded-lg">
+                            <p className="text-white font-semibold">{invitedTeam.name}</p>
+                            <p className="text-xs text-gray-400 mt-1">
+                              {invitedTeam.members.length}{event.maxTeamSize ? ` / ${event.maxTeamSize}` : ''} members · {invitedTeam.members.map(m => m.userName).join(', ')}
+                            </p>
                           </div>
                         )}
                       </div>
+                      {invitedTeam && formFields}
+                      {teamError}
                       <div className="flex gap-3 justify-end">
                         <button
                           type="button"
@@ -549,7 +578,7 @@ const EventRegistrationModal: React.FC<EventRegistrationModalProps> = ({
                         </button>
                         <button
                           type="submit"
-                          disabled={isLoading || !selectedTeamId}
+                          disabled={isLoading || isUploading || !invitedTeam}
                           className="px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
                         >
                           {isLoading ? 'Joining...' : 'Join Team & Register'}
@@ -580,10 +609,7 @@ const EventRegistrationModal: React.FC<EventRegistrationModalProps> = ({
                       <div>
                         <span className="text-gray-400">Fee:</span>
                         <span className="text-white ml-2">
-                          {event.registrationFee && event.registrationFee > 0 
-                            ? `$${event.registrationFee}` 
-                            : 'Free'
-                          }
+                          {formatTicketPrice(getTicketTiers(event, paymentConfig))}
                         </span>
                       </div>
                     </div>
@@ -650,20 +676,22 @@ const EventRegistrationModal: React.FC<EventRegistrationModalProps> = ({
                     </div>
                   </div>
 
-                  {/* Additional Information */}
-                  <div>
-                    <label htmlFor="additionalInfo" className="block text-sm font-medium text-gray-400 mb-2">
-                      Additional Information (Optional)
-                    </label>
-                    <textarea
-                      id="additionalInfo"
-                      value={additionalInfo}
-                      onChange={(e) => setAdditionalInfo(e.target.value)}
-                      rows={3}
-                      placeholder="Any special requirements, dietary restrictions, or other information..."
-                      className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-500 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
-                    />
-                  </div>
+                  {/* Event-specific questions replace the free-text box when the organizer set a form */}
+                  {registrationForm.length > 0 ? formFields : (
+                    <div>
+                      <label htmlFor="additionalInfo" className="block text-sm font-medium text-gray-400 mb-2">
+                        Additional Information (Optional)
+                      </label>
+                      <textarea
+                        id="additionalInfo"
+                        value={additionalInfo}
+                        onChange={(e) => setAdditionalInfo(e.target.value)}
+                        rows={3}
+                        placeholder="Any special requirements, dietary restrictions, or other information..."
+                        className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-500 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                      />
+                    </div>
+                  )}
 
                   {/* Error Message */}
                   {error && (
@@ -683,7 +711,7 @@ const EventRegistrationModal: React.FC<EventRegistrationModalProps> = ({
                     </button>
                     <button
                       type="submit"
-                      disabled={isLoading}
+                      disabled={isLoading || isUploading}
                       className="px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 flex items-center gap-2"
                     >
                       {isLoading && (
@@ -707,7 +735,9 @@ const EventRegistrationModal: React.FC<EventRegistrationModalProps> = ({
         <PaymentModal
           event={event}
           user={user}
-          registrationId={pendingRegistrationId || ''}
+          teamId={paymentTeamId || undefined}
+          additionalInfo={additionalInfo.trim() || undefined}
+          formResponses={getFormResponses()}
           isOpen={showPaymentModal}
           onClose={handleClosePaymentModal}
           onPaymentSuccess={handlePaymentSuccess}
@@ -1,24 +1,36 @@
 import React, { useState, useEffect } from 'react';
-import { Event } from '../types';
+import { Event, User } from '../types';
 import { eventRegistrationService, EventRegistration, RegistrationStats } from '../services/eventRegistrationService';
+import CheckInScanner from './CheckInScanner';
+import RefundModal from './RefundModal';
+import { can } from '../utils/permissions';
+import TeamRoster from './TeamRoster';
+import { formatRegistrationAnswer } from '../utils/registrationForm';
 import * as XLSX from 'xlsx';
 
 interface EventRegistrationStatsProps {
   event: Event;
   isManager: boolean;
+  user?: User | null;
 }
 
-const EventRegistrationStats: React.FC<EventRegistrationStatsProps> = ({ event, isManager }) => {
+const EventRegistrationStats: React.FC<EventRegistrationStatsProps> = ({ event, isManager, user }) => {
   const [stats, setStats] = useState<RegistrationStats>({
     totalRegistrations: 0,
     confirmedRegistrations: 0,
     pendingRegistrations: 0,
     cancelledRegistrations: 0,
+    waitlistedRegistrations: 0,
     checkedInCount: 0
   });
   const [registrations, setRegistrations] = useState<EventRegistration[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [showDetails, setShowDetails] = useState(false);
+  const [showScanner, setShowScanner] = useState(false);
+  const [refundTarget, setRefundTarget] = useState<EventRegistration | null>(null);
+  const canCheckIn = can(user, 'check-in-attendees', event.organizerClubId);
+  const canRefund = can(user, 'issue-refunds', event.organizerClubId);
+  const [showTeamRoster, setShowTeamRoster] = useState(false);
 
   useEffect(() => {
     if (isManager) {
@@ -36,7 +48,6 @@ const EventRegistrationStats: React.FC<EventRegistrationStatsProps> = ({ event,
       ]);
       setStats(statsData);
       setRegistrations(registrationsData);
-      
     } catch (error) {
       console.error('Error loading registration data:', error);
     } finally {
@@ -44,12 +55,19 @@ const EventRegistrationStats: React.FC<EventRegistrationStatsProps> = ({ event,
     }
   };
 
-  const handleCheckIn = async (registrationId: string) => {
+  const handleCheckIn = async (registration: EventRegistration) => {
     try {
-      // await eventRegistrationService.checkInUser(registrationId);
-      // await loadRegistrationData(); // Refresh data
+      await eventRegistrationService.checkInUser(
+        registration.id!,
+        event.organizerClubId,
+        event.id,
+        registration.isGuest || false,
+        user?.id
+      );
+      await loadRegistrationData(); // Refresh data
     } catch (error) {
       console.error('Error checking in user:', error);
+      alert('Failed to check in user.');
     }
   };
 
@@ -77,7 +95,13 @@ const EventRegistrationStats: React.FC<EventRegistrationStatsProps> = ({ event,
             : '',
           Status: reg.status,
           PaymentStatus: reg.paymentStatus || '',
-          CheckIn: reg.checkInStatus === 'checked_in' ? 'Yes' : 'No'
+          Refund: reg.refundStatus ? `${reg.refundStatus} (₹${reg.refundAmount || 0})` : '',
+          CheckIn: reg.checkInStatus === 'checked_in' ? 'Yes' : 'No',
+          // One column per registration question, in form order
+          ...Object.fromEntries((event.registrationForm || []).map(field => [
+            field.label,
+            formatRegistrationAnswer(reg.formResponses?.[field.id])
+          ]))
         }));
         // Create worksheet and workbook
         const worksheet = XLSX.utils.json_to_sheet(data);
@@ -112,26 +136,76 @@ const EventRegistrationStats: React.FC<EventRegistrationStatsProps> = ({ event,
     <div className="bg-slate-800/50 p-6 rounded-lg border border-slate-700">
       <div className="flex flex-col md:flex-row md:justify-between md:items-center mb-6 gap-4">
         <h3 className="text-xl font-bold text-white">Registration Statistics</h3>
-        <button
-          onClick={() => setShowDetails(!showDetails)}
-          className="text-indigo-400 hover:text-indigo-300 text-sm font-medium"
-        >
-          {showDetails ? 'Hide Details' : 'Show Details'}
-        </button>
+        <div className="flex items-center gap-4">
+          {event.registrationType === 'team' && (
+            <button
+              onClick={() => setShowTeamRoster(true)}
+              className="bg-slate-700 text-white font-semibold py-2 px-4 rounded-lg hover:bg-slate-600 transition-colors text-sm"
+            >
+              Team Roster
+            </button>
+          )}
+          {canCheckIn && (
+            <button
+              onClick={() => setShowScanner(true)}
+              className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-indigo-700 transition-colors text-sm"
+            >
+              Check-in Console
+            </button>
+          )}
+          <button
+            onClick={() => setShowDetails(!showDetails)}
+            className="text-indigo-400 hover:text-indigo-300 text-sm font-medium"
+          >
+            {showDetails ? 'Hide Details' : 'Show Details'}
+          </button>
+        </div>
       </div>
 
-        {/* <div className="bg-gradient-to-br from-green-500/20 to-green-700/10 p-4 rounded-lg flex flex-col items-center justify-center shadow">
-          <div className="text-3xl font-extrabold text-green-400">{stats.checkedInCount}</div>
-          <div className="text-sm text-gray-400 mt-1">Checked In</div>
-        </div> */}
-      {/* Stats Cards - Only show total and checked-in */}
-      <div className="grid grid-cols-2 gap-6 mb-6">
+      {showScanner && (
+        <CheckInScanner
+          event={event}
+          user={user || null}
+          onClose={() => setShowScanner(false)}
+          onCheckIn={loadRegistrationData}
+        />
+      )}
+
+      {showTeamRoster && (
+        <TeamRoster
+          event={event}
+          registrations={registrations}
+          onClose={() => setShowTeamRoster(false)}
+        />
+      )}
+
+      {refundTarget && (
+        <RefundModal
+          event={event}
+          registration={refundTarget}
+          user={user || null}
+          onClose={() => setRefundTarget(null)}
+          onRefunded={loadRegistrationData}
+        />
+      )}
+
+      {/* Stats Cards - total, checked-in and download */}
+      <div className="grid grid-cols-3 gap-6 mb-6">
   {/* Total Registrations Card */}
   <div className="bg-gradient-to-br from-indigo-500/30 via-indigo-600/20 to-indigo-900/20 p-6 rounded-2xl shadow-lg flex flex-col items-center justify-center text-center hover:scale-105 transition-transform duration-300">
     <div className="flex items-center gap-2">
       <span className="text-4xl font-extrabold text-indigo-400">{stats.totalRegistrations}</span>
     </div>
     <div className="text-sm text-gray-300 mt-2 tracking-wide">Total Registrations</div>
+    {stats.waitlistedRegistrations > 0 && (
+      <div className="text-xs text-yellow-400 mt-1">{stats.waitlistedRegistrations} on waitlist</div>
+    )}
+  </div>
+
+  {/* Checked In Card */}
+  <div className="bg-gradient-to-br from-green-500/30 via-green-600/20 to-green-900/20 p-6 rounded-2xl shadow-lg flex flex-col items-center justify-center text-center">
+    <span className="text-4xl font-extrabold text-green-400">{stats.checkedInCount}</span>
+    <div className="text-sm text-gray-300 mt-2 tracking-wide">Checked In</div>
   </div>
 
     {/* Download List Button */}
@@ -163,6 +237,9 @@ const EventRegistrationStats: React.FC<EventRegistrationStatsProps> = ({ event,
                 <tr className="border-b border-slate-700">
                   <th className="text-left py-2 text-gray-400">Name</th>
                   <th className="text-left py-2 text-gray-400">Email</th>
+                  <th className="text-left py-2 text-gray-400">Checked In</th>
+                  <th className="text-left py-2 text-gray-400">Payment</th>
+                  <th className="text-left py-2 text-gray-400">Actions</th>
                 </tr>
               </thead>
               <tbody>
@@ -170,7 +247,7 @@ const EventRegistrationStats: React.FC<EventRegistrationStatsProps> = ({ event,
                   <tr key={registration.id} className="border-b border-slate-800 hover:bg-slate-900/30 transition">
                     <td className="py-2 text-white">{registration.userName}</td>
                     <td className="py-2 text-gray-400">{registration.userEmail}</td>
-                    {/* <td className="py-2">
+                    <td className="py-2">
                       <span className={`px-2 py-1 rounded text-xs font-medium ${
                         registration.checkInStatus === 'checked_in' ? 'bg-green-500/20 text-green-400' :
                         'bg-gray-500/20 text-gray-400'
@@ -178,18 +255,39 @@ const EventRegistrationStats: React.FC<EventRegistrationStatsProps> = ({ event,
                         {registration.checkInStatus === 'checked_in' ? 'Yes' : 'No'}
                       </span>
                     </td>
+                    <td className="py-2">
+                      {registration.refundStatus ? (
+                        <span className={`px-2 py-1 rounded text-xs font-medium ${
+                          registration.refundStatus === 'processed' ? 'bg-green-500/20 text-green-400' :
+                          registration.refundStatus === 'failed' ? 'bg-red-500/20 text-red-400' :
+                          'bg-yellow-500/20 text-yellow-400'
+                        }`}>
+                          Refund {registration.refundStatus} · ₹{registration.refundAmount}
+                        </span>
+                      ) : (
+                        <span className="text-xs text-gray-400 capitalize">{registration.paymentStatus || 'Free'}</span>
+                      )}
+                    </td>
                     <td className="py-2">
                       <div className="flex gap-2">
-                        {registration.checkInStatus !== 'checked_in' && (
+                        {canCheckIn && registration.checkInStatus !== 'checked_in' && (
                           <button
-                            onClick={() => handleCheckIn(registration.id!)}
+                            onClick={() => handleCheckIn(registration)}
                             className="text-blue-400 hover:text-blue-300 text-xs px-3 py-1 rounded bg-blue-500/10"
                           >
                             Check In
                           </button>
                         )}
+                        {canRefund && registration.paymentStatus === 'paid' && (!registration.refundStatus || registration.refundStatus === 'failed') && (
+                          <button
+                            onClick={() => setRefundTarget(registration)}
+                            className="text-red-400 hover:text-red-300 text-xs px-3 py-1 rounded bg-red-500/10"
+                          >
+                            Refund
+                          </button>
+                        )}
                       </div>
-                    </td> */}
+                    </td>
                   </tr>
                 ))}
               </tbody>
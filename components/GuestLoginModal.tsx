@@ -1,10 +1,11 @@
 import React, { useState } from 'react';
 import { X, User, Mail, Phone } from 'lucide-react';
+import { guestIdentityService } from '../services/guestIdentityService';
 
 interface GuestLoginModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onGuestLogin: (guestData: GuestUserData) => void;
+  onGuestLogin: (guestData: GuestUserData, code: string) => Promise<void>;
 }
 
 export interface GuestUserData {
@@ -27,6 +28,9 @@ const GuestLoginModal: React.FC<GuestLoginModalProps> = ({ isOpen, onClose, onGu
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState('');
+  // Guests confirm they own the email before a profile is created for it
+  const [step, setStep] = useState<'details' | 'code'>('details');
+  const [code, setCode] = useState('');
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -62,17 +66,41 @@ const GuestLoginModal: React.FC<GuestLoginModalProps> = ({ isOpen, onClose, onGu
         return;
       }
 
-      // Call the parent callback with guest data
-      onGuestLogin(formData);
-      
-    } catch (err) {
-      setError('An error occurred. Please try again.');
+      await guestIdentityService.sendVerificationCode(formData.email);
+      setCode('');
+      setStep('code');
+    } catch (err: any) {
+      setError(err.message || 'An error occurred. Please try again.');
       console.error('Guest login error:', err);
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError('');
+    try {
+      await onGuestLogin(formData, code);
+      setStep('details');
+    } catch (err: any) {
+      setError(err.message || 'Could not verify the code. Please try again.');
+      console.error('Guest verification error:', err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleResend = async () => {
+    setError('');
+    try {
+      await guestIdentityService.sendVerificationCode(formData.email);
+    } catch (err: any) {
+      setError(err.message || 'Could not resend the code.');
+    }
+  };
+
   const handleInputChange = (field: keyof GuestUserData, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
     if (error) setError('');
@@ -98,6 +126,38 @@ const GuestLoginModal: React.FC<GuestLoginModalProps> = ({ isOpen, onClose, onGu
           </button>
         </div>
 
+        {step === 'code' ? (
+          <form onSubmit={handleVerify} className="p-6 space-y-4">
+            {error && (
+              <div className="bg-red-500/10 border border-red-500/20 text-red-400 px-4 py-3 rounded-lg text-sm">
+                {error}
+              </div>
+            )}
+            <p className="text-sm text-slate-300">
+              We sent a 6-digit code to <span className="font-semibold text-white">{formData.email}</span>. Enter it to continue.
+            </p>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+              className="w-full px-4 py-3 bg-slate-800 border border-slate-600 rounded-lg text-white text-center text-xl tracking-widest focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+              placeholder="000000"
+              autoFocus
+            />
+            <div className="flex justify-between text-sm">
+              <button type="button" onClick={() => setStep('details')} className="text-slate-400 hover:text-white">Change details</button>
+              <button type="button" onClick={handleResend} className="text-indigo-400 hover:text-indigo-300">Resend code</button>
+            </div>
+            <button
+              type="submit"
+              disabled={isSubmitting || code.length !== 6}
+              className="w-full px-4 py-3 bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-600/50 text-white rounded-lg transition-colors font-medium"
+            >
+              {isSubmitting ? 'Verifying...' : 'Verify & Continue'}
+            </button>
+          </form>
+        ) : (
         <form onSubmit={handleSubmit} className="p-6 space-y-4">
           {error && (
             <div className="bg-red-500/10 border border-red-500/20 text-red-400 px-4 py-3 rounded-lg text-sm">
@@ -215,10 +275,11 @@ const GuestLoginModal: React.FC<GuestLoginModalProps> = ({ isOpen, onClose, onGu
               disabled={isSubmitting}
               className="flex-1 px-4 py-3 bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-600/50 text-white rounded-lg transition-colors font-medium"
             >
-              {isSubmitting ? 'Registering...' : 'Register as Guest'}
+              {isSubmitting ? 'Sending code...' : 'Send Verification Code'}
             </button>
           </div>
         </form>
+        )}
       </div>
     </div>
   );
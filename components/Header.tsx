@@ -2,6 +2,7 @@ import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { User, Application, Notification } from '../types';
 import NotificationsPanel from './NotificationsPanel';
+import { can } from '../utils/permissions';
 
 
 interface HeaderProps {
@@ -75,9 +76,9 @@ const Header: React.FC<HeaderProps> = ({ user, onLogout, applications, notificat
   }, []);
 
   const hasPendingApplications = useMemo(() => {
-    if (!user || !user.managedClubIds) return false;
+    if (!user) return false;
     return applications.some(app => 
-      user.managedClubIds!.includes(app.clubId) && app.status === 'pending'
+      app.status === 'pending' && can(user, 'review-applications', app.clubId)
     );
   }, [user, applications]);
 
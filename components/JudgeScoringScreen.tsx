@@ -0,0 +1,170 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { Event, User, JudgingConfig, JudgingEntrant, JudgeScore } from '../types';
+import { judgingService } from '../services/judgingService';
+import { canJudgeEvent } from '../utils/permissions';
+import { hasConflictOfInterest, weightedScore } from '../utils/judging';
+
+interface JudgeScoringScreenProps {
+  event: Event;
+  user: User;
+}
+
+// One entrant at a time, sized for a phone held at the judging table
+const JudgeScoringScreen: React.FC<JudgeScoringScreenProps> = ({ event, user }) => {
+  const clubId = event.organizerClubId;
+  const [config, setConfig] = useState<JudgingConfig | null>(null);
+  const [entrants, setEntrants] = useState<JudgingEntrant[]>([]);
+  const [myScores, setMyScores] = useState<JudgeScore[]>([]);
+  const [index, setIndex] = useState(0);
+  const [marks, setMarks] = useState<Record<string, number>>({});
+  const [comment, setComment] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([
+      judgingService.getConfig(clubId, event.id),
+      judgingService.getEntrants(clubId, event.id),
+      judgingService.getMyScores(clubId, event.id, user.id!),
+    ]).then(([latestConfig, latestEntrants, latestScores]) => {
+      setConfig(latestConfig);
+      // Entries the judge belongs to are never shown to them
+      setEntrants(latestEntrants.filter(entrant => !hasConflictOfInterest(user.id!, entrant)));
+      setMyScores(latestScores);
+      setIsLoading(false);
+    });
+  }, [clubId, event.id, user.id]);
+
+  // The loaded event may predate the judge's appointment, so the fresh panel list is checked too
+  const isJudge = canJudgeEvent(user, event) || (!user.isGuest && !!config?.judges.some(judge => judge.userId === user.id));
+
+  const entrant = entrants[index];
+  const existing = useMemo(() => myScores.find(score => score.entrantId === entrant?.id), [myScores, entrant]);
+
+  // Load the saved card, or start each criterion at zero
+  useEffect(() => {
+    if (!entrant || !config) return;
+    setMarks(existing && !existing.recused ? existing.scores : Object.fromEntries(config.criteria.map(criterion => [criterion.id, 0])));
+    setComment(existing?.comment || '');
+    setError(null);
+  }, [entrant, existing, config]);
+
+  if (isLoading) return <div className="min-h-[60vh] flex items-center justify-center text-gray-400">Loading scorecards...</div>;
+
+  const shell = (content: React.ReactNode) => (
+    <div className="container mx-auto px-4 py-8 max-w-lg">
+      <Link to={`/events/${event.id}`} className="text-sm text-indigo-400 hover:text-indigo-300">&larr; {event.name}</Link>
+      {content}
+    </div>
+  );
+
+  if (!isJudge) return shell(<p className="mt-8 text-gray-300">You are not on the judging panel for this event.</p>);
+  if (!config || config.status === 'draft') return shell(<p className="mt-8 text-gray-300">Scoring hasn't opened yet. Check back once the organizers start judging.</p>);
+  if (entrants.length === 0) return shell(<p className="mt-8 text-gray-300">There are no entries for you to score.</p>);
+
+  const isOpen = config.status === 'open';
+  const scoredCount = myScores.filter(score => entrants.some(e => e.id === score.entrantId)).length;
+
+  const save = async (recused: boolean) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const saved = await judgingService.submitScore(clubId, event.id, entrant, { scores: marks, comment, recused });
+      setMyScores(prev => [...prev.filter(score => score.entrantId !== entrant.id), saved]);
+      if (index < entrants.length - 1) setIndex(index + 1);
+    } catch (err: any) {
+      console.error('Error saving score:', err);
+      setError(err.message || 'Failed to save the score.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return shell(
+    <div className="mt-4 space-y-5">
+      <div className="flex justify-between items-center text-sm text-gray-400">
+        <span>Entry {index + 1} of {entrants.length}</span>
+        <span>{scoredCount} scored</span>
+      </div>
+
+      <div className="flex gap-1 overflow-x-auto pb-1">
+        {entrants.map((e, i) => {
+          const card = myScores.find(score => score.entrantId === e.id);
+          return (
+            <button
+              key={e.id}
+              onClick={() => setIndex(i)}
+              className={`min-w-[2.25rem] h-9 rounded-md text-xs font-semibold ${i === index ? 'bg-indigo-600 text-white' : card?.recused ? 'bg-amber-500/20 text-amber-300' : card ? 'bg-green-500/20 text-green-300' : 'bg-slate-800 text-gray-400'}`}
+            >
+              {i + 1}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-5 space-y-5">
+        <div>
+          <h1 className="text-2xl font-bold text-white">{entrant.name}</h1>
+          {existing?.recused && <p className="text-sm text-amber-300 mt-1">You declared a conflict for this entry.</p>}
+        </div>
+
+        {config.criteria.map(criterion => (
+          <div key={criterion.id}>
+            <div className="flex justify-between items-baseline mb-1">
+              <label className="text-white font-semibold">{criterion.name}</label>
+              <span className="text-indigo-300 font-bold">{marks[criterion.id] ?? 0}<span className="text-gray-500 text-sm">/{criterion.maxScore}</span></span>
+            </div>
+            {criterion.description && <p className="text-xs text-gray-400 mb-2">{criterion.description}</p>}
+            <input
+              type="range"
+              min={0}
+              max={criterion.maxScore}
+              step={criterion.maxScore > 20 ? 1 : 0.5}
+              value={marks[criterion.id] ?? 0}
+              disabled={!isOpen}
+              onChange={e => setMarks(prev => ({ ...prev, [criterion.id]: Number(e.target.value) }))}
+              className="w-full h-8 accent-indigo-500"
+            />
+          </div>
+        ))}
+
+        <textarea
+          value={comment}
+          onChange={e => setComment(e.target.value)}
+          disabled={!isOpen}
+          rows={2}
+          placeholder="Notes (optional, only organizers see these)"
+          className="w-full bg-slate-800 border border-slate-700 rounded-md px-3 py-2 text-white text-sm"
+        />
+
+        <p className="text-sm text-gray-400">Weighted total: <span className="text-white font-semibold">{weightedScore(config.criteria, marks).toFixed(1)}/100</span></p>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      {isOpen ? (
+        <div className="space-y-3">
+          <button onClick={() => save(false)} disabled={isSaving} className="w-full py-3 text-lg font-bold rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50">
+            {isSaving ? 'Saving...' : existing && !existing.recused ? 'Update Score' : 'Submit Score'}
+          </button>
+          <div className="flex justify-between text-sm">
+            <button onClick={() => setIndex(Math.max(index - 1, 0))} disabled={index === 0} className="text-gray-400 hover:text-white disabled:opacity-30">&larr; Previous</button>
+            <button
+              onClick={() => window.confirm(`Declare a conflict of interest with ${entrant.name}? Your score for this entry won't count.`) && save(true)}
+              disabled={isSaving}
+              className="text-amber-400 hover:text-amber-300"
+            >
+              Declare conflict
+            </button>
+            <button onClick={() => setIndex(Math.min(index + 1, entrants.length - 1))} disabled={index === entrants.length - 1} className="text-gray-400 hover:text-white disabled:opacity-30">Next &rarr;</button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-center text-sm text-gray-400">Scoring is closed. Your scorecards are read-only.</p>
+      )}
+    </div>
+  );
+};
+
+export default JudgeScoringScreen;
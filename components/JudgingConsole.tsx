@@ -0,0 +1,309 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { Event, User, JudgingConfig, JudgingCriterion, JudgingEntrant, JudgeScore, JudgingStatus } from '../types';
+import { judgingService } from '../services/judgingService';
+import { firestoreDataService } from '../services/firestoreDataService';
+import { computeJudgingResults, getRubricProblems, hasConflictOfInterest } from '../utils/judging';
+
+interface JudgingConsoleProps {
+  event: Event;
+  className?: string;
+}
+
+const STATUS_LABELS: Record<JudgingStatus, string> = {
+  draft: 'Setting up',
+  open: 'Scoring open',
+  closed: 'Scoring closed',
+  published: 'Results published',
+};
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-md px-3 py-2 text-white text-sm';
+
+const newCriterion = (): JudgingCriterion => ({
+  id: `c${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+  name: '',
+  weight: 1,
+  maxScore: 10,
+});
+
+// Rubric rows; read-only once scoring has opened
+const RubricEditor: React.FC<{ criteria: JudgingCriterion[]; locked: boolean; onSave: (criteria: JudgingCriterion[]) => Promise<void> }> = ({ criteria, locked, onSave }) => {
+  const [draft, setDraft] = useState<JudgingCriterion[]>(criteria.length ? criteria : [newCriterion()]);
+  const [isSaving, setIsSaving] = useState(false);
+  const problems = getRubricProblems(draft);
+  const totalWeight = draft.reduce((sum, criterion) => sum + (criterion.weight || 0), 0);
+
+  useEffect(() => {
+    if (criteria.length) setDraft(criteria);
+  }, [criteria]);
+
+  const update = (id: string, changes: Partial<JudgingCriterion>) =>
+    setDraft(prev => prev.map(criterion => criterion.id === id ? { ...criterion, ...changes } : criterion));
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(draft.map(criterion => ({ ...criterion, name: criterion.name.trim() })));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 text-sm">
+      {draft.map(criterion => (
+        <div key={criterion.id} className="grid grid-cols-12 gap-2 items-end p-3 bg-slate-800/50 rounded-lg">
+          <div className="col-span-12 sm:col-span-6">
+            <label className="block text-gray-400 text-xs mb-1">Criterion</label>
+            <input value={criterion.name} disabled={locked} onChange={e => update(criterion.id, { name: e.target.value })} placeholder="e.g. Innovation" className={inputClass} />
+          </div>
+          <div className="col-span-4 sm:col-span-2">
+            <label className="block text-gray-400 text-xs mb-1">Weight</label>
+            <input type="number" min={0} step="any" value={criterion.weight} disabled={locked} onChange={e => update(criterion.id, { weight: Number(e.target.value) })} className={inputClass} />
+          </div>
+          <div className="col-span-4 sm:col-span-2">
+            <label className="block text-gray-400 text-xs mb-1">Out of</label>
+            <input type="number" min={1} value={criterion.maxScore} disabled={locked} onChange={e => update(criterion.id, { maxScore: Number(e.target.value) })} className={inputClass} />
+          </div>
+          <div className="col-span-4 sm:col-span-2 text-right">
+            <span className="block text-xs text-gray-400 mb-2">{totalWeight > 0 ? `${Math.round((criterion.weight / totalWeight) * 100)}%` : '—'}</span>
+            {!locked && draft.length > 1 && (
+              <button onClick={() => setDraft(prev => prev.filter(c => c.id !== criterion.id))} className="text-red-400 hover:text-red-300 text-xs">Remove</button>
+            )}
+          </div>
+          <div className="col-span-12">
+            <input value={criterion.description || ''} disabled={locked} onChange={e => update(criterion.id, { description: e.target.value })} placeholder="Guidance for judges (optional)" className={inputClass} />
+          </div>
+        </div>
+      ))}
+      {!locked && (
+        <>
+          {problems.length > 0 && <p className="text-amber-400 text-xs">{problems.join(' ')}</p>}
+          <div className="flex gap-3">
+            <button onClick={() => setDraft(prev => [...prev, newCriterion()])} className="px-3 py-1.5 rounded-md bg-slate-700 text-gray-200 hover:bg-slate-600">Add Criterion</button>
+            <button onClick={handleSave} disabled={isSaving || problems.length > 0} className="px-4 py-1.5 font-semibold rounded-md bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50">
+              {isSaving ? 'Saving...' : 'Save Rubric'}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+// Search students to add to the panel
+const JudgePicker: React.FC<{ judges: JudgingConfig['judges']; onChange: (judges: JudgingConfig['judges']) => Promise<void> }> = ({ judges, onChange }) => {
+  const [users, setUsers] = useState<User[]>([]);
+  const [search, setSearch] = useState('');
+
+  useEffect(() => {
+    firestoreDataService.getUsers().then(list => setUsers(list.filter(u => u.id && !u.isGuest)));
+  }, []);
+
+  const matches = search.trim().length < 2 ? [] : users
+    .filter(u => !judges.some(judge => judge.userId === u.id))
+    .filter(u => `${u.name} ${u.email || ''} ${u.rollNumber || ''}`.toLowerCase().includes(search.trim().toLowerCase()))
+    .slice(0, 6);
+
+  return (
+    <div className="space-y-3 text-sm">
+      {judges.length === 0 ? (
+        <p className="text-gray-400">No judges assigned yet.</p>
+      ) : (
+        <ul className="flex flex-wrap gap-2">
+          {judges.map(judge => (
+            <li key={judge.userId} className="flex items-center gap-2 px-3 py-1 rounded-full bg-indigo-500/10 border border-indigo-500/30 text-indigo-200">
+              {judge.name}
+              <button onClick={() => onChange(judges.filter(j => j.userId !== judge.userId))} className="text-indigo-300 hover:text-white">&times;</button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <input value={search} onChange={e => setSearch(e.target.value)} placeholder="Search by name, email or roll number" className={inputClass} />
+      {matches.length > 0 && (
+        <ul className="bg-slate-800 border border-slate-700 rounded-md divide-y divide-slate-700">
+          {matches.map(u => (
+            <li key={u.id}>
+              <button
+                onClick={() => { setSearch(''); onChange([...judges, { userId: u.id!, name: u.name }]); }}
+                className="w-full text-left px-3 py-2 hover:bg-slate-700"
+              >
+                <span className="text-white">{u.name}</span> <span className="text-gray-400 text-xs">{u.email}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const JudgingConsole: React.FC<JudgingConsoleProps> = ({ event, className = '' }) => {
+  const clubId = event.organizerClubId;
+  const [config, setConfig] = useState<JudgingConfig | null>(null);
+  const [entrants, setEntrants] = useState<JudgingEntrant[]>([]);
+  const [scores, setScores] = useState<JudgeScore[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const [latestConfig, latestEntrants, latestScores] = await Promise.all([
+        judgingService.getConfig(clubId, event.id),
+        judgingService.getEntrants(clubId, event.id),
+        judgingService.getAllScores(clubId, event.id),
+      ]);
+      setConfig(latestConfig);
+      setEntrants(latestEntrants);
+      setScores(latestScores);
+    } catch (err: any) {
+      console.error('Error loading judging:', err);
+      setError(err.message || 'Failed to load judging.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [clubId, event.id]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const results = useMemo(() => computeJudgingResults(config?.criteria || [], entrants, scores), [config, entrants, scores]);
+  const judges = config?.judges || [];
+  const status = config?.status || 'draft';
+
+  // Judges who belong to an entry are kept away from it automatically
+  const conflicts = useMemo(() => judges.flatMap(judge =>
+    entrants.filter(entrant => hasConflictOfInterest(judge.userId, entrant)).map(entrant => ({ judge, entrant }))
+  ), [judges, entrants]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+      await load();
+    } catch (err: any) {
+      console.error('Judging action failed:', err);
+      setError(err.message || 'Something went wrong.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (isLoading) return null;
+
+  const progressFor = (judgeId: string) => {
+    const assignable = entrants.filter(entrant => !hasConflictOfInterest(judgeId, entrant));
+    const done = scores.filter(score => score.judgeId === judgeId && assignable.some(entrant => entrant.id === score.entrantId));
+    return { done: done.length, total: assignable.length, recused: done.filter(score => score.recused).length };
+  };
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <h2 className="text-3xl font-bold text-white border-l-4 border-indigo-500 pl-4">Judging</h2>
+        <span className="px-3 py-1 text-xs font-semibold rounded-full bg-slate-700 text-gray-200">{STATUS_LABELS[status]}</span>
+      </div>
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-5">
+          <h3 className="text-lg font-bold text-white mb-3">Rubric</h3>
+          <RubricEditor
+            criteria={config?.criteria || []}
+            locked={status !== 'draft'}
+            onSave={criteria => run(() => judgingService.saveCriteria(clubId, event.id, criteria))}
+          />
+        </div>
+        <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-5">
+          <h3 className="text-lg font-bold text-white mb-3">Judges</h3>
+          <JudgePicker judges={judges} onChange={next => run(() => judgingService.assignJudges(clubId, event.id, next))} />
+          {conflicts.length > 0 && (
+            <div className="mt-4 text-xs text-amber-300 space-y-1">
+              {conflicts.map(({ judge, entrant }) => (
+                <p key={`${judge.userId}-${entrant.id}`}>{judge.name} is part of {entrant.name} and won't be asked to score it.</p>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        {status === 'draft' && (
+          <button onClick={() => run(() => judgingService.setStatus(clubId, event.id, 'open'))} disabled={isBusy} className="px-4 py-2 font-semibold rounded-md bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50">Open Scoring</button>
+        )}
+        {status === 'open' && (
+          <button onClick={() => run(() => judgingService.setStatus(clubId, event.id, 'closed'))} disabled={isBusy} className="px-4 py-2 font-semibold rounded-md bg-slate-700 text-gray-200 hover:bg-slate-600 disabled:opacity-50">Close Scoring</button>
+        )}
+        {status === 'closed' && (
+          <>
+            <button onClick={() => run(() => judgingService.setStatus(clubId, event.id, 'open'))} disabled={isBusy} className="px-4 py-2 rounded-md bg-slate-700 text-gray-200 hover:bg-slate-600 disabled:opacity-50">Reopen Scoring</button>
+            <button
+              onClick={() => window.confirm('Publish the top three to the event highlights?') && run(() => judgingService.publishResults(clubId, event.id))}
+              disabled={isBusy}
+              className="px-4 py-2 font-semibold rounded-md bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50"
+            >
+              Publish Results
+            </button>
+          </>
+        )}
+        {event.judgeIds?.length ? (
+          <Link to={`/events/${event.id}/judge`} className="px-4 py-2 rounded-md bg-slate-800 text-indigo-300 hover:text-indigo-200">Judge's view</Link>
+        ) : null}
+      </div>
+
+      {status !== 'draft' && judges.length > 0 && (
+        <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-5">
+          <h3 className="text-lg font-bold text-white mb-3">Progress</h3>
+          <ul className="space-y-2 text-sm">
+            {judges.map(judge => {
+              const progress = progressFor(judge.userId);
+              return (
+                <li key={judge.userId} className="flex items-center gap-3">
+                  <span className="w-40 truncate text-gray-200">{judge.name}</span>
+                  <div className="flex-1 h-2 bg-slate-800 rounded-full overflow-hidden">
+                    <div className="h-full bg-indigo-500" style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }} />
+                  </div>
+                  <span className="text-xs text-gray-400 w-28 text-right">
+                    {progress.done}/{progress.total}{progress.recused ? ` · ${progress.recused} recused` : ''}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      {scores.length > 0 && (
+        <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-5 overflow-x-auto">
+          <h3 className="text-lg font-bold text-white mb-1">Standings</h3>
+          <p className="text-xs text-gray-400 mb-3">Ranked by each judge's scores relative to their own average, so strict and generous judges count equally.</p>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-400 border-b border-slate-700">
+                <th className="py-2 pr-3">#</th>
+                <th className="py-2 pr-3">Entry</th>
+                <th className="py-2 pr-3 text-right">Average /100</th>
+                <th className="py-2 pr-3 text-right">Normalized</th>
+                <th className="py-2 text-right">Judges</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map(result => (
+                <tr key={result.entrantId} className="border-b border-slate-800 text-gray-200">
+                  <td className="py-2 pr-3">{result.judgeCount ? result.rank : '—'}</td>
+                  <td className="py-2 pr-3 text-white">{result.name}</td>
+                  <td className="py-2 pr-3 text-right">{result.judgeCount ? result.rawScore.toFixed(1) : '—'}</td>
+                  <td className="py-2 pr-3 text-right">{result.judgeCount ? result.normalizedScore.toFixed(2) : '—'}</td>
+                  <td className="py-2 text-right">{result.judgeCount}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default JudgingConsole;
@@ -346,15 +346,15 @@ interface LoginPageProps {
     onRegisterAndLogin: (details: Omit<User, 'id' | 'role' | 'isGuest' | 'managedClubIds'> & {password: string}) => Promise<void>;
     onCreateProfileForExistingUser: (details: Omit<User, 'id' | 'role' | 'isGuest' | 'managedClubIds'>) => Promise<void>;
     onUserRegistered: (user: User) => void;
-    onGuestLogin: (guestData: GuestUserData) => void;
+    onGuestLogin: (guestData: GuestUserData, code: string) => Promise<void>;
 }
 
 const LoginPage: React.FC<LoginPageProps> = ({ onLogin, onRegisterAndLogin, onCreateProfileForExistingUser, onUserRegistered, onGuestLogin }) => {
     const [view, setView] = useState<View>('login');
     const [showGuestModal, setShowGuestModal] = useState(false);
 
-    const handleGuestLogin = (guestData: GuestUserData) => {
-        onGuestLogin(guestData);
+    const handleGuestLogin = async (guestData: GuestUserData, code: string) => {
+        await onGuestLogin(guestData, code);
         setShowGuestModal(false);
     };
 
@@ -31,6 +31,7 @@ const NotificationIcon: React.FC<{ type: NotificationType }> = ({ type }) => {
         case 'application-accepted':
         case 'event-winner':
         case 'access-granted':
+        case 'waitlist-promoted':
             return <svg xmlns="http://www.w3.org/2000/svg" className={`${iconStyles} text-green-400`} fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>;
         case 'application-rejected':
         case 'access-revoked':
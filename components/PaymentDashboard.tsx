@@ -1,72 +1,68 @@
-import React, { useState, useEffect } from 'react';
-import { User, Club } from '../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import * as XLSX from 'xlsx';
+import { User, Club, Event } from '../types';
 import { phonepeAccountService, PhonePeAccount } from '../services/phonepeAccountService';
-import { eventRegistrationService } from '../services/eventRegistrationService';
+import { revenueService } from '../services/revenueService';
+import { invoiceService } from '../services/invoiceService';
+import { can } from '../utils/permissions';
+import {
+  RevenuePeriod,
+  RevenueTransaction,
+  RevenueBreakdownRow,
+  REVENUE_PERIODS,
+  filterTransactions,
+  getRevenueTotals,
+  getRevenueByEvent,
+  getRevenueByPeriod,
+  buildStatementRows,
+  getPeriodStart,
+} from '../utils/revenue';
+import { buildInvoiceRegisterRows } from '../utils/invoice';
+import { downloadInvoicesPdf } from '../utils/invoicePdf';
 
 interface PaymentDashboardProps {
   user: User;
   clubs: Club[];
+  events: Event[];
 }
 
-interface PaymentStats {
-  totalRevenue: number;
-  totalEvents: number;
-  successfulPayments: number;
-  failedPayments: number;
-  pendingPayments: number;
-  thisMonthRevenue: number;
-  lastMonthRevenue: number;
-}
-
-interface PaymentTransaction {
-  id: string;
-  eventId: string;
-  eventName: string;
-  userId: string;
-  userName: string;
-  amount: number;
-  status: 'success' | 'failed' | 'pending';
-  paymentMethod: string;
-  transactionId: string;
-  timestamp: string;
-  clubId: string;
-  clubName: string;
-}
+const breakdownExportRows = (rows: RevenueBreakdownRow[], labelHeader: string) =>
+  rows.map(row => ({
+    [labelHeader]: row.label,
+    'Payments': row.payments,
+    'Gross': row.gross,
+    'Refunds': row.refunds,
+    'Gateway Fees': row.fees,
+    'Net': row.net,
+    'Settled': row.settled,
+    'Pending Settlement': row.pending,
+  }));
 
-const PaymentDashboard: React.FC<PaymentDashboardProps> = ({ user, clubs }) => {
+const PaymentDashboard: React.FC<PaymentDashboardProps> = ({ user, clubs, events }) => {
   const [accounts, setAccounts] = useState<PhonePeAccount[]>([]);
-  const [transactions, setTransactions] = useState<PaymentTransaction[]>([]);
-  const [stats, setStats] = useState<PaymentStats>({
-    totalRevenue: 0,
-    totalEvents: 0,
-    successfulPayments: 0,
-    failedPayments: 0,
-    pendingPayments: 0,
-    thisMonthRevenue: 0,
-    lastMonthRevenue: 0
-  });
+  const [transactions, setTransactions] = useState<RevenueTransaction[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [selectedClub, setSelectedClub] = useState<string>('all');
-  const [selectedPeriod, setSelectedPeriod] = useState<string>('30d');
+  const [selectedPeriod, setSelectedPeriod] = useState<RevenuePeriod>('30d');
+  const [isExportingInvoices, setIsExportingInvoices] = useState(false);
+
+  // Treasurers only see the clubs whose payments they manage
+  const paymentClubs = useMemo(() => clubs.filter(club => can(user, 'manage-payments', club.id)), [user, clubs]);
 
   useEffect(() => {
     loadDashboardData();
-  }, [user.id, selectedClub, selectedPeriod]);
+  }, [user.id, events, paymentClubs]);
 
   const loadDashboardData = async () => {
     setIsLoading(true);
     try {
-      // Load user's accounts
-      const userAccounts = await phonepeAccountService.getUserAccounts(user.id!);
+      const clubIds = new Set(paymentClubs.map(club => club.id));
+      const [userAccounts, loadedTransactions] = await Promise.all([
+        phonepeAccountService.getUserAccounts(user.id!),
+        revenueService.getTransactions(events.filter(event => clubIds.has(event.organizerClubId)), paymentClubs),
+      ]);
       setAccounts(userAccounts);
-
-      // Load transactions (mock data for now)
-      const mockTransactions = generateMockTransactions();
-      setTransactions(mockTransactions);
-
-      // Calculate stats
-      const calculatedStats = calculateStats(mockTransactions);
-      setStats(calculatedStats);
+      setTransactions(loadedTransactions);
     } catch (error) {
       console.error('Error loading dashboard data:', error);
     } finally {
@@ -74,62 +70,64 @@ const PaymentDashboard: React.FC<PaymentDashboardProps> = ({ user, clubs }) => {
     }
   };
 
-  const generateMockTransactions = (): PaymentTransaction[] => {
-    const events = ['Code-a-thon 2024', 'Tech Fest', 'Hackathon', 'Workshop', 'Seminar'];
-    const clubs = ['Tech Club', 'Coding Club', 'Innovation Club'];
-    const statuses: ('success' | 'failed' | 'pending')[] = ['success', 'success', 'success', 'failed', 'pending'];
-    const methods = ['UPI', 'Card', 'Net Banking'];
-    
-    return Array.from({ length: 50 }, (_, i) => ({
-      id: `txn_${i + 1}`,
-      eventId: `event_${i + 1}`,
-      eventName: events[i % events.length],
-      userId: `user_${i + 1}`,
-      userName: `User ${i + 1}`,
-      amount: Math.floor(Math.random() * 1000) + 100,
-      status: statuses[i % statuses.length],
-      paymentMethod: methods[i % methods.length],
-      transactionId: `TXN${Date.now()}${i}`,
-      timestamp: new Date(Date.now() - Math.random() * 30 * 24 * 60 * 60 * 1000).toISOString(),
-      clubId: `club_${(i % clubs.length) + 1}`,
-      clubName: clubs[i % clubs.length]
-    }));
-  };
-
-  const calculateStats = (transactions: PaymentTransaction[]): PaymentStats => {
-    const successful = transactions.filter(t => t.status === 'success');
-    const failed = transactions.filter(t => t.status === 'failed');
-    const pending = transactions.filter(t => t.status === 'pending');
-    
-    const totalRevenue = successful.reduce((sum, t) => sum + t.amount, 0);
-    const thisMonth = new Date();
-    const lastMonth = new Date(thisMonth.getFullYear(), thisMonth.getMonth() - 1, 1);
-    
-    const thisMonthTransactions = successful.filter(t => 
-      new Date(t.timestamp) >= new Date(thisMonth.getFullYear(), thisMonth.getMonth(), 1)
-    );
-    const lastMonthTransactions = successful.filter(t => 
-      new Date(t.timestamp) >= lastMonth && 
-      new Date(t.timestamp) < new Date(thisMonth.getFullYear(), thisMonth.getMonth(), 1)
-    );
+  const filteredTransactions = useMemo(
+    () => filterTransactions(transactions, { clubId: selectedClub, period: selectedPeriod })
+      .sort((a, b) => b.paidAt.localeCompare(a.paidAt)),
+    [transactions, selectedClub, selectedPeriod]
+  );
+  const stats = useMemo(() => getRevenueTotals(filteredTransactions), [filteredTransactions]);
+  const revenueByEvent = useMemo(() => getRevenueByEvent(filteredTransactions), [filteredTransactions]);
+  const revenueByPeriod = useMemo(() => getRevenueByPeriod(filteredTransactions, selectedPeriod), [filteredTransactions, selectedPeriod]);
+  const maxPeriodGross = Math.max(1, ...revenueByPeriod.map(row => row.gross));
 
-    return {
-      totalRevenue,
-      totalEvents: new Set(transactions.map(t => t.eventId)).size,
-      successfulPayments: successful.length,
-      failedPayments: failed.length,
-      pendingPayments: pending.length,
-      thisMonthRevenue: thisMonthTransactions.reduce((sum, t) => sum + t.amount, 0),
-      lastMonthRevenue: lastMonthTransactions.reduce((sum, t) => sum + t.amount, 0)
-    };
+  // Summary, breakdowns and every payment with a running balance, one sheet each
+  const handleExportStatement = () => {
+    const clubName = selectedClub === 'all' ? 'All Clubs' : paymentClubs.find(club => club.id === selectedClub)?.name || selectedClub;
+    const periodName = REVENUE_PERIODS.find(period => period.id === selectedPeriod)?.name || selectedPeriod;
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet([
+      { Item: 'Club', Value: clubName },
+      { Item: 'Period', Value: periodName },
+      { Item: 'Generated', Value: new Date().toLocaleString() },
+      { Item: 'Payments', Value: stats.payments },
+      { Item: 'Gross Revenue', Value: stats.gross },
+      { Item: 'Refunds', Value: stats.refunds },
+      { Item: 'Refunds Pending', Value: stats.refundsPending },
+      { Item: 'Gateway Fees', Value: stats.fees },
+      { Item: 'Net Revenue', Value: stats.net },
+      { Item: 'Settled', Value: stats.settled },
+      { Item: 'Pending Settlement', Value: stats.pending },
+    ]), 'Summary');
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(breakdownExportRows(revenueByEvent, 'Event')), 'By Event');
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(breakdownExportRows(revenueByPeriod, 'Period')), 'By Period');
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(buildStatementRows(filteredTransactions)), 'Statement');
+    XLSX.writeFile(workbook, `payment_statement_${clubName.replace(/\s+/g, '_').toLowerCase()}_${selectedPeriod}_${new Date().toISOString().slice(0, 10)}.xlsx`);
   };
 
-  const filteredTransactions = transactions.filter(transaction => {
-    if (selectedClub !== 'all') {
-      return transaction.clubId === selectedClub;
+  // Every invoice issued in the period as one printable PDF, plus the register the GST return is filed from
+  const handleExportInvoices = async () => {
+    setIsExportingInvoices(true);
+    try {
+      const clubIds = selectedClub === 'all' ? paymentClubs.map(club => club.id) : [selectedClub];
+      const from = getPeriodStart(selectedPeriod);
+      const invoices = (await Promise.all(clubIds.map(clubId => invoiceService.getClubInvoices(clubId, from)))).flat();
+      if (invoices.length === 0) {
+        alert('No invoices were issued in this period.');
+        return;
+      }
+      const clubName = selectedClub === 'all' ? 'all_clubs' : (paymentClubs.find(club => club.id === selectedClub)?.name || selectedClub).replace(/\s+/g, '_').toLowerCase();
+      const fileName = `invoices_${clubName}_${selectedPeriod}_${new Date().toISOString().slice(0, 10)}`;
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(buildInvoiceRegisterRows(invoices)), 'Invoice Register');
+      XLSX.writeFile(workbook, `${fileName}.xlsx`);
+      downloadInvoicesPdf([...invoices].reverse(), fileName);
+    } catch (error) {
+      console.error('Error exporting invoices:', error);
+      alert('Failed to export invoices. Please try again.');
+    } finally {
+      setIsExportingInvoices(false);
     }
-    return true;
-  });
+  };
 
   const formatCurrency = (amount: number) => `₹${amount.toLocaleString()}`;
   const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString();
@@ -149,74 +147,26 @@ const PaymentDashboard: React.FC<PaymentDashboardProps> = ({ user, clubs }) => {
     <div className="min-h-screen bg-slate-900 p-6">
       <div className="max-w-7xl mx-auto">
         {/* Header */}
-        <div className="mb-8">
-          <h1 className="text-3xl font-bold text-white mb-2">Payment Dashboard</h1>
-          <p className="text-gray-400">Track your earnings and payment analytics</p>
-        </div>
-
-        {/* Stats Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-          <div className="bg-slate-800 rounded-lg p-6">
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-gray-400 text-sm">Total Revenue</p>
-                <p className="text-2xl font-bold text-white">{formatCurrency(stats.totalRevenue)}</p>
-              </div>
-              <div className="w-12 h-12 bg-green-500/20 rounded-full flex items-center justify-center">
-                <svg className="w-6 h-6 text-green-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1" />
-                </svg>
-              </div>
-            </div>
-          </div>
-
-          <div className="bg-slate-800 rounded-lg p-6">
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-gray-400 text-sm">This Month</p>
-                <p className="text-2xl font-bold text-white">{formatCurrency(stats.thisMonthRevenue)}</p>
-                <p className="text-xs text-gray-400">
-                  vs {formatCurrency(stats.lastMonthRevenue)} last month
-                </p>
-              </div>
-              <div className="w-12 h-12 bg-blue-500/20 rounded-full flex items-center justify-center">
-                <svg className="w-6 h-6 text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
-                </svg>
-              </div>
-            </div>
+        <div className="mb-8 flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-white mb-2">Payment Dashboard</h1>
+            <p className="text-gray-400">Revenue, refunds, gateway fees and settlements across your clubs' paid events</p>
           </div>
-
-          <div className="bg-slate-800 rounded-lg p-6">
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-gray-400 text-sm">Successful Payments</p>
-                <p className="text-2xl font-bold text-white">{stats.successfulPayments}</p>
-                <p className="text-xs text-green-400">
-                  {((stats.successfulPayments / (stats.successfulPayments + stats.failedPayments)) * 100).toFixed(1)}% success rate
-                </p>
-              </div>
-              <div className="w-12 h-12 bg-green-500/20 rounded-full flex items-center justify-center">
-                <svg className="w-6 h-6 text-green-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                </svg>
-              </div>
-            </div>
-          </div>
-
-          <div className="bg-slate-800 rounded-lg p-6">
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-gray-400 text-sm">Total Events</p>
-                <p className="text-2xl font-bold text-white">{stats.totalEvents}</p>
-                <p className="text-xs text-gray-400">Events with payments</p>
-              </div>
-              <div className="w-12 h-12 bg-purple-500/20 rounded-full flex items-center justify-center">
-                <svg className="w-6 h-6 text-purple-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
-                </svg>
-              </div>
-            </div>
+          <div className="flex gap-3">
+            <button
+              onClick={handleExportInvoices}
+              disabled={isExportingInvoices || paymentClubs.length === 0}
+              className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isExportingInvoices ? 'Exporting...' : 'Export Invoices'}
+            </button>
+            <button
+              onClick={handleExportStatement}
+              disabled={filteredTransactions.length === 0}
+              className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Export Statement
+            </button>
           </div>
         </div>
 
@@ -228,80 +178,175 @@ const PaymentDashboard: React.FC<PaymentDashboardProps> = ({ user, clubs }) => {
             className="px-4 py-2 bg-slate-800 border border-slate-600 rounded-lg text-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
           >
             <option value="all">All Clubs</option>
-            {clubs.map(club => (
+            {paymentClubs.map(club => (
               <option key={club.id} value={club.id}>{club.name}</option>
             ))}
           </select>
 
           <select
             value={selectedPeriod}
-            onChange={(e) => setSelectedPeriod(e.target.value)}
+            onChange={(e) => setSelectedPeriod(e.target.value as RevenuePeriod)}
             className="px-4 py-2 bg-slate-800 border border-slate-600 rounded-lg text-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
           >
-            <option value="7d">Last 7 days</option>
-            <option value="30d">Last 30 days</option>
-            <option value="90d">Last 90 days</option>
-            <option value="1y">Last year</option>
+            {REVENUE_PERIODS.map(period => (
+              <option key={period.id} value={period.id}>{period.name}</option>
+            ))}
           </select>
         </div>
 
-        {/* Transactions Table */}
-        <div className="bg-slate-800 rounded-lg overflow-hidden">
-          <div className="px-6 py-4 border-b border-slate-700">
-            <h3 className="text-lg font-semibold text-white">Recent Transactions</h3>
+        {/* Stats Cards */}
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+          <div className="bg-slate-800 rounded-lg p-6">
+            <p className="text-gray-400 text-sm">Gross Revenue</p>
+            <p className="text-2xl font-bold text-white">{formatCurrency(stats.gross)}</p>
+            <p className="text-xs text-gray-400">{stats.payments} payment{stats.payments === 1 ? '' : 's'}</p>
           </div>
-          
-          <div className="overflow-x-auto">
-            <table className="w-full">
-              <thead className="bg-slate-700/50">
-                <tr>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Event</th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">User</th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Amount</th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Status</th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Method</th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Date</th>
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-slate-700">
-                {filteredTransactions.slice(0, 20).map((transaction) => (
-                  <tr key={transaction.id} className="hover:bg-slate-700/50">
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div>
-                        <div className="text-sm font-medium text-white">{transaction.eventName}</div>
-                        <div className="text-sm text-gray-400">{transaction.clubName}</div>
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm text-white">{transaction.userName}</div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm font-medium text-white">{formatCurrency(transaction.amount)}</div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-                        transaction.status === 'success' 
-                          ? 'bg-green-500/20 text-green-400' 
-                          : transaction.status === 'failed'
-                          ? 'bg-red-500/20 text-red-400'
-                          : 'bg-yellow-500/20 text-yellow-400'
-                      }`}>
-                        {transaction.status.charAt(0).toUpperCase() + transaction.status.slice(1)}
-                      </span>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm text-gray-400">{transaction.paymentMethod}</div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm text-gray-400">{formatDate(transaction.timestamp)}</div>
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
+
+          <div className="bg-slate-800 rounded-lg p-6">
+            <p className="text-gray-400 text-sm">Net Revenue</p>
+            <p className="text-2xl font-bold text-green-400">{formatCurrency(stats.net)}</p>
+            <p className="text-xs text-gray-400">After refunds and {formatCurrency(stats.fees)} in gateway fees</p>
+          </div>
+
+          <div className="bg-slate-800 rounded-lg p-6">
+            <p className="text-gray-400 text-sm">Settled</p>
+            <p className="text-2xl font-bold text-white">{formatCurrency(stats.settled)}</p>
+            <p className="text-xs text-yellow-400">{formatCurrency(stats.pending)} pending settlement</p>
+          </div>
+
+          <div className="bg-slate-800 rounded-lg p-6">
+            <p className="text-gray-400 text-sm">Refunds</p>
+            <p className="text-2xl font-bold text-white">{formatCurrency(stats.refunds)}</p>
+            <p className="text-xs text-gray-400">{formatCurrency(stats.refundsPending)} awaiting the gateway</p>
           </div>
         </div>
 
+        {filteredTransactions.length === 0 ? (
+          <div className="bg-slate-800 rounded-lg p-8 text-center text-gray-400">
+            No payments in this period.
+          </div>
+        ) : (
+          <>
+            {/* Revenue by Period */}
+            <div className="bg-slate-800 rounded-lg p-6 mb-8">
+              <h3 className="text-lg font-semibold text-white mb-4">Revenue by Period</h3>
+              <div className="space-y-2">
+                {revenueByPeriod.map(row => (
+                  <div key={row.key} className="flex items-center gap-4 text-sm">
+                    <span className="w-40 shrink-0 text-gray-400">{row.label}</span>
+                    <div className="flex-1 h-3 bg-slate-700 rounded-full overflow-hidden">
+                      <div className="h-full bg-indigo-500" style={{ width: `${(row.gross / maxPeriodGross) * 100}%` }} />
+                    </div>
+                    <span className="w-28 shrink-0 text-right text-white">{formatCurrency(row.net)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Revenue by Event */}
+            <div className="bg-slate-800 rounded-lg overflow-hidden mb-8">
+              <div className="px-6 py-4 border-b border-slate-700">
+                <h3 className="text-lg font-semibold text-white">Revenue by Event</h3>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-slate-700/50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Event</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-400 uppercase tracking-wider">Payments</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-400 uppercase tracking-wider">Gross</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-400 uppercase tracking-wider">Refunds</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-400 uppercase tracking-wider">Fees</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-400 uppercase tracking-wider">Net</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-400 uppercase tracking-wider">Pending</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-700">
+                    {revenueByEvent.map(row => (
+                      <tr key={row.key} className="hover:bg-slate-700/50 text-sm">
+                        <td className="px-6 py-4 text-white">{row.label}</td>
+                        <td className="px-6 py-4 text-right text-gray-400">{row.payments}</td>
+                        <td className="px-6 py-4 text-right text-white">{formatCurrency(row.gross)}</td>
+                        <td className="px-6 py-4 text-right text-gray-400">{formatCurrency(row.refunds)}</td>
+                        <td className="px-6 py-4 text-right text-gray-400">{formatCurrency(row.fees)}</td>
+                        <td className="px-6 py-4 text-right font-medium text-green-400">{formatCurrency(row.net)}</td>
+                        <td className="px-6 py-4 text-right text-yellow-400">{formatCurrency(row.pending)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            {/* Transactions Table */}
+            <div className="bg-slate-800 rounded-lg overflow-hidden">
+              <div className="px-6 py-4 border-b border-slate-700">
+                <h3 className="text-lg font-semibold text-white">Recent Transactions</h3>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-slate-700/50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Event</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">User</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Amount</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Status</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Settlement</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Method</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Date</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-700">
+                    {filteredTransactions.slice(0, 20).map((transaction) => (
+                      <tr key={transaction.paymentId} className="hover:bg-slate-700/50">
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div>
+                            <div className="text-sm font-medium text-white">{transaction.eventName}</div>
+                            <div className="text-sm text-gray-400">{transaction.clubName}</div>
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="text-sm text-white">{transaction.userName}</div>
+                          <div className="text-sm text-gray-400">{transaction.isGuest ? 'Guest' : transaction.userEmail}</div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="text-sm font-medium text-white">{formatCurrency(transaction.amount)}</div>
+                          {transaction.fee > 0 && (
+                            <div className="text-xs text-gray-400">{formatCurrency(transaction.fee)} fee</div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                            transaction.status === 'paid'
+                              ? 'bg-green-500/20 text-green-400'
+                              : transaction.status === 'refunded'
+                              ? 'bg-red-500/20 text-red-400'
+                              : 'bg-yellow-500/20 text-yellow-400'
+                          }`}>
+                            {(transaction.status.charAt(0).toUpperCase() + transaction.status.slice(1)).replace('_', ' ')}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <span className={`text-sm ${transaction.settled ? 'text-green-400' : 'text-yellow-400'}`}>
+                            {transaction.settled ? 'Settled' : 'Pending'}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="text-sm text-gray-400">{transaction.method || '—'}</div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="text-sm text-gray-400">{formatDate(transaction.paidAt)}</div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </>
+        )}
+
         {/* Account Status */}
         <div className="mt-8 bg-slate-800 rounded-lg p-6">
           <h3 className="text-lg font-semibold text-white mb-4">PhonePe Account Status</h3>
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { collection, doc, getDoc, setDoc, updateDoc } from 'firebase/firestore';
 import { db } from '../firebaseConfig';
 import { auth } from '../firebaseConfig';
+import { credentialVaultService } from '../services/credentialVaultService';
 
 interface PaymentDetails {
   name: string;
@@ -12,7 +13,8 @@ interface PaymentDetails {
   bank_account: {
     name: string;
     ifsc: string;
-    account_number: string;
+    account_number: string; // Form input only; the saved number lives in the credential vault
+    account_number_masked?: string;
   };
   linked_account_id?: string;
   status?: 'pending' | 'active' | 'suspended';
@@ -49,6 +51,8 @@ const PaymentDetailsManager: React.FC<PaymentDetailsManagerProps> = ({
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [hasExistingDetails, setHasExistingDetails] = useState(false);
+  // Account number from a document saved before the vault existed; moved to the vault on the next save
+  const [legacyAccountNumber, setLegacyAccountNumber] = useState('');
 
   useEffect(() => {
     if (isAdmin && clubId) {
@@ -64,7 +68,8 @@ const PaymentDetailsManager: React.FC<PaymentDetailsManagerProps> = ({
       
       if (paymentDoc.exists()) {
         const data = paymentDoc.data() as PaymentDetails;
-        setPaymentDetails(data);
+        setLegacyAccountNumber(data.bank_account.account_number || '');
+        setPaymentDetails({ ...data, bank_account: { ...data.bank_account, account_number: '' } });
         setHasExistingDetails(true);
       }
     } catch (err) {
@@ -121,7 +126,8 @@ const PaymentDetailsManager: React.FC<PaymentDetailsManagerProps> = ({
       setError('IFSC code is required');
       return false;
     }
-    if (!paymentDetails.bank_account.account_number.trim()) {
+    const hasSavedAccountNumber = !!(paymentDetails.bank_account.account_number_masked || legacyAccountNumber);
+    if (!paymentDetails.bank_account.account_number.trim() && !hasSavedAccountNumber) {
       setError('Account number is required');
       return false;
     }
@@ -134,7 +140,13 @@ const PaymentDetailsManager: React.FC<PaymentDetailsManagerProps> = ({
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify(paymentDetails),
+      body: JSON.stringify({
+        ...paymentDetails,
+        bank_account: {
+          ...paymentDetails.bank_account,
+          account_number: paymentDetails.bank_account.account_number || legacyAccountNumber
+        }
+      }),
     });
 
     if (!response.ok) {
@@ -164,9 +176,22 @@ const PaymentDetailsManager: React.FC<PaymentDetailsManagerProps> = ({
         linkedAccountId = await createSubMerchant();
       }
 
+      // The account number goes to the credential vault; Firestore keeps only its masked form
+      const vaulted = await credentialVaultService.store({
+        ownerType: 'razorpay-account',
+        ownerId: clubId,
+        clubId,
+        secrets: { accountNumber: paymentDetails.bank_account.account_number || legacyAccountNumber }
+      });
+
       // Save payment details to Firestore
       const paymentData = {
         ...paymentDetails,
+        bank_account: {
+          name: paymentDetails.bank_account.name,
+          ifsc: paymentDetails.bank_account.ifsc,
+          account_number_masked: vaulted.masked.accountNumber || paymentDetails.bank_account.account_number_masked || ''
+        },
         linked_account_id: linkedAccountId,
         status: 'active',
         updated_at: new Date(),
@@ -175,8 +200,11 @@ const PaymentDetailsManager: React.FC<PaymentDetailsManagerProps> = ({
 
       const paymentDocRef = doc(db, 'clubs', clubId, 'paymentDetails', 'razorpay');
       await setDoc(paymentDocRef, paymentData);
+      // Payment details are private to treasurers; checkout reads the linked account from the club
+      await updateDoc(doc(db, 'clubs', clubId), { razorpayLinkedAccountId: linkedAccountId });
 
-      setPaymentDetails(paymentData);
+      setPaymentDetails({ ...paymentData, bank_account: { ...paymentData.bank_account, account_number: '' } });
+      setLegacyAccountNumber('');
       setHasExistingDetails(true);
       setSuccess('Payment details saved successfully! Sub-merchant account created.');
     } catch (err: any) {
@@ -333,15 +361,17 @@ const PaymentDetailsManager: React.FC<PaymentDetailsManagerProps> = ({
 
             <div>
               <label className="block text-sm font-medium text-gray-300 mb-2">
-                Account Number *
+                Account Number {!paymentDetails.bank_account.account_number_masked && !legacyAccountNumber && '*'}
               </label>
               <input
                 type="text"
                 value={paymentDetails.bank_account.account_number}
                 onChange={(e) => handleInputChange('bank_account.account_number', e.target.value)}
                 className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
-                placeholder="Enter account number"
-                required
+                placeholder={paymentDetails.bank_account.account_number_masked
+                  ? `Saved (${paymentDetails.bank_account.account_number_masked}), leave blank to keep`
+                  : legacyAccountNumber ? 'Saved, leave blank to keep' : 'Enter account number'}
+                required={!paymentDetails.bank_account.account_number_masked && !legacyAccountNumber}
               />
             </div>
           </div>
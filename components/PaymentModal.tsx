@@ -1,199 +1,137 @@
-import React, { useEffect, useRef, useState } from 'react';
-import { Event, User } from '../types';
-import { razorpayService } from '../services/razorpayService';
-import { paymentService } from '../services/paymentService'; 
+import React, { useEffect, useState } from 'react';
+import { Event, User, RegistrationFormResponses } from '../types';
+import { PaymentGateway, PaymentMode, PaymentProvider, buildOrderRequest } from '../services/paymentGateway';
+import { resolveEventGateway } from '../services/paymentGatewayRegistry';
+import { paymentIntentService } from '../services/paymentIntentService';
+import { paymentConfigService } from '../services/paymentConfigService';
+import { pricingService } from '../services/pricingService';
+import { PriceQuote, TicketTier, getTicketTiers, getTierPrice, isTierAvailable } from '../utils/pricing';
 
 interface PaymentModalProps {
   event: Event;
   user: User;
-  registrationId: string;
+  teamId?: string; // Team events: the team the attendee registers with
+  additionalInfo?: string;
+  formResponses?: RegistrationFormResponses;
   isOpen: boolean;
   onClose: () => void;
-  onPaymentSuccess: (paymentId: string) => void;
+  onPaymentSuccess: (paymentId: string, details?: { provider: PaymentProvider; orderId: string }) => void | Promise<void>;
   onPaymentFailure: (error: string) => void;
 }
 
-const RAZORPAY_MODE: 'sandbox' | 'production' = 'sandbox';
+const PAYMENT_MODE: PaymentMode = 'sandbox';
 
 const PaymentModal: React.FC<PaymentModalProps> = ({
   event,
   user,
-  registrationId,
+  teamId,
+  additionalInfo,
+  formResponses,
   isOpen,
   onClose,
   onPaymentSuccess,
   onPaymentFailure,
 }) => {
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isConfirming, setIsConfirming] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const razorpayRef = useRef<any | null>(null);
+  const [gatewaySetup, setGatewaySetup] = useState<{ gateway: PaymentGateway; accountId?: string } | null>(null);
+  const [tiers, setTiers] = useState<TicketTier[]>([]);
+  const [selectedTierId, setSelectedTierId] = useState('');
+  const [couponCode, setCouponCode] = useState('');
+  const [couponQuote, setCouponQuote] = useState<PriceQuote | null>(null);
+  const [couponError, setCouponError] = useState<string | null>(null);
+  const [isApplyingCoupon, setIsApplyingCoupon] = useState(false);
 
   useEffect(() => {
     if (isOpen) setError(null);
   }, [isOpen]);
 
-  // Initialize Razorpay SDK once
+  // Look up which gateway this event is configured to use and the tickets open to this attendee
   useEffect(() => {
+    if (!isOpen) return;
     let mounted = true;
-    
-    // Load Razorpay SDK from CDN
-    const loadRazorpaySDK = () => {
-      return new Promise((resolve, reject) => {
-        // Check if already loaded
-        if ((window as any).Razorpay) {
-          resolve((window as any).Razorpay);
-          return;
-        }
-
-        const script = document.createElement('script');
-        script.src = 'https://checkout.razorpay.com/v1/checkout.js';
-        script.async = true;
-        script.onload = () => {
-          if ((window as any).Razorpay) {
-            resolve((window as any).Razorpay);
-          } else {
-            reject(new Error('Razorpay SDK failed to initialize'));
-          }
-        };
-        script.onerror = () => {
-          reject(new Error('Failed to load Razorpay SDK'));
-        };
-        document.head.appendChild(script);
-      });
-    };
-
-    loadRazorpaySDK()
-      .then((rzp) => {
-        if (mounted) {
-          console.log('Razorpay SDK loaded:', rzp);
-          razorpayRef.current = rzp;
-        }
+    Promise.all([resolveEventGateway(event), paymentConfigService.getEventPaymentConfig(event.id)])
+      .then(([setup, config]) => {
+        if (!mounted) return;
+        const available = getTicketTiers(event, config).filter(tier => isTierAvailable(tier, event, { isGuest: !!user.isGuest }));
+        setGatewaySetup(setup);
+        setTiers(available);
+        setSelectedTierId(current => available.some(tier => tier.id === current) ? current : available[0]?.id || '');
+        if (available.length === 0) setError('No tickets for this event are open to you.');
       })
-      .catch((e) => {
-        console.error('Razorpay SDK load error:', e);
-        // Set a mock SDK for testing
-        if (mounted) {
-          razorpayRef.current = {
-            open: (options: any) => {
-              console.log('Mock Razorpay open called with:', options);
-              // Simulate successful payment for testing
-              setTimeout(() => {
-                const mockResponse = {
-                  razorpay_payment_id: 'mock_payment_id_' + Date.now(),
-                  razorpay_order_id: options.order_id,
-                  razorpay_signature: 'mock_signature'
-                };
-                if (options.handler) {
-                  options.handler(mockResponse);
-                }
-              }, 2000);
-            }
-          };
-        }
+      .catch(e => {
+        console.error('Failed to resolve payment gateway:', e);
+        if (mounted) setError('Payments are not configured for this event yet.');
       });
-    
-    return () => {
-      mounted = false;
-      razorpayRef.current = null;
-    };
-  }, []);
+    return () => { mounted = false; };
+  }, [isOpen, event.id]);
 
-  // Helper: request a payment order from your backend
-  const createRazorpayOrder = async (): Promise<any> => {
-    const amount = event.registrationFee || 1; // INR
-    const orderId = registrationId && registrationId.trim() ? registrationId : `EVT_${event.id}_${Date.now()}`;
+  const selectedTier = tiers.find(tier => tier.id === selectedTierId);
+  const tierPrice = selectedTier ? getTierPrice(selectedTier) : null;
 
-    try {
-      const paymentRequest = await paymentService.createPaymentRequest(event, user, orderId);
-      const response = await razorpayService.createPaymentOrder(paymentRequest);
-
-      if (!response.success || !response.razorpayOrderId) {
-        throw new Error(response.error || 'Failed to create payment order');
-      }
+  const handleTierChange = (tierId: string) => {
+    setSelectedTierId(tierId);
+    setCouponQuote(null);
+    setCouponError(null);
+  };
 
-      return response;
+  // Coupons are checked by the payment functions; the browser only shows what they quote
+  const handleApplyCoupon = async () => {
+    if (!selectedTierId || !couponCode.trim()) return;
+    setIsApplyingCoupon(true);
+    setCouponError(null);
+    try {
+      setCouponQuote(await pricingService.quote(event, { tierId: selectedTierId, couponCode }));
     } catch (err: any) {
-      console.error('Failed to create Razorpay payment order:', err);
-      throw new Error(
-        err.message || 'Razorpay backend not configured. Please implement POST /api/payments/razorpay/order to return a razorpayOrderId.'
-      );
+      setCouponQuote(null);
+      setCouponError(err?.message || 'This coupon code is not valid');
+    } finally {
+      setIsApplyingCoupon(false);
     }
   };
 
-  const handleRazorpayPayment = async () => {
+  const handlePayment = async () => {
+    if (!gatewaySetup || !selectedTierId) return;
     setIsProcessing(true);
     setError(null);
 
+    const { gateway, accountId } = gatewaySetup;
+    const selection = { tierId: selectedTierId, ...(couponQuote?.couponCode ? { couponCode: couponQuote.couponCode } : {}) };
+
     try {
-      // 1) Request an order from backend
-      const paymentOrder = await createRazorpayOrder();
+      // 1) Price the ticket server-side; the order function repeats this and refuses a different amount
+      const pricing = await pricingService.quote(event, selection);
 
-      // 2) Check if SDK is loaded
-      if (!razorpayRef.current) {
-        throw new Error('Razorpay SDK not loaded. Please refresh and try again.');
-      }
+      // 2) Hold a seat and record what is being paid for, so the gateway's webhook can register the attendee
+      const { orderId } = await paymentIntentService.create({
+        provider: gateway.provider,
+        clubId: event.organizerClubId,
+        eventId: event.id,
+        amount: pricing.amount,
+        currency: 'INR',
+        accountId,
+        pricing,
+        teamId,
+        additionalInfo,
+        formResponses,
+      });
 
-      const rzp = razorpayRef.current as any;
-      console.log('Available Razorpay methods:', Object.keys(rzp));
-      
-      // Check if we're using mock credentials (indicated by test order ID)
-      if (paymentOrder.razorpayOrderId.startsWith('order_') && paymentOrder.razorpayOrderId.includes('_test')) {
-        // This is a mock order ID, use our demo form
-        console.log('Using mock payment form for demo order');
-        const container = document.getElementById('razorpay-dropin-container');
-        if (container) {
-          container.innerHTML = `
-            <div style="padding: 20px; border: 1px solid #ccc; border-radius: 8px; background: #f9f9f9; color: #333;">
-              <h3 style="margin: 0 0 15px 0; color: #333;">Demo Payment Form</h3>
-              <p style="margin: 5px 0;"><strong>Amount:</strong> ₹${event.registrationFee || 1}</p>
-              <p style="margin: 5px 0;"><strong>Order ID:</strong> ${paymentOrder.razorpayOrderId}</p>
-              <p style="margin: 5px 0 15px 0; color: #666; font-size: 14px;">This is a demo payment form. Click "Pay Now" to simulate payment success.</p>
-              <button onclick="window.mockPaymentSuccess('${paymentOrder.razorpayOrderId}')" 
-                      style="background: #4CAF50; color: white; padding: 12px 24px; border: none; border-radius: 6px; cursor: pointer; font-size: 16px; width: 100%;">
-                Pay Now (Demo)
-              </button>
-            </div>
-          `;
-          
-          // Set up mock payment success
-          (window as any).mockPaymentSuccess = (orderId: string) => {
-            setIsProcessing(false);
-            onPaymentSuccess(orderId);
-          };
-        } else {
-          throw new Error('Payment container not found');
-        }
-      } else {
-        // Use Razorpay SDK for real payments
-        console.log('Using Razorpay SDK for payment');
-        const options = {
-          key: paymentOrder.key,
-          amount: paymentOrder.amount,
-          currency: paymentOrder.currency,
-          name: paymentOrder.name,
-          description: paymentOrder.description,
-          order_id: paymentOrder.razorpayOrderId,
-          prefill: paymentOrder.prefill,
-          notes: paymentOrder.notes,
-          handler: function (response: any) {
-            console.log('Payment successful:', response);
-            setIsProcessing(false);
-            onPaymentSuccess(response.razorpay_payment_id);
-          },
-          modal: {
-            ondismiss: function () {
-              console.log('Payment cancelled by user');
-              setIsProcessing(false);
-              onPaymentFailure('Payment cancelled by user');
-            }
-          }
-        };
+      // 3) Create the order with the provider through our backend, under the order ID the function issued
+      const orderRequest = buildOrderRequest(event, user, orderId, { mode: PAYMENT_MODE, accountId, amount: pricing.amount, pricing: selection });
+      const order = await gateway.createOrder(orderRequest);
 
-        rzp.open(options);
-      }
+      // 4) Let the provider's checkout collect the payment
+      const result = await gateway.openCheckout(order, orderRequest);
+      console.log('Payment successful:', result);
+      setIsProcessing(false);
+      setIsConfirming(true);
+      await onPaymentSuccess(result.paymentId, { provider: gateway.provider, orderId });
+      setIsConfirming(false);
     } catch (err: any) {
       console.error(err);
       setIsProcessing(false);
+      setIsConfirming(false);
       const msg = err?.message || 'Failed to initiate payment. Please try again.';
       setError(msg);
       onPaymentFailure(msg);
@@ -210,7 +148,7 @@ const PaymentModal: React.FC<PaymentModalProps> = ({
           <button
             onClick={onClose}
             className="text-gray-400 hover:text-white transition-colors"
-            disabled={isProcessing}
+            disabled={isProcessing || isConfirming}
           >
             <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -222,10 +160,77 @@ const PaymentModal: React.FC<PaymentModalProps> = ({
             <p className="text-gray-300 mb-2">
               Please complete your payment to confirm your registration.
             </p>
+            {tiers.length > 1 && (
+              <div className="space-y-2 mb-4">
+                {tiers.map(tier => {
+                  const { price, earlyBird } = getTierPrice(tier);
+                  return (
+                    <label
+                      key={tier.id}
+                      className={`flex items-center justify-between p-3 rounded-lg border cursor-pointer ${
+                        tier.id === selectedTierId ? 'border-indigo-500 bg-indigo-500/10' : 'border-slate-700 bg-slate-800/50'
+                      }`}
+                    >
+                      <span className="flex items-center gap-2">
+                        <input
+                          type="radio"
+                          name="ticketTier"
+                          checked={tier.id === selectedTierId}
+                          onChange={() => handleTierChange(tier.id)}
+                          disabled={isProcessing || isConfirming}
+                          className="text-indigo-600 focus:ring-indigo-500"
+                        />
+                        <span className="text-white">
+                          {tier.name}
+                          {tier.audience === 'team' && tier.teamSize && <span className="text-xs text-gray-400 ml-1">(up to {tier.teamSize} members)</span>}
+                        </span>
+                      </span>
+                      <span className="text-right">
+                        {earlyBird && <span className="text-xs text-gray-500 line-through mr-2">₹{tier.price}</span>}
+                        <span className="text-white">₹{price}</span>
+                      </span>
+                    </label>
+                  );
+                })}
+              </div>
+            )}
+
+            {tierPrice?.earlyBird && selectedTier?.earlyBirdEndsAt && (
+              <p className="text-xs text-green-400 mb-4">
+                Early-bird price until {new Date(selectedTier.earlyBirdEndsAt).toLocaleString()}
+              </p>
+            )}
+
+            <div className="flex gap-2 mb-2">
+              <input
+                type="text"
+                value={couponCode}
+                onChange={(e) => { setCouponCode(e.target.value.toUpperCase()); setCouponQuote(null); setCouponError(null); }}
+                placeholder="Coupon code"
+                disabled={isProcessing || isConfirming}
+                className="flex-1 px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              />
+              <button
+                type="button"
+                onClick={handleApplyCoupon}
+                disabled={!couponCode.trim() || !selectedTierId || isApplyingCoupon || isProcessing || isConfirming}
+                className="px-4 py-2 bg-slate-700 text-white rounded-md text-sm hover:bg-slate-600 disabled:opacity-50"
+              >
+                {isApplyingCoupon ? 'Checking...' : 'Apply'}
+              </button>
+            </div>
+            {couponError && <p className="text-xs text-red-400 mb-2">{couponError}</p>}
+            {couponQuote?.couponCode && (
+              <p className="text-xs text-green-400 mb-2">Coupon {couponQuote.couponCode} applied: ₹{couponQuote.discount} off</p>
+            )}
+
             <div className="flex justify-between items-center bg-slate-800/50 p-4 rounded-lg">
               <span className="text-white font-semibold">Amount</span>
               <span className="text-green-400 font-bold text-lg">
-                ₹{event.registrationFee || 1}
+                {couponQuote && couponQuote.discount > 0 && (
+                  <span className="text-sm text-gray-500 line-through mr-2">₹{couponQuote.price}</span>
+                )}
+                ₹{couponQuote ? couponQuote.amount : tierPrice?.price ?? event.registrationFee ?? 0}
               </span>
             </div>
           </div>
@@ -236,24 +241,21 @@ const PaymentModal: React.FC<PaymentModalProps> = ({
             </div>
           )}
 
-          {/* Razorpay Drop-in Container */}
-          <div id="razorpay-dropin-container" className="mb-4" />
-
           <button
-            onClick={handleRazorpayPayment}
-            disabled={isProcessing}
+            onClick={handlePayment}
+            disabled={isProcessing || isConfirming || !gatewaySetup || !selectedTierId}
             className="w-full bg-indigo-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
           >
-            {isProcessing && (
+            {(isProcessing || isConfirming) && (
               <svg className="animate-spin h-4 w-4" fill="none" viewBox="0 0 24 24">
                 <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                 <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
               </svg>
             )}
-            {isProcessing ? 'Processing...' : 'Pay with Razorpay'}
+            {isConfirming ? 'Confirming payment...' : isProcessing ? 'Processing...' : gatewaySetup ? `Pay with ${gatewaySetup.gateway.displayName}` : 'Loading...'}
           </button>
           <div className="text-xs text-gray-400 mt-4">
-            <span>Mode: {RAZORPAY_MODE === 'sandbox' ? 'Sandbox (Test)' : 'Production'}. A backend endpoint must return a Razorpay orderId.</span>
+            <span>Mode: {PAYMENT_MODE === 'sandbox' ? 'Sandbox (Test)' : 'Production'}</span>
           </div>
         </div>
       </div>
@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { User, Club } from '../types';
-import { phonepeAccountService, PhonePeAccount } from '../services/phonepeAccountService';
+import { phonepeAccountService, PhonePeAccount, PhonePeSecretField } from '../services/phonepeAccountService';
 
 interface PhonePeAccountManagerProps {
   user: User;
@@ -31,6 +31,7 @@ const PhonePeAccountManager: React.FC<PhonePeAccountManagerProps> = ({
     phoneNumber: '',
     email: '',
     businessName: '',
+    businessAddress: '',
     businessType: '',
     gstNumber: '',
     panNumber: '',
@@ -64,20 +65,22 @@ const PhonePeAccountManager: React.FC<PhonePeAccountManagerProps> = ({
     setSuccess(null);
 
     try {
-      // Validate required fields
-      if (!formData.clubId || !formData.merchantId || !formData.saltKey) {
+      // Validate required fields; when editing, a blank salt key keeps the stored one
+      if (!formData.clubId || !formData.merchantId || (!editingAccount && !formData.saltKey)) {
         throw new Error('Please fill in all required fields');
       }
 
       // Validate credentials
-      const isValid = await phonepeAccountService.validateAccountCredentials(
-        formData.merchantId,
-        formData.saltKey,
-        formData.saltIndex
-      );
+      if (formData.saltKey) {
+        const isValid = await phonepeAccountService.validateAccountCredentials(
+          formData.merchantId,
+          formData.saltKey,
+          formData.saltIndex
+        );
 
-      if (!isValid) {
-        throw new Error('Invalid PhonePe credentials. Please check your Merchant ID, Salt Key, and Salt Index.');
+        if (!isValid) {
+          throw new Error('Invalid PhonePe credentials. Please check your Merchant ID, Salt Key, and Salt Index.');
+        }
       }
 
       // Create or update account - only include fields that have values
@@ -85,8 +88,6 @@ const PhonePeAccountManager: React.FC<PhonePeAccountManagerProps> = ({
         userId: user.id!,
         clubId: formData.clubId,
         merchantId: formData.merchantId,
-        saltKey: formData.saltKey,
-        saltIndex: formData.saltIndex,
         environment: formData.environment,
         isActive: true,
         accountName: formData.accountName
@@ -102,15 +103,23 @@ const PhonePeAccountManager: React.FC<PhonePeAccountManagerProps> = ({
         }
         accountData.email = formData.email;
       }
+      if (formData.gstNumber.trim() && !formData.businessAddress.trim()) {
+        throw new Error('Enter the business address; tax invoices must show it with the GSTIN');
+      }
       if (formData.businessName.trim()) accountData.businessName = formData.businessName;
+      if (formData.businessAddress.trim()) accountData.businessAddress = formData.businessAddress.trim();
       if (formData.businessType.trim()) accountData.businessType = formData.businessType;
       if (formData.gstNumber.trim()) accountData.gstNumber = formData.gstNumber;
-      if (formData.panNumber.trim()) accountData.panNumber = formData.panNumber;
-      if (formData.bankAccountNumber.trim()) accountData.bankAccountNumber = formData.bankAccountNumber;
       if (formData.ifscCode.trim()) accountData.ifscCode = formData.ifscCode;
       if (formData.accountHolderName.trim()) accountData.accountHolderName = formData.accountHolderName;
 
-      await phonepeAccountService.createOrUpdateAccount(accountData);
+      // Secrets go to the credential vault, never onto the account document
+      await phonepeAccountService.createOrUpdateAccount(accountData, {
+        saltKey: formData.saltKey,
+        saltIndex: formData.saltIndex,
+        bankAccountNumber: formData.bankAccountNumber,
+        panNumber: formData.panNumber
+      });
       
       setSuccess(editingAccount ? 'Account updated successfully!' : 'Account created successfully!');
       setShowForm(false);
@@ -132,16 +141,18 @@ const PhonePeAccountManager: React.FC<PhonePeAccountManagerProps> = ({
       clubId: account.clubId,
       accountName: account.accountName,
       merchantId: account.merchantId,
-      saltKey: account.saltKey,
-      saltIndex: account.saltIndex,
+      // Stored secrets are never sent back; leaving these blank keeps them
+      saltKey: '',
+      saltIndex: '',
       environment: account.environment,
       phoneNumber: account.phoneNumber || '',
       email: account.email || '',
       businessName: account.businessName || '',
+      businessAddress: account.businessAddress || '',
       businessType: account.businessType || '',
       gstNumber: account.gstNumber || '',
-      panNumber: account.panNumber || '',
-      bankAccountNumber: account.bankAccountNumber || '',
+      panNumber: '',
+      bankAccountNumber: '',
       ifscCode: account.ifscCode || '',
       accountHolderName: account.accountHolderName || ''
     });
@@ -173,6 +184,7 @@ const PhonePeAccountManager: React.FC<PhonePeAccountManagerProps> = ({
       phoneNumber: '',
       email: '',
       businessName: '',
+      businessAddress: '',
       businessType: '',
       gstNumber: '',
       panNumber: '',
@@ -182,6 +194,12 @@ const PhonePeAccountManager: React.FC<PhonePeAccountManagerProps> = ({
     });
   };
 
+  // Secret inputs start blank when editing; show what the vault holds instead
+  const savedPlaceholder = (field: PhonePeSecretField, fallback: string): string => {
+    const masked = editingAccount?.maskedCredentials?.[field];
+    return masked ? `Saved (${masked}), leave blank to keep` : fallback;
+  };
+
   const handleCancel = () => {
     setShowForm(false);
     setEditingAccount(null);
@@ -289,7 +307,11 @@ const PhonePeAccountManager: React.FC<PhonePeAccountManagerProps> = ({
                       </div>
                       <div>
                         <span className="text-gray-400">Salt Index:</span>
-                        <span className="text-white ml-2">{account.saltIndex}</span>
+                        <span className="text-white ml-2 font-mono">{account.maskedCredentials?.saltIndex || 'Not set'}</span>
+                      </div>
+                      <div>
+                        <span className="text-gray-400">Salt Key:</span>
+                        <span className="text-white ml-2 font-mono">{account.maskedCredentials?.saltKey || 'Not set'}</span>
                       </div>
                       {account.businessName && (
                         <div>
@@ -374,29 +396,29 @@ const PhonePeAccountManager: React.FC<PhonePeAccountManagerProps> = ({
                 
                 <div>
                   <label className="block text-sm font-medium text-gray-400 mb-2">
-                    Salt Key <span className="text-red-400">*</span>
+                    Salt Key {!editingAccount && <span className="text-red-400">*</span>}
                   </label>
                   <input
                     type="password"
                     value={formData.saltKey}
                     onChange={(e) => setFormData({...formData, saltKey: e.target.value})}
                     className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md text-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
-                    placeholder="SALT_KEY"
-                    required
+                    placeholder={savedPlaceholder('saltKey', 'SALT_KEY')}
+                    required={!editingAccount}
                   />
                 </div>
                 
                 <div>
                   <label className="block text-sm font-medium text-gray-400 mb-2">
-                    Salt Index <span className="text-red-400">*</span>
+                    Salt Index {!editingAccount && <span className="text-red-400">*</span>}
                   </label>
                   <input
                     type="text"
                     value={formData.saltIndex}
                     onChange={(e) => setFormData({...formData, saltIndex: e.target.value})}
                     className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md text-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
-                    placeholder="1"
-                    required
+                    placeholder={savedPlaceholder('saltIndex', '1')}
+                    required={!editingAccount}
                   />
                 </div>
               </div>
@@ -430,6 +452,17 @@ const PhonePeAccountManager: React.FC<PhonePeAccountManagerProps> = ({
                     placeholder="Your Business Name"
                   />
                 </div>
+
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-400 mb-2">Business Address</label>
+                  <input
+                    type="text"
+                    value={formData.businessAddress}
+                    onChange={(e) => setFormData({...formData, businessAddress: e.target.value})}
+                    className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md text-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    placeholder="Registered address, printed on invoices"
+                  />
+                </div>
                 
                 <div>
                   <label className="block text-sm font-medium text-gray-400 mb-2">Business Type</label>
@@ -493,7 +526,7 @@ const PhonePeAccountManager: React.FC<PhonePeAccountManagerProps> = ({
                     value={formData.bankAccountNumber}
                     onChange={(e) => setFormData({...formData, bankAccountNumber: e.target.value})}
                     className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md text-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
-                    placeholder="Bank Account Number"
+                    placeholder={savedPlaceholder('bankAccountNumber', 'Bank Account Number')}
                   />
                 </div>
                 
@@ -515,7 +548,7 @@ const PhonePeAccountManager: React.FC<PhonePeAccountManagerProps> = ({
                     value={formData.panNumber}
                     onChange={(e) => setFormData({...formData, panNumber: e.target.value})}
                     className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md text-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
-                    placeholder="PAN Number"
+                    placeholder={savedPlaceholder('panNumber', 'PAN Number')}
                   />
                 </div>
               </div>
@@ -1,9 +1,16 @@
-import React, { useState, useMemo, useRef, useEffect } from 'react';
+import React, { useState, useMemo, useRef, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { User, Event, Club, Application, EventStatus } from '../types';
+import { User, Event, Club, Application, EventStatus, Certificate } from '../types';
 import ChangePasswordModal from './ChangePasswordModal';
 import { firestoreDataService } from '../services/firestoreDataService';
 import { useProfileData } from '../hooks/useProfileData';
+import { UserRefund } from '../services/refundService';
+import { can, getManagedClubIds } from '../utils/permissions';
+import { calendarService } from '../services/calendarService';
+import CalendarFeedLink from './CalendarFeedLink';
+import { downloadCertificatesPdf } from '../utils/certificate';
+import { Invoice, INVOICE_KIND_LABELS } from '../utils/invoice';
+import { downloadInvoicesPdf } from '../utils/invoicePdf';
 
 interface ProfilePageProps {
   user: User;
@@ -27,11 +34,9 @@ const ProfileCard: React.FC<ProfileCardProps> = ({ user, onLogout, onOpenChangeP
     const [loading, setLoading] = useState(false);
     const clubsId = useMemo(() => {
         const ids = new Set<string>();
-        if (user.managedClubIds) {
-            user.managedClubIds.forEach(id => ids.add(id));
-        }
+        getManagedClubIds(user).forEach(id => ids.add(id));
         return Array.from(ids);
-    }, [user.managedClubIds]);
+    }, [user.managedClubIds, user.clubRoles]);
 
     useEffect(() => {
         const fetchClubData = async () => {
@@ -59,7 +64,10 @@ const ProfileCard: React.FC<ProfileCardProps> = ({ user, onLogout, onOpenChangeP
 
     const userRoles = useMemo(() => {
         const roles = ['Student'];
-        if (user.managedClubIds && user.managedClubIds.length > 0) roles.push('Club Admin');
+        const clubRoles = Object.values(user.clubRoles || {});
+        if (clubRoles.includes('club-lead')) roles.push('Club Lead');
+        else if (user.managedClubIds && user.managedClubIds.length > 0) roles.push('Club Admin');
+        if (clubRoles.includes('coordinator')) roles.push('Coordinator');
         return roles;
     }, [user]);
 
@@ -121,7 +129,7 @@ const ProfilePage: React.FC<ProfilePageProps> = ({ user, onLogout, events, clubs
   const navigate = useNavigate();
 
   // Use optimized profile data hook
-  const { registeredEvents, isLoadingRegistrations, refreshRegistrations } = useProfileData({
+  const { registeredEvents, refunds, certificates, invoices, isLoadingRegistrations, refreshRegistrations } = useProfileData({
     user,
     events,
     activeTab
@@ -134,6 +142,31 @@ const ProfilePage: React.FC<ProfilePageProps> = ({ user, onLogout, events, clubs
     };
   }, [registeredEvents]);
 
+  const [downloadingCertificateId, setDownloadingCertificateId] = useState<string | null>(null);
+  const handleDownloadCertificate = async (certificate: Certificate) => {
+    setDownloadingCertificateId(certificate.id);
+    try {
+      await downloadCertificatesPdf([certificate], `${certificate.eventName.replace(/[^a-z0-9]+/gi, '_')}_certificate`);
+    } catch (error) {
+      console.error('Error downloading certificate:', error);
+      alert('Could not generate the certificate. Please try again.');
+    } finally {
+      setDownloadingCertificateId(null);
+    }
+  };
+
+  const handleDownloadInvoice = (invoice: Invoice) => {
+    try {
+      downloadInvoicesPdf([invoice], invoice.number.replace(/\//g, '-'));
+    } catch (error) {
+      console.error('Error downloading invoice:', error);
+      alert('Could not generate the invoice. Please try again.');
+    }
+  };
+
+  const loadCalendarFeedUrl = useCallback(() => calendarService.getUserFeedUrl(), [user.id]);
+  const publishCalendarFeed = useCallback(() => calendarService.enableUserFeed(), []);
+
 //   const { managedClubs, memberClubs } = useMemo(() => {
 //     const managed = clubs.filter(c => user.managedClubIds?.includes(c.id));
 //     console.log(managed)
@@ -181,8 +214,8 @@ const ProfilePage: React.FC<ProfilePageProps> = ({ user, onLogout, events, clubs
 
 
   const pendingApplicationsCount = useMemo(() => {
-    return applications.filter(app => user.managedClubIds?.includes(app.clubId) && app.status === 'pending').length;
-  }, [applications, user.managedClubIds]);
+    return applications.filter(app => app.status === 'pending' && can(user, 'review-applications', app.clubId)).length;
+  }, [applications, user]);
 
   const TabButton: React.FC<{tab: ProfileTab, children: React.ReactNode, count?: number}> = ({tab, children, count}) => (
       <button onClick={() => setActiveTab(tab)} className={`relative flex-1 py-4 text-sm font-bold transition-colors ${activeTab === tab ? 'text-white' : 'text-gray-400 hover:text-white'}`}>
@@ -198,6 +231,13 @@ const ProfilePage: React.FC<ProfilePageProps> = ({ user, onLogout, events, clubs
     rejected: { text: 'text-red-400', bg: 'bg-red-500/10', dot: 'bg-red-500' },
   };
 
+  const refundStyles: { [key in UserRefund['state']]: { label: string; text: string; bg: string; dot: string } } = {
+    requested: { label: 'Requested', text: 'text-yellow-400', bg: 'bg-yellow-500/10', dot: 'bg-yellow-500' },
+    pending: { label: 'Processing', text: 'text-yellow-400', bg: 'bg-yellow-500/10', dot: 'bg-yellow-500' },
+    processed: { label: 'Refunded', text: 'text-green-400', bg: 'bg-green-500/10', dot: 'bg-green-500' },
+    failed: { label: 'Failed', text: 'text-red-400', bg: 'bg-red-500/10', dot: 'bg-red-500' },
+  };
+
 
   return (
     <div className="container mx-auto max-w-4xl px-4 sm:px-6 lg:px-8 py-16">
@@ -219,6 +259,11 @@ const ProfilePage: React.FC<ProfilePageProps> = ({ user, onLogout, events, clubs
             <div className="mt-6 animate-tab-content-enter">
                 {activeTab === 'events' && (
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        {!user.isGuest && (
+                            <div className="md:col-span-2">
+                                <CalendarFeedLink label="My Events Calendar" loadUrl={loadCalendarFeedUrl} publish={publishCalendarFeed} />
+                            </div>
+                        )}
                         <div className="space-y-4">
                             <h4 className="font-semibold text-gray-300 text-lg px-2">Upcoming & Ongoing</h4>
                             {isLoadingRegistrations ? (
@@ -247,6 +292,68 @@ const ProfilePage: React.FC<ProfilePageProps> = ({ user, onLogout, events, clubs
                                 </button>
                              )) : <p className="text-sm text-gray-500 px-2">You haven't attended any past events.</p>}
                         </div>
+                        {certificates.length > 0 && (
+                            <div className="space-y-4 md:col-span-2">
+                                <h4 className="font-semibold text-gray-300 text-lg px-2">Certificates</h4>
+                                {certificates.map(certificate => (
+                                    <div key={certificate.id} className="p-4 rounded-lg bg-slate-900 border border-slate-800 flex items-center justify-between gap-4">
+                                        <div className="min-w-0">
+                                            <p className="font-semibold text-white truncate">{certificate.eventName}</p>
+                                            <p className="text-xs text-gray-400">
+                                                {certificate.kind === 'winner' ? certificate.position : 'Participation'} · <span className="font-mono">{certificate.id}</span>
+                                            </p>
+                                        </div>
+                                        <button
+                                            onClick={() => handleDownloadCertificate(certificate)}
+                                            disabled={downloadingCertificateId === certificate.id}
+                                            className="px-4 py-2 text-xs font-bold bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50 shrink-0"
+                                        >
+                                            {downloadingCertificateId === certificate.id ? 'Preparing...' : 'Download PDF'}
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                        {invoices.length > 0 && (
+                            <div className="space-y-4 md:col-span-2">
+                                <h4 className="font-semibold text-gray-300 text-lg px-2">Receipts & Invoices</h4>
+                                {invoices.map(invoice => (
+                                    <div key={invoice.id} className="p-4 rounded-lg bg-slate-900 border border-slate-800 flex items-center justify-between gap-4">
+                                        <div className="min-w-0">
+                                            <p className="font-semibold text-white truncate">{invoice.event.name}</p>
+                                            <p className="text-xs text-gray-400">
+                                                {INVOICE_KIND_LABELS[invoice.kind]} <span className="font-mono">{invoice.number}</span> · ₹{invoice.amount} · {new Date(invoice.issuedAt).toLocaleDateString()}
+                                            </p>
+                                        </div>
+                                        <button
+                                            onClick={() => handleDownloadInvoice(invoice)}
+                                            className="px-4 py-2 text-xs font-bold bg-indigo-600 rounded-lg hover:bg-indigo-700 shrink-0"
+                                        >
+                                            Download PDF
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                        {refunds.length > 0 && (
+                            <div className="space-y-4 md:col-span-2">
+                                <h4 className="font-semibold text-gray-300 text-lg px-2">Refunds</h4>
+                                {refunds.map(refund => (
+                                    <div key={refund.refundId} className="p-4 rounded-lg bg-slate-900 border border-slate-800 flex items-center justify-between">
+                                        <div>
+                                            <p className="font-semibold text-white">{events.find(e => e.id === refund.eventId)?.name || 'Event'}</p>
+                                            <p className="text-xs text-gray-400">
+                                                ₹{refund.amount} of ₹{refund.amountPaid} · {new Date(refund.requestedAt).toLocaleDateString()}
+                                            </p>
+                                        </div>
+                                        <div className={`${refundStyles[refund.state].bg} ${refundStyles[refund.state].text} text-xs font-bold px-3 py-1.5 rounded-full flex items-center gap-2`}>
+                                            <span className={`h-2 w-2 rounded-full ${refundStyles[refund.state].dot}`}></span>
+                                            <span>{refundStyles[refund.state].label}</span>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
                     </div>
                 )}
                  {activeTab === 'clubs' && (
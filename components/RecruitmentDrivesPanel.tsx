@@ -0,0 +1,185 @@
+import React, { useState, useMemo } from 'react';
+import { Application, Club, RecruitmentDrive } from '../types';
+import { recruitmentDriveService } from '../services/recruitmentDriveService';
+import { getDriveStats, getDriveStatus, DriveStatus } from '../utils/recruitment';
+
+interface RecruitmentDrivesPanelProps {
+  club: Club;
+  drives: RecruitmentDrive[];
+  applications: Application[];
+  selectedDriveId: string; // '' for applications sent outside any drive
+  onSelectDrive: (driveId: string) => void;
+  onDrivesChange: (drives: RecruitmentDrive[]) => void;
+}
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-md px-2 py-1.5 text-white text-sm';
+
+const STATUS_STYLES: Record<DriveStatus, string> = {
+  scheduled: 'bg-blue-500/20 text-blue-300',
+  open: 'bg-green-500/20 text-green-400',
+  closed: 'bg-slate-700 text-gray-300',
+};
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' });
+
+const Breakdown: React.FC<{ title: string; counts: Record<string, number>; total: number }> = ({ title, counts, total }) => (
+  <div>
+    <p className="text-gray-400 mb-2">{title}</p>
+    <div className="space-y-1">
+      {Object.keys(counts).sort((a, b) => counts[b] - counts[a]).map(label => (
+        <div key={label} className="flex items-center gap-2">
+          <span className="w-24 truncate text-gray-300">{label}</span>
+          <div className="flex-1 h-2 bg-slate-800 rounded">
+            <div className="h-2 bg-indigo-500 rounded" style={{ width: `${(counts[label] / total) * 100}%` }} />
+          </div>
+          <span className="w-6 text-right text-gray-400">{counts[label]}</span>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+// Scheduling, closing and browsing a club's recruitment drives, with stats for the selected one
+const RecruitmentDrivesPanel: React.FC<RecruitmentDrivesPanelProps> = ({ club, drives, applications, selectedDriveId, onSelectDrive, onDrivesChange }) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [title, setTitle] = useState('');
+  const [opensAt, setOpensAt] = useState('');
+  const [closesAt, setClosesAt] = useState('');
+  const [questions, setQuestions] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedDrive = drives.find(drive => drive.id === selectedDriveId);
+  const hasLegacyApplications = applications.some(app => !app.driveId);
+  const stats = useMemo(
+    () => getDriveStats(applications.filter(app => (app.driveId || '') === selectedDriveId)),
+    [applications, selectedDriveId]
+  );
+
+  const startCreating = () => {
+    setTitle(`Recruitment ${new Date().getFullYear()}`);
+    setOpensAt('');
+    setClosesAt('');
+    setQuestions([...(club.recruitmentQuestions || [])]);
+    setError(null);
+    setIsCreating(true);
+  };
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const created = await recruitmentDriveService.createDrive(club.id, {
+        title,
+        opensAt: new Date(opensAt).toISOString(),
+        closesAt: new Date(closesAt).toISOString(),
+        questions,
+      });
+      onDrivesChange([created, ...drives].sort((a, b) => b.opensAt.localeCompare(a.opensAt)));
+      onSelectDrive(created.id);
+      setIsCreating(false);
+    } catch (err: any) {
+      console.error('Error creating recruitment drive:', err);
+      setError(err.message || 'Failed to create the drive.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClose = async (drive: RecruitmentDrive) => {
+    if (!window.confirm(`Stop taking applications for "${drive.title}" now?`)) return;
+    try {
+      const closed = await recruitmentDriveService.closeDrive(club.id, drive);
+      onDrivesChange(drives.map(d => d.id === closed.id ? closed : d));
+    } catch (err: any) {
+      console.error('Error closing recruitment drive:', err);
+      setError(err.message || 'Failed to close the drive.');
+    }
+  };
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={selectedDriveId} onChange={e => onSelectDrive(e.target.value)} className={`${inputClass} w-auto`}>
+          {drives.map(drive => (
+            <option key={drive.id} value={drive.id}>{drive.title} ({getDriveStatus(drive)})</option>
+          ))}
+          {(hasLegacyApplications || drives.length === 0) && <option value="">Requests outside a drive</option>}
+        </select>
+        {!isCreating && (
+          <button onClick={startCreating} className="px-3 py-1.5 rounded-md bg-slate-700 hover:bg-slate-600">New Drive</button>
+        )}
+      </div>
+
+      {isCreating && (
+        <div className="bg-slate-800/50 p-4 rounded-lg space-y-3">
+          <p className="font-semibold text-white">New Recruitment Drive</p>
+          <input value={title} onChange={e => setTitle(e.target.value)} className={inputClass} placeholder="Title" />
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            <label className="block">
+              <span className="block text-gray-400 text-xs mb-1">Opens</span>
+              <input type="datetime-local" value={opensAt} onChange={e => setOpensAt(e.target.value)} className={inputClass} />
+            </label>
+            <label className="block">
+              <span className="block text-gray-400 text-xs mb-1">Closes</span>
+              <input type="datetime-local" value={closesAt} onChange={e => setClosesAt(e.target.value)} className={inputClass} />
+            </label>
+          </div>
+          <div className="space-y-2">
+            <p className="text-gray-400 text-xs">Questions (copied from the club's defaults; fixed once the drive is created)</p>
+            {questions.map((question, i) => (
+              <div key={i} className="flex gap-2">
+                <input value={question} onChange={e => setQuestions(questions.map((q, j) => j === i ? e.target.value : q))} className={inputClass} />
+                <button onClick={() => setQuestions(questions.filter((_, j) => j !== i))} className="px-2 text-red-400 hover:text-red-300">&times;</button>
+              </div>
+            ))}
+            <button onClick={() => setQuestions([...questions, ''])} className="text-xs px-3 py-1 rounded-md bg-slate-700 hover:bg-slate-600">+ Add Question</button>
+          </div>
+          {error && <p className="text-red-400">{error}</p>}
+          <div className="flex gap-2">
+            <button onClick={handleCreate} disabled={isSaving || !title.trim() || !opensAt || !closesAt} className="px-4 py-2 font-semibold rounded-md bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50">
+              {isSaving ? 'Creating...' : 'Create Drive'}
+            </button>
+            <button onClick={() => setIsCreating(false)} className="px-4 py-2 rounded-md text-gray-400 hover:text-white">Cancel</button>
+          </div>
+        </div>
+      )}
+
+      {!isCreating && error && <p className="text-red-400">{error}</p>}
+
+      {selectedDrive && (
+        <div className="flex flex-wrap items-center justify-between gap-2 bg-slate-800/50 p-3 rounded-lg">
+          <div>
+            <span className={`inline-block px-2 py-0.5 rounded text-xs font-medium mr-2 ${STATUS_STYLES[getDriveStatus(selectedDrive)]}`}>
+              {getDriveStatus(selectedDrive) === 'closed' && selectedDrive.closedEarly ? 'closed early' : getDriveStatus(selectedDrive)}
+            </span>
+            <span className="text-gray-300">{formatDate(selectedDrive.opensAt)} – {formatDate(selectedDrive.closesAt)}</span>
+            <span className="text-gray-500"> · {selectedDrive.questions.length} question{selectedDrive.questions.length === 1 ? '' : 's'}</span>
+          </div>
+          {getDriveStatus(selectedDrive) !== 'closed' && (
+            <button onClick={() => handleClose(selectedDrive)} className="px-3 py-1 rounded-md bg-red-600/20 text-red-400 hover:bg-red-600/40">
+              {getDriveStatus(selectedDrive) === 'open' ? 'Close Now' : 'Cancel Drive'}
+            </button>
+          )}
+        </div>
+      )}
+
+      {stats.applicants > 0 && (
+        <div className="bg-slate-800/50 p-4 rounded-lg space-y-4">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-center">
+            <div><p className="text-2xl font-bold text-white">{stats.applicants}</p><p className="text-gray-400">Applicants</p></div>
+            <div><p className="text-2xl font-bold text-green-400">{stats.accepted}</p><p className="text-gray-400">Accepted</p></div>
+            <div><p className="text-2xl font-bold text-yellow-400">{stats.pending}</p><p className="text-gray-400">In progress</p></div>
+            <div><p className="text-2xl font-bold text-indigo-300">{stats.acceptanceRate}%</p><p className="text-gray-400">Acceptance rate</p></div>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <Breakdown title="By branch" counts={stats.byBranch} total={stats.applicants} />
+            <Breakdown title="By year" counts={stats.byYear} total={stats.applicants} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecruitmentDrivesPanel;
@@ -0,0 +1,196 @@
+import React, { useState, useMemo } from 'react';
+import { Application, ApplicationStage, Club, User } from '../types';
+import { clubApplicationsService } from '../services/firestoreDataService';
+import { APPLICATION_STAGES, APPLICATION_STAGE_LABELS, MEMBER_POSITIONS, getApplicationStage } from '../utils/recruitment';
+import ApplicationReviewModal from './ApplicationReviewModal';
+
+interface RecruitmentPipelineProps {
+  club: Club;
+  user: User | null;
+  applications: Application[];
+  onAccept: (application: Application, options: { position: string; grantManagement: boolean }) => Promise<void> | void;
+  onApplicationsChanged: () => void;
+}
+
+type PipelineView = ApplicationStage | 'closed';
+
+// Reviewer board for a club's applications: stage columns, bulk moves, reviews and acceptance
+const RecruitmentPipeline: React.FC<RecruitmentPipelineProps> = ({ club, user, applications, onAccept, onApplicationsChanged }) => {
+  const [view, setView] = useState<PipelineView>('screening');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [bulkStage, setBulkStage] = useState<ApplicationStage>('task');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reviewing, setReviewing] = useState<Application | null>(null);
+  const [accepting, setAccepting] = useState<Application | null>(null);
+  const [position, setPosition] = useState('Member');
+  const [grantManagement, setGrantManagement] = useState(false);
+
+  const pending = useMemo(() => applications.filter(app => app.status === 'pending'), [applications]);
+  const visible = useMemo(
+    () => view === 'closed'
+      ? applications.filter(app => app.status !== 'pending')
+      : pending.filter(app => getApplicationStage(app) === view),
+    [applications, pending, view]
+  );
+
+  const switchView = (next: PipelineView) => {
+    setView(next);
+    setSelected([]);
+    setError(null);
+    if (next !== 'closed') {
+      // Default the bulk move to the following round, or back one from the last
+      const index = APPLICATION_STAGES.indexOf(next);
+      setBulkStage(APPLICATION_STAGES[index + 1] || APPLICATION_STAGES[index - 1]);
+    }
+  };
+
+  const toggle = (id: string) =>
+    setSelected(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+
+  const runBulk = async (action: () => Promise<void>) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await action();
+      setSelected([]);
+      onApplicationsChanged();
+    } catch (err: any) {
+      console.error('Error updating applications:', err);
+      setError(err.message || 'Failed to update the selected applications.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleBulkMove = () => runBulk(() => clubApplicationsService.moveToStage(club.id, selected, bulkStage));
+
+  const handleBulkReject = () => {
+    if (!window.confirm(`Reject ${selected.length} application${selected.length === 1 ? '' : 's'}? Applicants are notified.`)) return;
+    runBulk(async () => {
+      for (const id of selected) {
+        await clubApplicationsService.updateStatus(club.id, id, 'rejected');
+      }
+    });
+  };
+
+  const handleAccept = async () => {
+    if (!accepting) return;
+    setIsWorking(true);
+    try {
+      await onAccept(accepting, { position, grantManagement });
+      setAccepting(null);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const openAccept = (app: Application) => {
+    setPosition('Member');
+    setGrantManagement(false);
+    setAccepting(app);
+  };
+
+  return (
+    <div className="space-y-4">
+      {reviewing && (
+        <ApplicationReviewModal
+          clubId={club.id}
+          application={reviewing}
+          user={user}
+          onClose={() => setReviewing(null)}
+          onScheduled={onApplicationsChanged}
+        />
+      )}
+      {accepting && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={() => setAccepting(null)}>
+          <div className="bg-slate-900 border border-slate-700 rounded-lg shadow-xl max-w-md w-full p-6 space-y-4 text-sm" onClick={e => e.stopPropagation()}>
+            <h3 className="text-xl font-bold text-white">Accept {accepting.userName}</h3>
+            <label className="block">
+              <span className="block text-gray-400 mb-1">Position on the team</span>
+              <select
+                value={position}
+                onChange={e => setPosition(e.target.value)}
+                className="w-full bg-slate-800 border border-slate-700 rounded-md px-2 py-1.5 text-white"
+              >
+                {MEMBER_POSITIONS.map(option => <option key={option} value={option}>{option}</option>)}
+              </select>
+              <span className="block text-xs text-gray-500 mt-1">Club leads can change the title and grant lead or coordinator roles later.</span>
+            </label>
+            <label className="flex items-start gap-2 text-gray-300">
+              <input type="checkbox" checked={grantManagement} onChange={e => setGrantManagement(e.target.checked)} className="mt-1" />
+              <span>Give club management access. Only for members who will run events and review applications.</span>
+            </label>
+            <div className="flex justify-end gap-3">
+              <button onClick={() => setAccepting(null)} className="px-4 py-2 rounded-md bg-slate-700 hover:bg-slate-600">Cancel</button>
+              <button onClick={handleAccept} disabled={isWorking} className="px-4 py-2 font-semibold rounded-md bg-green-600 hover:bg-green-700 disabled:opacity-50">
+                {isWorking ? 'Accepting...' : 'Accept'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {APPLICATION_STAGES.map(stage => (
+          <button
+            key={stage}
+            onClick={() => switchView(stage)}
+            className={`px-3 py-1.5 rounded-lg text-sm font-semibold ${view === stage ? 'bg-indigo-600' : 'bg-slate-800 hover:bg-slate-700'}`}
+          >
+            {APPLICATION_STAGE_LABELS[stage]} ({pending.filter(app => getApplicationStage(app) === stage).length})
+          </button>
+        ))}
+        <button onClick={() => switchView('closed')} className={`px-3 py-1.5 rounded-lg text-sm font-semibold ${view === 'closed' ? 'bg-indigo-600' : 'bg-slate-800 hover:bg-slate-700'}`}>
+          Decided ({applications.length - pending.length})
+        </button>
+      </div>
+
+      {view !== 'closed' && visible.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-sm bg-slate-800/50 p-3 rounded-lg">
+          <label className="flex items-center gap-2 mr-2">
+            <input
+              type="checkbox"
+              checked={selected.length === visible.length}
+              onChange={e => setSelected(e.target.checked ? visible.map(app => app.id) : [])}
+            />
+            {selected.length ? `${selected.length} selected` : 'Select all'}
+          </label>
+          <select value={bulkStage} onChange={e => setBulkStage(e.target.value as ApplicationStage)} className="bg-slate-800 border border-slate-700 rounded-md px-2 py-1 text-white">
+            {APPLICATION_STAGES.filter(stage => stage !== view).map(stage => <option key={stage} value={stage}>Move to {APPLICATION_STAGE_LABELS[stage]}</option>)}
+          </select>
+          <button onClick={handleBulkMove} disabled={isWorking || selected.length === 0 || bulkStage === view} className="px-3 py-1 rounded-md bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50">Move</button>
+          <button onClick={handleBulkReject} disabled={isWorking || selected.length === 0} className="px-3 py-1 rounded-md bg-red-600 hover:bg-red-700 disabled:opacity-50">Reject</button>
+        </div>
+      )}
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {visible.length === 0 ? (
+        <p className="text-gray-400">{view === 'closed' ? 'No decided applications yet.' : `No applications in ${APPLICATION_STAGE_LABELS[view].toLowerCase()}.`}</p>
+      ) : visible.map(app => (
+        <div key={app.id} className="bg-slate-800/50 p-3 rounded-lg flex justify-between items-center gap-3">
+          <div className="flex items-center gap-3 min-w-0">
+            {view !== 'closed' && <input type="checkbox" checked={selected.includes(app.id)} onChange={() => toggle(app.id)} />}
+            <img src={app.userImageUrl} alt={app.userName} className="w-10 h-10 rounded-full" />
+            <div className="min-w-0">
+              <p className="font-semibold truncate">{app.userName}</p>
+              <p className="text-xs text-gray-400 truncate">
+                {app.userBranch} - {app.userYear}
+                {view === 'closed' && ` · ${app.status === 'accepted' ? `Accepted${app.grantedPosition ? ` as ${app.grantedPosition}` : ''}` : 'Rejected'}`}
+                {view !== 'closed' && app.interviewSlot && ` · Interview ${new Date(app.interviewSlot.start).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' })}`}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <button onClick={() => setReviewing(app)} className="text-xs px-3 py-1.5 rounded-md bg-slate-700 hover:bg-slate-600">{view === 'closed' ? 'View' : 'Review'}</button>
+            {view === 'offer' && (
+              <button onClick={() => openAccept(app)} className="text-xs px-3 py-1.5 rounded-md bg-green-600 hover:bg-green-700">Accept</button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default RecruitmentPipeline;
@@ -0,0 +1,192 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Event, User } from '../types';
+import { EventRegistration, EventPaymentRecord, EventRefundReason } from '../services/eventRegistrationService';
+import { paymentConfigService, RefundRules } from '../services/paymentConfigService';
+import { refundService } from '../services/refundService';
+
+interface RefundModalProps {
+  event: Event;
+  registration: EventRegistration;
+  user: User | null;
+  onClose: () => void;
+  onRefunded: () => void;
+}
+
+const RefundModal: React.FC<RefundModalProps> = ({ event, registration, user, onClose, onRefunded }) => {
+  const [payment, setPayment] = useState<EventPaymentRecord | null>(null);
+  const [rules, setRules] = useState<RefundRules | undefined>(undefined);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reason, setReason] = useState<EventRefundReason>('registration_cancelled');
+  const [amount, setAmount] = useState('');
+  const [note, setNote] = useState('');
+  const [cancelRegistration, setCancelRegistration] = useState(registration.status !== 'cancelled');
+
+  useEffect(() => {
+    const load = async () => {
+      setIsLoading(true);
+      const [paymentRecord, config] = await Promise.all([
+        refundService.getPaymentForRegistration(registration),
+        paymentConfigService.getEventPaymentConfig(event.id),
+      ]);
+      setPayment(paymentRecord);
+      setRules(config?.refundRules);
+      setIsLoading(false);
+    };
+    load();
+  }, [registration.id, event.id]);
+
+  const quote = useMemo(
+    () => payment ? refundService.getRefundQuote(rules, event, payment.amount, reason) : null,
+    [payment, rules, event, reason]
+  );
+
+  // Default to the most the policy allows whenever the reason changes
+  useEffect(() => {
+    if (quote) setAmount(String(quote.maxAmount));
+  }, [quote?.maxAmount]);
+
+  const existingRefund = payment?.refund && payment.refund.state !== 'failed' ? payment.refund : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user?.id) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await refundService.issueRefund({
+        event,
+        registration,
+        amount: Number(amount),
+        reason,
+        note: note.trim() || undefined,
+        cancelRegistration,
+      });
+      onRefunded();
+      onClose();
+    } catch (err: any) {
+      console.error('Error issuing refund:', err);
+      setError(err.message || 'Failed to issue refund');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-slate-700 flex justify-between items-center">
+          <h2 className="text-2xl font-bold text-white">Issue Refund</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors" disabled={isSubmitting}>
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6">
+          {isLoading ? (
+            <div className="text-center py-8">
+              <div className="animate-spin h-8 w-8 border-2 border-indigo-500 border-t-transparent rounded-full mx-auto"></div>
+            </div>
+          ) : !payment ? (
+            <p className="text-gray-400">No payment record was found for {registration.userName}.</p>
+          ) : existingRefund ? (
+            <div className="bg-slate-800/50 p-4 rounded-lg text-sm">
+              <p className="text-white">A refund of ₹{existingRefund.amount} is already <span className="font-semibold">{existingRefund.state}</span>.</p>
+              <p className="text-gray-400 mt-1">Started {new Date(existingRefund.requestedAt).toLocaleString()}</p>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="flex justify-between items-center bg-slate-800/50 p-4 rounded-lg">
+                <div>
+                  <p className="text-white font-semibold">{registration.userName}</p>
+                  <p className="text-xs text-gray-400">{payment.paymentId}</p>
+                </div>
+                <span className="text-green-400 font-bold text-lg">₹{payment.amount}</span>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-2">Reason</label>
+                <select
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value as EventRefundReason)}
+                  className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md text-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                >
+                  <option value="registration_cancelled">Registration cancelled</option>
+                  <option value="event_cancelled">Event cancelled</option>
+                </select>
+              </div>
+
+              {quote && (
+                <div className={`px-4 py-3 rounded-lg text-sm border ${
+                  quote.eligible ? 'bg-indigo-500/10 border-indigo-500/30 text-indigo-300' : 'bg-red-500/20 border-red-500/50 text-red-400'
+                }`}>
+                  {quote.message}
+                  {quote.eligible && <span className="block text-xs mt-1">Up to ₹{quote.maxAmount} can be refunded.</span>}
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-2">Refund Amount (₹)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  max={quote?.maxAmount}
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  disabled={!quote?.eligible}
+                  className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md text-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 disabled:opacity-50"
+                />
+                {quote?.eligible && Number(amount) < quote.maxAmount && (
+                  <p className="text-xs text-yellow-400 mt-1">Partial refund</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-2">Note (optional)</label>
+                <input
+                  type="text"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="Shown on the refund record"
+                  className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md text-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                />
+              </div>
+
+              {registration.status !== 'cancelled' && (
+                <label className="flex items-center gap-2 text-sm text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={cancelRegistration}
+                    onChange={(e) => setCancelRegistration(e.target.checked)}
+                    className="rounded bg-slate-700 border-slate-600 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  Also cancel the registration and free the seat
+                </label>
+              )}
+
+              {error && (
+                <div className="bg-red-500/20 border border-red-500/50 text-red-400 px-4 py-3 rounded-lg text-sm">
+                  {error}
+                </div>
+              )}
+
+              <button
+                type="submit"
+                disabled={isSubmitting || !quote?.eligible || !user?.id}
+                className="w-full bg-red-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+              >
+                {isSubmitting ? 'Processing...' : `Refund ₹${amount || 0}`}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RefundModal;
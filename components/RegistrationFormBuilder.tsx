@@ -0,0 +1,156 @@
+import React from 'react';
+import { RegistrationField, RegistrationFieldType } from '../types';
+import { REGISTRATION_FIELD_TYPE_LABELS } from '../utils/registrationForm';
+
+interface RegistrationFormBuilderProps {
+  fields: RegistrationField[];
+  onChange: (fields: RegistrationField[]) => void;
+}
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-md px-2 py-1.5 text-white text-sm';
+const newId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+const optionalNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+// Values a later question can be conditioned on
+const conditionValues = (field: RegistrationField): string[] | null => {
+  if (field.type === 'choice') return field.options || [];
+  if (field.type === 'checkbox') return field.options?.length ? field.options : ['Yes', 'No'];
+  return null;
+};
+
+// Organizer editor for the extra questions an event asks at registration; lives inside the event form
+const RegistrationFormBuilder: React.FC<RegistrationFormBuilderProps> = ({ fields, onChange }) => {
+  const update = (id: string, changes: Partial<RegistrationField>) =>
+    onChange(fields.map(field => field.id === id ? { ...field, ...changes } : field));
+
+  const updateValidation = (field: RegistrationField, changes: NonNullable<RegistrationField['validation']>) =>
+    update(field.id, { validation: { ...field.validation, ...changes } });
+
+  const move = (index: number, offset: number) => {
+    const next = [...fields];
+    const [field] = next.splice(index, 1);
+    next.splice(index + offset, 0, field);
+    onChange(next);
+  };
+
+  const remove = (id: string) =>
+    // Questions that depended on the removed one become unconditional
+    onChange(fields.filter(field => field.id !== id).map(field => field.showIf?.fieldId === id ? { ...field, showIf: undefined } : field));
+
+  const addField = () =>
+    onChange([...fields, { id: newId(), label: '', type: 'text', required: false }]);
+
+  const renderValidation = (field: RegistrationField) => {
+    const rules = field.validation || {};
+    switch (field.type) {
+      case 'text':
+        return (
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            <input type="number" min="1" value={rules.maxLength ?? ''} onChange={e => updateValidation(field, { maxLength: optionalNumber(e.target.value) })} className={inputClass} placeholder="Max length" />
+            <input value={rules.pattern || ''} onChange={e => updateValidation(field, { pattern: e.target.value || undefined })} className={`${inputClass} font-mono`} placeholder="Pattern, e.g. [0-9]{10}" />
+            <input value={rules.patternMessage || ''} onChange={e => updateValidation(field, { patternMessage: e.target.value || undefined })} className={inputClass} placeholder="Message when it doesn't match" />
+          </div>
+        );
+      case 'number':
+        return (
+          <div className="grid grid-cols-2 gap-2">
+            <input type="number" value={rules.min ?? ''} onChange={e => updateValidation(field, { min: optionalNumber(e.target.value) })} className={inputClass} placeholder="Minimum" />
+            <input type="number" value={rules.max ?? ''} onChange={e => updateValidation(field, { max: optionalNumber(e.target.value) })} className={inputClass} placeholder="Maximum" />
+          </div>
+        );
+      case 'date':
+        return (
+          <div className="grid grid-cols-2 gap-2">
+            <input type="date" value={rules.minDate || ''} onChange={e => updateValidation(field, { minDate: e.target.value || undefined })} className={inputClass} title="Earliest date" />
+            <input type="date" value={rules.maxDate || ''} onChange={e => updateValidation(field, { maxDate: e.target.value || undefined })} className={inputClass} title="Latest date" />
+          </div>
+        );
+      case 'file':
+        return (
+          <div className="grid grid-cols-2 gap-2">
+            <input value={rules.accept || ''} onChange={e => updateValidation(field, { accept: e.target.value || undefined })} className={inputClass} placeholder="Allowed types, e.g. .pdf,image/*" />
+            <input type="number" min="1" value={rules.maxSizeMb ?? ''} onChange={e => updateValidation(field, { maxSizeMb: optionalNumber(e.target.value) })} className={inputClass} placeholder="Max size (MB)" />
+          </div>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold text-gray-300 mb-1">Registration Form (Optional)</h3>
+      <p className="text-sm text-gray-400 mb-3">Extra questions attendees answer when registering. Answers appear as columns in the registrations export.</p>
+      <div className="space-y-4">
+        {fields.map((field, index) => {
+          const earlier = fields.slice(0, index).filter(f => conditionValues(f) !== null);
+          const parent = field.showIf ? fields.find(f => f.id === field.showIf!.fieldId) : undefined;
+          return (
+            <div key={field.id} className="p-3 bg-slate-800/50 rounded-lg space-y-2 text-sm">
+              <div className="flex gap-2">
+                <input value={field.label} onChange={e => update(field.id, { label: e.target.value })} className={inputClass} placeholder="Question" />
+                <select
+                  value={field.type}
+                  onChange={e => update(field.id, { type: e.target.value as RegistrationFieldType, validation: undefined })}
+                  className={`${inputClass} w-40`}
+                >
+                  {(Object.keys(REGISTRATION_FIELD_TYPE_LABELS) as RegistrationFieldType[]).map(type => (
+                    <option key={type} value={type}>{REGISTRATION_FIELD_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+                <button type="button" onClick={() => move(index, -1)} disabled={index === 0} className="px-2 text-gray-400 hover:text-white disabled:opacity-30">&uarr;</button>
+                <button type="button" onClick={() => move(index, 1)} disabled={index === fields.length - 1} className="px-2 text-gray-400 hover:text-white disabled:opacity-30">&darr;</button>
+                <button type="button" onClick={() => remove(field.id)} className="px-2 text-red-400 hover:text-red-300">&times;</button>
+              </div>
+              <input value={field.helpText || ''} onChange={e => update(field.id, { helpText: e.target.value || undefined })} className={inputClass} placeholder="Help text (optional)" />
+              {(field.type === 'choice' || field.type === 'checkbox') && (
+                <textarea
+                  value={(field.options || []).join('\n')}
+                  onChange={e => update(field.id, { options: e.target.value.split('\n') })}
+                  onBlur={() => update(field.id, { options: (field.options || []).map(o => o.trim()).filter(Boolean) })}
+                  rows={3}
+                  className={inputClass}
+                  placeholder={field.type === 'checkbox' ? 'One option per line; leave empty for a single tick box' : 'One option per line'}
+                />
+              )}
+              {renderValidation(field)}
+              <div className="flex flex-wrap items-center gap-3">
+                <label className="flex items-center gap-2 text-gray-300">
+                  <input type="checkbox" checked={field.required} onChange={e => update(field.id, { required: e.target.checked })} /> Required
+                </label>
+                {earlier.length > 0 && (
+                  <div className="flex items-center gap-2 text-gray-300">
+                    <span>Show only if</span>
+                    <select
+                      value={field.showIf?.fieldId || ''}
+                      onChange={e => {
+                        const source = fields.find(f => f.id === e.target.value);
+                        update(field.id, { showIf: source ? { fieldId: source.id, equals: conditionValues(source)?.[0] || '' } : undefined });
+                      }}
+                      className={`${inputClass} w-44`}
+                    >
+                      <option value="">Always shown</option>
+                      {earlier.map(f => <option key={f.id} value={f.id}>{f.label || 'Untitled'}</option>)}
+                    </select>
+                    {parent && (
+                      <>
+                        <span>is</span>
+                        <select value={field.showIf!.equals} onChange={e => update(field.id, { showIf: { fieldId: parent.id, equals: e.target.value } })} className={`${inputClass} w-36`}>
+                          {(conditionValues(parent) || []).map(value => <option key={value} value={value}>{value}</option>)}
+                        </select>
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+        <button type="button" onClick={addField} className="px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition-colors text-sm">Add Question</button>
+      </div>
+    </div>
+  );
+};
+
+export default RegistrationFormBuilder;
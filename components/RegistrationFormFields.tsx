@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { RegistrationField, RegistrationFormResponses, RegistrationAnswer } from '../types';
+import { uploadRegistrationFile } from '../services/firebaseStorageService';
+import { getVisibleFields } from '../utils/registrationForm';
+
+interface RegistrationFormFieldsProps {
+  fields: RegistrationField[];
+  answers: RegistrationFormResponses;
+  errors: Record<string, string>;
+  onChange: (answers: RegistrationFormResponses) => void;
+  upload: { clubId: string; eventId: string; userId: string };
+  onUploadingChange?: (uploading: boolean) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-md text-white placeholder-gray-500 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500';
+
+// Renders an event's registration questions; hidden questions appear as their conditions are met
+const RegistrationFormFields: React.FC<RegistrationFormFieldsProps> = ({ fields, answers, errors, onChange, upload, onUploadingChange }) => {
+  const [uploadingId, setUploadingId] = useState<string | null>(null);
+  const [uploadErrors, setUploadErrors] = useState<Record<string, string>>({});
+
+  const setAnswer = (fieldId: string, value: RegistrationAnswer | undefined) => {
+    const next = { ...answers };
+    if (value === undefined) delete next[fieldId];
+    else next[fieldId] = value;
+    onChange(next);
+  };
+
+  const handleFile = async (field: RegistrationField, file: File | undefined) => {
+    if (!file) return;
+    const maxSizeMb = field.validation?.maxSizeMb;
+    if (maxSizeMb && file.size > maxSizeMb * 1024 * 1024) {
+      setUploadErrors(prev => ({ ...prev, [field.id]: `Files must be under ${maxSizeMb} MB.` }));
+      return;
+    }
+    setUploadErrors(prev => ({ ...prev, [field.id]: '' }));
+    setUploadingId(field.id);
+    onUploadingChange?.(true);
+    try {
+      const url = await uploadRegistrationFile(file, upload.clubId, upload.eventId, upload.userId);
+      setAnswer(field.id, { name: file.name, url });
+    } catch (error: any) {
+      console.error('Error uploading registration file:', error);
+      setUploadErrors(prev => ({ ...prev, [field.id]: error.message || 'Upload failed.' }));
+    } finally {
+      setUploadingId(null);
+      onUploadingChange?.(false);
+    }
+  };
+
+  const renderInput = (field: RegistrationField) => {
+    const value = answers[field.id];
+    switch (field.type) {
+      case 'text':
+        return (
+          <input
+            type="text"
+            value={typeof value === 'string' ? value : ''}
+            maxLength={field.validation?.maxLength}
+            onChange={e => setAnswer(field.id, e.target.value)}
+            className={inputClass}
+          />
+        );
+      case 'number':
+        return (
+          <input
+            type="number"
+            value={typeof value === 'number' || typeof value === 'string' ? value : ''}
+            min={field.validation?.min}
+            max={field.validation?.max}
+            onChange={e => setAnswer(field.id, e.target.value === '' ? undefined : Number(e.target.value))}
+            className={inputClass}
+          />
+        );
+      case 'date':
+        return (
+          <input
+            type="date"
+            value={typeof value === 'string' ? value : ''}
+            min={field.validation?.minDate}
+            max={field.validation?.maxDate}
+            onChange={e => setAnswer(field.id, e.target.value || undefined)}
+            className={inputClass}
+          />
+        );
+      case 'choice':
+        return (
+          <select value={typeof value === 'string' ? value : ''} onChange={e => setAnswer(field.id, e.target.value || undefined)} className={inputClass}>
+            <option value="">Select...</option>
+            {(field.options || []).map(option => <option key={option} value={option}>{option}</option>)}
+          </select>
+        );
+      case 'checkbox': {
+        if (!field.options?.length) {
+          return (
+            <label className="flex items-center gap-2 text-white">
+              <input type="checkbox" checked={value === true} onChange={e => setAnswer(field.id, e.target.checked)} />
+              {field.label}{field.required && <span className="text-red-400">*</span>}
+            </label>
+          );
+        }
+        const selected = Array.isArray(value) ? value : [];
+        return (
+          <div className="space-y-1">
+            {field.options.map(option => (
+              <label key={option} className="flex items-center gap-2 text-white">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(option)}
+                  onChange={e => setAnswer(field.id, e.target.checked ? [...selected, option] : selected.filter(o => o !== option))}
+                />
+                {option}
+              </label>
+            ))}
+          </div>
+        );
+      }
+      case 'file': {
+        const file = value && typeof value === 'object' && !Array.isArray(value) ? value : null;
+        return (
+          <div className="flex items-center gap-3 text-sm">
+            <label className="px-3 py-2 rounded-md bg-slate-700 text-white hover:bg-slate-600 cursor-pointer">
+              {uploadingId === field.id ? 'Uploading...' : file ? 'Replace File' : 'Choose File'}
+              <input
+                type="file"
+                accept={field.validation?.accept}
+                className="hidden"
+                disabled={!!uploadingId}
+                onChange={e => handleFile(field, e.target.files?.[0])}
+              />
+            </label>
+            {file && <a href={file.url} target="_blank" rel="noopener noreferrer" className="text-indigo-400 hover:text-indigo-300 truncate">{file.name}</a>}
+          </div>
+        );
+      }
+      default:
+        return null;
+    }
+  };
+
+  const visible = getVisibleFields(fields, answers);
+  if (visible.length === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      {visible.map(field => {
+        const singleTick = field.type === 'checkbox' && !field.options?.length;
+        const error = errors[field.id] || uploadErrors[field.id];
+        return (
+          <div key={field.id}>
+            {!singleTick && (
+              <label className="block text-sm font-medium text-gray-400 mb-2">
+                {field.label}{field.required && <span className="text-red-400"> *</span>}
+              </label>
+            )}
+            {renderInput(field)}
+            {field.helpText && <p className="text-xs text-gray-500 mt-1">{field.helpText}</p>}
+            {error && <p className="text-xs text-red-400 mt-1">{error}</p>}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default RegistrationFormFields;
@@ -1,6 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { Event, User } from '../types';
 import { eventRegistrationService, EventRegistration } from '../services/eventRegistrationService';
+import { ticketService } from '../services/ticketService';
+import { invoiceService } from '../services/invoiceService';
+import { downloadInvoicesPdf } from '../utils/invoicePdf';
+import TicketQRCode from './TicketQRCode';
+import TeamPanel from './TeamPanel';
+import { formatRegistrationAnswer } from '../utils/registrationForm';
 
 interface RegistrationStatusBannerProps {
   event: Event;
@@ -15,6 +21,9 @@ const RegistrationStatusBanner: React.FC<RegistrationStatusBannerProps> = ({
 }) => {
   const [registration, setRegistration] = useState<EventRegistration | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [waitlistRank, setWaitlistRank] = useState<number | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [isDownloadingInvoice, setIsDownloadingInvoice] = useState(false);
 
   useEffect(() => {
     if (user && event) {
@@ -29,10 +38,21 @@ const RegistrationStatusBanner: React.FC<RegistrationStatusBannerProps> = ({
       setIsLoading(true);
       // FIX: Always pass clubId to isUserRegisteredWithUser
       const isRegistered = await eventRegistrationService.isUserRegisteredWithUser(event.id, user!, event.organizerClubId);
-      
-      // Don't fetch full registration details - just set the status
-      // This eliminates unnecessary guest registration queries
-      setRegistration(null);
+      if (!isRegistered || !user!.id) {
+        setRegistration(null);
+        return;
+      }
+
+      // Only registered users need full details, so this doesn't add queries for everyone else
+      const [latest] = await eventRegistrationService.getUserRegistrations(user!.id, event.organizerClubId, event.id);
+      if (latest && latest.status === 'confirmed' && !latest.qrCode) {
+        // Registrations made before ticketing get their ticket issued on first view
+        const qrCode = await ticketService.ensureTicket(latest);
+        setRegistration({ ...latest, qrCode: qrCode || undefined });
+      } else {
+        setRegistration(latest || null);
+      }
+      setWaitlistRank(latest ? await eventRegistrationService.getWaitlistRank(latest) : null);
     } catch (error) {
       console.error('Error checking registration status:', error);
     } finally {
@@ -40,6 +60,43 @@ const RegistrationStatusBanner: React.FC<RegistrationStatusBannerProps> = ({
     }
   };
 
+  const handleCancelRegistration = async () => {
+    if (!registration?.id) return;
+    if (!window.confirm('Cancel your registration for this event?')) return;
+
+    setIsCancelling(true);
+    try {
+      await eventRegistrationService.cancelRegistration(
+        registration.id,
+        event.organizerClubId,
+        event.id,
+        registration.isGuest || false
+      );
+      setRegistration({ ...registration, status: 'cancelled' });
+      setWaitlistRank(null);
+      onRegistrationUpdate?.();
+    } catch (error) {
+      console.error('Error cancelling registration:', error);
+      alert('Failed to cancel registration. Please try again.');
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  const handleDownloadInvoice = async () => {
+    if (!registration) return;
+    setIsDownloadingInvoice(true);
+    try {
+      const invoice = await invoiceService.getInvoice(registration, event.organizerClubId);
+      if (invoice) downloadInvoicesPdf([invoice], invoice.number.replace(/\//g, '-'));
+    } catch (error) {
+      console.error('Error downloading invoice:', error);
+      alert('Could not get your invoice. Please try again.');
+    } finally {
+      setIsDownloadingInvoice(false);
+    }
+  };
+
   if (!user || isLoading || !registration) {
     return null;
   }
@@ -72,6 +129,21 @@ const RegistrationStatusBanner: React.FC<RegistrationStatusBannerProps> = ({
           title: 'Registration Pending',
           message: 'Your registration is being reviewed. You will be notified once it\'s confirmed.'
         };
+      case 'waitlisted':
+        return {
+          bgColor: 'bg-yellow-500/10',
+          borderColor: 'border-yellow-500/30',
+          textColor: 'text-yellow-400',
+          icon: (
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+          ),
+          title: 'You\'re on the Waitlist',
+          message: waitlistRank
+            ? `This event is full. You are #${waitlistRank} on the waitlist and will be notified if a seat opens up.`
+            : 'This event is full. You will be notified if a seat opens up.'
+        };
       case 'cancelled':
         return {
           bgColor: 'bg-red-500/10',
@@ -138,7 +210,7 @@ const RegistrationStatusBanner: React.FC<RegistrationStatusBannerProps> = ({
               <div>
                 <span className="text-gray-400">Status:</span>
                 <span className={`ml-2 px-2 py-1 rounded text-xs font-medium ${
-                  registration.status === 'pending' ? 'bg-yellow-500/20 text-yellow-400' : 'bg-red-500/20 text-red-400'
+                  registration.status === 'pending' || registration.status === 'waitlisted' ? 'bg-yellow-500/20 text-yellow-400' : 'bg-red-500/20 text-red-400'
                 }`}>
                   {registration.status.charAt(0).toUpperCase() + registration.status.slice(1)}
                 </span>
@@ -168,6 +240,27 @@ const RegistrationStatusBanner: React.FC<RegistrationStatusBannerProps> = ({
             )} */}
           </div>
 
+          {/* Entry ticket */}
+          {registration.status === 'confirmed' && registration.qrCode && (
+            <div className="mt-4 flex flex-col sm:flex-row items-center gap-4 p-3 bg-black/20 rounded">
+              <TicketQRCode value={registration.qrCode} size={160} />
+              <div className="text-sm">
+                <p className="text-white font-semibold">Your Entry Ticket</p>
+                <p className="text-gray-400 mt-1">
+                  Show this QR code at the venue. Coordinators will scan it to check you in.
+                </p>
+                {registration.checkInStatus === 'checked_in' && (
+                  <span className="inline-block mt-2 px-2 py-1 rounded text-xs font-medium bg-green-500/20 text-green-400">Checked In</span>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Team roster and captain controls */}
+          {registration.teamId && registration.status !== 'cancelled' && (
+            <TeamPanel event={event} user={user} teamId={registration.teamId} />
+          )}
+
           {/* Additional Info */}
           {registration.additionalInfo && (
             <div className="mt-3 p-3 bg-black/20 rounded">
@@ -176,6 +269,18 @@ const RegistrationStatusBanner: React.FC<RegistrationStatusBannerProps> = ({
             </div>
           )}
 
+          {/* Answers to the event's registration form */}
+          {registration.formResponses && (event.registrationForm || []).some(field => registration.formResponses![field.id] !== undefined) && (
+            <dl className="mt-3 p-3 bg-black/20 rounded text-sm space-y-1">
+              {(event.registrationForm || []).filter(field => registration.formResponses![field.id] !== undefined).map(field => (
+                <div key={field.id} className="flex gap-2">
+                  <dt className="text-gray-400">{field.label}:</dt>
+                  <dd className="text-white">{formatRegistrationAnswer(registration.formResponses![field.id])}</dd>
+                </div>
+              ))}
+            </dl>
+          )}
+
           {/* Action Buttons */}
           <div className="mt-4 flex gap-3">
             {/* WhatsApp group link button for confirmed registrations */}
@@ -184,6 +289,25 @@ const RegistrationStatusBanner: React.FC<RegistrationStatusBannerProps> = ({
                 Join WhatsApp Group
               </a>
             )}
+            {(registration.paymentStatus === 'paid' || registration.paymentStatus === 'refunded') && !isFree && (
+              <button
+                onClick={handleDownloadInvoice}
+                disabled={isDownloadingInvoice}
+                className="px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition-colors text-sm disabled:opacity-50"
+              >
+                {isDownloadingInvoice ? 'Preparing...' : 'Download Invoice'}
+              </button>
+            )}
+            {/* Paid registrations go through the refund process instead */}
+            {(registration.status === 'confirmed' || registration.status === 'waitlisted') && registration.paymentStatus !== 'paid' && (
+              <button
+                onClick={handleCancelRegistration}
+                disabled={isCancelling}
+                className="px-4 py-2 bg-red-600/80 text-white rounded-lg hover:bg-red-700 transition-colors text-sm disabled:opacity-50"
+              >
+                {isCancelling ? 'Cancelling...' : registration.status === 'waitlisted' ? 'Leave Waitlist' : 'Cancel Registration'}
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,192 @@
+import React, { useState, useMemo } from 'react';
+import { AnnualEvent, SportCompetition, SportGender, SportRosterMember, User } from '../types';
+import { firestoreDataService } from '../services/firestoreDataService';
+import { sportsRegistrationService, getEntryProblems } from '../services/sportsRegistrationService';
+
+interface SportRegistrationModalProps {
+  annualEvent: AnnualEvent;
+  festYear: number;
+  competition: SportCompetition;
+  user: User;
+  onClose: () => void;
+  onRegistered: () => void;
+}
+
+const GENDER_LABELS: Record<SportGender, string> = { male: 'Male', female: 'Female', other: 'Other' };
+
+const toRosterMember = (student: User, gender: SportGender): SportRosterMember => ({
+  userId: student.id!,
+  name: student.name,
+  rollNumber: student.rollNumber || '',
+  ...(student.year ? { year: student.year } : {}),
+  ...(student.branch ? { branch: student.branch } : {}),
+  gender,
+});
+
+const SportRegistrationModal: React.FC<SportRegistrationModalProps> = ({ annualEvent, festYear, competition, user, onClose, onRegistered }) => {
+  const isBranchEntry = competition.entryType === 'branch';
+  const eligibility = competition.eligibility;
+  const defaultGender: SportGender = eligibility?.genderCategory === 'women' ? 'female' : 'male';
+
+  const [entryName, setEntryName] = useState(isBranchEntry ? user.branch || '' : '');
+  const [roster, setRoster] = useState<SportRosterMember[]>([toRosterMember(user, defaultGender)]);
+  const [rollNumber, setRollNumber] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const problems = useMemo(() => getEntryProblems(competition, roster), [competition, roster]);
+  const isFull = !!eligibility && roster.length >= eligibility.maxRosterSize;
+
+  const handleAddMember = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!rollNumber.trim()) return;
+    setIsAdding(true);
+    setError(null);
+    try {
+      const student = await firestoreDataService.getStudentByRollNumber(rollNumber.trim());
+      if (!student?.id) {
+        setError(`No student found with roll number ${rollNumber.trim()}.`);
+      } else if (roster.some(member => member.userId === student.id)) {
+        setError(`${student.name} is already on the roster.`);
+      } else if (isBranchEntry && student.branch !== user.branch) {
+        setError(`${student.name} is not in ${user.branch}.`);
+      } else {
+        setRoster(prev => [...prev, toRosterMember(student, defaultGender)]);
+        setRollNumber('');
+      }
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const updateGender = (userId: string, gender: SportGender) => {
+    setRoster(prev => prev.map(member => member.userId === userId ? { ...member, gender } : member));
+  };
+
+  const handleSubmit = async () => {
+    if (!entryName.trim()) {
+      setError(isBranchEntry ? 'Your profile has no branch; update it before entering.' : 'Give your team a name.');
+      return;
+    }
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await sportsRegistrationService.registerEntry(annualEvent, festYear, competition, {
+        entryName,
+        ...(isBranchEntry ? { branch: entryName } : {}),
+        roster,
+      });
+      onRegistered();
+    } catch (err: any) {
+      console.error('Error registering sport entry:', err);
+      setError(err.message || 'Failed to register your entry.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4 animate-backdrop-fade-in" onClick={onClose}>
+      <div className="bg-slate-900 border border-slate-700 rounded-lg shadow-xl max-w-lg w-full max-h-[85vh] flex flex-col animate-form-enter" onClick={e => e.stopPropagation()}>
+        <div className="p-5 border-b border-slate-700 flex justify-between items-center flex-shrink-0">
+          <h3 className="text-xl font-bold text-white">{competition.icon} Enter {competition.name}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl">&times;</button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-5">
+          {eligibility && (
+            <p className="text-sm text-gray-400">
+              {eligibility.minRosterSize === eligibility.maxRosterSize ? eligibility.minRosterSize : `${eligibility.minRosterSize}-${eligibility.maxRosterSize}`} players
+              {' · '}{eligibility.genderCategory === 'open' ? 'Open to all' : `${eligibility.genderCategory.charAt(0).toUpperCase()}${eligibility.genderCategory.slice(1)}`}
+              {eligibility.years?.length ? ` · ${eligibility.years.join(', ')}` : ''}
+              {competition.registrationDeadline && ` · Closes ${new Date(competition.registrationDeadline).toLocaleString()}`}
+            </p>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">{isBranchEntry ? 'Branch' : 'Team Name'}</label>
+            <input
+              type="text"
+              value={entryName}
+              onChange={e => setEntryName(e.target.value)}
+              disabled={isBranchEntry}
+              className="w-full bg-slate-800 border border-slate-700 rounded-md px-3 py-2 text-white disabled:opacity-60"
+            />
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-gray-300 mb-2">Roster ({roster.length}{eligibility ? ` / ${eligibility.maxRosterSize}` : ''})</p>
+            <ul className="space-y-2">
+              {roster.map(member => (
+                <li key={member.userId} className="flex items-center justify-between gap-3 p-2 bg-slate-800/50 rounded-md text-sm">
+                  <div>
+                    <p className="text-white">
+                      {member.name}
+                      {member.userId === user.id && <span className="ml-2 px-2 py-0.5 rounded text-xs font-medium bg-indigo-500/20 text-indigo-300">Captain</span>}
+                    </p>
+                    <p className="text-xs text-gray-400">{member.rollNumber}{member.year ? ` · ${member.year}` : ''}{member.branch ? ` · ${member.branch}` : ''}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={member.gender}
+                      onChange={e => updateGender(member.userId, e.target.value as SportGender)}
+                      className="bg-slate-800 border border-slate-700 rounded-md px-2 py-1 text-xs text-white"
+                    >
+                      {(Object.keys(GENDER_LABELS) as SportGender[]).map(gender => (
+                        <option key={gender} value={gender}>{GENDER_LABELS[gender]}</option>
+                      ))}
+                    </select>
+                    {member.userId !== user.id && (
+                      <button
+                        onClick={() => setRoster(prev => prev.filter(m => m.userId !== member.userId))}
+                        className="text-red-400 hover:text-red-300 text-xs px-2 py-1 rounded bg-red-500/10"
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+
+            {!isFull && (
+              <form onSubmit={handleAddMember} className="mt-3 flex gap-2">
+                <input
+                  type="text"
+                  value={rollNumber}
+                  onChange={e => setRollNumber(e.target.value)}
+                  placeholder="Add player by roll number"
+                  className="flex-1 bg-slate-800 border border-slate-700 rounded-md px-3 py-2 text-sm text-white"
+                />
+                <button type="submit" disabled={isAdding} className="px-4 py-2 text-sm font-semibold rounded-md bg-slate-700 text-white hover:bg-slate-600 disabled:opacity-50">
+                  {isAdding ? 'Adding...' : 'Add'}
+                </button>
+              </form>
+            )}
+          </div>
+
+          {problems.length > 0 && (
+            <ul className="text-sm text-yellow-400 space-y-1">
+              {problems.map(problem => <li key={problem}>{problem}</li>)}
+            </ul>
+          )}
+          {error && <p className="text-sm text-red-400">{error}</p>}
+        </div>
+
+        <div className="p-5 border-t border-slate-700 flex justify-end gap-3 flex-shrink-0">
+          <button onClick={onClose} className="px-4 py-2 text-sm rounded-md bg-slate-700 text-gray-200 hover:bg-slate-600">Cancel</button>
+          <button
+            onClick={handleSubmit}
+            disabled={isSubmitting || problems.length > 0}
+            className="px-5 py-2 text-sm font-bold rounded-md bg-green-600 text-white hover:bg-green-700 disabled:bg-slate-600 disabled:text-gray-400 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? 'Submitting...' : 'Submit Entry'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SportRegistrationModal;
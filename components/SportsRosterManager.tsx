@@ -0,0 +1,300 @@
+import React, { useEffect, useState } from 'react';
+import {
+  AnnualEvent,
+  AnnualEventYearlyData,
+  SportCompetition,
+  SportEligibility,
+  SportEntry,
+  SportEntryStatus,
+  SportEntryType,
+  SportGenderCategory,
+  SportResult,
+} from '../types';
+import { sportsRegistrationService } from '../services/sportsRegistrationService';
+import { DEFAULT_EVENT_TIME_ZONE, isoToZonedParts, zonedTimeToIso } from '../utils/eventSchedule';
+
+interface SportsRosterManagerProps {
+  annualEvent: AnnualEvent;
+  festYear: number;
+  competition: SportCompetition;
+  onClose: () => void;
+  onCompetitionUpdated: (yearlyData: AnnualEventYearlyData[]) => void;
+}
+
+const YEARS = ['1st Year', '2nd Year', '3rd Year', '4th Year'];
+const PLACINGS = ['Winner', 'Runner-up', 'Third Place'];
+
+const STATUS_STYLES: Record<SportEntryStatus, string> = {
+  pending: 'bg-yellow-500/20 text-yellow-300',
+  approved: 'bg-green-500/20 text-green-300',
+  rejected: 'bg-red-500/20 text-red-300',
+  withdrawn: 'bg-slate-600/40 text-gray-400',
+};
+
+// Deadlines are entered on the campus wall clock
+const toDeadlineInput = (iso?: string): string => {
+  if (!iso) return '';
+  const { date, time } = isoToZonedParts(iso, DEFAULT_EVENT_TIME_ZONE);
+  return `${date}T${time}`;
+};
+
+const SportsRosterManager: React.FC<SportsRosterManagerProps> = ({ annualEvent, festYear, competition, onClose, onCompetitionUpdated }) => {
+  const [entries, setEntries] = useState<SportEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const [registrationOpen, setRegistrationOpen] = useState(competition.registrationOpen);
+  const [entryType, setEntryType] = useState<SportEntryType>(competition.entryType || 'team');
+  const [deadline, setDeadline] = useState(toDeadlineInput(competition.registrationDeadline));
+  const [eligibility, setEligibility] = useState<SportEligibility>(
+    competition.eligibility || { genderCategory: 'open', minRosterSize: 1, maxRosterSize: 1 }
+  );
+  const [placings, setPlacings] = useState<Record<string, string>>(() =>
+    Object.fromEntries((competition.results || []).map(result => [result.position, result.entryId]))
+  );
+
+  const loadEntries = async () => {
+    setEntries(await sportsRegistrationService.getEntries(annualEvent.id, festYear, competition.id));
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadEntries();
+  }, [annualEvent.id, festYear, competition.id]);
+
+  const approvedEntries = entries.filter(entry => entry.status === 'approved');
+
+  const runAction = async (id: string, action: () => Promise<void>, successMessage?: string) => {
+    setBusyId(id);
+    setError(null);
+    setMessage(null);
+    try {
+      await action();
+      if (successMessage) setMessage(successMessage);
+    } catch (err: any) {
+      console.error('Error managing sport entries:', err);
+      setError(err.message || 'Something went wrong.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleStatus = (entry: SportEntry, status: 'approved' | 'rejected') =>
+    runAction(entry.id!, async () => {
+      await sportsRegistrationService.updateEntryStatus(annualEvent, entry, status);
+      await loadEntries();
+    });
+
+  const handleWithdraw = (entry: SportEntry) => {
+    if (!window.confirm(`Withdraw ${entry.entryName} from ${competition.name}?`)) return;
+    runAction(entry.id!, async () => {
+      await sportsRegistrationService.withdrawEntry(annualEvent, entry);
+      await loadEntries();
+    });
+  };
+
+  const handleRemoveMember = (entry: SportEntry, userId: string, name: string) => {
+    if (!window.confirm(`Remove ${name} from ${entry.entryName}?`)) return;
+    runAction(`${entry.id}:${userId}`, async () => {
+      await sportsRegistrationService.removeRosterMember(annualEvent, competition, entry, userId);
+      await loadEntries();
+    });
+  };
+
+  const toggleYear = (year: string) => {
+    setEligibility(prev => {
+      const years = prev.years || [];
+      return { ...prev, years: years.includes(year) ? years.filter(y => y !== year) : [...years, year] };
+    });
+  };
+
+  const handleSaveSettings = () => {
+    if (eligibility.minRosterSize < 1 || eligibility.maxRosterSize < eligibility.minRosterSize) {
+      setError('The maximum roster size must be at least the minimum, and both must be positive.');
+      return;
+    }
+    const [date, time] = deadline.split('T');
+    runAction('settings', async () => {
+      const yearlyData = await sportsRegistrationService.updateCompetition(annualEvent, festYear, competition.id, {
+        registrationOpen,
+        entryType,
+        eligibility: { ...eligibility, years: eligibility.years || [] },
+        registrationDeadline: deadline ? zonedTimeToIso(date, time, DEFAULT_EVENT_TIME_ZONE) : '',
+      });
+      onCompetitionUpdated(yearlyData);
+    }, 'Competition settings saved.');
+  };
+
+  const handleSaveResults = () => {
+    const results: SportResult[] = PLACINGS.filter(position => placings[position]).map(position => ({
+      position,
+      entryId: placings[position],
+      entryName: entries.find(entry => entry.id === placings[position])?.entryName || '',
+    }));
+    if (new Set(results.map(result => result.entryId)).size !== results.length) {
+      setError('An entry can only hold one placing.');
+      return;
+    }
+    runAction('results', async () => {
+      const yearlyData = await sportsRegistrationService.recordResults(annualEvent, festYear, competition, results, entries);
+      onCompetitionUpdated(yearlyData);
+    }, 'Results published.');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4 animate-backdrop-fade-in" onClick={onClose}>
+      <div className="bg-slate-900 border border-slate-700 rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col animate-form-enter" onClick={e => e.stopPropagation()}>
+        <div className="p-5 border-b border-slate-700 flex justify-between items-center flex-shrink-0">
+          <h3 className="text-xl font-bold text-white">{competition.icon} {competition.name} · {festYear}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl">&times;</button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-8">
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          {message && <p className="text-sm text-green-400">{message}</p>}
+
+          {/* Settings */}
+          <section>
+            <h4 className="text-lg font-semibold text-white mb-3">Registration Settings</h4>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+              <label className="flex items-center gap-2 text-gray-300">
+                <input type="checkbox" checked={registrationOpen} onChange={e => setRegistrationOpen(e.target.checked)} />
+                Registration open
+              </label>
+              <div>
+                <label className="block text-gray-300 mb-1">Entries</label>
+                <select value={entryType} onChange={e => setEntryType(e.target.value as SportEntryType)} className="w-full bg-slate-800 border border-slate-700 rounded-md px-3 py-2 text-white">
+                  <option value="team">Independent teams</option>
+                  <option value="branch">One per branch</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-gray-300 mb-1">Deadline ({DEFAULT_EVENT_TIME_ZONE})</label>
+                <input type="datetime-local" value={deadline} onChange={e => setDeadline(e.target.value)} className="w-full bg-slate-800 border border-slate-700 rounded-md px-3 py-2 text-white" />
+              </div>
+              <div>
+                <label className="block text-gray-300 mb-1">Category</label>
+                <select
+                  value={eligibility.genderCategory}
+                  onChange={e => setEligibility(prev => ({ ...prev, genderCategory: e.target.value as SportGenderCategory }))}
+                  className="w-full bg-slate-800 border border-slate-700 rounded-md px-3 py-2 text-white"
+                >
+                  <option value="open">Open</option>
+                  <option value="men">Men</option>
+                  <option value="women">Women</option>
+                  <option value="mixed">Mixed</option>
+                </select>
+              </div>
+              <div className="flex gap-3">
+                <div className="flex-1">
+                  <label className="block text-gray-300 mb-1">Min players</label>
+                  <input type="number" min={1} value={eligibility.minRosterSize} onChange={e => setEligibility(prev => ({ ...prev, minRosterSize: Number(e.target.value) }))} className="w-full bg-slate-800 border border-slate-700 rounded-md px-3 py-2 text-white" />
+                </div>
+                <div className="flex-1">
+                  <label className="block text-gray-300 mb-1">Max players</label>
+                  <input type="number" min={1} value={eligibility.maxRosterSize} onChange={e => setEligibility(prev => ({ ...prev, maxRosterSize: Number(e.target.value) }))} className="w-full bg-slate-800 border border-slate-700 rounded-md px-3 py-2 text-white" />
+                </div>
+              </div>
+              <div>
+                <p className="text-gray-300 mb-1">Eligible years (none selected = all)</p>
+                <div className="flex flex-wrap gap-3">
+                  {YEARS.map(year => (
+                    <label key={year} className="flex items-center gap-1 text-gray-300">
+                      <input type="checkbox" checked={!!eligibility.years?.includes(year)} onChange={() => toggleYear(year)} />
+                      {year}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+            <button onClick={handleSaveSettings} disabled={busyId !== null} className="mt-4 px-4 py-2 text-sm font-semibold rounded-md bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50">
+              {busyId === 'settings' ? 'Saving...' : 'Save Settings'}
+            </button>
+          </section>
+
+          {/* Entries */}
+          <section>
+            <h4 className="text-lg font-semibold text-white mb-3">Entries ({entries.filter(e => e.status !== 'withdrawn').length})</h4>
+            {isLoading ? (
+              <p className="text-sm text-gray-400">Loading entries...</p>
+            ) : entries.length === 0 ? (
+              <p className="text-sm text-gray-400">No entries yet.</p>
+            ) : (
+              <ul className="space-y-3">
+                {entries.map(entry => (
+                  <li key={entry.id} className="p-4 bg-slate-800/50 rounded-lg text-sm">
+                    <div className="flex flex-wrap justify-between items-start gap-3">
+                      <div>
+                        <p className="font-semibold text-white">
+                          {entry.entryName}
+                          <span className={`ml-2 px-2 py-0.5 rounded text-xs font-medium capitalize ${STATUS_STYLES[entry.status]}`}>{entry.status}</span>
+                        </p>
+                        <p className="text-xs text-gray-400 mt-1">Captain: {entry.captainName} · {entry.roster.length} players</p>
+                      </div>
+                      <div className="flex gap-2">
+                        {entry.status === 'pending' && (
+                          <>
+                            <button onClick={() => handleStatus(entry, 'approved')} disabled={busyId !== null} className="text-green-400 hover:text-green-300 text-xs px-3 py-1 rounded bg-green-500/10 disabled:opacity-50">Approve</button>
+                            <button onClick={() => handleStatus(entry, 'rejected')} disabled={busyId !== null} className="text-red-400 hover:text-red-300 text-xs px-3 py-1 rounded bg-red-500/10 disabled:opacity-50">Reject</button>
+                          </>
+                        )}
+                        {(entry.status === 'pending' || entry.status === 'approved') && (
+                          <button onClick={() => handleWithdraw(entry)} disabled={busyId !== null} className="text-gray-300 hover:text-white text-xs px-3 py-1 rounded bg-slate-700 disabled:opacity-50">Withdraw</button>
+                        )}
+                      </div>
+                    </div>
+                    <ul className="mt-3 space-y-1">
+                      {entry.roster.map(member => (
+                        <li key={member.userId} className="flex justify-between items-center text-xs">
+                          <span className="text-gray-300">
+                            {member.name} <span className="text-gray-500">· {member.rollNumber}{member.year ? ` · ${member.year}` : ''} · {member.gender}</span>
+                          </span>
+                          {member.userId !== entry.captainId && entry.status !== 'withdrawn' && (
+                            <button onClick={() => handleRemoveMember(entry, member.userId, member.name)} disabled={busyId !== null} className="text-red-400 hover:text-red-300 disabled:opacity-50">Remove</button>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          {/* Results */}
+          <section>
+            <h4 className="text-lg font-semibold text-white mb-3">Results</h4>
+            {approvedEntries.length === 0 ? (
+              <p className="text-sm text-gray-400">Approve entries to record results.</p>
+            ) : (
+              <>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm">
+                  {PLACINGS.map(position => (
+                    <div key={position}>
+                      <label className="block text-gray-300 mb-1">{position}</label>
+                      <select
+                        value={placings[position] || ''}
+                        onChange={e => setPlacings(prev => ({ ...prev, [position]: e.target.value }))}
+                        className="w-full bg-slate-800 border border-slate-700 rounded-md px-3 py-2 text-white"
+                      >
+                        <option value="">—</option>
+                        {approvedEntries.map(entry => <option key={entry.id} value={entry.id}>{entry.entryName}</option>)}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+                <button onClick={handleSaveResults} disabled={busyId !== null} className="mt-4 px-4 py-2 text-sm font-semibold rounded-md bg-green-600 text-white hover:bg-green-700 disabled:opacity-50">
+                  {busyId === 'results' ? 'Publishing...' : 'Publish Results'}
+                </button>
+              </>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SportsRosterManager;
@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { Event, User } from '../types';
+import { eventRegistrationService, EventTeam } from '../services/eventRegistrationService';
+
+interface TeamPanelProps {
+  event: Event;
+  user: User;
+  teamId: string;
+}
+
+const TeamPanel: React.FC<TeamPanelProps> = ({ event, user, teamId }) => {
+  const [team, setTeam] = useState<EventTeam | null>(null);
+  const [inviteCode, setInviteCode] = useState<string | null>(null);
+  const [busyMemberId, setBusyMemberId] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTeam = async () => {
+    setTeam(await eventRegistrationService.getTeam(event.id, event.organizerClubId, teamId));
+  };
+
+  useEffect(() => {
+    loadTeam();
+    // Invite codes aren't on the team document; members fetch theirs while the team can still grow
+    if (!eventRegistrationService.isTeamLocked(event)) {
+      eventRegistrationService.getTeamInviteCode(event.id, event.organizerClubId, teamId).then(setInviteCode);
+    }
+  }, [event.id, teamId]);
+
+  if (!team) return null;
+
+  const captainId = eventRegistrationService.getTeamCaptainId(team);
+  const isCaptain = captainId === user.id;
+  const isLocked = eventRegistrationService.isTeamLocked(event);
+  const isBelowMinimum = !!event.minTeamSize && team.members.length < event.minTeamSize;
+  const inviteLink = `${window.location.origin}/events/${event.id}?team=${inviteCode}`;
+
+  const handleCopyLink = async () => {
+    await navigator.clipboard.writeText(inviteLink);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const runCaptainAction = async (memberId: string, action: () => Promise<void>) => {
+    setBusyMemberId(memberId);
+    setError(null);
+    try {
+      await action();
+      await loadTeam();
+    } catch (err: any) {
+      console.error('Error updating team:', err);
+      setError(err.message || 'Failed to update the team');
+    } finally {
+      setBusyMemberId(null);
+    }
+  };
+
+  const handleRemove = (memberId: string, memberName: string) => {
+    if (!window.confirm(`Remove ${memberName} from the team? Their registration will be cancelled and any payment refunded.`)) return;
+    runCaptainAction(memberId, () =>
+      eventRegistrationService.removeTeamMember(event.id, event.organizerClubId, teamId, memberId)
+    );
+  };
+
+  const handleMakeCaptain = (memberId: string, memberName: string) => {
+    if (!window.confirm(`Make ${memberName} the team captain? You will no longer be able to manage the team.`)) return;
+    runCaptainAction(memberId, () =>
+      eventRegistrationService.transferTeamCaptain(event.id, event.organizerClubId, teamId, memberId)
+    );
+  };
+
+  return (
+    <div className="mt-4 p-3 bg-black/20 rounded text-sm">
+      <div className="flex justify-between items-start gap-4">
+        <div>
+          <p className="text-white font-semibold">Team {team.name}</p>
+          <p className="text-gray-400 mt-1">
+            {team.members.length}{event.maxTeamSize ? ` / ${event.maxTeamSize}` : ''} members
+            {isLocked
+              ? ' · Locked'
+              : event.teamLockDeadline && ` · Locks ${new Date(event.teamLockDeadline).toLocaleString()}`}
+          </p>
+        </div>
+        {!isLocked && inviteCode && (
+          <div className="text-right">
+            <span className="font-mono tracking-widest text-indigo-300">{inviteCode}</span>
+            <button onClick={handleCopyLink} className="block text-xs text-indigo-400 hover:text-indigo-300 mt-1">
+              {copied ? 'Link copied!' : 'Copy invite link'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {isBelowMinimum && (
+        <p className="text-yellow-400 mt-2">
+          Your team needs at least {event.minTeamSize} members{isLocked ? ' and is incomplete.' : ' before it locks.'}
+        </p>
+      )}
+
+      <ul className="mt-3 space-y-2">
+        {team.members.map(member => (
+          <li key={member.userId} className="flex items-center justify-between">
+            <span className="text-white">
+              {member.userName}
+              {member.userId === captainId && (
+                <span className="ml-2 px-2 py-0.5 rounded text-xs font-medium bg-indigo-500/20 text-indigo-300">Captain</span>
+              )}
+            </span>
+            {isCaptain && !isLocked && member.userId !== captainId && (
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleMakeCaptain(member.userId, member.userName)}
+                  disabled={busyMemberId !== null}
+                  className="text-indigo-400 hover:text-indigo-300 text-xs px-3 py-1 rounded bg-indigo-500/10 disabled:opacity-50"
+                >
+                  Make Captain
+                </button>
+                <button
+                  onClick={() => handleRemove(member.userId, member.userName)}
+                  disabled={busyMemberId !== null}
+                  className="text-red-400 hover:text-red-300 text-xs px-3 py-1 rounded bg-red-500/10 disabled:opacity-50"
+                >
+                  Remove
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {error && <p className="text-red-400 mt-2">{error}</p>}
+    </div>
+  );
+};
+
+export default TeamPanel;
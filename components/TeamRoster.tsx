@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import * as XLSX from 'xlsx';
+import { Event } from '../types';
+import { eventRegistrationService, EventTeam, EventRegistration } from '../services/eventRegistrationService';
+
+interface TeamRosterProps {
+  event: Event;
+  registrations: EventRegistration[];
+  onClose: () => void;
+}
+
+const TeamRoster: React.FC<TeamRosterProps> = ({ event, registrations, onClose }) => {
+  const [teams, setTeams] = useState<EventTeam[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const load = async () => {
+      setIsLoading(true);
+      setTeams(await eventRegistrationService.getEventTeams(event.id, event.organizerClubId));
+      setIsLoading(false);
+    };
+    load();
+  }, [event.id]);
+
+  const isLocked = eventRegistrationService.isTeamLocked(event);
+
+  const getTeamStatus = (team: EventTeam): { label: string; className: string } => {
+    if (event.minTeamSize && team.members.length < event.minTeamSize) {
+      return isLocked
+        ? { label: 'Incomplete', className: 'bg-red-500/20 text-red-400' }
+        : { label: 'Forming', className: 'bg-yellow-500/20 text-yellow-400' };
+    }
+    return { label: 'Complete', className: 'bg-green-500/20 text-green-400' };
+  };
+
+  const handleExport = () => {
+    const registrationByUser = new Map<string, EventRegistration>(registrations.map(r => [`${r.teamId}:${r.userId}`, r]));
+    // One row per member, grouped under their team
+    const data = teams.flatMap(team => {
+      const captainId = eventRegistrationService.getTeamCaptainId(team);
+      return team.members.map(member => {
+        const registration = registrationByUser.get(`${team.id}:${member.userId}`);
+        return {
+          Team: team.name,
+          TeamStatus: getTeamStatus(team).label,
+          Role: member.userId === captainId ? 'Captain' : 'Member',
+          Name: member.userName,
+          Email: member.userEmail,
+          Phone: registration?.userPhone || '',
+          RollNumber: registration?.userRollNumber || '',
+          RegistrationStatus: registration?.status || '',
+          CheckIn: registration?.checkInStatus === 'checked_in' ? 'Yes' : 'No',
+        };
+      });
+    });
+
+    if (data.length === 0) {
+      alert('No teams found for this event.');
+      return;
+    }
+    const worksheet = XLSX.utils.json_to_sheet(data);
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Teams');
+    XLSX.writeFile(workbook, `${event.name.replace(/\s+/g, '_')}_teams.xlsx`);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-slate-700 flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-bold text-white">Team Roster</h2>
+            <p className="text-sm text-gray-400 mt-1">
+              {teams.length} teams
+              {event.minTeamSize || event.maxTeamSize ? ` · ${event.minTeamSize || 1}–${event.maxTeamSize || '∞'} members each` : ''}
+              {isLocked ? ' · Locked' : event.teamLockDeadline ? ` · Locks ${new Date(event.teamLockDeadline).toLocaleString()}` : ''}
+            </p>
+          </div>
+          <div className="flex items-center gap-4">
+            <button
+              onClick={handleExport}
+              disabled={isLoading}
+              className="bg-green-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-green-700 transition-colors text-sm disabled:opacity-50"
+            >
+              Export by Team
+            </button>
+            <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {isLoading ? (
+            <div className="text-center py-8">
+              <div className="animate-spin h-8 w-8 border-2 border-indigo-500 border-t-transparent rounded-full mx-auto"></div>
+            </div>
+          ) : teams.length === 0 ? (
+            <p className="text-gray-400">No teams have been created yet.</p>
+          ) : teams.map(team => {
+            const status = getTeamStatus(team);
+            const captainId = eventRegistrationService.getTeamCaptainId(team);
+            return (
+              <div key={team.id} className="bg-slate-800/50 p-4 rounded-lg">
+                <div className="flex justify-between items-center mb-2">
+                  <p className="text-white font-semibold">{team.name}</p>
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-gray-400">{team.members.length} members</span>
+                    <span className={`px-2 py-1 rounded text-xs font-medium ${status.className}`}>{status.label}</span>
+                  </div>
+                </div>
+                <ul className="text-sm space-y-1">
+                  {team.members.map(member => (
+                    <li key={member.userId} className="flex justify-between">
+                      <span className="text-gray-200">
+                        {member.userName}
+                        {member.userId === captainId && <span className="ml-2 text-xs text-indigo-300">Captain</span>}
+                      </span>
+                      <span className="text-gray-400">{member.userEmail}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TeamRoster;
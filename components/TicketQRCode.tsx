@@ -0,0 +1,35 @@
+import React, { useState, useEffect } from 'react';
+import QRCode from 'qrcode';
+
+interface TicketQRCodeProps {
+  value: string;
+  size?: number;
+}
+
+const TicketQRCode: React.FC<TicketQRCodeProps> = ({ value, size = 180 }) => {
+  const [dataUrl, setDataUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    QRCode.toDataURL(value, { width: size, margin: 1, errorCorrectionLevel: 'M' })
+      .then(url => { if (active) setDataUrl(url); })
+      .catch(error => console.error('Error generating ticket QR code:', error));
+    return () => { active = false; };
+  }, [value, size]);
+
+  if (!dataUrl) {
+    return <div className="bg-slate-700 rounded animate-pulse" style={{ width: size, height: size }} />;
+  }
+
+  return (
+    <img
+      src={dataUrl}
+      alt="Event ticket QR code"
+      width={size}
+      height={size}
+      className="rounded bg-white p-1"
+    />
+  );
+};
+
+export default TicketQRCode;
@@ -0,0 +1,342 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Tournament, TournamentFormat, TournamentHost, TournamentMatch, TournamentParticipant, TournamentStanding } from '../types';
+import { tournamentService } from '../services/tournamentService';
+import { computeStandings, getParticipantName, TOURNAMENT_FORMAT_LABELS } from '../utils/tournament';
+
+interface TournamentPanelProps {
+  host: TournamentHost;
+  canManage: boolean;
+  title?: string;
+  className?: string;
+  emptyMessage?: string; // Shown to viewers before fixtures are drawn; otherwise the panel renders nothing
+  onCompleted?: (tournament: Tournament) => void; // Called after final placements are published
+}
+
+const roundName = (tournament: Tournament, round: number): string => {
+  if (tournament.format !== 'knockout') return `Round ${round}`;
+  const remaining = tournament.totalRounds - round;
+  if (remaining === 0) return 'Final';
+  if (remaining === 1) return 'Semi-finals';
+  if (remaining === 2) return 'Quarter-finals';
+  return `Round ${round}`;
+};
+
+// A single fixture, with score entry for organizers
+const MatchCard: React.FC<{
+  tournament: Tournament;
+  match: TournamentMatch;
+  canManage: boolean;
+  onSave: (match: TournamentMatch, homeScore: number, awayScore: number) => Promise<void>;
+}> = ({ tournament, match, canManage, onSave }) => {
+  const [homeScore, setHomeScore] = useState(match.homeScore?.toString() ?? '');
+  const [awayScore, setAwayScore] = useState(match.awayScore?.toString() ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setHomeScore(match.homeScore?.toString() ?? '');
+    setAwayScore(match.awayScore?.toString() ?? '');
+  }, [match.homeScore, match.awayScore]);
+
+  if (match.status === 'bye') {
+    return (
+      <div className="p-3 bg-slate-800/40 rounded-md text-sm text-gray-400">
+        <span className="text-white">{getParticipantName(tournament, match.winnerId)}</span> · bye
+      </div>
+    );
+  }
+
+  const isReady = !!match.homeId && !!match.awayId;
+  const canEdit = canManage && isReady;
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(match, Number(homeScore), Number(awayScore));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const side = (id: string | null, score: string, setScore: (value: string) => void) => (
+    <div className="flex items-center justify-between gap-3">
+      <span className={`truncate ${match.status === 'completed' && match.winnerId === id ? 'font-bold text-green-400' : id ? 'text-white' : 'text-gray-500'}`}>
+        {getParticipantName(tournament, id)}
+      </span>
+      {canEdit ? (
+        <input
+          type="number"
+          min={0}
+          value={score}
+          onChange={e => setScore(e.target.value)}
+          className="w-16 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-right text-white"
+        />
+      ) : (
+        <span className="text-gray-300 font-mono">{match.status === 'completed' ? score : '-'}</span>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="p-3 bg-slate-800/60 rounded-md text-sm space-y-2 border border-slate-700">
+      {side(match.homeId, homeScore, setHomeScore)}
+      {side(match.awayId, awayScore, setAwayScore)}
+      {canEdit && (
+        <button
+          onClick={handleSave}
+          disabled={isSaving || homeScore === '' || awayScore === ''}
+          className="w-full mt-1 px-3 py-1 text-xs font-semibold rounded bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : match.status === 'completed' ? 'Update Score' : 'Save Score'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+const StandingsTable: React.FC<{ title?: string; standings: TournamentStanding[]; showTiebreak: boolean }> = ({ title, standings, showTiebreak }) => (
+  <div className="overflow-x-auto">
+    {title && <h5 className="font-semibold text-white mb-2">{title}</h5>}
+    <table className="w-full text-sm text-left">
+      <thead className="text-xs text-gray-400 uppercase border-b border-slate-700">
+        <tr>
+          <th className="py-2 pr-2">#</th>
+          <th className="py-2 pr-2">Participant</th>
+          <th className="py-2 px-2 text-center">P</th>
+          <th className="py-2 px-2 text-center">W</th>
+          <th className="py-2 px-2 text-center">D</th>
+          <th className="py-2 px-2 text-center">L</th>
+          <th className="py-2 px-2 text-center">+/-</th>
+          {showTiebreak && <th className="py-2 px-2 text-center">Buch.</th>}
+          <th className="py-2 pl-2 text-center">Pts</th>
+        </tr>
+      </thead>
+      <tbody>
+        {standings.map((row, i) => (
+          <tr key={row.participantId} className="border-b border-slate-800">
+            <td className="py-2 pr-2 text-gray-400">{i + 1}</td>
+            <td className="py-2 pr-2 text-white">{row.name}</td>
+            <td className="py-2 px-2 text-center text-gray-300">{row.played}</td>
+            <td className="py-2 px-2 text-center text-gray-300">{row.won}</td>
+            <td className="py-2 px-2 text-center text-gray-300">{row.drawn}</td>
+            <td className="py-2 px-2 text-center text-gray-300">{row.lost}</td>
+            <td className="py-2 px-2 text-center text-gray-300">{row.scoreFor - row.scoreAgainst}</td>
+            {showTiebreak && <td className="py-2 px-2 text-center text-gray-300">{row.tiebreak}</td>}
+            <td className="py-2 pl-2 text-center font-bold text-white">{row.points}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+// Organizer form for drawing fixtures from the registered teams
+const TournamentSetup: React.FC<{ host: TournamentHost; onCancel?: () => void }> = ({ host, onCancel }) => {
+  const [participants, setParticipants] = useState<TournamentParticipant[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [format, setFormat] = useState<TournamentFormat>('knockout');
+  const [groupCount, setGroupCount] = useState(1);
+  const [swissRounds, setSwissRounds] = useState(0);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    tournamentService.getEligibleParticipants(host).then(list => {
+      setParticipants(list);
+      setIsLoading(false);
+    });
+  }, [JSON.stringify(host)]);
+
+  // Seeds follow list order
+  const move = (index: number, offset: number) => {
+    setParticipants(prev => {
+      const next = [...prev];
+      const [item] = next.splice(index, 1);
+      next.splice(index + offset, 0, item);
+      return next;
+    });
+  };
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    setError(null);
+    try {
+      await tournamentService.createTournament(host, {
+        format,
+        participants,
+        ...(format === 'round-robin' ? { groupCount } : {}),
+        ...(format === 'swiss' && swissRounds > 0 ? { swissRounds } : {}),
+      });
+    } catch (err: any) {
+      console.error('Error creating tournament:', err);
+      setError(err.message || 'Failed to create the fixtures.');
+      setIsCreating(false);
+    }
+  };
+
+  if (isLoading) return <p className="text-sm text-gray-400">Loading participants...</p>;
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div>
+          <label className="block text-gray-300 mb-1">Format</label>
+          <select value={format} onChange={e => setFormat(e.target.value as TournamentFormat)} className="w-full bg-slate-800 border border-slate-700 rounded-md px-3 py-2 text-white">
+            {(Object.keys(TOURNAMENT_FORMAT_LABELS) as TournamentFormat[]).map(value => (
+              <option key={value} value={value}>{TOURNAMENT_FORMAT_LABELS[value]}</option>
+            ))}
+          </select>
+        </div>
+        {format === 'round-robin' && (
+          <div>
+            <label className="block text-gray-300 mb-1">Groups</label>
+            <input type="number" min={1} max={8} value={groupCount} onChange={e => setGroupCount(Number(e.target.value))} className="w-full bg-slate-800 border border-slate-700 rounded-md px-3 py-2 text-white" />
+          </div>
+        )}
+        {format === 'swiss' && (
+          <div>
+            <label className="block text-gray-300 mb-1">Rounds (0 = automatic)</label>
+            <input type="number" min={0} value={swissRounds} onChange={e => setSwissRounds(Number(e.target.value))} className="w-full bg-slate-800 border border-slate-700 rounded-md px-3 py-2 text-white" />
+          </div>
+        )}
+      </div>
+
+      <div>
+        <p className="text-gray-300 mb-2">Participants in seed order ({participants.length})</p>
+        {participants.length === 0 ? (
+          <p className="text-gray-400">No confirmed teams or entries yet.</p>
+        ) : (
+          <ol className="space-y-1 max-h-64 overflow-y-auto">
+            {participants.map((participant, i) => (
+              <li key={participant.id} className="flex items-center justify-between p-2 bg-slate-800/50 rounded">
+                <span className="text-white"><span className="text-gray-500 mr-2">{i + 1}.</span>{participant.name}</span>
+                <span className="flex gap-1">
+                  <button onClick={() => move(i, -1)} disabled={i === 0} className="px-2 text-gray-400 hover:text-white disabled:opacity-30">↑</button>
+                  <button onClick={() => move(i, 1)} disabled={i === participants.length - 1} className="px-2 text-gray-400 hover:text-white disabled:opacity-30">↓</button>
+                  <button onClick={() => setParticipants(prev => prev.filter(p => p.id !== participant.id))} className="px-2 text-red-400 hover:text-red-300">&times;</button>
+                </span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      {error && <p className="text-red-400">{error}</p>}
+      <div className="flex gap-3">
+        <button onClick={handleCreate} disabled={isCreating || participants.length < 2} className="px-4 py-2 font-semibold rounded-md bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50">
+          {isCreating ? 'Generating...' : 'Generate Fixtures'}
+        </button>
+        {onCancel && <button onClick={onCancel} className="px-4 py-2 rounded-md bg-slate-700 text-gray-200 hover:bg-slate-600">Cancel</button>}
+      </div>
+    </div>
+  );
+};
+
+const TournamentPanel: React.FC<TournamentPanelProps> = ({ host, canManage, title, className = '', emptyMessage, onCompleted }) => {
+  const [tournament, setTournament] = useState<Tournament | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRedrawing, setIsRedrawing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const hostKey = JSON.stringify(host);
+
+  useEffect(() => {
+    setIsLoading(true);
+    return tournamentService.listenToTournament(host, latest => {
+      setTournament(latest);
+      setIsRedrawing(false);
+      setIsLoading(false);
+    });
+  }, [hostKey]);
+
+  const standings = useMemo(() => tournament ? computeStandings(tournament) : [], [tournament]);
+  const rounds = useMemo(() => tournament ? Array.from(new Set<number>(tournament.matches.map(m => m.round))).sort((a, b) => a - b) : [], [tournament]);
+
+  if (isLoading) return null;
+  if (!tournament && !canManage) {
+    return emptyMessage ? <p className={`text-sm text-gray-400 ${className}`}>{emptyMessage}</p> : null;
+  }
+
+  const handleSaveScore = async (match: TournamentMatch, homeScore: number, awayScore: number) => {
+    setError(null);
+    try {
+      const updated = await tournamentService.recordScore(host, match.id, homeScore, awayScore);
+      if (updated.status === 'completed') onCompleted?.(updated);
+    } catch (err: any) {
+      console.error('Error recording score:', err);
+      setError(err.message || 'Failed to record the score.');
+    }
+  };
+
+  const heading = title && <h2 className="text-3xl font-bold text-white border-l-4 border-indigo-500 pl-4 mb-6">{title}</h2>;
+
+  if (!tournament || isRedrawing) {
+    return (
+      <div className={className}>
+        {heading}
+        <TournamentSetup host={host} onCancel={tournament ? () => setIsRedrawing(false) : undefined} />
+      </div>
+    );
+  }
+
+  const groups = Array.from(new Set(standings.map(row => row.group).filter(Boolean))) as string[];
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      {heading}
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <p className="text-sm text-gray-400">
+          {TOURNAMENT_FORMAT_LABELS[tournament.format]} · {tournament.participants.length} participants
+          {tournament.status === 'completed' ? ' · Final' : ' · Live'}
+        </p>
+        {canManage && (
+          <button
+            onClick={() => window.confirm('Redraw the fixtures? Every recorded score will be discarded.') && setIsRedrawing(true)}
+            className="px-3 py-1.5 text-xs font-semibold rounded-md bg-slate-700 text-gray-200 hover:bg-slate-600"
+          >
+            Redraw Fixtures
+          </button>
+        )}
+      </div>
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {tournament.placements.length > 0 && (
+        <div className="flex flex-wrap gap-3">
+          {tournament.placements.map(placement => (
+            <div key={`${placement.position}-${placement.participantId}`} className="px-4 py-2 rounded-lg bg-indigo-500/10 border border-indigo-500/30 text-sm">
+              <span className="text-indigo-300">{placement.position}:</span> <span className="font-bold text-white">{placement.name}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {tournament.format !== 'knockout' && (
+        groups.length > 1 ? (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {groups.map(group => (
+              <StandingsTable key={group} title={`Group ${group}`} standings={standings.filter(row => row.group === group)} showTiebreak={false} />
+            ))}
+          </div>
+        ) : (
+          <StandingsTable standings={standings} showTiebreak={tournament.format === 'swiss'} />
+        )
+      )}
+
+      {/* Knockout brackets read left to right; other formats list fixtures by round */}
+      <div className={tournament.format === 'knockout' ? 'flex gap-4 overflow-x-auto pb-2' : 'space-y-4'}>
+        {rounds.map(round => (
+          <div key={round} className={tournament.format === 'knockout' ? 'min-w-[200px] flex flex-col justify-around gap-3' : ''}>
+            <h5 className="text-xs font-semibold uppercase tracking-wide text-gray-400 mb-2">{roundName(tournament, round)}</h5>
+            <div className={tournament.format === 'knockout' ? 'flex flex-col justify-around flex-1 gap-3' : 'grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3'}>
+              {tournament.matches.filter(m => m.round === round).map(match => (
+                <div key={match.id}>
+                  {match.group && <p className="text-xs text-gray-500 mb-1">Group {match.group}</p>}
+                  <MatchCard tournament={tournament} match={match} canManage={canManage} onSave={handleSaveScore} />
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TournamentPanel;
@@ -0,0 +1,105 @@
+// Admin SDK handles and the checks every callable starts with
+import { initializeApp } from 'firebase-admin/app';
+import { FieldValue, getFirestore } from 'firebase-admin/firestore';
+import { CallableRequest, HttpsError } from 'firebase-functions/v2/https';
+import { logger } from 'firebase-functions/v2';
+import type { NotificationType, User } from '../../types';
+import { Capability, PermissionError, can } from '../../utils/permissions';
+import { AuditAction, AuditTargetType, toAuditValue } from '../../utils/auditLog';
+
+initializeApp();
+
+export const db = getFirestore();
+
+// Every function runs next to the project's Firestore region
+export const REGION = 'us-central1';
+
+// Where a browser, calendar app or gateway reaches one of our HTTP functions
+export const functionUrl = (name: string) => `https://${REGION}-${process.env.GCLOUD_PROJECT}.cloudfunctions.net/${name}`;
+
+// A page of the hosted app; it uses hash routing, so deep links need the #/ prefix
+export const appUrl = (route: string) => `https://${process.env.GCLOUD_PROJECT}.web.app/#${route}`;
+
+export const eventRef = (clubId: string, eventId: string) => db.doc(`events/${clubId}/clubEvents/${eventId}`);
+
+export const registrationsRef = (clubId: string, eventId: string, isGuest: boolean) =>
+  eventRef(clubId, eventId).collection(isGuest ? 'guestRegistrations' : 'registrations');
+
+export const paymentsRef = (clubId: string, eventId: string, isGuest: boolean) =>
+  eventRef(clubId, eventId).collection(isGuest ? 'guest_payments' : 'payments');
+
+export const requireUid = (request: CallableRequest): string => {
+  if (!request.auth) throw new HttpsError('unauthenticated', 'Sign in to continue.');
+  return request.auth.uid;
+};
+
+export const getProfile = async (uid: string): Promise<User | null> => {
+  const snap = await db.doc(`users/${uid}`).get();
+  return snap.exists ? { ...(snap.data() as User), id: snap.id } : null;
+};
+
+// Callable counterpart of permissionService.authorize; returns the acting user's profile
+export const authorize = async (request: CallableRequest, capability: Capability, clubId?: string): Promise<User> => {
+  const actor = await getProfile(requireUid(request));
+  if (!actor || !can(actor, capability, clubId)) {
+    throw new HttpsError('permission-denied', new PermissionError(capability, clubId).message);
+  }
+  return actor;
+};
+
+// Required string fields of a callable's payload
+export const requireStrings = <K extends string>(data: any, ...keys: K[]): Record<K, string> => {
+  const values = {} as Record<K, string>;
+  for (const key of keys) {
+    if (typeof data?.[key] !== 'string' || !data[key].trim()) {
+      throw new HttpsError('invalid-argument', `Missing ${key}.`);
+    }
+    values[key] = data[key].trim();
+  }
+  return values;
+};
+
+// The only writer of audit entries: callables pass their caller, the audit triggers the user behind a change
+export const recordAudit = async (entry: {
+  actor: Pick<User, 'id' | 'name'>;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  clubId?: string;
+  summary: string;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+}): Promise<void> => {
+  try {
+    await db.collection('auditLogs').add({
+      actorId: entry.actor.id || '',
+      actorName: entry.actor.name,
+      action: entry.action,
+      targetType: entry.targetType,
+      targetId: entry.targetId,
+      ...(entry.clubId ? { clubId: entry.clubId } : {}),
+      summary: entry.summary,
+      before: toAuditValue(entry.before ?? null),
+      after: toAuditValue(entry.after ?? null),
+      timestamp: FieldValue.serverTimestamp(),
+    });
+  } catch (error) {
+    logger.error('Error writing audit log entry', error);
+  }
+};
+
+// Same document shape as notificationService.createNotification; failures never undo the action
+export const notify = async (userId: string, type: NotificationType, message: string, link?: string): Promise<void> => {
+  try {
+    await db.collection('notifications').add({
+      userId,
+      type,
+      message,
+      timestamp: FieldValue.serverTimestamp(),
+      isRead: false,
+      ...(link ? { link } : {}),
+    });
+  } catch (error) {
+    logger.error('Error sending notification', error);
+  }
+};
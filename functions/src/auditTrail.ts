@@ -0,0 +1,231 @@
+// Audit trail for changes made in the app. Clients can't write auditLogs, so these triggers record
+// each audited change against the signed-in user who made it. Writes the functions make through the
+// Admin SDK are skipped: each of those functions records its own entry.
+import { onDocumentWrittenWithAuthContext, onDocumentDeletedWithAuthContext } from 'firebase-functions/v2/firestore';
+import type { DocumentData } from 'firebase-admin/firestore';
+import type { ApplicationStage, ClubTeamMember } from '../../types';
+import { APPLICATION_STAGE_LABELS } from '../../utils/recruitment';
+import { REGION, eventRef, getProfile, recordAudit } from './admin';
+
+type AuditEntry = Omit<Parameters<typeof recordAudit>[0], 'actor'>;
+
+type DescribeChange = (
+  before: DocumentData | null,
+  after: DocumentData | null,
+  params: Record<string, string>
+) => AuditEntry[] | Promise<AuditEntry[]>;
+
+// Bookkeeping fields every save touches; a change to them alone isn't worth an entry
+const IGNORED_KEYS = ['createdAt', 'updatedAt'];
+
+const changedKeys = (before: DocumentData | null, after: DocumentData | null): string[] =>
+  Array.from(new Set([...Object.keys(before || {}), ...Object.keys(after || {})]))
+    .filter(key => !IGNORED_KEYS.includes(key) && JSON.stringify(before?.[key]) !== JSON.stringify(after?.[key]));
+
+const pick = (data: DocumentData | null, keys: string[]) => Object.fromEntries(keys.map(key => [key, data?.[key] ?? null]));
+
+// The functions' own writes come from the service account; anything else was made by a user of the app
+const isAppWrite = (authType: string, authId?: string): authId is string => authType !== 'service_account' && !!authId;
+
+const auditWrites = (document: string, describe: DescribeChange) =>
+  onDocumentWrittenWithAuthContext({ document, region: REGION }, async (event) => {
+    if (!isAppWrite(event.authType, event.authId)) return;
+    const before = event.data?.before.exists ? event.data.before.data()! : null;
+    const after = event.data?.after.exists ? event.data.after.data()! : null;
+    const entries = await describe(before, after, event.params);
+    if (entries.length === 0) return;
+    const actor = await getProfile(event.authId);
+    if (!actor) return;
+    for (const entry of entries) await recordAudit({ actor, ...entry });
+  });
+
+const hasClubAccess = (data: DocumentData) =>
+  (data.managedClubIds || []).length > 0 || Object.keys(data.clubRoles || {}).length > 0;
+
+export const auditUserAccess = auditWrites('users/{userId}', (before, after, { userId }) => {
+  if (!before || !after) return [];
+  const name = after.name || userId;
+  const base = { targetType: 'user' as const, targetId: userId };
+  if (after.role === 'admin' && before.role !== 'admin') {
+    return [{ ...base, action: 'role.admin-granted', summary: `Granted admin access to ${name}`, before: { role: before.role ?? null }, after: { role: 'admin' } }];
+  }
+  const keys = changedKeys(before, after).filter(key => ['role', 'managedClubIds', 'clubRoles'].includes(key));
+  if (keys.length === 0) return [];
+  if (after.role === 'student' && hasClubAccess(before) && !hasClubAccess(after)) {
+    return [{ ...base, action: 'role.all-access-revoked', summary: `Revoked all contributor access from ${name}`, before: pick(before, keys), after: pick(after, keys) }];
+  }
+  if (after.role === 'contributor') {
+    const clubIds: string[] = after.managedClubIds || [];
+    return [{ ...base, action: 'role.contributor-assigned', summary: `Assigned ${name} as contributor for ${clubIds.join(', ') || 'no clubs'}`, before: pick(before, keys), after: pick(after, keys) }];
+  }
+  return [];
+});
+
+export const auditClubs = auditWrites('clubs/{clubId}', (before, after, { clubId }) => {
+  if (!after) return [];
+  const base = { targetType: 'club' as const, targetId: clubId, clubId };
+  const name = after.name || clubId;
+  if (!before) return [{ ...base, action: 'club.created', summary: `Created ${name}`, before: null, after }];
+
+  const entries: AuditEntry[] = [];
+  const beforeTeam: ClubTeamMember[] = before.team || [];
+  const afterTeam: ClubTeamMember[] = after.team || [];
+  afterTeam.forEach(member => {
+    const previous = beforeTeam.find(m => m.id === member.id);
+    if (!previous) {
+      entries.push({ ...base, action: 'club.member-added', summary: `Added ${member.name} (${member.position}) to ${name}`, before: null, after: member });
+    } else if (JSON.stringify(previous) !== JSON.stringify(member)) {
+      entries.push({ ...base, action: 'club.member-updated', summary: `Updated ${member.name} in ${name}`, before: previous, after: member });
+    }
+  });
+  beforeTeam.filter(member => !afterTeam.some(m => m.id === member.id)).forEach(member => {
+    entries.push({ ...base, action: 'club.member-removed', summary: `Removed ${member.name} from ${name}`, before: member, after: null });
+  });
+
+  const keys = changedKeys(before, after).filter(key => key !== 'team');
+  if (keys.length) {
+    entries.push({ ...base, action: 'club.updated', summary: `Updated ${name}: ${keys.join(', ')}`, before: pick(before, keys), after: pick(after, keys) });
+  }
+  return entries;
+});
+
+export const auditApplications = auditWrites('clubs/{clubId}/applications/{applicationId}', (before, after, { clubId, applicationId }) => {
+  // Applicants send and withdraw their own applications; only the club's decisions are audited
+  if (!before || !after) return [];
+  const base = { targetType: 'application' as const, targetId: applicationId, clubId };
+  const applicant = after.userName || 'an applicant';
+  if (after.status !== before.status && (after.status === 'accepted' || after.status === 'rejected')) {
+    const accepted = after.status === 'accepted';
+    return [{
+      ...base,
+      action: accepted ? 'application.accepted' : 'application.rejected',
+      summary: `${accepted ? 'Accepted' : 'Rejected'} the application from ${applicant}${accepted && after.grantedPosition ? ` as ${after.grantedPosition}` : ''}`,
+      before: { status: before.status ?? null, stage: before.stage ?? 'screening' },
+      after: { status: after.status, ...(after.grantedPosition ? { position: after.grantedPosition } : {}) },
+    }];
+  }
+  if (after.interviewSlot && JSON.stringify(after.interviewSlot) !== JSON.stringify(before.interviewSlot)) {
+    return [{
+      ...base,
+      action: 'application.interview-scheduled',
+      summary: `Scheduled an interview with ${applicant}`,
+      before: before.interviewSlot ? { interviewSlot: before.interviewSlot } : null,
+      after: { interviewSlot: after.interviewSlot },
+    }];
+  }
+  const stage = (after.stage || 'screening') as ApplicationStage;
+  if (stage !== (before.stage || 'screening')) {
+    return [{
+      ...base,
+      action: 'application.stage-changed',
+      summary: `Moved ${applicant} to ${APPLICATION_STAGE_LABELS[stage] || stage}`,
+      before: { stage: before.stage || 'screening' },
+      after: { stage },
+    }];
+  }
+  return [];
+});
+
+export const auditRecruitmentDrives = auditWrites('clubs/{clubId}/recruitmentDrives/{driveId}', (before, after, { clubId, driveId }) => {
+  if (!after) return [];
+  const base = { targetType: 'recruitment-drive' as const, targetId: driveId, clubId };
+  if (!before) {
+    return [{
+      ...base,
+      action: 'recruitment-drive.created',
+      summary: `Scheduled the recruitment drive "${after.title}"`,
+      before: null,
+      after: { opensAt: after.opensAt, closesAt: after.closesAt, questions: (after.questions || []).length },
+    }];
+  }
+  if (after.closedEarly && !before.closedEarly) {
+    return [{ ...base, action: 'recruitment-drive.closed', summary: `Closed the recruitment drive "${after.title}" early`, before: { closesAt: before.closesAt }, after: { closesAt: after.closesAt } }];
+  }
+  return [];
+});
+
+export const auditCoupons = auditWrites('clubs/{clubId}/coupons/{code}', (before, after, { clubId, code }) => {
+  if (!after) return [];
+  const base = { targetType: 'coupon' as const, targetId: code, clubId };
+  if (before?.isActive && after.isActive === false) {
+    return [{ ...base, action: 'coupon.deactivated', summary: `Deactivated coupon ${code}`, before: { isActive: true }, after: { isActive: false } }];
+  }
+  const keys = changedKeys(before, after);
+  if (keys.length === 0) return [];
+  return [{ ...base, action: 'coupon.saved', summary: `${before ? 'Updated' : 'Created'} coupon ${code}`, before: before ? pick(before, keys) : null, after: pick(after, keys) }];
+});
+
+export const auditJudging = auditWrites('events/{clubId}/clubEvents/{eventId}/judging/{docId}', async (before, after, { clubId, eventId, docId }) => {
+  if (docId !== 'config' || !after) return [];
+  const judgesChanged = JSON.stringify(before?.judges || []) !== JSON.stringify(after.judges || []);
+  const published = after.status === 'published' && before?.status !== 'published';
+  if (!judgesChanged && !published) return [];
+
+  const eventName = (await eventRef(clubId, eventId).get()).get('name') || eventId;
+  const base = { targetType: 'event' as const, targetId: eventId, clubId };
+  const entries: AuditEntry[] = [];
+  if (judgesChanged) {
+    entries.push({ ...base, action: 'judging.judges-assigned', summary: `Updated the judging panel for ${eventName}`, before: { judges: before?.judges || [] }, after: { judges: after.judges || [] } });
+  }
+  if (published) {
+    entries.push({ ...base, action: 'judging.results-published', summary: `Published judging results for ${eventName}`, before: { status: before?.status ?? null }, after: { status: 'published' } });
+  }
+  return entries;
+});
+
+export const auditCertificates = auditWrites('certificates/{certId}', (before, after, { certId }) => {
+  if (before || !after) return [];
+  return [{
+    action: 'certificate.issued',
+    targetType: 'event',
+    targetId: after.eventId,
+    clubId: after.clubId,
+    summary: `Issued a certificate to ${after.recipientName} for ${after.eventName}`,
+    before: null,
+    after: { certificateId: certId, kind: after.kind, recipientId: after.recipientId ?? null },
+  }];
+});
+
+export const auditPaymentConfigs = auditWrites('paymentConfigurations/{configId}', (before, after, { configId }) => {
+  const current = after || before!;
+  const base = { targetType: 'payment-config' as const, targetId: configId, clubId: current.clubId };
+  const eventId = current.eventId || configId;
+  if (!before) return [{ ...base, action: 'payment-config.created', summary: `Created the payment configuration for event ${eventId}`, before: null, after }];
+  if (!after) return [{ ...base, action: 'payment-config.deleted', summary: `Deleted the payment configuration for event ${eventId}`, before, after: null }];
+  const keys = changedKeys(before, after);
+  if (keys.length === 0) return [];
+  return [{ ...base, action: 'payment-config.updated', summary: `Updated the payment configuration for event ${eventId}: ${keys.join(', ')}`, before: pick(before, keys), after: pick(after, keys) }];
+});
+
+export const auditPaymentAccounts = auditWrites('phonepeAccounts/{accountId}', (before, after, { accountId }) => {
+  if (!after) return [];
+  const base = { targetType: 'payment-account' as const, targetId: accountId, clubId: after.clubId };
+  const name = after.accountName || accountId;
+  if (before && before.isActive !== false && after.isActive === false) {
+    return [{ ...base, action: 'payment-account.deactivated', summary: `Deactivated PhonePe account ${name}`, before: { isActive: before.isActive ?? null }, after: { isActive: false } }];
+  }
+  const keys = changedKeys(before, after);
+  if (keys.length === 0) return [];
+  return [{ ...base, action: 'payment-account.saved', summary: `${before ? 'Updated' : 'Added'} PhonePe account ${name}`, before: before ? pick(before, keys) : null, after: pick(after, keys) }];
+});
+
+export const auditRegistrationDeletes = onDocumentDeletedWithAuthContext(
+  { document: 'events/{clubId}/clubEvents/{eventId}/registrations/{registrationId}', region: REGION },
+  async (event) => {
+    const registration = event.data?.data();
+    if (!isAppWrite(event.authType, event.authId) || !registration) return;
+    const actor = await getProfile(event.authId);
+    if (!actor) return;
+    const { clubId, eventId, registrationId } = event.params;
+    await recordAudit({
+      actor,
+      action: 'registration.deleted',
+      targetType: 'registration',
+      targetId: registrationId,
+      clubId,
+      summary: `Deleted the registration of ${registration.userName || registrationId} for ${registration.eventName || eventId}`,
+      before: registration,
+      after: null,
+    });
+  }
+);
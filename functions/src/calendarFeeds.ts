@@ -0,0 +1,96 @@
+// Calendar feeds. Calendar apps poll these URLs, so each request builds the feed from Firestore:
+// edits, cancellations and deleted events reach subscribers without anything being republished.
+import { HttpsError, onCall, onRequest } from 'firebase-functions/v2/https';
+import { logger } from 'firebase-functions/v2';
+import type { DocumentReference, DocumentSnapshot } from 'firebase-admin/firestore';
+import { randomBytes } from 'crypto';
+import type { Event } from '../../types';
+import { buildCalendar, CalendarEntry } from '../../utils/icalendar';
+import { REGION, appUrl, db, functionUrl, getProfile, requireUid } from './admin';
+
+// Personal feed tokens, one per user. Only functions read this collection; the token is the feed's password
+const feedTokensRef = () => db.collection('calendarFeeds');
+
+const feedUrl = (query: string) => `${functionUrl('calendarFeed')}?${query}`;
+
+const toEntry = (snap: DocumentSnapshot, cancelled = false): CalendarEntry => {
+  const event = { ...snap.data(), id: snap.id, organizerClubId: snap.ref.parent.parent!.id } as Event;
+  return { event, cancelled, url: appUrl(`/events/${snap.id}`) };
+};
+
+const buildClubFeed = async (clubId: string): Promise<string | null> => {
+  const [club, events] = await Promise.all([db.doc(`clubs/${clubId}`).get(), db.collection(`events/${clubId}/clubEvents`).get()]);
+  if (!club.exists) return null;
+  return buildCalendar(`${club.get('name') || 'Club'} Events`, events.docs.map(snap => toEntry(snap)));
+};
+
+/**
+ * A user's registered events. Events they cancelled on stay as cancelled entries so subscribed
+ * calendars remove them; deleted events simply drop out.
+ */
+const buildUserFeed = async (token: string): Promise<string | null> => {
+  const tokenSnap = await feedTokensRef().doc(token).get();
+  const userId = tokenSnap.get('userId') as string | undefined;
+  if (!userId) return null;
+
+  const [profile, registrations] = await Promise.all([
+    getProfile(userId),
+    db.collectionGroup('registrations').where('userId', '==', userId).get(),
+  ]);
+  if (!profile) return null;
+
+  const cancelledByEvent = new Map<string, { ref: DocumentReference; cancelled: boolean }>();
+  for (const registration of registrations.docs) {
+    const ref = registration.ref.parent.parent!;
+    const cancelled = registration.get('status') === 'cancelled';
+    cancelledByEvent.set(ref.path, { ref, cancelled: cancelled && (cancelledByEvent.get(ref.path)?.cancelled ?? true) });
+  }
+  const seen = [...cancelledByEvent.values()];
+  const events = seen.length ? await db.getAll(...seen.map(entry => entry.ref)) : [];
+  const entries = events
+    .map((snap, index) => (snap.exists ? toEntry(snap, seen[index].cancelled) : null))
+    .filter((entry): entry is CalendarEntry => entry !== null);
+  return buildCalendar(`${profile.name}'s Events`, entries);
+};
+
+/** GET ?club=<clubId> for a club's public feed, or ?token=<token> for a personal one */
+export const calendarFeed = onRequest({ region: REGION }, async (req, res) => {
+  if (req.method !== 'GET') {
+    res.status(405).send('Method not allowed');
+    return;
+  }
+  const club = typeof req.query.club === 'string' ? req.query.club : '';
+  const token = typeof req.query.token === 'string' ? req.query.token : '';
+  try {
+    const content = club ? await buildClubFeed(club) : token ? await buildUserFeed(token) : null;
+    if (!content) {
+      res.status(404).send('Calendar not found');
+      return;
+    }
+    // Calendar apps poll the feed, so caches must not hold stale copies
+    res.set('Cache-Control', 'no-cache, max-age=0').type('text/calendar; charset=utf-8').send(content);
+  } catch (error) {
+    logger.error('Error building calendar feed', error);
+    res.status(500).send('Could not build the calendar');
+  }
+});
+
+/**
+ * A feed's URL: a club's public feed when clubId is given, otherwise the caller's personal feed.
+ * With create, the personal feed is set up the first time; until then its URL is null.
+ */
+export const getCalendarFeedUrl = onCall({ region: REGION }, async (request) => {
+  const clubId = typeof request.data?.clubId === 'string' ? request.data.clubId : '';
+  if (clubId) return { url: feedUrl(`club=${encodeURIComponent(clubId)}`) };
+
+  const uid = requireUid(request);
+  const existing = await feedTokensRef().where('userId', '==', uid).limit(1).get();
+  if (!existing.empty) return { url: feedUrl(`token=${existing.docs[0].id}`) };
+  if (request.data?.create !== true) return { url: null };
+
+  const profile = await getProfile(uid);
+  if (!profile || profile.isGuest) throw new HttpsError('failed-precondition', 'Sign in with a student account to subscribe to your events.');
+  const token = randomBytes(20).toString('hex');
+  await feedTokensRef().doc(token).set({ userId: uid, createdAt: new Date().toISOString() });
+  return { url: feedUrl(`token=${token}`) };
+});
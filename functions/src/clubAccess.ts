@@ -0,0 +1,207 @@
+// Club access grants. Roles, managedClubIds and clubRoles on another user's profile change only
+// here or through an admin, so a club lead can hand out and take back access to their own club only.
+// Club roles are granted by name through setClubRole; a team position is just a title.
+import { FieldValue } from 'firebase-admin/firestore';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import { logger } from 'firebase-functions/v2';
+import type { ClubRole, ClubTeamMember, User } from '../../types';
+import { CLUB_ROLE_LABELS } from '../../utils/permissions';
+import { MEMBER_POSITIONS } from '../../utils/recruitment';
+import { REGION, authorize, db, getProfile, notify, recordAudit, requireStrings } from './admin';
+
+const userRef = (userId: string) => db.doc(`users/${userId}`);
+
+const getTeam = async (clubId: string): Promise<ClubTeamMember[]> => {
+  const snap = await db.doc(`clubs/${clubId}`).get();
+  if (!snap.exists) throw new HttpsError('not-found', 'Club not found.');
+  return Array.isArray(snap.get('team')) ? snap.get('team') : [];
+};
+
+// Drop a club from a profile; contributors left without clubs go back to being students
+const revokeFields = (profile: User, clubId: string) => {
+  const managedClubIds = (profile.managedClubIds || []).filter(id => id !== clubId);
+  const role = profile.role === 'contributor' && managedClubIds.length === 0 ? 'student' : profile.role;
+  return { managedClubIds, role };
+};
+
+const revokeAccess = async (profile: User, clubId: string) => {
+  const { managedClubIds, role } = revokeFields(profile, clubId);
+  await userRef(profile.id!).update({ managedClubIds, role, [`clubRoles.${clubId}`]: FieldValue.delete() });
+  return { managedClubIds, role };
+};
+
+/**
+ * Bring team members' profiles in line with the club's team after it was saved: everyone on the team
+ * manages the club. Club roles are left as they are. `removedUserIds` lists members taken off the
+ * team in the same save; they lose access to the club, club role included.
+ */
+export const syncClubTeamAccess = onCall({ region: REGION }, async (request) => {
+  const { clubId } = requireStrings(request.data, 'clubId');
+  await authorize(request, 'manage-club-team', clubId);
+  const team = await getTeam(clubId);
+  const removedUserIds: string[] = Array.isArray(request.data?.removedUserIds)
+    ? request.data.removedUserIds.filter((id: unknown) => typeof id === 'string' && id)
+    : [];
+
+  for (const member of team) {
+    if (!member.id) continue;
+    try {
+      const profile = await getProfile(member.id);
+      if (!profile || profile.isGuest) continue;
+      await userRef(member.id).update({
+        managedClubIds: FieldValue.arrayUnion(clubId),
+        role: profile.role === 'admin' ? 'admin' : 'contributor',
+        name: member.name,
+      });
+    } catch (error) {
+      logger.error(`Error syncing club access for ${member.id}`, error);
+    }
+  }
+
+  for (const userId of removedUserIds) {
+    if (team.some(member => member.id === userId)) continue;
+    try {
+      const profile = await getProfile(userId);
+      if (profile) await revokeAccess(profile, clubId);
+    } catch (error) {
+      logger.error(`Error clearing club access for ${userId}`, error);
+    }
+  }
+});
+
+/**
+ * Accept an application and add the applicant to the club team. Reviewers pick one of the member
+ * positions; with grantManagement the applicant also helps manage the club as a contributor.
+ */
+export const acceptApplication = onCall({ region: REGION }, async (request) => {
+  const { clubId, applicationId, position } = requireStrings(request.data, 'clubId', 'applicationId', 'position');
+  const actor = await authorize(request, 'review-applications', clubId);
+  if (!MEMBER_POSITIONS.includes(position)) throw new HttpsError('invalid-argument', 'Choose one of the member positions.');
+  const clubRef = db.doc(`clubs/${clubId}`);
+  const applicationRef = clubRef.collection('applications').doc(applicationId);
+
+  const { application, clubName, added } = await db.runTransaction(async (transaction) => {
+    const [applicationSnap, clubSnap] = await Promise.all([transaction.get(applicationRef), transaction.get(clubRef)]);
+    if (!applicationSnap.exists) throw new HttpsError('not-found', 'Application not found.');
+    if (!clubSnap.exists) throw new HttpsError('not-found', 'Club not found.');
+    const application = applicationSnap.data()!;
+    if (application.status !== 'pending') throw new HttpsError('failed-precondition', 'This application has already been decided.');
+    const team: ClubTeamMember[] = Array.isArray(clubSnap.get('team')) ? clubSnap.get('team') : [];
+    const memberId: string = application.userId || application.userName;
+    const added: ClubTeamMember | null = team.some(member => member.id === memberId)
+      ? null
+      : { id: memberId, name: application.userName, position };
+    transaction.update(applicationRef, { status: 'accepted', grantedPosition: position });
+    if (added) transaction.update(clubRef, { team: [...team, added] });
+    return { application, clubName: (clubSnap.get('name') as string) || 'the club', added };
+  });
+
+  await recordAudit({
+    actor,
+    action: 'application.accepted',
+    targetType: 'application',
+    targetId: applicationId,
+    clubId,
+    summary: `Accepted the application from ${application.userName || 'an applicant'} as ${position}`,
+    before: { status: application.status, stage: application.stage || 'screening' },
+    after: { status: 'accepted', position },
+  });
+  if (added) {
+    await recordAudit({ actor, action: 'club.member-added', targetType: 'club', targetId: clubId, clubId, summary: `Added ${added.name} (${position}) to ${clubName}`, before: null, after: added });
+  }
+
+  const userId: string | undefined = application.userId;
+  if (!userId) return;
+  const profile = await getProfile(userId);
+  const grantManagement = request.data?.grantManagement === true && !!profile && !profile.isGuest;
+  if (grantManagement) {
+    const role = profile!.role === 'admin' ? 'admin' : 'contributor';
+    await userRef(userId).update({ managedClubIds: FieldValue.arrayUnion(clubId), role });
+    await recordAudit({
+      actor,
+      action: 'role.contributor-assigned',
+      targetType: 'user',
+      targetId: userId,
+      clubId,
+      summary: `Gave ${profile!.name} contributor access to ${clubName}`,
+      before: { role: profile!.role, managedClubIds: profile!.managedClubIds || [] },
+      after: { role, managedClubIds: Array.from(new Set([...(profile!.managedClubIds || []), clubId])) },
+    });
+  }
+  await notify(
+    userId,
+    'application-accepted',
+    grantManagement
+      ? `Your application to ${clubName} has been accepted. You joined as ${position} and now help manage the club.`
+      : `Your application to ${clubName} has been accepted. You joined as ${position}.`,
+    `/clubs/${clubId}`
+  );
+});
+
+/**
+ * Make a team member a club lead or coordinator, or take their club role away with a null clubRole.
+ * Only club leads and admins can, and only for someone on the club's team.
+ */
+export const setClubRole = onCall({ region: REGION }, async (request) => {
+  const { clubId, userId } = requireStrings(request.data, 'clubId', 'userId');
+  const clubRole: ClubRole | null = request.data?.clubRole ?? null;
+  if (clubRole !== null && !(clubRole in CLUB_ROLE_LABELS)) throw new HttpsError('invalid-argument', 'Unknown club role.');
+  const actor = await authorize(request, 'manage-club-team', clubId);
+  const clubSnap = await db.doc(`clubs/${clubId}`).get();
+  const team: ClubTeamMember[] = Array.isArray(clubSnap.get('team')) ? clubSnap.get('team') : [];
+  if (!team.some(member => member.id === userId)) {
+    throw new HttpsError('failed-precondition', 'Only members of the club team can be given a club role.');
+  }
+  const clubName = (clubSnap.get('name') as string) || clubId;
+  const profile = await getProfile(userId);
+  if (!profile || profile.isGuest) throw new HttpsError('not-found', 'User not found.');
+  const previous = profile.clubRoles?.[clubId] || null;
+  if (previous === clubRole) return;
+
+  await userRef(userId).update(clubRole
+    ? {
+      managedClubIds: FieldValue.arrayUnion(clubId),
+      role: profile.role === 'admin' ? 'admin' : 'contributor',
+      [`clubRoles.${clubId}`]: clubRole,
+    }
+    : { [`clubRoles.${clubId}`]: FieldValue.delete() });
+  await recordAudit({
+    actor,
+    action: 'role.club-role-changed',
+    targetType: 'user',
+    targetId: userId,
+    clubId,
+    summary: clubRole
+      ? `Made ${profile.name} ${CLUB_ROLE_LABELS[clubRole]} of ${clubName}`
+      : `Removed ${profile.name}'s ${CLUB_ROLE_LABELS[previous!]} role in ${clubName}`,
+    before: { clubRole: previous },
+    after: { clubRole },
+  });
+  await notify(
+    userId,
+    clubRole ? 'access-granted' : 'access-revoked',
+    clubRole ? `You are now ${CLUB_ROLE_LABELS[clubRole]} of ${clubName}.` : `Your ${CLUB_ROLE_LABELS[previous!]} role in ${clubName} has been removed.`,
+    `/clubs/${clubId}`
+  );
+});
+
+// Take a contributor off one club; club leads may do this for their own club
+export const revokeClubAccess = onCall({ region: REGION }, async (request) => {
+  const { clubId, userId } = requireStrings(request.data, 'clubId', 'userId');
+  const actor = await authorize(request, 'manage-club-team', clubId);
+  const profile = await getProfile(userId);
+  if (!profile) throw new HttpsError('not-found', 'User not found.');
+
+  const { managedClubIds, role } = await revokeAccess(profile, clubId);
+  await recordAudit({
+    actor,
+    action: 'role.contributor-revoked',
+    targetType: 'user',
+    targetId: userId,
+    clubId,
+    summary: `Revoked ${profile.name}'s contributor access to ${clubId}`,
+    before: { role: profile.role, managedClubIds: profile.managedClubIds || [], clubRole: profile.clubRoles?.[clubId] || null },
+    after: { role, managedClubIds, clubRole: null },
+  });
+  await notify(userId, 'access-revoked', 'Your contributor access to a club has been revoked.', `/clubs/${clubId}`);
+});
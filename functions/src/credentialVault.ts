@@ -0,0 +1,191 @@
+// Credential vault: payment gateway secrets encrypted with AES-256-GCM under a key kept in Secret
+// Manager. Browsers can store secrets here but never read them back; they only get masked copies.
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { DocumentData, DocumentReference, FieldValue } from 'firebase-admin/firestore';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import { defineSecret } from 'firebase-functions/params';
+import { logger } from 'firebase-functions/v2';
+import type { User } from '../../types';
+import { REGION, authorize, db, recordAudit, requireStrings } from './admin';
+
+// 32 random bytes, base64 encoded: `firebase functions:secrets:set CREDENTIAL_VAULT_KEY`
+export const VAULT_KEY = defineSecret('CREDENTIAL_VAULT_KEY');
+
+type VaultOwnerType = 'phonepe-account' | 'razorpay-account';
+
+interface EncryptedValue {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+// The only secrets each kind of owner may store
+const SECRET_FIELDS: Record<VaultOwnerType, string[]> = {
+  'phonepe-account': ['saltKey', 'saltIndex', 'bankAccountNumber', 'panNumber'],
+  'razorpay-account': ['accountNumber'],
+};
+
+const vaultRef = (ownerType: VaultOwnerType, ownerId: string) => db.doc(`credentialVault/${ownerType}_${ownerId}`);
+
+const getKey = (): Buffer => {
+  const key = Buffer.from(VAULT_KEY.value(), 'base64');
+  if (key.length !== 32) throw new HttpsError('internal', 'The credential vault is not configured.');
+  return key;
+};
+
+const encrypt = (value: string, key: Buffer): EncryptedValue => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const data = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+  return { iv: iv.toString('base64'), tag: cipher.getAuthTag().toString('base64'), data: data.toString('base64') };
+};
+
+const decrypt = (value: EncryptedValue, key: Buffer): string => {
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(value.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(value.tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(value.data, 'base64')), decipher.final()]).toString('utf8');
+};
+
+const mask = (value: string) => `••••${value.slice(-4)}`;
+
+// Keep only known, non-blank secrets for this kind of owner
+const pickSecrets = (ownerType: VaultOwnerType, secrets: any): Record<string, string> => {
+  const picked: Record<string, string> = {};
+  SECRET_FIELDS[ownerType].forEach(field => {
+    const value = typeof secrets?.[field] === 'string' ? secrets[field].trim() : '';
+    if (value) picked[field] = value;
+  });
+  return picked;
+};
+
+/**
+ * Encrypt and merge secrets into an owner's vault entry; fields not sent keep their stored values.
+ * Callers must already have checked that the owner belongs to the club.
+ */
+const storeSecrets = async (ownerType: VaultOwnerType, ownerId: string, clubId: string, secrets: Record<string, string>) => {
+  const key = getKey();
+  const storedAt = new Date().toISOString();
+  const encrypted: Record<string, EncryptedValue> = {};
+  const masked: Record<string, string> = {};
+  Object.keys(secrets).forEach(field => {
+    encrypted[field] = encrypt(secrets[field], key);
+    masked[field] = mask(secrets[field]);
+  });
+  await vaultRef(ownerType, ownerId).set({ ownerType, ownerId, clubId, secrets: encrypted, updatedAt: storedAt }, { merge: true });
+  return { masked, storedAt };
+};
+
+// Decrypted secrets for the payment functions; never returned to a client
+export const readGatewayCredentials = async (ownerType: VaultOwnerType, ownerId: string): Promise<Record<string, string>> => {
+  const snap = await vaultRef(ownerType, ownerId).get();
+  const stored: Record<string, EncryptedValue> = snap.get('secrets') || {};
+  const key = getKey();
+  const secrets: Record<string, string> = {};
+  Object.keys(stored).forEach(field => { secrets[field] = decrypt(stored[field], key); });
+  return secrets;
+};
+
+// A PhonePe account must belong to the club; a new one is stored before its document is written
+const requireOwnerInClub = async (ownerType: VaultOwnerType, ownerId: string, clubId: string) => {
+  if (ownerType === 'razorpay-account') {
+    if (ownerId !== clubId) throw new HttpsError('permission-denied', 'A club can only store its own bank account.');
+    return;
+  }
+  const [account, existing] = await Promise.all([db.doc(`phonepeAccounts/${ownerId}`).get(), vaultRef(ownerType, ownerId).get()]);
+  const ownerClubId = account.get('clubId') || existing.get('clubId');
+  if (ownerClubId && ownerClubId !== clubId) {
+    throw new HttpsError('permission-denied', 'This payment account belongs to another club.');
+  }
+};
+
+/**
+ * Store secrets for one of a club's payment accounts.
+ * @returns Masked copies of the stored secrets, safe to save on the account document
+ */
+export const storeGatewayCredentials = onCall({ region: REGION, secrets: [VAULT_KEY] }, async (request) => {
+  const { ownerType, ownerId, clubId } = requireStrings(request.data, 'ownerType', 'ownerId', 'clubId');
+  if (!(ownerType in SECRET_FIELDS)) throw new HttpsError('invalid-argument', 'Unknown payment account type.');
+  await authorize(request, 'manage-payments', clubId);
+  await requireOwnerInClub(ownerType as VaultOwnerType, ownerId, clubId);
+
+  const secrets = pickSecrets(ownerType as VaultOwnerType, request.data?.secrets);
+  if (Object.keys(secrets).length === 0) return { masked: {}, storedAt: new Date().toISOString() };
+  return storeSecrets(ownerType as VaultOwnerType, ownerId, clubId, secrets);
+});
+
+const migrateDocument = async (
+  actor: Pick<User, 'id' | 'name'>,
+  ref: DocumentReference,
+  owner: { ownerType: VaultOwnerType; ownerId: string; clubId: string; name: string },
+  secrets: Record<string, string>,
+  documentFields: (masked: Record<string, string>, storedAt: string) => DocumentData
+) => {
+  const { masked, storedAt } = await storeSecrets(owner.ownerType, owner.ownerId, owner.clubId, secrets);
+  await ref.update(documentFields(masked, storedAt));
+  await recordAudit({
+    actor,
+    action: 'payment-account.credentials-migrated',
+    targetType: 'payment-account',
+    targetId: owner.ownerId,
+    clubId: owner.clubId,
+    summary: `Moved the credentials of ${owner.name} into the vault`,
+    before: { fields: Object.keys(secrets) },
+    after: { masked },
+  });
+};
+
+/**
+ * One-off move of secrets saved in plain text before the vault existed: PhonePe salt keys, bank and
+ * PAN numbers on phonepeAccounts, and the bank account number on clubs/{clubId}/paymentDetails/razorpay.
+ * Safe to run again; only documents that still hold plain-text secrets are touched.
+ */
+export const migrateLegacyCredentials = onCall({ region: REGION, secrets: [VAULT_KEY] }, async (request) => {
+  const actor = await authorize(request, 'view-admin-console');
+  const result = { migrated: 0, failed: [] as string[] };
+
+  const accounts = await db.collection('phonepeAccounts').get();
+  for (const account of accounts.docs) {
+    const secrets = pickSecrets('phonepe-account', account.data());
+    if (Object.keys(secrets).length === 0) continue;
+    const name = `PhonePe account ${account.get('accountName') || account.id}`;
+    try {
+      await migrateDocument(actor, account.ref, { ownerType: 'phonepe-account', ownerId: account.id, clubId: account.get('clubId'), name }, secrets,
+        (masked, storedAt) => ({
+          maskedCredentials: { ...account.get('maskedCredentials'), ...masked },
+          credentialsStoredAt: storedAt,
+          ...Object.fromEntries(SECRET_FIELDS['phonepe-account'].map(field => [field, FieldValue.delete()])),
+          updatedAt: FieldValue.serverTimestamp(),
+        }));
+      result.migrated += 1;
+    } catch (error) {
+      logger.error(`Error migrating the credentials of ${account.id}`, error);
+      result.failed.push(name);
+    }
+  }
+
+  const details = await db.collectionGroup('paymentDetails').get();
+  for (const detail of details.docs) {
+    const clubId = detail.ref.parent.parent?.id;
+    if (!clubId || detail.id !== 'razorpay') continue;
+    // Checkout reads the linked account from the club now that payment details are private
+    if (detail.get('linked_account_id')) {
+      await db.doc(`clubs/${clubId}`).update({ razorpayLinkedAccountId: detail.get('linked_account_id') })
+        .catch(error => logger.error(`Error copying the linked account of ${clubId}`, error));
+    }
+    const accountNumber = detail.get('bank_account.account_number');
+    if (typeof accountNumber !== 'string' || !accountNumber.trim()) continue;
+    const name = `the Razorpay bank account of ${clubId}`;
+    try {
+      await migrateDocument(actor, detail.ref, { ownerType: 'razorpay-account', ownerId: clubId, clubId, name }, { accountNumber: accountNumber.trim() },
+        masked => ({
+          'bank_account.account_number': FieldValue.delete(),
+          'bank_account.account_number_masked': masked.accountNumber,
+        }));
+      result.migrated += 1;
+    } catch (error) {
+      logger.error(`Error migrating the bank account of ${clubId}`, error);
+      result.failed.push(name);
+    }
+  }
+  return result;
+});
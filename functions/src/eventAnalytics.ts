@@ -0,0 +1,101 @@
+// Attendance analytics. Summaries at eventAnalytics/{eventId} are computed only here; clients read
+// them. Registration changes queue their event at analyticsQueue/{eventId}, and a scheduled run
+// summarizes each queued event once, however many check-ins it saw in between.
+import type { DocumentSnapshot } from 'firebase-admin/firestore';
+import { onCall } from 'firebase-functions/v2/https';
+import { onDocumentWritten } from 'firebase-functions/v2/firestore';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { logger } from 'firebase-functions/v2';
+import type { Event } from '../../types';
+import type { EventRegistration } from '../../utils/registrationRecords';
+import { AttendanceProfile, summarizeEventAttendance } from '../../utils/analytics';
+import { removeUndefinedValues } from '../../utils/firestoreUtils';
+import { REGION, authorize, db, eventRef, registrationsRef } from './admin';
+
+const summaryRef = (eventId: string) => db.doc(`eventAnalytics/${eventId}`);
+const queueRef = (eventId: string) => db.doc(`analyticsQueue/${eventId}`);
+
+// Branch and year for internal registrants whose registration predates those fields being stored on it
+const loadMissingProfiles = async (registrations: EventRegistration[]): Promise<Map<string, AttendanceProfile>> => {
+  const ids = Array.from(new Set(
+    registrations
+      .filter(registration => !registration.isGuest && (!registration.userBranch || !registration.userYear))
+      .map(registration => registration.userId)
+  ));
+  const snaps = ids.length ? await db.getAll(...ids.map(id => db.doc(`users/${id}`))) : [];
+  return new Map(snaps.filter(snap => snap.exists).map(snap => [snap.id, { branch: snap.get('branch'), year: snap.get('year') }]));
+};
+
+/**
+ * Re-aggregate one event from its registrations. Deleted events lose their summary.
+ * @returns Whether the event was summarized; events without a readable date are skipped
+ */
+const summarizeEvent = async (eventSnap: DocumentSnapshot): Promise<boolean> => {
+  if (!eventSnap.exists) {
+    await summaryRef(eventSnap.id).delete();
+    return false;
+  }
+  const clubId = eventSnap.ref.parent.parent!.id;
+  const snaps = await Promise.all([false, true].map(isGuest => registrationsRef(clubId, eventSnap.id, isGuest).get()));
+  const registrations = snaps.flatMap((snap, index) =>
+    snap.docs.map(d => ({ ...d.data(), id: d.id, isGuest: index === 1 } as EventRegistration))
+  );
+  const event = { ...eventSnap.data(), id: eventSnap.id, organizerClubId: clubId } as Event;
+  const summary = summarizeEventAttendance(event, registrations, await loadMissingProfiles(registrations));
+  if (!summary) return false;
+  await summaryRef(eventSnap.id).set(removeUndefinedValues(summary));
+  return true;
+};
+
+const queueEvent = (clubId: string, eventId: string) =>
+  queueRef(eventId).set({ clubId, eventId, queuedAt: new Date().toISOString() });
+
+export const queueAnalyticsForRegistration = onDocumentWritten(
+  { document: 'events/{clubId}/clubEvents/{eventId}/registrations/{registrationId}', region: REGION },
+  async (event) => queueEvent(event.params.clubId, event.params.eventId)
+);
+
+export const queueAnalyticsForGuestRegistration = onDocumentWritten(
+  { document: 'events/{clubId}/clubEvents/{eventId}/guestRegistrations/{registrationId}', region: REGION },
+  async (event) => queueEvent(event.params.clubId, event.params.eventId)
+);
+
+// Renamed, rescheduled or deleted events change their summary too
+export const queueAnalyticsForEvent = onDocumentWritten(
+  { document: 'events/{clubId}/clubEvents/{eventId}', region: REGION },
+  async (event) => queueEvent(event.params.clubId, event.params.eventId)
+);
+
+export const refreshEventAnalytics = onSchedule({ schedule: 'every 15 minutes', region: REGION }, async () => {
+  const queued = await db.collection('analyticsQueue').get();
+  for (const entry of queued.docs) {
+    try {
+      await summarizeEvent(await eventRef(entry.get('clubId'), entry.id).get());
+      // A change queued while this event was being summarized stays for the next run
+      await entry.ref.delete({ lastUpdateTime: entry.updateTime });
+    } catch (error) {
+      logger.error(`Error summarizing attendance for ${entry.id}`, error);
+    }
+  }
+});
+
+/**
+ * Re-aggregate every event from its registrations
+ * @returns How many events were summarized and the names of those without a readable date
+ */
+export const rebuildEventAnalytics = onCall({ region: REGION, timeoutSeconds: 540 }, async (request) => {
+  await authorize(request, 'view-analytics');
+  const events = await db.collectionGroup('clubEvents').get();
+  const result = { summarized: 0, skipped: [] as string[] };
+  // One event at a time keeps the number of open reads small on large catalogues
+  for (const event of events.docs) {
+    // Events live at events/{clubId}/clubEvents/{eventId}
+    if (event.ref.parent.parent?.parent.id !== 'events') continue;
+    if (await summarizeEvent(event)) {
+      result.summarized += 1;
+    } else {
+      result.skipped.push(event.get('name') || event.id);
+    }
+  }
+  return result;
+});
@@ -0,0 +1,144 @@
+// Server-to-gateway calls. Razorpay and Cashfree use the platform's API keys from Secret Manager;
+// PhonePe signs with the salt key of the club's own account, read from the credential vault.
+import { createHash } from 'crypto';
+import { HttpsError } from 'firebase-functions/v2/https';
+import { defineSecret } from 'firebase-functions/params';
+import type { PaymentProvider } from '../../services/paymentGateway';
+import type { EventRefundState } from '../../utils/registrationRecords';
+import { db, functionUrl } from './admin';
+import { VAULT_KEY, readGatewayCredentials } from './credentialVault';
+
+const RAZORPAY_KEY_ID = defineSecret('RAZORPAY_KEY_ID');
+const RAZORPAY_KEY_SECRET = defineSecret('RAZORPAY_KEY_SECRET');
+const CASHFREE_APP_ID = defineSecret('CASHFREE_APP_ID');
+const CASHFREE_SECRET_KEY = defineSecret('CASHFREE_SECRET_KEY');
+
+// Every secret a function calling the gateways must be deployed with
+export const GATEWAY_SECRETS = [RAZORPAY_KEY_ID, RAZORPAY_KEY_SECRET, CASHFREE_APP_ID, CASHFREE_SECRET_KEY, VAULT_KEY];
+
+const PHONEPE_HOSTS = {
+  sandbox: 'https://api-preprod.phonepe.com/apis/pg-sandbox',
+  production: 'https://api.phonepe.com/apis/hermes',
+};
+
+export const toPaise = (amount: number) => Math.round(amount * 100);
+
+const postJson = async (url: string, headers: Record<string, string>, body: unknown): Promise<any> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data?.error?.description || data?.message || `The gateway answered with status ${response.status}`);
+  }
+  return data;
+};
+
+export interface PhonePeMerchant {
+  merchantId: string;
+  saltKey: string;
+  saltIndex: string;
+  host: string;
+}
+
+// Merchant ID and environment from the account document, signing keys from the vault
+export const getPhonePeMerchant = async (accountId: string): Promise<PhonePeMerchant> => {
+  const [account, credentials] = await Promise.all([
+    db.doc(`phonepeAccounts/${accountId}`).get(),
+    readGatewayCredentials('phonepe-account', accountId),
+  ]);
+  if (!account.exists || !account.get('merchantId') || !credentials.saltKey || !credentials.saltIndex) {
+    throw new HttpsError('failed-precondition', 'This PhonePe account is not fully set up.');
+  }
+  return {
+    merchantId: account.get('merchantId'),
+    saltKey: credentials.saltKey,
+    saltIndex: credentials.saltIndex,
+    host: PHONEPE_HOSTS[account.get('environment') === 'production' ? 'production' : 'sandbox'],
+  };
+};
+
+// PhonePe's X-VERIFY header: SHA-256 of the payload (or path alone for GETs), API path and salt key
+export const signPhonePe = (merchant: PhonePeMerchant, path: string, payload = '') =>
+  `${createHash('sha256').update(payload + path + merchant.saltKey).digest('hex')}###${merchant.saltIndex}`;
+
+export const postToPhonePe = async (merchant: PhonePeMerchant, path: string, payload: Record<string, unknown>): Promise<any> => {
+  const encoded = Buffer.from(JSON.stringify({ merchantId: merchant.merchantId, ...payload })).toString('base64');
+  return postJson(`${merchant.host}${path}`, { 'X-VERIFY': signPhonePe(merchant, path, encoded) }, { request: encoded });
+};
+
+export const getFromPhonePe = async (merchant: PhonePeMerchant, path: string): Promise<any> => {
+  const response = await fetch(`${merchant.host}${path}`, {
+    headers: { 'Content-Type': 'application/json', 'X-VERIFY': signPhonePe(merchant, path), 'X-MERCHANT-ID': merchant.merchantId },
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok && !data?.code) throw new Error(data?.message || `PhonePe answered with status ${response.status}`);
+  return data;
+};
+
+export interface GatewayRefundCall {
+  provider: PaymentProvider;
+  orderId: string;
+  paymentId: string;
+  amount: number; // Rupees
+  refundId: string; // Our ID; each gateway echoes it back in its refund webhook
+  note?: string;
+  phonePeAccountId?: string; // Account the order was paid into
+  userId: string;
+}
+
+export interface GatewayRefundResult {
+  state: Exclude<EventRefundState, 'requested'>;
+  gatewayRefundId?: string;
+}
+
+/**
+ * Ask the gateway to refund part or all of a captured payment. Throws with the gateway's message
+ * when it refuses; 'pending' refunds are settled later by the refund webhook.
+ */
+export const refundGatewayPayment = async (call: GatewayRefundCall): Promise<GatewayRefundResult> => {
+  switch (call.provider) {
+    case 'razorpay': {
+      const auth = Buffer.from(`${RAZORPAY_KEY_ID.value()}:${RAZORPAY_KEY_SECRET.value()}`).toString('base64');
+      const data = await postJson(`https://api.razorpay.com/v1/payments/${encodeURIComponent(call.paymentId)}/refund`, { Authorization: `Basic ${auth}` }, {
+        amount: toPaise(call.amount),
+        receipt: call.refundId,
+        notes: { refundId: call.refundId, orderId: call.orderId, ...(call.note ? { note: call.note } : {}) },
+      });
+      return { state: data.status === 'processed' ? 'processed' : data.status === 'failed' ? 'failed' : 'pending', gatewayRefundId: data.id };
+    }
+    case 'cashfree': {
+      const appId = CASHFREE_APP_ID.value();
+      // Cashfree issues test app IDs with a TEST prefix and only accepts them on the sandbox host
+      const host = appId.startsWith('TEST') ? 'https://sandbox.cashfree.com/pg' : 'https://api.cashfree.com/pg';
+      const data = await postJson(`${host}/orders/${encodeURIComponent(call.orderId)}/refunds`, {
+        'x-client-id': appId,
+        'x-client-secret': CASHFREE_SECRET_KEY.value(),
+        'x-api-version': '2023-08-01',
+      }, {
+        refund_amount: call.amount,
+        refund_id: call.refundId,
+        ...(call.note ? { refund_note: call.note } : {}),
+      });
+      const state = data.refund_status === 'SUCCESS' ? 'processed' : data.refund_status === 'CANCELLED' ? 'failed' : 'pending';
+      return { state, gatewayRefundId: data.cf_refund_id ? String(data.cf_refund_id) : undefined };
+    }
+    case 'phonepe': {
+      if (!call.phonePeAccountId) throw new Error('The PhonePe account this payment went to is unknown');
+      const merchant = await getPhonePeMerchant(call.phonePeAccountId);
+      const data = await postToPhonePe(merchant, '/pg/v1/refund', {
+        merchantUserId: call.userId,
+        originalTransactionId: call.orderId,
+        merchantTransactionId: call.refundId,
+        amount: toPaise(call.amount),
+        callbackUrl: functionUrl('handlePhonePeCallback'),
+      });
+      if (!data.success && data.code !== 'PAYMENT_PENDING') throw new Error(data.message || data.code || 'PhonePe refused the refund');
+      return { state: data.code === 'PAYMENT_SUCCESS' ? 'processed' : 'pending', gatewayRefundId: data.data?.transactionId };
+    }
+    default:
+      throw new Error('Unknown payment provider');
+  }
+};
@@ -0,0 +1,117 @@
+// Guest sign-in: an emailed one-time code, checked here, exchanged for a custom token whose uid is
+// the guest ID. Codes are stored hashed at otp_verifications/{guestId}, which clients can't touch.
+import { createHash, randomInt, timingSafeEqual } from 'crypto';
+import { getAuth } from 'firebase-admin/auth';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import { GUEST_CLAIM, GuestDetails, getGuestExpiry, getGuestId, normalizeGuestEmail } from '../../utils/guestIdentity';
+import { REGION, db } from './admin';
+
+const CODE_TTL_MS = 10 * 60 * 1000;
+const RESEND_INTERVAL_MS = 60 * 1000;
+const MAX_ATTEMPTS = 5;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const hashCode = (guestId: string, code: string) => createHash('sha256').update(`${guestId}:${code}`).digest();
+
+const requireEmail = (value: unknown): string => {
+  const email = typeof value === 'string' ? normalizeGuestEmail(value) : '';
+  if (!EMAIL_PATTERN.test(email)) throw new HttpsError('invalid-argument', 'Enter a valid email address.');
+  return email;
+};
+
+/**
+ * Email a six-digit code to a guest. Sending goes through the `mail` collection, which the
+ * Trigger Email extension delivers; the code itself is never logged or returned.
+ */
+export const sendGuestVerificationCode = onCall({ region: REGION }, async (request) => {
+  const email = requireEmail(request.data?.email);
+  const guestId = await getGuestId(email);
+  const code = String(randomInt(0, 1_000_000)).padStart(6, '0');
+  const otpRef = db.doc(`otp_verifications/${guestId}`);
+
+  await db.runTransaction(async (transaction) => {
+    const existing = await transaction.get(otpRef);
+    const lastSentAt = existing.get('sentAt') as Timestamp | undefined;
+    if (lastSentAt && Date.now() - lastSentAt.toMillis() < RESEND_INTERVAL_MS) {
+      throw new HttpsError('resource-exhausted', 'A code was just sent. Wait a minute before asking for another.');
+    }
+    transaction.set(otpRef, {
+      codeHash: hashCode(guestId, code).toString('hex'),
+      attempts: 0,
+      sentAt: FieldValue.serverTimestamp(),
+      expiresAt: Timestamp.fromMillis(Date.now() + CODE_TTL_MS),
+    });
+    transaction.create(db.collection('mail').doc(), {
+      to: email,
+      message: {
+        subject: 'Your GCET Events verification code',
+        text: `Your verification code is ${code}. It expires in 10 minutes. If you didn't ask for it, ignore this email.`,
+      },
+    });
+  });
+  return { sent: true };
+});
+
+/**
+ * Check a guest's code, create or refresh their profile and return a custom token to sign in with.
+ * The same email always maps to the same guest, whichever event they register for.
+ */
+export const verifyGuestCode = onCall({ region: REGION }, async (request) => {
+  const details = (request.data?.details || {}) as GuestDetails;
+  const email = requireEmail(details.email);
+  const code = typeof request.data?.code === 'string' ? request.data.code.trim() : '';
+  if (!details.name?.trim()) throw new HttpsError('invalid-argument', 'Enter your name.');
+
+  const guestId = await getGuestId(email);
+  const otpRef = db.doc(`otp_verifications/${guestId}`);
+
+  // Wrong guesses are counted in the transaction, so the error is raised once it has committed
+  const outcome = await db.runTransaction(async (transaction): Promise<'valid' | 'invalid'> => {
+    const snap = await transaction.get(otpRef);
+    if (!snap.exists) return 'invalid';
+    const { codeHash, attempts = 0, expiresAt } = snap.data()!;
+    if ((expiresAt as Timestamp).toMillis() <= Date.now() || attempts >= MAX_ATTEMPTS) {
+      transaction.delete(otpRef);
+      return 'invalid';
+    }
+    const expected = Buffer.from(codeHash, 'hex');
+    if (!/^\d{6}$/.test(code) || !timingSafeEqual(expected, hashCode(guestId, code))) {
+      transaction.update(otpRef, { attempts: attempts + 1 });
+      return 'invalid';
+    }
+    transaction.delete(otpRef);
+    return 'valid';
+  });
+  if (outcome === 'invalid') throw new HttpsError('permission-denied', 'That code is wrong or has expired.');
+
+  const profileRef = db.doc(`users/${guestId}`);
+  const profile = {
+    name: details.name.trim(),
+    email,
+    mobile: details.phone || '',
+    year: details.year || '',
+    branch: details.department || '',
+    collegeName: details.college || '',
+    emailVerifiedAt: new Date().toISOString(),
+    expiresAt: getGuestExpiry(),
+  };
+  await db.runTransaction(async (transaction) => {
+    const existing = await transaction.get(profileRef);
+    if (existing.exists) {
+      transaction.update(profileRef, profile);
+    } else {
+      transaction.create(profileRef, {
+        ...profile,
+        role: 'guest',
+        isGuest: true,
+        managedClubIds: [],
+        createdAt: FieldValue.serverTimestamp(),
+      });
+    }
+  });
+
+  const token = await getAuth().createCustomToken(guestId, { [GUEST_CLAIM]: true });
+  return { token };
+});
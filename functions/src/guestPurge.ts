@@ -0,0 +1,96 @@
+// Guest data retention: a daily job deletes everything keyed to a guest once it is past retention.
+// Invoices are tax records and must be kept, so guest invoices lose the buyer's details instead.
+import { getAuth } from 'firebase-admin/auth';
+import { DocumentReference, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { onCall } from 'firebase-functions/v2/https';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { logger } from 'firebase-functions/v2';
+import type { User } from '../../types';
+import { GuestPurgeResult, isGuestRecordExpired } from '../../utils/guestIdentity';
+import { REGION, authorize, db, recordAudit } from './admin';
+
+const SYSTEM_ACTOR: Pick<User, 'id' | 'name'> = { id: 'system', name: 'Scheduled guest data purge' };
+
+const deleteAll = async (refs: DocumentReference[]): Promise<number> => {
+  const writer = db.bulkWriter();
+  refs.forEach(ref => writer.delete(ref));
+  await writer.close();
+  return refs.length;
+};
+
+// Marked first so the deletion trigger knows the seat isn't being given up
+const purgeRegistrations = async (refs: DocumentReference[], purgedAt: string): Promise<number> => {
+  const writer = db.bulkWriter();
+  refs.forEach(ref => writer.update(ref, { purgedAt }));
+  await writer.close();
+  return deleteAll(refs);
+};
+
+const expiredDocs = (docs: QueryDocumentSnapshot[], createdField: string, now: Date) =>
+  docs.filter(d => isGuestRecordExpired(d.get('expiresAt'), d.get(createdField), now));
+
+export const runGuestPurge = async (actor: Pick<User, 'id' | 'name'>, now: Date = new Date()): Promise<GuestPurgeResult> => {
+  const result: GuestPurgeResult = {
+    profiles: 0, registrations: 0, payments: 0, paymentIntents: 0, notifications: 0, invoicesRedacted: 0, ranAt: now.toISOString(),
+  };
+
+  const profiles = expiredDocs((await db.collection('users').where('isGuest', '==', true).get()).docs, 'createdAt', now);
+  const purgedGuestIds = profiles.map(p => p.id);
+
+  const registrations = expiredDocs((await db.collectionGroup('guestRegistrations').get()).docs, 'registrationDate', now);
+  const purgedRegistrationIds = new Set(registrations.map(r => r.id));
+  const payments = (await db.collectionGroup('guest_payments').get()).docs.filter(p =>
+    purgedRegistrationIds.has(p.get('registrationId')) || isGuestRecordExpired(p.get('expiresAt'), p.get('timestamp'), now)
+  );
+  const intents = expiredDocs((await db.collection('paymentIntents').where('isGuest', '==', true).get()).docs, 'createdAt', now);
+  const invoices = (await db.collection('invoices').where('isGuest', '==', true).get()).docs.filter(invoice =>
+    !invoice.get('buyerRedactedAt') && (purgedRegistrationIds.has(invoice.id) || isGuestRecordExpired(null, invoice.get('issuedAt'), now))
+  );
+
+  result.registrations = await purgeRegistrations(registrations.map(r => r.ref), result.ranAt);
+  result.payments = await deleteAll(payments.map(p => p.ref));
+  result.paymentIntents = await deleteAll(intents.map(i => i.ref));
+
+  for (const profile of profiles) {
+    const [notifications, mail] = await Promise.all([
+      db.collection('notifications').where('userId', '==', profile.id).get(),
+      db.collection('mail').where('to', '==', profile.get('email') || '').get(),
+    ]);
+    result.notifications += await deleteAll(notifications.docs.map(n => n.ref));
+    await deleteAll([...mail.docs.map(m => m.ref), db.doc(`otp_verifications/${profile.id}`), profile.ref]);
+    await getAuth().deleteUser(profile.id).catch(error => {
+      if (error?.code !== 'auth/user-not-found') logger.error('Error deleting guest sign-in', error);
+    });
+  }
+  result.profiles = profiles.length;
+
+  const writer = db.bulkWriter();
+  invoices.forEach(invoice => writer.update(invoice.ref, {
+    billedTo: { name: 'Guest (details removed)', email: '' },
+    buyerRedactedAt: result.ranAt,
+  }));
+  await writer.close();
+  result.invoicesRedacted = invoices.length;
+
+  await db.doc('maintenance/guestPurge').set(result);
+  await recordAudit({
+    actor,
+    action: 'guest-data.purged',
+    targetType: 'guest-data',
+    targetId: result.ranAt,
+    summary: `Purged expired guest data: ${result.profiles} profile(s), ${result.registrations} registration(s), ${result.payments} payment(s), ${result.paymentIntents} payment intent(s); redacted ${result.invoicesRedacted} invoice(s)`,
+    before: null,
+    after: { ...result, profileIds: purgedGuestIds },
+  });
+  return result;
+};
+
+export const purgeExpiredGuestData = onSchedule({ schedule: 'every day 03:00', timeZone: 'Asia/Kolkata', region: REGION }, async () => {
+  await runGuestPurge(SYSTEM_ACTOR);
+});
+
+// The admin console's "purge now" button
+export const purgeGuestData = onCall({ region: REGION }, async (request) => {
+  const actor = await authorize(request, 'purge-guest-data');
+  return runGuestPurge(actor);
+});
@@ -0,0 +1,49 @@
+// Cloud Functions entry point; each module groups the functions for one part of the app
+export { sendGuestVerificationCode, verifyGuestCode } from './guestAuth';
+export { purgeExpiredGuestData, purgeGuestData } from './guestPurge';
+export { convertLegacyTimestamps } from './legacyTimestamps';
+export { reconcilePayments } from './reconciliation';
+export {
+  registerForEvent,
+  changeRegistrationStatus,
+  getWaitlistRank,
+  onRegistrationDeleted,
+  onGuestRegistrationDeleted,
+} from './registrations';
+export { createPaymentIntent, releaseExpiredSeatHolds } from './paymentIntents';
+export { quoteTicketPrice } from './pricing';
+export { createPhonePeOrder, getPhonePePaymentStatus } from './phonepe';
+export { handleRazorpayCallback, handleCashfreeWebhook, handlePhonePeCallback } from './paymentWebhooks';
+export { issueRefund } from './refunds';
+export { issueInvoice } from './invoices';
+export {
+  auditUserAccess,
+  auditClubs,
+  auditApplications,
+  auditRecruitmentDrives,
+  auditCoupons,
+  auditJudging,
+  auditCertificates,
+  auditPaymentConfigs,
+  auditPaymentAccounts,
+  auditRegistrationDeletes,
+} from './auditTrail';
+export { calendarFeed, getCalendarFeedUrl } from './calendarFeeds';
+export {
+  queueAnalyticsForRegistration,
+  queueAnalyticsForGuestRegistration,
+  queueAnalyticsForEvent,
+  refreshEventAnalytics,
+  rebuildEventAnalytics,
+} from './eventAnalytics';
+export { storeGatewayCredentials, migrateLegacyCredentials } from './credentialVault';
+export { syncClubTeamAccess, acceptApplication, setClubRole, revokeClubAccess } from './clubAccess';
+export {
+  createTeam,
+  lookupTeamInvite,
+  getTeamInviteCode,
+  joinTeam,
+  removeTeamMember,
+  transferTeamCaptain,
+  enforceTeamMinimums,
+} from './teams';
@@ -0,0 +1,86 @@
+// Invoices for paid registrations. The webhook receivers issue them as payments land; issueInvoice
+// covers registrations paid before invoicing existed. Either way the number comes from the issuer's
+// series counter in the same transaction that saves the invoice.
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import type { EventPaymentRecord } from '../../utils/registrationRecords';
+import { can } from '../../utils/permissions';
+import { Invoice, InvoiceDraft, InvoiceIssuer, buildInvoice, formatInvoiceNumber, getInvoiceCounterPath } from '../../utils/invoice';
+import { REGION, db, eventRef, getProfile, registrationsRef, requireStrings, requireUid } from './admin';
+
+// Legal name, address and GSTIN from the club's active PhonePe account, or just the club's name when it has none
+export const getInvoiceIssuer = async (clubId: string): Promise<InvoiceIssuer> => {
+  const accounts = await db.collection('phonepeAccounts')
+    .where('clubId', '==', clubId)
+    .where('isActive', '==', true)
+    .limit(1)
+    .get();
+  const account = accounts.docs[0];
+  if (account) {
+    return {
+      legalName: account.get('businessName') || account.get('accountHolderName') || account.get('accountName'),
+      ...(account.get('businessAddress') ? { address: account.get('businessAddress') } : {}),
+      // The GSTIN keys the invoice series, so spacing or case typed into the account must not split it
+      ...(account.get('gstNumber') ? { gstin: String(account.get('gstNumber')).replace(/\s/g, '').toUpperCase() } : {}),
+      ...(account.get('email') ? { email: account.get('email') } : {}),
+      ...(account.get('phoneNumber') ? { phone: account.get('phoneNumber') } : {}),
+    };
+  }
+  const club = await db.doc(`clubs/${clubId}`).get();
+  return { legalName: club.get('name') || 'Club' };
+};
+
+// Numbered from the issuer's series for the invoice's kind and financial year
+export const issueNumberedInvoice = (draft: InvoiceDraft): Promise<Invoice> => {
+  const invoiceRef = db.doc(`invoices/${draft.id}`);
+  const counterRef = db.doc(getInvoiceCounterPath(draft));
+  return db.runTransaction(async (transaction) => {
+    const [existing, counter] = await Promise.all([transaction.get(invoiceRef), transaction.get(counterRef)]);
+    if (existing.exists) return existing.data() as Invoice;
+    const sequence = (counter.get('lastSequence') || 0) + 1;
+    const invoice: Invoice = { ...draft, number: formatInvoiceNumber(draft, sequence) };
+    transaction.set(counterRef, { series: counterRef.id, lastSequence: sequence }, { merge: true });
+    transaction.create(invoiceRef, invoice);
+    return invoice;
+  });
+};
+
+/**
+ * The invoice for a paid registration, issued now if it hasn't been yet. Open to the attendee,
+ * guests included through their guest session, and the club's treasurers.
+ */
+export const issueInvoice = onCall({ region: REGION }, async (request) => {
+  const uid = requireUid(request);
+  const { clubId, eventId, registrationId } = requireStrings(request.data, 'clubId', 'eventId', 'registrationId');
+  const isGuest = request.data?.isGuest === true;
+
+  const registrationSnap = await registrationsRef(clubId, eventId, isGuest).doc(registrationId).get();
+  if (!registrationSnap.exists) throw new HttpsError('not-found', 'Registration not found.');
+  const registration = registrationSnap.data()!;
+  if (registration.userId !== uid && !can(await getProfile(uid), 'manage-payments', clubId)) {
+    throw new HttpsError('permission-denied', 'You can only see invoices for your own registrations.');
+  }
+
+  const existing = await db.doc(`invoices/${registrationId}`).get();
+  if (existing.exists) return existing.data() as Invoice;
+  if (registration.paymentStatus !== 'paid' && registration.paymentStatus !== 'refunded') {
+    throw new HttpsError('failed-precondition', 'This registration has not been paid for.');
+  }
+
+  const payments = await eventRef(clubId, eventId).collection(isGuest ? 'guest_payments' : 'payments')
+    .where('registrationId', '==', registrationId)
+    .limit(1)
+    .get();
+  if (payments.empty) throw new HttpsError('failed-precondition', 'No payment is recorded for this registration.');
+
+  const event = (await eventRef(clubId, eventId).get()).data();
+  return issueNumberedInvoice(buildInvoice(payments.docs[0].data() as EventPaymentRecord, {
+    registrationId,
+    isGuest,
+    issuer: await getInvoiceIssuer(clubId),
+    event: {
+      name: event?.name || registration.eventName || '',
+      date: event?.date || registration.eventDate || '',
+      location: event?.location || registration.eventLocation || '',
+    },
+  }));
+});
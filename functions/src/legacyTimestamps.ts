@@ -0,0 +1,30 @@
+// Notifications now carry server timestamps so the rules can check them. This one-off migration
+// converts the ISO strings older notifications hold. Audit entries are never rewritten: older ones
+// keep their ISO string, which the audit log viewer reads as it is.
+import { Timestamp } from 'firebase-admin/firestore';
+import { onCall } from 'firebase-functions/v2/https';
+import { REGION, authorize, db } from './admin';
+
+const BATCH_SIZE = 400;
+
+/**
+ * Convert string timestamps on notifications to Firestore timestamps. Safe to run again; range
+ * filters only match values of the same type, so each pass finds exactly the string timestamps.
+ * @returns How many notifications were converted
+ */
+export const convertLegacyTimestamps = onCall({ region: REGION }, async (request) => {
+  await authorize(request, 'view-admin-console');
+  let converted = 0;
+  for (;;) {
+    const snap = await db.collection('notifications').where('timestamp', '>=', '').limit(BATCH_SIZE).get();
+    if (snap.empty) return { converted };
+    const batch = db.batch();
+    snap.docs.forEach(entry => {
+      const date = new Date(entry.get('timestamp'));
+      // Unparseable values fall back to the creation time Firestore recorded
+      batch.update(entry.ref, { timestamp: Timestamp.fromDate(isNaN(date.getTime()) ? entry.createTime.toDate() : date) });
+    });
+    await batch.commit();
+    converted += snap.size;
+  }
+});
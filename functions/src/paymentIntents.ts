@@ -0,0 +1,142 @@
+// Paid registrations: a seat is held for the attendee before checkout opens, so the webhook that
+// registers them after the charge never has to overbook. Unused holds lapse and are given back.
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { logger } from 'firebase-functions/v2';
+import type { PaymentProvider } from '../../services/paymentGateway';
+import type { PaymentIntent } from '../../utils/paymentWebhooks';
+import { REGION, authorize, db, eventRef, requireStrings } from './admin';
+import { Coupon, getCouponProblem } from '../../utils/pricing';
+import { couponRef, prepareCouponRelease, priceTicket, readTicketSelection, reserveCouponUse, toPricingEvent } from './pricing';
+import { activeRegistrationsQuery, buildRegistrationDraft } from './registrations';
+import { hasFreeSeat, notifyPromoted, prepareSeatRelease, readSeats, writeSeats } from './seats';
+import { getMemberIds } from './teams';
+
+// Long enough to finish a UPI or card checkout; a payment that lands later takes a free seat or the waitlist
+export const SEAT_HOLD_MS = 30 * 60 * 1000;
+
+const PROVIDERS: PaymentProvider[] = ['razorpay', 'cashfree', 'phonepe'];
+
+export const intentRef = (orderId: string) => db.doc(`paymentIntents/${orderId}`);
+
+// The caller's orders that still count a seat on the event
+const heldIntentsQuery = (eventId: string, userId: string) =>
+  db.collection('paymentIntents').where('eventId', '==', eventId).where('userId', '==', userId).where('seatHeld', '==', true);
+
+/**
+ * Record what the attendee is paying for and hold a seat for them under a new order ID, which the
+ * browser sends on to the gateway. The ticket is priced again here and an amount that differs from
+ * the quote is refused. Fails with resource-exhausted when the event is full, before any money is
+ * taken. A caller holds at most one seat per event: starting again moves the seat from their
+ * unpaid order to the new one. Team events need the caller's teamId; a team pass bought with it
+ * covers the rest of the team.
+ */
+export const createPaymentIntent = onCall({ region: REGION }, async (request) => {
+  const profile = await authorize(request, 'register-for-event');
+  const { clubId, eventId, provider, currency } = requireStrings(request.data, 'clubId', 'eventId', 'provider', 'currency');
+  const amount = Number(request.data?.amount);
+  if (!PROVIDERS.includes(provider as PaymentProvider)) throw new HttpsError('invalid-argument', 'Unknown payment provider.');
+  if (!(amount > 0)) throw new HttpsError('invalid-argument', 'Invalid amount.');
+  const accountId = typeof request.data?.accountId === 'string' ? request.data.accountId.trim() : '';
+  const teamId = typeof request.data?.teamId === 'string' ? request.data.teamId.trim() : '';
+  const isGuest = !!profile.isGuest;
+
+  const eventSnap = await eventRef(clubId, eventId).get();
+  if (!eventSnap.exists) throw new HttpsError('not-found', 'Event not found.');
+  const event = eventSnap.data()!;
+  if (event.registrationType === 'team' && !teamId) throw new HttpsError('invalid-argument', 'Create or join a team to register.');
+  const pricing = await priceTicket(profile, clubId, eventId, event, readTicketSelection(request.data?.pricing));
+  if (pricing.amount !== amount) {
+    throw new HttpsError('failed-precondition', 'The ticket price has changed. Please review the new price and try again.');
+  }
+  const registration = {
+    ...buildRegistrationDraft(profile, clubId, eventId, event, request.data || {}),
+    ...(teamId ? { teamId } : {}),
+  };
+  const teamRef = teamId ? eventRef(clubId, eventId).collection('teams').doc(teamId) : null;
+
+  const orderId = db.collection('paymentIntents').doc().id;
+  const now = Date.now();
+  const intent: PaymentIntent = {
+    orderId,
+    provider: provider as PaymentProvider,
+    clubId,
+    eventId,
+    userId: profile.id!,
+    isGuest,
+    amount,
+    currency,
+    ...(accountId ? { accountId } : {}),
+    registration,
+    pricing,
+    status: 'created',
+    seatHeld: true,
+    seatHoldExpiresAt: new Date(now + SEAT_HOLD_MS).toISOString(),
+    ...(pricing.couponCode ? { couponReserved: true } : {}),
+    createdAt: new Date(now).toISOString(),
+  };
+
+  await db.runTransaction(async (transaction) => {
+    const held = await transaction.get(heldIntentsQuery(eventId, profile.id!));
+    if (held.docs.some(doc => doc.get('status') !== 'created')) {
+      throw new HttpsError('failed-precondition', 'Your earlier payment for this event is still being processed.');
+    }
+    const existing = await transaction.get(activeRegistrationsQuery(clubId, eventId, profile.id!, isGuest));
+    if (!existing.empty) throw new HttpsError('already-exists', 'You are already registered for this event!');
+    const team = teamRef ? await transaction.get(teamRef) : null;
+    if (team && (!team.exists || !getMemberIds(team.data()!).includes(profile.id!))) {
+      throw new HttpsError('permission-denied', 'Join the team before registering with it.');
+    }
+    const seats = await readSeats(transaction, clubId, eventId);
+    const couponReleases = await Promise.all(held.docs.map(doc => prepareCouponRelease(transaction, doc.data() as PaymentIntent)));
+    if (pricing.couponCode) {
+      // The quote was checked against the uses at the time; check again now the uses can't move under us
+      const coupon = await transaction.get(couponRef(clubId, pricing.couponCode));
+      const data = coupon.data() as Coupon | undefined;
+      const ownReservations = held.docs.filter(doc => doc.get('couponReserved') && doc.get('pricing.couponCode') === pricing.couponCode).length;
+      const problem = getCouponProblem(
+        data ? { ...data, reservedCount: (data.reservedCount || 0) - ownReservations } : null,
+        toPricingEvent(clubId, eventId, event)
+      );
+      if (problem) throw new HttpsError('failed-precondition', problem);
+    }
+
+    if (held.empty) {
+      if (!hasFreeSeat(seats)) throw new HttpsError('resource-exhausted', 'This event is full.');
+      writeSeats(transaction, clubId, eventId, { ...seats, seatsTaken: seats.seatsTaken + 1 });
+    }
+    // An abandoned checkout hands its seat to this order; if it is paid after all, it takes a free seat or the waitlist.
+    // Its coupon use goes back; a late payment is still counted when it arrives
+    held.docs.forEach(doc => transaction.update(doc.ref, { seatHeld: false, couponReserved: false, updatedAt: intent.createdAt }));
+    couponReleases.forEach(apply => apply());
+    if (pricing.couponCode) reserveCouponUse(transaction, clubId, pricing.couponCode, orderId);
+    transaction.create(intentRef(orderId), intent);
+  });
+  return intent;
+});
+
+// Give back the seat and coupon use of one lapsed or failed hold; the intent is re-read so a webhook that just used it wins
+export const releaseSeatHold = async (orderId: string): Promise<void> => {
+  const promoted = await db.runTransaction(async (transaction) => {
+    const snap = await transaction.get(intentRef(orderId));
+    const intent = snap.data() as PaymentIntent | undefined;
+    if (!intent?.seatHeld) return null;
+    const release = await prepareSeatRelease(transaction, intent.clubId, intent.eventId, '');
+    const releaseCoupon = await prepareCouponRelease(transaction, intent);
+    release.apply();
+    releaseCoupon();
+    transaction.update(snap.ref, { seatHeld: false, couponReserved: false, updatedAt: new Date().toISOString() });
+    return release.promoted;
+  });
+  if (promoted) await notifyPromoted(promoted, promoted.get('eventId'));
+};
+
+export const releaseExpiredSeatHolds = onSchedule({ schedule: 'every 10 minutes', region: REGION }, async () => {
+  const expired = await db.collection('paymentIntents')
+    .where('seatHeld', '==', true)
+    .where('seatHoldExpiresAt', '<=', new Date().toISOString())
+    .get();
+  for (const intent of expired.docs) {
+    await releaseSeatHold(intent.id).catch(error => logger.error(`Error releasing the seat held by ${intent.id}`, error));
+  }
+});
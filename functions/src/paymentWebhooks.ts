@@ -0,0 +1,187 @@
+// Gateway webhook receivers. Each one hands the request to processGatewayWebhook with the Firestore
+// store below; the shared code verifies, claims and applies it, so the rules never let browsers
+// confirm their own payments.
+import { FieldValue } from 'firebase-admin/firestore';
+import { onRequest } from 'firebase-functions/v2/https';
+import { defineSecret } from 'firebase-functions/params';
+import { logger } from 'firebase-functions/v2';
+import type { PaymentProvider } from '../../services/paymentGateway';
+import type { EventPaymentRecord, EventRefundRecord } from '../../utils/registrationRecords';
+import type { LedgerEntry } from '../../utils/ledger';
+import { paymentStatusFor, registrationRefundFields } from '../../utils/refunds';
+import {
+  PaymentIntent,
+  ProcessedWebhook,
+  WebhookRequest,
+  WebhookStore,
+  buildClaimRecord,
+  processGatewayWebhook,
+  resolveWebhookClaim,
+} from '../../utils/paymentWebhooks';
+import { REGION, db, eventRef, paymentsRef, registrationsRef } from './admin';
+import { VAULT_KEY, readGatewayCredentials } from './credentialVault';
+import { getInvoiceIssuer, issueNumberedInvoice } from './invoices';
+import { intentRef, releaseSeatHold } from './paymentIntents';
+import { couponRef, redemptionRef } from './pricing';
+import { confirmedFields, hasFreeSeat, readSeats, writeSeats } from './seats';
+
+const RAZORPAY_WEBHOOK_SECRET = defineSecret('RAZORPAY_WEBHOOK_SECRET');
+const CASHFREE_WEBHOOK_SECRET = defineSecret('CASHFREE_WEBHOOK_SECRET');
+
+const webhookRef = (key: string) => db.doc(`paymentWebhooks/${key}`);
+
+const firestoreWebhookStore: WebhookStore = {
+  getIntent: async (orderId) => {
+    const snap = await intentRef(orderId).get();
+    return snap.exists ? snap.data() as PaymentIntent : null;
+  },
+
+  getSigningSecret: async (provider, intent) => {
+    switch (provider) {
+      case 'razorpay':
+        return RAZORPAY_WEBHOOK_SECRET.value() || null;
+      case 'cashfree':
+        return CASHFREE_WEBHOOK_SECRET.value() || null;
+      case 'phonepe': {
+        if (!intent?.accountId) return null;
+        const credentials = await readGatewayCredentials('phonepe-account', intent.accountId);
+        return credentials.saltKey || null;
+      }
+      default:
+        return null;
+    }
+  },
+
+  claimWebhook: (event) => db.runTransaction(async (transaction) => {
+    const [recorded, intentSnap] = await Promise.all([
+      transaction.get(webhookRef(event.key)),
+      transaction.get(intentRef(event.orderId)),
+    ]);
+    const intent = intentSnap.exists ? intentSnap.data() as PaymentIntent : null;
+    const { claim, intentChanges } = resolveWebhookClaim(event, recorded.exists, intent);
+    if (claim.claimed) {
+      transaction.create(webhookRef(event.key), buildClaimRecord(event, intent));
+      if (intentChanges) transaction.update(intentSnap.ref, intentChanges);
+    }
+    return claim;
+  }),
+
+  releaseClaim: async (event, intent) => {
+    const batch = db.batch();
+    batch.delete(webhookRef(event.key));
+    if (intent && event.type === 'payment.paid') {
+      batch.update(intentRef(intent.orderId), { status: intent.status, claimedBy: FieldValue.delete(), updatedAt: new Date().toISOString() });
+    }
+    await batch.commit();
+  },
+
+  markProcessed: async (record: ProcessedWebhook) => {
+    await webhookRef(record.key).set(record);
+  },
+
+  createRegistration: async (intent, registration) => {
+    const { clubId, eventId, isGuest, orderId } = intent;
+    const registrationRef = registrationsRef(clubId, eventId, isGuest).doc(orderId);
+    // A team pass registers the buyer and leaves the rest of its places for their teammates
+    const teamRef = intent.pricing?.teamSize && registration.teamId
+      ? eventRef(clubId, eventId).collection('teams').doc(registration.teamId)
+      : null;
+    return db.runTransaction(async (transaction) => {
+      const [existing, current] = await Promise.all([transaction.get(registrationRef), transaction.get(intentRef(orderId))]);
+      if (existing.exists) return registrationRef.id;
+      const team = teamRef ? await transaction.get(teamRef) : null;
+      const seats = await readSeats(transaction, clubId, eventId);
+      const data = { ...registration, registrationDate: FieldValue.serverTimestamp() };
+      if (team?.exists && !team.get('teamPassOrderId')) {
+        transaction.update(team.ref, { teamPassOrderId: orderId, teamPassSize: intent.pricing!.teamSize, teamPassUsed: 1 });
+      }
+
+      if (current.get('seatHeld')) {
+        // The seat was counted when the hold was taken
+        transaction.update(current.ref, { seatHeld: false });
+        transaction.create(registrationRef, { ...data, ...confirmedFields(clubId, eventId, registrationRef.id, isGuest, {}) });
+      } else if (hasFreeSeat(seats)) {
+        writeSeats(transaction, clubId, eventId, { ...seats, seatsTaken: seats.seatsTaken + 1 });
+        transaction.create(registrationRef, { ...data, ...confirmedFields(clubId, eventId, registrationRef.id, isGuest, {}) });
+      } else {
+        const waitlistPosition = seats.waitlistCounter + 1;
+        writeSeats(transaction, clubId, eventId, { ...seats, waitlistCounter: waitlistPosition });
+        transaction.create(registrationRef, { ...data, status: 'waitlisted', waitlistPosition });
+      }
+      return registrationRef.id;
+    });
+  },
+
+  savePayment: async (payment: EventPaymentRecord, isGuest: boolean) => {
+    await paymentsRef(payment.clubId, payment.eventId, isGuest).doc(payment.orderId || payment.registrationId).set(payment);
+  },
+
+  postLedgerEntry: async (entry: LedgerEntry) => {
+    await db.doc(`clubs/${entry.clubId}/ledger/${entry.id}`).set(entry);
+  },
+
+  redeemCoupon: async (clubId, code, orderId) => {
+    const coupon = couponRef(clubId, code);
+    const redemption = redemptionRef(clubId, code, orderId);
+    await db.runTransaction(async (transaction) => {
+      const [couponSnap, redemptionSnap] = await Promise.all([transaction.get(coupon), transaction.get(redemption)]);
+      const status = redemptionSnap.get('status');
+      // Redemptions recorded before reservations existed have no status
+      if (!couponSnap.exists || (redemptionSnap.exists && status !== 'reserved' && status !== 'released')) return;
+      transaction.set(redemption, { orderId, status: 'redeemed', redeemedAt: new Date().toISOString() }, { merge: true });
+      transaction.update(coupon, {
+        usedCount: FieldValue.increment(1),
+        ...(status === 'reserved' ? { reservedCount: FieldValue.increment(-1) } : {}),
+      });
+    });
+  },
+
+  getInvoiceIssuer,
+
+  issueInvoice: issueNumberedInvoice,
+
+  updateIntent: async (orderId, changes) => {
+    await intentRef(orderId).update(changes);
+  },
+
+  releaseSeatHold,
+
+  settleRefund: async (intent, refundId) => {
+    const paymentRef = paymentsRef(intent.clubId, intent.eventId, intent.isGuest).doc(intent.orderId);
+    await db.runTransaction(async (transaction) => {
+      const snap = await transaction.get(paymentRef);
+      const payment = snap.data() as EventPaymentRecord | undefined;
+      if (!payment?.refund || payment.refund.refundId !== refundId || payment.refund.state === 'processed') return;
+      const refund: EventRefundRecord = { ...payment.refund, state: 'processed', updatedAt: new Date().toISOString() };
+      transaction.update(paymentRef, { refund, paymentStatus: paymentStatusFor(payment, refund) });
+      transaction.update(registrationsRef(intent.clubId, intent.eventId, intent.isGuest).doc(payment.registrationId), registrationRefundFields(refund));
+    });
+  },
+};
+
+// Header values as plain strings, lower-cased the way Node already delivers them
+const toWebhookRequest = (rawBody: Buffer, headers: Record<string, string | string[] | undefined>): WebhookRequest => ({
+  rawBody: rawBody.toString('utf8'),
+  headers: Object.fromEntries(Object.entries(headers).map(([name, value]) => [name, Array.isArray(value) ? value[0] : value])),
+});
+
+const receiver = (provider: PaymentProvider) =>
+  onRequest({ region: REGION, secrets: [RAZORPAY_WEBHOOK_SECRET, CASHFREE_WEBHOOK_SECRET, VAULT_KEY] }, async (req, res) => {
+    if (req.method !== 'POST') {
+      res.status(405).send('Method not allowed');
+      return;
+    }
+    try {
+      const result = await processGatewayWebhook(provider, toWebhookRequest(req.rawBody, req.headers), firestoreWebhookStore);
+      if (result.outcome === 'rejected') logger.warn(`Rejected a ${provider} webhook`);
+      res.status(result.outcome === 'rejected' ? 401 : 200).json(result);
+    } catch (error) {
+      // The claim has been released, so the gateway's retry applies it again
+      logger.error(`Error processing a ${provider} webhook`, error);
+      res.status(500).json({ outcome: 'error' });
+    }
+  });
+
+export const handleRazorpayCallback = receiver('razorpay');
+export const handleCashfreeWebhook = receiver('cashfree');
+export const handlePhonePeCallback = receiver('phonepe');
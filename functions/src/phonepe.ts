@@ -0,0 +1,84 @@
+// PhonePe checkout. The club's merchant ID and salt key never reach the browser: orders are
+// created and their status read here, signed with the credentials held in the vault.
+import { HttpsError, onCall, type CallableRequest } from 'firebase-functions/v2/https';
+import type { PaymentIntent } from '../../utils/paymentWebhooks';
+import { REGION, appUrl, db, functionUrl, requireStrings, requireUid } from './admin';
+import { VAULT_KEY } from './credentialVault';
+import { getFromPhonePe, getPhonePeMerchant, postToPhonePe, toPaise } from './gatewayApi';
+import { intentRef } from './paymentIntents';
+
+// The caller's own PhonePe order
+const readOwnIntent = async (request: CallableRequest): Promise<PaymentIntent> => {
+  const uid = requireUid(request);
+  const { orderId } = requireStrings(request.data, 'orderId');
+  const snap = await intentRef(orderId).get();
+  const intent = snap.data() as PaymentIntent | undefined;
+  if (!intent || intent.userId !== uid) throw new HttpsError('not-found', 'Payment not found.');
+  if (intent.provider !== 'phonepe') throw new HttpsError('failed-precondition', 'This payment does not use PhonePe.');
+  return intent;
+};
+
+// Browsers send their origin with callable requests; PhonePe sends the attendee back there
+const returnUrl = (request: CallableRequest, route: string) => {
+  const origin = request.rawRequest.headers.origin;
+  return origin ? `${origin}/#${route}` : appUrl(route);
+};
+
+/**
+ * Open a PhonePe payment page for a payment intent. The amount comes from the intent and the
+ * account from the event's payment configuration, whatever the browser asked for.
+ * @returns The hosted payment page to open
+ */
+export const createPhonePeOrder = onCall({ region: REGION, secrets: [VAULT_KEY] }, async (request) => {
+  const intent = await readOwnIntent(request);
+  if (intent.status !== 'created') throw new HttpsError('failed-precondition', 'This payment has already been started.');
+
+  const config = await db.collection('paymentConfigurations').where('eventId', '==', intent.eventId).limit(1).get();
+  const accountId = config.docs[0]?.get('phonePeAccountId');
+  if (!accountId) throw new HttpsError('failed-precondition', 'No PhonePe account is configured for this event');
+  // The callback verifies with the salt key of the account recorded here
+  if (intent.accountId !== accountId) await intentRef(intent.orderId).update({ accountId });
+
+  const merchant = await getPhonePeMerchant(accountId);
+  let data: any;
+  try {
+    data = await postToPhonePe(merchant, '/pg/v1/pay', {
+      merchantTransactionId: intent.orderId,
+      merchantUserId: intent.userId,
+      amount: toPaise(intent.amount),
+      redirectUrl: returnUrl(request, `/events/${intent.eventId}`),
+      redirectMode: 'REDIRECT',
+      callbackUrl: functionUrl('handlePhonePeCallback'),
+      paymentInstrument: { type: 'PAY_PAGE' },
+    });
+  } catch (error: any) {
+    throw new HttpsError('unavailable', error?.message || 'Failed to create PhonePe payment');
+  }
+  const redirectUrl = data.data?.instrumentResponse?.redirectInfo?.url;
+  if (!data.success || !redirectUrl) throw new HttpsError('unavailable', data.message || 'Failed to create PhonePe payment');
+  return { merchantTransactionId: intent.orderId, redirectUrl };
+});
+
+/**
+ * Ask PhonePe how the caller's payment is going. The webhook records the outcome; this only
+ * lets the checkout window know when to close.
+ */
+export const getPhonePePaymentStatus = onCall({ region: REGION, secrets: [VAULT_KEY] }, async (request) => {
+  const intent = await readOwnIntent(request);
+  if (!intent.accountId) throw new HttpsError('failed-precondition', 'This payment has not been started.');
+
+  const merchant = await getPhonePeMerchant(intent.accountId);
+  const path = `/pg/v1/status/${merchant.merchantId}/${intent.orderId}`;
+  let data: any;
+  try {
+    data = await getFromPhonePe(merchant, path);
+  } catch (error: any) {
+    throw new HttpsError('unavailable', error?.message || 'Could not reach PhonePe');
+  }
+  return {
+    code: data.code as string,
+    transactionId: data.data?.transactionId as string | undefined,
+    amount: typeof data.data?.amount === 'number' ? data.data.amount / 100 : intent.amount,
+    paymentInstrument: data.data?.paymentInstrument?.type ? { type: data.data.paymentInstrument.type as string } : undefined,
+  };
+});
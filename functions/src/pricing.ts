@@ -0,0 +1,106 @@
+// Ticket prices as the payment functions see them. Coupons are only readable by treasurers, so
+// attendees get quotes from here and createPaymentIntent charges exactly what this works out.
+import { DocumentData, FieldValue, Transaction } from 'firebase-admin/firestore';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import type { User } from '../../types';
+import type { PaymentIntent } from '../../utils/paymentWebhooks';
+import {
+  Coupon,
+  PriceQuote,
+  PricingConfig,
+  PricingEvent,
+  TicketSelection,
+  getTicketTiers,
+  normalizeCouponCode,
+  resolveTicketPrice,
+} from '../../utils/pricing';
+import { REGION, authorize, db, eventRef, requireStrings } from './admin';
+
+export const couponRef = (clubId: string, code: string) => db.doc(`clubs/${clubId}/coupons/${code}`);
+
+// One per order that used the coupon: reserved at checkout, then redeemed when paid or released when the order lapses
+export const redemptionRef = (clubId: string, code: string, orderId: string) =>
+  couponRef(clubId, code).collection('redemptions').doc(orderId);
+
+// Count a use against the coupon's limit while the order is at checkout, so concurrent checkouts can't exceed it
+export const reserveCouponUse = (transaction: Transaction, clubId: string, code: string, orderId: string): void => {
+  transaction.update(couponRef(clubId, code), { reservedCount: FieldValue.increment(1) });
+  transaction.set(redemptionRef(clubId, code, orderId), { orderId, status: 'reserved', reservedAt: new Date().toISOString() });
+};
+
+/**
+ * Give back the use an unpaid order reserved. Reads first, so it can join a transaction before its
+ * writes; a reservation the webhook already redeemed is left alone.
+ */
+export const prepareCouponRelease = async (transaction: Transaction, intent: PaymentIntent): Promise<() => void> => {
+  const code = intent.pricing?.couponCode;
+  if (!intent.couponReserved || !code) return () => {};
+  const ref = redemptionRef(intent.clubId, code, intent.orderId);
+  const redemption = await transaction.get(ref);
+  if (redemption.get('status') !== 'reserved') return () => {};
+  return () => {
+    transaction.update(couponRef(intent.clubId, code), { reservedCount: FieldValue.increment(-1) });
+    transaction.update(ref, { status: 'released', releasedAt: new Date().toISOString() });
+  };
+};
+
+// The tiers and custom fee of the event's payment configuration, if it has one
+export const getPricingConfig = async (eventId: string): Promise<PricingConfig | null> => {
+  const snap = await db.collection('paymentConfigurations').where('eventId', '==', eventId).limit(1).get();
+  return snap.empty ? null : snap.docs[0].data() as PricingConfig;
+};
+
+export const toPricingEvent = (clubId: string, eventId: string, event: DocumentData): PricingEvent => ({
+  id: eventId,
+  organizerClubId: clubId,
+  registrationType: event.registrationType,
+  registrationFee: event.registrationFee,
+});
+
+// The tier and coupon code of a callable's payload
+export const readTicketSelection = (data: any): TicketSelection => {
+  const { tierId } = requireStrings(data, 'tierId');
+  const couponCode = typeof data?.couponCode === 'string' ? normalizeCouponCode(data.couponCode) : '';
+  return { tierId, ...(couponCode ? { couponCode } : {}) };
+};
+
+/**
+ * What this ticket costs the buyer right now. Fails with failed-precondition, carrying the
+ * reason for the attendee, when the tier or coupon can't be used.
+ */
+export const priceTicket = async (
+  buyer: Pick<User, 'isGuest'>,
+  clubId: string,
+  eventId: string,
+  event: DocumentData,
+  selection: TicketSelection
+): Promise<PriceQuote> => {
+  const [config, couponSnap] = await Promise.all([
+    getPricingConfig(eventId),
+    selection.couponCode ? couponRef(clubId, selection.couponCode).get() : null,
+  ]);
+  const pricingEvent = toPricingEvent(clubId, eventId, event);
+  try {
+    return resolveTicketPrice({
+      event: pricingEvent,
+      tiers: getTicketTiers(pricingEvent, config),
+      selection,
+      buyer: { isGuest: !!buyer.isGuest },
+      coupon: couponSnap?.exists ? couponSnap.data() as Coupon : null,
+    });
+  } catch (error: any) {
+    throw new HttpsError('failed-precondition', error.message);
+  }
+};
+
+/**
+ * Price a ticket for the caller, coupon included, before they pay.
+ * @returns The PriceQuote that createPaymentIntent will charge
+ */
+export const quoteTicketPrice = onCall({ region: REGION }, async (request) => {
+  const profile = await authorize(request, 'register-for-event');
+  const { clubId, eventId } = requireStrings(request.data, 'clubId', 'eventId');
+  const eventSnap = await eventRef(clubId, eventId).get();
+  if (!eventSnap.exists) throw new HttpsError('not-found', 'Event not found.');
+  return priceTicket(profile, clubId, eventId, eventSnap.data()!, readTicketSelection(request.data));
+});
@@ -0,0 +1,61 @@
+// Nightly payment reconciliation: the same checks as the admin console's manual run, saved as the
+// latest report at maintenance/paymentReconciliation.
+import type { QuerySnapshot } from 'firebase-admin/firestore';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { logger } from 'firebase-functions/v2';
+import type { EventPaymentRecord, EventRegistration } from '../../utils/registrationRecords';
+import type { LedgerEntry } from '../../utils/ledger';
+import type { ProcessedWebhook } from '../../utils/paymentWebhooks';
+import { ReconciliationReport, reconcileEvent, reconcileOrphanedWebhooks } from '../../utils/reconciliation';
+import { PricingConfig, isPaidEvent } from '../../utils/pricing';
+import { REGION, db } from './admin';
+import { toPricingEvent } from './pricing';
+
+const withIds = <T>(snaps: QuerySnapshot[]): T[] =>
+  snaps.flatMap(snap => snap.docs.map(d => ({ ...d.data(), id: d.id } as T)));
+
+export const reconcilePayments = onSchedule({ schedule: 'every 24 hours', region: REGION }, async () => {
+  const report: ReconciliationReport = { ranAt: new Date().toISOString(), checkedEvents: 0, checkedPayments: 0, issues: [] };
+
+  const webhooksSnap = await db.collection('paymentWebhooks').where('outcome', 'in', ['orphaned', 'amount-mismatch']).get();
+  const unappliedWebhooks = webhooksSnap.docs.map(d => d.data() as ProcessedWebhook);
+  report.issues.push(...reconcileOrphanedWebhooks(unappliedWebhooks));
+
+  const [events, configsSnap] = await Promise.all([db.collectionGroup('clubEvents').get(), db.collection('paymentConfigurations').get()]);
+  const configs = new Map(configsSnap.docs.map(d => [d.get('eventId') as string, d.data() as PricingConfig]));
+  const ledgers = new Map<string, LedgerEntry[]>();
+  // One event at a time keeps the number of open reads small on large catalogues
+  for (const event of events.docs) {
+    // Events live at events/{clubId}/clubEvents/{eventId}
+    const clubId = event.ref.parent.parent?.id;
+    if (!clubId || event.ref.parent.parent?.parent.id !== 'events') continue;
+    if (!isPaidEvent(toPricingEvent(clubId, event.id, event.data()), configs.get(event.id))) continue;
+    try {
+      if (!ledgers.has(clubId)) {
+        const ledger = await db.collection(`clubs/${clubId}/ledger`).get();
+        ledgers.set(clubId, ledger.docs.map(d => d.data() as LedgerEntry));
+      }
+      const [payments, registrations] = await Promise.all([
+        Promise.all(['payments', 'guest_payments'].map(name => event.ref.collection(name).get())),
+        Promise.all(['registrations', 'guestRegistrations'].map(name => event.ref.collection(name).get())),
+      ]);
+      const eventPayments = withIds<EventPaymentRecord>(payments);
+      report.issues.push(...reconcileEvent({
+        clubId,
+        eventId: event.id,
+        eventName: event.get('name') || event.id,
+        payments: eventPayments,
+        registrations: withIds<EventRegistration>(registrations),
+        ledgerEntries: ledgers.get(clubId)!.filter(entry => entry.eventId === event.id),
+        webhooks: unappliedWebhooks.filter(webhook => webhook.eventId === event.id),
+      }));
+      report.checkedEvents += 1;
+      report.checkedPayments += eventPayments.length;
+    } catch (error) {
+      logger.error(`Error reconciling payments for ${event.ref.path}`, error);
+    }
+  }
+
+  await db.doc('maintenance/paymentReconciliation').set(report);
+  if (report.issues.length) logger.warn(`Payment reconciliation flagged ${report.issues.length} issues`);
+});
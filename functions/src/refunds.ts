@@ -0,0 +1,152 @@
+// Refunds. Only these functions start one: issueRefund checks the caller's club role and holds the
+// amount to the event's refund rules, and the team functions refund members whose paid registration
+// they cancel. The refund webhook settles refunds the gateway queues and posts them to the ledger.
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import type { Event, User } from '../../types';
+import type { EventPaymentRecord, EventRefundReason, EventRefundRecord } from '../../utils/registrationRecords';
+import { buildRefundId } from '../../utils/paymentWebhooks';
+import { getRefundQuote, paymentStatusFor, registrationRefundFields, roundToPaise } from '../../utils/refunds';
+import { REGION, authorize, db, eventRef, notify, paymentsRef, recordAudit, registrationsRef, requireStrings } from './admin';
+import { GATEWAY_SECRETS, refundGatewayPayment } from './gatewayApi';
+import { intentRef } from './paymentIntents';
+
+const REASONS: EventRefundReason[] = ['registration_cancelled', 'event_cancelled'];
+
+const MAX_NOTE_LENGTH = 500;
+
+export interface RefundTarget {
+  clubId: string;
+  eventId: string;
+  registrationId: string;
+  isGuest: boolean;
+}
+
+/**
+ * Ask the gateway to refund a paid registration and record the refund on its payment and
+ * registration. The amount defaults to the most the event's refund rules allow; `waiveRules`
+ * refunds the whole payment instead, for cancellations the attendee didn't choose.
+ * @returns The refund as recorded on the payment; a failed one has state 'failed'
+ */
+export const startRefund = async (
+  actor: Pick<User, 'id' | 'name'>,
+  { clubId, eventId, registrationId, isGuest }: RefundTarget,
+  options: { reason: EventRefundReason; amount?: number; note?: string; waiveRules?: boolean }
+): Promise<EventRefundRecord> => {
+  const { reason, note = '' } = options;
+  const [eventSnap, paymentSnap, configSnap] = await Promise.all([
+    eventRef(clubId, eventId).get(),
+    paymentsRef(clubId, eventId, isGuest).where('registrationId', '==', registrationId).limit(1).get(),
+    db.collection('paymentConfigurations').where('eventId', '==', eventId).limit(1).get(),
+  ]);
+  if (!eventSnap.exists) throw new HttpsError('not-found', 'Event not found.');
+  if (paymentSnap.empty) throw new HttpsError('not-found', 'No payment record found for this registration');
+  const paymentRef = paymentSnap.docs[0].ref;
+  const payment = { ...paymentSnap.docs[0].data(), id: paymentRef.id } as EventPaymentRecord;
+  const config = configSnap.docs[0]?.data();
+  const event = { ...eventSnap.data(), id: eventId } as Event;
+
+  const quote = options.waiveRules
+    ? { eligible: true, maxAmount: payment.amount, message: '' }
+    : getRefundQuote(config?.refundRules, event, payment.amount, reason);
+  const amount = roundToPaise(options.amount ?? quote.maxAmount);
+  if (!quote.eligible) throw new HttpsError('failed-precondition', quote.message);
+  if (!(amount > 0) || amount > quote.maxAmount) {
+    throw new HttpsError('invalid-argument', `Refund amount must be more than ₹0 and at most ₹${quote.maxAmount}`);
+  }
+
+  const orderId = payment.orderId || payment.id!;
+  const provider = payment.provider || config?.gateway || 'razorpay';
+  const now = new Date().toISOString();
+  const requested: EventRefundRecord = {
+    refundId: buildRefundId(orderId),
+    amount,
+    reason,
+    ...(note ? { note } : {}),
+    state: 'requested',
+    provider,
+    initiatedBy: actor.id!,
+    requestedAt: now,
+    updatedAt: now,
+  };
+
+  // Claim the payment so two coordinators can't refund it at the same time
+  await db.runTransaction(async (transaction) => {
+    const snap = await transaction.get(paymentRef);
+    const existing = snap.get('refund') as EventRefundRecord | undefined;
+    if (existing && existing.state !== 'failed') {
+      throw new HttpsError('already-exists', 'A refund has already been started for this payment');
+    }
+    transaction.update(paymentRef, { refund: requested, paymentStatus: 'refund_pending' });
+  });
+
+  let refund: EventRefundRecord;
+  try {
+    const intent = await intentRef(orderId).get();
+    const result = await refundGatewayPayment({
+      provider,
+      orderId,
+      paymentId: payment.paymentId,
+      amount,
+      refundId: requested.refundId,
+      ...(note ? { note } : {}),
+      phonePeAccountId: intent.get('accountId') || config?.phonePeAccountId,
+      userId: payment.userId,
+    });
+    refund = {
+      ...requested,
+      state: result.state,
+      ...(result.gatewayRefundId ? { gatewayRefundId: result.gatewayRefundId } : {}),
+      updatedAt: new Date().toISOString(),
+    };
+  } catch (error: any) {
+    refund = { ...requested, state: 'failed', failureReason: error?.message || 'Refund request failed', updatedAt: new Date().toISOString() };
+  }
+
+  await db.runTransaction(async (transaction) => {
+    // A quick gateway may have sent its refund webhook already; that settlement stands
+    const current = (await transaction.get(paymentRef)).get('refund') as EventRefundRecord | undefined;
+    if (current?.refundId === refund.refundId && current.state === 'processed') refund = current;
+    transaction.update(paymentRef, { refund, paymentStatus: paymentStatusFor(payment, refund) });
+    transaction.update(registrationsRef(clubId, eventId, isGuest).doc(payment.registrationId), registrationRefundFields(refund));
+  });
+
+  await recordAudit({
+    actor,
+    action: 'refund.issued',
+    targetType: 'payment',
+    targetId: paymentRef.id,
+    clubId,
+    summary: `Refund of ₹${refund.amount} for ${payment.userName} (${event.name}) ${refund.state}`,
+    before: { paymentStatus: payment.paymentStatus, refund: payment.refund ?? null },
+    after: { paymentStatus: paymentStatusFor(payment, refund), refund },
+  });
+  if (refund.state === 'failed') return refund;
+
+  await notify(
+    payment.userId,
+    'refund-update',
+    refund.state === 'processed'
+      ? `Your refund of ₹${refund.amount} for ${event.name} has been processed.`
+      : `A refund of ₹${refund.amount} for ${event.name} has been started.`,
+    '/profile'
+  );
+  return refund;
+};
+
+/**
+ * Refund part or all of a paid registration. The amount may not exceed what the event's refund
+ * rules allow today. A payment can carry one refund at a time; a failed one may be tried again.
+ * @returns The refund as recorded on the payment
+ */
+export const issueRefund = onCall({ region: REGION, secrets: GATEWAY_SECRETS }, async (request) => {
+  const { clubId, eventId, registrationId } = requireStrings(request.data, 'clubId', 'eventId', 'registrationId');
+  const reason = request.data?.reason as EventRefundReason;
+  if (!REASONS.includes(reason)) throw new HttpsError('invalid-argument', 'Unknown refund reason.');
+  const isGuest = request.data?.isGuest === true;
+  const note = typeof request.data?.note === 'string' ? request.data.note.trim().slice(0, MAX_NOTE_LENGTH) : '';
+  const actor = await authorize(request, 'issue-refunds', clubId);
+
+  const refund = await startRefund(actor, { clubId, eventId, registrationId, isGuest }, { reason, note, amount: Number(request.data?.amount) });
+  if (refund.state === 'failed') throw new HttpsError('unavailable', refund.failureReason!);
+  return refund;
+});
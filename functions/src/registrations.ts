@@ -0,0 +1,273 @@
+// Free registrations, cancellations and organizer status changes. They all move the event's seat
+// and waitlist counters, so clients can't write registrations or counters themselves.
+import { DocumentData, FieldValue } from 'firebase-admin/firestore';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import { onDocumentDeleted } from 'firebase-functions/v2/firestore';
+import { EventStatus } from '../../types';
+import type { Event, RegistrationField, RegistrationFormResponses, User } from '../../types';
+import { getScheduleStatus } from '../../utils/eventSchedule';
+import { can } from '../../utils/permissions';
+import { getGuestExpiry } from '../../utils/guestIdentity';
+import { cleanRegistrationResponses, validateRegistrationForm } from '../../utils/registrationForm';
+import { isPaidEvent } from '../../utils/pricing';
+import { REGION, authorize, db, eventRef, getProfile, recordAudit, registrationsRef, requireStrings, requireUid } from './admin';
+import { getPricingConfig, toPricingEvent } from './pricing';
+import { getMemberIds, isPastTeamDeadline } from './teams';
+import { confirmedFields, hasFreeSeat, notifyPromoted, prepareSeatRelease, readSeats, writeSeats } from './seats';
+
+type RegistrationStatus = 'pending' | 'confirmed' | 'cancelled' | 'waitlisted';
+
+const STATUSES: RegistrationStatus[] = ['pending', 'confirmed', 'cancelled', 'waitlisted'];
+
+const MAX_ADDITIONAL_INFO_LENGTH = 2000;
+
+// The registration modal opens checkout when it sees this
+const PAID_EVENT_MESSAGE = 'Registration for paid events should be created after payment is successful.';
+
+/**
+ * The registrant's fields for a new registration, taken from their profile rather than the request.
+ * Form answers are checked against the event's form the same way the registration modal checks them.
+ */
+export const buildRegistrationDraft = (
+  profile: User,
+  clubId: string,
+  eventId: string,
+  event: DocumentData,
+  input: { additionalInfo?: unknown; formResponses?: unknown }
+): Record<string, any> => {
+  const fields: RegistrationField[] = Array.isArray(event.registrationForm) ? event.registrationForm : [];
+  const answers = (input.formResponses && typeof input.formResponses === 'object' ? input.formResponses : {}) as RegistrationFormResponses;
+  const problems = Object.values(validateRegistrationForm(fields, answers));
+  if (problems.length) throw new HttpsError('invalid-argument', problems[0]);
+
+  return {
+    eventId,
+    clubId,
+    userId: profile.id,
+    userName: profile.name,
+    userEmail: profile.email ?? '',
+    userPhone: profile.mobile || '',
+    userRollNumber: profile.rollNumber || '',
+    userBranch: profile.branch || '',
+    userYear: profile.year || '',
+    additionalInfo: typeof input.additionalInfo === 'string' ? input.additionalInfo.trim().slice(0, MAX_ADDITIONAL_INFO_LENGTH) : '',
+    formResponses: cleanRegistrationResponses(fields, answers),
+    eventName: event.name || event.title || 'Untitled Event',
+    eventDate: event.date || 'TBD',
+    eventLocation: event.location || 'TBD',
+    isGuest: !!profile.isGuest,
+    ...(profile.isGuest && profile.collegeName ? { guestCollege: profile.collegeName } : {}),
+  };
+};
+
+// Registrations of one person for one event that still count (anything but cancelled)
+export const activeRegistrationsQuery = (clubId: string, eventId: string, userId: string, isGuest: boolean) =>
+  registrationsRef(clubId, eventId, isGuest).where('userId', '==', userId).where('status', 'in', ['pending', 'confirmed', 'waitlisted']);
+
+/**
+ * Register the caller for a free event. They get a seat and a ticket while there is room,
+ * otherwise the next waitlist position. Paid events are registered by the payment webhooks,
+ * except for members of a team whose team pass still has places.
+ * For team events the caller must already be on the team; once teams lock, a team below the
+ * minimum size can't register any more members.
+ */
+export const registerForEvent = onCall({ region: REGION }, async (request) => {
+  const profile = await authorize(request, 'register-for-event');
+  const { clubId, eventId } = requireStrings(request.data, 'clubId', 'eventId');
+  const teamId = typeof request.data?.teamId === 'string' ? request.data.teamId.trim() : '';
+  const isGuest = !!profile.isGuest;
+
+  const eventSnap = await eventRef(clubId, eventId).get();
+  if (!eventSnap.exists) throw new HttpsError('not-found', 'Event not found.');
+  const event = eventSnap.data()!;
+  const isPaid = isPaidEvent(toPricingEvent(clubId, eventId, event), await getPricingConfig(eventId));
+  if (isPaid && !teamId) {
+    throw new HttpsError('failed-precondition', PAID_EVENT_MESSAGE);
+  }
+  if (event.registrationType === 'team' && !teamId) throw new HttpsError('invalid-argument', 'Create or join a team to register.');
+  const teamRef = teamId ? eventRef(clubId, eventId).collection('teams').doc(teamId) : null;
+
+  const registrationRef = registrationsRef(clubId, eventId, isGuest).doc();
+  const registration: Record<string, any> = {
+    ...buildRegistrationDraft(profile, clubId, eventId, event, request.data || {}),
+    registrationFee: 0,
+    checkInStatus: 'not_checked_in',
+    registrationDate: FieldValue.serverTimestamp(),
+    ...(teamId ? { teamId } : {}),
+    ...(isGuest ? { expiresAt: getGuestExpiry() } : {}),
+  };
+
+  const status = await db.runTransaction(async (transaction): Promise<RegistrationStatus> => {
+    const existing = await transaction.get(activeRegistrationsQuery(clubId, eventId, profile.id!, isGuest));
+    if (!existing.empty) throw new HttpsError('already-exists', 'You are already registered for this event!');
+    const team = teamRef ? await transaction.get(teamRef) : null;
+    const seats = await readSeats(transaction, clubId, eventId);
+
+    if (team) {
+      if (!team.exists || !getMemberIds(team.data()!).includes(profile.id!)) {
+        throw new HttpsError('permission-denied', 'Join the team before registering with it.');
+      }
+      const memberCount = getMemberIds(team.data()!).length;
+      if (isPastTeamDeadline(seats.event.teamLockDeadline) && seats.event.minTeamSize && memberCount < seats.event.minTeamSize) {
+        throw new HttpsError('failed-precondition', `Teams need at least ${seats.event.minTeamSize} members, and teams for this event are locked.`);
+      }
+    }
+    if (isPaid) {
+      // Teammates of a team pass holder register on the pass until its places run out
+      const passUsed = team!.get('teamPassUsed') || 0;
+      if (!team!.get('teamPassOrderId') || passUsed >= (team!.get('teamPassSize') || 0)) {
+        throw new HttpsError('failed-precondition', PAID_EVENT_MESSAGE);
+      }
+      transaction.update(team!.ref, { teamPassUsed: passUsed + 1 });
+      registration.teamPassOrderId = team!.get('teamPassOrderId');
+    }
+
+    if (hasFreeSeat(seats)) {
+      writeSeats(transaction, clubId, eventId, { ...seats, seatsTaken: seats.seatsTaken + 1 });
+      transaction.create(registrationRef, { ...registration, ...confirmedFields(clubId, eventId, registrationRef.id, isGuest, {}) });
+      return 'confirmed';
+    }
+    const waitlistPosition = seats.waitlistCounter + 1;
+    writeSeats(transaction, clubId, eventId, { ...seats, waitlistCounter: waitlistPosition });
+    transaction.create(registrationRef, { ...registration, status: 'waitlisted', waitlistPosition });
+    return 'waitlisted';
+  });
+
+  return { registrationId: registrationRef.id, status };
+});
+
+/**
+ * Change a registration's status. Attendees and their team captain may only cancel; organizers
+ * may set any status. Seats, waitlist positions and tickets follow the new status in the same
+ * transaction, and a freed seat goes straight to the next person on the waitlist.
+ */
+export const changeRegistrationStatus = onCall({ region: REGION }, async (request) => {
+  const uid = requireUid(request);
+  const { clubId, eventId, registrationId } = requireStrings(request.data, 'clubId', 'eventId', 'registrationId');
+  const status = request.data?.status as RegistrationStatus;
+  if (!STATUSES.includes(status)) throw new HttpsError('invalid-argument', 'Unknown registration status.');
+  const isGuest = request.data?.isGuest === true;
+  const actor = await getProfile(uid);
+  const isOrganizer = can(actor, 'edit-event', clubId);
+  const registrationRef = registrationsRef(clubId, eventId, isGuest).doc(registrationId);
+
+  const result = await db.runTransaction(async (transaction) => {
+    const snap = await transaction.get(registrationRef);
+    if (!snap.exists) throw new HttpsError('not-found', 'Registration not found');
+    const registration = snap.data()!;
+    const teamRef = registration.teamId ? eventRef(clubId, eventId).collection('teams').doc(registration.teamId) : null;
+    const team = teamRef ? await transaction.get(teamRef) : null;
+    const captainId = team?.exists ? team.get('captainId') || team.get('createdBy') : null;
+
+    const isOwner = registration.userId === uid;
+    if (!isOrganizer && !(status === 'cancelled' && (isOwner || captainId === uid))) {
+      throw new HttpsError('permission-denied', 'You can only cancel your own registration.');
+    }
+    const previous: RegistrationStatus = registration.status;
+    if (previous === status) return { registration, previous, promoted: null };
+
+    // Every read happens before the first write
+    const release = previous === 'confirmed' ? await prepareSeatRelease(transaction, clubId, eventId, registrationId) : null;
+    const seats = release?.seats || (status === 'confirmed' || status === 'waitlisted' ? await readSeats(transaction, clubId, eventId) : null);
+
+    const changes: Record<string, any> = { status };
+    let waitlistCounter = seats?.waitlistCounter ?? 0;
+    if (status === 'waitlisted') {
+      waitlistCounter += 1;
+      changes.waitlistPosition = waitlistCounter;
+    }
+    if (status === 'confirmed') Object.assign(changes, confirmedFields(clubId, eventId, registrationId, isGuest, registration));
+
+    if (release) {
+      release.apply(waitlistCounter);
+    } else if (seats) {
+      writeSeats(transaction, clubId, eventId, { seatsTaken: seats.seatsTaken + (status === 'confirmed' ? 1 : 0), waitlistCounter });
+    }
+    transaction.update(registrationRef, changes);
+
+    // A cancelled member leaves their team; the captain role passes on and empty teams are removed
+    const members: { userId: string }[] = team?.exists ? team.get('members') || [] : [];
+    if (teamRef && status === 'cancelled' && members.some(m => m.userId === registration.userId)) {
+      const remaining = members.filter(m => m.userId !== registration.userId);
+      if (remaining.length === 0) {
+        transaction.delete(teamRef);
+      } else {
+        transaction.update(teamRef, {
+          members: remaining,
+          memberIds: remaining.map(m => m.userId),
+          captainId: captainId === registration.userId ? remaining[0].userId : captainId,
+        });
+      }
+    }
+    return { registration, previous, promoted: release?.promoted || null };
+  });
+
+  await notifyPromoted(result.promoted, eventId);
+  if (actor && isOrganizer && result.previous !== status && result.registration.userId !== uid) {
+    await recordAudit({
+      actor,
+      action: 'registration.status-changed',
+      targetType: 'registration',
+      targetId: registrationId,
+      clubId,
+      summary: `Changed the registration of ${result.registration.userName || registrationId} for ${result.registration.eventName || eventId} to ${status}`,
+      before: { status: result.previous ?? null },
+      after: { status },
+    });
+  }
+  return { status };
+});
+
+// Place of a waitlisted registration (1 = next to be promoted), for its owner and the organizers
+export const getWaitlistRank = onCall({ region: REGION }, async (request) => {
+  const uid = requireUid(request);
+  const { clubId, eventId, registrationId } = requireStrings(request.data, 'clubId', 'eventId', 'registrationId');
+  const isGuest = request.data?.isGuest === true;
+
+  const snap = await registrationsRef(clubId, eventId, isGuest).doc(registrationId).get();
+  if (!snap.exists) throw new HttpsError('not-found', 'Registration not found');
+  if (snap.get('userId') !== uid && !can(await getProfile(uid), 'export-registrations', clubId)) {
+    throw new HttpsError('permission-denied', 'You can only see your own place on the waitlist.');
+  }
+  if (snap.get('status') !== 'waitlisted') return { rank: null };
+
+  const ahead = await Promise.all([false, true].map(guest =>
+    registrationsRef(clubId, eventId, guest)
+      .where('status', '==', 'waitlisted')
+      .where('waitlistPosition', '<', snap.get('waitlistPosition') || 0)
+      .count()
+      .get()
+  ));
+  return { rank: ahead.reduce((total, count) => total + count.data().count, 1) };
+});
+
+// Organizers delete registrations directly; a deleted confirmed registration gives its seat back
+// Seats are only handed on while the event can still be attended; clean-ups of finished events
+// (the guest purge marks what it deletes) must not promote anyone or send "a seat opened up"
+const releaseDeletedSeat = async (clubId: string, eventId: string, registrationId: string, registration?: DocumentData) => {
+  if (registration?.status !== 'confirmed' || registration.purgedAt) return;
+  const eventSnap = await eventRef(clubId, eventId).get();
+  if (!eventSnap.exists || getScheduleStatus({ id: eventId, ...eventSnap.data() } as Event) === EventStatus.Past) return;
+  const promoted = await db.runTransaction(async (transaction) => {
+    const release = await prepareSeatRelease(transaction, clubId, eventId, registrationId);
+    release.apply();
+    return release.promoted;
+  });
+  await notifyPromoted(promoted, eventId);
+};
+
+export const onRegistrationDeleted = onDocumentDeleted(
+  { document: 'events/{clubId}/clubEvents/{eventId}/registrations/{registrationId}', region: REGION },
+  async (event) => {
+    const { clubId, eventId, registrationId } = event.params;
+    await releaseDeletedSeat(clubId, eventId, registrationId, event.data?.data());
+  }
+);
+
+export const onGuestRegistrationDeleted = onDocumentDeleted(
+  { document: 'events/{clubId}/clubEvents/{eventId}/guestRegistrations/{registrationId}', region: REGION },
+  async (event) => {
+    const { clubId, eventId, registrationId } = event.params;
+    await releaseDeletedSeat(clubId, eventId, registrationId, event.data?.data());
+  }
+);
@@ -0,0 +1,128 @@
+// Event capacity. Seat and waitlist counters live on the event document and only these functions
+// change them, inside the same transaction as the registration they belong to.
+import { DocumentData, FieldValue, QueryDocumentSnapshot, Transaction } from 'firebase-admin/firestore';
+import { buildTicket } from '../../utils/ticket';
+import { logger } from 'firebase-functions/v2';
+import { db, eventRef, notify, registrationsRef } from './admin';
+
+export interface SeatState {
+  exists: boolean;
+  event: DocumentData;
+  capacity: number; // 0 when the event has no limit
+  seatsTaken: number;
+  waitlistCounter: number;
+}
+
+/**
+ * Read an event's counters in a transaction. Events created before the counters were initialized
+ * have theirs counted from the confirmed registrations, and written back by the caller.
+ */
+export const readSeats = async (transaction: Transaction, clubId: string, eventId: string): Promise<SeatState> => {
+  const snap = await transaction.get(eventRef(clubId, eventId));
+  const event = snap.data() || {};
+  let seatsTaken: number = event.seatsTaken;
+  if (typeof seatsTaken !== 'number') {
+    const counts = await Promise.all([false, true].map(isGuest =>
+      transaction.get(registrationsRef(clubId, eventId, isGuest).where('status', '==', 'confirmed').count())
+    ));
+    seatsTaken = counts.reduce((total, count) => total + count.data().count, 0);
+  }
+  return {
+    exists: snap.exists,
+    event,
+    capacity: event.capacity > 0 ? event.capacity : 0,
+    seatsTaken,
+    waitlistCounter: event.waitlistCounter || 0,
+  };
+};
+
+export const hasFreeSeat = (seats: Pick<SeatState, 'capacity' | 'seatsTaken'>): boolean =>
+  !seats.capacity || seats.seatsTaken < seats.capacity;
+
+export const writeSeats = (transaction: Transaction, clubId: string, eventId: string, seats: Pick<SeatState, 'seatsTaken' | 'waitlistCounter'>) =>
+  transaction.update(eventRef(clubId, eventId), {
+    seatsTaken: Math.max(0, seats.seatsTaken),
+    waitlistCounter: seats.waitlistCounter,
+  });
+
+// The next waitlisted registration across regular and guest registrations, lowest position first
+export const findNextWaitlisted = async (
+  transaction: Transaction,
+  clubId: string,
+  eventId: string,
+  skipIds: string[] = []
+): Promise<QueryDocumentSnapshot | null> => {
+  const snaps = await Promise.all([false, true].map(isGuest =>
+    transaction.get(registrationsRef(clubId, eventId, isGuest)
+      .where('status', '==', 'waitlisted')
+      .orderBy('waitlistPosition')
+      .limit(skipIds.length + 1))
+  ));
+  const candidates = snaps
+    .flatMap(snap => snap.docs)
+    .filter(candidate => !skipIds.includes(candidate.id))
+    .sort((a, b) => (a.get('waitlistPosition') || 0) - (b.get('waitlistPosition') || 0));
+  return candidates[0] || null;
+};
+
+// Fields that confirm a registration into a seat, issuing its ticket if it doesn't have one yet
+export const confirmedFields = (clubId: string, eventId: string, registrationId: string, isGuest: boolean, existing: DocumentData) => ({
+  status: 'confirmed',
+  qrCode: existing.qrCode || buildTicket(clubId, eventId, registrationId, isGuest),
+});
+
+export const promotionFields = (candidate: QueryDocumentSnapshot, clubId: string, eventId: string) => ({
+  ...confirmedFields(clubId, eventId, candidate.id, !!candidate.get('isGuest'), candidate.data()),
+  promotedAt: FieldValue.serverTimestamp(),
+});
+
+/**
+ * Give back one confirmed seat and, when that frees room, hand it to the next waitlisted person.
+ * Does every read first, so call it before the transaction's own writes, then call `apply`.
+ * `apply` takes the waitlist counter to write when the caller also hands out a waitlist position.
+ */
+export const prepareSeatRelease = async (
+  transaction: Transaction,
+  clubId: string,
+  eventId: string,
+  releasingRegistrationId: string
+): Promise<{ promoted: QueryDocumentSnapshot | null; seats: SeatState; apply: (waitlistCounter?: number) => void }> => {
+  const seats = await readSeats(transaction, clubId, eventId);
+  const released = { ...seats, seatsTaken: seats.seatsTaken - 1 };
+  const promoted = seats.exists && hasFreeSeat(released)
+    ? await findNextWaitlisted(transaction, clubId, eventId, [releasingRegistrationId])
+    : null;
+
+  return {
+    promoted,
+    seats,
+    apply: (waitlistCounter = seats.waitlistCounter) => {
+      if (!seats.exists) return;
+      writeSeats(transaction, clubId, eventId, { seatsTaken: released.seatsTaken + (promoted ? 1 : 0), waitlistCounter });
+      if (promoted) transaction.update(promoted.ref, promotionFields(promoted, clubId, eventId));
+    },
+  };
+};
+
+// Tell someone their waitlisted registration now has a seat. Guests aren't signed in to see
+// notifications, so they are emailed instead.
+export const notifyPromoted = async (promoted: QueryDocumentSnapshot | null, eventId: string): Promise<void> => {
+  if (!promoted) return;
+  const message = `A seat opened up for ${promoted.get('eventName') || 'your event'}. Your registration is now confirmed!`;
+  if (promoted.ref.parent.id !== 'guestRegistrations') {
+    await notify(promoted.get('userId'), 'waitlist-promoted', message, `/events/${eventId}`);
+    return;
+  }
+  if (!promoted.get('userEmail')) return;
+  try {
+    await db.collection('mail').add({
+      to: promoted.get('userEmail'),
+      message: {
+        subject: `You're in: ${promoted.get('eventName') || 'your event'}`,
+        text: `${message} Verify this email address on the event page to see your ticket.`,
+      },
+    });
+  } catch (error) {
+    logger.error('Error emailing a promoted guest', error);
+  }
+};
@@ -0,0 +1,364 @@
+// Team events: teams are created and changed only here, so size limits, the lock deadline and
+// captain-only actions hold for every client. Invite codes live at teamInvites/{code}, which
+// clients can't read; members ask for their team's code and joiners redeem it.
+import { randomInt } from 'crypto';
+import { DocumentData, DocumentReference, FieldValue, QueryDocumentSnapshot, Transaction } from 'firebase-admin/firestore';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { logger } from 'firebase-functions/v2';
+import type { User } from '../../types';
+import { REGION, authorize, db, eventRef, getProfile, notify, recordAudit, registrationsRef, requireStrings, requireUid } from './admin';
+import { startRefund } from './refunds';
+import { notifyPromoted, prepareSeatRelease } from './seats';
+
+interface TeamMember {
+  userId: string;
+  userName: string;
+  userEmail: string;
+}
+
+const SYSTEM_ACTOR: Pick<User, 'id' | 'name'> = { id: 'system', name: 'Team deadline check' };
+
+// Invite codes skip look-alike characters (0/O, 1/I) so they can be read out loud
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const INVITE_CODE_LENGTH = 6;
+
+const teamsRef = (clubId: string, eventId: string) => eventRef(clubId, eventId).collection('teams');
+const inviteRef = (clubId: string, eventId: string, code: string) => eventRef(clubId, eventId).collection('teamInvites').doc(code);
+
+const generateInviteCode = () =>
+  Array.from({ length: INVITE_CODE_LENGTH }, () => INVITE_CODE_ALPHABET[randomInt(INVITE_CODE_ALPHABET.length)]).join('');
+
+const normalizeInviteCode = (code: unknown) => (typeof code === 'string' ? code.trim().toUpperCase() : '');
+
+export const isPastTeamDeadline = (teamLockDeadline?: string): boolean =>
+  !!teamLockDeadline && new Date(teamLockDeadline).getTime() <= Date.now();
+
+export const getTeamCaptainId = (team: DocumentData): string => team.captainId || team.createdBy;
+
+const getMembers = (team: DocumentData): TeamMember[] => team.members || [];
+
+// Teams created before memberIds was stored only have the members array
+export const getMemberIds = (team: DocumentData): string[] => team.memberIds || getMembers(team).map(m => m.userId);
+
+const requireTeamEvent = (event: DocumentData | undefined): DocumentData => {
+  if (!event) throw new HttpsError('not-found', 'Event not found.');
+  if (event.registrationType !== 'team') throw new HttpsError('failed-precondition', 'This is not a team event.');
+  if (isPastTeamDeadline(event.teamLockDeadline)) throw new HttpsError('failed-precondition', 'Teams for this event are locked');
+  return event;
+};
+
+// The caller's team for an event, if they are on one
+const findTeamOf = async (transaction: Transaction, clubId: string, eventId: string, userId: string) => {
+  const snap = await transaction.get(teamsRef(clubId, eventId).where('memberIds', 'array-contains', userId).limit(1));
+  return snap.docs[0] || null;
+};
+
+/**
+ * The team an invite code belongs to. Teams created before invites moved out of the team document
+ * still carry an inviteCode field; it is moved to teamInvites the first time it is used.
+ */
+const resolveInvite = async (clubId: string, eventId: string, code: string): Promise<string | null> => {
+  if (!code) return null;
+  const invite = await inviteRef(clubId, eventId, code).get();
+  if (invite.exists) return invite.get('teamId');
+  const legacy = await teamsRef(clubId, eventId).where('inviteCode', '==', code).limit(1).get();
+  if (legacy.empty) return null;
+  await moveLegacyInvite(clubId, eventId, legacy.docs[0].id, code);
+  return legacy.docs[0].id;
+};
+
+const moveLegacyInvite = async (clubId: string, eventId: string, teamId: string, code: string) => {
+  const batch = db.batch();
+  batch.set(inviteRef(clubId, eventId, code), { teamId, createdAt: FieldValue.serverTimestamp() });
+  batch.update(teamsRef(clubId, eventId).doc(teamId), { inviteCode: FieldValue.delete() });
+  await batch.commit();
+};
+
+const toMember = (profile: User): TeamMember => ({ userId: profile.id!, userName: profile.name, userEmail: profile.email || '' });
+
+// Guests join teams too, so a team's registrations are spread over both registration collections
+const teamRegistrationQueries = (clubId: string, eventId: string, teamId: string) =>
+  [false, true].map(isGuest => registrationsRef(clubId, eventId, isGuest).where('teamId', '==', teamId));
+
+const isGuestRegistration = (registration: QueryDocumentSnapshot) => registration.ref.parent.id === 'guestRegistrations';
+
+/**
+ * Give the whole payment back to a member whose paid registration a team change cancelled; they
+ * didn't choose to leave, so the event's refund window doesn't apply. A refund that can't be
+ * started is logged for the organizers to retry from the payments dashboard.
+ * @returns Whether the refund was started
+ */
+const refundCancelledMember = async (
+  actor: Pick<User, 'id' | 'name'>,
+  clubId: string,
+  eventId: string,
+  registration: QueryDocumentSnapshot,
+  note: string
+): Promise<boolean> => {
+  try {
+    const refund = await startRefund(
+      actor,
+      { clubId, eventId, registrationId: registration.id, isGuest: isGuestRegistration(registration) },
+      { reason: 'registration_cancelled', note, waiveRules: true }
+    );
+    if (refund.state !== 'failed') return true;
+    logger.error(`Refund for registration ${registration.id} failed: ${refund.failureReason}`);
+  } catch (error) {
+    logger.error(`Error refunding registration ${registration.id}`, error);
+  }
+  return false;
+};
+
+/**
+ * Create a team for a team event with the caller as its captain.
+ * @returns The new team's ID and the invite code to share with teammates
+ */
+export const createTeam = onCall({ region: REGION }, async (request) => {
+  const profile = await authorize(request, 'register-for-event');
+  const { clubId, eventId, teamName } = requireStrings(request.data, 'clubId', 'eventId', 'teamName');
+  const teamRef = teamsRef(clubId, eventId).doc();
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const inviteCode = generateInviteCode();
+    const created = await db.runTransaction(async (transaction) => {
+      requireTeamEvent((await transaction.get(eventRef(clubId, eventId))).data());
+      if (await findTeamOf(transaction, clubId, eventId, profile.id!)) {
+        throw new HttpsError('already-exists', 'You are already on a team for this event.');
+      }
+      if ((await transaction.get(inviteRef(clubId, eventId, inviteCode))).exists) return false;
+
+      transaction.create(teamRef, {
+        name: teamName.slice(0, 60),
+        eventId,
+        clubId,
+        members: [toMember(profile)],
+        memberIds: [profile.id],
+        createdBy: profile.id,
+        captainId: profile.id,
+        createdAt: FieldValue.serverTimestamp(),
+      });
+      transaction.create(inviteRef(clubId, eventId, inviteCode), { teamId: teamRef.id, createdAt: FieldValue.serverTimestamp() });
+      return true;
+    });
+    if (created) return { teamId: teamRef.id, inviteCode };
+  }
+  throw new HttpsError('aborted', 'Could not generate a unique invite code. Please try again.');
+});
+
+// Name and members of the team behind an invite code, so the joiner can confirm before joining
+export const lookupTeamInvite = onCall({ region: REGION }, async (request) => {
+  requireUid(request);
+  const { clubId, eventId } = requireStrings(request.data, 'clubId', 'eventId');
+  const teamId = await resolveInvite(clubId, eventId, normalizeInviteCode(request.data?.inviteCode));
+  const team = teamId ? await teamsRef(clubId, eventId).doc(teamId).get() : null;
+  if (!team?.exists) return { team: null };
+  return {
+    team: {
+      id: team.id,
+      name: team.get('name'),
+      members: getMembers(team.data()!).map(({ userId, userName }) => ({ userId, userName })),
+    },
+  };
+});
+
+// Members can see and share their team's invite code until the teams lock
+export const getTeamInviteCode = onCall({ region: REGION }, async (request) => {
+  const uid = requireUid(request);
+  const { clubId, eventId, teamId } = requireStrings(request.data, 'clubId', 'eventId', 'teamId');
+  const invites = await eventRef(clubId, eventId).collection('teamInvites').where('teamId', '==', teamId).limit(1).get();
+  const team = await teamsRef(clubId, eventId).doc(teamId).get();
+  if (!team.exists || !getMemberIds(team.data()!).includes(uid)) {
+    throw new HttpsError('permission-denied', 'Only team members can see the invite code.');
+  }
+  const legacyCode: string | undefined = team.get('inviteCode');
+  if (!invites.empty || !legacyCode) return { inviteCode: invites.docs[0]?.id || null };
+  await moveLegacyInvite(clubId, eventId, teamId, legacyCode);
+  return { inviteCode: legacyCode };
+});
+
+// Join a team using its invite code; enforces the event's maximum team size and lock deadline
+export const joinTeam = onCall({ region: REGION }, async (request) => {
+  const profile = await authorize(request, 'register-for-event');
+  const { clubId, eventId } = requireStrings(request.data, 'clubId', 'eventId');
+  const teamId = await resolveInvite(clubId, eventId, normalizeInviteCode(request.data?.inviteCode));
+  if (!teamId) throw new HttpsError('not-found', 'Invalid invite code');
+
+  return db.runTransaction(async (transaction) => {
+    const event = requireTeamEvent((await transaction.get(eventRef(clubId, eventId))).data());
+    const teamRef = teamsRef(clubId, eventId).doc(teamId);
+    const teamSnap = await transaction.get(teamRef);
+    if (!teamSnap.exists) throw new HttpsError('not-found', 'Team not found');
+    const current = await findTeamOf(transaction, clubId, eventId, profile.id!);
+
+    const team = teamSnap.data()!;
+    if (current?.id === teamRef.id) return { teamId: teamRef.id };
+    if (current) throw new HttpsError('already-exists', 'You are already on another team for this event.');
+    const members = getMembers(team);
+    if (event.maxTeamSize && members.length >= event.maxTeamSize) {
+      throw new HttpsError('failed-precondition', `This team is full (maximum ${event.maxTeamSize} members)`);
+    }
+
+    transaction.update(teamRef, {
+      members: [...members, toMember(profile)],
+      memberIds: [...getMemberIds(team), profile.id],
+    });
+    return { teamId: teamRef.id };
+  });
+});
+
+/**
+ * Run a captain-only change in a transaction: checks the caller is the captain and the teams
+ * aren't locked, then lets `change` read anything else it needs and return the team updates.
+ */
+const updateTeamAsCaptain = async <T>(
+  request: { auth?: { uid: string } },
+  clubId: string,
+  eventId: string,
+  teamId: string,
+  change: (transaction: Transaction, team: DocumentData) => Promise<{ updates: Record<string, any>; apply?: () => void; result: T }>
+): Promise<{ team: DocumentData; result: T }> => {
+  const uid = request.auth?.uid;
+  const teamRef = teamsRef(clubId, eventId).doc(teamId);
+  return db.runTransaction(async (transaction) => {
+    const event = (await transaction.get(eventRef(clubId, eventId))).data();
+    const teamSnap = await transaction.get(teamRef);
+    if (!teamSnap.exists) throw new HttpsError('not-found', 'Team not found');
+    const team = teamSnap.data()!;
+    if (!uid || getTeamCaptainId(team) !== uid) throw new HttpsError('permission-denied', 'Only the team captain can do this');
+    if (isPastTeamDeadline(event?.teamLockDeadline)) throw new HttpsError('failed-precondition', 'Teams for this event are locked');
+
+    const { updates, apply, result } = await change(transaction, team);
+    apply?.();
+    transaction.update(teamRef, updates);
+    return { team, result };
+  });
+};
+
+/**
+ * Captain removes a member. The member's registration, guest or not, is cancelled so their seat is
+ * freed, and a paid one is refunded in full.
+ */
+export const removeTeamMember = onCall({ region: REGION }, async (request) => {
+  const uid = requireUid(request);
+  const { clubId, eventId, teamId, memberUserId } = requireStrings(request.data, 'clubId', 'eventId', 'teamId', 'memberUserId');
+
+  const { team, result } = await updateTeamAsCaptain(request, clubId, eventId, teamId, async (transaction, current) => {
+    if (memberUserId === getTeamCaptainId(current)) throw new HttpsError('failed-precondition', "The captain can't be removed from the team");
+    if (!getMemberIds(current).includes(memberUserId)) throw new HttpsError('failed-precondition', 'This person is not on the team');
+
+    const registrations = await Promise.all(teamRegistrationQueries(clubId, eventId, teamId)
+      .map(query => transaction.get(query.where('userId', '==', memberUserId))));
+    const registration = registrations.flatMap(snap => snap.docs).find(r => r.get('status') !== 'cancelled');
+    const release = registration?.get('status') === 'confirmed'
+      ? await prepareSeatRelease(transaction, clubId, eventId, registration.id)
+      : null;
+
+    return {
+      updates: {
+        members: getMembers(current).filter(m => m.userId !== memberUserId),
+        memberIds: getMemberIds(current).filter(id => id !== memberUserId),
+      },
+      apply: () => {
+        release?.apply();
+        if (registration) transaction.update(registration.ref, { status: 'cancelled' });
+      },
+      result: { promoted: release?.promoted || null, registration },
+    };
+  });
+
+  await notifyPromoted(result.promoted, eventId);
+  await notify(memberUserId, 'team-update', `You were removed from team ${team.name} and your registration was cancelled.`, `/events/${eventId}`);
+  const { registration } = result;
+  if (registration?.get('paymentStatus') === 'paid') {
+    const captain = (await getProfile(uid)) || { id: uid, name: 'Team captain' };
+    await refundCancelledMember(captain, clubId, eventId, registration, `Removed from team ${team.name} by the captain`);
+  }
+  return { removed: true };
+});
+
+// Captain hands the captain role to another member
+export const transferTeamCaptain = onCall({ region: REGION }, async (request) => {
+  requireUid(request);
+  const { clubId, eventId, teamId, newCaptainId } = requireStrings(request.data, 'clubId', 'eventId', 'teamId', 'newCaptainId');
+
+  const { team } = await updateTeamAsCaptain(request, clubId, eventId, teamId, async (_transaction, current) => {
+    if (!getMemberIds(current).includes(newCaptainId)) {
+      throw new HttpsError('failed-precondition', 'The new captain must be a member of the team');
+    }
+    return { updates: { captainId: newCaptainId }, result: null };
+  });
+
+  await notify(newCaptainId, 'team-update', `You are now the captain of team ${team.name}.`, `/events/${eventId}`);
+  return { captainId: newCaptainId };
+});
+
+// Cancel one registration of a team that missed its minimum size, giving its seat back
+const cancelForIncompleteTeam = async (clubId: string, eventId: string, registrationRef: DocumentReference) => {
+  const promoted = await db.runTransaction(async (transaction) => {
+    const snap = await transaction.get(registrationRef);
+    const status = snap.get('status');
+    if (!snap.exists || status === 'cancelled') return null;
+    const release = status === 'confirmed' ? await prepareSeatRelease(transaction, clubId, eventId, registrationRef.id) : null;
+    release?.apply();
+    transaction.update(registrationRef, { status: 'cancelled' });
+    return release?.promoted || null;
+  });
+  await notifyPromoted(promoted, eventId);
+};
+
+/**
+ * Once an event's teams lock, teams below the minimum size lose their registrations, guests'
+ * included, and their seats go to the waitlist. Paid registrations are refunded in full.
+ */
+export const enforceTeamMinimums = onSchedule({ schedule: 'every 60 minutes', region: REGION }, async () => {
+  const locked = await db.collectionGroup('clubEvents')
+    .where('registrationType', '==', 'team')
+    .where('teamLockDeadline', '<=', new Date().toISOString())
+    .get();
+
+  for (const eventDoc of locked.docs) {
+    const event = eventDoc.data();
+    const clubId = eventDoc.ref.parent.parent?.id;
+    if (!clubId || eventDoc.ref.parent.parent?.parent.id !== 'events' || !event.minTeamSize || event.teamMinimumsEnforcedAt) continue;
+
+    try {
+      const teams = await teamsRef(clubId, eventDoc.id).get();
+      for (const team of teams.docs.filter(t => getMembers(t.data()).length < event.minTeamSize)) {
+        const registrations = await Promise.all(teamRegistrationQueries(clubId, eventDoc.id, team.id).map(query => query.get()));
+        const active = registrations.flatMap(snap => snap.docs).filter(r => r.get('status') !== 'cancelled');
+        const refundFailures: string[] = [];
+        for (const registration of active) {
+          await cancelForIncompleteTeam(clubId, eventDoc.id, registration.ref);
+          const paid = registration.get('paymentStatus') === 'paid';
+          if (paid && !await refundCancelledMember(SYSTEM_ACTOR, clubId, eventDoc.id, registration, `Team ${team.get('name')} locked below ${event.minTeamSize} members`)) {
+            refundFailures.push(registration.id);
+          }
+          await notify(
+            registration.get('userId'),
+            'team-update',
+            `Team ${team.get('name')} had fewer than ${event.minTeamSize} members when teams locked, so your registration was cancelled` +
+              (paid ? ' and your payment will be refunded.' : '.'),
+            `/events/${eventDoc.id}`
+          );
+        }
+        if (active.length) {
+          await recordAudit({
+            actor: SYSTEM_ACTOR,
+            action: 'registration.status-changed',
+            targetType: 'registration',
+            targetId: team.id,
+            clubId,
+            summary: `Cancelled ${active.length} registration(s) of team ${team.get('name')} for ${event.name || eventDoc.id}, which locked below ${event.minTeamSize} members` +
+              (refundFailures.length ? `; ${refundFailures.length} refund(s) could not be started and need to be retried` : ''),
+            before: { status: active.map(r => r.get('status')) },
+            after: { status: 'cancelled', refundFailedRegistrationIds: refundFailures },
+          });
+        }
+      }
+      await eventDoc.ref.update({ teamMinimumsEnforcedAt: new Date().toISOString() });
+    } catch (error) {
+      logger.error(`Error enforcing team sizes for ${eventDoc.id}`, error);
+    }
+  }
+});
@@ -1,7 +1,8 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { firestoreDataService } from '../services/firestoreDataService';
 import { setupRealtimeListeners } from '../services/realtimeDataService';
-import { Event, Club, User, LeadershipMember, AnnualEvent, NewsArticle, ExternalEvent, Notification, Application } from '../types';
+import { can } from '../utils/permissions';
+import { Event, Club, User, LeadershipMember, AnnualEvent, NewsArticle, ExternalEvent, Application } from '../types';
 
 interface DataState {
   events: Event[];
@@ -11,7 +12,6 @@ interface DataState {
   news: NewsArticle[];
   externalEvents: ExternalEvent[];
   users: User[];
-  notifications: Notification[];
   applications: Application[];
 }
 
@@ -29,7 +29,6 @@ export const useDataFetching = ({ user, enableRealtime = true }: UseDataFetching
     news: [],
     externalEvents: [],
     users: [], // Will be loaded only when needed
-    notifications: [],
     applications: [],
   });
 
@@ -117,15 +116,11 @@ export const useDataFetching = ({ user, enableRealtime = true }: UseDataFetching
     const fetchUserData = async () => {
       setIsUserDataLoading(true);
       try {
-        // Only load essential user data
-        const [notificationsData, applicationsData] = await Promise.all([
-          firestoreDataService.getNotifications(),
-          firestoreDataService.getApplications()
-        ]);
+        // Only load essential user data; notifications are streamed separately by useNotifications
+        const applicationsData = await firestoreDataService.getApplications();
         
         setData(prev => ({
           ...prev,
-          notifications: notificationsData,
           applications: applicationsData,
         }));
         
@@ -148,7 +143,6 @@ export const useDataFetching = ({ user, enableRealtime = true }: UseDataFetching
       setData(prev => ({
         ...prev,
         users: [],
-        notifications: [],
         applications: [],
       }));
       hasUserDataLoaded.current = false;
@@ -173,13 +167,10 @@ export const useDataFetching = ({ user, enableRealtime = true }: UseDataFetching
         setData(prev => ({ ...prev, clubs }));
       },
       // Only add other listeners if they're actually needed
-      onNotificationsUpdate: user ? (notifications) => {
-        setData(prev => ({ ...prev, notifications }));
-      } : undefined,
       onApplicationsUpdate: user ? (applications) => {
         setData(prev => ({ ...prev, applications }));
       } : undefined,
-    }, user.id, user.role === 'admin');
+    }, user.id, can(user, 'view-admin-console'));
 
     realtimeCleanup.current = cleanup;
 
@@ -0,0 +1,46 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Notification, User } from '../types';
+import { realtimeDataService } from '../services/realtimeDataService';
+import { notificationService } from '../services/notificationService';
+
+export const useNotifications = (user: User | null) => {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+
+  // Only the signed-in user's notifications are streamed, newest first
+  useEffect(() => {
+    if (!user?.id || user.isGuest) {
+      setNotifications([]);
+      return;
+    }
+
+    const unsubscribe = realtimeDataService.listenToUserNotifications(user.id, setNotifications);
+    return () => unsubscribe();
+  }, [user?.id, user?.isGuest]);
+
+  const markAsRead = useCallback(async (notificationId: string) => {
+    // Update locally right away; the listener confirms once Firestore has the write
+    setNotifications(prev => prev.map(n => n.id === notificationId ? { ...n, isRead: true } : n));
+    try {
+      await notificationService.markAsRead(notificationId);
+    } catch (error) {
+      console.error('Error marking notification as read:', error);
+    }
+  }, []);
+
+  const markAllAsRead = useCallback(async () => {
+    if (!user?.id) return;
+    setNotifications(prev => prev.map(n => ({ ...n, isRead: true })));
+    try {
+      await notificationService.markAllAsRead(user.id);
+    } catch (error) {
+      console.error('Error marking all notifications as read:', error);
+    }
+  }, [user?.id]);
+
+  return {
+    notifications,
+    unreadCount: notifications.filter(n => !n.isRead).length,
+    markAsRead,
+    markAllAsRead,
+  };
+};
@@ -1,6 +1,10 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { Event, User } from '../types';
+import { Certificate, Event, User } from '../types';
 import { optimizedRegistrationService } from '../services/optimizedRegistrationService';
+import { refundService, UserRefund } from '../services/refundService';
+import { certificateService } from '../services/certificateService';
+import { invoiceService } from '../services/invoiceService';
+import { Invoice } from '../utils/invoice';
 
 interface UseProfileDataOptions {
   user: User | null;
@@ -10,6 +14,9 @@ interface UseProfileDataOptions {
 
 export const useProfileData = ({ user, events, activeTab }: UseProfileDataOptions) => {
   const [registeredEvents, setRegisteredEvents] = useState<Event[]>([]);
+  const [refunds, setRefunds] = useState<UserRefund[]>([]);
+  const [certificates, setCertificates] = useState<Certificate[]>([]);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
   const [isLoadingRegistrations, setIsLoadingRegistrations] = useState(false);
   
   // Refs to prevent duplicate calls
@@ -26,8 +33,16 @@ export const useProfileData = ({ user, events, activeTab }: UseProfileDataOption
         const userId = user.isGuest ? user.id : (user.id || '');
         
         // Use optimized service - single read + efficient filtering
-        const userRegisteredEvents = await optimizedRegistrationService.getUserRegisteredEvents(userId, events);
+        const [userRegisteredEvents, userRefunds, userCertificates, userInvoices] = await Promise.all([
+          optimizedRegistrationService.getUserRegisteredEvents(userId, events),
+          refundService.getUserRefunds(userId),
+          certificateService.getUserCertificates(userId),
+          invoiceService.getUserInvoices(userId),
+        ]);
         setRegisteredEvents(userRegisteredEvents);
+        setRefunds(userRefunds);
+        setCertificates(userCertificates);
+        setInvoices(userInvoices);
         hasLoadedRegistrations.current = true;
       } catch (error) {
         console.error('Error fetching user registrations:', error);
@@ -46,6 +61,9 @@ export const useProfileData = ({ user, events, activeTab }: UseProfileDataOption
       if (activeTab !== 'events') {
         hasLoadedRegistrations.current = false;
         setRegisteredEvents([]);
+        setRefunds([]);
+        setCertificates([]);
+        setInvoices([]);
       }
     }
   }, [activeTab]);
@@ -68,8 +86,16 @@ export const useProfileData = ({ user, events, activeTab }: UseProfileDataOption
       const userId = user.isGuest ? user.id : (user.id || '');
       
       // Use optimized service - single read + efficient filtering
-      const userRegisteredEvents = await optimizedRegistrationService.getUserRegisteredEvents(userId, events);
+      const [userRegisteredEvents, userRefunds, userCertificates, userInvoices] = await Promise.all([
+        optimizedRegistrationService.getUserRegisteredEvents(userId, events),
+        refundService.getUserRefunds(userId),
+        certificateService.getUserCertificates(userId),
+        invoiceService.getUserInvoices(userId),
+      ]);
       setRegisteredEvents(userRegisteredEvents);
+      setRefunds(userRefunds);
+      setCertificates(userCertificates);
+      setInvoices(userInvoices);
       hasLoadedRegistrations.current = true;
     } catch (error) {
       console.error('Error refreshing registrations:', error);
@@ -80,6 +106,9 @@ export const useProfileData = ({ user, events, activeTab }: UseProfileDataOption
 
   return {
     registeredEvents,
+    refunds,
+    certificates,
+    invoices,
     isLoadingRegistrations,
     refreshRegistrations,
   };
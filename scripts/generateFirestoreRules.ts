@@ -0,0 +1,489 @@
+// Generates firestore.rules from the permission policy in utils/permissions.ts.
+// Run with `npm run rules:generate` after changing the policy or the path table below.
+import { writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { PERMISSION_POLICY, Capability, PolicyRole } from '../utils/permissions';
+
+// Roles read straight from users/{uid}.role; the rest are club-scoped grants
+const GLOBAL_ROLES: PolicyRole[] = ['admin', 'contributor', 'student', 'guest'];
+
+type Operation = 'read' | 'get' | 'list' | 'create' | 'update' | 'delete' | 'write';
+
+interface RuleMatch {
+  path: string;
+  comment?: string;
+  allow: Partial<Record<Operation, string>>;
+}
+
+const toRulesList = (values: readonly string[]): string => `[${values.map(v => `'${v}'`).join(', ')}]`;
+
+// Access grants on a profile, which new signups may not give themselves
+const PROFILE_GRANTS = "['clubRoles', 'managedClubIds', 'isGuest', 'emailVerifiedAt']";
+const PHONEPE_SECRETS = "['saltKey', 'saltIndex', 'bankAccountNumber', 'panNumber']";
+const EVENT_PATH = '/databases/$(database)/documents/events/$(clubId)/clubEvents/$(eventId)';
+// Seats, waitlist positions and tickets are handed out by the registration functions
+const SEAT_FIELDS = "['seatsTaken', 'waitlistCounter']";
+const NEW_EVENT_SEATS = "request.resource.data.get('seatsTaken', 0) == 0 && request.resource.data.get('waitlistCounter', 0) == 0";
+const REGISTRATION_UPDATE = [
+  "(isUser(resource.data.userId) && resource.data.status == 'confirmed' && !('qrCode' in resource.data) && onlyChanges(['qrCode']))",
+  "(canCheckInAttendees(clubId) && onlyChanges(['checkInStatus', 'checkInTime', 'checkedInBy']))",
+  "(canEditEvent(clubId) && !changes(['userId', 'status', 'waitlistPosition', 'promotedAt', 'qrCode', 'paymentStatus', 'paymentId', 'refundStatus', 'refundAmount']))",
+].join(' || ');
+
+// Drive applications are accepted between the drive's opening and closing times; requests outside a
+// drive are kept to one per person under their uid
+const DRIVE_PATH = '/databases/$(database)/documents/clubs/$(clubId)/recruitmentDrives/$(request.resource.data.driveId)';
+const DRIVE_APPLICATION = [
+  "applicationId == request.resource.data.driveId + '_' + request.auth.uid",
+  `request.time.toMillis() >= get(${DRIVE_PATH}).data.get('opensAtMs', 0)`,
+  `request.time.toMillis() < get(${DRIVE_PATH}).data.get('closesAtMs', 0)`,
+].join(' && ');
+const APPLICATION_CREATE = `canApplyToClub() && isUser(request.resource.data.userId) && (('driveId' in request.resource.data && ${DRIVE_APPLICATION}) || (!('driveId' in request.resource.data) && applicationId == request.auth.uid))`;
+
+// Scorecards are stored as {judgeId}_{entrantId}
+const SCORECARD_ID = "scoreId == request.auth.uid + '_' + request.resource.data.entrantId";
+const SCORING_OPEN = `get(${EVENT_PATH}/judging/config).data.get('status', '') == 'open'`;
+
+const NOTIFICATION_CREATE = [
+  'isSignedIn() && !isGuestSession()',
+  'request.resource.data.senderId == request.auth.uid',
+  'request.resource.data.timestamp == request.time',
+  'request.resource.data.isRead == false',
+  'exists(/databases/$(database)/documents/users/$(request.resource.data.userId))',
+  "(canViewAdminConsole() || hasClubRole(request.resource.data.get('clubId', ''), ['contributor', 'club-lead', 'coordinator']) || ('annualEventId' in request.resource.data && isFestCoordinator(request.resource.data.annualEventId)))",
+].join(' && ');
+
+// Paths the app reads and writes, expressed in terms of the capability functions
+const RULE_MATCHES: RuleMatch[] = [
+  {
+    path: 'users/{userId}',
+    comment: 'Profiles: users edit their own details; only admins change roles and grants here. Club leads grant access to their own club through the club access functions. Guest profiles are written only by the guest sign-in function',
+    allow: {
+      read: 'isUser(userId) || (isSignedIn() && !isGuestSession())',
+      create: `isUser(userId) && !isGuestSession() && request.resource.data.role == 'student' && !request.resource.data.keys().hasAny(${PROFILE_GRANTS})`,
+      update: "(isUser(userId) && !isGuestSession() && !changes(['role', 'managedClubIds', 'clubRoles', 'isGuest', 'emailVerifiedAt'])) || canManageContributors()",
+      delete: 'canManageContributors()',
+    },
+  },
+  {
+    path: 'clubs/{clubId}',
+    comment: 'Only club leads edit the team; reviewers add accepted applicants through acceptApplication. Treasurers keep the public copy of the Razorpay linked account in step',
+    allow: {
+      read: 'true',
+      create: 'canCreateClub()',
+      update: "canManageClubTeam(clubId) || (canManageClubProfile(clubId) && !changes(['team'])) || (canManagePayments(clubId) && onlyChanges(['razorpayLinkedAccountId']))",
+      delete: 'canCreateClub()',
+    },
+  },
+  {
+    path: 'clubs/{clubId}/applications/{applicationId}',
+    comment: 'Drive applications use the id {driveId}_{userId} and other requests the id {userId}, so a second application is an update and is refused',
+    allow: {
+      read: 'isUser(resource.data.userId) || canReviewApplications(clubId)',
+      create: APPLICATION_CREATE,
+      update: 'canReviewApplications(clubId)',
+    },
+  },
+  {
+    path: 'clubs/{clubId}/recruitmentDrives/{driveId}',
+    allow: {
+      read: 'true',
+      write: 'canReviewApplications(clubId)',
+    },
+  },
+  {
+    path: 'clubs/{clubId}/applications/{applicationId}/reviews/{reviewId}',
+    comment: 'Reviewer notes and scores stay hidden from the applicant; each reviewer writes only their own',
+    allow: {
+      read: 'canReviewApplications(clubId)',
+      write: "canReviewApplications(clubId) && reviewId.matches(request.auth.uid + '_.*')",
+    },
+  },
+  {
+    path: 'clubs/{clubId}/clubEvents/{eventId}',
+    allow: {
+      read: 'true',
+      create: `canCreateEvent(clubId) && ${NEW_EVENT_SEATS}`,
+      update: `canEditEvent(clubId) && !changes(${SEAT_FIELDS})`,
+      delete: 'canEditEvent(clubId)',
+    },
+  },
+  {
+    path: 'events/{clubId}/clubEvents/{eventId}',
+    comment: 'Only the registration functions move the seat and waitlist counters. Attendees add or remove only themselves from registeredUsers',
+    allow: {
+      read: 'true',
+      create: `canCreateEvent(clubId) && ${NEW_EVENT_SEATS}`,
+      update: `(canEditEvent(clubId) && !changes(${SEAT_FIELDS})) || (canManageEventHighlights(clubId) && onlyChanges(['highlights', 'winnerDetails', 'eventImages', 'status'])) || (canManageJudging(clubId) && onlyChanges(['judgeIds'])) || (isSignedIn() && onlyChanges(['registeredUsers']) && request.resource.data.registeredUsers.removeAll([request.auth.uid]) == resource.data.get('registeredUsers', []).removeAll([request.auth.uid]))`,
+      delete: 'canEditEvent(clubId)',
+    },
+  },
+  {
+    path: 'events/{clubId}/clubEvents/{eventId}/registrations/{registrationId}',
+    comment: 'Registrations are created and change status only through the registration functions and the payment webhook receivers. Attendees may only store the ticket of a confirmed registration that has none',
+    allow: {
+      read: 'isUser(resource.data.userId) || canExportRegistrations(clubId)',
+      update: REGISTRATION_UPDATE,
+      delete: 'canEditEvent(clubId)',
+    },
+  },
+  {
+    path: 'events/{clubId}/clubEvents/{eventId}/guestRegistrations/{registrationId}',
+    comment: 'Guests sign in with a custom token whose uid is their guest ID; their registrations follow the same rules',
+    allow: {
+      read: 'isUser(resource.data.userId) || canExportRegistrations(clubId) || canCheckInAttendees(clubId)',
+      update: REGISTRATION_UPDATE,
+      delete: 'canEditEvent(clubId)',
+    },
+  },
+  {
+    path: 'events/{clubId}/clubEvents/{eventId}/payments/{paymentId}',
+    comment: 'Only the payment webhook receivers create payment records, and only the refund function and refund webhooks change them',
+    allow: {
+      read: 'isUser(resource.data.userId) || canManagePayments(clubId) || canIssueRefunds(clubId) || canReconcilePayments()',
+    },
+  },
+  {
+    path: 'events/{clubId}/clubEvents/{eventId}/guest_payments/{paymentId}',
+    allow: {
+      read: 'isUser(resource.data.userId) || canManagePayments(clubId) || canIssueRefunds(clubId) || canReconcilePayments()',
+    },
+  },
+  {
+    path: 'events/{clubId}/clubEvents/{eventId}/teams/{teamId}',
+    comment: 'Teams change only through the team functions, which enforce captain-only actions, the size limits and the lock deadline. Invite codes live in teamInvites, which clients never read',
+    allow: {
+      read: "(isSignedIn() && request.auth.uid in resource.data.get('memberIds', [])) || canExportRegistrations(clubId)",
+      delete: 'canEditEvent(clubId)',
+    },
+  },
+  {
+    path: 'events/{clubId}/clubEvents/{eventId}/tournaments/{tournamentId}',
+    comment: 'Fixtures and scores are public so the leaderboard can update live',
+    allow: {
+      read: 'true',
+      write: 'canManageFixtures(clubId)',
+    },
+  },
+  {
+    path: 'events/{clubId}/clubEvents/{eventId}/judging/{docId}',
+    allow: {
+      read: 'isSignedIn()',
+      write: 'canManageJudging(clubId)',
+    },
+  },
+  {
+    path: 'events/{clubId}/clubEvents/{eventId}/judgeScores/{scoreId}',
+    comment: 'Judges only see and edit their own scorecards, and only while scoring is open',
+    allow: {
+      read: 'isUser(resource.data.judgeId) || canManageJudging(clubId)',
+      create: `isEventJudge(clubId, eventId) && isUser(request.resource.data.judgeId) && ${SCORECARD_ID} && ${SCORING_OPEN}`,
+      update: `isEventJudge(clubId, eventId) && isUser(resource.data.judgeId) && isUser(request.resource.data.judgeId) && ${SCORECARD_ID} && ${SCORING_OPEN}`,
+      delete: 'canManageJudging(clubId)',
+    },
+  },
+  {
+    path: 'paymentConfigurations/{configId}',
+    allow: {
+      read: 'true',
+      create: 'canManagePayments(request.resource.data.clubId)',
+      update: 'canManagePayments(resource.data.clubId)',
+      delete: 'canManagePayments(resource.data.clubId)',
+    },
+  },
+  {
+    path: 'phonepeAccounts/{accountId}',
+    comment: 'Secrets live in the credential vault; account documents may only carry masked copies',
+    allow: {
+      read: 'canManagePayments(resource.data.clubId)',
+      create: `canManagePayments(request.resource.data.clubId) && !request.resource.data.keys().hasAny(${PHONEPE_SECRETS})`,
+      update: `canManagePayments(resource.data.clubId) && !request.resource.data.keys().hasAny(${PHONEPE_SECRETS})`,
+    },
+  },
+  {
+    path: 'clubs/{clubId}/paymentDetails/{gateway}',
+    comment: 'Private to treasurers; checkout reads the linked account ID from the club and the bank account number is kept in the credential vault',
+    allow: {
+      read: 'canManagePayments(clubId)',
+      create: "canManagePayments(clubId) && !request.resource.data.get('bank_account', {}).keys().hasAny(['account_number'])",
+      update: "canManagePayments(clubId) && !request.resource.data.get('bank_account', {}).keys().hasAny(['account_number'])",
+    },
+  },
+  {
+    path: 'paymentIntents/{orderId}',
+    comment: 'Created with a held seat by the payment intent function before checkout; only the webhook receivers move it past created',
+    allow: {
+      read: 'isUser(resource.data.userId) || canManagePayments(resource.data.clubId)',
+    },
+  },
+  {
+    path: 'paymentWebhooks/{webhookKey}',
+    comment: 'Every verified gateway webhook and what the receiver did with it',
+    allow: { read: 'canReconcilePayments()' },
+  },
+  {
+    path: 'clubs/{clubId}/ledger/{entryId}',
+    comment: 'Double-entry ledger posted by the payment webhook receivers',
+    allow: { read: 'canManagePayments(clubId) || canReconcilePayments()' },
+  },
+  {
+    path: 'clubs/{clubId}/coupons/{code}',
+    comment: 'Only treasurers see codes; attendees get prices from the quote function, and only the payment functions count reservations and redemptions',
+    allow: {
+      read: 'canManagePayments(clubId)',
+      create: "canManagePayments(clubId) && request.resource.data.clubId == clubId && request.resource.data.code == code && request.resource.data.usedCount == 0 && request.resource.data.get('reservedCount', 0) == 0",
+      update: "canManagePayments(clubId) && request.resource.data.code == resource.data.code && !changes(['usedCount', 'reservedCount'])",
+    },
+  },
+  {
+    path: 'invoices/{invoiceId}',
+    comment: 'Issued and numbered by the payment functions; never edited once issued. Guests read theirs through their guest session',
+    allow: { read: 'isUser(resource.data.userId) || canManagePayments(resource.data.clubId)' },
+  },
+  {
+    path: 'clubs/{clubId}/invoiceCounters/{series}',
+    comment: 'Sequential invoice numbers; only Cloud Functions touch them',
+    allow: {
+      read: 'false',
+      write: 'false',
+    },
+  },
+  {
+    path: 'credentialVault/{entryId}',
+    comment: 'Encrypted gateway secrets; only Cloud Functions read or write them',
+    allow: {
+      read: 'false',
+      write: 'false',
+    },
+  },
+  {
+    path: 'notifications/{notificationId}',
+    comment: 'Staff notify users on behalf of a club or fest they run; the Cloud Functions send the rest',
+    allow: {
+      read: 'isUser(resource.data.userId)',
+      create: NOTIFICATION_CREATE,
+      update: "isUser(resource.data.userId) && onlyChanges(['isRead'])",
+      delete: 'isUser(resource.data.userId)',
+    },
+  },
+  {
+    path: 'annualEvents/{annualEventId}',
+    comment: 'Fest coordinators maintain competition settings and results inside yearlyData',
+    allow: {
+      read: 'true',
+      write: 'canViewAdminConsole()',
+      update: "isFestCoordinator(annualEventId) && onlyChanges(['yearlyData'])",
+    },
+  },
+  {
+    path: 'annualEvents/{annualEventId}/sportEntries/{entryId}',
+    comment: 'Captains enter and withdraw their roster; coordinators approve entries and edit rosters',
+    allow: {
+      read: 'isSignedIn()',
+      create: "isUser(request.resource.data.captainId) && request.resource.data.status == 'pending'",
+      update: "isFestCoordinator(annualEventId) || (isUser(resource.data.captainId) && request.resource.data.status == 'withdrawn' && onlyChanges(['status', 'updatedAt']))",
+    },
+  },
+  {
+    path: 'annualEvents/{annualEventId}/tournaments/{tournamentId}',
+    allow: {
+      read: 'true',
+      write: 'isFestCoordinator(annualEventId)',
+    },
+  },
+  {
+    path: 'certificateTemplates/{clubId}',
+    allow: {
+      read: 'isSignedIn()',
+      write: 'canIssueCertificates(clubId)',
+    },
+  },
+  {
+    path: 'certificates/{certId}',
+    comment: 'Anyone holding an id can verify it, but only recipients and the issuing club can list certificates',
+    allow: {
+      get: 'true',
+      list: 'isUser(resource.data.recipientId) || canIssueCertificates(resource.data.clubId)',
+      create: 'canIssueCertificates(request.resource.data.clubId)',
+    },
+  },
+  {
+    path: 'auditLogs/{entryId}',
+    comment: 'Written only by the functions, from triggers on the audited documents or by the callables themselves, and never changed afterwards',
+    allow: {
+      read: 'canViewAuditLog()',
+    },
+  },
+  {
+    path: 'eventAnalytics/{eventId}',
+    comment: 'Attendance summaries are computed by the analytics functions when registrations change, or when an admin rebuilds them all',
+    allow: {
+      read: 'canViewAnalytics()',
+    },
+  },
+  {
+    path: 'maintenance/{taskId}',
+    comment: 'Bookkeeping for periodic jobs run as scheduled functions; admins may re-run payment reconciliation from the console',
+    allow: {
+      read: 'canViewAdminConsole()',
+      write: "taskId == 'paymentReconciliation' && canReconcilePayments()",
+    },
+  },
+  {
+    path: 'applications/{applicationId}',
+    comment: 'Read-only archive of applications sent before they moved under each club, where drive windows are enforced',
+    allow: {
+      read: 'isUser(resource.data.userId) || canReviewApplications(resource.data.clubId)',
+      update: 'canReviewApplications(resource.data.clubId)',
+    },
+  },
+  {
+    path: 'otp_verifications/{guestId}',
+    comment: 'Hashed guest sign-in codes; only the guest sign-in functions read or write them',
+    allow: {
+      read: 'false',
+      write: 'false',
+    },
+  },
+  {
+    path: 'mail/{mailId}',
+    comment: 'Outgoing email, delivered by the Trigger Email extension',
+    allow: {
+      read: 'false',
+      write: 'false',
+    },
+  },
+  {
+    path: '{path=**}/clubEvents/{eventId}',
+    comment: 'Collection-group queries used for the all-events listing',
+    allow: { read: 'true' },
+  },
+  {
+    path: '{path=**}/payments/{paymentId}',
+    comment: 'Collection-group query behind the profile refunds list',
+    allow: { read: 'isUser(resource.data.userId)' },
+  },
+  {
+    path: '{path=**}/guest_payments/{paymentId}',
+    comment: 'The same list for guests, signed in with their guest ID',
+    allow: { read: 'isUser(resource.data.userId)' },
+  },
+  ...['leadership', 'news', 'externalEvents'].map(collectionName => ({
+    path: `${collectionName}/{docId}`,
+    allow: {
+      read: 'true',
+      write: 'canViewAdminConsole()',
+    },
+  })),
+];
+
+const functionName = (capability: Capability): string =>
+  'can' + capability.split('-').map(part => part[0].toUpperCase() + part.slice(1)).join('');
+
+const renderCapability = (capability: Capability): string => {
+  const rule = PERMISSION_POLICY[capability];
+  const lines = [`    // ${rule.description}`];
+  if (rule.scope === 'global') {
+    lines.push(`    function ${functionName(capability)}() {`);
+    lines.push(`      return hasGlobalRole(${toRulesList(rule.roles)});`);
+  } else {
+    // Contributors are scoped through managedClubIds, so they never count as a global role here
+    const globalRoles = rule.roles.filter(role => GLOBAL_ROLES.includes(role) && role !== 'contributor');
+    const clubRoles = rule.roles.filter(role => !globalRoles.includes(role));
+    const checks = [
+      ...(globalRoles.length ? [`hasGlobalRole(${toRulesList(globalRoles)})`] : []),
+      ...(clubRoles.length ? [`hasClubRole(clubId, ${toRulesList(clubRoles)})`] : []),
+    ];
+    lines.push(`    function ${functionName(capability)}(clubId) {`);
+    lines.push(`      return ${checks.join(' || ') || 'false'};`);
+  }
+  lines.push('    }');
+  return lines.join('\n');
+};
+
+const renderMatch = (match: RuleMatch): string => {
+  const lines: string[] = [];
+  if (match.comment) lines.push(`    // ${match.comment}`);
+  lines.push(`    match /${match.path} {`);
+  (Object.keys(match.allow) as Operation[]).forEach(operation => {
+    lines.push(`      allow ${operation}: if ${match.allow[operation]};`);
+  });
+  lines.push('    }');
+  return lines.join('\n');
+};
+
+export const buildFirestoreRules = (): string => `// GENERATED FILE - do not edit by hand.
+// Source: utils/permissions.ts and scripts/generateFirestoreRules.ts (npm run rules:generate)
+rules_version = '2';
+
+service cloud.firestore {
+  match /databases/{database}/documents {
+
+    function isSignedIn() {
+      return request.auth != null;
+    }
+
+    function isUser(userId) {
+      return isSignedIn() && request.auth.uid == userId;
+    }
+
+    // Guest sessions come from custom tokens minted by the guest sign-in function
+    function isGuestSession() {
+      return isSignedIn() && request.auth.token.get('guest', false) == true;
+    }
+
+    function profile() {
+      return get(/databases/$(database)/documents/users/$(request.auth.uid)).data;
+    }
+
+    function hasGlobalRole(roles) {
+      return isSignedIn() && profile().get('role', 'student') in roles;
+    }
+
+    function hasClubRole(clubId, roles) {
+      return isSignedIn() && (
+        ('contributor' in roles && clubId in profile().get('managedClubIds', []))
+        || profile().get('clubRoles', {}).get(clubId, '') in roles
+      );
+    }
+
+    function managesAnyClub() {
+      return isSignedIn() && (profile().get('managedClubIds', []).size() > 0 || profile().get('clubRoles', {}).size() > 0);
+    }
+
+    function isTeamCaptain(clubId, eventId, teamId) {
+      return isSignedIn() && teamId != ''
+        && get(${EVENT_PATH}/teams/$(teamId)).data.get('captainId', '') == request.auth.uid;
+    }
+
+    function isEventJudge(clubId, eventId) {
+      return isSignedIn() && request.auth.uid in get(${EVENT_PATH}).data.get('judgeIds', []);
+    }
+
+    function isFestCoordinator(annualEventId) {
+      return canManageFestCompetitions()
+        || (isSignedIn() && request.auth.uid in get(/databases/$(database)/documents/annualEvents/$(annualEventId)).data.get('coordinatorIds', []));
+    }
+
+    function changes(fields) {
+      return request.resource.data.diff(resource.data).affectedKeys().hasAny(fields);
+    }
+
+    function onlyChanges(fields) {
+      return request.resource.data.diff(resource.data).affectedKeys().hasOnly(fields);
+    }
+
+    // ===== Capabilities =====
+
+${(Object.keys(PERMISSION_POLICY) as Capability[]).map(renderCapability).join('\n\n')}
+
+    // ===== Collections =====
+
+${RULE_MATCHES.map(renderMatch).join('\n\n')}
+  }
+}
+`;
+
+const outputPath = resolve(process.cwd(), 'firestore.rules');
+writeFileSync(outputPath, buildFirestoreRules());
+console.log(`Wrote ${outputPath}`);
@@ -0,0 +1,31 @@
+import { getDocs, collection } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from '../firebaseConfig';
+import { EventAttendanceSummary } from '../types';
+import { permissionService } from './permissionService';
+
+// Written only by the analytics functions, which re-aggregate an event after its registrations change
+const summariesRef = collection(db, 'eventAnalytics');
+
+export const analyticsService = {
+  // Every stored summary; the dashboard filters and aggregates them client-side
+  getSummaries: async (): Promise<EventAttendanceSummary[]> => {
+    try {
+      const snap = await getDocs(summariesRef);
+      return snap.docs.map(d => d.data() as EventAttendanceSummary);
+    } catch (error) {
+      console.error('Error getting attendance summaries:', error);
+      return [];
+    }
+  },
+
+  /**
+   * Re-aggregate every event from its registrations
+   * @returns How many events were summarized and the names of those without a readable date
+   */
+  rebuildAll: async (): Promise<{ summarized: number; skipped: string[] }> => {
+    await permissionService.authorize('view-analytics');
+    const result = await httpsCallable<void, { summarized: number; skipped: string[] }>(functions, 'rebuildEventAnalytics')();
+    return result.data;
+  },
+};
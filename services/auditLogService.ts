@@ -0,0 +1,90 @@
+import { collection, getDocs, query, where, orderBy, limit, startAfter, Timestamp, DocumentSnapshot, QueryConstraint } from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import { AuditAction, AuditTargetType } from '../utils/auditLog';
+
+export type { AuditAction, AuditTargetType } from '../utils/auditLog';
+
+export interface AuditLogEntry {
+  id: string;
+  actorId: string;
+  actorName: string;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  clubId?: string;
+  summary: string;
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  timestamp: string; // ISO string; stored as a server timestamp
+}
+
+export interface AuditLogFilters {
+  action?: AuditAction | '';
+  actorId?: string;
+  targetType?: AuditTargetType | '';
+  search?: string;
+  from?: string; // yyyy-mm-dd, inclusive
+  to?: string; // yyyy-mm-dd, inclusive
+}
+
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  cursor: DocumentSnapshot | null; // Pass back to load the next page; null once there are no more
+}
+
+const AUDIT_COLLECTION = 'auditLogs';
+const PAGE_SIZE = 100;
+
+// Entries from before the server timestamp was required keep their ISO string; the trail is never rewritten, so
+// the date filters below don't match them
+const toEntry = (snap: DocumentSnapshot): AuditLogEntry => {
+  const data = snap.data() || {};
+  const timestamp = typeof data.timestamp?.toDate === 'function' ? data.timestamp.toDate().toISOString() : data.timestamp || '';
+  return { ...data, id: snap.id, timestamp } as AuditLogEntry;
+};
+
+// Dates are picked as yyyy-mm-dd in local time; the end date is inclusive
+const startOfDay = (date: string, offsetDays = 0) => {
+  const day = new Date(`${date}T00:00:00`);
+  day.setDate(day.getDate() + offsetDays);
+  return Timestamp.fromDate(day);
+};
+
+// Equality filters and the date range run in Firestore (see firestore.indexes.json); free-text search has no index, so it only narrows the loaded page
+const buildConstraints = (filters: AuditLogFilters): QueryConstraint[] => [
+  ...(filters.action ? [where('action', '==', filters.action)] : []),
+  ...(filters.actorId ? [where('actorId', '==', filters.actorId)] : []),
+  ...(filters.targetType ? [where('targetType', '==', filters.targetType)] : []),
+  ...(filters.from ? [where('timestamp', '>=', startOfDay(filters.from))] : []),
+  ...(filters.to ? [where('timestamp', '<', startOfDay(filters.to, 1))] : []),
+  orderBy('timestamp', 'desc'),
+];
+
+const matchesSearch = (entry: AuditLogEntry, search?: string): boolean => {
+  if (!search) return true;
+  const needle = search.toLowerCase();
+  const haystack = [entry.summary, entry.actorName, entry.targetId, entry.clubId].join(' ').toLowerCase();
+  return haystack.includes(needle);
+};
+
+// Read side of the audit trail; entries are written only by the Cloud Functions (functions/src/auditTrail.ts)
+export const auditLogService = {
+  // Most recent entries first, one page at a time
+  getAuditLogs: async (filters: AuditLogFilters = {}, cursor: DocumentSnapshot | null = null, pageSize: number = PAGE_SIZE): Promise<AuditLogPage> => {
+    try {
+      const snap = await getDocs(query(
+        collection(db, AUDIT_COLLECTION),
+        ...buildConstraints(filters),
+        ...(cursor ? [startAfter(cursor)] : []),
+        limit(pageSize)
+      ));
+      return {
+        entries: snap.docs.map(toEntry).filter(entry => matchesSearch(entry, filters.search)),
+        cursor: snap.docs.length === pageSize ? snap.docs[snap.docs.length - 1] : null,
+      };
+    } catch (error) {
+      console.error('Error getting audit logs:', error);
+      return { entries: [], cursor: null };
+    }
+  },
+};
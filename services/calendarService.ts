@@ -0,0 +1,60 @@
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '../firebaseConfig';
+import { Event } from '../types';
+import { buildCalendar } from '../utils/icalendar';
+
+// The app uses hash routing, so deep links need the #/ prefix
+export const getEventPageUrl = (eventId: string): string =>
+  `${window.location.origin}${window.location.pathname}#/events/${eventId}`;
+
+// webcal:// opens the subscribe dialog in most calendar apps
+export const toWebcalUrl = (url: string): string => url.replace(/^https?:\/\//, 'webcal://');
+
+// Feeds are served by the calendarFeed function, built from Firestore whenever a calendar app polls
+const getCalendarFeedUrl = async (request: { clubId?: string; create?: boolean }): Promise<string | null> => {
+  const callable = httpsCallable<typeof request, { url: string | null }>(functions, 'getCalendarFeedUrl');
+  const { data } = await callable(request);
+  return data.url;
+};
+
+export const calendarService = {
+  // Download a single event as an .ics file
+  downloadEventIcs: (event: Event): void => {
+    const content = buildCalendar(event.name, [{ event, url: getEventPageUrl(event.id) }]);
+    const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `${event.name.replace(/[^a-z0-9]+/gi, '_') || 'event'}.ics`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+  },
+
+  // Public feed of every event a club has published
+  getClubFeedUrl: async (clubId: string): Promise<string | null> => {
+    try {
+      return await getCalendarFeedUrl({ clubId });
+    } catch (error) {
+      console.error('Error getting club calendar feed:', error);
+      return null;
+    }
+  },
+
+  // The user's personal feed, or null until they turn it on
+  getUserFeedUrl: async (): Promise<string | null> => {
+    try {
+      return await getCalendarFeedUrl({});
+    } catch (error) {
+      console.error('Error getting calendar feed:', error);
+      return null;
+    }
+  },
+
+  // Turn on the personal feed; its private token is created the first time
+  enableUserFeed: async (): Promise<string> => {
+    const url = await getCalendarFeedUrl({ create: true });
+    if (!url) throw new Error('Could not create your calendar feed.');
+    return url;
+  },
+};
@@ -0,0 +1,94 @@
+import { cashfreeService, CashfreePaymentStatus } from './cashfreeService';
+import {
+  PaymentGateway,
+  GatewayOrderRequest,
+  GatewayOrder,
+  GatewayCheckoutResult,
+  GatewayVerification,
+  GatewayPaymentState,
+  postToPaymentFunction,
+  loadCheckoutScript,
+} from './paymentGateway';
+
+const CASHFREE_STATES: { [key in CashfreePaymentStatus['status']]: GatewayPaymentState } = {
+  pending: 'pending',
+  success: 'paid',
+  failed: 'failed',
+  cancelled: 'cancelled',
+};
+
+class CashfreeGateway implements PaymentGateway {
+  readonly provider = 'cashfree' as const;
+  readonly displayName = 'Cashfree';
+
+  async createOrder(request: GatewayOrderRequest): Promise<GatewayOrder> {
+    const response = await cashfreeService.createPaymentSession({
+      amount: request.amount,
+      currency: request.currency,
+      orderId: request.orderId,
+      customerId: request.customer.id,
+      customerName: request.customer.name,
+      customerEmail: request.customer.email,
+      customerPhone: request.customer.phone,
+      eventId: request.eventId,
+      eventName: request.eventName,
+      description: request.description,
+      clubId: request.clubId,
+      mode: request.mode,
+      pricing: request.pricing,
+    });
+
+    if (!response.success || !response.paymentSessionId) {
+      throw new Error(response.error || 'Failed to create Cashfree payment session');
+    }
+
+    const orderId = response.orderId || request.orderId;
+    return {
+      provider: this.provider,
+      orderId,
+      gatewayOrderId: orderId,
+      amount: request.amount,
+      currency: request.currency,
+      checkoutData: { paymentSessionId: response.paymentSessionId },
+    };
+  }
+
+  async openCheckout(order: GatewayOrder, request: GatewayOrderRequest): Promise<GatewayCheckoutResult> {
+    const sdk = await loadCheckoutScript('https://sdk.cashfree.com/js/v3/cashfree.js', 'Cashfree');
+    // The v3 SDK exposes a factory; older builds expose the checkout object directly
+    const cashfree = typeof sdk === 'function' ? sdk({ mode: request.mode }) : sdk;
+
+    await cashfree.checkout({
+      paymentSessionId: order.checkoutData.paymentSessionId,
+      redirectTarget: '_modal',
+    });
+
+    // Checkout resolves when the modal closes, so confirm the outcome with the backend
+    const verification = await this.verifyPayment(order.orderId);
+    if (verification.state !== 'paid') {
+      throw new Error(verification.state === 'cancelled' ? 'Payment cancelled by user' : 'Payment was not completed');
+    }
+    return { paymentId: verification.paymentId, orderId: order.orderId };
+  }
+
+  async verifyPayment(orderId: string): Promise<GatewayVerification> {
+    const status = await cashfreeService.verifyPaymentStatus(orderId);
+    return {
+      provider: this.provider,
+      orderId: status.orderId,
+      paymentId: status.paymentId,
+      state: CASHFREE_STATES[status.status] || 'pending',
+      amount: status.amount,
+      currency: status.currency,
+      method: status.paymentMethod,
+      transactionId: status.transactionId,
+      timestamp: status.timestamp,
+    };
+  }
+
+  async verifyWebhook(payload: any, signature?: string): Promise<boolean> {
+    return cashfreeService.handlePaymentCallback(signature ? { ...payload, signature } : payload);
+  }
+}
+
+export const cashfreeGateway = new CashfreeGateway();
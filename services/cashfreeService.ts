@@ -1,4 +1,5 @@
 import { Event, User } from '../types';
+import { TicketSelection } from '../utils/pricing';
 
 export interface CashfreePaymentRequest {
   amount: number;
@@ -12,6 +13,8 @@ export interface CashfreePaymentRequest {
   eventName: string;
   description: string;
   mode: 'sandbox' | 'production';
+  clubId?: string;
+  pricing?: TicketSelection; // Tier and coupon the server prices the order from
 }
 
 export interface CashfreePaymentResponse {
@@ -0,0 +1,160 @@
+import { doc, getDoc, getDocs, setDoc, collection, query, where, writeBatch } from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import { Certificate, CertificateTemplate, Event } from '../types';
+import { permissionService } from './permissionService';
+import { eventRegistrationService } from './eventRegistrationService';
+import { firestoreDataService } from './firestoreDataService';
+import { notificationService } from './notificationService';
+import { generateCertificateId, getDefaultCertificateTemplate } from '../utils/certificate';
+
+const CERTIFICATES_COLLECTION = 'certificates';
+const TEMPLATES_COLLECTION = 'certificateTemplates';
+
+// Firestore batches are capped at 500 writes
+const BATCH_SIZE = 400;
+
+export interface CertificateIssueSummary {
+  issued: Certificate[];
+  skipped: number; // Already had a certificate of the same kind
+  unmatchedWinners: string[]; // Winner names with no matching registration; issued without an account
+}
+
+// One certificate per person, kind and position for an event
+const certificateKey = (certificate: Pick<Certificate, 'kind' | 'recipientId' | 'recipientName' | 'position'>) =>
+  `${certificate.kind}:${certificate.recipientId || certificate.recipientName.trim().toLowerCase()}:${certificate.position || ''}`;
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const certificateService = {
+  // The club's saved template, or the built-in design
+  getTemplate: async (clubId: string): Promise<CertificateTemplate> => {
+    try {
+      const snap = await getDoc(doc(db, TEMPLATES_COLLECTION, clubId));
+      return snap.exists() ? (snap.data() as CertificateTemplate) : getDefaultCertificateTemplate(clubId);
+    } catch (error) {
+      console.error('Error getting certificate template:', error);
+      return getDefaultCertificateTemplate(clubId);
+    }
+  },
+
+  saveTemplate: async (clubId: string, template: CertificateTemplate): Promise<void> => {
+    await permissionService.authorize('issue-certificates', clubId);
+    const { backgroundUrl, ...rest } = template;
+    await setDoc(doc(db, TEMPLATES_COLLECTION, clubId), {
+      ...rest,
+      ...(backgroundUrl ? { backgroundUrl } : {}),
+      clubId,
+      updatedAt: new Date().toISOString(),
+    });
+  },
+
+  getEventCertificates: async (clubId: string, eventId: string): Promise<Certificate[]> => {
+    await permissionService.authorize('issue-certificates', clubId);
+    // The club filter lets the rules prove the query only returns this club's certificates
+    const snap = await getDocs(query(
+      collection(db, CERTIFICATES_COLLECTION),
+      where('clubId', '==', clubId),
+      where('eventId', '==', eventId)
+    ));
+    return snap.docs.map(d => ({ ...d.data(), id: d.id } as Certificate));
+  },
+
+  getUserCertificates: async (userId: string): Promise<Certificate[]> => {
+    try {
+      const snap = await getDocs(query(collection(db, CERTIFICATES_COLLECTION), where('recipientId', '==', userId)));
+      return snap.docs
+        .map(d => ({ ...d.data(), id: d.id } as Certificate))
+        .sort((a, b) => b.issuedAt.localeCompare(a.issuedAt));
+    } catch (error) {
+      console.error('Error getting user certificates:', error);
+      return [];
+    }
+  },
+
+  // Public lookup behind /verify/:certId
+  verifyCertificate: async (certId: string): Promise<Certificate | null> => {
+    try {
+      const snap = await getDoc(doc(db, CERTIFICATES_COLLECTION, certId.trim().toUpperCase()));
+      return snap.exists() ? ({ ...snap.data(), id: snap.id } as Certificate) : null;
+    } catch (error) {
+      console.error('Error verifying certificate:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Issue participation certificates to everyone checked in, and winner certificates from the event highlights.
+   * Team winners are matched by team name and every member receives one. Re-running only issues what is missing.
+   */
+  issueEventCertificates: async (event: Event): Promise<CertificateIssueSummary> => {
+    const clubId = event.organizerClubId;
+    const actor = await permissionService.authorize('issue-certificates', clubId);
+
+    const [registrations, teams, template, club, existing] = await Promise.all([
+      eventRegistrationService.getEventRegistrations(event.id, clubId),
+      event.registrationType === 'team' ? eventRegistrationService.getEventTeams(event.id, clubId) : Promise.resolve([]),
+      certificateService.getTemplate(clubId),
+      firestoreDataService.getClubById(clubId),
+      certificateService.getEventCertificates(clubId, event.id),
+    ]);
+
+    const { updatedAt, ...templateSnapshot } = template;
+    const base = {
+      eventId: event.id,
+      eventName: event.name,
+      eventDate: event.date,
+      clubId,
+      clubName: club?.name || '',
+      template: templateSnapshot,
+      issuedAt: new Date().toISOString(),
+      issuedBy: actor.id!,
+    };
+
+    const candidates: Omit<Certificate, 'id'>[] = registrations
+      .filter(registration => registration.checkInStatus === 'checked_in')
+      .map(registration => ({ ...base, kind: 'participation', recipientId: registration.userId, recipientName: registration.userName }));
+
+    const unmatchedWinners: string[] = [];
+    (event.highlights?.winners || []).forEach(winner => {
+      const team = teams.find(t => sameName(t.name, winner.name));
+      const registration = registrations.find(r => r.status !== 'cancelled' && sameName(r.userName, winner.name));
+      const recipients = team
+        ? team.members.map(member => ({ recipientId: member.userId, recipientName: member.userName }))
+        : registration
+          ? [{ recipientId: registration.userId, recipientName: registration.userName }]
+          : [{ recipientId: null, recipientName: winner.name }];
+      if (!team && !registration) unmatchedWinners.push(winner.name);
+      recipients.forEach(recipient => candidates.push({ ...base, ...recipient, kind: 'winner', position: winner.position }));
+    });
+
+    const seen = new Set(existing.map(certificateKey));
+    const issued: Certificate[] = [];
+    candidates.forEach(candidate => {
+      const key = certificateKey(candidate);
+      if (seen.has(key)) return;
+      seen.add(key);
+      issued.push({ ...candidate, id: generateCertificateId() });
+    });
+
+    for (let i = 0; i < issued.length; i += BATCH_SIZE) {
+      const batch = writeBatch(db);
+      issued.slice(i, i + BATCH_SIZE).forEach(certificate => {
+        const { id, ...data } = certificate;
+        batch.set(doc(db, CERTIFICATES_COLLECTION, id), data);
+      });
+      await batch.commit();
+    }
+
+    if (issued.length) {
+      const recipientIds = Array.from(new Set(issued.map(certificate => certificate.recipientId).filter((id): id is string => !!id)));
+      await notificationService.notifyUsers(recipientIds, {
+        type: 'info',
+        message: `Your certificate for ${event.name} is ready to download.`,
+        link: '/profile',
+        clubId,
+      });
+    }
+
+    return { issued, skipped: candidates.length - issued.length, unmatchedWinners };
+  },
+};
@@ -0,0 +1,45 @@
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '../firebaseConfig';
+
+// Gateway secrets live in the credentialVault collection, encrypted at rest by Cloud Functions.
+// The browser can hand secrets to the vault but never read them back; it only ever sees masked copies.
+export type VaultOwnerType = 'phonepe-account' | 'razorpay-account';
+
+export interface VaultStoreRequest {
+  ownerType: VaultOwnerType;
+  ownerId: string; // PhonePe account ID, or the club ID for the club's Razorpay linked account
+  clubId: string;
+  secrets: Record<string, string>;
+}
+
+export interface VaultStoreResult {
+  masked: Record<string, string>; // Same keys as the secrets sent, e.g. { saltKey: '••••3f9a' }
+  storedAt: string; // ISO datetime
+}
+
+export const credentialVaultService = {
+  /**
+   * Encrypt and store secrets for a payment account. Blank values are left out, so the
+   * vault keeps whatever it already holds for those fields.
+   * @returns Masked copies of the stored secrets, safe to save on the account document
+   */
+  store: async (request: VaultStoreRequest): Promise<VaultStoreResult> => {
+    const secrets: Record<string, string> = {};
+    Object.keys(request.secrets).forEach(key => {
+      const value = request.secrets[key]?.trim();
+      if (value) secrets[key] = value;
+    });
+    if (Object.keys(secrets).length === 0) {
+      return { masked: {}, storedAt: new Date().toISOString() };
+    }
+
+    try {
+      const storeCredentials = httpsCallable(functions, 'storeGatewayCredentials');
+      const result = await storeCredentials({ ...request, secrets });
+      return result.data as VaultStoreResult;
+    } catch (error: any) {
+      console.error('Error storing credentials in the vault:', error);
+      throw new Error(error.message || 'Failed to store the payment credentials securely');
+    }
+  },
+};
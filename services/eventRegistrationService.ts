@@ -1,6 +1,5 @@
 import { 
   collection, 
-  addDoc, 
   query, 
   where, 
   getDocs, 
@@ -9,64 +8,39 @@ import {
   deleteDoc,
   serverTimestamp,
   orderBy,
-  setDoc,
   getDoc,
   getCountFromServer
 } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
 import { auth } from '../../frontend/firebaseConfig';
 import { db } from '../../frontend/firebaseConfig';
-import { User } from '../types';
-
-export interface EventRegistration {
-  id?: string;
-  eventId: string;
-  clubId?: string;
-  userId: string;
-  userEmail: string;
-  userName: string;
-  userPhone?: string;
-  userRollNumber?: string;
-  userBranch?: string;
-  userYear?: string;
-  registrationDate: any; // Firestore timestamp
-  status: 'pending' | 'confirmed' | 'cancelled';
-  additionalInfo?: string;
-  eventName?: string;
-  eventDate?: string;
-  eventLocation?: string;
-  registrationFee?: number;
-  paymentStatus?: 'pending' | 'paid' | 'refunded';
-  paymentId?: string;
-  qrCode?: string;
-  checkInTime?: any; // Firestore timestamp
-  checkInStatus?: 'not_checked_in' | 'checked_in';
-  isGuest?: boolean; // For guest registrations
-  guestCollege?: string; // For guest college information
-  expiresAt?: Date; // For guest registration cleanup
-}
+import { functions } from '../firebaseConfig';
+import { User, Event, RegistrationFormResponses } from '../types';
+import { permissionService } from './permissionService';
+import { removeUndefinedValues } from '../utils/firestoreUtils';
+import type { EventRegistration } from '../utils/registrationRecords';
+
+export type {
+  EventRegistration,
+  EventRefundState,
+  EventRefundReason,
+  EventRefundRecord,
+  EventPaymentRecord,
+} from '../utils/registrationRecords';
 
 export interface RegistrationStats {
   totalRegistrations: number;
   confirmedRegistrations: number;
   pendingRegistrations: number;
   cancelledRegistrations: number;
+  waitlistedRegistrations: number;
   checkedInCount: number;
 }
 
-export interface EventPaymentRecord {
-  id?: string;
-  registrationId: string;
-  eventId: string;
-  clubId: string;
+export interface TeamMember {
   userId: string;
   userName: string;
   userEmail: string;
-  amount: number;
-  paymentId: string;
-  paymentStatus: 'paid';
-  paymentMethod?: string;
-  transactionId?: string;
-  timestamp: any; // Firestore timestamp
 }
 
 // Add new interface for Team
@@ -75,148 +49,83 @@ export interface EventTeam {
   name: string;
   eventId: string;
   clubId: string;
-  members: { userId: string; userName: string; userEmail: string }[];
+  members: TeamMember[];
+  memberIds?: string[]; // userIds of members, for lookups and the security rules
   createdBy: string; // userId of creator
+  captainId?: string; // Teams created before captain transfer fall back to createdBy
+  teamPassOrderId?: string; // Set by the webhook receiver when a member buys a team pass
+  teamPassSize?: number; // Members the pass registers, the buyer included
+  teamPassUsed?: number;
   createdAt: any; // Firestore timestamp
 }
 
+// What someone holding an invite code sees before joining
+export interface TeamInvitePreview {
+  id: string;
+  name: string;
+  members: Pick<TeamMember, 'userId' | 'userName'>[];
+}
+
 // Helper function to get the correct user ID for registration checking
 const getCorrectUserId = (user: User): string => {
   // For guest users, use their ID directly; for authenticated users, use auth.currentUser.uid
   return user.isGuest ? user.id : (auth.currentUser?.uid || user.id);
 };
 
-export const eventRegistrationService = {
-  // Register for an event (only for free events, paid events handled after payment)
-  registerForEvent: async (
-    eventId: string,
-    user: User,
-    eventInfo: { name: string; date: string; location: string; registrationFee?: number; organizerClubId: string },
-    additionalInfo?: string
-  ): Promise<string> => {
-    const clubId = eventInfo.organizerClubId;
-    const requiresPayment = eventInfo.registrationFee && eventInfo.registrationFee > 0;
+const registrationCollection = (clubId: string, eventId: string, isGuest: boolean) =>
+  collection(db, 'events', clubId, 'clubEvents', eventId, isGuest ? 'guestRegistrations' : 'registrations');
+
+/**
+ * Register through the registration function, which takes the seat (or a waitlist position)
+ * and writes the registration in one transaction. Registrant details come from the profile.
+ */
+const registerThroughFunction = async (
+  clubId: string,
+  eventId: string,
+  details: { teamId?: string; additionalInfo?: string; formResponses?: RegistrationFormResponses }
+): Promise<string> => {
+  try {
+    const registerForEvent = httpsCallable<Record<string, any>, { registrationId: string; status: EventRegistration['status'] }>(functions, 'registerForEvent');
+    const { data } = await registerForEvent(removeUndefinedValues({ clubId, eventId, ...details }));
+    return data.registrationId;
+  } catch (error: any) {
+    console.error('Error registering for event:', error);
+    throw new Error(error.message || 'Registration failed. Please try again.');
+  }
+};
 
-    if (requiresPayment) {
-      // For paid events, do not create registration here
-      throw new Error('Registration for paid events should be created after payment is successful.');
-    }
+const changeRegistrationStatus = async (
+  registrationId: string,
+  clubId: string,
+  eventId: string,
+  status: EventRegistration['status'],
+  isGuest: boolean
+): Promise<void> => {
+  const change = httpsCallable(functions, 'changeRegistrationStatus');
+  await change({ registrationId, clubId, eventId, status, isGuest });
+};
 
-    // For free events, create registration immediately
-    // Ensure we have a valid user ID - use same logic as paid events
-    if (!user.id) {
-      throw new Error('User ID is required for registration');
-    }
-    
-    // For guest users, use their ID directly; for authenticated users, use auth.currentUser.uid
-    const userId = user.isGuest ? user.id : (auth.currentUser?.uid || user.id);
-    
-    const registrationData: any = {
-      eventId,
-      clubId,
-      userId: userId, // Use the appropriate user ID
-      userName: user.name,
-      userEmail: user.email ?? '',
-      userPhone: user.mobile,
-      status: 'confirmed',
-      additionalInfo: additionalInfo || '',
-      registrationDate: serverTimestamp(),
-      eventName: eventInfo.name,
-      eventDate: eventInfo.date,
-      eventLocation: eventInfo.location,
-      registrationFee: eventInfo.registrationFee || 0,
-      checkInStatus: 'not_checked_in',
-      isGuest: user.isGuest || false, // Add isGuest field for consistency
-    };
+const teamsCollection = (clubId: string, eventId: string) =>
+  collection(db, 'events', clubId, 'clubEvents', eventId, 'teams');
 
-    // Only add guestCollege if user is a guest and has college name
-    if (user.isGuest && user.collegeName) {
-      registrationData.guestCollege = user.collegeName;
-    }
+const getTeamCaptainId = (team: EventTeam): string => team.captainId || team.createdBy;
 
-    console.log('Creating registration with data:', registrationData);
-    console.log('User ID:', registrationData.userId);
-    console.log('Auth UID:', auth.currentUser?.uid);
-    console.log('User object:', user);
-    console.log('Is guest user?', user.isGuest);
-    
-    // For guest users, use guestRegistrations collection; for regular users, use registrations collection
-    let registrationsRef;
-    if (user.isGuest) {
-      registrationsRef = collection(db, 'events', clubId, 'clubEvents', eventId, 'guestRegistrations');
-    } else {
-      registrationsRef = collection(db, 'events', clubId, 'clubEvents', eventId, 'registrations');
-    }
-    
-    console.log('Creating registration in collection:', registrationsRef.path);
-    console.log('Registration data being stored:', registrationData);
-    const docRef = await addDoc(registrationsRef, registrationData);
-    console.log('Registration created successfully with ID:', docRef.id);
-    return docRef.id;
-  },
+const isPastTeamDeadline = (teamLockDeadline?: string): boolean =>
+  !!teamLockDeadline && new Date(teamLockDeadline).getTime() <= Date.now();
 
-  // Register for a paid event (called after payment is successful)
-  registerForPaidEvent: async (
+export const eventRegistrationService = {
+  // Register for a free event; the function refuses paid events, which are registered after payment
+  registerForEvent: async (
     eventId: string,
     user: User,
     eventInfo: { name: string; date: string; location: string; registrationFee?: number; organizerClubId: string },
-    paymentId: string,
-    additionalInfo?: string
+    additionalInfo?: string,
+    formResponses?: RegistrationFormResponses
   ): Promise<string> => {
-    const clubId = eventInfo.organizerClubId;
-    
-    // Ensure we have a valid user ID
     if (!user.id) {
       throw new Error('User ID is required for registration');
     }
-    
-    // For consistency, always use user.id (which should be the same as auth.currentUser.uid for regular users)
-    const userId = user.id;
-    
-    const registrationData: any = {
-      eventId,
-      clubId,
-      userId: userId, // Use the appropriate user ID
-      userName: user.name,
-      userEmail: user.email ?? '',
-      userPhone: user.mobile,
-      status: 'confirmed',
-      additionalInfo: additionalInfo || '',
-      registrationDate: serverTimestamp(),
-      eventName: eventInfo.name,
-      eventDate: eventInfo.date,
-      eventLocation: eventInfo.location,
-      registrationFee: eventInfo.registrationFee || 0,
-      paymentStatus: 'paid',
-      paymentId,
-      checkInStatus: 'not_checked_in',
-      isGuest: user.isGuest || false, // Add isGuest field for Firestore rules
-    };
-
-    // Only add guestCollege if user is a guest and has college name
-    if (user.isGuest && user.collegeName) {
-      registrationData.guestCollege = user.collegeName;
-    }
-
-    console.log('Creating registration with data:', registrationData);
-    console.log('User ID:', registrationData.userId);
-    console.log('Auth UID:', auth.currentUser?.uid);
-    console.log('User object:', user);
-    console.log('Is guest user?', user.isGuest);
-    
-    // For guest users, use guestRegistrations collection; for regular users, use registrations collection
-    let registrationsRef;
-    if (user.isGuest) {
-      registrationsRef = collection(db, 'events', clubId, 'clubEvents', eventId, 'guestRegistrations');
-    } else {
-      registrationsRef = collection(db, 'events', clubId, 'clubEvents', eventId, 'registrations');
-    }
-    
-    console.log('Creating registration in collection:', registrationsRef.path);
-    console.log('Registration data being stored:', registrationData);
-    const docRef = await addDoc(registrationsRef, registrationData);
-    console.log('Registration created successfully with ID:', docRef.id);
-    return docRef.id;
+    return registerThroughFunction(eventInfo.organizerClubId, eventId, { additionalInfo, formResponses });
   },
 
   // Check if user is already registered for an event
@@ -372,6 +281,7 @@ export const eventRegistrationService = {
       confirmedRegistrations: registrations.filter(r => r.status === 'confirmed').length,
       pendingRegistrations: registrations.filter(r => r.status === 'pending').length,
       cancelledRegistrations: registrations.filter(r => r.status === 'cancelled').length,
+      waitlistedRegistrations: registrations.filter(r => r.status === 'waitlisted').length,
       checkedInCount: registrations.filter(r => r.checkInStatus === 'checked_in').length
     };
 
@@ -391,29 +301,66 @@ export const eventRegistrationService = {
     }
   },
 
-  // Update registration status
-  updateRegistrationStatus: async (registrationId: string, newStatus: 'pending' | 'confirmed' | 'cancelled', clubId: string, eventId: string) => {
-    const registrationRef = doc(db, 'events', clubId, 'clubEvents', eventId, 'registrations', registrationId);
-    await updateDoc(registrationRef, { status: newStatus });
+  // Update registration status; the registration function moves seats and writes the audit entry
+  updateRegistrationStatus: async (registrationId: string, newStatus: 'pending' | 'confirmed' | 'cancelled' | 'waitlisted', clubId: string, eventId: string, isGuest: boolean = false) => {
+    await permissionService.authorize('edit-event', clubId);
+    await changeRegistrationStatus(registrationId, clubId, eventId, newStatus, isGuest);
   },
 
-  // Cancel registration (from nested structure)
-  cancelRegistration: async (registrationId: string, clubId: string, eventId: string): Promise<void> => {
+  // Cancel registration (from nested structure); a freed seat goes to the next person on the waitlist
+  cancelRegistration: async (registrationId: string, clubId: string, eventId: string, isGuest: boolean = false): Promise<void> => {
     try {
-      await eventRegistrationService.updateRegistrationStatus(registrationId, 'cancelled', clubId, eventId);
+      await changeRegistrationStatus(registrationId, clubId, eventId, 'cancelled', isGuest);
     } catch (error) {
       console.error('Error cancelling registration:', error);
       throw error;
     }
   },
 
+  // Get waitlisted registrations (regular and guest) in promotion order; organizers only
+  getWaitlist: async (clubId: string, eventId: string): Promise<EventRegistration[]> => {
+    const [regularSnap, guestSnap] = await Promise.all([
+      getDocs(query(registrationCollection(clubId, eventId, false), where('status', '==', 'waitlisted'))),
+      getDocs(query(registrationCollection(clubId, eventId, true), where('status', '==', 'waitlisted'))),
+    ]);
+    const waitlist = [...regularSnap.docs, ...guestSnap.docs].map(d => ({ id: d.id, ...d.data() } as EventRegistration));
+    return waitlist.sort((a, b) => (a.waitlistPosition || 0) - (b.waitlistPosition || 0));
+  },
+
+  // Place of a registration in the current waitlist (1 = next to be promoted)
+  getWaitlistRank: async (registration: EventRegistration): Promise<number | null> => {
+    if (registration.status !== 'waitlisted' || !registration.clubId || !registration.id) return null;
+    try {
+      const getRank = httpsCallable<Record<string, any>, { rank: number | null }>(functions, 'getWaitlistRank');
+      const { data } = await getRank({
+        registrationId: registration.id,
+        clubId: registration.clubId,
+        eventId: registration.eventId,
+        isGuest: registration.isGuest || false,
+      });
+      return data.rank;
+    } catch (error) {
+      console.error('Error getting waitlist rank:', error);
+      return null;
+    }
+  },
+
   // Check in user for event (from nested structure)
-  checkInUser: async (registrationId: string, clubId: string, eventId: string): Promise<void> => {
+  checkInUser: async (
+    registrationId: string,
+    clubId: string,
+    eventId: string,
+    isGuest: boolean = false,
+    checkedInBy?: string
+  ): Promise<void> => {
     try {
-      const registrationRef = doc(db, 'events', clubId, 'clubEvents', eventId, 'registrations', registrationId);
+      await permissionService.authorize('check-in-attendees', clubId, checkedInBy);
+      const collectionName = isGuest ? 'guestRegistrations' : 'registrations';
+      const registrationRef = doc(db, 'events', clubId, 'clubEvents', eventId, collectionName, registrationId);
       await updateDoc(registrationRef, {
         checkInStatus: 'checked_in',
-        checkInTime: serverTimestamp()
+        checkInTime: serverTimestamp(),
+        ...(checkedInBy ? { checkedInBy } : {})
       });
       console.log('User checked in successfully');
     } catch (error) {
@@ -422,23 +369,6 @@ export const eventRegistrationService = {
     }
   },
 
-  // Update payment status and accept registration if paid
-  updatePaymentStatus: async (
-    registrationId: string,
-    paymentStatus: 'paid' | 'pending',
-    paymentId: string,
-    clubId: string,
-    eventId: string
-  ) => {
-    const registrationRef = doc(db, 'events', clubId, 'clubEvents', eventId, 'registrations', registrationId);
-    const updateData: any = { paymentStatus, paymentId };
-    // If payment is now 'paid', also set status to 'confirmed'
-    if (paymentStatus === 'paid') {
-      updateData.status = 'confirmed';
-    }
-    await updateDoc(registrationRef, updateData);
-  },
-
   // Get registration by ID from nested structure
   getRegistrationById: async (registrationId: string, clubId: string, eventId: string): Promise<EventRegistration | null> => {
     try {
@@ -452,9 +382,10 @@ export const eventRegistrationService = {
     }
   },
 
-  // Delete registration (admin only, from nested structure)
+  // Delete registration (admin only, from nested structure); a function gives a confirmed registration's seat back
   deleteRegistration: async (registrationId: string, clubId: string, eventId: string): Promise<void> => {
     try {
+      await permissionService.authorize('edit-event', clubId);
       const registrationRef = doc(db, 'events', clubId, 'clubEvents', eventId, 'registrations', registrationId);
       await deleteDoc(registrationRef);
       console.log('Registration deleted successfully');
@@ -464,203 +395,109 @@ export const eventRegistrationService = {
     }
   },
 
-  // Store payment record after successful payment and registration confirmation
-  storeEventPayment: async (
-    payment: {
-      registrationId: string;
-      eventId: string;
-      clubId: string;
-      userId: string;
-      userName: string;
-      userEmail: string;
-      amount: number;
-      paymentId: string;
-      paymentMethod?: string;
-      transactionId?: string;
-    }
-  ): Promise<void> => {
-    if (!payment.eventId || !payment.clubId || !payment.registrationId) {
-      console.warn('storeEventPayment: Missing required fields', payment);
-      return;
+  // Create a new team for a team event; the caller becomes its captain
+  createTeam: async (eventId: string, clubId: string, teamName: string): Promise<string> => {
+    const createTeam = httpsCallable<Record<string, string>, { teamId: string; inviteCode: string }>(functions, 'createTeam');
+    const { data } = await createTeam({ eventId, clubId, teamName });
+    return data.teamId;
+  },
+
+  // Look up a team from the invite code its captain shared
+  getTeamByInviteCode: async (eventId: string, clubId: string, inviteCode: string): Promise<TeamInvitePreview | null> => {
+    if (!inviteCode.trim()) return null;
+    const lookupTeamInvite = httpsCallable<Record<string, string>, { team: TeamInvitePreview | null }>(functions, 'lookupTeamInvite');
+    const { data } = await lookupTeamInvite({ eventId, clubId, inviteCode });
+    return data.team;
+  },
+
+  // Invite code of the caller's own team; codes aren't stored on the team document
+  getTeamInviteCode: async (eventId: string, clubId: string, teamId: string): Promise<string | null> => {
+    try {
+      const getTeamInviteCode = httpsCallable<Record<string, string>, { inviteCode: string | null }>(functions, 'getTeamInviteCode');
+      const { data } = await getTeamInviteCode({ eventId, clubId, teamId });
+      return data.inviteCode;
+    } catch (error) {
+      console.error('Error getting team invite code:', error);
+      return null;
     }
-    
+  },
+
+  // Join a team using its invite code; the function enforces the maximum team size and lock deadline
+  joinTeam: async (eventId: string, clubId: string, inviteCode: string): Promise<string> => {
+    const joinTeam = httpsCallable<Record<string, string>, { teamId: string }>(functions, 'joinTeam');
+    const { data } = await joinTeam({ eventId, clubId, inviteCode });
+    return data.teamId;
+  },
+
+  // Get a single team
+  getTeam: async (eventId: string, clubId: string, teamId: string): Promise<EventTeam | null> => {
     try {
-      const paymentRecord: EventPaymentRecord = {
-        ...payment,
-        paymentStatus: 'paid',
-        timestamp: serverTimestamp(),
-      };
-      
-      // For guest users, store in guest_payments collection; for regular users, store in payments collection
-      const isGuest = payment.userId.startsWith('guest_');
-      const collectionName = isGuest ? 'guest_payments' : 'payments';
-      
-      const paymentRef = doc(
-        db,
-        'events',
-        payment.clubId,
-        'clubEvents',
-        payment.eventId,
-        collectionName,
-        payment.paymentId
-      );
-      
-      console.log('Storing payment record:', paymentRecord);
-      console.log('Payment ref:', paymentRef.path);
-      console.log('Is guest user?', isGuest);
-      console.log('Using collection:', collectionName);
-      
-      await setDoc(paymentRef, paymentRecord);
-      console.log('Payment record stored successfully in', collectionName);
+      const teamSnap = await getDoc(doc(teamsCollection(clubId, eventId), teamId));
+      if (!teamSnap.exists()) return null;
+      return { id: teamSnap.id, ...teamSnap.data() } as EventTeam;
     } catch (error) {
-      console.error('Error storing payment record:', error);
-      console.error('Payment data:', payment);
-      // Don't throw the error - payment record storage failure shouldn't break the registration flow
-      console.warn('Continuing with registration despite payment record storage failure');
+      console.error('Error getting team:', error);
+      return null;
     }
   },
 
-  // Create a new team for a team event
-  createTeam: async (
-    eventId: string,
-    clubId: string,
-    teamName: string,
-    creator: { userId: string; userName: string; userEmail: string }
-  ): Promise<string> => {
-    const teamsRef = collection(db, 'events', clubId, 'clubEvents', eventId, 'teams');
-    const teamData: EventTeam = {
-      name: teamName,
-      eventId,
-      clubId,
-      members: [creator],
-      createdBy: creator.userId,
-      createdAt: serverTimestamp(),
-    };
-    const docRef = await addDoc(teamsRef, teamData);
-    return docRef.id;
+  // Get all teams for an event, sorted by name
+  getEventTeams: async (eventId: string, clubId: string): Promise<EventTeam[]> => {
+    try {
+      const snap = await getDocs(teamsCollection(clubId, eventId));
+      return snap.docs
+        .map(d => ({ id: d.id, ...d.data() } as EventTeam))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+      console.error('Error getting event teams:', error);
+      return [];
+    }
   },
 
-  // Join an existing team
-  joinTeam: async (
-    eventId: string,
-    clubId: string,
-    teamId: string,
-    member: { userId: string; userName: string; userEmail: string }
-  ): Promise<void> => {
-    const teamRef = doc(db, 'events', clubId, 'clubEvents', eventId, 'teams', teamId);
-    const teamSnap = await getDoc(teamRef);
-    if (!teamSnap.exists()) throw new Error('Team not found');
-    const team = teamSnap.data() as EventTeam;
-    // Prevent duplicate members
-    if (team.members.some(m => m.userId === member.userId)) return;
-    // Optionally: enforce maxTeamSize (fetch event if needed)
-    await updateDoc(teamRef, {
-      members: [...team.members, member]
-    });
+  // Captain removes a member; the member's registration is cancelled so their seat is freed
+  removeTeamMember: async (eventId: string, clubId: string, teamId: string, memberUserId: string): Promise<void> => {
+    const removeTeamMember = httpsCallable(functions, 'removeTeamMember');
+    await removeTeamMember({ eventId, clubId, teamId, memberUserId });
   },
 
-  // Search teams by name for an event
-  searchTeams: async (
-    eventId: string,
-    clubId: string,
-    search: string
-  ): Promise<EventTeam[]> => {
-    const teamsRef = collection(db, 'events', clubId, 'clubEvents', eventId, 'teams');
-    const q = query(teamsRef, where('name', '>=', search), where('name', '<=', search + '\uf8ff'));
-    const snap = await getDocs(q);
-    return snap.docs.map(doc => ({ id: doc.id, ...doc.data() } as EventTeam));
+  // Captain hands the captain role to another member
+  transferTeamCaptain: async (eventId: string, clubId: string, teamId: string, newCaptainId: string): Promise<void> => {
+    const transferTeamCaptain = httpsCallable(functions, 'transferTeamCaptain');
+    await transferTeamCaptain({ eventId, clubId, teamId, newCaptainId });
   },
 
+  // Whether the event's team deadline has passed and rosters are frozen
+  isTeamLocked: (event: Pick<Event, 'teamLockDeadline'>): boolean => isPastTeamDeadline(event.teamLockDeadline),
+
+  getTeamCaptainId: (team: EventTeam): string => getTeamCaptainId(team),
+
   // Register for a team event (individual registration, linked to team)
   registerForTeamEvent: async (
     eventId: string,
     user: User,
     eventInfo: { name: string; date: string; location: string; registrationFee?: number; organizerClubId: string },
     teamId: string,
-    additionalInfo?: string
+    additionalInfo?: string,
+    formResponses?: RegistrationFormResponses
   ): Promise<string> => {
-    const clubId = eventInfo.organizerClubId;
-    const registrationData: EventRegistration = {
-      eventId,
-      clubId,
-      userId: user.id ?? '',
-      userName: user.name,
-      userEmail: user.email ?? '',
-      userPhone: user.mobile,
-      status: 'confirmed',
-      additionalInfo: additionalInfo || '',
-      registrationDate: serverTimestamp(),
-      eventName: eventInfo.name,
-      eventDate: eventInfo.date,
-      eventLocation: eventInfo.location,
-      registrationFee: eventInfo.registrationFee || 0,
-      checkInStatus: 'not_checked_in',
-      // Add teamId to registration
-      teamId,
-    } as any;
-
-    const registrationsRef = collection(db, 'events', clubId, 'clubEvents', eventId, 'registrations');
-    const docRef = await addDoc(registrationsRef, registrationData);
-    return docRef.id;
+    if (!user.id) {
+      throw new Error('User ID is required for registration');
+    }
+    return registerThroughFunction(eventInfo.organizerClubId, eventId, { teamId, additionalInfo, formResponses });
   },
 
-  // Register guest user for an event (no authentication required)
+  // Register a verified guest; the function files it under guestRegistrations with the guest's retention date
   registerGuestForEvent: async (
     eventId: string,
     clubId: string,
-    guestData: {
-      name: string;
-      email: string;
-      phone: string;
-      college: string;
-      year: string;
-      department: string;
-    },
-    eventInfo: { name: string; date: string; location: string; registrationFee?: number },
-    additionalInfo?: string
+    additionalInfo?: string,
+    formResponses?: RegistrationFormResponses
   ): Promise<string> => {
-    // Create a consistent guest ID based on email to prevent duplicates
-    const guestId = `guest_${guestData.email.replace(/[^a-zA-Z0-9]/g, '_')}`;
-    
-    // First check if this guest is already registered for this event
-    const isAlreadyRegistered = await eventRegistrationService.isUserRegistered(eventId, guestId, clubId);
-    if (isAlreadyRegistered) {
-      throw new Error('You are already registered for this event!');
+    // Guests sign in with a custom token once their email is verified, so the session is the guest
+    if (!auth.currentUser?.uid.startsWith('guest_')) {
+      throw new Error('Verify your email before registering. Sign out and continue as a guest again.');
     }
-    
-    const now = new Date();
-    const expirationDate = new Date(now.getTime() + (3 * 30 * 24 * 60 * 60 * 1000)); // 3 months from now
-    
-    const registrationData = {
-      eventId,
-      clubId,
-      userId: guestId, // Use consistent guest ID based on email
-      userName: guestData.name,
-      userEmail: guestData.email,
-      userPhone: guestData.phone,
-      userYear: guestData.year,
-      userBranch: guestData.department,
-      status: 'confirmed',
-      additionalInfo: additionalInfo || '',
-      registrationDate: serverTimestamp(),
-      eventName: eventInfo.name,
-      eventDate: eventInfo.date,
-      eventLocation: eventInfo.location,
-      registrationFee: eventInfo.registrationFee || 0,
-      checkInStatus: 'not_checked_in',
-      // Guest-specific fields
-      isGuest: true,
-      guestCollege: guestData.college,
-      // Expiration timestamp (3 months from creation)
-      expiresAt: expirationDate,
-    };
-
-    const guestRegistrationsRef = collection(db, 'events', clubId, 'clubEvents', eventId, 'guestRegistrations');
-    console.log('Creating guest registration in collection:', guestRegistrationsRef.path);
-    console.log('Registration data being stored:', registrationData);
-    const docRef = await addDoc(guestRegistrationsRef, registrationData);
-    console.log('Guest registration created successfully with ID:', docRef.id);
-    return docRef.id;
+    return registerThroughFunction(clubId, eventId, { additionalInfo, formResponses });
   },
 
   // Batch check user registrations for multiple events (optimized for ProfilePage)
@@ -29,3 +29,37 @@ export async function uploadEventHighlightImage(
   const url = await getDownloadURL(storageRef);
   return url;
 }
+
+// Certificate artwork and signature images for a club's template
+export async function uploadCertificateAsset(
+  file: File,
+  clubId: string,
+  type: 'background' | 'signature'
+): Promise<string> {
+  const storage = getStorage();
+  const ext = file.name.split('.').pop() || 'png';
+  const uniqueId = `${Date.now()}_${Math.floor(Math.random() * 100000)}`;
+  const storageRef = ref(storage, `clubs/${clubId}/certificates/${type}_${uniqueId}.${ext}`);
+  await uploadBytes(storageRef, file);
+  const url = await getDownloadURL(storageRef);
+  return url;
+}
+
+// A file attached to a registration form answer
+export async function uploadRegistrationFile(
+  file: File,
+  organizerClubId: string,
+  eventId: string,
+  userId: string
+): Promise<string> {
+  const storage = getStorage();
+  const ext = file.name.split('.').pop() || 'bin';
+  const uniqueId = `${Date.now()}_${Math.floor(Math.random() * 100000)}`;
+  const storageRef = ref(
+    storage,
+    `events/${organizerClubId}/${eventId}/registrations/${userId}/${uniqueId}.${ext}`
+  );
+  await uploadBytes(storageRef, file);
+  const url = await getDownloadURL(storageRef);
+  return url;
+}
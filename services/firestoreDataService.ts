@@ -9,11 +9,16 @@ import {
   doc,
   updateDoc,
   getDoc,
-  collectionGroup
+  collectionGroup,
+  setDoc,
+  writeBatch
 } from 'firebase/firestore';
-import { userProfileService } from './firebaseAuthService';
-import { ClubTeamMember } from '../types';
+import { notificationService, toNotification } from './notificationService';
+import { permissionService } from './permissionService';
+import { ClubTeamMember, ApplicationReview, ApplicationStage, InterviewSlot } from '../types';
 import { db } from '../../frontend/firebaseConfig';
+import { functions } from '../firebaseConfig';
+import { httpsCallable } from 'firebase/functions';
 import { 
   EVENTS, 
   CLUBS, 
@@ -27,6 +32,8 @@ import {
 } from '../constants';
 import { Event, Club, User, LeadershipMember, AnnualEvent, NewsArticle, ExternalEvent, Notification, Application, EventStatus } from '../types';
 import { removeUndefinedValues } from '../utils/firestoreUtils';
+import { getScheduleStatus, parseLegacySchedule } from '../utils/eventSchedule';
+import { APPLICATION_STAGE_LABELS, APPLICATION_SCORE_MAX, findSlotConflict } from '../utils/recruitment';
 
 // Collection names
 const COLLECTIONS = {
@@ -215,11 +222,12 @@ export const firestoreDataService = {
   
       const events = snapshot.docs.map(doc => {
         const data = doc.data();
-        return {
+        const event = {
           id: doc.id,
           ...data,
           organizerClubId: data.organizerClubId || doc.ref.parent.parent?.id, // ✅ ensure clubId is always present
         } as Event;
+        return { ...event, status: getScheduleStatus(event) };
       });
   
       return events;
@@ -233,7 +241,10 @@ export const firestoreDataService = {
       const clubRef = doc(db, COLLECTIONS.CLUBS, clubId);
       const clubEventsRef = collection(clubRef, 'clubEvents');
       const snapshot = await getDocs(clubEventsRef);
-      return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Event));
+      return snapshot.docs.map(doc => {
+        const event = { id: doc.id, ...doc.data() } as Event;
+        return { ...event, status: getScheduleStatus(event) };
+      });
     } catch (error) {
       console.error('Error getting club events:', error);
       return [];
@@ -327,7 +338,7 @@ export const firestoreDataService = {
     try {
       const notificationsRef = collection(db, COLLECTIONS.NOTIFICATIONS);
       const snapshot = await getDocs(notificationsRef);
-      return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Notification));
+      return snapshot.docs.map(toNotification);
     } catch (error: any) {
       // Handle permission errors gracefully
       if (error.code === 'permission-denied' || error.message?.includes('permissions')) {
@@ -356,27 +367,21 @@ export const firestoreDataService = {
     }
   },
 
-  // Create a new application
-  createApplication: async (application: Omit<Application, 'id'>): Promise<Application> => {
-    try {
-      // Backward-compatible top-level storage (kept if needed elsewhere)
-      const applicationsRef = collection(db, COLLECTIONS.APPLICATIONS);
-      const docRef = await addDoc(applicationsRef, application);
-      return { id: docRef.id, ...application } as Application;
-    } catch (error) {
-      console.error('Error creating application:', error);
-      throw error;
-    }
-  },
-
   // Store application under the specific club's subcollection
   createClubApplication: async (clubId: string, application: Omit<Application, 'id' | 'clubId'>): Promise<Application> => {
     try {
       const clubRef = doc(db, COLLECTIONS.CLUBS, clubId);
       const clubAppsRef = collection(clubRef, 'applications');
-      const payload = { ...application, clubId } as Omit<Application, 'id'>;
-      const docRef = await addDoc(clubAppsRef, payload);
-      return { id: docRef.id, ...payload } as Application;
+      const payload = cleanPayload({ ...application, clubId, submittedAt: new Date().toISOString() }) as Omit<Application, 'id'>;
+      // One application per user per drive, and one request outside drives: the id is fixed, and the rules refuse to overwrite it
+      const appRef = doc(clubAppsRef, application.driveId ? `${application.driveId}_${application.userId}` : application.userId!);
+      // Reading a missing application is refused by the rules, so a failed read means there is none yet
+      const existing = await getDoc(appRef).catch(() => null);
+      if (existing?.exists()) {
+        throw new Error(application.driveId ? 'You have already applied in this recruitment drive.' : 'You have already sent this club a request.');
+      }
+      await setDoc(appRef, payload);
+      return { id: appRef.id, ...payload } as Application;
     } catch (error) {
       console.error('Error creating club application:', error);
       throw error;
@@ -422,17 +427,17 @@ export const firestoreDataService = {
     // If updates.team is missing, fetch current team and include it
     console.log("hitted")
     console.log(updates)
+    const clubSnap = await getDoc(clubRef);
+    const currentTeam: ClubTeamMember[] = clubSnap.exists() ? (clubSnap.data() as any).team || [] : [];
     let teamToUpdate = updates.team;
     if (!teamToUpdate) {
-      const clubSnap = await getDoc(clubRef);
-      if (clubSnap.exists()) {
-        const clubData = clubSnap.data() as any;
-        teamToUpdate = clubData.team || [];
-      } else {
-        teamToUpdate = [];
-      }
+      teamToUpdate = currentTeam;
     }
 
+    // Editing the roster needs the stronger team capability; everything else is a profile edit
+    const teamChanged = !!updates.team && JSON.stringify(updates.team) !== JSON.stringify(currentTeam);
+    await permissionService.authorize(teamChanged ? 'manage-club-team' : 'manage-club-profile', clubId);
+
     // Clean undefined/null values from updates and nested arrays (e.g., team)
     const cleanedUpdates = removeUndefinedValues(updates);
 
@@ -499,77 +504,55 @@ export const firestoreDataService = {
 
     await updateDoc(clubRef, cleanedUpdates);
 
-    // --- Update each user's managedClubIds and role if they are in the team ---
-    if (cleanedUpdates.team && Array.isArray(cleanedUpdates.team)) {
-      for (const member of cleanedUpdates.team) {
-        if (member.id) {
-          try {
-            const userRef = doc(db, 'users', member.id);
-            const userSnap = await getDoc(userRef);
-            if (userSnap.exists()) {
-              const userData = userSnap.data() as any;
-              const managedClubIds = Array.isArray(userData.managedClubIds)
-                ? Array.from(new Set([...(userData.managedClubIds || []), clubId]))
-                : [clubId];
-              const newRole = userData.role === 'admin' ? 'admin' : 'contributor';
-              const updatePayload: any = {
-                managedClubIds,
-                role: newRole,
-                name: member.name,
-                // Do NOT store position in user profile
-              };
-              // Ensure position is not present in user profile
-              if ('position' in updatePayload) {
-                delete updatePayload.position;
-              }
-              await updateDoc(userRef, updatePayload);
-            }
-          } catch (err) {
-            // Ignore errors for now
-          }
-        }
+    // Team members manage the club; the function also clears access for members who left the team
+    if (teamChanged) {
+      const removedUserIds = currentTeam
+        .filter(prev => prev.id && !cleanedUpdates.team.some((m: ClubTeamMember) => m.id === prev.id))
+        .map(prev => prev.id);
+      try {
+        await httpsCallable(functions, 'syncClubTeamAccess')({ clubId, removedUserIds });
+      } catch (err) {
+        console.error('Error syncing club team access:', err);
       }
     }
   },
 
-  // Add this helper for explicit member profile update (can be called from frontend if needed)
-  updateClubMemberProfile: async (userId: string, updates: Partial<User>) => {
-    const userRef = doc(db, 'users', userId);
-
-    // If managedClubIds is present in updates, remove any null/undefined/empty values
-    if (updates.managedClubIds) {
-      updates.managedClubIds = (updates.managedClubIds as string[]).filter(
-        id => typeof id === 'string' && id.trim() !== ''
-      );
-    }
-
-    // Defensive: If managedClubIds becomes empty, set role to 'student'
-    if (
-      Array.isArray(updates.managedClubIds) &&
-      updates.managedClubIds.length === 0
-    ) {
-      updates.role = 'student';
-    }
-
-    // Ensure position is not present in user profile updates
-    if ('position' in updates) {
-      delete updates.position;
-    }
-
-    await updateDoc(userRef, updates);
-  },
-
   // Create a new event under a club
   createClubEvent: async (clubId: string, event: Omit<Event, 'id' | 'status'>): Promise<Event> => {
-    // Set status based on event date
-    const status = getEventStatusByDate(event.date);
-    const payload = { ...event, status, organizerClubId: clubId };
+    await permissionService.authorize('create-event', clubId);
+
+    // Set status based on the event schedule
+    const status = getScheduleStatus({ ...event, status: EventStatus.Upcoming });
+    // Seat counters start at zero so the registration functions never have to count registrations
+    const payload = { ...event, status, organizerClubId: clubId, seatsTaken: 0, waitlistCounter: 0 };
     const clubRef = doc(db, 'clubs', clubId);
     const clubEventsRef = collection(clubRef, 'clubEvents');
     const docRef = await addDoc(clubEventsRef, payload);
     return { id: docRef.id, ...payload } as Event;
   },
 
+  // One-off backfill: give events saved with free-form date and time strings a structured schedule
+  migrateEventSchedules: async (): Promise<{ migrated: number; skipped: string[] }> => {
+    await permissionService.authorize('view-admin-console');
+
+    const snapshot = await getDocs(collectionGroup(db, 'clubEvents'));
+    let migrated = 0;
+    const skipped: string[] = [];
+    for (const eventDoc of snapshot.docs) {
+      const data = eventDoc.data() as Event;
+      if (data.schedule) continue;
+      const schedule = parseLegacySchedule(data.date, data.time);
+      if (!schedule) {
+        skipped.push(`${data.name || eventDoc.id} (${data.date || 'no date'})`);
+        continue;
+      }
+      // The original strings stay as they are, since they are already what attendees have seen
+      await updateDoc(eventDoc.ref, { schedule, status: getScheduleStatus({ ...data, schedule }) });
+      migrated++;
+    }
+    return { migrated, skipped };
+  },
+
   getClubById: async (clubId: string): Promise<Club | null> => {
     try {
       const clubRef = doc(db, COLLECTIONS.CLUBS, clubId);
@@ -596,6 +579,10 @@ export const firestoreDataService = {
     // /events/{clubId}/clubEvents/{eventId}
     const eventRef = doc(db, 'events', clubId, 'clubEvents', eventId);
 
+    // Posting results is open to coordinators; any other change is a full event edit
+    const isHighlightsOnly = Object.keys(updates).every(key => ['highlights', 'winnerDetails', 'eventImages', 'markAsPast'].includes(key));
+    await permissionService.authorize(isHighlightsOnly ? 'manage-event-highlights' : 'edit-event', clubId);
+
     const updatePayload: any = { ...updates };
     if (updates.markAsPast) {
       updatePayload.status = EventStatus.Past;
@@ -607,11 +594,67 @@ export const firestoreDataService = {
       updatePayload.eventImages = updates.eventImages;
     }
     delete updatePayload.markAsPast;
+    // Seat counters belong to the registration functions; an edit form's stale copy must not overwrite them
+    delete updatePayload.seatsTaken;
+    delete updatePayload.waitlistCounter;
+
+    // Capture the winners before the update so only newly announced ones are notified
+    const newWinners = updates.highlights?.winners;
+    let previousWinnerNames: string[] = [];
+    if (newWinners?.length) {
+      const eventSnap = await getDoc(eventRef);
+      previousWinnerNames = ((eventSnap.data() as Event | undefined)?.highlights?.winners || []).map(w => w.name.trim().toLowerCase());
+    }
 
     await updateDoc(eventRef, updatePayload);
+
+    if (newWinners?.length) {
+      await notifyEventWinners(clubId, eventId, newWinners.filter(w => !previousWinnerNames.includes(w.name.trim().toLowerCase())));
+    }
   },
 };
 
+// Winners are entered by name, so match them to registrants on a best-effort basis
+const notifyEventWinners = async (
+  clubId: string,
+  eventId: string,
+  winners: { position: string; name: string }[]
+): Promise<void> => {
+  if (winners.length === 0) return;
+  try {
+    const eventPath = ['events', clubId, 'clubEvents', eventId] as const;
+    const [eventSnap, registrationsSnap, guestRegistrationsSnap] = await Promise.all([
+      getDoc(doc(db, ...eventPath)),
+      getDocs(collection(db, ...eventPath, 'registrations')),
+      getDocs(collection(db, ...eventPath, 'guestRegistrations')),
+    ]);
+    const eventName: string = eventSnap.data()?.name || 'the event';
+    const registrants = [...registrationsSnap.docs, ...guestRegistrationsSnap.docs]
+      .map(d => d.data() as { userId?: string; userName?: string; status?: string })
+      .filter(r => r.userId && r.userName && r.status !== 'cancelled');
+
+    for (const winner of winners) {
+      const winnerName = winner.name.trim().toLowerCase();
+      const userIds = registrants
+        .filter(r => r.userName!.trim().toLowerCase() === winnerName)
+        .map(r => r.userId!);
+      await notificationService.notifyUsers(userIds, {
+        type: 'event-winner',
+        message: `Congratulations! You placed ${winner.position} in ${eventName}.`,
+        link: `/events/${eventId}`,
+        clubId,
+      });
+    }
+  } catch (error) {
+    console.error('Error notifying event winners:', error);
+  }
+};
+
+const getClubName = async (clubId: string): Promise<string> => {
+  const clubSnap = await getDoc(doc(db, 'clubs', clubId));
+  return (clubSnap.data() as any)?.name || 'the club';
+};
+
 // Application mutations under club
 export const clubApplicationsService = {
   updateStatus: async (
@@ -619,62 +662,137 @@ export const clubApplicationsService = {
     applicationId: string,
     status: 'accepted' | 'rejected'
   ): Promise<void> => {
+    await permissionService.authorize('review-applications', clubId);
     const appRef = doc(db, 'clubs', clubId, 'applications', applicationId);
+    const appSnap = await getDoc(appRef);
     const payload = cleanPayload({ status });
     console.log('Updating application status:', appRef.path, payload);
     await updateDoc(appRef, payload);
+
+    const userId: string | undefined = appSnap.data()?.userId;
+    if (userId) {
+      const clubName = await getClubName(clubId);
+      await notificationService.notifyUsers([userId], {
+        type: status === 'accepted' ? 'application-accepted' : 'application-rejected',
+        message: status === 'accepted'
+          ? `Your application to ${clubName} has been accepted!`
+          : `Your application to ${clubName} was not accepted this time.`,
+        link: `/clubs/${clubId}`,
+        clubId,
+      });
+    }
   },
 
-  acceptAndPromote: async (
+  // Move pending applications to another round of the pipeline
+  moveToStage: async (
     clubId: string,
-    applicationId: string
+    applicationIds: string[],
+    stage: ApplicationStage
   ): Promise<void> => {
-    const appRef = doc(db, 'clubs', clubId, 'applications', applicationId);
-    const appSnap = await getDoc(appRef);
-    if (!appSnap.exists()) throw new Error('Application not found');
-    const app = appSnap.data() as any;
-    const userId: string | undefined = app.userId;
-    const userName: string = app.userName;
-
-    // 1) Update application status
-    const statusPayload = cleanPayload({ status: 'accepted' });
-    console.log('Accepting application:', appRef.path, statusPayload);
-    await updateDoc(appRef, statusPayload);
-
-    // 2) Add to club team if not already present
-    const clubRef = doc(db, 'clubs', clubId);
-    const clubSnap = await getDoc(clubRef);
-    if (clubSnap.exists()) {
-      const clubData = clubSnap.data() as any;
-      console.log('Club data before team update:', clubData);
-      const team: ClubTeamMember[] = Array.isArray(clubData.team) ? clubData.team : [];
-      const exists = team.some(m => m.id === userId);
-      if (!exists) {
-        const newMember: ClubTeamMember = { id: userId || userName, name: userName, position: 'Coordinator' };
-        const updatedTeam = [...team, newMember];
-        if (updatedTeam.length > 0) {
-          const teamPayload = cleanPayload({ team: updatedTeam });
-          console.log('Promoting user to club team:', clubRef.path, teamPayload);
-          await updateDoc(clubRef, teamPayload);
-        } else {
-          console.warn('Skipped team update: team array would be empty');
-        }
-      }
+    await permissionService.authorize('review-applications', clubId);
+    const snaps = await Promise.all(applicationIds.map(id => getDoc(doc(db, 'clubs', clubId, 'applications', id))));
+    const moving = snaps.filter(snap => snap.exists() && snap.data()?.status === 'pending' && (snap.data()?.stage || 'screening') !== stage);
+    if (moving.length === 0) return;
+
+    const stageUpdatedAt = new Date().toISOString();
+    const batch = writeBatch(db);
+    moving.forEach(snap => batch.update(snap.ref, { stage, stageUpdatedAt }));
+    await batch.commit();
+
+    const clubName = await getClubName(clubId);
+    // Screening is the starting point, so only moves forward are worth telling the applicant about
+    if (stage !== 'screening') {
+      const userIds = moving.map(snap => snap.data()?.userId).filter((id): id is string => !!id);
+      await notificationService.notifyUsers(userIds, {
+        type: 'info',
+        message: `Your application to ${clubName} has moved to the ${APPLICATION_STAGE_LABELS[stage].toLowerCase()} round.`,
+        link: `/clubs/${clubId}`,
+        clubId,
+      });
     }
+  },
 
-    // 3) Promote user to contributor for this club
-    if (userId) {
-      const profile = await userProfileService.getUserProfile(userId);
-      if (profile) {
-        const managed = Array.from(new Set([...(profile.managedClubIds || []), clubId]));
-        const profilePayload = cleanPayload({
-          role: profile.role === 'admin' ? 'admin' : 'contributor',
-          managedClubIds: managed
-        });
-        console.log('Promoting user profile:', userId, profilePayload);
-        await userProfileService.updateUserProfile(userId, profilePayload);
-      }
+  /**
+   * Book an interview for a pending application and move it to the interview stage.
+   * Slots may not overlap another pending applicant's interview.
+   */
+  scheduleInterview: async (
+    clubId: string,
+    applicationId: string,
+    slot: Omit<InterviewSlot, 'scheduledBy'>
+  ): Promise<InterviewSlot> => {
+    const actor = await permissionService.authorize('review-applications', clubId);
+    if (new Date(slot.end).getTime() <= new Date(slot.start).getTime()) {
+      throw new Error('The interview must end after it starts.');
+    }
+    const applications = await firestoreDataService.getClubApplications(clubId);
+    const application = applications.find(app => app.id === applicationId);
+    if (!application) throw new Error('Application not found');
+    const conflict = findSlotConflict(slot, applications, applicationId);
+    if (conflict) throw new Error(`That slot overlaps ${conflict.userName}'s interview.`);
+
+    const interviewSlot: InterviewSlot = { ...slot, scheduledBy: actor.id! };
+    await updateDoc(doc(db, 'clubs', clubId, 'applications', applicationId), {
+      interviewSlot,
+      stage: 'interview',
+      stageUpdatedAt: new Date().toISOString(),
+    });
+    if (application.userId) {
+      const clubName = await getClubName(clubId);
+      const when = new Date(slot.start).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' });
+      await notificationService.notifyUsers([application.userId], {
+        type: 'info',
+        message: `Your interview with ${clubName} is on ${when} at ${slot.location}.`,
+        link: `/clubs/${clubId}`,
+        clubId,
+      });
     }
+    return interviewSlot;
+  },
+
+  getReviews: async (clubId: string, applicationId: string): Promise<ApplicationReview[]> => {
+    await permissionService.authorize('review-applications', clubId);
+    const snap = await getDocs(collection(db, 'clubs', clubId, 'applications', applicationId, 'reviews'));
+    return snap.docs
+      .map(d => ({ ...d.data(), id: d.id } as ApplicationReview))
+      .sort((a, b) => a.updatedAt.localeCompare(b.updatedAt));
+  },
+
+  // Each reviewer keeps one review per stage; saving again replaces it
+  saveReview: async (
+    clubId: string,
+    applicationId: string,
+    review: Pick<ApplicationReview, 'stage' | 'scores' | 'note'>
+  ): Promise<ApplicationReview> => {
+    const actor = await permissionService.authorize('review-applications', clubId);
+    if (review.scores.some(s => !(s.score >= 0 && s.score <= APPLICATION_SCORE_MAX))) {
+      throw new Error(`Scores must be between 0 and ${APPLICATION_SCORE_MAX}.`);
+    }
+    const saved: ApplicationReview = {
+      reviewerId: actor.id!,
+      reviewerName: actor.name,
+      stage: review.stage,
+      scores: review.scores,
+      note: review.note.trim(),
+      updatedAt: new Date().toISOString(),
+    };
+    const reviewId = `${actor.id}_${review.stage}`;
+    await setDoc(doc(db, 'clubs', clubId, 'applications', applicationId, 'reviews', reviewId), saved);
+    return { ...saved, id: reviewId };
+  },
+
+  /**
+   * Accept an application and add the applicant to the club team with one of the member positions.
+   * Club management access (the contributor role) is only granted when asked for.
+   */
+  acceptAndPromote: async (
+    clubId: string,
+    applicationId: string,
+    options: { position: string; grantManagement: boolean }
+  ): Promise<void> => {
+    await permissionService.authorize('review-applications', clubId);
+    // The function updates the application and the team together, and notifies the applicant
+    await httpsCallable(functions, 'acceptApplication')({ clubId, applicationId, ...options });
   }
 };  
 
@@ -703,7 +821,7 @@ export const realtimeDataService = {
     const notificationsRef = collection(db, COLLECTIONS.NOTIFICATIONS);
     const q = query(notificationsRef, where('userId', '==', userId));
     return onSnapshot(q, (snapshot) => {
-      const notifications = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Notification));
+      const notifications = snapshot.docs.map(toNotification);
       callback(notifications);
     });
   }
@@ -719,11 +837,3 @@ function cleanPayload(payload: any) {
   return cleaned;
 }
 
-// Utility to determine event status based on date
-function getEventStatusByDate(eventDate: string): EventStatus {
-  const now = new Date();
-  const date = new Date(eventDate);
-  if (date > now) return EventStatus.Upcoming;
-  if (date.toDateString() === now.toDateString()) return EventStatus.Ongoing;
-  return EventStatus.Past;
-}
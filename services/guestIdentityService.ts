@@ -0,0 +1,63 @@
+import { doc, getDoc } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { signInWithCustomToken } from 'firebase/auth';
+import { auth, db, functions } from '../firebaseConfig';
+import { User } from '../types';
+import { userProfileService } from './firebaseAuthService';
+import { GuestDetails, GuestPurgeResult, normalizeGuestEmail } from '../utils/guestIdentity';
+
+export type { GuestDetails, GuestPurgeResult } from '../utils/guestIdentity';
+
+const purgeStatusRef = () => doc(db, 'maintenance', 'guestPurge');
+
+export const guestIdentityService = {
+  // Ask the sign-in function to email a one-time code; codes never reach the browser
+  sendVerificationCode: async (email: string): Promise<void> => {
+    try {
+      const sendGuestVerificationCode = httpsCallable(functions, 'sendGuestVerificationCode');
+      await sendGuestVerificationCode({ email: normalizeGuestEmail(email) });
+    } catch (error: any) {
+      console.error('Error sending guest verification code:', error);
+      throw new Error(error.message || 'Could not send the verification code. Try again.');
+    }
+  },
+
+  /**
+   * Exchange the emailed code for a guest session. The function checks the code, creates or
+   * refreshes the guest's profile and returns a custom token whose uid is the guest ID.
+   */
+  signIn: async (details: GuestDetails, code: string): Promise<User> => {
+    try {
+      const verifyGuestCode = httpsCallable<{ details: GuestDetails; code: string }, { token: string }>(functions, 'verifyGuestCode');
+      const { data } = await verifyGuestCode({ details: { ...details, email: normalizeGuestEmail(details.email) }, code: code.trim() });
+      const credential = await signInWithCustomToken(auth, data.token);
+      const profile = await userProfileService.getUserProfile(credential.user.uid);
+      if (!profile) throw new Error('Could not load your guest profile.');
+      return profile;
+    } catch (error: any) {
+      console.error('Error signing in guest:', error);
+      throw new Error(error.message || 'That code is wrong or has expired.');
+    }
+  },
+
+  getLastPurge: async (): Promise<GuestPurgeResult | null> => {
+    try {
+      const snap = await getDoc(purgeStatusRef());
+      return snap.exists() ? snap.data() as GuestPurgeResult : null;
+    } catch (error) {
+      console.error('Error getting the last guest data purge:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Run the guest data purge now instead of waiting for the daily job. Deletes guest profiles,
+   * registrations, payments and payment intents past retention, and removes the guest's details
+   * from their invoices.
+   */
+  purgeExpired: async (): Promise<GuestPurgeResult> => {
+    const purgeGuestData = httpsCallable<void, GuestPurgeResult>(functions, 'purgeGuestData');
+    const { data } = await purgeGuestData();
+    return data;
+  },
+};
@@ -0,0 +1,57 @@
+import { collection, doc, getDoc, getDocs, query, where } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from '../firebaseConfig';
+import { permissionService } from './permissionService';
+import { EventRegistration } from './eventRegistrationService';
+import { Invoice } from '../utils/invoice';
+
+const newestFirst = (a: Invoice, b: Invoice) => b.issuedAt.localeCompare(a.issuedAt);
+
+export const invoiceService = {
+  /**
+   * The invoice for a paid registration. Registrations paid before invoicing existed get theirs
+   * issued on first request, numbered by the payment functions like any other.
+   */
+  getInvoice: async (registration: EventRegistration, clubId: string): Promise<Invoice | null> => {
+    if (!registration.id || (registration.paymentStatus !== 'paid' && registration.paymentStatus !== 'refunded')) return null;
+    try {
+      const snap = await getDoc(doc(db, 'invoices', registration.id));
+      if (snap.exists()) return snap.data() as Invoice;
+
+      const issueInvoice = httpsCallable(functions, 'issueInvoice');
+      const result = await issueInvoice({
+        clubId,
+        eventId: registration.eventId,
+        registrationId: registration.id,
+        isGuest: !!registration.isGuest,
+      });
+      return result.data as Invoice;
+    } catch (error) {
+      console.error('Error getting invoice:', error);
+      throw new Error('Could not load the invoice for this registration');
+    }
+  },
+
+  getUserInvoices: async (userId: string): Promise<Invoice[]> => {
+    if (!userId) return [];
+    try {
+      // Guests are signed in with a custom token whose uid is their guest ID, so this covers them too
+      const snap = await getDocs(query(collection(db, 'invoices'), where('userId', '==', userId)));
+      return snap.docs.map(d => d.data() as Invoice).sort(newestFirst);
+    } catch (error) {
+      console.error('Error getting user invoices:', error);
+      return [];
+    }
+  },
+
+  // A club's invoices issued between two dates, for the treasurer's bulk export
+  getClubInvoices: async (clubId: string, from: Date, to: Date = new Date()): Promise<Invoice[]> => {
+    await permissionService.authorize('manage-payments', clubId);
+    const snap = await getDocs(query(collection(db, 'invoices'), where('clubId', '==', clubId)));
+    const [start, end] = [from.toISOString(), to.toISOString()];
+    return snap.docs
+      .map(d => d.data() as Invoice)
+      .filter(invoice => invoice.issuedAt >= start && invoice.issuedAt <= end)
+      .sort(newestFirst);
+  },
+};
@@ -0,0 +1,216 @@
+import { doc, getDoc, getDocs, setDoc, updateDoc, collection, query, where } from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import { Event, JudgeScore, JudgingConfig, JudgingCriterion, JudgingEntrant, JudgingResult } from '../types';
+import { permissionService } from './permissionService';
+import { eventRegistrationService } from './eventRegistrationService';
+import { firestoreDataService } from './firestoreDataService';
+import { notificationService } from './notificationService';
+import { canJudgeEvent } from '../utils/permissions';
+import { computeJudgingResults, getRubricProblems, hasConflictOfInterest } from '../utils/judging';
+
+const getEventRef = (clubId: string, eventId: string) => doc(db, 'events', clubId, 'clubEvents', eventId);
+const getConfigRef = (clubId: string, eventId: string) => doc(getEventRef(clubId, eventId), 'judging', 'config');
+const getScoresCollection = (clubId: string, eventId: string) => collection(getEventRef(clubId, eventId), 'judgeScores');
+
+const PLACEMENT_LABELS = ['Winner', 'Runner-up', 'Third Place'];
+
+// Teams for team events, otherwise confirmed individual registrations; only organizers can read these
+const loadEntrants = async (clubId: string, eventId: string, event: Event): Promise<JudgingEntrant[]> => {
+  if (event.registrationType === 'team') {
+    const teams = await eventRegistrationService.getEventTeams(eventId, clubId);
+    return teams.map(team => ({ id: team.id!, name: team.name, memberIds: team.members.map(member => member.userId) }));
+  }
+  const registrations = await eventRegistrationService.getEventRegistrations(eventId, clubId);
+  return registrations
+    .filter(registration => registration.status === 'confirmed')
+    .map(registration => ({ id: registration.userId, name: registration.userName, memberIds: [registration.userId] }));
+};
+
+const getEvent = async (clubId: string, eventId: string): Promise<Event> => {
+  const snap = await getDoc(getEventRef(clubId, eventId));
+  if (!snap.exists()) throw new Error('Event not found');
+  return { ...(snap.data() as Event), id: eventId };
+};
+
+export const judgingService = {
+  getConfig: async (clubId: string, eventId: string): Promise<JudgingConfig | null> => {
+    try {
+      const snap = await getDoc(getConfigRef(clubId, eventId));
+      return snap.exists() ? (snap.data() as JudgingConfig) : null;
+    } catch (error) {
+      console.error('Error getting judging config:', error);
+      return null;
+    }
+  },
+
+  // Replace the rubric; criteria cannot change once judges have started scoring
+  saveCriteria: async (clubId: string, eventId: string, criteria: JudgingCriterion[]): Promise<void> => {
+    await permissionService.authorize('manage-judging', clubId);
+    const problems = getRubricProblems(criteria);
+    if (problems.length) throw new Error(problems[0]);
+    const existing = await judgingService.getConfig(clubId, eventId);
+    if (existing && existing.status !== 'draft') throw new Error('The rubric is locked once judging has opened.');
+    await setDoc(getConfigRef(clubId, eventId), {
+      criteria,
+      judges: existing?.judges || [],
+      status: 'draft',
+      updatedAt: new Date().toISOString(),
+    } as JudgingConfig);
+  },
+
+  /**
+   * Grant judging access for this event only. The ids are mirrored onto the event so the Firestore rules can check them.
+   * Newly added judges are notified.
+   */
+  assignJudges: async (clubId: string, eventId: string, judges: { userId: string; name: string }[]): Promise<void> => {
+    await permissionService.authorize('manage-judging', clubId);
+    const event = await getEvent(clubId, eventId);
+    const existing = await judgingService.getConfig(clubId, eventId);
+    const previousIds = event.judgeIds || [];
+    const judgeIds = judges.map(judge => judge.userId);
+
+    await updateDoc(getEventRef(clubId, eventId), { judgeIds });
+    await setDoc(getConfigRef(clubId, eventId), {
+      criteria: existing?.criteria || [],
+      judges,
+      status: existing?.status || 'draft',
+      updatedAt: new Date().toISOString(),
+    } as JudgingConfig);
+
+
+    const added = judgeIds.filter(id => !previousIds.includes(id));
+    if (added.length) {
+      await notificationService.notifyUsers(added, {
+        type: 'access-granted',
+        message: `You have been added as a judge for ${event.name}.`,
+        link: `/events/${eventId}/judge`,
+        clubId,
+      });
+    }
+  },
+
+  setStatus: async (clubId: string, eventId: string, status: 'draft' | 'open' | 'closed'): Promise<void> => {
+    await permissionService.authorize('manage-judging', clubId);
+    const config = await judgingService.getConfig(clubId, eventId);
+    if (!config) throw new Error('Set up a rubric first.');
+    if (status === 'open') {
+      const problems = getRubricProblems(config.criteria);
+      if (problems.length) throw new Error(problems[0]);
+      if (config.judges.length === 0) throw new Error('Assign at least one judge before opening scoring.');
+      // Judges score the entrants as they stand when scoring opens
+      const entrants = await loadEntrants(clubId, eventId, await getEvent(clubId, eventId));
+      if (entrants.length === 0) throw new Error('There are no confirmed entrants to score yet.');
+      await updateDoc(getConfigRef(clubId, eventId), { status, entrants, updatedAt: new Date().toISOString() });
+      return;
+    }
+    await updateDoc(getConfigRef(clubId, eventId), { status, updatedAt: new Date().toISOString() });
+  },
+
+  // The entrants stored when scoring opened; before that, organizers see the current registrations
+  getEntrants: async (clubId: string, eventId: string): Promise<JudgingEntrant[]> => {
+    try {
+      const config = await judgingService.getConfig(clubId, eventId);
+      if (config?.entrants && config.status !== 'draft') return config.entrants;
+      return await loadEntrants(clubId, eventId, await getEvent(clubId, eventId));
+    } catch (error) {
+      console.error('Error getting judging entrants:', error);
+      return [];
+    }
+  },
+
+  getMyScores: async (clubId: string, eventId: string, judgeId: string): Promise<JudgeScore[]> => {
+    try {
+      const snap = await getDocs(query(getScoresCollection(clubId, eventId), where('judgeId', '==', judgeId)));
+      return snap.docs.map(d => ({ id: d.id, ...d.data() } as JudgeScore));
+    } catch (error) {
+      console.error('Error getting judge scores:', error);
+      return [];
+    }
+  },
+
+  getAllScores: async (clubId: string, eventId: string): Promise<JudgeScore[]> => {
+    await permissionService.authorize('manage-judging', clubId);
+    const snap = await getDocs(getScoresCollection(clubId, eventId));
+    return snap.docs.map(d => ({ id: d.id, ...d.data() } as JudgeScore));
+  },
+
+  /**
+   * Save the signed-in judge's scorecard for one entrant, or record a recusal.
+   * Judges can revise their cards until the organizers close scoring.
+   */
+  submitScore: async (
+    clubId: string,
+    eventId: string,
+    entrant: JudgingEntrant,
+    card: { scores: Record<string, number>; comment?: string; recused?: boolean }
+  ): Promise<JudgeScore> => {
+    const actor = await permissionService.getActor();
+    const event = await getEvent(clubId, eventId);
+    if (!actor || !canJudgeEvent(actor, event)) throw new Error('You are not a judge for this event.');
+    const config = await judgingService.getConfig(clubId, eventId);
+    if (config?.status !== 'open') throw new Error('Scoring is not open for this event.');
+
+    const recused = !!card.recused;
+    if (!recused && hasConflictOfInterest(actor.id!, entrant)) {
+      throw new Error('You are part of this entry and cannot score it.');
+    }
+    if (!recused) {
+      const outOfRange = config.criteria.find(criterion => {
+        const mark = card.scores[criterion.id];
+        return typeof mark !== 'number' || Number.isNaN(mark) || mark < 0 || mark > criterion.maxScore;
+      });
+      if (outOfRange) throw new Error(`Enter a score between 0 and ${outOfRange.maxScore} for ${outOfRange.name}.`);
+    }
+
+    const score: JudgeScore = {
+      judgeId: actor.id!,
+      judgeName: actor.name,
+      entrantId: entrant.id,
+      entrantName: entrant.name,
+      scores: recused ? {} : card.scores,
+      recused,
+      submittedAt: new Date().toISOString(),
+      ...(card.comment?.trim() ? { comment: card.comment.trim() } : {}),
+    };
+    const scoreId = `${actor.id}_${entrant.id}`;
+    await setDoc(doc(getScoresCollection(clubId, eventId), scoreId), score);
+    return { ...score, id: scoreId };
+  },
+
+  getResults: async (clubId: string, eventId: string): Promise<JudgingResult[]> => {
+    const [config, entrants, scores] = await Promise.all([
+      judgingService.getConfig(clubId, eventId),
+      judgingService.getEntrants(clubId, eventId),
+      judgingService.getAllScores(clubId, eventId),
+    ]);
+    return computeJudgingResults(config?.criteria || [], entrants, scores);
+  },
+
+  // Post the top three to the event highlights and lock scoring
+  publishResults: async (clubId: string, eventId: string): Promise<JudgingResult[]> => {
+    await permissionService.authorize('manage-judging', clubId);
+    const config = await judgingService.getConfig(clubId, eventId);
+    if (config?.status !== 'closed') throw new Error('Close scoring before publishing results.');
+    const results = await judgingService.getResults(clubId, eventId);
+    const placed = results.filter(result => result.judgeCount > 0 && result.rank <= PLACEMENT_LABELS.length);
+    if (placed.length === 0) throw new Error('No entries have been scored yet.');
+
+    const event = await getEvent(clubId, eventId);
+    const highlights = event.highlights;
+    await firestoreDataService.updateClubEvent(clubId, eventId, {
+      highlights: {
+        images: highlights?.images || [],
+        guests: highlights?.guests || [],
+        ...(highlights?.galleryDriveLink ? { galleryDriveLink: highlights.galleryDriveLink } : {}),
+        winners: placed.map(result => ({
+          position: PLACEMENT_LABELS[result.rank - 1],
+          name: result.name,
+          details: `Judges' score ${result.rawScore.toFixed(1)}/100`,
+        })),
+      },
+    });
+    await updateDoc(getConfigRef(clubId, eventId), { status: 'published', updatedAt: new Date().toISOString() });
+
+    return results;
+  },
+};
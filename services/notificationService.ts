@@ -0,0 +1,79 @@
+import { collection, addDoc, doc, updateDoc, query, where, getDocs, writeBatch, serverTimestamp, DocumentSnapshot } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { auth, db, functions } from '../firebaseConfig';
+import { Notification } from '../types';
+
+// Staff send notifications on behalf of a club or a fest, which the security rules check
+type NewNotification = Omit<Notification, 'id' | 'timestamp' | 'isRead' | 'senderId'>;
+
+// Firestore batches are capped at 500 writes
+const BATCH_LIMIT = 500;
+
+const buildNotification = (notification: NewNotification) => ({
+  userId: notification.userId,
+  type: notification.type,
+  message: notification.message,
+  timestamp: serverTimestamp(),
+  isRead: false,
+  senderId: auth.currentUser?.uid || '',
+  ...(notification.link ? { link: notification.link } : {}),
+  ...(notification.clubId ? { clubId: notification.clubId } : {}),
+  ...(notification.annualEventId ? { annualEventId: notification.annualEventId } : {}),
+});
+
+// Older notifications stored the timestamp as an ISO string
+export const toNotification = (snap: DocumentSnapshot): Notification => {
+  const data = snap.data() || {};
+  const timestamp = typeof data.timestamp?.toDate === 'function' ? data.timestamp.toDate().toISOString() : data.timestamp || '';
+  return { ...data, id: snap.id, timestamp } as Notification;
+};
+
+export const notificationService = {
+  // One-off conversion of ISO string timestamps on older notifications; admins run it from the console
+  convertLegacyTimestamps: async (): Promise<number> => {
+    const convert = httpsCallable<void, { converted: number }>(functions, 'convertLegacyTimestamps');
+    const { data } = await convert();
+    return data.converted;
+  },
+
+  // Create a notification for a single user
+  createNotification: async (notification: NewNotification): Promise<string> => {
+    const docRef = await addDoc(collection(db, 'notifications'), buildNotification(notification));
+    return docRef.id;
+  },
+
+  // Fan the same notification out to several users; failures are logged so they never block the triggering action
+  notifyUsers: async (userIds: string[], notification: Omit<NewNotification, 'userId'>): Promise<void> => {
+    const recipients = Array.from(new Set(userIds.filter(Boolean)));
+    try {
+      for (let i = 0; i < recipients.length; i += BATCH_LIMIT) {
+        const batch = writeBatch(db);
+        recipients.slice(i, i + BATCH_LIMIT).forEach(userId => {
+          batch.set(doc(collection(db, 'notifications')), buildNotification({ ...notification, userId }));
+        });
+        await batch.commit();
+      }
+    } catch (error) {
+      console.error('Error sending notifications:', error);
+    }
+  },
+
+  // Mark a single notification as read
+  markAsRead: async (notificationId: string): Promise<void> => {
+    await updateDoc(doc(db, 'notifications', notificationId), { isRead: true });
+  },
+
+  // Mark every unread notification for a user as read
+  markAllAsRead: async (userId: string): Promise<void> => {
+    const unread = await getDocs(query(
+      collection(db, 'notifications'),
+      where('userId', '==', userId),
+      where('isRead', '==', false)
+    ));
+    for (let i = 0; i < unread.docs.length; i += BATCH_LIMIT) {
+      const batch = writeBatch(db);
+      unread.docs.slice(i, i + BATCH_LIMIT).forEach(d => batch.update(d.ref, { isRead: true }));
+      await batch.commit();
+    }
+  },
+};
@@ -0,0 +1,218 @@
+import { collection, doc, getDoc, getDocsFromServer, runTransaction, Timestamp } from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import { Event } from '../types';
+import { EventRegistration } from './eventRegistrationService';
+import { CheckInResult } from './ticketService';
+import { parseTicket, ticketsMatch } from '../utils/ticket';
+import { permissionService } from './permissionService';
+
+// What the device keeps of each registration
+export type OfflineRegistration = Pick<
+  EventRegistration,
+  'id' | 'eventId' | 'clubId' | 'userId' | 'userName' | 'userEmail' | 'userRollNumber' | 'status' | 'qrCode' | 'checkInStatus' | 'isGuest' | 'guestCollege'
+>;
+
+export interface OfflineCheckInSnapshot {
+  eventId: string;
+  clubId: string;
+  downloadedAt: string; // ISO datetime
+  registrations: OfflineRegistration[];
+}
+
+// A check-in recorded on this device that hasn't reached Firestore yet
+export interface QueuedCheckIn {
+  registrationId: string;
+  isGuest: boolean;
+  userName: string;
+  checkedInAt: string; // ISO datetime of the scan, kept as the check-in time when synced
+  checkedInBy?: string;
+}
+
+export interface OfflineSyncResult {
+  synced: number;
+  duplicates: number; // Already checked in from another device
+  rejected: string[]; // Names whose registration was cancelled or removed since the download
+  remaining: number; // Still queued because the connection dropped mid-sync
+}
+
+const snapshotKey = (eventId: string) => `checkIn.snapshot.${eventId}`;
+const queueKey = (eventId: string) => `checkIn.queue.${eventId}`;
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) as T : fallback;
+  } catch (error) {
+    console.error('Error reading offline check-in data:', error);
+    return fallback;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => localStorage.setItem(key, JSON.stringify(value));
+
+const toMillis = (value: any): number | null =>
+  value?.toMillis ? value.toMillis() : value ? new Date(value).getTime() : null;
+
+/**
+ * Both registration collections, straight from the server. Unlike getEventRegistrations this throws
+ * instead of returning an empty list, so a dropped connection never replaces a good offline copy.
+ */
+const fetchEventRegistrations = async (event: Event): Promise<EventRegistration[]> => {
+  const eventPath = ['events', event.organizerClubId, 'clubEvents', event.id] as const;
+  const [registrations, guestRegistrations] = await Promise.all([
+    getDocsFromServer(collection(db, ...eventPath, 'registrations')),
+    getDocsFromServer(collection(db, ...eventPath, 'guestRegistrations')),
+  ]);
+  return [...registrations.docs, ...guestRegistrations.docs].map(d => ({ id: d.id, ...d.data() } as EventRegistration));
+};
+
+// Roll numbers for internal registrants whose registration predates the field being stored on it
+const loadMissingRollNumbers = async (registrations: EventRegistration[]): Promise<Map<string, string>> => {
+  const rollNumbers = new Map<string, string>();
+  const ids = Array.from(new Set(registrations.filter(r => !r.isGuest && !r.userRollNumber).map(r => r.userId)));
+  await Promise.all(ids.map(async id => {
+    const snap = await getDoc(doc(db, 'users', id)).catch(() => null);
+    if (snap?.exists() && snap.data().rollNumber) rollNumbers.set(id, snap.data().rollNumber);
+  }));
+  return rollNumbers;
+};
+
+export const offlineCheckInService = {
+  getSnapshot: (eventId: string): OfflineCheckInSnapshot | null => readJson(snapshotKey(eventId), null),
+
+  getQueue: (eventId: string): QueuedCheckIn[] => readJson(queueKey(eventId), []),
+
+  /**
+   * Copy an event's registrations and guest registrations to this device. Check-ins still
+   * waiting to sync stay marked, so re-downloading never un-checks anyone.
+   * @throws When the registrations can't be loaded; the copy already on the device is kept
+   */
+  download: async (event: Event, scannedBy?: string): Promise<OfflineCheckInSnapshot> => {
+    await permissionService.authorize('check-in-attendees', event.organizerClubId, scannedBy);
+    const registrations = await fetchEventRegistrations(event);
+    const rollNumbers = await loadMissingRollNumbers(registrations);
+    const queued = new Set(offlineCheckInService.getQueue(event.id).map(item => item.registrationId));
+    const snapshot: OfflineCheckInSnapshot = {
+      eventId: event.id,
+      clubId: event.organizerClubId,
+      downloadedAt: new Date().toISOString(),
+      registrations: registrations.map(r => ({
+        id: r.id,
+        eventId: r.eventId,
+        clubId: r.clubId || event.organizerClubId,
+        userId: r.userId,
+        userName: r.userName,
+        userEmail: r.userEmail,
+        userRollNumber: r.userRollNumber || rollNumbers.get(r.userId) || '',
+        status: r.status,
+        qrCode: r.qrCode || '',
+        checkInStatus: queued.has(r.id!) ? 'checked_in' : r.checkInStatus || 'not_checked_in',
+        isGuest: r.isGuest || false,
+        guestCollege: r.guestCollege || '',
+      })),
+    };
+    writeJson(snapshotKey(event.id), snapshot);
+    return snapshot;
+  },
+
+  // Drop the downloaded copy; refuses while check-ins are still waiting to sync
+  clear: (eventId: string): void => {
+    if (offlineCheckInService.getQueue(eventId).length > 0) {
+      throw new Error('Sync the queued check-ins before removing the offline copy.');
+    }
+    localStorage.removeItem(snapshotKey(eventId));
+  },
+
+  /**
+   * Check someone in against the downloaded copy, by scanned ticket or roll number,
+   * and queue the check-in for the next sync
+   */
+  checkIn: (eventId: string, code: string, scannedBy?: string): CheckInResult => {
+    const snapshot = offlineCheckInService.getSnapshot(eventId);
+    if (!snapshot) {
+      return { status: 'invalid', message: 'Download the registrations before checking in offline.' };
+    }
+    const value = code.trim();
+    const ticket = parseTicket(value);
+    if (ticket && (ticket.eventId !== snapshot.eventId || ticket.clubId !== snapshot.clubId)) {
+      return { status: 'wrong_event', message: 'This ticket belongs to a different event.' };
+    }
+    // The random token only exists on the stored QR string, so the scan has to match it exactly
+    const registration = ticket
+      ? snapshot.registrations.find(r => r.id === ticket.registrationId && ticketsMatch(r.qrCode, value))
+      : snapshot.registrations.find(r => r.userRollNumber && r.userRollNumber.toLowerCase() === value.toLowerCase());
+    if (!registration) {
+      return ticket
+        ? { status: 'invalid', message: 'No registration matches this ticket.' }
+        : { status: 'invalid', message: 'No registration for this roll number.' };
+    }
+    const result = registration as EventRegistration;
+    if (registration.status !== 'confirmed') {
+      return { status: 'not_confirmed', message: `Registration is ${registration.status}.`, registration: result };
+    }
+    if (registration.checkInStatus === 'checked_in') {
+      return { status: 'already_checked_in', message: `${registration.userName} is already checked in.`, registration: result };
+    }
+
+    registration.checkInStatus = 'checked_in';
+    writeJson(snapshotKey(eventId), snapshot);
+    writeJson(queueKey(eventId), [
+      ...offlineCheckInService.getQueue(eventId),
+      {
+        registrationId: registration.id!,
+        isGuest: registration.isGuest || false,
+        userName: registration.userName,
+        checkedInAt: new Date().toISOString(),
+        ...(scannedBy ? { checkedInBy: scannedBy } : {}),
+      },
+    ]);
+    return { status: 'checked_in', message: `${registration.userName} checked in.`, registration: result };
+  },
+
+  /**
+   * Push queued check-ins to Firestore. Someone already checked in from another device
+   * counts as a duplicate, not a failure; the earlier of the two scans is kept as the check-in time.
+   */
+  sync: async (eventId: string): Promise<OfflineSyncResult> => {
+    const snapshot = offlineCheckInService.getSnapshot(eventId);
+    const queue = offlineCheckInService.getQueue(eventId);
+    const result: OfflineSyncResult = { synced: 0, duplicates: 0, rejected: [], remaining: queue.length };
+    if (!snapshot || queue.length === 0) return result;
+
+    for (const item of queue) {
+      const registrationRef = doc(
+        db, 'events', snapshot.clubId, 'clubEvents', eventId,
+        item.isGuest ? 'guestRegistrations' : 'registrations', item.registrationId
+      );
+      try {
+        const outcome = await runTransaction(db, async (transaction): Promise<'synced' | 'duplicate' | 'rejected'> => {
+          const snap = await transaction.get(registrationRef);
+          if (!snap.exists() || snap.data().status !== 'confirmed') return 'rejected';
+          const scannedAt = new Date(item.checkedInAt).getTime();
+          const update = {
+            checkInStatus: 'checked_in',
+            checkInTime: Timestamp.fromMillis(scannedAt),
+            ...(item.checkedInBy ? { checkedInBy: item.checkedInBy } : {}),
+          };
+          if (snap.data().checkInStatus === 'checked_in') {
+            const existing = toMillis(snap.data().checkInTime);
+            if (existing !== null && scannedAt < existing) transaction.update(registrationRef, update);
+            return 'duplicate';
+          }
+          transaction.update(registrationRef, update);
+          return 'synced';
+        });
+        if (outcome === 'synced') result.synced += 1;
+        else if (outcome === 'duplicate') result.duplicates += 1;
+        else result.rejected.push(item.userName);
+      } catch (error) {
+        // Most likely the connection dropped again; keep this and the rest for the next attempt
+        console.error('Error syncing offline check-in:', error);
+        break;
+      }
+      writeJson(queueKey(eventId), offlineCheckInService.getQueue(eventId).filter(q => q.registrationId !== item.registrationId));
+      result.remaining -= 1;
+    }
+    return result;
+  },
+};
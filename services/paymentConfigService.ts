@@ -5,20 +5,31 @@ import {
   where, 
   getDocs, 
   doc, 
+  getDoc,
   updateDoc, 
   deleteDoc,
   serverTimestamp 
 } from 'firebase/firestore';
 import { db } from '../../frontend/firebaseConfig';
+import { PaymentProvider } from './paymentGateway';
+import { permissionService } from './permissionService';
+import { TicketTier } from '../utils/pricing';
+import type { RefundRules } from '../utils/refunds';
+
+export type { RefundRules } from '../utils/refunds';
+export { DEFAULT_REFUND_RULES } from '../utils/refunds';
 
 export interface PaymentConfig {
   id?: string;
   eventId: string;
-  phonePeAccountId: string;
+  gateway?: PaymentProvider; // Defaults to Razorpay for configurations created before gateway selection
+  phonePeAccountId: string; // Only used when gateway is 'phonepe'
   isEnabled: boolean;
-  customFee?: number;
+  customFee?: number; // Price of the single standard tier when no ticket tiers are set
+  ticketTiers?: TicketTier[]; // Replaces customFee once any are set
   paymentDescription?: string;
-  refundPolicy?: string;
+  refundPolicy?: string; // Free-text note shown to attendees; eligibility comes from refundRules
+  refundRules?: RefundRules;
   paymentDeadline?: string;
   specialInstructions?: string;
   organizerId: string;
@@ -33,6 +44,8 @@ class PaymentConfigService {
   // Create payment configuration for an event
   async createPaymentConfig(configData: Omit<PaymentConfig, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
     try {
+      await permissionService.authorize('manage-payments', configData.clubId);
+
       // Clean undefined values
       const cleanedData = this.cleanUndefinedValues(configData);
       
@@ -75,6 +88,9 @@ class PaymentConfigService {
   // Update payment configuration
   async updatePaymentConfig(configId: string, updates: Partial<PaymentConfig>): Promise<void> {
     try {
+      const existing = await this.getConfigById(configId);
+      await permissionService.authorize('manage-payments', existing?.clubId);
+
       const configRef = doc(db, this.collectionName, configId);
       const cleanedUpdates = this.cleanUndefinedValues(updates);
       
@@ -88,9 +104,18 @@ class PaymentConfigService {
     }
   }
 
+  // Current state of a configuration, used to scope the permission check and for the audit trail
+  private async getConfigById(configId: string): Promise<PaymentConfig | null> {
+    const configDoc = await getDoc(doc(db, this.collectionName, configId));
+    return configDoc.exists() ? { id: configDoc.id, ...configDoc.data() } as PaymentConfig : null;
+  }
+
   // Delete payment configuration
   async deletePaymentConfig(configId: string): Promise<void> {
     try {
+      const existing = await this.getConfigById(configId);
+      await permissionService.authorize('manage-payments', existing?.clubId);
+
       const configRef = doc(db, this.collectionName, configId);
       await deleteDoc(configRef);
     } catch (error) {
@@ -139,6 +164,17 @@ class PaymentConfigService {
     }
   }
 
+  // Every event's payment configuration keyed by event ID, for reports that price many events at once
+  async getPaymentConfigsByEvent(): Promise<Map<string, PaymentConfig>> {
+    try {
+      const querySnapshot = await getDocs(collection(db, this.collectionName));
+      return new Map(querySnapshot.docs.map(doc => [doc.get('eventId'), { id: doc.id, ...doc.data() } as PaymentConfig]));
+    } catch (error) {
+      console.error('Error getting payment configs:', error);
+      return new Map();
+    }
+  }
+
   // Helper method to clean undefined values from object
   private cleanUndefinedValues(obj: any): any {
     const cleaned: any = {};
@@ -0,0 +1,151 @@
+import { Event, User } from '../types';
+import { TicketSelection } from '../utils/pricing';
+
+export type PaymentProvider = 'razorpay' | 'cashfree' | 'phonepe';
+export type PaymentMode = 'sandbox' | 'production';
+
+export const PAYMENT_PROVIDERS: { id: PaymentProvider; name: string }[] = [
+  { id: 'razorpay', name: 'Razorpay' },
+  { id: 'cashfree', name: 'Cashfree' },
+  { id: 'phonepe', name: 'PhonePe' },
+];
+
+export const DEFAULT_PAYMENT_PROVIDER: PaymentProvider = 'razorpay';
+
+export interface GatewayOrderRequest {
+  amount: number; // In rupees; adapters convert to the provider's unit on the server
+  currency: string;
+  orderId: string; // Our own order/receipt ID
+  eventId: string;
+  eventName: string;
+  clubId: string;
+  description: string;
+  customer: {
+    id: string;
+    name: string;
+    email: string;
+    phone: string;
+  };
+  mode: PaymentMode;
+  accountId?: string; // Provider-specific merchant/sub-account to settle into
+  // The order functions price the ticket from this themselves, refuse the order when the result differs
+  // from amount, and stamp the resolved pricing on the payment intent
+  pricing?: TicketSelection;
+}
+
+export interface GatewayOrder {
+  provider: PaymentProvider;
+  orderId: string;
+  gatewayOrderId: string;
+  amount: number;
+  currency: string;
+  // Provider-specific data the checkout step needs (Razorpay key, Cashfree session ID, PhonePe redirect URL)
+  checkoutData: Record<string, any>;
+}
+
+export interface GatewayCheckoutResult {
+  paymentId: string;
+  orderId: string;
+  signature?: string;
+}
+
+// Normalized payment state shared by all providers
+export type GatewayPaymentState = 'created' | 'pending' | 'paid' | 'failed' | 'refunded' | 'cancelled';
+
+export interface GatewayVerification {
+  provider: PaymentProvider;
+  orderId: string;
+  paymentId: string;
+  state: GatewayPaymentState;
+  amount: number;
+  currency: string;
+  method?: string;
+  transactionId?: string;
+  timestamp: string;
+}
+
+export interface PaymentGateway {
+  readonly provider: PaymentProvider;
+  readonly displayName: string;
+
+  /** Create an order/session with the provider (done by our Cloud Functions) */
+  createOrder(request: GatewayOrderRequest): Promise<GatewayOrder>;
+
+  /** Run the provider's checkout UI in the browser and resolve once the customer has paid */
+  openCheckout(order: GatewayOrder, request: GatewayOrderRequest): Promise<GatewayCheckoutResult>;
+
+  /** Ask the provider (through our backend) for the authoritative payment state */
+  verifyPayment(orderId: string, paymentId?: string): Promise<GatewayVerification>;
+
+  /** Hand a webhook/callback payload to the backend for signature verification */
+  verifyWebhook(payload: any, signature?: string): Promise<boolean>;
+}
+
+// Cloud Functions base URL shared by all gateway adapters
+export const PAYMENT_FUNCTIONS_BASE_URL = 'https://us-central1-evnty-124fb.cloudfunctions.net';
+
+// Shared JSON request helper for the adapters
+export const postToPaymentFunction = async <T = any>(endpoint: string, body: any): Promise<T> => {
+  const response = await fetch(`${PAYMENT_FUNCTIONS_BASE_URL}/${endpoint}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`HTTP error! status: ${response.status}, message: ${errorText}`);
+  }
+
+  return response.json();
+};
+
+// Load a provider's checkout script once
+export const loadCheckoutScript = (src: string, globalName: string): Promise<any> => {
+  return new Promise((resolve, reject) => {
+    if ((window as any)[globalName]) {
+      resolve((window as any)[globalName]);
+      return;
+    }
+
+    const script = document.createElement('script');
+    script.src = src;
+    script.async = true;
+    script.onload = () => {
+      if ((window as any)[globalName]) {
+        resolve((window as any)[globalName]);
+      } else {
+        reject(new Error(`${globalName} SDK failed to initialize`));
+      }
+    };
+    script.onerror = () => reject(new Error(`Failed to load ${globalName} SDK`));
+    document.head.appendChild(script);
+  });
+};
+
+// Build a gateway-neutral order request for an event registration
+export const buildOrderRequest = (
+  event: Event,
+  user: User,
+  orderId: string,
+  options: { amount?: number; mode?: PaymentMode; accountId?: string; description?: string; pricing?: TicketSelection } = {}
+): GatewayOrderRequest => ({
+  amount: options.amount ?? event.registrationFee ?? 0,
+  currency: 'INR',
+  orderId,
+  eventId: event.id,
+  eventName: event.name,
+  clubId: event.organizerClubId,
+  description: options.description || `Registration for ${event.name}`,
+  customer: {
+    id: user.id || 'unknown',
+    name: user.name,
+    email: user.email || '',
+    phone: user.mobile || '',
+  },
+  mode: options.mode || 'sandbox',
+  ...(options.accountId ? { accountId: options.accountId } : {}),
+  ...(options.pricing ? { pricing: options.pricing } : {}),
+});
@@ -0,0 +1,40 @@
+import { Event } from '../types';
+import { PaymentGateway, PaymentProvider, DEFAULT_PAYMENT_PROVIDER } from './paymentGateway';
+import { razorpayGateway } from './razorpayGateway';
+import { cashfreeGateway } from './cashfreeGateway';
+import { phonepeGateway } from './phonepeGateway';
+import { paymentConfigService } from './paymentConfigService';
+import { paymentService } from './paymentService';
+
+const gateways: { [key in PaymentProvider]: PaymentGateway } = {
+  razorpay: razorpayGateway,
+  cashfree: cashfreeGateway,
+  phonepe: phonepeGateway,
+};
+
+export const getPaymentGateway = (provider: PaymentProvider = DEFAULT_PAYMENT_PROVIDER): PaymentGateway => {
+  return gateways[provider] || gateways[DEFAULT_PAYMENT_PROVIDER];
+};
+
+/**
+ * Resolve which gateway (and which merchant account on it) an event's payments go through.
+ * Events without a payment configuration keep using Razorpay with the club's linked account.
+ */
+export const resolveEventGateway = async (
+  event: Event
+): Promise<{ gateway: PaymentGateway; accountId?: string }> => {
+  const config = await paymentConfigService.getEventPaymentConfig(event.id);
+  const provider = config?.isEnabled && config.gateway ? config.gateway : DEFAULT_PAYMENT_PROVIDER;
+  const gateway = getPaymentGateway(provider);
+
+  switch (provider) {
+    case 'phonepe':
+      return { gateway, accountId: config?.phonePeAccountId || undefined };
+    case 'razorpay': {
+      const accountId = await paymentService.getSubMerchantAccountId(event.organizerClubId);
+      return { gateway, accountId: accountId || undefined };
+    }
+    default:
+      return { gateway };
+  }
+};
@@ -0,0 +1,62 @@
+import { doc, onSnapshot } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from '../firebaseConfig';
+import { PaymentIntent } from '../utils/paymentWebhooks';
+import { removeUndefinedValues } from '../utils/firestoreUtils';
+import { RegistrationFormResponses } from '../types';
+
+export type PaymentIntentRequest = Pick<PaymentIntent, 'provider' | 'clubId' | 'eventId' | 'amount' | 'currency' | 'accountId' | 'pricing'> & {
+  teamId?: string;
+  additionalInfo?: string;
+  formResponses?: RegistrationFormResponses;
+};
+
+// How long the browser waits for the gateway's webhook before telling the attendee it's still processing
+const CONFIRMATION_TIMEOUT_MS = 60 * 1000;
+
+const intentRef = (orderId: string) => doc(db, 'paymentIntents', orderId);
+
+export const paymentIntentService = {
+  /**
+   * Record what the attendee is paying for before checkout opens. The function issues the order ID
+   * and holds a seat for it, failing when the event is full so nobody pays for a seat that isn't there.
+   * Only the webhook receiver can move it past 'created'; the browser never marks its own payment as paid.
+   */
+  create: async (request: PaymentIntentRequest): Promise<PaymentIntent> => {
+    try {
+      const createPaymentIntent = httpsCallable<PaymentIntentRequest, PaymentIntent>(functions, 'createPaymentIntent');
+      const { data } = await createPaymentIntent(removeUndefinedValues(request));
+      return data;
+    } catch (error: any) {
+      console.error('Error creating payment intent:', error);
+      throw new Error(error.message || 'Could not start the payment. Please try again.');
+    }
+  },
+
+  /**
+   * Resolve once the webhook receiver confirms or fails the payment, or with the intent
+   * as it stands when the wait times out (still 'created' while the webhook is in flight)
+   */
+  waitForConfirmation: (orderId: string, timeoutMs: number = CONFIRMATION_TIMEOUT_MS): Promise<PaymentIntent | null> =>
+    new Promise((resolve, reject) => {
+      let latest: PaymentIntent | null = null;
+      const finish = (intent: PaymentIntent | null) => {
+        clearTimeout(timer);
+        unsubscribe();
+        resolve(intent);
+      };
+      const timer = setTimeout(() => finish(latest), timeoutMs);
+      const unsubscribe = onSnapshot(
+        intentRef(orderId),
+        snap => {
+          latest = snap.exists() ? snap.data() as PaymentIntent : null;
+          if (latest && latest.status !== 'created') finish(latest);
+        },
+        error => {
+          clearTimeout(timer);
+          console.error('Error watching payment confirmation:', error);
+          reject(error);
+        }
+      );
+    }),
+};
@@ -1,5 +1,5 @@
 import { Event, User } from '../types';
-import { razorpayService } from './razorpayService';
+import { razorpayGateway } from './razorpayGateway';
 import { doc, getDoc } from 'firebase/firestore';
 import { db } from '../firebaseConfig';
 
@@ -37,6 +37,25 @@ export interface PaymentStatus {
   timestamp: string;
 }
 
+// Map the gateway-neutral payment state onto this service's legacy status values
+const toLegacyStatus = (state: string): PaymentStatus['status'] => {
+  switch (state) {
+    case 'paid':
+      return 'success';
+    case 'failed':
+      return 'failed';
+    case 'cancelled':
+    case 'refunded':
+      return 'cancelled';
+    default:
+      return 'pending';
+  }
+};
+
+/**
+ * Razorpay-backed convenience wrapper kept for existing callers.
+ * New code should go through the PaymentGateway returned by resolveEventGateway.
+ */
 class PaymentService {
   /**
    * Initiate Razorpay payment
@@ -44,38 +63,31 @@ class PaymentService {
   async initiatePayment(paymentRequest: PaymentRequest): Promise<PaymentResponse> {
     try {
       const orderId = `EVENT_${paymentRequest.eventId}_${Date.now()}`;
-      
-      const razorpayRequest = {
+
+      const order = await razorpayGateway.createOrder({
         amount: paymentRequest.amount,
         currency: paymentRequest.currency,
-        orderId: orderId,
-        customerId: paymentRequest.customerId,
-        customerName: paymentRequest.customerName,
-        customerEmail: paymentRequest.customerEmail,
-        customerPhone: paymentRequest.customerPhone,
+        orderId,
         eventId: paymentRequest.eventId,
         eventName: paymentRequest.eventName,
+        clubId: paymentRequest.clubId || '',
         description: paymentRequest.description,
-        clubId: paymentRequest.clubId,
-        subMerchantAccountId: paymentRequest.subMerchantAccountId,
-        mode: 'sandbox' as 'sandbox' | 'production'
-      };
+        customer: {
+          id: paymentRequest.customerId,
+          name: paymentRequest.customerName,
+          email: paymentRequest.customerEmail,
+          phone: paymentRequest.customerPhone,
+        },
+        mode: 'sandbox',
+        accountId: paymentRequest.subMerchantAccountId,
+      });
 
-      const response = await razorpayService.createPaymentOrder(razorpayRequest);
-      
-      if (response.success && response.razorpayOrderId) {
-        return {
-          success: true,
-          paymentId: response.razorpayOrderId,
-          paymentUrl: response.razorpayOrderId, // For Razorpay, we use the order ID
-          orderId: response.orderId || orderId
-        };
-      } else {
-        return {
-          success: false,
-          error: response.error || 'Failed to initiate payment'
-        };
-      }
+      return {
+        success: true,
+        paymentId: order.gatewayOrderId,
+        paymentUrl: order.gatewayOrderId, // For Razorpay, we use the order ID
+        orderId: order.orderId
+      };
     } catch (error) {
       console.error('Payment initiation failed:', error);
       return {
@@ -90,7 +102,17 @@ class PaymentService {
    */
   async checkPaymentStatus(paymentId: string): Promise<PaymentStatus> {
     try {
-      return await razorpayService.verifyPaymentStatus(paymentId);
+      const verification = await razorpayGateway.verifyPayment(paymentId);
+      return {
+        paymentId: verification.paymentId,
+        orderId: verification.orderId,
+        status: toLegacyStatus(verification.state),
+        amount: verification.amount,
+        currency: verification.currency,
+        transactionId: verification.transactionId,
+        paymentMethod: verification.method,
+        timestamp: verification.timestamp
+      };
     } catch (error) {
       console.error('Payment status check failed:', error);
       throw new Error('Failed to check payment status');
@@ -102,7 +124,7 @@ class PaymentService {
    */
   async verifyPaymentCallback(callbackData: any): Promise<boolean> {
     try {
-      return await razorpayService.handlePaymentCallback(callbackData);
+      return await razorpayGateway.verifyWebhook(callbackData);
     } catch (error) {
       console.error('Payment verification failed:', error);
       return false;
@@ -110,18 +132,12 @@ class PaymentService {
   }
 
   /**
-   * Fetch sub-merchant account ID for a club
+   * Fetch sub-merchant account ID for a club; the club document carries a public copy of it
    */
   async getSubMerchantAccountId(clubId: string): Promise<string | null> {
     try {
-      const paymentDocRef = doc(db, 'clubs', clubId, 'paymentDetails', 'razorpay');
-      const paymentDoc = await getDoc(paymentDocRef);
-      
-      if (paymentDoc.exists()) {
-        const data = paymentDoc.data();
-        return data.linked_account_id || null;
-      }
-      return null;
+      const clubDoc = await getDoc(doc(db, 'clubs', clubId));
+      return clubDoc.exists() ? clubDoc.data().razorpayLinkedAccountId || null : null;
     } catch (error) {
       console.error('Error fetching sub-merchant account ID:', error);
       return null;
@@ -0,0 +1,29 @@
+import { auth } from '../firebaseConfig';
+import { User } from '../types';
+import { userProfileService } from './firebaseAuthService';
+import { Capability, PermissionError, can } from '../utils/permissions';
+
+// Service-side gate for mutations: resolves the acting user's profile and checks it against the policy
+export const permissionService = {
+  // Load the profile of the signed-in user, or of an explicit actor when one is passed in
+  getActor: async (actorId?: string): Promise<User | null> => {
+    const uid = actorId || auth.currentUser?.uid;
+    if (!uid) return null;
+    return userProfileService.getUserProfile(uid);
+  },
+
+  // Non-throwing check, for callers that branch on the result
+  check: async (capability: Capability, clubId?: string, actorId?: string): Promise<boolean> => {
+    const actor = await permissionService.getActor(actorId);
+    return can(actor, capability, clubId);
+  },
+
+  // Throws a PermissionError when the actor lacks the capability; returns the actor otherwise
+  authorize: async (capability: Capability, clubId?: string, actorId?: string): Promise<User> => {
+    const actor = await permissionService.getActor(actorId);
+    if (!actor || !can(actor, capability, clubId)) {
+      throw new PermissionError(capability, clubId);
+    }
+    return actor;
+  },
+};
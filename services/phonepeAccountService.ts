@@ -5,19 +5,34 @@ import {
   where, 
   getDocs, 
   doc, 
+  getDoc,
+  setDoc,
   updateDoc, 
   deleteDoc,
+  deleteField,
   serverTimestamp 
 } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
 import { db } from '../../frontend/firebaseConfig';
+import { functions } from '../firebaseConfig';
+import { permissionService } from './permissionService';
+import { credentialVaultService } from './credentialVaultService';
+import { revenueService } from './revenueService';
+import { PaymentIntent } from '../utils/paymentWebhooks';
+import { getRevenueTotals, toRevenueTransaction } from '../utils/revenue';
+
+// Kept only in the credential vault; account documents hold masked copies
+export const PHONEPE_SECRET_FIELDS = ['saltKey', 'saltIndex', 'bankAccountNumber', 'panNumber'] as const;
+export type PhonePeSecretField = typeof PHONEPE_SECRET_FIELDS[number];
+export type PhonePeSecrets = Partial<Record<PhonePeSecretField, string>>;
 
 export interface PhonePeAccount {
   id?: string;
   userId: string; // Organizer's user ID
   clubId: string; // Club ID for which this account is configured
   merchantId: string;
-  saltKey: string;
-  saltIndex: string;
+  maskedCredentials?: PhonePeSecrets; // e.g. { saltKey: '••••3f9a' }; the real values are in the vault
+  credentialsStoredAt?: string; // ISO datetime of the last vault write
   environment: 'sandbox' | 'production';
   isActive: boolean;
   createdAt: any; // Firestore timestamp
@@ -26,14 +41,18 @@ export interface PhonePeAccount {
   phoneNumber?: string;
   email?: string;
   businessName?: string;
+  businessAddress?: string; // Printed on invoices as the issuer's address
   businessType?: string;
   gstNumber?: string;
-  panNumber?: string;
-  bankAccountNumber?: string;
   ifscCode?: string;
   accountHolderName?: string;
 }
 
+export type PhonePeAccountInput = Omit<PhonePeAccount, 'id' | 'createdAt' | 'updatedAt' | 'maskedCredentials' | 'credentialsStoredAt'>;
+
+// Accounts saved before the vault existed still carry their secrets in plain text until migrated
+type LegacyPhonePeAccount = PhonePeAccount & PhonePeSecrets;
+
 export interface PaymentConfiguration {
   id?: string;
   clubId: string;
@@ -48,40 +67,95 @@ class PhonePeAccountService {
   private accountsCollection = 'phonepeAccounts';
   private configurationsCollection = 'paymentConfigurations';
 
-  // Create or update PhonePe account for organizer
-  async createOrUpdateAccount(accountData: Omit<PhonePeAccount, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+  /**
+   * Create or update the organizer's PhonePe account. Secrets go to the credential vault;
+   * blank secrets on an update keep the ones already stored.
+   */
+  async createOrUpdateAccount(accountData: PhonePeAccountInput, secrets: PhonePeSecrets): Promise<string> {
     try {
+      await permissionService.authorize('manage-payments', accountData.clubId);
+
       // Clean undefined values from accountData
       const cleanedAccountData = this.cleanUndefinedValues(accountData);
       
       // Check if account already exists for this user and club
       const existingAccount = await this.getAccountByUserAndClub(accountData.userId, accountData.clubId);
+      if (!existingAccount && !secrets.saltKey?.trim()) {
+        throw new Error('A salt key is required for a new PhonePe account');
+      }
+
+      // New accounts get their ID up front so the vault entry can be keyed by it
+      const accountRef = existingAccount
+        ? doc(db, this.accountsCollection, existingAccount.id!)
+        : doc(collection(db, this.accountsCollection));
+      const vaulted = await credentialVaultService.store({
+        ownerType: 'phonepe-account',
+        ownerId: accountRef.id,
+        clubId: accountData.clubId,
+        // Secrets still in plain text on a legacy account move to the vault too
+        secrets: { ...this.pickLegacySecrets(existingAccount), ...this.cleanUndefinedValues(secrets) },
+      });
+      const credentialData = {
+        maskedCredentials: { ...existingAccount?.maskedCredentials, ...vaulted.masked },
+        credentialsStoredAt: vaulted.storedAt
+      };
       
       if (existingAccount) {
         // Update existing account
-        const accountRef = doc(db, this.accountsCollection, existingAccount.id!);
         await updateDoc(accountRef, {
           ...cleanedAccountData,
+          ...credentialData,
+          ...this.secretFieldDeletes(),
           updatedAt: serverTimestamp()
         });
-        return existingAccount.id!;
       } else {
         // Create new account
         const newAccount: Omit<PhonePeAccount, 'id'> = {
           ...cleanedAccountData,
+          ...credentialData,
           createdAt: serverTimestamp(),
           updatedAt: serverTimestamp()
         };
         
-        const docRef = await addDoc(collection(db, this.accountsCollection), newAccount);
-        return docRef.id;
+        await setDoc(accountRef, newAccount);
       }
+      return accountRef.id;
     } catch (error) {
       console.error('Error creating/updating PhonePe account:', error);
       throw error;
     }
   }
 
+  /**
+   * Move plain-text secrets saved before the vault existed, on PhonePe accounts and club bank details, into the vault
+   * @returns How many accounts were migrated and the names of any that failed
+   */
+  async migrateLegacyCredentials(): Promise<{ migrated: number; failed: string[] }> {
+    const migrate = httpsCallable<void, { migrated: number; failed: string[] }>(functions, 'migrateLegacyCredentials');
+    const result = await migrate();
+    return result.data;
+  }
+
+  private pickLegacySecrets(account: LegacyPhonePeAccount | PhonePeAccount | null): PhonePeSecrets {
+    const secrets: PhonePeSecrets = {};
+    if (!account) return secrets;
+    const legacy = account as LegacyPhonePeAccount;
+    PHONEPE_SECRET_FIELDS.forEach(field => {
+      if (legacy[field]) secrets[field] = String(legacy[field]);
+    });
+    return secrets;
+  }
+
+  // Strips any plain-text secrets a legacy account document still carries
+  private secretFieldDeletes(): Record<PhonePeSecretField, ReturnType<typeof deleteField>> {
+    return {
+      saltKey: deleteField(),
+      saltIndex: deleteField(),
+      bankAccountNumber: deleteField(),
+      panNumber: deleteField()
+    };
+  }
+
   // Helper method to clean undefined values from object
   private cleanUndefinedValues(obj: any): any {
     const cleaned: any = {};
@@ -189,6 +263,9 @@ class PhonePeAccountService {
   // Deactivate account
   async deactivateAccount(accountId: string): Promise<void> {
     try {
+      const account = await this.getAccountById(accountId);
+      await permissionService.authorize('manage-payments', account?.clubId);
+
       const accountRef = doc(db, this.accountsCollection, accountId);
       await updateDoc(accountRef, {
         isActive: false,
@@ -203,6 +280,8 @@ class PhonePeAccountService {
   // Configure payment for an event
   async configureEventPayment(configData: Omit<PaymentConfiguration, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
     try {
+      await permissionService.authorize('manage-payments', configData.clubId);
+
       const newConfig: Omit<PaymentConfiguration, 'id'> = {
         ...configData,
         createdAt: serverTimestamp(),
@@ -244,6 +323,10 @@ class PhonePeAccountService {
   async updatePaymentConfig(configId: string, updates: Partial<PaymentConfiguration>): Promise<void> {
     try {
       const configRef = doc(db, this.configurationsCollection, configId);
+      const configDoc = await getDoc(configRef);
+      const existing = configDoc.exists() ? configDoc.data() : null;
+      await permissionService.authorize('manage-payments', existing?.clubId);
+
       await updateDoc(configRef, {
         ...updates,
         updatedAt: serverTimestamp()
@@ -254,7 +337,10 @@ class PhonePeAccountService {
     }
   }
 
-  // Get payment statistics for an account
+  /**
+   * Totals for the events configured to collect through this account: paid and refunded
+   * amounts from the payment records, failed and pending checkouts from the payment intents
+   */
   async getAccountPaymentStats(accountId: string): Promise<{
     totalEvents: number;
     totalRevenue: number;
@@ -262,29 +348,55 @@ class PhonePeAccountService {
     failedPayments: number;
     pendingPayments: number;
   }> {
+    const emptyStats = {
+      totalEvents: 0,
+      totalRevenue: 0,
+      successfulPayments: 0,
+      failedPayments: 0,
+      pendingPayments: 0
+    };
     try {
-      // This would typically query payment records
-      // For now, return mock data
+      const account = await this.getAccountById(accountId);
+      if (!account) return emptyStats;
+
+      const configsSnapshot = await getDocs(query(
+        collection(db, this.configurationsCollection),
+        where('phonePeAccountId', '==', accountId)
+      ));
+      const eventIds = Array.from(new Set(configsSnapshot.docs.map(d => (d.data() as PaymentConfiguration).eventId)));
+      if (eventIds.length === 0) return emptyStats;
+
+      const payments = (await Promise.all(
+        eventIds.map(eventId => revenueService.getEventPayments(account.clubId, eventId))
+      )).flat().filter(payment => payment.provider === 'phonepe');
+      const intentsSnapshot = await getDocs(query(
+        collection(db, 'paymentIntents'),
+        where('clubId', '==', account.clubId),
+        where('provider', '==', 'phonepe')
+      ));
+      const intents = intentsSnapshot.docs
+        .map(d => d.data() as PaymentIntent)
+        .filter(intent => eventIds.includes(intent.eventId));
+
+      const totals = getRevenueTotals(payments.map(payment => toRevenueTransaction(payment, {
+        eventName: payment.eventId,
+        clubName: account.clubId,
+        isGuest: payment.userId.startsWith('guest_')
+      })));
       return {
-        totalEvents: 0,
-        totalRevenue: 0,
-        successfulPayments: 0,
-        failedPayments: 0,
-        pendingPayments: 0
+        totalEvents: eventIds.length,
+        totalRevenue: totals.net,
+        successfulPayments: totals.payments,
+        failedPayments: intents.filter(intent => intent.status === 'failed' || intent.status === 'amount-mismatch').length,
+        pendingPayments: intents.filter(intent => intent.status === 'created').length
       };
     } catch (error) {
       console.error('Error getting payment stats:', error);
-      return {
-        totalEvents: 0,
-        totalRevenue: 0,
-        successfulPayments: 0,
-        failedPayments: 0,
-        pendingPayments: 0
-      };
+      return emptyStats;
     }
   }
 
-  // Validate PhonePe account credentials
+  // Validate PhonePe account credentials before they are sent to the vault
   async validateAccountCredentials(merchantId: string, saltKey: string, saltIndex: string): Promise<boolean> {
     try {
       // In a real implementation, this would make an API call to PhonePe
@@ -0,0 +1,111 @@
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '../firebaseConfig';
+import {
+  PaymentGateway,
+  GatewayOrderRequest,
+  GatewayOrder,
+  GatewayCheckoutResult,
+  GatewayVerification,
+  GatewayPaymentState,
+  postToPaymentFunction,
+} from './paymentGateway';
+
+// PhonePe reports payment outcome as response codes
+const PHONEPE_STATES: { [code: string]: GatewayPaymentState } = {
+  PAYMENT_INITIATED: 'created',
+  PAYMENT_PENDING: 'pending',
+  PAYMENT_SUCCESS: 'paid',
+  PAYMENT_ERROR: 'failed',
+  PAYMENT_DECLINED: 'failed',
+  TIMED_OUT: 'failed',
+  PAYMENT_CANCELLED: 'cancelled',
+};
+
+interface PhonePeStatus {
+  code: string;
+  transactionId?: string;
+  amount: number;
+  paymentInstrument?: { type: string };
+}
+
+const STATUS_POLL_INTERVAL_MS = 3000;
+const STATUS_POLL_TIMEOUT_MS = 10 * 60 * 1000;
+
+class PhonePeGateway implements PaymentGateway {
+  readonly provider = 'phonepe' as const;
+  readonly displayName = 'PhonePe';
+
+  async createOrder(request: GatewayOrderRequest): Promise<GatewayOrder> {
+    if (!request.accountId) {
+      throw new Error('No PhonePe account is configured for this event');
+    }
+
+    // The function prices the order from the payment intent and signs it with the account's salt key from the vault
+    const createPhonePeOrder = httpsCallable<{ orderId: string }, { merchantTransactionId: string; redirectUrl: string }>(
+      functions,
+      'createPhonePeOrder'
+    );
+    const { data } = await createPhonePeOrder({ orderId: request.orderId });
+
+    return {
+      provider: this.provider,
+      orderId: request.orderId,
+      gatewayOrderId: data.merchantTransactionId || request.orderId,
+      amount: request.amount,
+      currency: request.currency,
+      checkoutData: { redirectUrl: data.redirectUrl },
+    };
+  }
+
+  async openCheckout(order: GatewayOrder): Promise<GatewayCheckoutResult> {
+    // PhonePe only offers a hosted payment page, so open it in a popup and poll for the result
+    const popup = window.open(order.checkoutData.redirectUrl, 'phonepe-checkout', 'width=480,height=720');
+    if (!popup) {
+      throw new Error('Please allow pop-ups to complete the PhonePe payment');
+    }
+
+    const startedAt = Date.now();
+    while (Date.now() - startedAt < STATUS_POLL_TIMEOUT_MS) {
+      await new Promise(resolve => setTimeout(resolve, STATUS_POLL_INTERVAL_MS));
+      const verification = await this.verifyPayment(order.gatewayOrderId);
+
+      if (verification.state === 'paid') {
+        popup.close();
+        return { paymentId: verification.paymentId, orderId: order.orderId };
+      }
+      if (verification.state === 'failed' || verification.state === 'cancelled') {
+        popup.close();
+        throw new Error(verification.state === 'cancelled' ? 'Payment cancelled by user' : 'Payment failed');
+      }
+      if (popup.closed && verification.state !== 'pending') {
+        throw new Error('Payment cancelled by user');
+      }
+    }
+
+    popup.close();
+    throw new Error('Timed out waiting for PhonePe payment confirmation');
+  }
+
+  async verifyPayment(orderId: string): Promise<GatewayVerification> {
+    const getPhonePePaymentStatus = httpsCallable<{ orderId: string }, PhonePeStatus>(functions, 'getPhonePePaymentStatus');
+    const { data } = await getPhonePePaymentStatus({ orderId });
+    return {
+      provider: this.provider,
+      orderId,
+      paymentId: data.transactionId || orderId,
+      state: PHONEPE_STATES[data.code] || 'pending',
+      amount: data.amount || 0,
+      currency: 'INR',
+      method: data.paymentInstrument?.type,
+      transactionId: data.transactionId,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  async verifyWebhook(payload: any, signature?: string): Promise<boolean> {
+    const data = await postToPaymentFunction('handlePhonePeCallback', { payload, signature });
+    return data.success === true;
+  }
+}
+
+export const phonepeGateway = new PhonePeGateway();
@@ -0,0 +1,76 @@
+import { collection, doc, getDocs, runTransaction, updateDoc } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from '../firebaseConfig';
+import { Event } from '../types';
+import { permissionService } from './permissionService';
+import { Coupon, PriceQuote, TicketSelection, normalizeCouponCode } from '../utils/pricing';
+import { removeUndefinedValues } from '../utils/firestoreUtils';
+
+export type CouponInput = Omit<Coupon, 'usedCount' | 'reservedCount' | 'createdBy' | 'createdAt' | 'updatedAt'>;
+
+const couponRef = (clubId: string, code: string) => doc(db, 'clubs', clubId, 'coupons', normalizeCouponCode(code));
+
+export const pricingService = {
+  /**
+   * Ask the payment functions what this ticket costs the signed-in attendee. Coupons are only
+   * readable by the club's treasurers, so the browser can't check a code itself.
+   * @throws With the reason when the tier or coupon can't be used
+   */
+  quote: async (event: Event, selection: TicketSelection): Promise<PriceQuote> => {
+    try {
+      const quoteTicketPrice = httpsCallable(functions, 'quoteTicketPrice');
+      const result = await quoteTicketPrice({
+        clubId: event.organizerClubId,
+        eventId: event.id,
+        tierId: selection.tierId,
+        ...(selection.couponCode?.trim() ? { couponCode: normalizeCouponCode(selection.couponCode) } : {}),
+      });
+      return result.data as PriceQuote;
+    } catch (error: any) {
+      console.error('Error quoting ticket price:', error);
+      throw new Error(error.message || 'Failed to work out the ticket price');
+    }
+  },
+
+  getClubCoupons: async (clubId: string): Promise<Coupon[]> => {
+    try {
+      const snap = await getDocs(collection(db, 'clubs', clubId, 'coupons'));
+      return snap.docs
+        .map(d => d.data() as Coupon)
+        .sort((a, b) => a.code.localeCompare(b.code));
+    } catch (error) {
+      console.error('Error getting club coupons:', error);
+      return [];
+    }
+  },
+
+  // Create a coupon or edit an existing one; the redemption count is left to the webhook receiver
+  saveCoupon: async (input: CouponInput): Promise<Coupon> => {
+    const actor = await permissionService.authorize('manage-payments', input.clubId);
+    const code = normalizeCouponCode(input.code);
+    if (!/^[A-Z0-9_-]{3,32}$/.test(code)) {
+      throw new Error('Coupon codes must be 3-32 letters, numbers, dashes or underscores');
+    }
+    if (!(input.value > 0) || (input.discountType === 'percentage' && input.value > 100)) {
+      throw new Error('Enter a discount between 1 and 100 percent, or a positive flat amount');
+    }
+
+    const ref = couponRef(input.clubId, code);
+    // Checkouts reserve and redeem uses concurrently; the transaction keeps their counts intact
+    return runTransaction(db, async (transaction) => {
+      const existingSnap = await transaction.get(ref);
+      const existing = existingSnap.exists() ? existingSnap.data() as Coupon : null;
+      const now = new Date().toISOString();
+      const coupon: Coupon = existing
+        ? { ...existing, ...input, code, updatedAt: now }
+        : { ...input, code, usedCount: 0, createdBy: actor.id || '', createdAt: now };
+      transaction.set(ref, removeUndefinedValues(coupon));
+      return coupon;
+    });
+  },
+
+  deactivateCoupon: async (clubId: string, code: string): Promise<void> => {
+    await permissionService.authorize('manage-payments', clubId);
+    await updateDoc(couponRef(clubId, code), { isActive: false, updatedAt: new Date().toISOString() });
+  },
+};
@@ -0,0 +1,116 @@
+import { razorpayService, RazorpayPaymentStatus } from './razorpayService';
+import {
+  PaymentGateway,
+  GatewayOrderRequest,
+  GatewayOrder,
+  GatewayCheckoutResult,
+  GatewayVerification,
+  GatewayPaymentState,
+  postToPaymentFunction,
+  loadCheckoutScript,
+} from './paymentGateway';
+
+const RAZORPAY_STATES: { [key in RazorpayPaymentStatus['status']]: GatewayPaymentState } = {
+  created: 'created',
+  authorized: 'pending',
+  captured: 'paid',
+  refunded: 'refunded',
+  failed: 'failed',
+};
+
+class RazorpayGateway implements PaymentGateway {
+  readonly provider = 'razorpay' as const;
+  readonly displayName = 'Razorpay';
+
+  async createOrder(request: GatewayOrderRequest): Promise<GatewayOrder> {
+    const response = await razorpayService.createPaymentOrder({
+      amount: request.amount,
+      currency: request.currency,
+      orderId: request.orderId,
+      customerId: request.customer.id,
+      customerName: request.customer.name,
+      customerEmail: request.customer.email,
+      customerPhone: request.customer.phone,
+      eventId: request.eventId,
+      eventName: request.eventName,
+      description: request.description,
+      clubId: request.clubId,
+      subMerchantAccountId: request.accountId,
+      mode: request.mode,
+      pricing: request.pricing,
+    });
+
+    if (!response.success || !response.razorpayOrderId) {
+      throw new Error('Failed to create Razorpay payment order');
+    }
+
+    return {
+      provider: this.provider,
+      orderId: response.orderId || request.orderId,
+      gatewayOrderId: response.razorpayOrderId,
+      amount: response.amount,
+      currency: response.currency,
+      checkoutData: {
+        key: response.key,
+        name: response.name,
+        description: response.description,
+        prefill: response.prefill,
+        notes: response.notes,
+      },
+    };
+  }
+
+  async openCheckout(order: GatewayOrder): Promise<GatewayCheckoutResult> {
+    // Demo orders from the test backend don't exist on Razorpay, so treat them as paid
+    if (order.gatewayOrderId.startsWith('order_') && order.gatewayOrderId.includes('_test')) {
+      console.log('Using demo payment flow for test order:', order.gatewayOrderId);
+      return { paymentId: order.gatewayOrderId, orderId: order.orderId };
+    }
+
+    const Razorpay = await loadCheckoutScript('https://checkout.razorpay.com/v1/checkout.js', 'Razorpay');
+
+    return new Promise((resolve, reject) => {
+      const rzp = new Razorpay({
+        key: order.checkoutData.key,
+        amount: order.amount,
+        currency: order.currency,
+        name: order.checkoutData.name,
+        description: order.checkoutData.description,
+        order_id: order.gatewayOrderId,
+        prefill: order.checkoutData.prefill,
+        notes: order.checkoutData.notes,
+        handler: (response: any) => {
+          resolve({
+            paymentId: response.razorpay_payment_id,
+            orderId: order.orderId,
+            signature: response.razorpay_signature,
+          });
+        },
+        modal: {
+          ondismiss: () => reject(new Error('Payment cancelled by user')),
+        },
+      });
+      rzp.open();
+    });
+  }
+
+  async verifyPayment(orderId: string): Promise<GatewayVerification> {
+    const status = await razorpayService.verifyPaymentStatus(orderId);
+    return {
+      provider: this.provider,
+      orderId: status.orderId || orderId,
+      paymentId: status.paymentId,
+      state: RAZORPAY_STATES[status.status] || 'pending',
+      amount: status.amount,
+      currency: status.currency,
+      method: status.method,
+      timestamp: new Date((status.captured_at || status.created_at) * 1000).toISOString(),
+    };
+  }
+
+  async verifyWebhook(payload: any, signature?: string): Promise<boolean> {
+    return razorpayService.handlePaymentCallback(signature ? { ...payload, signature } : payload);
+  }
+}
+
+export const razorpayGateway = new RazorpayGateway();
@@ -1,4 +1,5 @@
 import { Event, User } from '../types';
+import { TicketSelection } from '../utils/pricing';
 
 export interface RazorpayPaymentRequest {
   amount: number;
@@ -14,6 +15,7 @@ export interface RazorpayPaymentRequest {
   clubId?: string;
   subMerchantAccountId?: string;
   mode: 'sandbox' | 'production';
+  pricing?: TicketSelection; // Tier and coupon the server prices the order from
 }
 
 export interface RazorpayPaymentResponse {
@@ -9,6 +9,8 @@ import {
 } from 'firebase/firestore';
 import { db } from '../../frontend/firebaseConfig';
 import { Event, Club, User, LeadershipMember, AnnualEvent, NewsArticle, ExternalEvent, Notification, Application } from '../types';
+import { getScheduleStatus, sortEventsBySchedule } from '../utils/eventSchedule';
+import { toNotification } from './notificationService';
 
 // Real-time data service with live updates
 export class RealtimeDataService {
@@ -23,18 +25,19 @@ export class RealtimeDataService {
   // Listen to events with real-time updates
   listenToEvents(callback: (events: Event[]) => void): Unsubscribe {
     const eventsRef = collectionGroup(db, "clubEvents");
-    const q = query(eventsRef, orderBy('date', 'asc'));
-    
-    const unsubscribe = onSnapshot(q, (snapshot) => {
+
+    // Legacy date strings don't sort meaningfully, so ordering and status come from the schedule
+    const unsubscribe = onSnapshot(eventsRef, (snapshot) => {
       const events = snapshot.docs.map(doc => {
         const data = doc.data();
-        return {
+        const event = {
           id: doc.id,
           ...data,
           organizerClubId: data.organizerClubId || doc.ref.parent.parent?.id, // ✅ ensure clubId is always present
         } as Event;
+        return { ...event, status: getScheduleStatus(event) };
       });
-      callback(events);
+      callback(sortEventsBySchedule(events));
     }, (error) => {
       console.error('Error listening to events:', error);
     });
@@ -148,10 +151,8 @@ export class RealtimeDataService {
     );
     
     const unsubscribe = onSnapshot(q, (snapshot) => {
-      const notifications = snapshot.docs.map(doc => ({ 
-        id: doc.id, 
-        ...(doc.data() as Notification) 
-      } as Notification));
+      // Sorted again here because older entries hold string timestamps, which Firestore orders separately
+      const notifications = snapshot.docs.map(toNotification).sort((a, b) => b.timestamp.localeCompare(a.timestamp));
       callback(notifications);
     }, (error) => {
       console.error('Error listening to user notifications:', error);
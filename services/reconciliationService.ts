@@ -0,0 +1,78 @@
+import { collection, doc, getDoc, getDocs, setDoc, query, where } from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import { Event } from '../types';
+import { permissionService } from './permissionService';
+import { eventRegistrationService } from './eventRegistrationService';
+import { revenueService } from './revenueService';
+import { paymentConfigService } from './paymentConfigService';
+import { LedgerEntry } from '../utils/ledger';
+import { ProcessedWebhook } from '../utils/paymentWebhooks';
+import { ReconciliationReport, reconcileEvent, reconcileOrphanedWebhooks } from '../utils/reconciliation';
+import { isPaidEvent } from '../utils/pricing';
+
+// The reconcilePayments function writes the nightly report here; a manual run from the admin console replaces it
+const reportRef = () => doc(db, 'maintenance', 'paymentReconciliation');
+
+export const reconciliationService = {
+  // A club's ledger, oldest entry first
+  getClubLedger: async (clubId: string): Promise<LedgerEntry[]> => {
+    try {
+      const snap = await getDocs(collection(db, 'clubs', clubId, 'ledger'));
+      return snap.docs
+        .map(d => d.data() as LedgerEntry)
+        .sort((a, b) => a.postedAt.localeCompare(b.postedAt));
+    } catch (error) {
+      console.error('Error getting club ledger:', error);
+      return [];
+    }
+  },
+
+  getLastReport: async (): Promise<ReconciliationReport | null> => {
+    try {
+      const snap = await getDoc(reportRef());
+      return snap.exists() ? snap.data() as ReconciliationReport : null;
+    } catch (error) {
+      console.error('Error getting the last reconciliation report:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Compare every paid event's payment records, registrations and ledger entries, plus webhooks
+   * the receivers couldn't apply, and save the flagged issues as the latest report
+   */
+  run: async (events: Event[]): Promise<ReconciliationReport> => {
+    await permissionService.authorize('reconcile-payments');
+    const report: ReconciliationReport = { ranAt: new Date().toISOString(), checkedEvents: 0, checkedPayments: 0, issues: [] };
+
+    const webhooksSnap = await getDocs(query(collection(db, 'paymentWebhooks'), where('outcome', 'in', ['orphaned', 'amount-mismatch'])));
+    const unappliedWebhooks = webhooksSnap.docs.map(d => d.data() as ProcessedWebhook);
+    report.issues.push(...reconcileOrphanedWebhooks(unappliedWebhooks));
+
+    const configs = await paymentConfigService.getPaymentConfigsByEvent();
+    const ledgers = new Map<string, LedgerEntry[]>();
+    // One event at a time keeps the number of open reads small on large catalogues
+    for (const event of events.filter(e => isPaidEvent(e, configs.get(e.id)))) {
+      const clubId = event.organizerClubId;
+      if (!ledgers.has(clubId)) ledgers.set(clubId, await reconciliationService.getClubLedger(clubId));
+      const [payments, registrations] = await Promise.all([
+        revenueService.getEventPayments(clubId, event.id),
+        eventRegistrationService.getEventRegistrations(event.id, clubId),
+      ]);
+      report.issues.push(...reconcileEvent({
+        clubId,
+        eventId: event.id,
+        eventName: event.name,
+        payments,
+        registrations,
+        ledgerEntries: ledgers.get(clubId)!.filter(entry => entry.eventId === event.id),
+        webhooks: unappliedWebhooks.filter(webhook => webhook.eventId === event.id),
+      }));
+      report.checkedEvents += 1;
+      report.checkedPayments += payments.length;
+    }
+
+    await setDoc(reportRef(), report);
+    return report;
+  },
+};
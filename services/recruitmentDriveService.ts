@@ -0,0 +1,69 @@
+import { doc, getDocs, addDoc, updateDoc, collection } from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import { RecruitmentDrive } from '../types';
+import { permissionService } from './permissionService';
+import { drivesOverlap, getDriveStatus } from '../utils/recruitment';
+
+const drivesRef = (clubId: string) => collection(db, 'clubs', clubId, 'recruitmentDrives');
+
+export const recruitmentDriveService = {
+  // Newest first; readable by everyone so applicants can see when recruitment opens
+  getDrives: async (clubId: string): Promise<RecruitmentDrive[]> => {
+    try {
+      const snap = await getDocs(drivesRef(clubId));
+      return snap.docs
+        .map(d => ({ ...d.data(), id: d.id } as RecruitmentDrive))
+        .sort((a, b) => b.opensAt.localeCompare(a.opensAt));
+    } catch (error) {
+      console.error('Error getting recruitment drives:', error);
+      return [];
+    }
+  },
+
+  /**
+   * Schedule a drive. Windows may not overlap another drive's, so at most one drive is open at a time.
+   * The questions are stored with the drive and never change afterwards.
+   */
+  createDrive: async (
+    clubId: string,
+    drive: Pick<RecruitmentDrive, 'title' | 'opensAt' | 'closesAt' | 'questions'>
+  ): Promise<RecruitmentDrive> => {
+    const actor = await permissionService.authorize('review-applications', clubId);
+    if (!drive.title.trim()) throw new Error('Give the drive a title.');
+    if (new Date(drive.closesAt).getTime() <= new Date(drive.opensAt).getTime()) {
+      throw new Error('The drive must close after it opens.');
+    }
+    const existing = await recruitmentDriveService.getDrives(clubId);
+    const clash = existing.find(other => drivesOverlap(drive, other));
+    if (clash) throw new Error(`The dates overlap "${clash.title}".`);
+
+    const data: Omit<RecruitmentDrive, 'id'> = {
+      clubId,
+      title: drive.title.trim(),
+      opensAt: drive.opensAt,
+      closesAt: drive.closesAt,
+      opensAtMs: new Date(drive.opensAt).getTime(),
+      closesAtMs: new Date(drive.closesAt).getTime(),
+      questions: drive.questions.map(q => q.trim()).filter(Boolean),
+      createdBy: actor.id!,
+      createdAt: new Date().toISOString(),
+    };
+    const ref = await addDoc(drivesRef(clubId), data);
+    return { ...data, id: ref.id };
+  },
+
+  // Stop taking applications now instead of at the scheduled close
+  closeDrive: async (clubId: string, drive: RecruitmentDrive): Promise<RecruitmentDrive> => {
+    await permissionService.authorize('review-applications', clubId);
+    if (getDriveStatus(drive) === 'closed') return drive;
+    const now = new Date();
+    const closesAt = now.toISOString();
+    const closesAtMs = now.getTime();
+    // A drive that never opened ends where it would have started, so it stays out of the way of later windows
+    const update = getDriveStatus(drive) === 'scheduled'
+      ? { opensAt: closesAt, closesAt, opensAtMs: closesAtMs, closesAtMs, closedEarly: true }
+      : { closesAt, closesAtMs, closedEarly: true };
+    await updateDoc(doc(db, 'clubs', clubId, 'recruitmentDrives', drive.id), update);
+    return { ...drive, ...update };
+  },
+};
@@ -0,0 +1,121 @@
+import {
+  collection,
+  collectionGroup,
+  query,
+  where,
+  getDocs,
+} from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from '../firebaseConfig';
+import { Event } from '../types';
+import {
+  eventRegistrationService,
+  EventRegistration,
+  EventPaymentRecord,
+  EventRefundRecord,
+  EventRefundReason,
+} from './eventRegistrationService';
+import { RefundRules, RefundQuote, getRefundQuote } from '../utils/refunds';
+
+export type { RefundQuote } from '../utils/refunds';
+
+export interface UserRefund extends EventRefundRecord {
+  paymentId: string;
+  eventId: string;
+  clubId: string;
+  amountPaid: number;
+}
+
+const paymentsCollection = (clubId: string, eventId: string, isGuest: boolean) =>
+  collection(db, 'events', clubId, 'clubEvents', eventId, isGuest ? 'guest_payments' : 'payments');
+
+export const refundService = {
+  // Preview of the refund rules; the refund function applies the same rules again
+  getRefundQuote: (
+    rules: RefundRules | undefined,
+    event: Event,
+    amountPaid: number,
+    reason: EventRefundReason,
+    now: Date = new Date()
+  ): RefundQuote => getRefundQuote(rules, event, amountPaid, reason, now),
+
+  // Find the payment record behind a paid registration
+  getPaymentForRegistration: async (registration: EventRegistration): Promise<EventPaymentRecord | null> => {
+    if (!registration.clubId || !registration.id) return null;
+    try {
+      const snap = await getDocs(query(
+        paymentsCollection(registration.clubId, registration.eventId, registration.isGuest || false),
+        where('registrationId', '==', registration.id)
+      ));
+      if (snap.empty) return null;
+      return { id: snap.docs[0].id, ...snap.docs[0].data() } as EventPaymentRecord;
+    } catch (error) {
+      console.error('Error getting payment for registration:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Start a full or partial refund for a paid registration through the refund function, which
+   * checks the caller's role, caps the amount by the event's refund rules and calls the gateway.
+   * Optionally cancels the registration afterwards, which frees the seat for the waitlist.
+   */
+  issueRefund: async (params: {
+    event: Event;
+    registration: EventRegistration;
+    amount: number;
+    reason: EventRefundReason;
+    note?: string;
+    cancelRegistration?: boolean;
+  }): Promise<EventRefundRecord> => {
+    const { event, registration, amount, reason, note } = params;
+    const isGuest = registration.isGuest || false;
+    if (!registration.id) throw new Error('No payment record found for this registration');
+
+    let refund: EventRefundRecord;
+    try {
+      const issueRefund = httpsCallable<Record<string, unknown>, EventRefundRecord>(functions, 'issueRefund');
+      const { data } = await issueRefund({
+        clubId: event.organizerClubId,
+        eventId: event.id,
+        registrationId: registration.id,
+        isGuest,
+        amount,
+        reason,
+        ...(note ? { note } : {}),
+      });
+      refund = data;
+    } catch (error: any) {
+      console.error('Error issuing refund:', error);
+      throw new Error(error.message || 'Refund request failed');
+    }
+
+    if (params.cancelRegistration && registration.status !== 'cancelled') {
+      await eventRegistrationService.cancelRegistration(registration.id, event.organizerClubId, event.id, isGuest);
+    }
+    return refund;
+  },
+
+  // All refunds started for a user's payments, newest first
+  getUserRefunds: async (userId: string): Promise<UserRefund[]> => {
+    if (!userId) return [];
+    try {
+      const paymentsGroup = userId.startsWith('guest_') ? 'guest_payments' : 'payments';
+      const snap = await getDocs(query(collectionGroup(db, paymentsGroup), where('userId', '==', userId)));
+      return snap.docs
+        .map(d => d.data() as EventPaymentRecord)
+        .filter(p => p.refund)
+        .map(p => ({
+          ...p.refund!,
+          paymentId: p.paymentId,
+          eventId: p.eventId,
+          clubId: p.clubId,
+          amountPaid: p.amount,
+        }))
+        .sort((a, b) => b.requestedAt.localeCompare(a.requestedAt));
+    } catch (error) {
+      console.error('Error getting user refunds:', error);
+      return [];
+    }
+  },
+};
@@ -0,0 +1,43 @@
+import { collection, getDocs } from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import { Club, Event } from '../types';
+import { EventPaymentRecord } from './eventRegistrationService';
+import { paymentConfigService } from './paymentConfigService';
+import { RevenueTransaction, toRevenueTransaction } from '../utils/revenue';
+import { isPaidEvent } from '../utils/pricing';
+
+export const revenueService = {
+  // Payment records for one event, from both the payments and guest_payments subcollections
+  getEventPayments: async (clubId: string, eventId: string): Promise<EventPaymentRecord[]> => {
+    const eventPath = ['events', clubId, 'clubEvents', eventId] as const;
+    const [payments, guestPayments] = await Promise.all([
+      getDocs(collection(db, ...eventPath, 'payments')),
+      getDocs(collection(db, ...eventPath, 'guest_payments')),
+    ]);
+    return [...payments.docs, ...guestPayments.docs].map(d => ({ id: d.id, ...d.data() } as EventPaymentRecord));
+  },
+
+  /**
+   * Every payment across the given events' paid registrations, ready for the revenue dashboard.
+   * Events that fail to load are logged and left out rather than failing the whole report.
+   */
+  getTransactions: async (events: Event[], clubs: Club[]): Promise<RevenueTransaction[]> => {
+    const clubNames = new Map(clubs.map(club => [club.id, club.name]));
+    const configs = await paymentConfigService.getPaymentConfigsByEvent();
+    const transactions: RevenueTransaction[] = [];
+    // One event at a time keeps the number of open reads small on large catalogues
+    for (const event of events.filter(e => isPaidEvent(e, configs.get(e.id)))) {
+      try {
+        const payments = await revenueService.getEventPayments(event.organizerClubId, event.id);
+        transactions.push(...payments.map(payment => toRevenueTransaction(payment, {
+          eventName: event.name,
+          clubName: clubNames.get(event.organizerClubId) || 'Unknown Club',
+          isGuest: payment.userId.startsWith('guest_'),
+        })));
+      } catch (error) {
+        console.error(`Error loading payments for ${event.name}:`, error);
+      }
+    }
+    return transactions;
+  },
+};
@@ -0,0 +1,251 @@
+import {
+  collection,
+  addDoc,
+  getDocs,
+  getDoc,
+  doc,
+  updateDoc,
+  query,
+  where,
+  limit,
+  DocumentReference,
+} from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import {
+  AnnualEvent,
+  AnnualEventYearlyData,
+  SportCompetition,
+  SportEntry,
+  SportEntryStatus,
+  SportResult,
+  SportRosterMember,
+  User,
+} from '../types';
+import { permissionService } from './permissionService';
+import { notificationService } from './notificationService';
+import { PermissionError, canManageFest } from '../utils/permissions';
+
+// Entries that still hold a slot in the competition
+const ACTIVE_STATUSES: SportEntryStatus[] = ['pending', 'approved'];
+
+// Seeded fests keep their slug in an `id` field while the document id is generated
+export const getAnnualEventRef = async (annualEventId: string): Promise<DocumentReference> => {
+  const snap = await getDocs(query(collection(db, 'annualEvents'), where('id', '==', annualEventId), limit(1)));
+  return snap.empty ? doc(db, 'annualEvents', annualEventId) : snap.docs[0].ref;
+};
+
+const entriesCollection = async (annualEventId: string) =>
+  collection(await getAnnualEventRef(annualEventId), 'sportEntries');
+
+const authorizeCoordinator = async (annualEvent: AnnualEvent): Promise<User> => {
+  const actor = await permissionService.getActor();
+  if (!actor || !canManageFest(actor, annualEvent)) {
+    throw new PermissionError('manage-fest-competitions');
+  }
+  return actor;
+};
+
+/**
+ * Reasons a roster may not enter a competition right now; an empty list means it is eligible
+ * @param competition - The competition being entered
+ * @param roster - Everyone on the entry, captain included
+ */
+export const getEntryProblems = (competition: SportCompetition, roster: SportRosterMember[], now: Date = new Date()): string[] => {
+  const problems: string[] = [];
+  if (!competition.registrationOpen) problems.push('Registration for this competition is closed.');
+  if (competition.registrationDeadline && now.toISOString() > competition.registrationDeadline) {
+    problems.push('The registration deadline has passed.');
+  }
+
+  const eligibility = competition.eligibility;
+  if (!eligibility) return problems;
+
+  if (roster.length < eligibility.minRosterSize || roster.length > eligibility.maxRosterSize) {
+    problems.push(eligibility.minRosterSize === eligibility.maxRosterSize
+      ? `Rosters must have exactly ${eligibility.minRosterSize} player(s).`
+      : `Rosters must have between ${eligibility.minRosterSize} and ${eligibility.maxRosterSize} players.`);
+  }
+  if (new Set(roster.map(member => member.userId)).size !== roster.length) {
+    problems.push('A player is listed more than once.');
+  }
+  if (eligibility.years?.length) {
+    const ineligible = roster.filter(member => !member.year || !eligibility.years!.includes(member.year));
+    if (ineligible.length) {
+      problems.push(`Only ${eligibility.years.join(', ')} students may play: ${ineligible.map(m => m.name).join(', ')}.`);
+    }
+  }
+  const genders = roster.map(member => member.gender);
+  if (eligibility.genderCategory === 'men' && genders.some(g => g !== 'male')) {
+    problems.push("This is a men's competition.");
+  }
+  if (eligibility.genderCategory === 'women' && genders.some(g => g !== 'female')) {
+    problems.push("This is a women's competition.");
+  }
+  if (eligibility.genderCategory === 'mixed' && !(genders.includes('male') && genders.includes('female'))) {
+    problems.push('Mixed rosters need at least one male and one female player.');
+  }
+  return problems;
+};
+
+export const sportsRegistrationService = {
+  // Entries for a fest edition, optionally narrowed to one competition
+  getEntries: async (annualEventId: string, festYear: number, competitionId?: string): Promise<SportEntry[]> => {
+    try {
+      const constraints = [where('festYear', '==', festYear), ...(competitionId ? [where('competitionId', '==', competitionId)] : [])];
+      const snap = await getDocs(query(await entriesCollection(annualEventId), ...constraints));
+      return snap.docs
+        .map(d => ({ id: d.id, ...d.data() } as SportEntry))
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    } catch (error) {
+      console.error('Error getting sport entries:', error);
+      return [];
+    }
+  },
+
+  // Entries the user captains or plays in
+  getUserEntries: async (annualEventId: string, userId: string): Promise<SportEntry[]> => {
+    try {
+      const snap = await getDocs(query(await entriesCollection(annualEventId), where('memberIds', 'array-contains', userId)));
+      return snap.docs.map(d => ({ id: d.id, ...d.data() } as SportEntry));
+    } catch (error) {
+      console.error('Error getting user sport entries:', error);
+      return [];
+    }
+  },
+
+  // Enter a branch or team; the signed-in user becomes the captain and must be on the roster
+  registerEntry: async (
+    annualEvent: AnnualEvent,
+    festYear: number,
+    competition: SportCompetition,
+    entry: { entryName: string; branch?: string; roster: SportRosterMember[] }
+  ): Promise<string> => {
+    const actor = await permissionService.authorize('register-for-event');
+    if (actor.isGuest) throw new Error('Sign in with your college account to enter fest competitions.');
+    if (!entry.roster.some(member => member.userId === actor.id)) {
+      throw new Error('The captain must be on the roster.');
+    }
+
+    const problems = getEntryProblems(competition, entry.roster);
+    if (problems.length) throw new Error(problems[0]);
+
+    const entryType = competition.entryType || 'team';
+    const existing = (await sportsRegistrationService.getEntries(annualEvent.id, festYear, competition.id))
+      .filter(e => ACTIVE_STATUSES.includes(e.status));
+    if (entryType === 'branch' && existing.some(e => e.branch?.toLowerCase() === entry.branch?.toLowerCase())) {
+      throw new Error(`${entry.branch} already has an entry in ${competition.name}.`);
+    }
+    const alreadyPlaying = entry.roster.filter(member => existing.some(e => e.memberIds.includes(member.userId)));
+    if (alreadyPlaying.length) {
+      throw new Error(`Already entered in ${competition.name}: ${alreadyPlaying.map(m => m.name).join(', ')}.`);
+    }
+
+    const now = new Date().toISOString();
+    const newEntry: Omit<SportEntry, 'id'> = {
+      annualEventId: annualEvent.id,
+      festYear,
+      competitionId: competition.id,
+      entryType,
+      entryName: entry.entryName.trim(),
+      ...(entry.branch ? { branch: entry.branch } : {}),
+      captainId: actor.id!,
+      captainName: actor.name,
+      roster: entry.roster,
+      memberIds: entry.roster.map(member => member.userId),
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now,
+    };
+    const docRef = await addDoc(await entriesCollection(annualEvent.id), newEntry);
+    return docRef.id;
+  },
+
+  // Captains may withdraw their own entry; coordinators may withdraw any
+  withdrawEntry: async (annualEvent: AnnualEvent, entry: SportEntry): Promise<void> => {
+    const actor = await permissionService.getActor();
+    const isCaptain = !!actor?.id && actor.id === entry.captainId;
+    if (!isCaptain) await authorizeCoordinator(annualEvent);
+    const entryRef = doc(await entriesCollection(annualEvent.id), entry.id!);
+    await updateDoc(entryRef, { status: 'withdrawn', updatedAt: new Date().toISOString() });
+  },
+
+  // Approve or reject an entry and let the captain know
+  updateEntryStatus: async (annualEvent: AnnualEvent, entry: SportEntry, status: 'approved' | 'rejected'): Promise<void> => {
+    await authorizeCoordinator(annualEvent);
+    const entryRef = doc(await entriesCollection(annualEvent.id), entry.id!);
+    await updateDoc(entryRef, { status, updatedAt: new Date().toISOString() });
+    await notificationService.createNotification({
+      userId: entry.captainId,
+      type: 'info',
+      message: `Your ${entry.entryName} entry for ${annualEvent.name} has been ${status}.`,
+      link: `/annual-events/${annualEvent.id}`,
+      annualEventId: annualEvent.id,
+    }).catch(error => console.error('Error sending entry notification:', error));
+  },
+
+  // Drop a player from a roster; the roster still has to meet the competition's minimum size
+  removeRosterMember: async (annualEvent: AnnualEvent, competition: SportCompetition, entry: SportEntry, userId: string): Promise<void> => {
+    await authorizeCoordinator(annualEvent);
+    const roster = entry.roster.filter(member => member.userId !== userId);
+    const minimum = competition.eligibility?.minRosterSize || 1;
+    if (roster.length < minimum) {
+      throw new Error(`Rosters need at least ${minimum} player(s); withdraw the entry instead.`);
+    }
+    const entryRef = doc(await entriesCollection(annualEvent.id), entry.id!);
+    await updateDoc(entryRef, {
+      roster,
+      memberIds: roster.map(member => member.userId),
+      updatedAt: new Date().toISOString(),
+    });
+  },
+
+  // Edit a competition's registration settings inside the fest's yearly data
+  updateCompetition: async (
+    annualEvent: AnnualEvent,
+    festYear: number,
+    competitionId: string,
+    updates: Partial<Omit<SportCompetition, 'id'>>
+  ): Promise<AnnualEventYearlyData[]> => {
+    await authorizeCoordinator(annualEvent);
+    const eventRef = await getAnnualEventRef(annualEvent.id);
+    // Read the latest copy so concurrent edits to other years or competitions are kept
+    const snap = await getDoc(eventRef);
+    const yearlyData: AnnualEventYearlyData[] = (snap.data()?.yearlyData as AnnualEventYearlyData[]) || annualEvent.yearlyData;
+    const updatedYearlyData = yearlyData.map(yearData => yearData.year !== festYear ? yearData : {
+      ...yearData,
+      sportsCompetitions: (yearData.sportsCompetitions || []).map(competition =>
+        competition.id === competitionId ? { ...competition, ...updates } : competition
+      ),
+    });
+    await updateDoc(eventRef, { yearlyData: updatedYearlyData });
+    return updatedYearlyData;
+  },
+
+  // Publish placings into the fest's yearly data and notify the placed players
+  recordResults: async (
+    annualEvent: AnnualEvent,
+    festYear: number,
+    competition: SportCompetition,
+    results: SportResult[],
+    entries: SportEntry[]
+  ): Promise<AnnualEventYearlyData[]> => {
+    const updatedYearlyData = await sportsRegistrationService.updateCompetition(annualEvent, festYear, competition.id, {
+      results,
+      registrationOpen: false,
+    });
+
+    const previous = new Set((competition.results || []).map(result => `${result.entryId}:${result.position}`));
+    const newlyPlaced = results.filter(result => !previous.has(`${result.entryId}:${result.position}`));
+    for (const result of newlyPlaced) {
+      const entry = entries.find(e => e.id === result.entryId);
+      if (!entry) continue;
+      await notificationService.notifyUsers(entry.memberIds, {
+        type: 'event-winner',
+        message: `${entry.entryName} finished ${result.position} in ${competition.name} at ${annualEvent.name} ${festYear}!`,
+        link: `/annual-events/${annualEvent.id}`,
+        annualEventId: annualEvent.id,
+      });
+    }
+    return updatedYearlyData;
+  },
+};
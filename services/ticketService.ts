@@ -0,0 +1,125 @@
+import { doc, runTransaction, serverTimestamp } from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import type { EventRegistration } from './eventRegistrationService';
+import { permissionService } from './permissionService';
+import { buildTicket, parseTicket, ticketsMatch, TicketPayload } from '../utils/ticket';
+
+export type { TicketPayload } from '../utils/ticket';
+
+export type CheckInResultStatus =
+  | 'checked_in'
+  | 'already_checked_in'
+  | 'wrong_event'
+  | 'not_confirmed'
+  | 'invalid';
+
+export interface CheckInResult {
+  status: CheckInResultStatus;
+  message: string;
+  registration?: EventRegistration;
+}
+
+class TicketService {
+  /**
+   * Parse a scanned QR string; returns null if it is not one of our tickets
+   */
+  parseTicket(raw: string): TicketPayload | null {
+    return parseTicket(raw);
+  }
+
+  /**
+   * Issue a ticket for an existing confirmed registration that predates ticketing
+   */
+  async ensureTicket(registration: EventRegistration): Promise<string | null> {
+    if (registration.qrCode) return registration.qrCode;
+    if (!registration.id || !registration.clubId || registration.status !== 'confirmed') return null;
+
+    const isGuest = registration.isGuest || false;
+    const qrCode = buildTicket(registration.clubId, registration.eventId, registration.id, isGuest);
+    const registrationRef = doc(
+      db,
+      'events',
+      registration.clubId,
+      'clubEvents',
+      registration.eventId,
+      isGuest ? 'guestRegistrations' : 'registrations',
+      registration.id
+    );
+
+    // Use a transaction so two tabs opening the banner don't issue different tickets
+    return runTransaction(db, async (transaction) => {
+      const snap = await transaction.get(registrationRef);
+      if (!snap.exists()) return null;
+      const existing = snap.data() as EventRegistration;
+      if (existing.qrCode) return existing.qrCode;
+      transaction.update(registrationRef, { qrCode });
+      return qrCode;
+    });
+  }
+
+  /**
+   * Validate a scanned ticket against the event being checked in and record the check-in.
+   * Runs in a transaction so simultaneous scans on two devices can't both succeed.
+   */
+  async verifyAndCheckIn(
+    raw: string,
+    expected: { clubId: string; eventId: string },
+    scannedBy?: string
+  ): Promise<CheckInResult> {
+    await permissionService.authorize('check-in-attendees', expected.clubId, scannedBy);
+    const ticket = parseTicket(raw);
+    if (!ticket) {
+      return { status: 'invalid', message: 'This QR code is not a valid event ticket.' };
+    }
+    if (ticket.eventId !== expected.eventId || ticket.clubId !== expected.clubId) {
+      return { status: 'wrong_event', message: 'This ticket belongs to a different event.' };
+    }
+
+    const registrationRef = doc(
+      db,
+      'events',
+      ticket.clubId,
+      'clubEvents',
+      ticket.eventId,
+      ticket.isGuest ? 'guestRegistrations' : 'registrations',
+      ticket.registrationId
+    );
+
+    try {
+      return await runTransaction(db, async (transaction): Promise<CheckInResult> => {
+        const snap = await transaction.get(registrationRef);
+        if (!snap.exists()) {
+          return { status: 'invalid', message: 'No registration matches this ticket.' };
+        }
+        const registration = { id: snap.id, ...snap.data() } as EventRegistration;
+
+        if (!ticketsMatch(registration.qrCode, raw)) {
+          return { status: 'invalid', message: 'Ticket does not match this registration.', registration };
+        }
+
+        if (registration.status !== 'confirmed') {
+          return { status: 'not_confirmed', message: `Registration is ${registration.status}.`, registration };
+        }
+        if (registration.checkInStatus === 'checked_in') {
+          return { status: 'already_checked_in', message: `${registration.userName} is already checked in.`, registration };
+        }
+
+        transaction.update(registrationRef, {
+          checkInStatus: 'checked_in',
+          checkInTime: serverTimestamp(),
+          ...(scannedBy ? { checkedInBy: scannedBy } : {})
+        });
+        return {
+          status: 'checked_in',
+          message: `${registration.userName} checked in.`,
+          registration: { ...registration, checkInStatus: 'checked_in' }
+        };
+      });
+    } catch (error) {
+      console.error('Error verifying ticket:', error);
+      throw error;
+    }
+  }
+}
+
+export const ticketService = new TicketService();
@@ -0,0 +1,136 @@
+import { doc, getDoc, setDoc, deleteDoc, onSnapshot, runTransaction, DocumentReference, Unsubscribe } from 'firebase/firestore';
+import { db } from '../firebaseConfig';
+import { AnnualEvent, Event, Tournament, TournamentHost, TournamentParticipant, User } from '../types';
+import { permissionService } from './permissionService';
+import { eventRegistrationService } from './eventRegistrationService';
+import { firestoreDataService } from './firestoreDataService';
+import { sportsRegistrationService, getAnnualEventRef } from './sportsRegistrationService';
+import { PermissionError, canManageFest } from '../utils/permissions';
+import { createTournament, recordMatchResult, TournamentSettings } from '../utils/tournament';
+
+// Each event, and each competition in a fest edition, runs a single tournament
+const getTournamentRef = async (host: TournamentHost): Promise<DocumentReference> =>
+  host.type === 'event'
+    ? doc(db, 'events', host.clubId, 'clubEvents', host.eventId, 'tournaments', 'main')
+    : doc(await getAnnualEventRef(host.annualEventId), 'tournaments', `${host.festYear}_${host.competitionId}`);
+
+const getAnnualEvent = async (annualEventId: string): Promise<AnnualEvent> => {
+  const snap = await getDoc(await getAnnualEventRef(annualEventId));
+  return { ...(snap.data() as AnnualEvent), id: annualEventId };
+};
+
+const authorizeHost = async (host: TournamentHost): Promise<User> => {
+  if (host.type === 'event') return permissionService.authorize('manage-fixtures', host.clubId);
+  const actor = await permissionService.getActor();
+  if (!actor || !canManageFest(actor, await getAnnualEvent(host.annualEventId))) {
+    throw new PermissionError('manage-fest-competitions');
+  }
+  return actor;
+};
+
+export const tournamentService = {
+  // Live updates for a host's tournament; the callback receives null until one is created
+  listenToTournament: (host: TournamentHost, callback: (tournament: Tournament | null) => void): (() => void) => {
+    let unsubscribe: Unsubscribe | null = null;
+    let cancelled = false;
+    getTournamentRef(host).then(ref => {
+      if (cancelled) return;
+      unsubscribe = onSnapshot(ref, snap => {
+        callback(snap.exists() ? ({ id: snap.id, ...snap.data() } as Tournament) : null);
+      }, error => {
+        console.error('Error listening to tournament:', error);
+      });
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  },
+
+  // Who can be drawn: teams or confirmed registrants for an event, approved entries for a fest competition
+  getEligibleParticipants: async (host: TournamentHost): Promise<TournamentParticipant[]> => {
+    try {
+      if (host.type === 'fest') {
+        const entries = await sportsRegistrationService.getEntries(host.annualEventId, host.festYear, host.competitionId);
+        return entries.filter(entry => entry.status === 'approved').map(entry => ({ id: entry.id!, name: entry.entryName }));
+      }
+      const eventSnap = await getDoc(doc(db, 'events', host.clubId, 'clubEvents', host.eventId));
+      if ((eventSnap.data() as Event | undefined)?.registrationType === 'team') {
+        const teams = await eventRegistrationService.getEventTeams(host.eventId, host.clubId);
+        return teams.map(team => ({ id: team.id!, name: team.name }));
+      }
+      const registrations = await eventRegistrationService.getEventRegistrations(host.eventId, host.clubId);
+      return registrations
+        .filter(registration => registration.status === 'confirmed')
+        .map(registration => ({ id: registration.userId, name: registration.userName }));
+    } catch (error) {
+      console.error('Error getting tournament participants:', error);
+      return [];
+    }
+  },
+
+  // Draw the fixtures, replacing any previous tournament for the host
+  createTournament: async (host: TournamentHost, settings: TournamentSettings): Promise<Tournament> => {
+    await authorizeHost(host);
+    const tournament = createTournament(host, settings);
+    await setDoc(await getTournamentRef(host), tournament);
+    return tournament;
+  },
+
+  deleteTournament: async (host: TournamentHost): Promise<void> => {
+    await authorizeHost(host);
+    await deleteDoc(await getTournamentRef(host));
+  },
+
+  /**
+   * Record a match score against the latest copy of the tournament.
+   * When the last match is decided the placements are published to the event highlights or the fest results.
+   */
+  recordScore: async (host: TournamentHost, matchId: string, homeScore: number, awayScore: number): Promise<Tournament> => {
+    await authorizeHost(host);
+    const ref = await getTournamentRef(host);
+    const tournament = await runTransaction(db, async transaction => {
+      const snap = await transaction.get(ref);
+      if (!snap.exists()) throw new Error('This tournament no longer exists.');
+      const updated = recordMatchResult(snap.data() as Tournament, matchId, homeScore, awayScore);
+      transaction.set(ref, updated);
+      return { ...updated, id: snap.id };
+    });
+    if (tournament.status === 'completed') {
+      await tournamentService.publishPlacements(tournament);
+    }
+    return tournament;
+  },
+
+  // Copy final placements to where the rest of the app shows winners
+  publishPlacements: async (tournament: Tournament): Promise<void> => {
+    const host = tournament.host;
+    if (host.type === 'event') {
+      const eventSnap = await getDoc(doc(db, 'events', host.clubId, 'clubEvents', host.eventId));
+      const highlights = (eventSnap.data() as Event | undefined)?.highlights;
+      await firestoreDataService.updateClubEvent(host.clubId, host.eventId, {
+        highlights: {
+          images: highlights?.images || [],
+          guests: highlights?.guests || [],
+          ...(highlights?.galleryDriveLink ? { galleryDriveLink: highlights.galleryDriveLink } : {}),
+          winners: tournament.placements.map(placement => ({ position: placement.position, name: placement.name })),
+        },
+      });
+      return;
+    }
+
+    const annualEvent = await getAnnualEvent(host.annualEventId);
+    const competition = annualEvent.yearlyData
+      ?.find(yearData => yearData.year === host.festYear)
+      ?.sportsCompetitions?.find(sport => sport.id === host.competitionId);
+    if (!competition) return;
+    const entries = await sportsRegistrationService.getEntries(host.annualEventId, host.festYear, host.competitionId);
+    await sportsRegistrationService.recordResults(
+      annualEvent,
+      host.festYear,
+      competition,
+      tournament.placements.map(placement => ({ position: placement.position, entryId: placement.participantId, entryName: placement.name })),
+      entries
+    );
+  },
+};
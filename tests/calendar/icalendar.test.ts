@@ -0,0 +1,70 @@
+// iCalendar output for single-event downloads and subscribed feeds
+import { describe, expect, it } from 'vitest';
+import { Event } from '../../types';
+import { buildCalendar, getEventUid } from '../../utils/icalendar';
+
+const event = (overrides: Partial<Event> = {}): Event => ({
+  id: 'event1',
+  name: 'Hackathon',
+  date: '',
+  time: '',
+  location: 'Main Hall',
+  description: 'Bring a laptop, charger; and ideas',
+  category: 'Technical',
+  schedule: { start: '2024-12-05T03:30:00.000Z', end: '2024-12-05T11:30:00.000Z', timeZone: 'Asia/Kolkata' },
+  ...overrides,
+} as Event);
+
+const unfold = (calendar: string) => calendar.replace(/\r\n /g, '');
+
+describe('buildCalendar', () => {
+  it('writes one CRLF-terminated VEVENT per event with escaped text', () => {
+    const calendar = buildCalendar('My events', [{ event: event(), url: 'https://example.com/events/event1' }]);
+    const lines = unfold(calendar).split('\r\n');
+
+    expect(calendar.endsWith('\r\n')).toBe(true);
+    expect(lines).toContain(`UID:${getEventUid('event1')}`);
+    expect(lines).toContain('DTSTART:20241205T033000Z');
+    expect(lines).toContain('DTEND:20241205T113000Z');
+    expect(lines).toContain('DESCRIPTION:Bring a laptop\\, charger\\; and ideas');
+    expect(lines).toContain('STATUS:CONFIRMED');
+    expect(lines.filter(line => line === 'BEGIN:VEVENT')).toHaveLength(1);
+  });
+
+  it('publishes a cancellation as a newer revision', () => {
+    const lines = buildCalendar('My events', [{ event: event({ calendarSequence: 2 }), cancelled: true }]).split('\r\n');
+    expect(lines).toContain('SEQUENCE:3');
+    expect(lines).toContain('STATUS:CANCELLED');
+  });
+
+  it('gives every session its own entry and stable UID', () => {
+    const calendar = buildCalendar('My events', [{
+      event: event({
+        schedule: {
+          start: '2024-12-05T03:30:00.000Z',
+          end: '2024-12-06T11:30:00.000Z',
+          timeZone: 'Asia/Kolkata',
+          sessions: [
+            { id: 'finals', title: 'Finals', start: '2024-12-06T03:30:00.000Z', end: '2024-12-06T11:30:00.000Z', venue: 'Auditorium' },
+            { id: 'heats', title: 'Heats', start: '2024-12-05T03:30:00.000Z', end: '2024-12-05T11:30:00.000Z' },
+          ],
+        },
+      }),
+    }]);
+    const lines = unfold(calendar).split('\r\n');
+    expect(lines.filter(line => line.startsWith('UID:'))).toEqual([`UID:${getEventUid('event1', 'heats')}`, `UID:${getEventUid('event1', 'finals')}`]);
+    expect(lines).toContain('SUMMARY:Hackathon: Finals');
+    expect(lines).toContain('LOCATION:Auditorium');
+    expect(lines).toContain('LOCATION:Main Hall');
+  });
+
+  it('folds long lines at 75 octets and skips events without a schedule', () => {
+    const calendar = buildCalendar('My events', [
+      { event: event({ description: 'x'.repeat(200) }) },
+      { event: event({ id: 'undated', schedule: undefined, date: 'soon' }) },
+    ]);
+    expect(calendar.split('\r\n').every(line => new TextEncoder().encode(line).length <= 75)).toBe(true);
+    expect(unfold(calendar)).toContain(`DESCRIPTION:${'x'.repeat(200)}`);
+    expect(calendar).not.toContain('undated');
+  });
+});
@@ -0,0 +1,85 @@
+// Rubric scoring, judge normalization and conflict-of-interest checks
+import { describe, expect, it } from 'vitest';
+import { JudgeScore, JudgingCriterion, JudgingEntrant } from '../../types';
+import { computeJudgingResults, getRubricProblems, hasConflictOfInterest, weightedScore } from '../../utils/judging';
+
+const criteria: JudgingCriterion[] = [
+  { id: 'idea', name: 'Idea', weight: 2, maxScore: 10 },
+  { id: 'demo', name: 'Demo', weight: 1, maxScore: 5 },
+];
+
+const entrants: JudgingEntrant[] = [
+  { id: 'teamA', name: 'Team A', memberIds: ['alice'] },
+  { id: 'teamB', name: 'Team B', memberIds: ['bob'] },
+  { id: 'teamC', name: 'Team C', memberIds: ['carol'] },
+];
+
+const score = (judgeId: string, entrantId: string, idea: number, demo: number, extra: Partial<JudgeScore> = {}): JudgeScore => ({
+  judgeId,
+  judgeName: judgeId,
+  entrantId,
+  entrantName: entrantId,
+  scores: { idea, demo },
+  recused: false,
+  submittedAt: '2025-10-01T10:00:00.000Z',
+  ...extra,
+});
+
+describe('weightedScore', () => {
+  it('weights each criterion by its share and clamps marks to the maximum', () => {
+    expect(weightedScore(criteria, { idea: 10, demo: 0 })).toBeCloseTo(66.67, 2);
+    expect(weightedScore(criteria, { idea: 12, demo: 5 })).toBe(100);
+    expect(weightedScore([], { idea: 10 })).toBe(0);
+  });
+});
+
+describe('getRubricProblems', () => {
+  it('flags empty rubrics, unnamed criteria and non-positive weights', () => {
+    expect(getRubricProblems(criteria)).toEqual([]);
+    expect(getRubricProblems([])).toEqual(['Add at least one criterion.']);
+    expect(getRubricProblems([{ id: 'x', name: ' ', weight: 0, maxScore: 10 }])).toEqual([
+      'Every criterion needs a name.',
+      'Weights must be greater than zero.',
+    ]);
+  });
+});
+
+describe('hasConflictOfInterest', () => {
+  it('catches judges who are the entrant or on its team', () => {
+    expect(hasConflictOfInterest('alice', entrants[0])).toBe(true);
+    expect(hasConflictOfInterest('teamA', entrants[0])).toBe(true);
+    expect(hasConflictOfInterest('judge', entrants[0])).toBe(false);
+  });
+});
+
+describe('computeJudgingResults', () => {
+  it('gives a strict and a generous judge equal say', () => {
+    const results = computeJudgingResults(criteria, entrants, [
+      // The strict judge prefers B; the generous judge prefers A by the same margin
+      score('strict', 'teamA', 2, 1), score('strict', 'teamB', 4, 1),
+      score('generous', 'teamA', 10, 5), score('generous', 'teamB', 8, 4),
+    ]);
+    const [first, second, unscored] = results;
+    expect(first.normalizedScore).toBe(second.normalizedScore);
+    expect(first.entrantId).toBe('teamA'); // Higher raw mean breaks the tie
+    expect([first.rank, second.rank]).toEqual([1, 2]);
+    expect(unscored).toMatchObject({ entrantId: 'teamC', judgeCount: 0, rank: 0 });
+  });
+
+  it('ignores recused scores and judges with a conflict', () => {
+    const results = computeJudgingResults(criteria, entrants, [
+      score('alice', 'teamA', 10, 5),
+      score('judge', 'teamB', 10, 5, { recused: true }),
+      score('judge', 'teamC', 6, 3),
+    ]);
+    expect(results.find(result => result.entrantId === 'teamC')).toMatchObject({ rank: 1, judgeCount: 1, rawScore: 60 });
+    expect(results.filter(result => result.judgeCount === 0).map(result => result.entrantId)).toEqual(['teamA', 'teamB']);
+  });
+
+  it('shares a rank between entrants with equal scores', () => {
+    const results = computeJudgingResults(criteria, entrants, [
+      score('judge', 'teamA', 8, 4), score('judge', 'teamB', 8, 4), score('judge', 'teamC', 2, 1),
+    ]);
+    expect(results.map(result => result.rank)).toEqual([1, 1, 3]);
+  });
+});
@@ -0,0 +1,51 @@
+// The price checks that decide whether an event is paid and what the registration modal shows
+import { describe, expect, it } from 'vitest';
+import { Coupon, PricingEvent, TicketTier, formatTicketPrice, getCouponProblem, getTicketTiers, isPaidEvent, resolveTicketPrice } from '../../utils/pricing';
+
+const NOW = new Date('2025-10-01T10:00:00.000Z');
+
+const freeEvent: PricingEvent = { id: 'event1', organizerClubId: 'clubA', registrationType: 'team', registrationFee: 0 };
+
+const tiers: TicketTier[] = [
+  { id: 'student', name: 'Student', audience: 'internal', price: 299, earlyBirdPrice: 199, earlyBirdEndsAt: '2025-10-05T00:00:00.000Z' },
+  { id: 'team', name: 'Team pass', audience: 'team', price: 999, teamSize: 4 },
+];
+
+describe('isPaidEvent', () => {
+  it('treats an event with priced tiers as paid even without a registration fee', () => {
+    expect(isPaidEvent(freeEvent, { ticketTiers: tiers })).toBe(true);
+  });
+
+  it('falls back to the custom fee and then the registration fee', () => {
+    expect(isPaidEvent(freeEvent, null)).toBe(false);
+    expect(isPaidEvent(freeEvent, { customFee: 150 })).toBe(true);
+    expect(isPaidEvent({ ...freeEvent, registrationFee: 100 }, null)).toBe(true);
+  });
+});
+
+describe('formatTicketPrice', () => {
+  it('shows rupees, the lowest tier and a running early-bird price', () => {
+    expect(formatTicketPrice(getTicketTiers(freeEvent, null), NOW)).toBe('Free');
+    expect(formatTicketPrice(getTicketTiers(freeEvent, { customFee: 150 }), NOW)).toBe('₹150');
+    expect(formatTicketPrice(tiers, NOW)).toBe('From ₹199 (early bird)');
+    expect(formatTicketPrice(tiers, new Date('2025-10-06T00:00:00.000Z'))).toBe('From ₹299');
+  });
+});
+
+describe('resolveTicketPrice', () => {
+  it('records how many members a team pass covers', () => {
+    const quote = resolveTicketPrice({ event: freeEvent, tiers, selection: { tierId: 'team' }, buyer: { isGuest: false }, coupon: null }, NOW);
+    expect(quote).toMatchObject({ tierId: 'team', amount: 999, teamSize: 4 });
+  });
+});
+
+describe('getCouponProblem', () => {
+  const coupon: Coupon = {
+    code: 'EARLY', clubId: 'clubA', discountType: 'flat', value: 50, maxUses: 3, usedCount: 1, isActive: true, createdBy: 'lead', createdAt: '2025-09-01T00:00:00.000Z',
+  };
+
+  it('counts uses reserved by open checkouts against the limit', () => {
+    expect(getCouponProblem({ ...coupon, reservedCount: 1 }, freeEvent, NOW)).toBeNull();
+    expect(getCouponProblem({ ...coupon, reservedCount: 2 }, freeEvent, NOW)).toBe('This coupon code has been fully redeemed');
+  });
+});
@@ -0,0 +1,280 @@
+// Security rules tests; run against the Firestore emulator with `npm run test:rules`
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import { RulesTestEnvironment, assertFails, assertSucceeds, initializeTestEnvironment } from '@firebase/rules-unit-testing';
+import { addDoc, collection, collectionGroup, doc, getDoc, getDocs, query, serverTimestamp, setDoc, updateDoc, where } from 'firebase/firestore';
+
+const EVENT = 'events/clubA/clubEvents/event1';
+
+let env: RulesTestEnvironment;
+
+const seed = (path: string, data: Record<string, any>) =>
+  env.withSecurityRulesDisabled(context => setDoc(doc(context.firestore(), path), data));
+
+const as = (uid: string, token: Record<string, any> = {}) => env.authenticatedContext(uid, token).firestore();
+
+beforeAll(async () => {
+  env = await initializeTestEnvironment({
+    projectId: 'demo-gcet-events',
+    firestore: { rules: readFileSync(resolve(process.cwd(), 'firestore.rules'), 'utf8') },
+  });
+});
+
+afterAll(async () => {
+  await env.cleanup();
+});
+
+beforeEach(async () => {
+  await env.clearFirestore();
+  await seed('users/admin', { name: 'Admin', role: 'admin' });
+  await seed('users/lead', { name: 'Lead', role: 'contributor', managedClubIds: ['clubA'], clubRoles: { clubA: 'club-lead' } });
+  await seed('users/coordinator', { name: 'Coordinator', role: 'student', clubRoles: { clubA: 'coordinator' } });
+  await seed('users/student', { name: 'Student', role: 'student' });
+  await seed('users/other', { name: 'Other', role: 'student' });
+  await seed(EVENT, { name: 'Hackathon', capacity: 10, seatsTaken: 1, waitlistCounter: 0 });
+  await seed(`${EVENT}/registrations/reg1`, { userId: 'student', status: 'confirmed', paymentStatus: 'pending' });
+  await seed(`${EVENT}/guestRegistrations/guestReg1`, { userId: 'guest1', isGuest: true, status: 'confirmed', userEmail: 'guest@example.com' });
+  await seed(`${EVENT}/teams/team1`, { name: 'Team', captainId: 'student', memberIds: ['student'], members: [{ userId: 'student' }] });
+  await seed(`${EVENT}/teamInvites/ABC234`, { teamId: 'team1' });
+});
+
+describe('users', () => {
+  it('lets users edit their own details but not their role', async () => {
+    await assertSucceeds(updateDoc(doc(as('student'), 'users/student'), { name: 'New name' }));
+    await assertFails(updateDoc(doc(as('student'), 'users/student'), { role: 'admin' }));
+  });
+
+  it('stops club leads from rewriting other users', async () => {
+    await assertFails(updateDoc(doc(as('lead'), 'users/other'), { role: 'contributor', managedClubIds: ['clubA'] }));
+    await assertFails(updateDoc(doc(as('lead'), 'users/other'), { 'clubRoles.clubB': 'club-lead' }));
+  });
+
+  it('stops new signups from granting themselves club access', async () => {
+    await assertSucceeds(setDoc(doc(as('newcomer'), 'users/newcomer'), { name: 'Newcomer', role: 'student' }));
+    await assertFails(setDoc(doc(as('upstart'), 'users/upstart'), { name: 'Upstart', role: 'student', clubRoles: { clubA: 'club-lead' } }));
+    await assertFails(setDoc(doc(as('upstart'), 'users/upstart'), { name: 'Upstart', role: 'student', managedClubIds: ['clubA'] }));
+    await assertFails(setDoc(doc(as('upstart'), 'users/upstart'), { name: 'Upstart', role: 'student', isGuest: false, emailVerifiedAt: '2025-10-01T00:00:00.000Z' }));
+  });
+
+  it('lets admins change roles', async () => {
+    await assertSucceeds(updateDoc(doc(as('admin'), 'users/other'), { role: 'contributor', managedClubIds: ['clubA'] }));
+  });
+});
+
+describe('registrations', () => {
+  it('refuses client-created registrations', async () => {
+    await assertFails(setDoc(doc(as('other'), `${EVENT}/registrations/reg2`), { userId: 'other', status: 'confirmed' }));
+  });
+
+  it('refuses confirmed registrations for paid events, which only the webhooks create', async () => {
+    await seed(EVENT, { name: 'Hackathon', capacity: 10, seatsTaken: 1, waitlistCounter: 0, registrationFee: 499 });
+    const paid = { userId: 'other', status: 'confirmed', paymentStatus: 'paid', paymentId: 'pay_forged' };
+    await assertFails(setDoc(doc(as('other'), `${EVENT}/registrations/reg2`), paid));
+    await assertFails(setDoc(doc(as('other', { guest: true }), `${EVENT}/guestRegistrations/reg2`), { ...paid, isGuest: true }));
+  });
+
+  it('leaves status and payment changes to the functions', async () => {
+    await assertFails(updateDoc(doc(as('student'), `${EVENT}/registrations/reg1`), { status: 'cancelled' }));
+    await assertFails(updateDoc(doc(as('student'), `${EVENT}/registrations/reg1`), { paymentStatus: 'paid' }));
+    await assertFails(updateDoc(doc(as('lead'), `${EVENT}/registrations/reg1`), { status: 'waitlisted' }));
+  });
+
+  it('lets check-in staff record attendance only', async () => {
+    await assertSucceeds(updateDoc(doc(as('coordinator'), `${EVENT}/registrations/reg1`), { checkInStatus: 'checked-in' }));
+    await assertFails(updateDoc(doc(as('coordinator'), `${EVENT}/registrations/reg1`), { userName: 'Someone else' }));
+  });
+
+  it('keeps the seat counters out of client hands', async () => {
+    await assertFails(updateDoc(doc(as('other'), EVENT), { seatsTaken: 0 }));
+    await assertFails(updateDoc(doc(as('lead'), EVENT), { waitlistCounter: 5 }));
+  });
+});
+
+describe('guest registrations', () => {
+  it('are readable by the guest and event staff only', async () => {
+    await assertSucceeds(getDoc(doc(as('guest1', { guest: true }), `${EVENT}/guestRegistrations/guestReg1`)));
+    await assertSucceeds(getDoc(doc(as('coordinator'), `${EVENT}/guestRegistrations/guestReg1`)));
+    await assertFails(getDoc(doc(as('other'), `${EVENT}/guestRegistrations/guestReg1`)));
+    await assertFails(getDoc(doc(env.unauthenticatedContext().firestore(), `${EVENT}/guestRegistrations/guestReg1`)));
+  });
+});
+
+describe('teams', () => {
+  it('are readable by members and organizers only', async () => {
+    await assertSucceeds(getDoc(doc(as('student'), `${EVENT}/teams/team1`)));
+    await assertSucceeds(getDoc(doc(as('lead'), `${EVENT}/teams/team1`)));
+    await assertFails(getDoc(doc(as('other'), `${EVENT}/teams/team1`)));
+  });
+
+  it('change only through the team functions', async () => {
+    await assertFails(setDoc(doc(as('other'), `${EVENT}/teams/team2`), { name: 'Mine', captainId: 'other', memberIds: ['other'] }));
+    await assertFails(updateDoc(doc(as('student'), `${EVENT}/teams/team1`), { name: 'Renamed' }));
+    await assertFails(updateDoc(doc(as('other'), `${EVENT}/teams/team1`), { memberIds: ['student', 'other'] }));
+  });
+
+  it('never expose invite codes', async () => {
+    await assertFails(getDoc(doc(as('student'), `${EVENT}/teamInvites/ABC234`)));
+    await assertFails(getDoc(doc(as('lead'), `${EVENT}/teamInvites/ABC234`)));
+  });
+});
+
+describe('judge scores', () => {
+  const scorecard = { judgeId: 'judge', judgeName: 'Judge', entrantId: 'student', entrantName: 'Student', scores: { c1: 8 }, recused: false };
+
+  beforeEach(async () => {
+    await seed('users/judge', { name: 'Judge', role: 'student' });
+    await seed(EVENT, { name: 'Hackathon', capacity: 10, seatsTaken: 1, waitlistCounter: 0, judgeIds: ['judge'] });
+  });
+
+  it('can be saved while scoring is open', async () => {
+    await seed(`${EVENT}/judging/config`, { status: 'open', criteria: [], judges: [] });
+    await assertSucceeds(setDoc(doc(as('judge'), `${EVENT}/judgeScores/judge_student`), scorecard));
+    await assertFails(setDoc(doc(as('judge'), `${EVENT}/judgeScores/judge_someone`), scorecard));
+  });
+
+  it('are refused before scoring opens and after it closes', async () => {
+    await seed(`${EVENT}/judging/config`, { status: 'draft', criteria: [], judges: [] });
+    await assertFails(setDoc(doc(as('judge'), `${EVENT}/judgeScores/judge_student`), scorecard));
+    await seed(`${EVENT}/judging/config`, { status: 'closed', criteria: [], judges: [] });
+    await assertFails(setDoc(doc(as('judge'), `${EVENT}/judgeScores/judge_student`), scorecard));
+  });
+});
+
+describe('payments', () => {
+  beforeEach(async () => {
+    await seed(`${EVENT}/payments/order1`, { userId: 'student', registrationId: 'reg1', amount: 499, paymentStatus: 'paid' });
+  });
+
+  it('leave refunds to the refund function', async () => {
+    await assertSucceeds(getDoc(doc(as('lead'), `${EVENT}/payments/order1`)));
+    await assertFails(updateDoc(doc(as('lead'), `${EVENT}/payments/order1`), { paymentStatus: 'refunded', refund: { amount: 499, state: 'processed' } }));
+    await assertFails(updateDoc(doc(as('lead'), `${EVENT}/registrations/reg1`), { refundStatus: 'processed', refundAmount: 499 }));
+  });
+
+  it('can be listed across events by the person who paid, guests included', async () => {
+    await seed(`${EVENT}/guest_payments/order2`, { userId: 'guest1', registrationId: 'guestReg1', amount: 499, paymentStatus: 'paid' });
+    await assertSucceeds(getDocs(query(collectionGroup(as('student'), 'payments'), where('userId', '==', 'student'))));
+    await assertSucceeds(getDocs(query(collectionGroup(as('guest1', { guest: true }), 'guest_payments'), where('userId', '==', 'guest1'))));
+    await assertFails(getDocs(query(collectionGroup(as('other'), 'guest_payments'), where('userId', '==', 'guest1'))));
+  });
+});
+
+describe('clubs', () => {
+  beforeEach(async () => {
+    await seed('users/reviewer', { name: 'Reviewer', role: 'contributor', managedClubIds: ['clubA'] });
+    await seed('clubs/clubA', { name: 'Club A', team: [] });
+  });
+
+  it('keep the team to club leads; reviewers add members through the acceptance function', async () => {
+    await assertSucceeds(updateDoc(doc(as('lead'), 'clubs/clubA'), { team: [{ id: 'student', name: 'Student', position: 'Member' }] }));
+    await assertFails(updateDoc(doc(as('reviewer'), 'clubs/clubA'), { team: [{ id: 'reviewer', name: 'Reviewer', position: 'President' }] }));
+  });
+});
+
+describe('payment details', () => {
+  beforeEach(async () => {
+    await seed('clubs/clubA', { name: 'Club A', team: [] });
+    await seed('clubs/clubA/paymentDetails/razorpay', { linked_account_id: 'acc_1', bank_account: { account_number_masked: '••••1234' } });
+  });
+
+  it('are private to treasurers', async () => {
+    await assertSucceeds(getDoc(doc(as('lead'), 'clubs/clubA/paymentDetails/razorpay')));
+    await assertFails(getDoc(doc(as('student'), 'clubs/clubA/paymentDetails/razorpay')));
+  });
+
+  it('let treasurers copy the linked account to the club and nothing else', async () => {
+    await assertSucceeds(updateDoc(doc(as('lead'), 'clubs/clubA'), { razorpayLinkedAccountId: 'acc_1' }));
+    await assertFails(updateDoc(doc(as('student'), 'clubs/clubA'), { razorpayLinkedAccountId: 'acc_2' }));
+  });
+});
+
+describe('drive applications', () => {
+  const application = (extra: Record<string, any> = {}) => ({ userId: 'student', userName: 'Student', status: 'pending', answers: [], ...extra });
+
+  beforeEach(async () => {
+    await seed('clubs/clubA/recruitmentDrives/open', { title: 'Open', opensAtMs: Date.now() - 60_000, closesAtMs: Date.now() + 3_600_000 });
+    await seed('clubs/clubA/recruitmentDrives/closed', { title: 'Closed', opensAtMs: Date.now() - 7_200_000, closesAtMs: Date.now() - 60_000 });
+  });
+
+  it('are accepted only while the drive is open', async () => {
+    await assertSucceeds(setDoc(doc(as('student'), 'clubs/clubA/applications/open_student'), application({ driveId: 'open' })));
+    await assertFails(setDoc(doc(as('student'), 'clubs/clubA/applications/closed_student'), application({ driveId: 'closed' })));
+  });
+
+  it('are limited to one per person whether or not they name a drive', async () => {
+    await assertFails(addDoc(collection(as('student'), 'clubs/clubA/applications'), application()));
+    await assertSucceeds(setDoc(doc(as('student'), 'clubs/clubA/applications/student'), application()));
+    await assertFails(setDoc(doc(as('student'), 'clubs/clubA/applications/student'), application()));
+  });
+});
+
+describe('invoices', () => {
+  beforeEach(async () => {
+    await seed('clubs/clubA', { name: 'Club A', team: [] });
+    await seed('invoices/guestReg1', { userId: 'guest1', isGuest: true, clubId: 'clubA', number: 'RCPT/25-26/00001' });
+  });
+
+  it('are readable by the guest who paid and the club treasurers only', async () => {
+    await assertSucceeds(getDoc(doc(as('guest1', { guest: true }), 'invoices/guestReg1')));
+    await assertSucceeds(getDoc(doc(as('lead'), 'invoices/guestReg1')));
+    await assertFails(getDoc(doc(as('other'), 'invoices/guestReg1')));
+    await assertFails(getDoc(doc(env.unauthenticatedContext().firestore(), 'invoices/guestReg1')));
+  });
+});
+
+describe('notifications', () => {
+  const notification = (senderId: string, extra: Record<string, any> = {}) => ({
+    userId: 'student',
+    type: 'info',
+    message: 'Hello',
+    isRead: false,
+    senderId,
+    timestamp: serverTimestamp(),
+    ...extra,
+  });
+
+  it('may be sent by staff on behalf of their own club', async () => {
+    await assertSucceeds(addDoc(collection(as('lead'), 'notifications'), notification('lead', { clubId: 'clubA' })));
+    await assertFails(addDoc(collection(as('lead'), 'notifications'), notification('lead', { clubId: 'clubB' })));
+  });
+
+  it('may not be sent by students or under another sender', async () => {
+    await assertFails(addDoc(collection(as('other'), 'notifications'), notification('other', { clubId: 'clubA' })));
+    await assertFails(addDoc(collection(as('lead'), 'notifications'), notification('admin', { clubId: 'clubA' })));
+  });
+
+  it('must use the server clock', async () => {
+    await assertFails(addDoc(collection(as('lead'), 'notifications'), notification('lead', { clubId: 'clubA', timestamp: '2020-01-01T00:00:00.000Z' })));
+  });
+});
+
+describe('audit log', () => {
+  const entry = (actorId: string, action: string, extra: Record<string, any> = {}) => ({
+    actorId,
+    actorName: actorId,
+    action,
+    targetType: 'club',
+    targetId: 'clubA',
+    summary: 'Changed something',
+    before: null,
+    after: null,
+    timestamp: serverTimestamp(),
+    ...extra,
+  });
+
+  it('refuses entries from clients, however privileged', async () => {
+    await assertFails(addDoc(collection(as('lead'), 'auditLogs'), entry('lead', 'club.updated')));
+    await assertFails(addDoc(collection(as('lead'), 'auditLogs'), entry('lead', 'registration.status-changed')));
+    await assertFails(addDoc(collection(as('admin'), 'auditLogs'), entry('admin', 'role.admin-granted')));
+  });
+});
+
+describe('event analytics', () => {
+  it('are readable by admins and written only by the functions', async () => {
+    await seed('eventAnalytics/event1', { eventId: 'event1', clubId: 'clubA', registered: 1, attended: 0 });
+    await assertSucceeds(getDoc(doc(as('admin'), 'eventAnalytics/event1')));
+    await assertFails(updateDoc(doc(as('lead'), 'eventAnalytics/event1'), { attended: 10 }));
+    await assertFails(setDoc(doc(as('admin'), 'eventAnalytics/event2'), { eventId: 'event2', clubId: 'clubA', registered: 0, attended: 0 }));
+  });
+});
@@ -0,0 +1,90 @@
+// Time-zone conversion, legacy date parsing and status of event schedules
+import { describe, expect, it } from 'vitest';
+import { Event, EventStatus } from '../../types';
+import {
+  getScheduleStatus,
+  isoToZonedParts,
+  normalizeSchedule,
+  parseLegacySchedule,
+  sortEventsBySchedule,
+  zonedTimeToIso,
+} from '../../utils/eventSchedule';
+
+const event = (id: string, start: string, end: string, overrides: Partial<Event> = {}): Event => ({
+  id,
+  name: id,
+  date: '',
+  time: '',
+  schedule: { start, end, timeZone: 'Asia/Kolkata' },
+  ...overrides,
+} as Event);
+
+describe('zonedTimeToIso', () => {
+  it('converts campus wall-clock time to UTC and back', () => {
+    expect(zonedTimeToIso('2024-10-26', '09:00')).toBe('2024-10-26T03:30:00.000Z');
+    expect(isoToZonedParts('2024-10-26T03:30:00.000Z')).toEqual({ date: '2024-10-26', time: '09:00' });
+  });
+
+  it('follows daylight saving in zones that have it', () => {
+    expect(zonedTimeToIso('2024-03-09', '12:00', 'America/New_York')).toBe('2024-03-09T17:00:00.000Z');
+    expect(zonedTimeToIso('2024-03-11', '12:00', 'America/New_York')).toBe('2024-03-11T16:00:00.000Z');
+  });
+});
+
+describe('parseLegacySchedule', () => {
+  it('reads multi-day dates with a time range', () => {
+    expect(parseLegacySchedule('December 5-6, 2024', '9:00 AM - 5:00 PM')).toEqual({
+      start: '2024-12-05T03:30:00.000Z',
+      end: '2024-12-06T11:30:00.000Z',
+      timeZone: 'Asia/Kolkata',
+    });
+  });
+
+  it('spans whole days without a time and gives up on dates it cannot read', () => {
+    expect(parseLegacySchedule('2024-10-26')).toMatchObject({ start: '2024-10-25T18:30:00.000Z', end: '2024-10-26T18:29:00.000Z' });
+    expect(parseLegacySchedule('sometime soon', '6:00 PM onwards')).toBeNull();
+  });
+});
+
+describe('normalizeSchedule', () => {
+  it('widens the bounds to cover every session and orders them', () => {
+    const normalized = normalizeSchedule({
+      start: '2024-12-05T04:00:00.000Z',
+      end: '2024-12-05T10:00:00.000Z',
+      timeZone: 'Asia/Kolkata',
+      sessions: [
+        { id: 'day2', title: 'Finals', start: '2024-12-06T04:00:00.000Z', end: '2024-12-06T11:00:00.000Z' },
+        { id: 'day1', title: 'Heats', start: '2024-12-05T03:30:00.000Z', end: '2024-12-05T10:00:00.000Z' },
+      ],
+    });
+    expect(normalized.start).toBe('2024-12-05T03:30:00.000Z');
+    expect(normalized.end).toBe('2024-12-06T11:00:00.000Z');
+    expect(normalized.sessions!.map(session => session.id)).toEqual(['day1', 'day2']);
+  });
+});
+
+describe('getScheduleStatus', () => {
+  const hackathon = event('hackathon', '2024-12-05T03:30:00.000Z', '2024-12-06T11:30:00.000Z');
+
+  it('moves from upcoming to ongoing to past', () => {
+    expect(getScheduleStatus(hackathon, new Date('2024-12-01T00:00:00.000Z'))).toBe(EventStatus.Upcoming);
+    expect(getScheduleStatus(hackathon, new Date('2024-12-05T12:00:00.000Z'))).toBe(EventStatus.Ongoing);
+    expect(getScheduleStatus(hackathon, new Date('2024-12-07T00:00:00.000Z'))).toBe(EventStatus.Past);
+  });
+
+  it('keeps events marked completed in the past', () => {
+    expect(getScheduleStatus({ ...hackathon, status: EventStatus.Past }, new Date('2024-12-05T12:00:00.000Z'))).toBe(EventStatus.Past);
+  });
+});
+
+describe('sortEventsBySchedule', () => {
+  it('lists current events soonest first, then past events most recent first', () => {
+    const sorted = sortEventsBySchedule([
+      event('old', '2020-01-01T04:00:00.000Z', '2020-01-01T10:00:00.000Z'),
+      event('later', '2099-02-01T04:00:00.000Z', '2099-02-01T10:00:00.000Z'),
+      event('recent', '2021-01-01T04:00:00.000Z', '2021-01-01T10:00:00.000Z'),
+      event('sooner', '2099-01-01T04:00:00.000Z', '2099-01-01T10:00:00.000Z'),
+    ]);
+    expect(sorted.map(e => e.id)).toEqual(['sooner', 'later', 'recent', 'old']);
+  });
+});
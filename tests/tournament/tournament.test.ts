@@ -0,0 +1,87 @@
+// Fixture generation, results and standings for knockout, round-robin and Swiss tournaments
+import { describe, expect, it } from 'vitest';
+import { Tournament, TournamentHost, TournamentParticipant } from '../../types';
+import { computeStandings, createTournament, recordMatchResult } from '../../utils/tournament';
+
+const HOST: TournamentHost = { type: 'event', clubId: 'clubA', eventId: 'event1' };
+const NOW = new Date('2025-10-01T10:00:00.000Z');
+
+const players = (count: number): TournamentParticipant[] =>
+  Array.from({ length: count }, (_, i) => ({ id: `p${i + 1}`, name: `Player ${i + 1}` }));
+
+// Play every scheduled match of the current round, the home side winning
+const playRound = (tournament: Tournament): Tournament =>
+  tournament.matches
+    .filter(match => match.status === 'scheduled' && match.homeId && match.awayId)
+    .reduce((current, match) => recordMatchResult(current, match.id, 2, 1, NOW), tournament);
+
+describe('knockout', () => {
+  it('seeds the bracket and gives the top seeds the byes', () => {
+    const tournament = createTournament(HOST, { format: 'knockout', participants: players(6) }, NOW);
+    const firstRound = tournament.matches.filter(match => match.round === 1);
+
+    expect(tournament.totalRounds).toBe(3);
+    expect(firstRound.map(match => [match.homeId, match.awayId])).toEqual([['p1', null], ['p4', 'p5'], ['p2', null], ['p3', 'p6']]);
+    expect(firstRound.filter(match => match.status === 'bye').map(match => match.winnerId)).toEqual(['p1', 'p2']);
+    expect(tournament.matches.find(match => match.id === 'r2-m1')?.homeId).toBe('p1');
+  });
+
+  it('advances winners, refuses draws and places the finalists', () => {
+    let tournament = createTournament(HOST, { format: 'knockout', participants: players(4) }, NOW);
+    expect(() => recordMatchResult(tournament, 'r1-m1', 1, 1, NOW)).toThrow('Knockout matches need a winner');
+
+    tournament = recordMatchResult(tournament, 'r1-m1', 0, 3, NOW);
+    expect(tournament.matches.find(match => match.id === 'r2-m1')?.homeId).toBe('p4');
+    tournament = recordMatchResult(tournament, 'r1-m2', 2, 0, NOW);
+    tournament = recordMatchResult(tournament, 'r2-m1', 1, 0, NOW);
+
+    expect(tournament.status).toBe('completed');
+    expect(tournament.placements.slice(0, 2)).toEqual([
+      { position: 'Winner', participantId: 'p4', name: 'Player 4' },
+      { position: 'Runner-up', participantId: 'p2', name: 'Player 2' },
+    ]);
+  });
+});
+
+describe('round robin', () => {
+  it('pairs everyone once and ranks them by points', () => {
+    let tournament = createTournament(HOST, { format: 'round-robin', participants: players(4) }, NOW);
+    const pairs = tournament.matches.map(match => [match.homeId, match.awayId].sort().join('-'));
+
+    expect(tournament.totalRounds).toBe(3);
+    expect(new Set(pairs).size).toBe(6);
+
+    tournament = recordMatchResult(tournament, tournament.matches[0].id, 1, 1, NOW);
+    const [first] = computeStandings(tournament).filter(row => row.played > 0);
+    expect(first).toMatchObject({ drawn: 1, points: 1 });
+  });
+
+  it('snake-seeds entrants into groups', () => {
+    const tournament = createTournament(HOST, { format: 'round-robin', participants: players(8), groupCount: 2 }, NOW);
+    const groupOf = (id: string) => tournament.matches.find(match => match.homeId === id || match.awayId === id)?.group;
+    expect(['p1', 'p4', 'p5', 'p8'].map(groupOf)).toEqual(['A', 'A', 'A', 'A']);
+    expect(['p2', 'p3', 'p6', 'p7'].map(groupOf)).toEqual(['B', 'B', 'B', 'B']);
+  });
+});
+
+describe('swiss', () => {
+  it('pairs the next round without rematches and finishes after the last round', () => {
+    let tournament = createTournament(HOST, { format: 'swiss', participants: players(4) }, NOW);
+    expect(tournament.totalRounds).toBe(2);
+
+    tournament = playRound(tournament);
+    const secondRound = tournament.matches.filter(match => match.round === 2);
+    const firstRoundPairs = new Set(tournament.matches.filter(match => match.round === 1).map(match => [match.homeId, match.awayId].sort().join('-')));
+    expect(secondRound).toHaveLength(2);
+    expect(secondRound.some(match => firstRoundPairs.has([match.homeId, match.awayId].sort().join('-')))).toBe(false);
+
+    tournament = playRound(tournament);
+    expect(tournament.status).toBe('completed');
+    expect(tournament.placements.map(placement => placement.position)).toEqual(['Winner', 'Runner-up', 'Third Place']);
+  });
+
+  it('needs at least two distinct participants', () => {
+    expect(() => createTournament(HOST, { format: 'swiss', participants: players(1) }, NOW)).toThrow('at least two');
+    expect(() => createTournament(HOST, { format: 'swiss', participants: [...players(2), players(1)[0]] }, NOW)).toThrow('more than once');
+  });
+});
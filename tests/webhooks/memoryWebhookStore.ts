@@ -0,0 +1,121 @@
+// In-memory WebhookStore for replaying recorded webhooks. Each claim reads and writes without
+// awaiting in between, which is what the Firestore transaction guarantees in production.
+import type { PaymentProvider } from '../../services/paymentGateway';
+import type { EventPaymentRecord } from '../../utils/registrationRecords';
+import type { LedgerEntry } from '../../utils/ledger';
+import { Invoice, InvoiceDraft, formatInvoiceNumber } from '../../utils/invoice';
+import { paymentStatusFor, registrationRefundFields } from '../../utils/refunds';
+import {
+  PaymentIntent,
+  ProcessedWebhook,
+  WebhookStore,
+  buildClaimRecord,
+  resolveWebhookClaim,
+} from '../../utils/paymentWebhooks';
+
+export interface MemoryWebhookStore extends WebhookStore {
+  intents: Map<string, PaymentIntent>;
+  webhooks: Map<string, ProcessedWebhook>;
+  registrations: Map<string, Record<string, any>>;
+  payments: Map<string, EventPaymentRecord>;
+  ledger: Map<string, LedgerEntry>;
+  couponUses: Map<string, number>;
+  invoices: Map<string, Invoice>;
+  releasedHolds: string[];
+  // Make the next call of a store method throw, to simulate a write failing part way
+  failNext(method: keyof WebhookStore): void;
+}
+
+export const createMemoryWebhookStore = (secrets: Partial<Record<PaymentProvider, string>>, intents: PaymentIntent[] = []): MemoryWebhookStore => {
+  const failures = new Set<keyof WebhookStore>();
+  const redemptions = new Set<string>();
+  let invoiceSequence = 0;
+  const failIfArmed = (method: keyof WebhookStore) => {
+    if (!failures.delete(method)) return;
+    throw new Error(`${method} failed`);
+  };
+
+  const store: MemoryWebhookStore = {
+    intents: new Map(intents.map(intent => [intent.orderId, { ...intent }])),
+    webhooks: new Map(),
+    registrations: new Map(),
+    payments: new Map(),
+    ledger: new Map(),
+    couponUses: new Map(),
+    invoices: new Map(),
+    releasedHolds: [],
+    failNext: method => { failures.add(method); },
+
+    getIntent: async orderId => {
+      const intent = store.intents.get(orderId);
+      return intent ? { ...intent } : null;
+    },
+    getSigningSecret: async provider => secrets[provider] || null,
+    claimWebhook: async event => {
+      const intent = store.intents.get(event.orderId) || null;
+      const { claim, intentChanges } = resolveWebhookClaim(event, store.webhooks.has(event.key), intent ? { ...intent } : null);
+      if (claim.claimed) {
+        store.webhooks.set(event.key, buildClaimRecord(event, intent));
+        if (intent && intentChanges) Object.assign(intent, intentChanges);
+      }
+      return claim;
+    },
+    releaseClaim: async (event, intent) => {
+      store.webhooks.delete(event.key);
+      if (intent && event.type === 'payment.paid') {
+        const current = store.intents.get(intent.orderId)!;
+        current.status = intent.status;
+        delete current.claimedBy;
+      }
+    },
+    markProcessed: async record => {
+      store.webhooks.set(record.key, record);
+    },
+    createRegistration: async (intent, registration) => {
+      failIfArmed('createRegistration');
+      if (!store.registrations.has(intent.orderId)) {
+        store.registrations.set(intent.orderId, registration);
+        store.intents.get(intent.orderId)!.seatHeld = false;
+      }
+      return intent.orderId;
+    },
+    savePayment: async payment => {
+      failIfArmed('savePayment');
+      store.payments.set(payment.orderId || payment.registrationId, payment);
+    },
+    postLedgerEntry: async entry => {
+      failIfArmed('postLedgerEntry');
+      store.ledger.set(entry.id, entry);
+    },
+    redeemCoupon: async (clubId, code, orderId) => {
+      if (redemptions.has(`${clubId}/${code}/${orderId}`)) return;
+      redemptions.add(`${clubId}/${code}/${orderId}`);
+      store.couponUses.set(code, (store.couponUses.get(code) || 0) + 1);
+    },
+    getInvoiceIssuer: async () => ({ legalName: 'Coding Club', address: 'GCET Campus, Hyderabad', gstin: '36AAAAA0000A1Z5' }),
+    issueInvoice: async (draft: InvoiceDraft) => {
+      failIfArmed('issueInvoice');
+      const existing = store.invoices.get(draft.id);
+      if (existing) return existing;
+      invoiceSequence += 1;
+      const invoice = { ...draft, number: formatInvoiceNumber(draft, invoiceSequence) };
+      store.invoices.set(draft.id, invoice);
+      return invoice;
+    },
+    updateIntent: async (orderId, changes) => {
+      Object.assign(store.intents.get(orderId)!, changes);
+    },
+    releaseSeatHold: async orderId => {
+      store.intents.get(orderId)!.seatHeld = false;
+      store.releasedHolds.push(orderId);
+    },
+    settleRefund: async (intent, refundId) => {
+      const payment = store.payments.get(intent.orderId);
+      if (!payment?.refund || payment.refund.refundId !== refundId || payment.refund.state === 'processed') return;
+      const refund = { ...payment.refund, state: 'processed' as const };
+      store.payments.set(intent.orderId, { ...payment, refund, paymentStatus: paymentStatusFor(payment, refund) });
+      Object.assign(store.registrations.get(payment.registrationId) || {}, registrationRefundFields(refund));
+    },
+  };
+  return store;
+};
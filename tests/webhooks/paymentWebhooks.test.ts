@@ -0,0 +1,188 @@
+// Replays recorded gateway webhooks through processGatewayWebhook against an in-memory store
+import { createHash, createHmac } from 'crypto';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { describe, expect, it } from 'vitest';
+import { PaymentIntent, WebhookRequest, buildRefundId, processGatewayWebhook } from '../../utils/paymentWebhooks';
+import { createMemoryWebhookStore } from './memoryWebhookStore';
+
+const ORDER_ID = 'EVT_event1_1760000000000';
+const SECRETS = { razorpay: 'rzp_webhook_secret', cashfree: 'cf_webhook_secret', phonepe: 'phonepe_salt_key' };
+
+const fixture = (name: string) => readFileSync(resolve(__dirname, 'fixtures', name), 'utf8');
+
+const intent = (overrides: Partial<PaymentIntent> = {}): PaymentIntent => ({
+  orderId: ORDER_ID,
+  provider: 'razorpay',
+  clubId: 'clubA',
+  eventId: 'event1',
+  userId: 'student',
+  isGuest: false,
+  amount: 499,
+  currency: 'INR',
+  registration: { userName: 'Student', userEmail: 'student@example.com', eventName: 'Hackathon', eventDate: '2025-10-20', eventLocation: 'Main Hall' },
+  status: 'created',
+  seatHeld: true,
+  createdAt: '2025-10-09T08:50:00.000Z',
+  ...overrides,
+});
+
+const razorpayRequest = (rawBody: string, eventId: string, secret = SECRETS.razorpay): WebhookRequest => ({
+  rawBody,
+  headers: {
+    'x-razorpay-signature': createHmac('sha256', secret).update(rawBody).digest('hex'),
+    'x-razorpay-event-id': eventId,
+  },
+});
+
+const cashfreeRequest = (rawBody: string): WebhookRequest => {
+  const timestamp = '1760000105';
+  return {
+    rawBody,
+    headers: {
+      'x-webhook-signature': createHmac('sha256', SECRETS.cashfree).update(timestamp + rawBody).digest('base64'),
+      'x-webhook-timestamp': timestamp,
+    },
+  };
+};
+
+const phonepeRequest = (decoded: string): WebhookRequest => {
+  const response = Buffer.from(decoded).toString('base64');
+  return {
+    rawBody: JSON.stringify({ response }),
+    headers: { 'x-verify': `${createHash('sha256').update(response + SECRETS.phonepe).digest('hex')}###1` },
+  };
+};
+
+describe('processGatewayWebhook', () => {
+  it('registers the attendee, records the payment and posts the ledger entry', async () => {
+    const store = createMemoryWebhookStore(SECRETS, [intent({ pricing: { tierId: 'standard', tierName: 'Standard', listPrice: 599, earlyBird: false, price: 599, couponCode: 'EARLY', discount: 100, amount: 499 } })]);
+    const result = await processGatewayWebhook('razorpay', razorpayRequest(fixture('razorpay-payment-captured.json'), 'evt_1'), store);
+
+    expect(result).toEqual({ outcome: 'processed', orderId: ORDER_ID, registrationId: ORDER_ID });
+    expect(store.registrations.get(ORDER_ID)).toMatchObject({ status: 'confirmed', paymentStatus: 'paid', paymentId: 'pay_N1x9Ok2ZQ8fT3a', registrationFee: 499 });
+    expect(store.payments.get(ORDER_ID)).toMatchObject({ amount: 499, gatewayFee: 11.78, paymentMethod: 'upi' });
+    expect([...store.ledger.keys()]).toEqual(['payment_razorpay_pay_N1x9Ok2ZQ8fT3a']);
+    expect(store.couponUses.get('EARLY')).toBe(1);
+    expect(store.invoices.get(ORDER_ID)?.number).toMatch(/^A1Z5\/\d{2}-\d{2}\/00001$/);
+    expect(store.intents.get(ORDER_ID)).toMatchObject({ status: 'confirmed', registrationId: ORDER_ID, seatHeld: false });
+    expect(store.webhooks.get('evt_1')?.outcome).toBe('processed');
+  });
+
+  it('treats a redelivered webhook as a duplicate', async () => {
+    const store = createMemoryWebhookStore(SECRETS, [intent()]);
+    const request = razorpayRequest(fixture('razorpay-payment-captured.json'), 'evt_1');
+    await processGatewayWebhook('razorpay', request, store);
+    const again = await processGatewayWebhook('razorpay', request, store);
+
+    expect(again).toEqual({ outcome: 'duplicate', orderId: ORDER_ID, registrationId: ORDER_ID });
+    expect(store.registrations.size).toBe(1);
+    expect(store.invoices.size).toBe(1);
+  });
+
+  it('registers once when order.paid and payment.captured arrive together', async () => {
+    const store = createMemoryWebhookStore(SECRETS, [intent()]);
+    const results = await Promise.all([
+      processGatewayWebhook('razorpay', razorpayRequest(fixture('razorpay-order-paid.json'), 'evt_order_paid'), store),
+      processGatewayWebhook('razorpay', razorpayRequest(fixture('razorpay-payment-captured.json'), 'evt_captured'), store),
+    ]);
+
+    expect(results.map(result => result.outcome).sort()).toEqual(['duplicate', 'processed']);
+    expect(store.registrations.size).toBe(1);
+    expect(store.payments.size).toBe(1);
+    expect(store.ledger.size).toBe(1);
+    expect(store.invoices.size).toBe(1);
+  });
+
+  it('releases the claim when a write fails so the retry finishes the job', async () => {
+    const store = createMemoryWebhookStore(SECRETS, [intent({ pricing: { tierId: 'standard', tierName: 'Standard', listPrice: 599, earlyBird: false, price: 599, couponCode: 'EARLY', discount: 100, amount: 499 } })]);
+    const request = razorpayRequest(fixture('razorpay-payment-captured.json'), 'evt_1');
+    store.failNext('issueInvoice');
+
+    await expect(processGatewayWebhook('razorpay', request, store)).rejects.toThrow('issueInvoice failed');
+    expect(store.webhooks.has('evt_1')).toBe(false);
+    expect(store.intents.get(ORDER_ID)?.status).toBe('created');
+
+    const retry = await processGatewayWebhook('razorpay', request, store);
+    expect(retry.outcome).toBe('processed');
+    expect(store.registrations.size).toBe(1);
+    expect(store.ledger.size).toBe(1);
+    expect(store.couponUses.get('EARLY')).toBe(1);
+    expect(store.invoices.size).toBe(1);
+  });
+
+  it('rejects a bad signature before reading the body', async () => {
+    const store = createMemoryWebhookStore(SECRETS, [intent()]);
+    const result = await processGatewayWebhook('razorpay', razorpayRequest(fixture('razorpay-payment-captured.json'), 'evt_1', 'forged'), store);
+
+    expect(result).toEqual({ outcome: 'rejected' });
+    expect(store.webhooks.size).toBe(0);
+    expect(store.registrations.size).toBe(0);
+  });
+
+  it('rejects a signed body that is not JSON', async () => {
+    const store = createMemoryWebhookStore(SECRETS, [intent()]);
+    const result = await processGatewayWebhook('razorpay', razorpayRequest('not json', 'evt_1'), store);
+    expect(result).toEqual({ outcome: 'rejected' });
+  });
+
+  it('holds back the registration when the amount differs from the intent', async () => {
+    const store = createMemoryWebhookStore(SECRETS, [intent({ amount: 599 })]);
+    const result = await processGatewayWebhook('razorpay', razorpayRequest(fixture('razorpay-payment-captured.json'), 'evt_1'), store);
+
+    expect(result.outcome).toBe('amount-mismatch');
+    expect(store.registrations.size).toBe(0);
+    expect(store.intents.get(ORDER_ID)?.status).toBe('amount-mismatch');
+  });
+
+  it('records a payment with no intent as orphaned', async () => {
+    const store = createMemoryWebhookStore(SECRETS);
+    const result = await processGatewayWebhook('razorpay', razorpayRequest(fixture('razorpay-payment-captured.json'), 'evt_1'), store);
+
+    expect(result.outcome).toBe('orphaned');
+    expect(store.webhooks.get('evt_1')?.outcome).toBe('orphaned');
+  });
+
+  it('applies Cashfree payments and ignores success notices without a payment', async () => {
+    const store = createMemoryWebhookStore(SECRETS, [intent({ provider: 'cashfree' })]);
+    const ignored = await processGatewayWebhook('cashfree', cashfreeRequest(fixture('cashfree-success-without-payment.json')), store);
+    expect(ignored).toEqual({ outcome: 'ignored' });
+
+    const result = await processGatewayWebhook('cashfree', cashfreeRequest(fixture('cashfree-payment-success.json')), store);
+    expect(result.outcome).toBe('processed');
+    expect(store.payments.get(ORDER_ID)).toMatchObject({ paymentId: '5114910772364', gatewayFee: 9.98 });
+  });
+
+  it('verifies PhonePe callbacks with the salt key and rejects garbage', async () => {
+    const store = createMemoryWebhookStore(SECRETS, [intent({ provider: 'phonepe', accountId: 'phonepe1' })]);
+    const result = await processGatewayWebhook('phonepe', phonepeRequest(fixture('phonepe-payment-success.json')), store);
+    expect(result.outcome).toBe('processed');
+    expect(store.registrations.get(ORDER_ID)).toMatchObject({ paymentId: 'T2510091425001234567890' });
+
+    const garbage = await processGatewayWebhook('phonepe', { rawBody: '{"response":"%%%"}', headers: { 'x-verify': 'abc###1' } }, store);
+    expect(garbage).toEqual({ outcome: 'rejected' });
+  });
+
+  it('settles a refund started by the refund function', async () => {
+    const store = createMemoryWebhookStore(SECRETS, [intent({ provider: 'phonepe', accountId: 'phonepe1' })]);
+    await processGatewayWebhook('phonepe', phonepeRequest(fixture('phonepe-payment-success.json')), store);
+    const refundId = buildRefundId(ORDER_ID, 1760100000000);
+    const payment = store.payments.get(ORDER_ID)!;
+    store.payments.set(ORDER_ID, {
+      ...payment,
+      paymentStatus: 'refund_pending',
+      refund: { refundId, amount: 200, reason: 'registration_cancelled', state: 'pending', initiatedBy: 'lead', requestedAt: '2025-10-10T12:00:00.000Z', updatedAt: '2025-10-10T12:00:00.000Z' },
+    });
+
+    const result = await processGatewayWebhook('phonepe', phonepeRequest(JSON.stringify({
+      success: true,
+      code: 'PAYMENT_SUCCESS',
+      data: { merchantId: 'MERCHANT1', merchantTransactionId: refundId, transactionId: 'TR2510101200001', amount: 20000 },
+    })), store);
+
+    expect(result).toMatchObject({ outcome: 'processed', orderId: ORDER_ID });
+    expect(store.payments.get(ORDER_ID)).toMatchObject({ paymentStatus: 'partially_refunded', refund: { state: 'processed' } });
+    expect(store.registrations.get(ORDER_ID)).toMatchObject({ refundStatus: 'processed', refundAmount: 200, paymentStatus: 'refunded' });
+    expect(store.ledger.get(`refund_phonepe_${refundId}`)?.kind).toBe('refund');
+  });
+});
@@ -14,11 +14,28 @@ export interface LeadershipMember {
   quote: string;
 }
 
+// A round, workshop day or other block of a multi-part event
+export interface EventSession {
+  id: string;
+  title: string;
+  start: string; // ISO datetime
+  end: string; // ISO datetime
+  venue?: string; // Falls back to the event's location
+}
+
+export interface EventSchedule {
+  start: string; // ISO datetime
+  end: string; // ISO datetime
+  timeZone: string; // IANA zone the event is held in, e.g. 'Asia/Kolkata'
+  sessions?: EventSession[];
+}
+
 export interface Event {
   id:string;
   name: string;
-  date: string;
-  time: string;
+  date: string; // Display string derived from schedule; legacy events only have this
+  time: string; // Display string derived from schedule; legacy events only have this
+  schedule?: EventSchedule;
   location: string;
   description: string;
   rules: string[];
@@ -36,12 +53,55 @@ export interface Event {
     galleryDriveLink?: string;
   };
   capacity?: number;
+  seatsTaken?: number; // Confirmed seats, kept by the registration functions
+  waitlistCounter?: number; // Last waitlist position handed out
   specialGuests?: string[];
   customSections?: { title: string; content: string }[];
   parentAnnualEventId?: string; // Links sub-events to a main annual event
   registeredUsers?: string[]; // Array of user IDs who registered for this event
+  registrationType?: 'individual' | 'team';
+  minTeamSize?: number;
+  maxTeamSize?: number;
+  teamLockDeadline?: string; // ISO datetime after which team rosters can no longer change
+  calendarSequence?: number; // iCalendar SEQUENCE; bumped on every edit so subscribed calendars pick it up
+  judgeIds?: string[]; // Users granted judging access for this event only
+  registrationForm?: RegistrationField[]; // Extra questions asked at registration, in display order
+}
+
+// ===== REGISTRATION FORMS =====
+export type RegistrationFieldType = 'text' | 'choice' | 'checkbox' | 'file' | 'number' | 'date';
+
+export interface RegistrationField {
+  id: string;
+  label: string;
+  type: RegistrationFieldType;
+  required: boolean;
+  helpText?: string;
+  options?: string[]; // Choice fields; checkbox fields with options allow several, without options are a single tick
+  validation?: {
+    maxLength?: number; // Text
+    pattern?: string; // Text; a regular expression the whole answer must match
+    patternMessage?: string;
+    min?: number; // Number
+    max?: number;
+    minDate?: string; // Date, YYYY-MM-DD
+    maxDate?: string;
+    accept?: string; // File; input accept list, e.g. ".pdf,image/*"
+    maxSizeMb?: number; // File
+  };
+  showIf?: { fieldId: string; equals: string }; // Only shown when an earlier field has this answer
+}
+
+export interface RegistrationFileAnswer {
+  name: string;
+  url: string;
 }
 
+export type RegistrationAnswer = string | number | boolean | string[] | RegistrationFileAnswer;
+
+// Answers by field id; hidden and blank fields are left out
+export type RegistrationFormResponses = Record<string, RegistrationAnswer>;
+
 export interface ClubTeamMember {
   id: string;
   name: string;
@@ -59,8 +119,9 @@ export interface Club {
   eventIds: string[];
   achievements: string[];
   team: ClubTeamMember[];
-  recruitmentOpen?: boolean;
-  recruitmentQuestions?: string[];
+  recruitmentOpen?: boolean; // Legacy toggle; recruitment drives now decide when applications are open
+  recruitmentQuestions?: string[]; // Default questions copied into each new recruitment drive
+  razorpayLinkedAccountId?: string; // Copied from the private payment details so checkout can route payments
 }
 
 export interface ExternalEvent {
@@ -74,6 +135,9 @@ export interface ExternalEvent {
 
 export type UserRole = 'admin' | 'contributor' | 'student' | 'guest';
 
+// Club-scoped grants on top of the platform role (see utils/permissions.ts)
+export type ClubRole = 'club-lead' | 'coordinator';
+
 export interface User {
   id?: string;
   name: string;
@@ -86,11 +150,13 @@ export interface User {
   branch?: string;
   mobile?: string;
   managedClubIds?: string[];
+  clubRoles?: { [clubId: string]: ClubRole };
 
   // Guest-specific
   collegeName?: string; 
   isGuest?: boolean;
   expiresAt?: Date; // For guest user cleanup
+  emailVerifiedAt?: string; // ISO datetime the guest last proved they own the email
   
   // Registration tracking
   registeredEvents?: string[]; // Array of event IDs the user has registered for
@@ -121,6 +187,58 @@ export interface Application {
     clubId: string;
     status: 'pending' | 'accepted' | 'rejected';
     answers: { question: string; answer: string }[];
+    stage?: ApplicationStage; // Pipeline round while pending; older applications without one are in screening
+    stageUpdatedAt?: string; // ISO string
+    interviewSlot?: InterviewSlot;
+    grantedPosition?: string; // Team position given on acceptance
+    driveId?: string; // The recruitment drive it was submitted to; joining requests outside a drive have none
+    submittedAt?: string; // ISO string
+}
+
+// Stored at clubs/{clubId}/recruitmentDrives/{driveId}
+export interface RecruitmentDrive {
+    id: string;
+    clubId: string;
+    title: string;
+    opensAt: string; // ISO string
+    closesAt: string; // ISO string; applications stop automatically at this time
+    opensAtMs?: number; // opensAt and closesAt in epoch milliseconds, which the security rules compare with the request time
+    closesAtMs?: number;
+    questions: string[]; // Snapshot taken when the drive was created, so later edits don't change past drives
+    closedEarly?: boolean;
+    createdBy: string;
+    createdAt: string; // ISO string
+}
+
+export interface RecruitmentDriveStats {
+    applicants: number;
+    accepted: number;
+    rejected: number;
+    pending: number;
+    acceptanceRate: number; // Percent of applicants accepted
+    byBranch: Record<string, number>;
+    byYear: Record<string, number>;
+}
+
+// ===== RECRUITMENT PIPELINE =====
+export type ApplicationStage = 'screening' | 'task' | 'interview' | 'offer';
+
+export interface InterviewSlot {
+    start: string; // ISO string
+    end: string; // ISO string
+    location: string; // Room or meeting link
+    scheduledBy: string;
+}
+
+// Stored at clubs/{clubId}/applications/{applicationId}/reviews/{reviewerId}_{stage}; never shown to the applicant
+export interface ApplicationReview {
+    id?: string;
+    reviewerId: string;
+    reviewerName: string;
+    stage: ApplicationStage;
+    scores: { question: string; score: number }[]; // One per application answer, out of APPLICATION_SCORE_MAX
+    note: string;
+    updatedAt: string; // ISO string
 }
 
 
@@ -155,12 +273,227 @@ export interface AcademicAward {
     winners: AcademicWinner[];
 }
 
+export type SportEntryType = 'branch' | 'team';
+export type SportGenderCategory = 'men' | 'women' | 'mixed' | 'open';
+export type SportGender = 'male' | 'female' | 'other';
+
+export interface SportEligibility {
+    years?: string[]; // Allowed values of User.year; empty means every year
+    genderCategory: SportGenderCategory;
+    minRosterSize: number;
+    maxRosterSize: number;
+}
+
+export interface SportResult {
+    position: string; // e.g. 'Winner', 'Runner-up'
+    entryId: string;
+    entryName: string;
+}
+
 export interface SportCompetition {
     id: string;
     name: string;
     description: string;
     icon: string; // Using string for emoji or icon class
     registrationOpen: boolean;
+    entryType?: SportEntryType; // One entry per branch, or any number of independent teams
+    eligibility?: SportEligibility;
+    registrationDeadline?: string; // ISO datetime
+    results?: SportResult[];
+}
+
+export interface SportRosterMember {
+    userId: string;
+    name: string;
+    rollNumber: string;
+    year?: string;
+    branch?: string;
+    gender: SportGender;
+}
+
+export type SportEntryStatus = 'pending' | 'approved' | 'rejected' | 'withdrawn';
+
+// Stored under annualEvents/{annualEventDocId}/sportEntries
+export interface SportEntry {
+    id?: string;
+    annualEventId: string;
+    festYear: number;
+    competitionId: string;
+    entryType: SportEntryType;
+    entryName: string; // Branch name or team name
+    branch?: string;
+    captainId: string;
+    captainName: string;
+    roster: SportRosterMember[];
+    memberIds: string[]; // Mirrors roster for duplicate checks
+    status: SportEntryStatus;
+    createdAt: string; // ISO string
+    updatedAt: string; // ISO string
+}
+
+// ===== JUDGING =====
+export interface JudgingCriterion {
+    id: string;
+    name: string;
+    description?: string;
+    weight: number; // Relative; weights need not sum to anything in particular
+    maxScore: number;
+}
+
+export type JudgingStatus = 'draft' | 'open' | 'closed' | 'published';
+
+// Stored at events/{clubId}/clubEvents/{eventId}/judging/config
+export interface JudgingConfig {
+    criteria: JudgingCriterion[];
+    judges: { userId: string; name: string }[]; // Mirrors Event.judgeIds with display names
+    status: JudgingStatus;
+    entrants?: JudgingEntrant[]; // Taken when scoring opens, since judges cannot read registrations
+    updatedAt: string; // ISO string
+}
+
+// A registration or team being judged
+export interface JudgingEntrant {
+    id: string; // Team id, or user id for individual events
+    name: string;
+    memberIds: string[];
+}
+
+// Stored at events/{clubId}/clubEvents/{eventId}/judgeScores/{judgeId}_{entrantId}
+export interface JudgeScore {
+    id?: string;
+    judgeId: string;
+    judgeName: string;
+    entrantId: string;
+    entrantName: string;
+    scores: Record<string, number>; // By criterion id
+    comment?: string;
+    recused: boolean; // The judge declared a conflict of interest and did not score
+    submittedAt: string; // ISO string
+}
+
+export interface JudgingResult {
+    entrantId: string;
+    name: string;
+    rank: number;
+    rawScore: number; // Mean weighted score out of 100
+    normalizedScore: number; // Mean of each judge's z-score
+    judgeCount: number;
+}
+
+// ===== CERTIFICATES =====
+export type CertificateKind = 'participation' | 'winner';
+
+// A line of text on the certificate; supports {name}, {event}, {date}, {club}, {position} and {certId}
+export interface CertificateTextBlock {
+    id: string;
+    text: string;
+    x: number; // Percent of page width; the anchor point for the alignment
+    y: number; // Percent of page height, baseline
+    fontSize: number; // Points
+    color: string; // Hex
+    bold?: boolean;
+    align: 'left' | 'center' | 'right';
+    kinds?: CertificateKind[]; // Limit the line to some certificates; empty means all
+}
+
+export interface CertificateSignature {
+    id: string;
+    name: string;
+    title: string;
+    imageUrl?: string;
+    x: number; // Percent of page width, centre of the signature
+    y: number; // Percent of page height, the signature line
+}
+
+// Stored at certificateTemplates/{clubId}
+export interface CertificateTemplate {
+    clubId: string;
+    backgroundUrl?: string; // A4 landscape artwork
+    texts: CertificateTextBlock[];
+    signatures: CertificateSignature[];
+    updatedAt: string; // ISO string
+}
+
+// Stored at certificates/{verificationId}; the id is printed on the certificate and checked at /verify/:certId
+export interface Certificate {
+    id: string;
+    kind: CertificateKind;
+    recipientId: string | null; // null when a winner could not be matched to an account
+    recipientName: string;
+    position?: string; // Winner certificates only
+    eventId: string;
+    eventName: string;
+    eventDate: string;
+    clubId: string;
+    clubName: string;
+    template: Omit<CertificateTemplate, 'updatedAt'>; // Snapshot so later template edits don't change issued certificates
+    issuedAt: string; // ISO string
+    issuedBy: string;
+}
+
+// ===== TOURNAMENTS =====
+export type TournamentFormat = 'knockout' | 'round-robin' | 'swiss';
+
+export interface TournamentParticipant {
+    id: string; // Team id, user id or sport entry id
+    name: string;
+}
+
+export type TournamentMatchStatus = 'scheduled' | 'completed' | 'bye';
+
+export interface TournamentMatch {
+    id: string;
+    round: number; // Starts at 1
+    group?: string; // Round-robin group label, e.g. 'A'
+    homeId: string | null; // null until the feeding knockout match is decided
+    awayId: string | null;
+    homeScore: number | null;
+    awayScore: number | null;
+    winnerId: string | null; // null on a completed match records a draw
+    status: TournamentMatchStatus;
+    nextMatchId?: string; // Knockout match the winner advances to
+    nextSlot?: 'home' | 'away';
+}
+
+export interface TournamentStanding {
+    participantId: string;
+    name: string;
+    group?: string;
+    played: number;
+    won: number;
+    drawn: number;
+    lost: number;
+    scoreFor: number;
+    scoreAgainst: number;
+    points: number;
+    tiebreak: number; // Buchholz for Swiss, score difference otherwise
+}
+
+export interface TournamentPlacement {
+    position: string; // e.g. 'Winner', 'Runner-up'
+    participantId: string;
+    name: string;
+}
+
+// Where a tournament is held: a club event, or a competition in an annual fest edition
+export type TournamentHost =
+    | { type: 'event'; clubId: string; eventId: string }
+    | { type: 'fest'; annualEventId: string; festYear: number; competitionId: string };
+
+export interface Tournament {
+    id?: string;
+    host: TournamentHost;
+    format: TournamentFormat;
+    participants: TournamentParticipant[]; // In seed order
+    matches: TournamentMatch[];
+    totalRounds: number;
+    groupCount?: number; // Round robin only
+    pointsForWin: number;
+    pointsForDraw: number;
+    status: 'in-progress' | 'completed';
+    placements: TournamentPlacement[];
+    createdAt: string; // ISO string
+    updatedAt: string; // ISO string
 }
 
 export interface AnnualEventYearlyData {
@@ -187,6 +520,7 @@ export interface AnnualEvent {
   registrationEnabled: boolean;
   category: 'Cultural' | 'Technical' | 'Sports';
   yearlyData: AnnualEventYearlyData[];
+  coordinatorIds?: string[]; // Users who manage competition rosters and results for this fest
 }
 // ===== END NEW TYPES =====
 
@@ -197,6 +531,9 @@ export type NotificationType =
   | 'event-winner'
   | 'access-granted'
   | 'access-revoked'
+  | 'waitlist-promoted'
+  | 'refund-update'
+  | 'team-update'
   | 'info';
 
 export interface Notification {
@@ -204,14 +541,17 @@ export interface Notification {
   userId: string; // To whom the notification belongs
   type: NotificationType;
   message: string;
-  timestamp: string; // ISO string for simplicity
+  timestamp: string; // ISO string; stored as a server timestamp
   isRead: boolean;
   link?: string; // Optional link to navigate to
+  senderId?: string; // Who sent it; absent for notifications from Cloud Functions
+  clubId?: string; // The club or fest the sender acted for
+  annualEventId?: string;
 }
 // ===== END NEW TYPES =====
 
 // ===== EVENT REGISTRATION TYPES =====
-export type RegistrationStatus = 'pending' | 'confirmed' | 'cancelled';
+export type RegistrationStatus = 'pending' | 'confirmed' | 'cancelled' | 'waitlisted';
 export type PaymentStatus = 'pending' | 'paid' | 'refunded';
 
 export interface EventRegistration {
@@ -226,6 +566,7 @@ export interface EventRegistration {
   registrationDate: string;
   status: RegistrationStatus;
   paymentStatus?: PaymentStatus;
+  waitlistPosition?: number; // Order in the waitlist when status is 'waitlisted'
   additionalInfo?: { [key: string]: string };
   notes?: string; // For organizers to add notes
   
@@ -240,11 +581,36 @@ export interface EventRegistrationStats {
   confirmedRegistrations: number;
   pendingRegistrations: number;
   cancelledRegistrations: number;
+  waitlistedRegistrations: number;
   capacity?: number;
   isFull: boolean;
 }
 // ===== END EVENT REGISTRATION TYPES =====
 
+// ===== ATTENDANCE ANALYTICS =====
+export interface AttendanceBreakdown {
+  registered: number;
+  attended: number;
+}
+
+// Pre-aggregated attendance for one event, stored at eventAnalytics/{eventId}
+export interface EventAttendanceSummary {
+  eventId: string;
+  clubId: string;
+  eventName: string;
+  category: EventCategory;
+  startsAt: string; // ISO datetime
+  semester: string; // e.g. 'AY 2026-27 Odd'
+  registered: number; // Confirmed registrations; cancelled and waitlisted ones are left out
+  attended: number;
+  guestRegistered: number;
+  guestAttended: number;
+  byBranch: Record<string, AttendanceBreakdown>;
+  byYear: Record<string, AttendanceBreakdown>;
+  attendeeIds: string[]; // Checked-in internal users, for counting repeat attendees
+  updatedAt: string; // ISO datetime
+}
+
 export type View =
   | { type: 'home' }
   | { type: 'events' }
@@ -1,7 +1,12 @@
 import { doc, updateDoc, getDoc, addDoc, collection } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
 import { db } from '../../frontend/firebaseConfig';
+import { functions } from '../firebaseConfig';
 import { userProfileService } from '../services/firebaseAuthService';
-import { ClubTeamMember, Club } from '../types';
+import { notificationService } from '../services/notificationService';
+import { permissionService } from '../services/permissionService';
+import { can } from './permissions';
+import { ClubRole, ClubTeamMember, Club } from '../types';
 import { removeUndefinedValues } from '../utils/firestoreUtils';
 
 /**
@@ -11,6 +16,8 @@ import { removeUndefinedValues } from '../utils/firestoreUtils';
  */
 export const setUserAsAdmin = async (userId: string, adminEmail?: string): Promise<boolean> => {
   try {
+    await permissionService.authorize('manage-contributors');
+
     // Get the user's current profile
     const userProfile = await userProfileService.getUserProfile(userId);
     
@@ -24,6 +31,10 @@ export const setUserAsAdmin = async (userId: string, adminEmail?: string): Promi
     });
 
     console.log(`User ${userProfile.name} (${userProfile.email}) has been set as admin`);
+    await notificationService.notifyUsers([userId], {
+      type: 'access-granted',
+      message: 'You have been granted admin access.',
+    });
     return true;
   } catch (error) {
     console.error('Error setting user as admin:', error);
@@ -74,7 +85,7 @@ export const getAllUsers = async (): Promise<any[]> => {
 export const isUserAdmin = async (userId: string): Promise<boolean> => {
   try {
     const userProfile = await userProfileService.getUserProfile(userId);
-    return userProfile?.role === 'admin';
+    return can(userProfile, 'view-admin-console');
   } catch (error) {
     console.error('Error checking admin status:', error);
     return false;
@@ -89,6 +100,8 @@ export const isUserAdmin = async (userId: string): Promise<boolean> => {
  */
 export const assignContributorRole = async (userId: string, clubIds: string[], adminUserId: string): Promise<boolean> => {
   try {
+    await permissionService.authorize('manage-contributors', undefined, adminUserId);
+
     const userProfile = await userProfileService.getUserProfile(userId);
     if (!userProfile) {
       throw new Error('User not found');
@@ -101,6 +114,17 @@ export const assignContributorRole = async (userId: string, clubIds: string[], a
     });
 
     console.log(`User ${userProfile.name} has been assigned contributor role for clubs: ${clubIds.join(', ')}`);
+    // Only tell the user about clubs they could not already manage
+    const newClubIds = clubIds.filter(id => !userProfile.managedClubIds?.includes(id));
+    if (newClubIds.length > 0) {
+      await notificationService.notifyUsers([userId], {
+        type: 'access-granted',
+        message: newClubIds.length === 1
+          ? 'You have been given contributor access to manage a club.'
+          : `You have been given contributor access to manage ${newClubIds.length} clubs.`,
+        link: newClubIds.length === 1 ? `/clubs/${newClubIds[0]}` : '/profile',
+      });
+    }
     return true;
   } catch (error) {
     console.error('Error assigning contributor role:', error);
@@ -116,23 +140,10 @@ export const assignContributorRole = async (userId: string, clubIds: string[], a
  */
 export const revokeContributorFromClub = async (userId: string, clubId: string, adminUserId: string): Promise<boolean> => {
   try {
-    const userProfile = await userProfileService.getUserProfile(userId);
-    if (!userProfile) {
-      throw new Error('User not found');
-    }
-
-    // Remove the club from managedClubIds
-    const updatedClubIds = userProfile.managedClubIds?.filter(id => id !== clubId) || [];
-    
-    // If no clubs left, change role back to student
-    const newRole = updatedClubIds.length === 0 ? 'student' : 'contributor';
-    
-    await userProfileService.updateUserProfile(userId, {
-      role: newRole,
-      managedClubIds: updatedClubIds
-    });
-
-    console.log(`User ${userProfile.name} has been revoked from club: ${clubId}`);
+    // Club leads may remove contributors from their own club; the function writes the profile and the audit entry
+    await permissionService.authorize('manage-club-team', clubId, adminUserId);
+    await httpsCallable(functions, 'revokeClubAccess')({ clubId, userId });
+    console.log(`User ${userId} has been revoked from club: ${clubId}`);
     return true;
   } catch (error) {
     console.error('Error revoking contributor from club:', error);
@@ -141,56 +152,49 @@ export const revokeContributorFromClub = async (userId: string, clubId: string,
 };
 
 /**
- * Revoke all contributor access from a user
+ * Make a team member a club lead or coordinator, or clear their club role
  * @param userId - The user's UID
- * @param adminUserId - ID of the admin making the change
+ * @param clubId - The club the role applies to
+ * @param clubRole - The role to grant, or null to remove it
+ * @param adminUserId - ID of the admin/club lead making the change
  */
-export const revokeAllContributorAccess = async (userId: string, adminUserId: string): Promise<boolean> => {
+export const setClubRole = async (userId: string, clubId: string, clubRole: ClubRole | null, adminUserId: string): Promise<boolean> => {
   try {
-    const userProfile = await userProfileService.getUserProfile(userId);
-    if (!userProfile) {
-      throw new Error('User not found');
-    }
-
-    // Change role back to student and clear managed club IDs
-    await userProfileService.updateUserProfile(userId, {
-      role: 'student',
-      managedClubIds: []
-    });
-
-    console.log(`User ${userProfile.name} has been revoked from all contributor roles`);
+    // Only club leads and admins grant club roles; the function writes the profile and the audit entry
+    await permissionService.authorize('manage-club-team', clubId, adminUserId);
+    await httpsCallable(functions, 'setClubRole')({ clubId, userId, clubRole });
     return true;
   } catch (error) {
-    console.error('Error revoking all contributor access:', error);
+    console.error('Error setting club role:', error);
     return false;
   }
 };
 
 /**
- * Check if a user can manage a specific club
+ * Revoke all contributor access from a user
  * @param userId - The user's UID
- * @param clubId - The club ID to check
+ * @param adminUserId - ID of the admin making the change
  */
-export const canUserManageClub = async (userId: string, clubId: string): Promise<boolean> => {
+export const revokeAllContributorAccess = async (userId: string, adminUserId: string): Promise<boolean> => {
   try {
+    await permissionService.authorize('manage-contributors', undefined, adminUserId);
+
     const userProfile = await userProfileService.getUserProfile(userId);
     if (!userProfile) {
-      return false;
+      throw new Error('User not found');
     }
 
-    // Admin can manage all clubs
-    if (userProfile.role === 'admin') {
-      return true;
-    }
+    // Change role back to student and clear every club grant in one write
+    await updateDoc(doc(db, 'users', userId), { role: 'student', managedClubIds: [], clubRoles: {} });
 
-    // Contributor can manage their assigned clubs
-    if (userProfile.role === 'contributor') {
-      return userProfile.managedClubIds?.includes(clubId) || false;
-    }
-
-    return false;
+    console.log(`User ${userProfile.name} has been revoked from all contributor roles`);
+    await notificationService.notifyUsers([userId], {
+      type: 'access-revoked',
+      message: 'Your contributor access to all clubs has been revoked.',
+    });
+    return true;
   } catch (error) {
-    console.error('Error checking club management permission:', error);
+    console.error('Error revoking all contributor access:', error);
     return false;
   }
 };
@@ -203,11 +207,8 @@ export const canUserManageClub = async (userId: string, clubId: string): Promise
  */
 export const addClubMember = async (clubId: string, memberData: { name: string; position: string; imageUrl?: string }, adminUserId: string): Promise<boolean> => {
   try {
-    // Check if user has permission to manage this club
-    const hasPermission = await canUserManageClub(adminUserId, clubId);
-    if (!hasPermission) {
-      throw new Error('Insufficient permissions to manage this club');
-    }
+    // Check if user has permission to manage this club's team
+    await permissionService.authorize('manage-club-team', clubId, adminUserId);
 
     const clubRef = doc(db, 'clubs', clubId);
     const clubDoc = await getDoc(clubRef);
@@ -256,11 +257,8 @@ export const addClubMember = async (clubId: string, memberData: { name: string;
  */
 export const removeClubMember = async (clubId: string, memberId: string, adminUserId: string): Promise<boolean> => {
   try {
-    // Check if user has permission to manage this club
-    const hasPermission = await canUserManageClub(adminUserId, clubId);
-    if (!hasPermission) {
-      throw new Error('Insufficient permissions to manage this club');
-    }
+    // Check if user has permission to manage this club's team
+    await permissionService.authorize('manage-club-team', clubId, adminUserId);
 
     const clubRef = doc(db, 'clubs', clubId);
     const clubDoc = await getDoc(clubRef);
@@ -306,12 +304,8 @@ export const removeClubMember = async (clubId: string, memberId: string, adminUs
  */
 export const updateClubMember = async (clubId: string, memberId: string, memberData: { name?: string; position?: string; imageUrl?: string }, adminUserId: string): Promise<boolean> => {
   try {
-    // Check if user has permission to manage this club
-    const hasPermission = await canUserManageClub(adminUserId, clubId);
-    // console.log(hasPermission, adminUserId, clubId);
-    if (!hasPermission) {
-      throw new Error('Insufficient permissions to manage this club');
-    }
+    // Check if user has permission to manage this club's team
+    await permissionService.authorize('manage-club-team', clubId, adminUserId);
 
     const clubRef = doc(db, 'clubs', clubId);
     const clubDoc = await getDoc(clubRef);
@@ -382,11 +376,7 @@ export const createClub = async (
   assignedAdminId: string,
   requesterId: string
 ): Promise<Club> => {
-  // Only admins can create clubs
-  const requester = await userProfileService.getUserProfile(requesterId);
-  if (!requester || requester.role !== 'admin') {
-    throw new Error('Only admins can create clubs');
-  }
+  await permissionService.authorize('create-club', undefined, requesterId);
 
   // Create the club document
   const defaultClub: Omit<Club, 'id'> = {
@@ -417,5 +407,6 @@ export const createClub = async (
     managedClubIds: updatedManagedClubIds
   });
 
+
   return createdClub;
 };
@@ -0,0 +1,183 @@
+// Attendance summaries per event and the cross-event aggregates the analytics dashboard charts
+import { AttendanceBreakdown, Event, EventAttendanceSummary, EventCategory, User } from '../types';
+import { EventRegistration } from './registrationRecords';
+import { getEventSchedule } from './eventSchedule';
+
+export type AttendanceProfile = Pick<User, 'branch' | 'year'>;
+
+/**
+ * Academic-year semester an event falls in: July–December is the odd semester,
+ * January–June the even one of the year that started the previous July
+ */
+export const getSemesterLabel = (iso: string): string => {
+  const date = new Date(iso);
+  const month = date.getMonth();
+  const startYear = month >= 6 ? date.getFullYear() : date.getFullYear() - 1;
+  const endYear = String((startYear + 1) % 100).padStart(2, '0');
+  return `AY ${startYear}-${endYear} ${month >= 6 ? 'Odd' : 'Even'}`;
+};
+
+// Chronological order for labels from getSemesterLabel
+export const compareSemesters = (a: string, b: string): number => {
+  const key = (label: string) => {
+    const match = label.match(/^AY (\d{4})-\d{2} (Odd|Even)$/);
+    return match ? Number(match[1]) * 2 + (match[2] === 'Even' ? 1 : 0) : 0;
+  };
+  return key(a) - key(b);
+};
+
+const isCheckedIn = (registration: EventRegistration) => registration.checkInStatus === 'checked_in';
+
+const tally = (
+  breakdown: Record<string, AttendanceBreakdown>,
+  label: string | undefined,
+  attended: boolean
+) => {
+  const key = label?.trim() || 'Unknown';
+  const entry = breakdown[key] || (breakdown[key] = { registered: 0, attended: 0 });
+  entry.registered += 1;
+  if (attended) entry.attended += 1;
+};
+
+/**
+ * Pre-aggregate one event's registrations. Returns null for events without a readable date,
+ * since they cannot be placed in a semester.
+ * @param profiles - Branch and year by user ID, for registrations made before these were stored on the registration
+ */
+export const summarizeEventAttendance = (
+  event: Event,
+  registrations: EventRegistration[],
+  profiles: Map<string, AttendanceProfile> = new Map()
+): EventAttendanceSummary | null => {
+  const schedule = getEventSchedule(event);
+  if (!schedule) return null;
+
+  const confirmed = registrations.filter(registration => registration.status === 'confirmed');
+  const guests = confirmed.filter(registration => registration.isGuest);
+  const byBranch: Record<string, AttendanceBreakdown> = {};
+  const byYear: Record<string, AttendanceBreakdown> = {};
+  confirmed.forEach(registration => {
+    const profile = profiles.get(registration.userId);
+    tally(byBranch, registration.userBranch || profile?.branch, isCheckedIn(registration));
+    tally(byYear, registration.userYear || profile?.year, isCheckedIn(registration));
+  });
+
+  return {
+    eventId: event.id,
+    clubId: event.organizerClubId,
+    eventName: event.name,
+    category: event.category,
+    startsAt: schedule.start,
+    semester: getSemesterLabel(schedule.start),
+    registered: confirmed.length,
+    attended: confirmed.filter(isCheckedIn).length,
+    guestRegistered: guests.length,
+    guestAttended: guests.filter(isCheckedIn).length,
+    byBranch,
+    byYear,
+    attendeeIds: Array.from(new Set(
+      confirmed.filter(registration => !registration.isGuest && isCheckedIn(registration)).map(registration => registration.userId)
+    )),
+    updatedAt: new Date().toISOString(),
+  };
+};
+
+export interface AnalyticsFilters {
+  clubId?: string;
+  category?: EventCategory;
+  fromSemester?: string;
+  toSemester?: string;
+}
+
+export const filterSummaries = (summaries: EventAttendanceSummary[], filters: AnalyticsFilters): EventAttendanceSummary[] =>
+  summaries.filter(summary =>
+    (!filters.clubId || summary.clubId === filters.clubId) &&
+    (!filters.category || summary.category === filters.category) &&
+    (!filters.fromSemester || compareSemesters(summary.semester, filters.fromSemester) >= 0) &&
+    (!filters.toSemester || compareSemesters(summary.semester, filters.toSemester) <= 0)
+  );
+
+// Share of confirmed registrants who never checked in, as a percentage with one decimal
+export const noShowRate = ({ registered, attended }: AttendanceBreakdown): number =>
+  registered ? Math.round(((registered - attended) / registered) * 1000) / 10 : 0;
+
+export interface AttendanceTotals {
+  events: number;
+  registered: number;
+  attended: number;
+  noShowRate: number;
+  guest: AttendanceBreakdown;
+  internal: AttendanceBreakdown;
+}
+
+export const getAttendanceTotals = (summaries: EventAttendanceSummary[]): AttendanceTotals => {
+  const sum = (value: (summary: EventAttendanceSummary) => number) =>
+    summaries.reduce((total, summary) => total + value(summary), 0);
+  const registered = sum(s => s.registered);
+  const attended = sum(s => s.attended);
+  const guest = { registered: sum(s => s.guestRegistered), attended: sum(s => s.guestAttended) };
+  return {
+    events: summaries.length,
+    registered,
+    attended,
+    noShowRate: noShowRate({ registered, attended }),
+    guest,
+    internal: { registered: registered - guest.registered, attended: attended - guest.attended },
+  };
+};
+
+// Branch or year counts added up across events
+export const mergeBreakdowns = (
+  summaries: EventAttendanceSummary[],
+  key: 'byBranch' | 'byYear'
+): Record<string, AttendanceBreakdown> =>
+  summaries.reduce<Record<string, AttendanceBreakdown>>((merged, summary) => {
+    Object.keys(summary[key] || {}).forEach(label => {
+      const entry = merged[label] || (merged[label] = { registered: 0, attended: 0 });
+      entry.registered += summary[key][label].registered;
+      entry.attended += summary[key][label].attended;
+    });
+    return merged;
+  }, {});
+
+export interface RepeatAttendance {
+  uniqueAttendees: number;
+  repeatAttendees: number; // Checked in at two or more of the events
+  distribution: { events: string; attendees: number }[]; // How many people attended 1, 2, 3 or 4+ events
+}
+
+// Only internal users are counted; guest sessions can't be matched across events
+export const getRepeatAttendance = (summaries: EventAttendanceSummary[]): RepeatAttendance => {
+  const counts = new Map<string, number>();
+  summaries.forEach(summary =>
+    (summary.attendeeIds || []).forEach(id => counts.set(id, (counts.get(id) || 0) + 1))
+  );
+  const buckets = ['1', '2', '3', '4+'];
+  const distribution = buckets.map(events => ({ events, attendees: 0 }));
+  counts.forEach(count => { distribution[Math.min(count, 4) - 1].attendees += 1; });
+  return {
+    uniqueAttendees: counts.size,
+    repeatAttendees: counts.size - distribution[0].attendees,
+    distribution,
+  };
+};
+
+export interface SemesterTrend {
+  semester: string;
+  events: number;
+  registered: number;
+  attended: number;
+  noShowRate: number;
+}
+
+// Per-semester totals in chronological order
+export const getSemesterTrends = (summaries: EventAttendanceSummary[]): SemesterTrend[] => {
+  const bySemester = new Map<string, EventAttendanceSummary[]>();
+  summaries.forEach(summary => bySemester.set(summary.semester, [...(bySemester.get(summary.semester) || []), summary]));
+  return Array.from(bySemester.keys())
+    .sort(compareSemesters)
+    .map(semester => {
+      const totals = getAttendanceTotals(bySemester.get(semester)!);
+      return { semester, events: totals.events, registered: totals.registered, attended: totals.attended, noShowRate: totals.noShowRate };
+    });
+};
@@ -0,0 +1,60 @@
+// Audit trail entries, shared by the audit log viewer and the Cloud Functions that write them
+
+export const AUDIT_ACTIONS = [
+  'role.admin-granted',
+  'role.contributor-assigned',
+  'role.contributor-revoked',
+  'role.all-access-revoked',
+  'role.club-role-changed',
+  'club.created',
+  'club.updated',
+  'club.member-added',
+  'club.member-removed',
+  'club.member-updated',
+  'application.accepted',
+  'application.rejected',
+  'application.stage-changed',
+  'application.interview-scheduled',
+  'recruitment-drive.created',
+  'recruitment-drive.closed',
+  'registration.status-changed',
+  'registration.deleted',
+  'payment-config.created',
+  'payment-config.updated',
+  'payment-config.deleted',
+  'payment-account.saved',
+  'payment-account.deactivated',
+  'payment-account.credentials-migrated',
+  'refund.issued',
+  'coupon.saved',
+  'coupon.deactivated',
+  'judging.judges-assigned',
+  'judging.results-published',
+  'certificate.issued',
+  'guest-data.purged',
+] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+export type AuditTargetType = 'user' | 'club' | 'application' | 'registration' | 'payment-config' | 'payment-account' | 'payment' | 'coupon' | 'event' | 'recruitment-drive' | 'guest-data';
+
+// Credentials and ticket material never belong in the trail
+const REDACTED_FIELDS = ['saltKey', 'saltIndex', 'bankAccountNumber', 'panNumber', 'account_number', 'ticketSecret', 'qrCode', 'password', 'keySecret', 'clientSecret'];
+
+// Reduce a snapshot to plain JSON; Firestore timestamps become ISO strings and sentinels are dropped
+export const toAuditValue = (value: any): any => {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value.toDate === 'function') return value.toDate().toISOString();
+  if (Array.isArray(value)) return value.map(toAuditValue);
+  if (typeof value === 'object') {
+    if (Object.getPrototypeOf(value) !== Object.prototype) return null;
+    const result: Record<string, any> = {};
+    Object.keys(value).forEach(key => {
+      if (REDACTED_FIELDS.includes(key) || value[key] === undefined) return;
+      result[key] = toAuditValue(value[key]);
+    });
+    return result;
+  }
+  return value;
+};
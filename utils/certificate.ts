@@ -0,0 +1,153 @@
+// Certificate templates, verification ids and PDF rendering
+import { jsPDF } from 'jspdf';
+import QRCode from 'qrcode';
+import { Certificate, CertificateKind, CertificateTemplate } from '../types';
+
+// A4 landscape, in millimetres
+const PAGE_WIDTH = 297;
+const PAGE_HEIGHT = 210;
+
+// No 0/O or 1/I so ids can be read back over the phone
+const ID_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const CERTIFICATE_PLACEHOLDERS = ['{name}', '{event}', '{date}', '{club}', '{position}', '{certId}'];
+
+export const CERTIFICATE_KIND_LABELS: Record<CertificateKind, string> = {
+  participation: 'Participation',
+  winner: 'Winner',
+};
+
+/**
+ * Generate an unguessable verification id, e.g. 'K7QM-2XPD-H9RT'
+ */
+export const generateCertificateId = (): string => {
+  const bytes = new Uint8Array(12);
+  crypto.getRandomValues(bytes);
+  const chars = Array.from(bytes, byte => ID_ALPHABET[byte % ID_ALPHABET.length]).join('');
+  return `${chars.slice(0, 4)}-${chars.slice(4, 8)}-${chars.slice(8, 12)}`;
+};
+
+// The app uses hash routing, so deep links need the #/ prefix
+export const getCertificateVerifyUrl = (certId: string): string =>
+  `${window.location.origin}${window.location.pathname}#/verify/${certId}`;
+
+export const getDefaultCertificateTemplate = (clubId: string): CertificateTemplate => ({
+  clubId,
+  texts: [
+    { id: 'title', text: 'CERTIFICATE', x: 50, y: 24, fontSize: 36, color: '#312e81', bold: true, align: 'center' },
+    { id: 'subtitle-participation', text: 'OF PARTICIPATION', x: 50, y: 33, fontSize: 16, color: '#4f46e5', align: 'center', kinds: ['participation'] },
+    { id: 'subtitle-winner', text: 'OF ACHIEVEMENT', x: 50, y: 33, fontSize: 16, color: '#4f46e5', align: 'center', kinds: ['winner'] },
+    { id: 'intro', text: 'This is to certify that', x: 50, y: 46, fontSize: 14, color: '#334155', align: 'center' },
+    { id: 'name', text: '{name}', x: 50, y: 58, fontSize: 30, color: '#0f172a', bold: true, align: 'center' },
+    { id: 'body-participation', text: 'participated in {event}, organized by {club} on {date}.', x: 50, y: 69, fontSize: 14, color: '#334155', align: 'center', kinds: ['participation'] },
+    { id: 'body-winner', text: 'secured {position} in {event}, organized by {club} on {date}.', x: 50, y: 69, fontSize: 14, color: '#334155', align: 'center', kinds: ['winner'] },
+  ],
+  signatures: [],
+  updatedAt: new Date().toISOString(),
+});
+
+export const fillCertificateText = (text: string, certificate: Certificate): string =>
+  text
+    .replace(/\{name\}/g, certificate.recipientName)
+    .replace(/\{event\}/g, certificate.eventName)
+    .replace(/\{date\}/g, certificate.eventDate)
+    .replace(/\{club\}/g, certificate.clubName)
+    .replace(/\{position\}/g, certificate.position || '')
+    .replace(/\{certId\}/g, certificate.id);
+
+const loadImage = (url: string): Promise<HTMLImageElement | null> =>
+  new Promise(resolve => {
+    const image = new Image();
+    // Storage downloads must be CORS-enabled or the canvas jsPDF draws through is tainted
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => {
+      console.warn('Could not load certificate image:', url);
+      resolve(null);
+    };
+    image.src = url;
+  });
+
+const drawCertificate = async (pdf: jsPDF, certificate: Certificate, images: Map<string, HTMLImageElement | null>) => {
+  const { template } = certificate;
+  const background = template.backgroundUrl ? images.get(template.backgroundUrl) : null;
+  if (background) {
+    pdf.addImage(background, 'JPEG', 0, 0, PAGE_WIDTH, PAGE_HEIGHT);
+  } else {
+    // Plain double frame when the club has no artwork
+    pdf.setDrawColor('#4f46e5');
+    pdf.setLineWidth(1.5);
+    pdf.rect(8, 8, PAGE_WIDTH - 16, PAGE_HEIGHT - 16);
+    pdf.setLineWidth(0.4);
+    pdf.rect(12, 12, PAGE_WIDTH - 24, PAGE_HEIGHT - 24);
+  }
+
+  template.texts
+    .filter(block => !block.kinds?.length || block.kinds.includes(certificate.kind))
+    .forEach(block => {
+      pdf.setFont('helvetica', block.bold ? 'bold' : 'normal');
+      pdf.setFontSize(block.fontSize);
+      pdf.setTextColor(block.color);
+      const lines = pdf.splitTextToSize(fillCertificateText(block.text, certificate), PAGE_WIDTH * 0.8);
+      pdf.text(lines, (block.x / 100) * PAGE_WIDTH, (block.y / 100) * PAGE_HEIGHT, { align: block.align });
+    });
+
+  template.signatures.forEach(signature => {
+    const x = (signature.x / 100) * PAGE_WIDTH;
+    const y = (signature.y / 100) * PAGE_HEIGHT;
+    const image = signature.imageUrl ? images.get(signature.imageUrl) : null;
+    if (image) {
+      const height = 16;
+      const width = Math.min((image.width / image.height) * height, 60);
+      pdf.addImage(image, 'PNG', x - width / 2, y - height - 1, width, height);
+    }
+    pdf.setDrawColor('#334155');
+    pdf.setLineWidth(0.3);
+    pdf.line(x - 30, y, x + 30, y);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(11);
+    pdf.setTextColor('#0f172a');
+    pdf.text(signature.name, x, y + 5, { align: 'center' });
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(9);
+    pdf.setTextColor('#475569');
+    pdf.text(signature.title, x, y + 9.5, { align: 'center' });
+  });
+
+  // Every certificate carries its verification id and a QR code to the public check
+  const verifyUrl = getCertificateVerifyUrl(certificate.id);
+  const qr = await QRCode.toDataURL(verifyUrl, { margin: 0, width: 240, errorCorrectionLevel: 'M' });
+  pdf.addImage(qr, 'PNG', PAGE_WIDTH - 40, PAGE_HEIGHT - 42, 22, 22);
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(8);
+  pdf.setTextColor('#475569');
+  pdf.text(`Certificate ID: ${certificate.id}`, PAGE_WIDTH - 29, PAGE_HEIGHT - 16, { align: 'center' });
+};
+
+/**
+ * Render certificates into one PDF, one A4 landscape page each
+ * @param certificates - Issued certificates; each is drawn from its own template snapshot
+ */
+export const renderCertificatesPdf = async (certificates: Certificate[]): Promise<jsPDF> => {
+  const pdf = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4' });
+
+  // Load each distinct image once for the whole batch
+  const urls = new Set<string>();
+  certificates.forEach(certificate => {
+    if (certificate.template.backgroundUrl) urls.add(certificate.template.backgroundUrl);
+    certificate.template.signatures.forEach(signature => signature.imageUrl && urls.add(signature.imageUrl));
+  });
+  const images = new Map<string, HTMLImageElement | null>();
+  await Promise.all(Array.from(urls).map(async url => images.set(url, await loadImage(url))));
+
+  for (let i = 0; i < certificates.length; i++) {
+    if (i > 0) pdf.addPage();
+    await drawCertificate(pdf, certificates[i], images);
+  }
+  return pdf;
+};
+
+export const downloadCertificatesPdf = async (certificates: Certificate[], fileName: string): Promise<void> => {
+  const pdf = await renderCertificatesPdf(certificates);
+  pdf.save(fileName.endsWith('.pdf') ? fileName : `${fileName}.pdf`);
+};
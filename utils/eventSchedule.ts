@@ -0,0 +1,197 @@
+// Structured event schedules: time-zone aware conversion, legacy string parsing, status and ordering
+import { Event, EventSchedule, EventSession, EventStatus } from '../types';
+
+// Events without an explicit zone are held on campus
+export const DEFAULT_EVENT_TIME_ZONE = 'Asia/Kolkata';
+
+export const EVENT_TIME_ZONES = [
+  'Asia/Kolkata',
+  'Asia/Dubai',
+  'Asia/Singapore',
+  'Europe/London',
+  'Europe/Berlin',
+  'America/New_York',
+  'America/Los_Angeles',
+  'UTC',
+];
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Milliseconds the zone is ahead of UTC at the given instant
+const getZoneOffset = (instant: Date, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - (instant.getTime() - instant.getMilliseconds());
+};
+
+/**
+ * Convert a wall-clock date and time in a time zone to an ISO instant
+ * @param date - Calendar date as yyyy-mm-dd
+ * @param time - Wall-clock time as HH:mm
+ * @param timeZone - IANA time zone the wall clock belongs to
+ */
+export const zonedTimeToIso = (date: string, time: string, timeZone: string = DEFAULT_EVENT_TIME_ZONE): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+  const offset = getZoneOffset(new Date(wallClock), timeZone);
+  let instant = wallClock - offset;
+  // A DST change between the guess and the answer needs a second pass
+  const correctedOffset = getZoneOffset(new Date(instant), timeZone);
+  if (correctedOffset !== offset) instant = wallClock - correctedOffset;
+  return new Date(instant).toISOString();
+};
+
+// Split an ISO instant into the wall-clock date and time seen in a time zone
+export const isoToZonedParts = (iso: string, timeZone: string = DEFAULT_EVENT_TIME_ZONE): { date: string; time: string } => {
+  const instant = new Date(iso);
+  const shifted = new Date(instant.getTime() + getZoneOffset(instant, timeZone));
+  return {
+    date: `${shifted.getUTCFullYear()}-${pad(shifted.getUTCMonth() + 1)}-${pad(shifted.getUTCDate())}`,
+    time: `${pad(shifted.getUTCHours())}:${pad(shifted.getUTCMinutes())}`,
+  };
+};
+
+// Calendar days named by a legacy date string: "2024-10-26", "October 26, 2024" or "December 5-6, 2024"
+const parseLegacyDays = (value: string): { first: string; last: string } | null => {
+  const trimmed = value.trim();
+  const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) {
+    const day = `${iso[1]}-${iso[2]}-${iso[3]}`;
+    return { first: day, last: day };
+  }
+
+  const named = trimmed.match(/^([a-z]+)\.?\s+(\d{1,2})(?:\s*[-–]\s*(\d{1,2}))?,?\s+(\d{4})$/i);
+  const monthIndex = named ? MONTHS.findIndex(month => month.startsWith(named[1].toLowerCase().slice(0, 3))) : -1;
+  if (named && monthIndex >= 0) {
+    const prefix = `${named[4]}-${pad(monthIndex + 1)}`;
+    return { first: `${prefix}-${pad(Number(named[2]))}`, last: `${prefix}-${pad(Number(named[3] || named[2]))}` };
+  }
+
+  const fallback = new Date(trimmed);
+  if (isNaN(fallback.getTime())) return null;
+  const day = `${fallback.getFullYear()}-${pad(fallback.getMonth() + 1)}-${pad(fallback.getDate())}`;
+  return { first: day, last: day };
+};
+
+// Clock times mentioned in a legacy time string: "9:00 AM - 5:00 PM", "6:00 PM onwards", "14:30"
+const parseLegacyTimes = (value: string): string[] => {
+  const matches = Array.from(value.matchAll(/\b(\d{1,2})(?::(\d{2}))?\s*(am|pm)\b|\b(\d{1,2}):(\d{2})\b/gi));
+  return matches.slice(0, 2).map(match => {
+    if (match[3]) {
+      const hours = Number(match[1]) % 12 + (match[3].toLowerCase() === 'pm' ? 12 : 0);
+      return `${pad(hours)}:${match[2] || '00'}`;
+    }
+    return `${pad(Number(match[4]))}:${match[5]}`;
+  });
+};
+
+/**
+ * Build a schedule from the free-form date and time strings older events were saved with.
+ * Without a start time the event spans whole days; without an end time it runs to the end of its last day.
+ * @returns The schedule, or null when the date cannot be understood
+ */
+export const parseLegacySchedule = (date?: string, time?: string, timeZone: string = DEFAULT_EVENT_TIME_ZONE): EventSchedule | null => {
+  const days = date ? parseLegacyDays(date) : null;
+  if (!days) return null;
+  const [startTime, endTime] = parseLegacyTimes(time || '');
+  return {
+    start: zonedTimeToIso(days.first, startTime || '00:00', timeZone),
+    end: zonedTimeToIso(days.last, endTime || '23:59', timeZone),
+    timeZone,
+  };
+};
+
+// The event's schedule, falling back to its legacy strings for documents that have not been migrated
+export const getEventSchedule = (event: Pick<Event, 'schedule' | 'date' | 'time'>): EventSchedule | null =>
+  event.schedule || parseLegacySchedule(event.date, event.time);
+
+// Sessions in chronological order; single-session events have none
+export const getEventSessions = (event: Pick<Event, 'schedule'>): EventSession[] =>
+  [...(event.schedule?.sessions || [])].sort((a, b) => a.start.localeCompare(b.start));
+
+// Overall bounds of a schedule, widened to cover every session
+export const normalizeSchedule = (schedule: EventSchedule): EventSchedule => {
+  const sessions = schedule.sessions?.length ? [...schedule.sessions].sort((a, b) => a.start.localeCompare(b.start)) : undefined;
+  if (!sessions) return { start: schedule.start, end: schedule.end, timeZone: schedule.timeZone };
+  const start = [schedule.start, ...sessions.map(s => s.start)].sort()[0];
+  const end = [schedule.end, ...sessions.map(s => s.end)].sort().reverse()[0];
+  return { start, end, timeZone: schedule.timeZone, sessions };
+};
+
+/**
+ * Status of an event at a point in time.
+ * An event an organizer has marked as completed stays in the past even if its schedule has not ended.
+ */
+export const getScheduleStatus = (event: Pick<Event, 'schedule' | 'date' | 'time' | 'status'>, now: Date = new Date()): EventStatus => {
+  if (event.status === EventStatus.Past) return EventStatus.Past;
+  const schedule = getEventSchedule(event);
+  if (!schedule) return event.status || EventStatus.Upcoming;
+  const current = now.toISOString();
+  if (current < schedule.start) return EventStatus.Upcoming;
+  if (current <= schedule.end) return EventStatus.Ongoing;
+  return EventStatus.Past;
+};
+
+// Earliest start first; events without a usable schedule go last
+export const compareEventsByStart = (a: Event, b: Event): number => {
+  const aStart = getEventSchedule(a)?.start;
+  const bStart = getEventSchedule(b)?.start;
+  if (aStart && bStart) return aStart.localeCompare(bStart);
+  return aStart ? -1 : bStart ? 1 : 0;
+};
+
+// Running and upcoming events soonest first, followed by past events most recent first
+export const sortEventsBySchedule = (events: Event[]): Event[] => {
+  const isPast = (event: Event) => getScheduleStatus(event) === EventStatus.Past;
+  const past = events.filter(isPast).sort((a, b) => compareEventsByStart(b, a));
+  const current = events.filter(event => !isPast(event)).sort(compareEventsByStart);
+  return [...current, ...past];
+};
+
+const formatInZone = (iso: string, timeZone: string, options: Intl.DateTimeFormatOptions): string =>
+  new Intl.DateTimeFormat('en-US', { timeZone, ...options }).format(new Date(iso));
+
+const viewerTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// "October 26, 2024" or "December 5, 2024 - December 6, 2024", in the event's time zone
+export const formatScheduleDate = (schedule: EventSchedule): string => {
+  const options: Intl.DateTimeFormatOptions = { month: 'long', day: 'numeric', year: 'numeric' };
+  const start = formatInZone(schedule.start, schedule.timeZone, options);
+  const end = formatInZone(schedule.end, schedule.timeZone, options);
+  return start === end ? start : `${start} - ${end}`;
+};
+
+// "Sat, Oct 26" for one day of a multi-day schedule
+export const formatScheduleDay = (iso: string, timeZone: string): string =>
+  formatInZone(iso, timeZone, { weekday: 'short', month: 'short', day: 'numeric' });
+
+// "9:00 AM - 5:00 PM", with the zone spelled out when it differs from the viewer's
+export const formatScheduleTime = (
+  schedule: Pick<EventSchedule, 'start' | 'end' | 'timeZone'>,
+  showZone: boolean = schedule.timeZone !== viewerTimeZone()
+): string => {
+  const options: Intl.DateTimeFormatOptions = { hour: 'numeric', minute: '2-digit' };
+  const range = `${formatInZone(schedule.start, schedule.timeZone, options)} - ${formatInZone(schedule.end, schedule.timeZone, options)}`;
+  if (!showZone) return range;
+  const zoneName = formatInZone(schedule.start, schedule.timeZone, { timeZoneName: 'short' }).split(' ').pop();
+  return `${range} ${zoneName}`;
+};
+
+// Legacy display strings kept on the document for screens, registrations and tickets that still read them
+export const toLegacyDateTime = (schedule: EventSchedule): { date: string; time: string } => ({
+  date: formatScheduleDate(schedule),
+  time: formatScheduleTime(schedule, schedule.timeZone !== DEFAULT_EVENT_TIME_ZONE),
+});
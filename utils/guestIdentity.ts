@@ -0,0 +1,63 @@
+// Guest identity and data retention. A guest's verified email is their identity: the sign-in
+// function checks the emailed code and signs them in with a custom token whose uid is the guest ID.
+
+// What a guest fills in on the guest sign-in form
+export interface GuestDetails {
+  name: string;
+  email: string;
+  phone: string;
+  college: string;
+  year: string;
+  department: string;
+}
+
+// Guest profiles, registrations and payments are kept this long after the guest's last registration
+export const GUEST_RETENTION_DAYS = 90;
+
+export const normalizeGuestEmail = (email: string): string => email.trim().toLowerCase();
+
+// Custom claim on guest sessions, so rules can tell a guest from a member without reading the profile
+export const GUEST_CLAIM = 'guest';
+
+/**
+ * One ID per email, so a guest registering for several events keeps a single identity.
+ * A hash keeps every address distinct (john.doe and john_doe are different people) and keeps
+ * the address itself out of document paths.
+ */
+export const getGuestId = async (email: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalizeGuestEmail(email)));
+  return `guest_${Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')}`;
+};
+
+export const getGuestExpiry = (from: Date = new Date()): Date =>
+  new Date(from.getTime() + GUEST_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+// Firestore Timestamp, Date or ISO string to milliseconds; null when missing
+export const toMillis = (value: any): number | null => {
+  if (!value) return null;
+  if (typeof value.toMillis === 'function') return value.toMillis();
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : time;
+};
+
+/**
+ * Whether a guest record is past retention. Records saved before expiresAt was stored
+ * fall back to their creation time plus the retention period.
+ */
+export const isGuestRecordExpired = (expiresAt: any, createdAt: any, now: Date = new Date()): boolean => {
+  const expiry = toMillis(expiresAt);
+  if (expiry !== null) return expiry <= now.getTime();
+  const created = toMillis(createdAt);
+  return created !== null && getGuestExpiry(new Date(created)).getTime() <= now.getTime();
+};
+
+// What the daily purge removed, kept at maintenance/guestPurge for the admin console
+export interface GuestPurgeResult {
+  profiles: number;
+  registrations: number;
+  payments: number;
+  paymentIntents: number;
+  notifications: number;
+  invoicesRedacted: number; // Invoices are kept for tax purposes, minus the guest's name and email
+  ranAt: string;
+}
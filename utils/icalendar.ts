@@ -0,0 +1,97 @@
+// RFC 5545 (iCalendar) serialization for events, single-event downloads and subscribable feeds
+import { Event } from '../types';
+import { getEventSchedule, getEventSessions } from './eventSchedule';
+
+const PRODUCT_ID = '-//GCET Events//Campus Events//EN';
+const UID_DOMAIN = 'gcetevents';
+
+export interface CalendarEntry {
+  event: Event;
+  cancelled?: boolean; // Published as STATUS:CANCELLED so subscribed calendars drop it
+  url?: string;
+}
+
+// 20241026T033000Z
+const toICalDate = (iso: string): string => iso.replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Commas, semicolons, backslashes and newlines are structural in TEXT values
+const escapeText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets are folded onto continuation lines that start with a space
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+// UIDs never change for an event (or session), so updates replace the entry instead of duplicating it
+export const getEventUid = (eventId: string, sessionId?: string): string =>
+  `${eventId}${sessionId ? `-${sessionId}` : ''}@${UID_DOMAIN}`;
+
+const buildVEvents = ({ event, cancelled, url }: CalendarEntry, stamp: string): string[] => {
+  const schedule = getEventSchedule(event);
+  if (!schedule) return [];
+
+  // A cancellation is itself a revision, so it must outrank the last published version
+  const sequence = (event.calendarSequence || 0) + (cancelled ? 1 : 0);
+  const sessions = getEventSessions(event);
+  const blocks = sessions.length
+    ? sessions.map(session => ({
+        uid: getEventUid(event.id, session.id),
+        summary: `${event.name}: ${session.title}`,
+        start: session.start,
+        end: session.end,
+        location: session.venue || event.location,
+      }))
+    : [{ uid: getEventUid(event.id), summary: event.name, start: schedule.start, end: schedule.end, location: event.location }];
+
+  return blocks.flatMap(block => [
+    'BEGIN:VEVENT',
+    `UID:${block.uid}`,
+    `SEQUENCE:${sequence}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${toICalDate(block.start)}`,
+    `DTEND:${toICalDate(block.end)}`,
+    `SUMMARY:${escapeText(block.summary)}`,
+    ...(block.location ? [`LOCATION:${escapeText(block.location)}`] : []),
+    ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+    ...(url ? [`URL:${url}`] : []),
+    `CATEGORIES:${escapeText(event.category || 'General')}`,
+    `STATUS:${cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    'END:VEVENT',
+  ]);
+};
+
+/**
+ * Serialize events into an iCalendar document
+ * @param name - Calendar name shown by subscribing clients
+ * @param entries - Events to include, optionally marked as cancelled
+ */
+export const buildCalendar = (name: string, entries: CalendarEntry[]): string => {
+  const stamp = toICalDate(new Date().toISOString());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT6H',
+    'X-PUBLISHED-TTL:PT6H',
+    ...entries.flatMap(entry => buildVEvents(entry, stamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,166 @@
+// Invoices and receipts for paid registrations: numbering, the GST breakdown and the invoice
+// register. Shared with the webhook receivers, which issue an invoice for every confirmed payment,
+// so this file stays free of browser-only code; the PDF layout lives in utils/invoicePdf.ts.
+import type { EventPaymentRecord } from './registrationRecords';
+import { toMillis } from './guestIdentity';
+
+// Clubs registered for GST issue tax invoices; the rest issue plain payment receipts
+export type InvoiceKind = 'tax-invoice' | 'receipt';
+
+export const INVOICE_KIND_LABELS: Record<InvoiceKind, string> = {
+  'tax-invoice': 'Tax Invoice',
+  receipt: 'Payment Receipt',
+};
+
+// Standard GST rate for admission to and registration for events; fees are charged tax-inclusive
+export const GST_RATE = 18;
+
+// The seller, snapshotted from the club's PhonePe account when the invoice is issued.
+// The PAN is kept in the credential vault and never copied here; a GSTIN already contains it.
+export interface InvoiceIssuer {
+  legalName: string;
+  address?: string; // Registered business address, required on tax invoices
+  gstin?: string;
+  email?: string;
+  phone?: string;
+}
+
+export interface InvoiceTaxLine {
+  label: 'CGST' | 'SGST';
+  rate: number; // Percent
+  amount: number; // Rupees
+}
+
+export interface Invoice {
+  id: string; // The registration ID; one invoice per paid registration, stored at invoices/{id}
+  number: string;
+  kind: InvoiceKind;
+  issuedAt: string; // ISO datetime
+  clubId: string;
+  eventId: string;
+  registrationId: string;
+  userId: string;
+  isGuest: boolean;
+  issuer: InvoiceIssuer;
+  billedTo: { name: string; email: string };
+  event: { name: string; date: string; location: string };
+  description: string;
+  amount: number; // Rupees paid, tax included
+  taxableValue: number;
+  taxes: InvoiceTaxLine[]; // Empty on receipts
+  currency: string;
+  provider?: string;
+  paymentId: string;
+  orderId?: string;
+  paymentMethod?: string;
+  paidAt: string; // ISO datetime
+  buyerRedactedAt?: string; // ISO datetime the guest purge removed a guest buyer's details
+}
+
+// Everything but the number, which the receiver takes from the club's series when it saves the invoice
+export type InvoiceDraft = Omit<Invoice, 'number'>;
+
+const roundToPaise = (amount: number) => Math.round(amount * 100) / 100;
+
+// Indian financial years run April to March, e.g. '26-27' for April 2026 to March 2027 (IST)
+export const getFinancialYear = (iso: string): string => {
+  const ist = new Date(new Date(iso).getTime() + 330 * 60 * 1000);
+  const startYear = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+  return `${String(startYear % 100).padStart(2, '0')}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+};
+
+/**
+ * Counter document an invoice is numbered from; each kind is numbered separately every year. Tax
+ * invoices share one series per GSTIN, since clubs registered under the same GSTIN are one supplier
+ * to GST; receipts are numbered per club.
+ */
+export const getInvoiceCounterPath = ({ kind, issuedAt, issuer, clubId }: Pick<InvoiceDraft, 'kind' | 'issuedAt' | 'issuer' | 'clubId'>): string =>
+  kind === 'tax-invoice' && issuer.gstin
+    ? `invoiceCounters/${issuer.gstin}-${getFinancialYear(issuedAt)}`
+    : `clubs/${clubId}/invoiceCounters/RCT-${getFinancialYear(issuedAt)}`;
+
+/**
+ * GST caps invoice numbers at 16 characters. Tax invoices lead with the last four characters of
+ * the GSTIN so each registration's series reads apart, e.g. 1ZK5/26-27/00042; receipts read
+ * RCT/26-27/00042.
+ */
+export const formatInvoiceNumber = ({ kind, issuedAt, issuer }: Pick<InvoiceDraft, 'kind' | 'issuedAt' | 'issuer'>, sequence: number): string =>
+  `${kind === 'tax-invoice' && issuer.gstin ? issuer.gstin.slice(-4) : 'RCT'}/${getFinancialYear(issuedAt)}/${String(sequence).padStart(5, '0')}`;
+
+/**
+ * Split a tax-inclusive amount into its taxable value and GST. Admission to an event is supplied
+ * where the event is held, which is the club's own state, so the tax is always CGST plus SGST.
+ */
+export const getTaxBreakdown = (amount: number, gstin?: string): { taxableValue: number; taxes: InvoiceTaxLine[] } => {
+  if (!gstin) return { taxableValue: amount, taxes: [] };
+  const taxableValue = roundToPaise(amount * 100 / (100 + GST_RATE));
+  const totalTax = roundToPaise(amount - taxableValue);
+  const cgst = roundToPaise(totalTax / 2);
+  return {
+    taxableValue,
+    taxes: [
+      { label: 'CGST', rate: GST_RATE / 2, amount: cgst },
+      { label: 'SGST', rate: GST_RATE / 2, amount: roundToPaise(totalTax - cgst) },
+    ],
+  };
+};
+
+export const buildInvoice = (
+  payment: EventPaymentRecord,
+  context: {
+    registrationId: string;
+    isGuest: boolean;
+    issuer: InvoiceIssuer;
+    event: { name: string; date: string; location: string };
+  },
+  issuedAt: string = new Date().toISOString()
+): InvoiceDraft => {
+  const { taxableValue, taxes } = getTaxBreakdown(payment.amount, context.issuer.gstin);
+  const ticket = payment.pricing
+    ? ` (${payment.pricing.tierName}${payment.pricing.couponCode ? `, coupon ${payment.pricing.couponCode}` : ''})`
+    : '';
+  return {
+    id: context.registrationId,
+    kind: context.issuer.gstin ? 'tax-invoice' : 'receipt',
+    issuedAt,
+    clubId: payment.clubId,
+    eventId: payment.eventId,
+    registrationId: context.registrationId,
+    userId: payment.userId,
+    isGuest: context.isGuest,
+    issuer: context.issuer,
+    billedTo: { name: payment.userName, email: payment.userEmail },
+    event: context.event,
+    description: `Registration for ${context.event.name}${ticket}`,
+    amount: payment.amount,
+    taxableValue,
+    taxes,
+    currency: 'INR',
+    ...(payment.provider ? { provider: payment.provider } : {}),
+    paymentId: payment.paymentId,
+    ...(payment.orderId ? { orderId: payment.orderId } : {}),
+    ...(payment.paymentMethod ? { paymentMethod: payment.paymentMethod } : {}),
+    paidAt: new Date(toMillis(payment.timestamp) ?? Date.parse(issuedAt)).toISOString(),
+  };
+};
+
+// One row per invoice, numbered order, for the treasurer's GST filing
+export const buildInvoiceRegisterRows = (invoices: Invoice[]): Record<string, string | number>[] =>
+  [...invoices]
+    .sort((a, b) => a.issuedAt.localeCompare(b.issuedAt) || a.number.localeCompare(b.number))
+    .map(invoice => {
+      const tax = (label: InvoiceTaxLine['label']) => invoice.taxes.find(line => line.label === label)?.amount || 0;
+      return {
+        'Invoice No.': invoice.number,
+        Type: INVOICE_KIND_LABELS[invoice.kind],
+        Date: invoice.issuedAt.slice(0, 10),
+        Event: invoice.event.name,
+        'Billed To': invoice.billedTo.name,
+        Email: invoice.billedTo.email,
+        'Payment ID': invoice.paymentId,
+        'Taxable Value': invoice.taxableValue,
+        CGST: tax('CGST'),
+        SGST: tax('SGST'),
+        Total: invoice.amount,
+      };
+    });
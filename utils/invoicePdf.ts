@@ -0,0 +1,126 @@
+// A4 portrait PDF layout for invoices and receipts
+import { jsPDF } from 'jspdf';
+import { Invoice, INVOICE_KIND_LABELS } from './invoice';
+
+const PAGE_WIDTH = 210;
+const MARGIN = 18;
+const RIGHT = PAGE_WIDTH - MARGIN;
+
+// The built-in PDF fonts have no rupee sign
+const formatAmount = (amount: number) =>
+  `Rs. ${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+
+const drawInvoice = (pdf: jsPDF, invoice: Invoice) => {
+  const { issuer } = invoice;
+
+  // Header: seller on the left, document title and number on the right
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(15);
+  pdf.setTextColor('#0f172a');
+  pdf.text(issuer.legalName, MARGIN, 24);
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(9);
+  pdf.setTextColor('#475569');
+  // The address takes at most two lines so the block stays above the rule
+  const issuerLines = [
+    ...(issuer.address ? pdf.splitTextToSize(issuer.address, PAGE_WIDTH / 2 - MARGIN).slice(0, 2) : []),
+    issuer.gstin ? `GSTIN: ${issuer.gstin}` : '',
+    [issuer.email, issuer.phone].filter(Boolean).join(' · '),
+  ].filter(Boolean);
+  pdf.text(issuerLines, MARGIN, 30);
+
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(18);
+  pdf.setTextColor('#4f46e5');
+  pdf.text(INVOICE_KIND_LABELS[invoice.kind].toUpperCase(), RIGHT, 24, { align: 'right' });
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(9);
+  pdf.setTextColor('#475569');
+  pdf.text([`No. ${invoice.number}`, `Date: ${formatDate(invoice.issuedAt)}`], RIGHT, 30, { align: 'right' });
+
+  pdf.setDrawColor('#cbd5e1');
+  pdf.setLineWidth(0.3);
+  pdf.line(MARGIN, 46, RIGHT, 46);
+
+  // Buyer and event
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(10);
+  pdf.setTextColor('#0f172a');
+  pdf.text('Billed To', MARGIN, 55);
+  pdf.text('Event', PAGE_WIDTH / 2, 55);
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(9);
+  pdf.setTextColor('#334155');
+  pdf.text([invoice.billedTo.name, invoice.billedTo.email].filter(Boolean), MARGIN, 61);
+  pdf.text(pdf.splitTextToSize([invoice.event.name, invoice.event.date, invoice.event.location].filter(Boolean).join('\n'), RIGHT - PAGE_WIDTH / 2), PAGE_WIDTH / 2, 61);
+
+  // Line item and totals
+  let y = 84;
+  pdf.setFillColor('#f1f5f9');
+  pdf.rect(MARGIN, y - 5, RIGHT - MARGIN, 8, 'F');
+  pdf.setFont('helvetica', 'bold');
+  pdf.setTextColor('#0f172a');
+  pdf.text('Description', MARGIN + 2, y);
+  pdf.text(invoice.taxes.length ? 'Taxable Value' : 'Amount', RIGHT - 2, y, { align: 'right' });
+
+  y += 9;
+  pdf.setFont('helvetica', 'normal');
+  pdf.setTextColor('#334155');
+  const description = pdf.splitTextToSize(invoice.description, RIGHT - MARGIN - 50);
+  pdf.text(description, MARGIN + 2, y);
+  pdf.text(formatAmount(invoice.taxableValue), RIGHT - 2, y, { align: 'right' });
+  y += description.length * 4.5 + 4;
+
+  pdf.line(MARGIN, y, RIGHT, y);
+  y += 7;
+  invoice.taxes.forEach(line => {
+    pdf.text(`${line.label} @ ${line.rate}%`, RIGHT - 50, y);
+    pdf.text(formatAmount(line.amount), RIGHT - 2, y, { align: 'right' });
+    y += 6;
+  });
+  pdf.setFont('helvetica', 'bold');
+  pdf.setTextColor('#0f172a');
+  pdf.text('Total Paid', RIGHT - 50, y);
+  pdf.text(formatAmount(invoice.amount), RIGHT - 2, y, { align: 'right' });
+
+  // Payment reference
+  y += 16;
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(10);
+  pdf.text('Payment', MARGIN, y);
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(9);
+  pdf.setTextColor('#334155');
+  pdf.text([
+    `Payment ID: ${invoice.paymentId}`,
+    invoice.orderId ? `Order ID: ${invoice.orderId}` : '',
+    `Paid on: ${formatDate(invoice.paidAt)}${invoice.provider ? ` via ${invoice.provider}` : ''}${invoice.paymentMethod ? ` (${invoice.paymentMethod})` : ''}`,
+  ].filter(Boolean), MARGIN, y + 6);
+
+  pdf.setFontSize(8);
+  pdf.setTextColor('#94a3b8');
+  pdf.text(
+    invoice.taxes.length
+      ? 'Amounts include GST. This is a computer-generated invoice and needs no signature.'
+      : 'This is a computer-generated receipt and needs no signature.',
+    PAGE_WIDTH / 2, 280, { align: 'center' }
+  );
+};
+
+/**
+ * Render invoices into one PDF, one A4 page each
+ */
+export const renderInvoicesPdf = (invoices: Invoice[]): jsPDF => {
+  const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  invoices.forEach((invoice, i) => {
+    if (i > 0) pdf.addPage();
+    drawInvoice(pdf, invoice);
+  });
+  return pdf;
+};
+
+export const downloadInvoicesPdf = (invoices: Invoice[], fileName: string): void => {
+  renderInvoicesPdf(invoices).save(fileName.endsWith('.pdf') ? fileName : `${fileName}.pdf`);
+};
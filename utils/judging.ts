@@ -0,0 +1,90 @@
+// Rubric scoring, cross-judge normalization and conflict-of-interest checks for judged competitions
+import { JudgeScore, JudgingCriterion, JudgingEntrant, JudgingResult } from '../types';
+
+/**
+ * A judge's weighted score for one entrant, out of 100
+ * @param criteria - The rubric
+ * @param scores - Marks by criterion id; missing criteria count as zero
+ */
+export const weightedScore = (criteria: JudgingCriterion[], scores: Record<string, number>): number => {
+  const totalWeight = criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+  if (totalWeight <= 0) return 0;
+  const weighted = criteria.reduce((sum, criterion) => {
+    const mark = Math.min(Math.max(scores[criterion.id] || 0, 0), criterion.maxScore);
+    return sum + (criterion.maxScore > 0 ? mark / criterion.maxScore : 0) * criterion.weight;
+  }, 0);
+  return (weighted / totalWeight) * 100;
+};
+
+// Problems that stop a rubric from being used for scoring
+export const getRubricProblems = (criteria: JudgingCriterion[]): string[] => {
+  const problems: string[] = [];
+  if (criteria.length === 0) problems.push('Add at least one criterion.');
+  if (criteria.some(criterion => !criterion.name.trim())) problems.push('Every criterion needs a name.');
+  if (criteria.some(criterion => !(criterion.weight > 0))) problems.push('Weights must be greater than zero.');
+  if (criteria.some(criterion => !(criterion.maxScore > 0))) problems.push('Maximum scores must be greater than zero.');
+  return problems;
+};
+
+// A judge may not score an entrant they are part of
+export const hasConflictOfInterest = (judgeId: string, entrant: JudgingEntrant): boolean =>
+  entrant.id === judgeId || entrant.memberIds.includes(judgeId);
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Rank entrants from every judge's submitted scores.
+ * Each judge's scores are converted to z-scores so a strict judge and a generous judge carry equal weight;
+ * entrants are ranked by their mean z-score, with the raw mean breaking ties.
+ * Recused scores, and scores from judges with a conflict, are ignored.
+ */
+export const computeJudgingResults = (
+  criteria: JudgingCriterion[],
+  entrants: JudgingEntrant[],
+  scores: JudgeScore[]
+): JudgingResult[] => {
+  const entrantsById = new Map(entrants.map(entrant => [entrant.id, entrant]));
+  const valid = scores.filter(score => {
+    const entrant = entrantsById.get(score.entrantId);
+    return entrant && !score.recused && !hasConflictOfInterest(score.judgeId, entrant);
+  });
+
+  const totals = valid.map(score => ({ ...score, total: weightedScore(criteria, score.scores) }));
+
+  // Mean and spread of each judge's totals
+  const judgeStats = new Map<string, { mean: number; sd: number }>();
+  Array.from(new Set(totals.map(t => t.judgeId))).forEach(judgeId => {
+    const values = totals.filter(t => t.judgeId === judgeId).map(t => t.total);
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+    judgeStats.set(judgeId, { mean, sd: Math.sqrt(variance) });
+  });
+
+  const results = entrants.map(entrant => {
+    const mine = totals.filter(t => t.entrantId === entrant.id);
+    const zScores = mine.map(t => {
+      const stats = judgeStats.get(t.judgeId)!;
+      // A judge who gave everyone the same mark expresses no preference
+      return stats.sd > 0 ? (t.total - stats.mean) / stats.sd : 0;
+    });
+    const mean = (values: number[]) => values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+    return {
+      entrantId: entrant.id,
+      name: entrant.name,
+      rank: 0,
+      rawScore: round2(mean(mine.map(t => t.total))),
+      normalizedScore: round2(mean(zScores)),
+      judgeCount: mine.length,
+    };
+  });
+
+  const ranked = results
+    .filter(result => result.judgeCount > 0)
+    .sort((a, b) => b.normalizedScore - a.normalizedScore || b.rawScore - a.rawScore || a.name.localeCompare(b.name));
+  // Equal scores share a rank
+  ranked.forEach((result, i) => {
+    const previous = ranked[i - 1];
+    result.rank = previous && previous.normalizedScore === result.normalizedScore && previous.rawScore === result.rawScore ? previous.rank : i + 1;
+  });
+  return [...ranked, ...results.filter(result => result.judgeCount === 0)];
+};
@@ -0,0 +1,100 @@
+// Per-club double-entry ledger for event payments. Entries are posted by the payment webhook
+// receivers and stored at clubs/{clubId}/ledger/{entryId}; every entry's debits equal its credits.
+import type { PaymentProvider } from '../services/paymentGateway';
+
+export type LedgerAccount =
+  | 'gateway-clearing' // Collected by the gateway and not yet settled to the club's bank
+  | 'registration-revenue'
+  | 'refunds-issued'
+  | 'gateway-fees';
+
+export const LEDGER_ACCOUNTS: { id: LedgerAccount; name: string }[] = [
+  { id: 'gateway-clearing', name: 'Gateway clearing' },
+  { id: 'registration-revenue', name: 'Registration revenue' },
+  { id: 'refunds-issued', name: 'Refunds issued' },
+  { id: 'gateway-fees', name: 'Gateway fees' },
+];
+
+export interface LedgerLine {
+  account: LedgerAccount;
+  debit: number; // Rupees
+  credit: number; // Rupees
+}
+
+export type LedgerEntryKind = 'payment' | 'refund';
+
+export interface LedgerEntry {
+  id: string; // {kind}_{provider}_{gateway ID}, so replayed webhooks never post twice
+  kind: LedgerEntryKind;
+  clubId: string;
+  eventId: string;
+  orderId: string;
+  provider: PaymentProvider;
+  paymentId: string;
+  refundId?: string;
+  description: string;
+  lines: LedgerLine[];
+  postedAt: string; // ISO datetime the gateway reported
+  source: string; // Key of the webhook that posted it
+}
+
+export interface LedgerEntryContext {
+  clubId: string;
+  eventId: string;
+  orderId: string;
+  provider: PaymentProvider;
+  paymentId: string;
+  postedAt: string;
+  source: string;
+  eventName?: string;
+}
+
+const toPaise = (amount: number) => Math.round(amount * 100);
+const roundToPaise = (amount: number) => toPaise(amount) / 100;
+
+const debit = (account: LedgerAccount, amount: number): LedgerLine => ({ account, debit: roundToPaise(amount), credit: 0 });
+const credit = (account: LedgerAccount, amount: number): LedgerLine => ({ account, debit: 0, credit: roundToPaise(amount) });
+
+export const isBalanced = (entry: Pick<LedgerEntry, 'lines'>): boolean =>
+  entry.lines.reduce((sum, line) => sum + toPaise(line.debit) - toPaise(line.credit), 0) === 0;
+
+/**
+ * A captured payment: the gateway now holds the money for the club. Any fee the gateway
+ * kept is moved out of clearing so the clearing balance is what the club will be paid.
+ */
+export const buildPaymentEntry = (context: LedgerEntryContext, amount: number, fee = 0): LedgerEntry => ({
+  ...context,
+  id: `payment_${context.provider}_${context.paymentId}`,
+  kind: 'payment',
+  description: `Registration payment${context.eventName ? ` for ${context.eventName}` : ''}`,
+  lines: [
+    debit('gateway-clearing', amount),
+    credit('registration-revenue', amount),
+    ...(fee > 0 ? [debit('gateway-fees', fee), credit('gateway-clearing', fee)] : []),
+  ],
+});
+
+export const buildRefundEntry = (context: LedgerEntryContext, refundId: string, amount: number): LedgerEntry => ({
+  ...context,
+  id: `refund_${context.provider}_${refundId}`,
+  kind: 'refund',
+  refundId,
+  description: `Refund${context.eventName ? ` for ${context.eventName}` : ''}`,
+  lines: [debit('refunds-issued', amount), credit('gateway-clearing', amount)],
+});
+
+// Net balance per account, debits positive
+export const getAccountBalances = (entries: LedgerEntry[]): Record<LedgerAccount, number> => {
+  const paise: Record<LedgerAccount, number> = {
+    'gateway-clearing': 0,
+    'registration-revenue': 0,
+    'refunds-issued': 0,
+    'gateway-fees': 0,
+  };
+  entries.forEach(entry => entry.lines.forEach(line => {
+    paise[line.account] += toPaise(line.debit) - toPaise(line.credit);
+  }));
+  const balances = { ...paise };
+  LEDGER_ACCOUNTS.forEach(({ id }) => { balances[id] = paise[id] / 100; });
+  return balances;
+};
@@ -0,0 +1,539 @@
+// Gateway webhook handling shared with the Cloud Functions receivers (handleRazorpayCallback,
+// handleCashfreeWebhook, handlePhonePeCallback). Webhooks, not the browser, confirm paid
+// registrations: the receivers pass each request to processGatewayWebhook with a Firestore-backed
+// WebhookStore, and recorded webhook payloads can be replayed against an in-memory store.
+// Only Web Crypto and plain data are used here so the same code runs in Node and the browser.
+import type { PaymentProvider } from '../services/paymentGateway';
+import type { EventPaymentRecord } from './registrationRecords';
+import { LedgerEntry, LedgerEntryContext, buildPaymentEntry, buildRefundEntry } from './ledger';
+import { getGuestExpiry } from './guestIdentity';
+import type { PriceQuote } from './pricing';
+import { Invoice, InvoiceDraft, InvoiceIssuer, buildInvoice } from './invoice';
+
+// 'processing' while a webhook receiver holds the claim on a payment for this order
+export type PaymentIntentStatus = 'created' | 'processing' | 'confirmed' | 'failed' | 'amount-mismatch';
+
+/**
+ * What the attendee was registering for when they went to pay, stored at paymentIntents/{orderId}
+ * before checkout opens. The webhook receiver turns it into the registration once the gateway
+ * reports the payment, so closing the browser mid-checkout no longer loses the registration.
+ */
+export interface PaymentIntent {
+  orderId: string;
+  provider: PaymentProvider;
+  clubId: string;
+  eventId: string;
+  userId: string;
+  isGuest: boolean;
+  amount: number; // Rupees expected from the gateway
+  currency: string;
+  accountId?: string; // PhonePe account paid into; its salt key signs the callback
+  registration: Record<string, any>; // Registration fields except status and payment, completed by the receiver
+  pricing?: PriceQuote; // Tier and coupon; the order function overwrites it with the price it charged
+  status: PaymentIntentStatus;
+  seatHeld?: boolean; // A seat is counted on the event for this order until the webhook uses it or the hold lapses
+  seatHoldExpiresAt?: string; // ISO datetime the held seat is given back if the payment hasn't arrived
+  couponReserved?: boolean; // The coupon's use is reserved for this order; given back with the seat if it isn't paid
+  registrationId?: string;
+  paymentId?: string;
+  claimedBy?: string; // Key of the webhook applying the payment
+  failureReason?: string;
+  createdAt: string; // ISO datetime
+  updatedAt?: string; // ISO datetime
+}
+
+export type WebhookEventType = 'payment.paid' | 'payment.failed' | 'refund.processed';
+
+// A gateway notification reduced to what the ledger and registrations need
+export interface PaymentWebhookEvent {
+  key: string; // Unique per notification; a redelivered webhook has the same key
+  provider: PaymentProvider;
+  type: WebhookEventType;
+  orderId: string; // Our order ID, sent to the gateway at order creation
+  paymentId: string;
+  amount: number; // Rupees
+  currency: string;
+  fee?: number; // Rupees kept by the gateway, when it reports one
+  method?: string;
+  refundId?: string;
+  failureReason?: string;
+  occurredAt: string; // ISO datetime
+}
+
+export interface WebhookRequest {
+  rawBody: string; // Exactly as received; signatures are computed over these bytes
+  headers: Record<string, string | undefined>; // Lower-cased header names
+}
+
+export type WebhookOutcome = 'processed' | 'duplicate' | 'ignored' | 'rejected' | 'orphaned' | 'amount-mismatch';
+
+// Written to paymentWebhooks/{key} for every verified notification
+export interface ProcessedWebhook {
+  key: string;
+  provider: PaymentProvider;
+  type: WebhookEventType;
+  orderId: string;
+  paymentId: string;
+  amount: number;
+  outcome: WebhookOutcome | 'processing'; // 'processing' from the claim until the receiver finishes
+  clubId?: string;
+  eventId?: string;
+  registrationId?: string;
+  receivedAt: string; // ISO datetime
+}
+
+// What the claim transaction decided: apply the webhook with the intent as it was read, or skip it
+export interface WebhookClaim {
+  claimed: boolean;
+  intent: PaymentIntent | null; // As read before the claim changed it
+  registrationId?: string; // Of a skipped duplicate, when the payment already registered someone
+}
+
+/**
+ * Persistence used by processGatewayWebhook. The Cloud Functions implement it with the Admin SDK.
+ * A webhook is claimed before anything is written, and every later write is keyed by the order, so
+ * a receiver that fails part way can release its claim and let the gateway's retry finish the job.
+ * createRegistration confirms the attendee into the seat their intent holds, in the same transaction
+ * as the registration is written. Once the hold has lapsed it takes a free seat, or waitlists the
+ * paid attendee rather than overbooking the event.
+ */
+export interface WebhookStore {
+  getIntent(orderId: string): Promise<PaymentIntent | null>;
+  // Razorpay and Cashfree use the platform webhook secret; PhonePe uses the salt key of the intent's account
+  getSigningSecret(provider: PaymentProvider, intent: PaymentIntent | null): Promise<string | null>;
+  // In one transaction: read paymentWebhooks/{key} and the intent, apply resolveWebhookClaim and write what it returns
+  claimWebhook(event: PaymentWebhookEvent): Promise<WebhookClaim>;
+  // Undo a claim whose processing failed: delete the webhook record and put the intent back as it was read
+  releaseClaim(event: PaymentWebhookEvent, intent: PaymentIntent | null): Promise<void>;
+  markProcessed(record: ProcessedWebhook): Promise<void>;
+  // Registration ID is the order ID, so a retried webhook finds the registration it already made
+  createRegistration(intent: PaymentIntent, registration: Record<string, any>): Promise<string>;
+  savePayment(payment: EventPaymentRecord, isGuest: boolean): Promise<void>;
+  postLedgerEntry(entry: LedgerEntry): Promise<void>;
+  // Count one use of the club's coupon per order, turning the use reserved at checkout into a redemption.
+  // Orders whose reservation lapsed are still counted, the money is already taken
+  redeemCoupon(clubId: string, code: string, orderId: string): Promise<void>;
+  // Legal name and GSTIN from the club's PhonePe account, or just the club's name when it has none
+  getInvoiceIssuer(clubId: string): Promise<InvoiceIssuer>;
+  // Number the invoice from the club's series for its kind and financial year and save it, in one transaction;
+  // an invoice already issued for the registration is returned as it is
+  issueInvoice(invoice: InvoiceDraft): Promise<Invoice>;
+  updateIntent(orderId: string, changes: Partial<PaymentIntent>): Promise<void>;
+  // Give the intent's held seat back to the event, promoting the next waitlisted person
+  releaseSeatHold(orderId: string): Promise<void>;
+  // Mark the refund started by the refund function as processed on the payment and its registration;
+  // a refund the payment has no record of is left to reconciliation
+  settleRefund(intent: PaymentIntent, refundId: string): Promise<void>;
+}
+
+export interface WebhookResult {
+  outcome: WebhookOutcome;
+  orderId?: string;
+  registrationId?: string;
+}
+
+// ===== Signatures =====
+
+const encoder = new TextEncoder();
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+const toBase64 = (buffer: ArrayBuffer) => btoa(String.fromCharCode(...Array.from(new Uint8Array(buffer))));
+
+const hmacSha256 = async (secret: string, message: string): Promise<ArrayBuffer> => {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return crypto.subtle.sign('HMAC', key, encoder.encode(message));
+};
+
+// Compare without returning early, so timing doesn't reveal how much of a forged signature matched
+const safeEqual = (a: string, b: string): boolean => {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return difference === 0;
+};
+
+/**
+ * Check a webhook came from the gateway:
+ * Razorpay signs the body with HMAC-SHA256 (hex), Cashfree signs timestamp + body (base64),
+ * and PhonePe sends SHA-256 of the base64 response plus the salt key, followed by ###saltIndex.
+ */
+export const verifyWebhookSignature = async (provider: PaymentProvider, request: WebhookRequest, secret: string): Promise<boolean> => {
+  try {
+    return await checkSignature(provider, request, secret);
+  } catch {
+    // A PhonePe body that isn't JSON can't carry a valid signature
+    return false;
+  }
+};
+
+const checkSignature = async (provider: PaymentProvider, request: WebhookRequest, secret: string): Promise<boolean> => {
+  const { rawBody, headers } = request;
+  switch (provider) {
+    case 'razorpay': {
+      const signature = headers['x-razorpay-signature'];
+      return !!signature && safeEqual(toHex(await hmacSha256(secret, rawBody)), signature);
+    }
+    case 'cashfree': {
+      const signature = headers['x-webhook-signature'];
+      const timestamp = headers['x-webhook-timestamp'];
+      return !!signature && !!timestamp && safeEqual(toBase64(await hmacSha256(secret, timestamp + rawBody)), signature);
+    }
+    case 'phonepe': {
+      const [hash] = (headers['x-verify'] || '').split('###');
+      const response = JSON.parse(rawBody)?.response || '';
+      const expected = toHex(await crypto.subtle.digest('SHA-256', encoder.encode(response + secret)));
+      return !!hash && safeEqual(expected, hash);
+    }
+    default:
+      return false;
+  }
+};
+
+// ===== Payload parsing =====
+
+const fromPaise = (amount: any) => Math.round(Number(amount) || 0) / 100;
+const fromUnixSeconds = (seconds: any) => new Date((Number(seconds) || Date.now() / 1000) * 1000).toISOString();
+
+// Order receipts and notes carry our order ID; the order-creation function sets both
+const parseRazorpay = (body: any, headers: WebhookRequest['headers']): PaymentWebhookEvent | null => {
+  const payment = body.payload?.payment?.entity;
+  if (!payment?.id) return null;
+  const orderId = body.payload?.order?.entity?.receipt || payment.notes?.orderId;
+  if (!orderId) return null;
+  const base = {
+    key: headers['x-razorpay-event-id'] || `${body.event}_${payment.id}`,
+    provider: 'razorpay' as const,
+    orderId,
+    paymentId: payment.id,
+    currency: payment.currency || 'INR',
+    method: payment.method,
+    occurredAt: fromUnixSeconds(body.created_at || payment.created_at),
+  };
+
+  switch (body.event) {
+    case 'order.paid':
+    case 'payment.captured':
+      return {
+        ...base,
+        type: 'payment.paid',
+        amount: fromPaise(payment.amount),
+        ...(payment.fee ? { fee: fromPaise(payment.fee) } : {}),
+      };
+    case 'payment.failed':
+      return { ...base, type: 'payment.failed', amount: fromPaise(payment.amount), failureReason: payment.error_description || payment.error_code };
+    case 'refund.processed': {
+      const refund = body.payload?.refund?.entity;
+      if (!refund) return null;
+      return { ...base, type: 'refund.processed', amount: fromPaise(refund.amount), refundId: refund.notes?.refundId || refund.id };
+    }
+    default:
+      return null;
+  }
+};
+
+const parseCashfree = (body: any): PaymentWebhookEvent | null => {
+  const order = body.data?.order;
+  const payment = body.data?.payment;
+  const refund = body.data?.refund;
+  const orderId = order?.order_id || refund?.order_id;
+  if (!orderId) return null;
+  const base = {
+    provider: 'cashfree' as const,
+    orderId,
+    currency: order?.order_currency || 'INR',
+    occurredAt: new Date(body.event_time || Date.now()).toISOString(),
+  };
+
+  switch (body.type) {
+    case 'PAYMENT_SUCCESS_WEBHOOK':
+      if (!payment?.cf_payment_id) return null;
+      return {
+        ...base,
+        key: `${body.type}_${payment.cf_payment_id}`,
+        type: 'payment.paid',
+        paymentId: String(payment.cf_payment_id),
+        amount: Number(payment.payment_amount) || 0,
+        method: payment.payment_group,
+        ...(body.data.payment_gateway_details?.gateway_fee ? { fee: Number(body.data.payment_gateway_details.gateway_fee) } : {}),
+      };
+    case 'PAYMENT_FAILED_WEBHOOK':
+      if (!payment?.cf_payment_id) return null;
+      return {
+        ...base,
+        key: `${body.type}_${payment.cf_payment_id}`,
+        type: 'payment.failed',
+        paymentId: String(payment.cf_payment_id),
+        amount: Number(payment.payment_amount) || 0,
+        failureReason: body.data.error_details?.error_description,
+      };
+    case 'REFUND_STATUS_WEBHOOK':
+      if (refund?.refund_status !== 'SUCCESS' || !refund.cf_refund_id) return null;
+      return {
+        ...base,
+        key: `${body.type}_${refund.cf_refund_id}`,
+        type: 'refund.processed',
+        paymentId: String(refund.cf_payment_id),
+        amount: Number(refund.refund_amount) || 0,
+        refundId: refund.refund_id,
+      };
+    default:
+      return null;
+  }
+};
+
+// Our refund IDs carry the order they refund, so a PhonePe refund callback can be matched to its order
+export const buildRefundId = (orderId: string, now: number = Date.now()) => `${orderId}-R${now.toString(36)}`;
+
+const orderIdOfRefund = (refundId: string): string | null => refundId.match(/^(.+)-R[0-9a-z]+$/)?.[1] ?? null;
+
+// PhonePe posts { response: base64(JSON) }; merchantTransactionId is our order ID, or our refund ID for refunds
+const parsePhonePe = (body: any): PaymentWebhookEvent | null => {
+  if (!body.response) return null;
+  const decoded = JSON.parse(atob(body.response));
+  const data = decoded.data;
+  if (!data?.merchantTransactionId) return null;
+  const refundOrderId = orderIdOfRefund(data.merchantTransactionId);
+  const base = {
+    key: `${decoded.code}_${data.transactionId || data.merchantTransactionId}`,
+    provider: 'phonepe' as const,
+    orderId: refundOrderId || data.merchantTransactionId,
+    paymentId: data.transactionId || data.merchantTransactionId,
+    amount: fromPaise(data.amount),
+    currency: 'INR',
+    method: data.paymentInstrument?.type,
+    occurredAt: new Date().toISOString(),
+  };
+
+  if (refundOrderId) {
+    return decoded.code === 'PAYMENT_SUCCESS' ? { ...base, type: 'refund.processed', refundId: data.merchantTransactionId } : null;
+  }
+  switch (decoded.code) {
+    case 'PAYMENT_SUCCESS':
+      return { ...base, type: 'payment.paid' };
+    case 'PAYMENT_ERROR':
+    case 'PAYMENT_DECLINED':
+    case 'TIMED_OUT':
+      return { ...base, type: 'payment.failed', failureReason: decoded.message || decoded.code };
+    default:
+      return null;
+  }
+};
+
+// Notifications we don't act on (order.created, pending states, unsuccessful refunds) parse to null.
+// Only call this on a verified request; a body that isn't the JSON we expect throws.
+export const parseGatewayWebhook = (provider: PaymentProvider, request: WebhookRequest): PaymentWebhookEvent | null => {
+  const body = JSON.parse(request.rawBody);
+  switch (provider) {
+    case 'razorpay':
+      return parseRazorpay(body, request.headers);
+    case 'cashfree':
+      return parseCashfree(body);
+    case 'phonepe':
+      return parsePhonePe(body);
+    default:
+      return null;
+  }
+};
+
+/**
+ * PhonePe signs callbacks with the salt key of the account the order was paid into, so the order ID
+ * is read before the signature can be checked. It is only used to look that key up; nothing else in
+ * the body is trusted until the signature matches.
+ */
+export const readUnverifiedOrderId = (provider: PaymentProvider, request: WebhookRequest): string | null => {
+  if (provider !== 'phonepe') return null;
+  try {
+    const orderId = JSON.parse(atob(JSON.parse(request.rawBody).response)).data?.merchantTransactionId;
+    return typeof orderId === 'string' && orderId ? orderIdOfRefund(orderId) || orderId : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Decide a claim from the webhook record and intent read in the claim transaction. A key already
+ * recorded is a redelivery. A payment whose intent another notification has claimed or confirmed is
+ * the same payment reported twice (Razorpay sends order.paid and payment.captured), so only the first
+ * one registers the attendee. `intentChanges` is written to the intent in the same transaction.
+ */
+export const resolveWebhookClaim = (
+  event: PaymentWebhookEvent,
+  alreadyRecorded: boolean,
+  intent: PaymentIntent | null,
+  now: string = new Date().toISOString()
+): { claim: WebhookClaim; intentChanges?: Partial<PaymentIntent> } => {
+  if (alreadyRecorded) return { claim: { claimed: false, intent, registrationId: intent?.registrationId } };
+  if (event.type === 'payment.paid' && (intent?.status === 'processing' || intent?.status === 'confirmed')) {
+    return { claim: { claimed: false, intent, registrationId: intent.registrationId } };
+  }
+  return {
+    claim: { claimed: true, intent },
+    ...(event.type === 'payment.paid' && intent ? { intentChanges: { status: 'processing', claimedBy: event.key, updatedAt: now } } : {}),
+  };
+};
+
+// The paymentWebhooks record written with the claim; markProcessed replaces it with the outcome
+export const buildClaimRecord = (event: PaymentWebhookEvent, intent: PaymentIntent | null, now: string = new Date().toISOString()): ProcessedWebhook => ({
+  key: event.key,
+  provider: event.provider,
+  type: event.type,
+  orderId: event.orderId,
+  paymentId: event.paymentId,
+  amount: event.amount,
+  outcome: 'processing',
+  ...(intent ? { clubId: intent.clubId, eventId: intent.eventId } : {}),
+  receivedAt: now,
+});
+
+// ===== Records built from a confirmed payment =====
+
+export const buildPaidRegistration = (intent: PaymentIntent, event: PaymentWebhookEvent): Record<string, any> => ({
+  ...intent.registration,
+  eventId: intent.eventId,
+  clubId: intent.clubId,
+  userId: intent.userId,
+  isGuest: intent.isGuest,
+  status: 'confirmed',
+  registrationFee: event.amount,
+  paymentStatus: 'paid',
+  paymentId: event.paymentId,
+  checkInStatus: 'not_checked_in',
+  ...(intent.pricing ? { pricing: intent.pricing } : {}),
+  ...(intent.isGuest ? { expiresAt: getGuestExpiry() } : {}),
+});
+
+export const buildPaymentRecord = (intent: PaymentIntent, registrationId: string, event: PaymentWebhookEvent): EventPaymentRecord => ({
+  registrationId,
+  eventId: intent.eventId,
+  clubId: intent.clubId,
+  userId: intent.userId,
+  userName: intent.registration.userName || '',
+  userEmail: intent.registration.userEmail || '',
+  amount: event.amount,
+  paymentId: event.paymentId,
+  orderId: intent.orderId,
+  provider: event.provider,
+  paymentStatus: 'paid',
+  ...(event.method ? { paymentMethod: event.method } : {}),
+  ...(event.fee ? { gatewayFee: event.fee } : {}),
+  timestamp: event.occurredAt,
+  ...(intent.pricing ? { pricing: intent.pricing } : {}),
+  ...(intent.isGuest ? { expiresAt: getGuestExpiry() } : {}),
+});
+
+const ledgerContext = (intent: PaymentIntent, event: PaymentWebhookEvent): LedgerEntryContext => ({
+  clubId: intent.clubId,
+  eventId: intent.eventId,
+  orderId: intent.orderId,
+  provider: event.provider,
+  paymentId: event.paymentId,
+  postedAt: event.occurredAt,
+  source: event.key,
+  ...(intent.registration.eventName ? { eventName: intent.registration.eventName } : {}),
+});
+
+// ===== Receiver =====
+
+/**
+ * Verify, de-duplicate and apply one gateway webhook. Returns 'rejected' for a bad signature or
+ * malformed body (answer 401) and 'orphaned' for a payment with no intent, which reconciliation
+ * flags; every other outcome should be acknowledged with 200 so the gateway stops retrying.
+ * Throws when a write fails after the claim; the claim is released first so the retry can finish.
+ */
+export const processGatewayWebhook = async (
+  provider: PaymentProvider,
+  request: WebhookRequest,
+  store: WebhookStore
+): Promise<WebhookResult> => {
+  const signingOrderId = readUnverifiedOrderId(provider, request);
+  const signingIntent = signingOrderId ? await store.getIntent(signingOrderId) : null;
+  const secret = await store.getSigningSecret(provider, signingIntent);
+  if (!secret || !(await verifyWebhookSignature(provider, request, secret))) return { outcome: 'rejected' };
+
+  let event: PaymentWebhookEvent | null;
+  try {
+    event = parseGatewayWebhook(provider, request);
+  } catch {
+    return { outcome: 'rejected' };
+  }
+  if (!event) return { outcome: 'ignored' };
+
+  const claim = await store.claimWebhook(event);
+  if (!claim.claimed) {
+    return { outcome: 'duplicate', orderId: event.orderId, ...(claim.registrationId ? { registrationId: claim.registrationId } : {}) };
+  }
+  try {
+    return await applyWebhook(event, claim.intent, store);
+  } catch (error) {
+    await store.releaseClaim(event, claim.intent);
+    throw error;
+  }
+};
+
+// Every write below is keyed by the order, payment or webhook, so running it again after a failure repeats nothing
+const applyWebhook = async (event: PaymentWebhookEvent, intent: PaymentIntent | null, store: WebhookStore): Promise<WebhookResult> => {
+  const finish = async (outcome: WebhookOutcome, registrationId?: string): Promise<WebhookResult> => {
+    await store.markProcessed({
+      key: event.key,
+      provider: event.provider,
+      type: event.type,
+      orderId: event.orderId,
+      paymentId: event.paymentId,
+      amount: event.amount,
+      outcome,
+      ...(intent ? { clubId: intent.clubId, eventId: intent.eventId } : {}),
+      ...(registrationId ? { registrationId } : {}),
+      receivedAt: new Date().toISOString(),
+    });
+    return { outcome, orderId: event.orderId, ...(registrationId ? { registrationId } : {}) };
+  };
+
+  if (!intent) return finish('orphaned');
+  const now = new Date().toISOString();
+
+  switch (event.type) {
+    case 'payment.paid': {
+      if (Math.round(event.amount * 100) !== Math.round(intent.amount * 100)) {
+        await store.updateIntent(intent.orderId, {
+          status: 'amount-mismatch',
+          paymentId: event.paymentId,
+          failureReason: `Paid ₹${event.amount}, expected ₹${intent.amount}`,
+          updatedAt: now,
+        });
+        return finish('amount-mismatch');
+      }
+      const registrationId = await store.createRegistration(intent, buildPaidRegistration(intent, event));
+      const payment = buildPaymentRecord(intent, registrationId, event);
+      await store.savePayment(payment, intent.isGuest);
+      await store.postLedgerEntry(buildPaymentEntry(ledgerContext(intent, event), event.amount, event.fee));
+      if (intent.pricing?.couponCode) await store.redeemCoupon(intent.clubId, intent.pricing.couponCode, intent.orderId);
+      await store.issueInvoice(buildInvoice(payment, {
+        registrationId,
+        isGuest: intent.isGuest,
+        issuer: await store.getInvoiceIssuer(intent.clubId),
+        event: {
+          name: intent.registration.eventName || '',
+          date: intent.registration.eventDate || '',
+          location: intent.registration.eventLocation || '',
+        },
+      }));
+      await store.updateIntent(intent.orderId, { status: 'confirmed', registrationId, paymentId: event.paymentId, updatedAt: now });
+      return finish('processed', registrationId);
+    }
+    case 'payment.failed':
+      // A failed attempt followed by a successful retry must not undo the confirmation
+      if (intent.status === 'created') {
+        await store.updateIntent(intent.orderId, { status: 'failed', failureReason: event.failureReason || 'Payment failed', updatedAt: now });
+        if (intent.seatHeld) await store.releaseSeatHold(intent.orderId);
+      }
+      return finish('processed', intent.registrationId);
+    case 'refund.processed':
+      await store.postLedgerEntry(buildRefundEntry(ledgerContext(intent, event), event.refundId || event.key, event.amount));
+      if (event.refundId) await store.settleRefund(intent, event.refundId);
+      return finish('processed', intent.registrationId);
+    default:
+      return finish('ignored');
+  }
+};
@@ -0,0 +1,137 @@
+// Central authorization policy shared by the UI, the services and the generated Firestore rules
+import { User, ClubRole, AnnualEvent, Event } from '../types';
+
+export type Capability =
+  // Platform-wide
+  | 'create-club'
+  | 'manage-contributors'
+  | 'view-admin-console'
+  | 'view-audit-log'
+  | 'view-analytics'
+  | 'purge-guest-data'
+  | 'reconcile-payments'
+  | 'manage-fest-competitions'
+  | 'register-for-event'
+  | 'apply-to-club'
+  // Scoped to a single club
+  | 'manage-club-profile'
+  | 'manage-club-team'
+  | 'create-event'
+  | 'edit-event'
+  | 'manage-event-highlights'
+  | 'manage-fixtures'
+  | 'manage-judging'
+  | 'issue-certificates'
+  | 'manage-payments'
+  | 'issue-refunds'
+  | 'review-applications'
+  | 'export-registrations'
+  | 'check-in-attendees';
+
+/**
+ * Roles the policy knows about.
+ * admin, student and guest come from `user.role`; contributor is granted per club through
+ * `managedClubIds`, and club-lead / coordinator through `clubRoles`.
+ */
+export type PolicyRole = 'admin' | 'contributor' | 'club-lead' | 'coordinator' | 'student' | 'guest';
+
+export interface CapabilityRule {
+  scope: 'global' | 'club';
+  roles: PolicyRole[];
+  description: string;
+}
+
+export const PERMISSION_POLICY: Record<Capability, CapabilityRule> = {
+  'create-club': { scope: 'global', roles: ['admin'], description: 'Create new clubs' },
+  'manage-contributors': { scope: 'global', roles: ['admin'], description: 'Grant and revoke contributor access' },
+  'view-admin-console': { scope: 'global', roles: ['admin'], description: 'Open the platform admin console' },
+  'view-audit-log': { scope: 'global', roles: ['admin'], description: 'View the audit log of privileged actions' },
+  'view-analytics': { scope: 'global', roles: ['admin'], description: 'View attendance analytics across clubs and events' },
+  'purge-guest-data': { scope: 'global', roles: ['admin'], description: 'Delete guest data past its retention period' },
+  'reconcile-payments': { scope: 'global', roles: ['admin'], description: 'Reconcile payments against registrations and the club ledgers' },
+  'manage-fest-competitions': { scope: 'global', roles: ['admin'], description: 'Manage annual fest competitions, rosters and results' },
+  'register-for-event': { scope: 'global', roles: ['admin', 'contributor', 'student', 'guest'], description: 'Register for events' },
+  'apply-to-club': { scope: 'global', roles: ['contributor', 'student'], description: 'Apply to join a club' },
+
+  'manage-club-profile': { scope: 'club', roles: ['admin', 'club-lead', 'contributor'], description: 'Edit club details and images' },
+  'manage-club-team': { scope: 'club', roles: ['admin', 'club-lead'], description: 'Add, remove and edit club team members' },
+  'create-event': { scope: 'club', roles: ['admin', 'club-lead', 'contributor'], description: 'Create events for the club' },
+  'edit-event': { scope: 'club', roles: ['admin', 'club-lead', 'contributor'], description: "Edit the club's events" },
+  'manage-event-highlights': { scope: 'club', roles: ['admin', 'club-lead', 'contributor', 'coordinator'], description: 'Post winners and highlights' },
+  'manage-fixtures': { scope: 'club', roles: ['admin', 'club-lead', 'contributor', 'coordinator'], description: 'Run fixtures and record match scores' },
+  'manage-judging': { scope: 'club', roles: ['admin', 'club-lead', 'contributor'], description: 'Set judging rubrics, assign judges and publish results' },
+  'issue-certificates': { scope: 'club', roles: ['admin', 'club-lead', 'contributor'], description: 'Design certificate templates and issue certificates' },
+  'manage-payments': { scope: 'club', roles: ['admin', 'club-lead'], description: 'Configure fees, gateways and payout details' },
+  'issue-refunds': { scope: 'club', roles: ['admin', 'club-lead'], description: 'Refund paid registrations' },
+  'review-applications': { scope: 'club', roles: ['admin', 'club-lead', 'contributor'], description: 'Accept or reject club applications' },
+  'export-registrations': { scope: 'club', roles: ['admin', 'club-lead', 'contributor', 'coordinator'], description: 'View and export event registrations' },
+  'check-in-attendees': { scope: 'club', roles: ['admin', 'club-lead', 'contributor', 'coordinator'], description: 'Check attendees in at the venue' },
+};
+
+export class PermissionError extends Error {
+  constructor(public capability: Capability, public clubId?: string) {
+    super(`You do not have permission to ${PERMISSION_POLICY[capability].description.toLowerCase()}.`);
+    this.name = 'PermissionError';
+  }
+}
+
+// Club roles are granted explicitly by a club lead or admin; a team position is only a title and never carries one
+export const CLUB_ROLE_LABELS: Record<ClubRole, string> = {
+  'club-lead': 'Club Lead',
+  coordinator: 'Coordinator',
+};
+
+// The user's platform-wide role; guest sessions are always treated as guests
+export const getGlobalRole = (user: User): PolicyRole => user.isGuest ? 'guest' : user.role;
+
+// Every role the user holds within a club, including their platform-wide role
+export const getClubRoles = (user: User, clubId: string): PolicyRole[] => {
+  const globalRole = getGlobalRole(user);
+  // A contributor only acts as one in the clubs listed in managedClubIds
+  const roles: PolicyRole[] = globalRole === 'contributor' ? [] : [globalRole];
+  if (user.isGuest) return roles;
+  if (user.managedClubIds?.includes(clubId)) roles.push('contributor');
+  const clubRole = user.clubRoles?.[clubId];
+  if (clubRole) roles.push(clubRole);
+  return roles;
+};
+
+/**
+ * Check whether a user holds a capability
+ * @param user - The acting user, or null when signed out
+ * @param capability - The capability to check
+ * @param clubId - The club the action targets; required for club-scoped capabilities
+ */
+export const can = (user: User | null | undefined, capability: Capability, clubId?: string): boolean => {
+  if (!user) return false;
+  const rule = PERMISSION_POLICY[capability];
+  if (rule.scope === 'global') {
+    return rule.roles.includes(getGlobalRole(user));
+  }
+  // Only admins hold club-scoped capabilities without naming a club
+  if (!clubId) return getGlobalRole(user) === 'admin' && rule.roles.includes('admin');
+  return getClubRoles(user, clubId).some(role => rule.roles.includes(role));
+};
+
+// Throwing variant of `can` for service mutations
+export const assertCan = (user: User | null | undefined, capability: Capability, clubId?: string): void => {
+  if (!can(user, capability, clubId)) {
+    throw new PermissionError(capability, clubId);
+  }
+};
+
+// Clubs in which the user holds any club-scoped role
+export const getManagedClubIds = (user: User | null | undefined): string[] => {
+  if (!user || user.isGuest) return [];
+  return Array.from(new Set([...(user.managedClubIds || []), ...Object.keys(user.clubRoles || {})]));
+};
+
+// Fest coordinators are named on the annual event itself rather than through a club
+export const canManageFest = (user: User | null | undefined, annualEvent: Pick<AnnualEvent, 'coordinatorIds'>): boolean => {
+  if (can(user, 'manage-fest-competitions')) return true;
+  return !!user?.id && !user.isGuest && !!annualEvent.coordinatorIds?.includes(user.id);
+};
+
+// Judges are granted per event, so the grant lives on the event rather than the user
+export const canJudgeEvent = (user: User | null | undefined, event: Pick<Event, 'judgeIds'>): boolean =>
+  !!user?.id && !user.isGuest && !!event.judgeIds?.includes(user.id);
@@ -0,0 +1,190 @@
+// Ticket pricing: tiers, early-bird windows and coupon codes. Shared by the quote and order-creation
+// functions, which decide what an attendee is charged, and the browser, which only previews it.
+
+export type TicketAudience = 'everyone' | 'internal' | 'external' | 'team';
+
+export const TICKET_AUDIENCES: { id: TicketAudience; name: string }[] = [
+  { id: 'everyone', name: 'Everyone' },
+  { id: 'internal', name: 'Internal students' },
+  { id: 'external', name: 'External guests' },
+  { id: 'team', name: 'Team pass' },
+];
+
+export interface TicketTier {
+  id: string;
+  name: string;
+  audience: TicketAudience;
+  price: number; // Rupees
+  earlyBirdPrice?: number; // Rupees, charged until earlyBirdEndsAt
+  earlyBirdEndsAt?: string; // ISO datetime
+  teamSize?: number; // Team passes: how many members one pass covers
+}
+
+export type CouponDiscountType = 'percentage' | 'flat';
+
+export interface Coupon {
+  code: string; // Upper case; also the document ID under clubs/{clubId}/coupons
+  clubId: string;
+  discountType: CouponDiscountType;
+  value: number; // Percent off, or rupees off for flat coupons
+  maxUses?: number; // Unlimited when unset
+  usedCount: number; // Bumped by the webhook receiver for each confirmed payment
+  reservedCount?: number; // Uses held by orders still at checkout; they count against maxUses until paid or released
+  eventIds?: string[]; // Every club event when unset or empty
+  validFrom?: string; // ISO datetime
+  validUntil?: string; // ISO datetime
+  isActive: boolean;
+  createdBy: string;
+  createdAt: string; // ISO datetime
+  updatedAt?: string; // ISO datetime
+}
+
+// What the attendee picked at checkout
+export interface TicketSelection {
+  tierId: string;
+  couponCode?: string;
+}
+
+// The resolved price, recorded on the payment intent, registration and payment record
+export interface PriceQuote {
+  tierId: string;
+  tierName: string;
+  listPrice: number; // The tier's regular price
+  earlyBird: boolean;
+  price: number; // After the early-bird discount
+  couponCode?: string;
+  discount: number; // Rupees taken off by the coupon
+  amount: number; // What the attendee pays
+  teamSize?: number; // Team passes: how many members the pass registers
+}
+
+export interface PricingEvent {
+  id: string;
+  organizerClubId: string;
+  registrationType?: 'individual' | 'team';
+  registrationFee?: number;
+}
+
+// Events priced before tiers existed have a single tier at the configured fee
+export const DEFAULT_TIER_ID = 'standard';
+
+// Gateways refuse zero-value orders, so no coupon takes a paid ticket below this
+export const MIN_TICKET_PRICE = 1;
+
+const roundToPaise = (amount: number) => Math.round(amount * 100) / 100;
+
+export const normalizeCouponCode = (code: string) => code.trim().toUpperCase();
+
+// The pricing fields of an event's payment configuration
+export interface PricingConfig {
+  ticketTiers?: TicketTier[];
+  customFee?: number;
+}
+
+export const getTicketTiers = (event: PricingEvent, config?: PricingConfig | null): TicketTier[] => {
+  if (config?.ticketTiers?.length) return config.ticketTiers;
+  return [{ id: DEFAULT_TIER_ID, name: 'Standard', audience: 'everyone', price: config?.customFee || event.registrationFee || 0 }];
+};
+
+export const isTierAvailable = (tier: TicketTier, event: PricingEvent, buyer: { isGuest: boolean }): boolean => {
+  switch (tier.audience) {
+    case 'internal': return !buyer.isGuest;
+    case 'external': return buyer.isGuest;
+    case 'team': return event.registrationType === 'team';
+    default: return true;
+  }
+};
+
+export const getTierPrice = (tier: TicketTier, now: Date = new Date()): { price: number; earlyBird: boolean } => {
+  const earlyBird = tier.earlyBirdPrice !== undefined && !!tier.earlyBirdEndsAt && now < new Date(tier.earlyBirdEndsAt);
+  return { price: earlyBird ? tier.earlyBirdPrice! : tier.price, earlyBird };
+};
+
+// Whether attendees pay for this event: any tier with a price, not just the legacy registrationFee
+export const isPaidEvent = (event: PricingEvent, config?: PricingConfig | null): boolean =>
+  getTicketTiers(event, config).some(tier => tier.price > 0);
+
+/**
+ * The price line shown on an event: "Free", "₹499", or "From ₹299" when tiers differ.
+ * Early-bird prices count while they last and are marked as such.
+ */
+export const formatTicketPrice = (tiers: TicketTier[], now: Date = new Date()): string => {
+  const prices = tiers.map(tier => getTierPrice(tier, now)).filter(({ price }) => price > 0);
+  if (prices.length === 0) return 'Free';
+  const lowest = Math.min(...prices.map(({ price }) => price));
+  const label = prices.some(({ price }) => price !== lowest) ? `From ₹${lowest}` : `₹${lowest}`;
+  return prices.some(({ price, earlyBird }) => earlyBird && price === lowest) ? `${label} (early bird)` : label;
+};
+
+// Why a coupon can't be used for this event right now, or null when it can
+export const getCouponProblem = (coupon: Coupon | null, event: PricingEvent, now: Date = new Date()): string | null => {
+  if (!coupon || !coupon.isActive) return 'This coupon code is not valid';
+  if (coupon.clubId !== event.organizerClubId) return 'This coupon code is not valid for this event';
+  if (coupon.eventIds?.length && !coupon.eventIds.includes(event.id)) return 'This coupon code is not valid for this event';
+  if (coupon.validFrom && now < new Date(coupon.validFrom)) return 'This coupon code is not active yet';
+  if (coupon.validUntil && now > new Date(coupon.validUntil)) return 'This coupon code has expired';
+  if (coupon.maxUses !== undefined && coupon.usedCount + (coupon.reservedCount || 0) >= coupon.maxUses) {
+    return 'This coupon code has been fully redeemed';
+  }
+  return null;
+};
+
+export const getCouponDiscount = (price: number, coupon: Pick<Coupon, 'discountType' | 'value'>): number => {
+  const discount = coupon.discountType === 'percentage' ? price * Math.min(coupon.value, 100) / 100 : coupon.value;
+  return roundToPaise(Math.max(0, Math.min(discount, price - MIN_TICKET_PRICE)));
+};
+
+/**
+ * Price a ticket for one buyer. Throws with a message fit for the attendee when the tier
+ * doesn't exist or isn't open to them, or the coupon can't be used.
+ * @param coupon The coupon stored under the selection's code, or null when there isn't one
+ */
+export const resolveTicketPrice = (
+  input: {
+    event: PricingEvent;
+    tiers: TicketTier[];
+    selection: TicketSelection;
+    buyer: { isGuest: boolean };
+    coupon: Coupon | null;
+  },
+  now: Date = new Date()
+): PriceQuote => {
+  const { event, tiers, selection, buyer, coupon } = input;
+  const tier = tiers.find(t => t.id === selection.tierId);
+  if (!tier) throw new Error('This ticket type is no longer available');
+  if (!isTierAvailable(tier, event, buyer)) throw new Error(`${tier.name} tickets aren't available to you`);
+
+  const { price, earlyBird } = getTierPrice(tier, now);
+  const quote: PriceQuote = {
+    tierId: tier.id,
+    tierName: tier.name,
+    listPrice: tier.price,
+    earlyBird,
+    price,
+    discount: 0,
+    amount: price,
+    ...(tier.audience === 'team' && tier.teamSize ? { teamSize: tier.teamSize } : {}),
+  };
+  if (!selection.couponCode?.trim()) return quote;
+
+  const problem = getCouponProblem(coupon, event, now);
+  if (problem) throw new Error(problem);
+  const discount = getCouponDiscount(price, coupon!);
+  return { ...quote, couponCode: coupon!.code, discount, amount: roundToPaise(price - discount) };
+};
+
+// Problems with a club's tier list, for the payment configuration form
+export const validateTicketTiers = (tiers: TicketTier[]): string | null => {
+  for (const tier of tiers) {
+    if (!tier.name.trim()) return 'Every ticket tier needs a name';
+    if (!(tier.price >= MIN_TICKET_PRICE)) return `${tier.name}: the price must be at least ₹${MIN_TICKET_PRICE}`;
+    if (tier.earlyBirdPrice !== undefined) {
+      if (!tier.earlyBirdEndsAt) return `${tier.name}: set when the early-bird price ends`;
+      if (!(tier.earlyBirdPrice >= MIN_TICKET_PRICE) || tier.earlyBirdPrice >= tier.price) {
+        return `${tier.name}: the early-bird price must be below the regular price`;
+      }
+    }
+    if (tier.audience === 'team' && !(tier.teamSize && tier.teamSize > 1)) return `${tier.name}: a team pass must cover at least 2 members`;
+  }
+  return null;
+};
@@ -0,0 +1,120 @@
+// Cross-checks payment records, registrations, the club ledger and webhook outcomes for one event.
+// Shared by the nightly reconciliation function and the admin console's manual run.
+import type { EventPaymentRecord, EventRegistration } from './registrationRecords';
+import type { LedgerEntry } from './ledger';
+import type { ProcessedWebhook } from './paymentWebhooks';
+
+export type ReconciliationIssueKind =
+  | 'payment-without-registration'
+  | 'registration-without-payment'
+  | 'amount-mismatch'
+  | 'missing-ledger-entry';
+
+export const RECONCILIATION_ISSUE_LABELS: Record<ReconciliationIssueKind, string> = {
+  'payment-without-registration': 'Paid, no registration',
+  'registration-without-payment': 'Registered as paid, no payment',
+  'amount-mismatch': 'Amount mismatch',
+  'missing-ledger-entry': 'Not in ledger',
+};
+
+export interface ReconciliationIssue {
+  kind: ReconciliationIssueKind;
+  clubId: string;
+  eventId: string;
+  eventName: string;
+  paymentId?: string;
+  registrationId?: string;
+  userName?: string;
+  amount?: number;
+  detail: string;
+}
+
+export interface ReconciliationReport {
+  ranAt: string; // ISO datetime
+  checkedEvents: number;
+  checkedPayments: number;
+  issues: ReconciliationIssue[];
+}
+
+export interface EventReconciliationInput {
+  clubId: string;
+  eventId: string;
+  eventName: string;
+  payments: EventPaymentRecord[];
+  registrations: EventRegistration[];
+  ledgerEntries: LedgerEntry[]; // The club's entries for this event
+  webhooks: ProcessedWebhook[]; // Orphaned and mismatched webhooks traced to this event
+}
+
+const samePaise = (a: number, b: number) => Math.round(a * 100) === Math.round(b * 100);
+
+export const reconcileEvent = (input: EventReconciliationInput): ReconciliationIssue[] => {
+  const { clubId, eventId, eventName } = input;
+  const issues: ReconciliationIssue[] = [];
+  const registrationsById = new Map(input.registrations.map(registration => [registration.id, registration]));
+  const paidRegistrationIds = new Set(input.payments.map(payment => payment.registrationId));
+  const paymentIds = new Set(input.payments.map(payment => payment.paymentId));
+  const postedPaymentIds = new Set(input.ledgerEntries.filter(entry => entry.kind === 'payment').map(entry => entry.paymentId));
+
+  input.payments.forEach(payment => {
+    const base = { clubId, eventId, eventName, paymentId: payment.paymentId, registrationId: payment.registrationId, userName: payment.userName, amount: payment.amount };
+    const registration = registrationsById.get(payment.registrationId);
+    if (!registration) {
+      issues.push({ ...base, kind: 'payment-without-registration', detail: `Payment ${payment.paymentId} points to a registration that doesn't exist` });
+    } else if (registration.registrationFee !== undefined && !samePaise(registration.registrationFee, payment.amount)) {
+      issues.push({ ...base, kind: 'amount-mismatch', detail: `Paid ₹${payment.amount}, registration fee is ₹${registration.registrationFee}` });
+    }
+    if (!postedPaymentIds.has(payment.paymentId)) {
+      issues.push({ ...base, kind: 'missing-ledger-entry', detail: `Payment ${payment.paymentId} has no ledger entry` });
+    }
+  });
+
+  input.registrations
+    .filter(registration => registration.paymentStatus === 'paid' || registration.paymentStatus === 'refunded')
+    .forEach(registration => {
+      if (paidRegistrationIds.has(registration.id!) || (registration.paymentId && paymentIds.has(registration.paymentId))) return;
+      issues.push({
+        kind: 'registration-without-payment',
+        clubId,
+        eventId,
+        eventName,
+        registrationId: registration.id,
+        paymentId: registration.paymentId,
+        userName: registration.userName,
+        amount: registration.registrationFee,
+        detail: `${registration.userName} is marked paid but no payment record exists`,
+      });
+    });
+
+  // The gateway took money but the receiver couldn't register anyone for it
+  input.webhooks.forEach(webhook => {
+    if (paymentIds.has(webhook.paymentId)) return;
+    issues.push({
+      kind: webhook.outcome === 'amount-mismatch' ? 'amount-mismatch' : 'payment-without-registration',
+      clubId,
+      eventId,
+      eventName,
+      paymentId: webhook.paymentId,
+      amount: webhook.amount,
+      detail: webhook.outcome === 'amount-mismatch'
+        ? `Payment ${webhook.paymentId} for order ${webhook.orderId} didn't match the expected amount and wasn't registered`
+        : `Payment ${webhook.paymentId} for order ${webhook.orderId} arrived without a matching checkout`,
+    });
+  });
+
+  return issues;
+};
+
+// Payments whose order the receiver couldn't trace to any checkout, so they belong to no event
+export const reconcileOrphanedWebhooks = (webhooks: ProcessedWebhook[]): ReconciliationIssue[] =>
+  webhooks
+    .filter(webhook => webhook.outcome === 'orphaned' && !webhook.eventId)
+    .map(webhook => ({
+      kind: 'payment-without-registration' as const,
+      clubId: '',
+      eventId: '',
+      eventName: 'Unknown event',
+      paymentId: webhook.paymentId,
+      amount: webhook.amount,
+      detail: `${webhook.provider} payment ${webhook.paymentId} for order ${webhook.orderId} matches no checkout`,
+    }));
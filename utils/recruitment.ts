@@ -0,0 +1,79 @@
+// Pipeline stages, review scoring, interview slots and drive windows for club recruitment
+import { Application, ApplicationReview, ApplicationStage, InterviewSlot, RecruitmentDrive, RecruitmentDriveStats } from '../types';
+
+// In pipeline order; acceptance happens from the offer stage
+export const APPLICATION_STAGES: ApplicationStage[] = ['screening', 'task', 'interview', 'offer'];
+
+export const APPLICATION_STAGE_LABELS: Record<ApplicationStage, string> = {
+  screening: 'Screening',
+  task: 'Task',
+  interview: 'Interview',
+  offer: 'Offer',
+};
+
+export const APPLICATION_SCORE_MAX = 5;
+
+// Positions reviewers can give accepted applicants. None is privileged; club leads set other titles and club roles
+export const MEMBER_POSITIONS = ['Member', 'Volunteer', 'Core Member', 'Designer', 'Content Writer'];
+
+export const getApplicationStage = (application: Application): ApplicationStage => application.stage || 'screening';
+
+// Mean of every score across the given reviews, or null when nothing has been scored
+export const averageReviewScore = (reviews: ApplicationReview[]): number | null => {
+  const scores = reviews.flatMap(review => review.scores.map(s => s.score));
+  if (scores.length === 0) return null;
+  return Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 100) / 100;
+};
+
+export const slotsOverlap = (a: Pick<InterviewSlot, 'start' | 'end'>, b: Pick<InterviewSlot, 'start' | 'end'>): boolean =>
+  new Date(a.start).getTime() < new Date(b.end).getTime() && new Date(b.start).getTime() < new Date(a.end).getTime();
+
+/**
+ * Find a pending application whose interview overlaps the proposed slot
+ * @param excludeId - The application being scheduled, so rescheduling doesn't clash with itself
+ */
+export const findSlotConflict = (
+  slot: Pick<InterviewSlot, 'start' | 'end'>,
+  applications: Application[],
+  excludeId: string
+): Application | undefined =>
+  applications.find(app =>
+    app.id !== excludeId && app.status === 'pending' && app.interviewSlot && slotsOverlap(slot, app.interviewSlot)
+  );
+
+export type DriveStatus = 'scheduled' | 'open' | 'closed';
+
+export const getDriveStatus = (drive: RecruitmentDrive, now: Date = new Date()): DriveStatus => {
+  const time = now.getTime();
+  if (time < new Date(drive.opensAt).getTime()) return 'scheduled';
+  return time < new Date(drive.closesAt).getTime() ? 'open' : 'closed';
+};
+
+// The drive currently taking applications, if any
+export const getOpenDrive = (drives: RecruitmentDrive[], now: Date = new Date()): RecruitmentDrive | undefined =>
+  drives.find(drive => getDriveStatus(drive, now) === 'open');
+
+// Whether two drives' application windows overlap
+export const drivesOverlap = (a: Pick<RecruitmentDrive, 'opensAt' | 'closesAt'>, b: Pick<RecruitmentDrive, 'opensAt' | 'closesAt'>): boolean =>
+  slotsOverlap({ start: a.opensAt, end: a.closesAt }, { start: b.opensAt, end: b.closesAt });
+
+const countBy = (applications: Application[], key: (app: Application) => string): Record<string, number> =>
+  applications.reduce<Record<string, number>>((counts, app) => {
+    const value = key(app).trim() || 'Unknown';
+    counts[value] = (counts[value] || 0) + 1;
+    return counts;
+  }, {});
+
+// Headline numbers for one drive's applications
+export const getDriveStats = (applications: Application[]): RecruitmentDriveStats => {
+  const accepted = applications.filter(app => app.status === 'accepted').length;
+  return {
+    applicants: applications.length,
+    accepted,
+    rejected: applications.filter(app => app.status === 'rejected').length,
+    pending: applications.filter(app => app.status === 'pending').length,
+    acceptanceRate: applications.length ? Math.round((accepted / applications.length) * 1000) / 10 : 0,
+    byBranch: countBy(applications, app => app.userBranch || ''),
+    byYear: countBy(applications, app => app.userYear || ''),
+  };
+};
@@ -0,0 +1,79 @@
+// Refund policy, shared by the refund modal's preview and the refund function that enforces it.
+// Kept free of Firebase imports so the Cloud Functions can use it.
+import type { Event } from '../types';
+import type { EventPaymentRecord, EventRefundReason, EventRefundRecord } from './registrationRecords';
+import { getEventSchedule } from './eventSchedule';
+
+// Structured refund rules; windows are measured back from the event's start time
+export interface RefundRules {
+  refundsEnabled: boolean;
+  fullRefundHoursBefore: number; // Cancellations at least this early get a full refund
+  partialRefundHoursBefore: number; // Cancellations at least this early get partialRefundPercent back
+  partialRefundPercent: number;
+  fullRefundOnEventCancellation: boolean; // Always refund in full if the club cancels the event
+}
+
+export const DEFAULT_REFUND_RULES: RefundRules = {
+  refundsEnabled: true,
+  fullRefundHoursBefore: 72,
+  partialRefundHoursBefore: 24,
+  partialRefundPercent: 50,
+  fullRefundOnEventCancellation: true,
+};
+
+export interface RefundQuote {
+  eligible: boolean;
+  maxAmount: number; // Most that may be refunded under the policy right now
+  message: string;
+}
+
+export const roundToPaise = (amount: number) => Math.round(amount * 100) / 100;
+
+// Work out how much of a payment can be refunded under the event's refund rules
+export const getRefundQuote = (
+  rules: RefundRules | undefined,
+  event: Pick<Event, 'date' | 'time' | 'schedule'>,
+  amountPaid: number,
+  reason: EventRefundReason,
+  now: Date = new Date()
+): RefundQuote => {
+  const policy = rules || DEFAULT_REFUND_RULES;
+
+  if (reason === 'event_cancelled' && policy.fullRefundOnEventCancellation) {
+    return { eligible: true, maxAmount: amountPaid, message: 'Event cancelled: full refund' };
+  }
+  if (!policy.refundsEnabled) {
+    return { eligible: false, maxAmount: 0, message: 'Refunds are disabled for this event' };
+  }
+
+  const schedule = getEventSchedule(event);
+  if (!schedule) {
+    return { eligible: true, maxAmount: amountPaid, message: 'Event date unknown: refund window not applied' };
+  }
+
+  const hoursBefore = (new Date(schedule.start).getTime() - now.getTime()) / (60 * 60 * 1000);
+  if (hoursBefore >= policy.fullRefundHoursBefore) {
+    return { eligible: true, maxAmount: amountPaid, message: `More than ${policy.fullRefundHoursBefore}h before the event: full refund` };
+  }
+  if (hoursBefore >= policy.partialRefundHoursBefore) {
+    return {
+      eligible: true,
+      maxAmount: roundToPaise(amountPaid * policy.partialRefundPercent / 100),
+      message: `Within ${policy.fullRefundHoursBefore}h of the event: ${policy.partialRefundPercent}% refund`,
+    };
+  }
+  return { eligible: false, maxAmount: 0, message: `The refund window closed ${policy.partialRefundHoursBefore}h before the event` };
+};
+
+export const paymentStatusFor = (payment: Pick<EventPaymentRecord, 'amount'>, refund: EventRefundRecord): EventPaymentRecord['paymentStatus'] => {
+  if (refund.state === 'failed') return 'paid';
+  if (refund.state !== 'processed') return 'refund_pending';
+  return refund.amount >= payment.amount ? 'refunded' : 'partially_refunded';
+};
+
+// The attendee-visible copy of a refund, kept on the registration in step with the payment record
+export const registrationRefundFields = (refund: EventRefundRecord): Record<string, any> => ({
+  refundStatus: refund.state,
+  refundAmount: refund.amount,
+  ...(refund.state === 'processed' ? { paymentStatus: 'refunded' } : {}),
+});
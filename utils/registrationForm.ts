@@ -0,0 +1,147 @@
+// Validation, conditional visibility and formatting for per-event registration forms
+import { RegistrationAnswer, RegistrationField, RegistrationFileAnswer, RegistrationFormResponses } from '../types';
+
+export const REGISTRATION_FIELD_TYPE_LABELS: Record<RegistrationField['type'], string> = {
+  text: 'Text',
+  choice: 'Single choice',
+  checkbox: 'Checkbox',
+  file: 'File upload',
+  number: 'Number',
+  date: 'Date',
+};
+
+const isFileAnswer = (value: RegistrationAnswer): value is RegistrationFileAnswer =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isBlankAnswer = (value: RegistrationAnswer | undefined): boolean => {
+  if (value === undefined || value === null) return true;
+  if (typeof value === 'string') return value.trim() === '';
+  if (typeof value === 'number') return Number.isNaN(value);
+  if (typeof value === 'boolean') return !value;
+  if (Array.isArray(value)) return value.length === 0;
+  return !value.url;
+};
+
+// Whether an answer satisfies a showIf condition; multi-select checkboxes match on any ticked option
+const answerMatches = (value: RegistrationAnswer | undefined, expected: string): boolean => {
+  if (value === undefined) return false;
+  if (Array.isArray(value)) return value.includes(expected);
+  if (typeof value === 'boolean') return (value ? 'Yes' : 'No') === expected;
+  if (isFileAnswer(value)) return false;
+  return String(value) === expected;
+};
+
+/**
+ * Whether a field is shown given the answers so far.
+ * A field whose condition points at a hidden field is hidden too, so chains of conditions collapse together.
+ */
+export const isFieldVisible = (field: RegistrationField, fields: RegistrationField[], answers: RegistrationFormResponses, seen: string[] = []): boolean => {
+  if (!field.showIf) return true;
+  const parent = fields.find(f => f.id === field.showIf!.fieldId);
+  if (!parent || seen.includes(parent.id)) return false;
+  return isFieldVisible(parent, fields, answers, [...seen, field.id]) && answerMatches(answers[parent.id], field.showIf.equals);
+};
+
+export const getVisibleFields = (fields: RegistrationField[], answers: RegistrationFormResponses): RegistrationField[] =>
+  fields.filter(field => isFieldVisible(field, fields, answers));
+
+// The message for one field's answer, or null when it is acceptable
+const validateAnswer = (field: RegistrationField, value: RegistrationAnswer | undefined): string | null => {
+  if (isBlankAnswer(value)) return field.required ? 'This field is required.' : null;
+  const rules = field.validation || {};
+
+  switch (field.type) {
+    case 'text': {
+      const text = String(value).trim();
+      if (rules.maxLength && text.length > rules.maxLength) return `Keep this under ${rules.maxLength} characters.`;
+      if (rules.pattern) {
+        try {
+          if (!new RegExp(`^(?:${rules.pattern})$`).test(text)) return rules.patternMessage || 'This answer is not in the expected format.';
+        } catch {
+          // An invalid pattern saved by an organizer should not block registration
+        }
+      }
+      return null;
+    }
+    case 'number': {
+      const num = Number(value);
+      if (Number.isNaN(num)) return 'Enter a number.';
+      if (rules.min !== undefined && num < rules.min) return `Must be at least ${rules.min}.`;
+      if (rules.max !== undefined && num > rules.max) return `Must be at most ${rules.max}.`;
+      return null;
+    }
+    case 'date': {
+      const date = String(value);
+      if (rules.minDate && date < rules.minDate) return `Must be on or after ${rules.minDate}.`;
+      if (rules.maxDate && date > rules.maxDate) return `Must be on or before ${rules.maxDate}.`;
+      return null;
+    }
+    case 'choice':
+      return field.options?.includes(String(value)) ? null : 'Pick one of the options.';
+    case 'checkbox':
+      if (Array.isArray(value) && value.some(option => !field.options?.includes(option))) return 'Pick from the listed options.';
+      return null;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Validate answers against the form; hidden fields are skipped
+ * @returns Error messages by field id; empty when the form can be submitted
+ */
+export const validateRegistrationForm = (fields: RegistrationField[], answers: RegistrationFormResponses): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  getVisibleFields(fields, answers).forEach(field => {
+    const error = validateAnswer(field, answers[field.id]);
+    if (error) errors[field.id] = error;
+  });
+  return errors;
+};
+
+// The answers to store: visible, non-blank fields only, with text trimmed and numbers parsed
+export const cleanRegistrationResponses = (fields: RegistrationField[], answers: RegistrationFormResponses): RegistrationFormResponses => {
+  const cleaned: RegistrationFormResponses = {};
+  getVisibleFields(fields, answers).forEach(field => {
+    const value = answers[field.id];
+    if (isBlankAnswer(value)) return;
+    if (field.type === 'number') cleaned[field.id] = Number(value);
+    else if (typeof value === 'string') cleaned[field.id] = value.trim();
+    else cleaned[field.id] = value;
+  });
+  return cleaned;
+};
+
+// Problems that stop a form from being saved with the event
+export const getRegistrationFormProblems = (fields: RegistrationField[]): string[] => {
+  const problems: string[] = [];
+  if (fields.some(field => !field.label.trim())) problems.push('Every registration question needs a label.');
+  const labels = fields.map(field => field.label.trim().toLowerCase()).filter(Boolean);
+  // Labels become export column headings, so they must be distinct
+  if (new Set(labels).size !== labels.length) problems.push('Registration questions need different labels.');
+  if (fields.some(field => field.type === 'choice' && !(field.options || []).some(option => option.trim()))) {
+    problems.push('Single choice questions need at least one option.');
+  }
+  fields.forEach((field, index) => {
+    if (field.showIf && !fields.slice(0, index).some(f => f.id === field.showIf!.fieldId)) {
+      problems.push(`"${field.label || 'Untitled'}" depends on a question that no longer comes before it.`);
+    }
+    if (field.validation?.pattern) {
+      try {
+        new RegExp(field.validation.pattern);
+      } catch {
+        problems.push(`"${field.label || 'Untitled'}" has an invalid pattern.`);
+      }
+    }
+  });
+  return problems;
+};
+
+// A single cell's worth of text for exports and organizer views
+export const formatRegistrationAnswer = (value: RegistrationAnswer | undefined): string => {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.join(', ');
+  if (isFileAnswer(value)) return value.url;
+  return String(value);
+};
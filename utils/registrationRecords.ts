@@ -0,0 +1,81 @@
+// Stored shapes of registrations and their payments, shared by the services, the reporting
+// utilities and the Cloud Functions. Kept free of Firebase client imports for that reason.
+import type { RegistrationFormResponses } from '../types';
+import type { PaymentProvider } from '../services/paymentGateway';
+import type { PriceQuote } from './pricing';
+
+export interface EventRegistration {
+  id?: string;
+  eventId: string;
+  clubId?: string;
+  userId: string;
+  userEmail: string;
+  userName: string;
+  userPhone?: string;
+  userRollNumber?: string;
+  userBranch?: string;
+  userYear?: string;
+  registrationDate: any; // Firestore timestamp
+  status: 'pending' | 'confirmed' | 'cancelled' | 'waitlisted';
+  waitlistPosition?: number; // Order in the waitlist; lower numbers are promoted first
+  promotedAt?: any; // Firestore timestamp, set when promoted off the waitlist
+  additionalInfo?: string;
+  formResponses?: RegistrationFormResponses; // Answers to the event's registration form, by field id
+  eventName?: string;
+  eventDate?: string;
+  eventLocation?: string;
+  registrationFee?: number;
+  pricing?: PriceQuote; // Ticket tier and coupon the attendee paid with
+  paymentStatus?: 'pending' | 'paid' | 'refunded';
+  paymentId?: string;
+  refundStatus?: EventRefundState; // Mirrors the refund on the payment record so attendees can see it
+  refundAmount?: number;
+  qrCode?: string; // Ticket string with a random token, encoded into the registrant's QR code
+  checkInTime?: any; // Firestore timestamp
+  checkInStatus?: 'not_checked_in' | 'checked_in';
+  checkedInBy?: string; // userId of the coordinator who scanned the ticket
+  teamId?: string; // For team events
+  isGuest?: boolean; // For guest registrations
+  guestCollege?: string; // For guest college information
+  expiresAt?: Date; // For guest registration cleanup
+}
+
+export type EventRefundState = 'requested' | 'pending' | 'processed' | 'failed';
+export type EventRefundReason = 'registration_cancelled' | 'event_cancelled';
+
+export interface EventRefundRecord {
+  refundId: string; // Our idempotency key, sent to the gateway
+  amount: number;
+  reason: EventRefundReason;
+  note?: string;
+  state: EventRefundState;
+  provider?: PaymentProvider;
+  gatewayRefundId?: string;
+  failureReason?: string;
+  initiatedBy: string; // userId of the coordinator who started the refund
+  requestedAt: string; // ISO string
+  updatedAt: string; // ISO string
+}
+
+export interface EventPaymentRecord {
+  id?: string;
+  registrationId: string;
+  eventId: string;
+  clubId: string;
+  userId: string;
+  userName: string;
+  userEmail: string;
+  amount: number;
+  paymentId: string;
+  orderId?: string;
+  provider?: PaymentProvider;
+  paymentStatus: 'paid' | 'refund_pending' | 'partially_refunded' | 'refunded';
+  paymentMethod?: string;
+  transactionId?: string;
+  gatewayFee?: number; // Rupees the gateway kept, when its webhook reports it
+  pricing?: PriceQuote; // Ticket tier and coupon behind amount
+  settledAt?: string; // ISO datetime the gateway paid this out to the club; set by the nightly job from the settlement report
+  refund?: EventRefundRecord;
+  timestamp: any; // Firestore timestamp, or the ISO datetime the gateway reported
+  expiresAt?: Date; // Guest payments only; purged once past retention
+}
@@ -0,0 +1,188 @@
+// Revenue reporting over event payment records: totals, per-event and per-period breakdowns
+// and the treasurer's statement rows
+import type { EventPaymentRecord } from './registrationRecords';
+import { toMillis } from './guestIdentity';
+
+export type RevenuePeriod = '7d' | '30d' | '90d' | '1y';
+
+export const REVENUE_PERIODS: { id: RevenuePeriod; name: string; days: number }[] = [
+  { id: '7d', name: 'Last 7 days', days: 7 },
+  { id: '30d', name: 'Last 30 days', days: 30 },
+  { id: '90d', name: 'Last 90 days', days: 90 },
+  { id: '1y', name: 'Last year', days: 365 },
+];
+
+export interface RevenueTransaction {
+  paymentId: string;
+  orderId?: string;
+  eventId: string;
+  eventName: string;
+  clubId: string;
+  clubName: string;
+  userName: string;
+  userEmail: string;
+  isGuest: boolean;
+  provider?: string;
+  method?: string;
+  ticket?: string; // Tier name
+  couponCode?: string;
+  status: EventPaymentRecord['paymentStatus'];
+  amount: number; // Rupees paid
+  refunded: number; // Rupees refunded and processed by the gateway
+  refundPending: number; // Rupees in refunds the gateway hasn't processed yet
+  fee: number; // Rupees kept by the gateway
+  net: number; // amount - refunded - fee
+  settled: boolean;
+  paidAt: string; // ISO datetime
+}
+
+export interface RevenueTotals {
+  payments: number;
+  gross: number;
+  refunds: number;
+  refundsPending: number;
+  fees: number;
+  net: number;
+  settled: number; // Net already paid out to the club
+  pending: number; // Net still held by the gateway
+}
+
+export interface RevenueBreakdownRow extends RevenueTotals {
+  key: string;
+  label: string;
+}
+
+const roundToPaise = (amount: number) => Math.round(amount * 100) / 100;
+
+export const toRevenueTransaction = (
+  payment: EventPaymentRecord,
+  context: { eventName: string; clubName: string; isGuest: boolean }
+): RevenueTransaction => {
+  const refund = payment.refund;
+  const refunded = refund?.state === 'processed' ? refund.amount : 0;
+  const refundPending = refund && (refund.state === 'requested' || refund.state === 'pending') ? refund.amount : 0;
+  const fee = payment.gatewayFee || 0;
+  const paidAt = toMillis(payment.timestamp);
+  return {
+    paymentId: payment.paymentId,
+    orderId: payment.orderId,
+    eventId: payment.eventId,
+    eventName: context.eventName,
+    clubId: payment.clubId,
+    clubName: context.clubName,
+    userName: payment.userName,
+    userEmail: payment.userEmail,
+    isGuest: context.isGuest,
+    provider: payment.provider,
+    method: payment.paymentMethod,
+    ticket: payment.pricing?.tierName,
+    couponCode: payment.pricing?.couponCode,
+    status: payment.paymentStatus,
+    amount: payment.amount,
+    refunded,
+    refundPending,
+    fee,
+    net: roundToPaise(payment.amount - refunded - fee),
+    settled: !!payment.settledAt,
+    paidAt: new Date(paidAt ?? 0).toISOString(),
+  };
+};
+
+export const getPeriodStart = (period: RevenuePeriod, now: Date = new Date()): Date => {
+  const days = REVENUE_PERIODS.find(p => p.id === period)?.days ?? 30;
+  return new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+};
+
+export const filterTransactions = (
+  transactions: RevenueTransaction[],
+  filters: { clubId: string; period: RevenuePeriod },
+  now: Date = new Date()
+): RevenueTransaction[] => {
+  const from = getPeriodStart(filters.period, now).toISOString();
+  return transactions.filter(t =>
+    (filters.clubId === 'all' || t.clubId === filters.clubId) && t.paidAt >= from && t.paidAt <= now.toISOString()
+  );
+};
+
+export const getRevenueTotals = (transactions: RevenueTransaction[]): RevenueTotals => {
+  const totals = transactions.reduce((sum, t) => ({
+    payments: sum.payments + 1,
+    gross: sum.gross + t.amount,
+    refunds: sum.refunds + t.refunded,
+    refundsPending: sum.refundsPending + t.refundPending,
+    fees: sum.fees + t.fee,
+    net: sum.net + t.net,
+    settled: sum.settled + (t.settled ? t.net : 0),
+    pending: sum.pending + (t.settled ? 0 : t.net),
+  }), { payments: 0, gross: 0, refunds: 0, refundsPending: 0, fees: 0, net: 0, settled: 0, pending: 0 });
+  return {
+    ...totals,
+    gross: roundToPaise(totals.gross),
+    refunds: roundToPaise(totals.refunds),
+    refundsPending: roundToPaise(totals.refundsPending),
+    fees: roundToPaise(totals.fees),
+    net: roundToPaise(totals.net),
+    settled: roundToPaise(totals.settled),
+    pending: roundToPaise(totals.pending),
+  };
+};
+
+const groupTotals = (
+  transactions: RevenueTransaction[],
+  keyOf: (t: RevenueTransaction) => string,
+  labelOf: (t: RevenueTransaction) => string
+): RevenueBreakdownRow[] => {
+  const groups = new Map<string, RevenueTransaction[]>();
+  transactions.forEach(t => {
+    const key = keyOf(t);
+    groups.set(key, [...(groups.get(key) || []), t]);
+  });
+  return Array.from(groups.entries()).map(([key, group]) => ({ key, label: labelOf(group[0]), ...getRevenueTotals(group) }));
+};
+
+// Highest-earning events first
+export const getRevenueByEvent = (transactions: RevenueTransaction[]): RevenueBreakdownRow[] =>
+  groupTotals(transactions, t => t.eventId, t => `${t.eventName} (${t.clubName})`).sort((a, b) => b.net - a.net);
+
+// Days for the shorter periods, ISO weeks starting Monday for 90 days, months for a year; oldest first
+export const getRevenueBucket = (iso: string, period: RevenuePeriod): string => {
+  const date = new Date(iso);
+  if (period === '1y') return iso.slice(0, 7);
+  if (period === '90d') {
+    const monday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - ((date.getUTCDay() + 6) % 7)));
+    return `Week of ${monday.toISOString().slice(0, 10)}`;
+  }
+  return iso.slice(0, 10);
+};
+
+export const getRevenueByPeriod = (transactions: RevenueTransaction[], period: RevenuePeriod): RevenueBreakdownRow[] =>
+  groupTotals(transactions, t => getRevenueBucket(t.paidAt, period), t => getRevenueBucket(t.paidAt, period))
+    .sort((a, b) => a.key.localeCompare(b.key));
+
+// One line per payment, oldest first, with a running net balance for the treasurer
+export const buildStatementRows = (transactions: RevenueTransaction[]): Record<string, string | number>[] => {
+  let balance = 0;
+  return [...transactions]
+    .sort((a, b) => a.paidAt.localeCompare(b.paidAt))
+    .map(t => {
+      balance = roundToPaise(balance + t.net);
+      return {
+        Date: t.paidAt.slice(0, 10),
+        Club: t.clubName,
+        Event: t.eventName,
+        Payer: t.userName,
+        Email: t.userEmail,
+        'Payment ID': t.paymentId,
+        Gateway: t.provider || '',
+        Method: t.method || '',
+        Ticket: t.ticket || '',
+        Coupon: t.couponCode || '',
+        Amount: t.amount,
+        Refunded: t.refunded,
+        'Gateway Fee': t.fee,
+        Net: t.net,
+        Settlement: t.settled ? 'Settled' : 'Pending',
+        'Running Balance': balance,
+      };
+    });
+};
@@ -0,0 +1,52 @@
+// QR ticket strings. Shared by the app and the Cloud Functions, so no Firebase imports here.
+// Format: GCET1.<clubId>.<eventId>.<registrationId>.<r|g>.<token>
+//
+// The token is random and stored only on the registration, which attendees and check-in staff
+// can read but nobody else can. A ticket is valid when it matches the stored string exactly;
+// nothing is derived from the IDs, so knowing them is not enough to forge one.
+export const TICKET_PREFIX = 'GCET1';
+
+export interface TicketPayload {
+  clubId: string;
+  eventId: string;
+  registrationId: string;
+  isGuest: boolean;
+  token: string;
+}
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+// 128 random bits; tickets issued before tokens carried a 22-character signature in the same slot
+export const generateTicketToken = (): string => {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return toBase64Url(bytes);
+};
+
+export const buildTicket = (clubId: string, eventId: string, registrationId: string, isGuest: boolean): string =>
+  [TICKET_PREFIX, clubId, eventId, registrationId, isGuest ? 'g' : 'r', generateTicketToken()].join('.');
+
+// Parse a scanned QR string; returns null if it is not one of our tickets
+export const parseTicket = (raw: string): TicketPayload | null => {
+  const parts = raw.trim().split('.');
+  if (parts.length !== 6 || parts[0] !== TICKET_PREFIX) return null;
+  const [, clubId, eventId, registrationId, kind, token] = parts;
+  if (!clubId || !eventId || !registrationId || !token) return null;
+  if (kind !== 'r' && kind !== 'g') return null;
+  return { clubId, eventId, registrationId, isGuest: kind === 'g', token };
+};
+
+// Constant-time comparison so ticket checks don't leak how much of a guess was right
+export const ticketsMatch = (stored: string | undefined, scanned: string): boolean => {
+  const value = scanned.trim();
+  if (!stored || stored.length !== value.length) return false;
+  let diff = 0;
+  for (let i = 0; i < stored.length; i++) {
+    diff |= stored.charCodeAt(i) ^ value.charCodeAt(i);
+  }
+  return diff === 0;
+};
@@ -0,0 +1,352 @@
+// Fixture generation, score recording, standings and placements for knockout, round-robin and Swiss tournaments
+import {
+  Tournament,
+  TournamentFormat,
+  TournamentHost,
+  TournamentMatch,
+  TournamentParticipant,
+  TournamentPlacement,
+  TournamentStanding,
+} from '../types';
+
+export const TOURNAMENT_FORMAT_LABELS: Record<TournamentFormat, string> = {
+  'knockout': 'Knockout',
+  'round-robin': 'Round Robin',
+  'swiss': 'Swiss',
+};
+
+export const PLACEMENT_POSITIONS = ['Winner', 'Runner-up', 'Third Place'];
+
+const GROUP_LABELS = 'ABCDEFGH';
+
+export interface TournamentSettings {
+  format: TournamentFormat;
+  participants: TournamentParticipant[]; // In seed order
+  groupCount?: number; // Round robin
+  swissRounds?: number; // Defaults to enough rounds to separate a single leader
+  pointsForWin?: number;
+  pointsForDraw?: number;
+}
+
+const emptyMatch = (id: string, round: number, homeId: string | null, awayId: string | null): TournamentMatch => ({
+  id,
+  round,
+  homeId,
+  awayId,
+  homeScore: null,
+  awayScore: null,
+  winnerId: null,
+  status: 'scheduled',
+});
+
+const pairKey = (a: string, b: string) => [a, b].sort().join('|');
+
+// ===== Knockout =====
+
+const nextPowerOfTwo = (n: number): number => {
+  let size = 1;
+  while (size < n) size *= 2;
+  return size;
+};
+
+// Seed positions that keep the top seeds apart until the final: 1, 8, 4, 5, 2, 7, 3, 6 for eight slots
+const bracketSeedOrder = (size: number): number[] => {
+  let order = [1];
+  while (order.length < size) {
+    const total = order.length * 2 + 1;
+    order = order.flatMap(seed => [seed, total - seed]);
+  }
+  return order;
+};
+
+// Put a decided knockout winner into the slot it feeds
+const advanceWinner = (matches: TournamentMatch[], match: TournamentMatch): TournamentMatch[] => {
+  if (!match.nextMatchId) return matches;
+  const slot = match.nextSlot === 'home' ? 'homeId' : 'awayId';
+  return matches.map(m => m.id === match.nextMatchId ? { ...m, [slot]: match.winnerId } : m);
+};
+
+const generateKnockout = (participants: TournamentParticipant[]): { matches: TournamentMatch[]; totalRounds: number } => {
+  const size = nextPowerOfTwo(participants.length);
+  const totalRounds = Math.log2(size);
+  const slots = bracketSeedOrder(size).map(seed => participants[seed - 1]?.id ?? null);
+
+  let matches: TournamentMatch[] = [];
+  for (let round = 1; round <= totalRounds; round++) {
+    const count = size / 2 ** round;
+    for (let i = 0; i < count; i++) {
+      matches.push({
+        ...emptyMatch(`r${round}-m${i + 1}`, round, round === 1 ? slots[2 * i] : null, round === 1 ? slots[2 * i + 1] : null),
+        ...(round < totalRounds ? { nextMatchId: `r${round + 1}-m${Math.floor(i / 2) + 1}`, nextSlot: i % 2 === 0 ? 'home' as const : 'away' as const } : {}),
+      });
+    }
+  }
+
+  // Top seeds without an opponent go straight through
+  matches.filter(m => m.round === 1 && (!m.homeId || !m.awayId)).forEach(bye => {
+    const resolved: TournamentMatch = { ...bye, status: 'bye', winnerId: bye.homeId || bye.awayId };
+    matches = advanceWinner(matches.map(m => m.id === bye.id ? resolved : m), resolved);
+  });
+  return { matches, totalRounds };
+};
+
+// ===== Round robin =====
+
+// Circle method: one entry stays fixed while the rest rotate, so everyone meets once
+const roundRobinRounds = (ids: string[]): [string, string][][] => {
+  const list: (string | null)[] = ids.length % 2 ? [...ids, null] : [...ids];
+  const rounds: [string, string][][] = [];
+  for (let round = 0; round < list.length - 1; round++) {
+    const pairs: [string, string][] = [];
+    for (let i = 0; i < list.length / 2; i++) {
+      const home = list[i];
+      const away = list[list.length - 1 - i];
+      // The odd one out simply sits the round out
+      if (home && away) pairs.push(round % 2 ? [away, home] : [home, away]);
+    }
+    rounds.push(pairs);
+    list.splice(1, 0, list.pop()!);
+  }
+  return rounds;
+};
+
+// Snake seeding spreads the strongest entries across groups
+const splitIntoGroups = (participants: TournamentParticipant[], groupCount: number): TournamentParticipant[][] => {
+  const groups: TournamentParticipant[][] = Array.from({ length: groupCount }, () => []);
+  participants.forEach((participant, i) => {
+    const row = Math.floor(i / groupCount);
+    const column = i % groupCount;
+    groups[row % 2 === 0 ? column : groupCount - 1 - column].push(participant);
+  });
+  return groups;
+};
+
+const generateRoundRobin = (participants: TournamentParticipant[], groupCount: number): { matches: TournamentMatch[]; totalRounds: number } => {
+  const groups = splitIntoGroups(participants, groupCount);
+  const matches: TournamentMatch[] = [];
+  let totalRounds = 0;
+  groups.forEach((members, groupIndex) => {
+    const group = GROUP_LABELS[groupIndex];
+    const rounds = roundRobinRounds(members.map(p => p.id));
+    totalRounds = Math.max(totalRounds, rounds.length);
+    rounds.forEach((pairs, roundIndex) => {
+      pairs.forEach(([home, away], i) => {
+        const id = `${groupCount > 1 ? `g${group}-` : ''}r${roundIndex + 1}-m${i + 1}`;
+        matches.push({ ...emptyMatch(id, roundIndex + 1, home, away), ...(groupCount > 1 ? { group } : {}) });
+      });
+    });
+  });
+  return { matches, totalRounds };
+};
+
+// ===== Swiss =====
+
+// Pair neighbours in the standings, skipping rematches where possible
+const pairSwissRound = (tournament: Tournament, round: number): TournamentMatch[] => {
+  const ranked = computeStandings(tournament).map(standing => standing.participantId);
+  const played = new Set(tournament.matches.filter(m => m.homeId && m.awayId).map(m => pairKey(m.homeId!, m.awayId!)));
+  const hadBye = new Set(tournament.matches.filter(m => m.status === 'bye').map(m => m.winnerId));
+  const pairings: TournamentMatch[] = [];
+  let pool = [...ranked];
+
+  if (pool.length % 2) {
+    // The lowest-ranked entry that has not yet sat out takes the bye and its win
+    const byeId = [...pool].reverse().find(id => !hadBye.has(id)) || pool[pool.length - 1];
+    pool = pool.filter(id => id !== byeId);
+    pairings.push({ ...emptyMatch(`r${round}-bye`, round, byeId, null), status: 'bye', winnerId: byeId });
+  }
+
+  let index = 1;
+  while (pool.length) {
+    const [first, ...rest] = pool;
+    const opponent = rest.find(id => !played.has(pairKey(first, id))) || rest[0];
+    pool = rest.filter(id => id !== opponent);
+    pairings.push(emptyMatch(`r${round}-m${index++}`, round, first, opponent));
+  }
+  return pairings;
+};
+
+// ===== Standings and placements =====
+
+/**
+ * Standings from every decided match, best first.
+ * Points decide first, then the tiebreak (Buchholz in Swiss, score difference otherwise), then scores for.
+ */
+export const computeStandings = (tournament: Pick<Tournament, 'format' | 'participants' | 'matches' | 'pointsForWin' | 'pointsForDraw'>): TournamentStanding[] => {
+  const rows = new Map<string, TournamentStanding>(tournament.participants.map(p => [p.id, {
+    participantId: p.id,
+    name: p.name,
+    played: 0,
+    won: 0,
+    drawn: 0,
+    lost: 0,
+    scoreFor: 0,
+    scoreAgainst: 0,
+    points: 0,
+    tiebreak: 0,
+  }]));
+  const opponents = new Map<string, string[]>();
+
+  tournament.matches.forEach(match => {
+    [match.homeId, match.awayId].forEach(id => {
+      const row = id ? rows.get(id) : undefined;
+      if (row && match.group) row.group = match.group;
+    });
+    if (match.status === 'bye' && match.winnerId) {
+      const row = rows.get(match.winnerId);
+      if (row && tournament.format === 'swiss') {
+        row.won++;
+        row.points += tournament.pointsForWin;
+      }
+      return;
+    }
+    if (match.status !== 'completed' || !match.homeId || !match.awayId) return;
+
+    const sides: [string, string, number, number][] = [
+      [match.homeId, match.awayId, match.homeScore ?? 0, match.awayScore ?? 0],
+      [match.awayId, match.homeId, match.awayScore ?? 0, match.homeScore ?? 0],
+    ];
+    sides.forEach(([id, opponentId, scored, conceded]) => {
+      const row = rows.get(id);
+      if (!row) return;
+      row.played++;
+      row.scoreFor += scored;
+      row.scoreAgainst += conceded;
+      if (match.winnerId === id) {
+        row.won++;
+        row.points += tournament.pointsForWin;
+      } else if (match.winnerId === null) {
+        row.drawn++;
+        row.points += tournament.pointsForDraw;
+      } else {
+        row.lost++;
+      }
+      opponents.set(id, [...(opponents.get(id) || []), opponentId]);
+    });
+  });
+
+  rows.forEach(row => {
+    row.tiebreak = tournament.format === 'swiss'
+      ? (opponents.get(row.participantId) || []).reduce((sum, id) => sum + (rows.get(id)?.points || 0), 0)
+      : row.scoreFor - row.scoreAgainst;
+  });
+
+  return Array.from(rows.values()).sort((a, b) =>
+    b.points - a.points
+    || b.tiebreak - a.tiebreak
+    || (b.scoreFor - b.scoreAgainst) - (a.scoreFor - a.scoreAgainst)
+    || b.scoreFor - a.scoreFor
+    || a.name.localeCompare(b.name)
+  );
+};
+
+export const getParticipantName = (tournament: Pick<Tournament, 'participants'>, id: string | null): string =>
+  tournament.participants.find(p => p.id === id)?.name || 'TBD';
+
+// Final placements once every match is decided
+export const getPlacements = (tournament: Tournament): TournamentPlacement[] => {
+  const place = (position: string, participantId: string | null): TournamentPlacement[] =>
+    participantId ? [{ position, participantId, name: getParticipantName(tournament, participantId) }] : [];
+
+  if (tournament.format === 'knockout') {
+    const final = tournament.matches.find(m => m.round === tournament.totalRounds);
+    if (!final?.winnerId) return [];
+    const runnerUp = final.homeId === final.winnerId ? final.awayId : final.homeId;
+    const semiFinalLosers = tournament.matches
+      .filter(m => m.round === tournament.totalRounds - 1 && m.status === 'completed')
+      .map(m => m.homeId === m.winnerId ? m.awayId : m.homeId);
+    return [
+      ...place('Winner', final.winnerId),
+      ...place('Runner-up', runnerUp),
+      ...semiFinalLosers.flatMap(id => place('Semi-finalist', id)),
+    ];
+  }
+
+  const standings = computeStandings(tournament);
+  if (tournament.format === 'round-robin' && (tournament.groupCount || 1) > 1) {
+    return GROUP_LABELS.slice(0, tournament.groupCount).split('').flatMap(group =>
+      place(`Group ${group} Winner`, standings.find(s => s.group === group)?.participantId || null)
+    );
+  }
+  return standings.slice(0, PLACEMENT_POSITIONS.length).flatMap((standing, i) => place(PLACEMENT_POSITIONS[i], standing.participantId));
+};
+
+// Mark the tournament complete, with placements, once nothing is left to play
+const withProgress = (tournament: Tournament): Tournament => {
+  const lastRound = Math.max(0, ...tournament.matches.map(m => m.round));
+  const isComplete = tournament.matches.every(m => m.status !== 'scheduled')
+    && (tournament.format !== 'swiss' || lastRound >= tournament.totalRounds);
+  return { ...tournament, status: isComplete ? 'completed' : 'in-progress', placements: isComplete ? getPlacements(tournament) : [] };
+};
+
+/**
+ * Generate the fixtures for a new tournament
+ * @param host - The event or fest competition the tournament belongs to
+ * @param settings - Format, participants in seed order and scoring
+ */
+export const createTournament = (host: TournamentHost, settings: TournamentSettings, now: Date = new Date()): Tournament => {
+  const participants = settings.participants;
+  if (participants.length < 2) throw new Error('A tournament needs at least two participants.');
+  if (new Set(participants.map(p => p.id)).size !== participants.length) throw new Error('A participant is listed more than once.');
+
+  const base = {
+    host,
+    format: settings.format,
+    participants,
+    pointsForWin: settings.pointsForWin ?? 3,
+    pointsForDraw: settings.pointsForDraw ?? 1,
+    status: 'in-progress' as const,
+    placements: [],
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+  };
+
+  if (settings.format === 'knockout') {
+    return withProgress({ ...base, ...generateKnockout(participants) });
+  }
+  if (settings.format === 'round-robin') {
+    // Every group needs at least two entries
+    const groupCount = Math.min(Math.max(1, settings.groupCount || 1), Math.floor(participants.length / 2), GROUP_LABELS.length);
+    return { ...base, ...generateRoundRobin(participants, groupCount), groupCount };
+  }
+  const totalRounds = Math.min(settings.swissRounds || Math.ceil(Math.log2(participants.length)), participants.length - 1);
+  const tournament: Tournament = { ...base, matches: [], totalRounds: Math.max(1, totalRounds) };
+  return { ...tournament, matches: pairSwissRound(tournament, 1) };
+};
+
+/**
+ * Record a match score, advancing knockout winners and pairing the next Swiss round when one finishes
+ * @returns The updated tournament; the input is not modified
+ */
+export const recordMatchResult = (tournament: Tournament, matchId: string, homeScore: number, awayScore: number, now: Date = new Date()): Tournament => {
+  const match = tournament.matches.find(m => m.id === matchId);
+  if (!match) throw new Error('Match not found.');
+  if (match.status === 'bye') throw new Error('Byes have no score to record.');
+  if (!match.homeId || !match.awayId) throw new Error('Both sides must be decided before the score is recorded.');
+  if (![homeScore, awayScore].every(score => Number.isFinite(score) && score >= 0)) {
+    throw new Error('Scores must be zero or more.');
+  }
+
+  const winnerId = homeScore > awayScore ? match.homeId : awayScore > homeScore ? match.awayId : null;
+  if (!winnerId && tournament.format === 'knockout') {
+    throw new Error('Knockout matches need a winner; include the tie-break in the score.');
+  }
+  const next = tournament.matches.find(m => m.id === match.nextMatchId);
+  if (next && next.status === 'completed' && match.winnerId !== winnerId) {
+    throw new Error('The next round has already been played; correct that match first.');
+  }
+
+  const updated: TournamentMatch = { ...match, homeScore, awayScore, winnerId, status: 'completed' };
+  let matches = tournament.matches.map(m => m.id === matchId ? updated : m);
+  if (tournament.format === 'knockout') matches = advanceWinner(matches, updated);
+
+  let result: Tournament = { ...tournament, matches, updatedAt: now.toISOString() };
+  if (tournament.format === 'swiss') {
+    const lastRound = Math.max(...matches.map(m => m.round));
+    const roundFinished = matches.filter(m => m.round === lastRound).every(m => m.status !== 'scheduled');
+    if (match.round === lastRound && roundFinished && lastRound < tournament.totalRounds) {
+      result = { ...result, matches: [...matches, ...pairSwissRound(result, lastRound + 1)] };
+    }
+  }
+  return withProgress(result);
+};